@@ -0,0 +1,219 @@
+"use server";
+import { createClient } from "@/utils/supabase/server";
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import cypto from "crypto";
+import { parseResumeText } from "@/utils/resume-parser";
+import {
+  indexResume,
+  MAX_RESUME_SIZE,
+  readResumeText,
+  saveResumeIndex,
+} from "@/utils/resume-index";
+import {
+  anonymizeCandidate,
+  applyRetentionBatch,
+  logPrivacyRequest,
+} from "@/utils/privacy";
+
+const acceptedResumeTypes = [
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+const uniqueFileName = (fileName: string): string => {
+  const timestamp = Date.now();
+  const hash = cypto
+    .createHash("sha256")
+    .update(fileName + timestamp)
+    .digest("hex");
+  return `${hash}-${timestamp}-${fileName}`;
+};
+
+const s3Client = new S3Client({
+  region: process.env.NEXT_PUBLIC_AWS_BUCKET_REGION || "ap-south-1",
+  credentials: {
+    accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || "",
+    secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || ""
+  }
+});
+
+// Signed upload URL for a resume added by a recruiter
+export async function getResumeUploadURL(type: string, size: number, checksum: string) {
+  if (!acceptedResumeTypes.includes(type)) {
+    return { error: "Only PDF and DOCX resumes can be uploaded" };
+  }
+  if (size > MAX_RESUME_SIZE) {
+    return { error: "File size exceeds the limit of 10 MB" };
+  }
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "User not authenticated" };
+  }
+  const key = `resumes/${uniqueFileName(user.id)}`;
+  const putObject = new PutObjectCommand({
+    Bucket: process.env.NEXT_PUBLIC_AWS_BUCKET_NAME || "",
+    Key: key,
+    ContentType: type,
+    ContentLength: size,
+    ChecksumSHA256: checksum,
+    Metadata: {
+      "user-id": user.id,
+      "file-type": type
+    }
+  });
+
+  const signedURL = await getSignedUrl(s3Client, putObject, {
+    expiresIn: 3600 // URL valid for 1 hour
+  });
+  if (!signedURL) {
+    return { error: "Failed to generate signed URL" };
+  }
+  return { success: { url: signedURL, key: key } };
+}
+
+// Parses the resume stored on a candidate's profile, which must be an object
+// in our own bucket
+export async function parseCandidateResume(candidateId: string) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "User not authenticated" };
+  }
+
+  const { data: profile, error } = await supabase
+    .from("candidates_profiles")
+    .select("resume_link")
+    .eq("id", candidateId)
+    .single();
+
+  if (error || !profile) {
+    return { error: "Candidate not found" };
+  }
+  if (!profile.resume_link) {
+    return { error: "This candidate has no resume to parse" };
+  }
+
+  try {
+    const text = await readResumeText(profile.resume_link);
+    // The text is at hand, so refresh the search index as well
+    await saveResumeIndex(supabase, candidateId, profile.resume_link, text, null);
+    return { success: parseResumeText(text) };
+  } catch (err) {
+    console.log("parseCandidateResume error:", err);
+    return {
+      error: err instanceof Error ? err.message : "Failed to parse resume",
+    };
+  }
+}
+
+// Indexes one candidate's resume, e.g. right after it was uploaded
+export async function indexCandidateResume(candidateId: string) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "User not authenticated" };
+  }
+
+  const { data: profile, error } = await supabase
+    .from("candidates_profiles")
+    .select("resume_link")
+    .eq("id", candidateId)
+    .single();
+
+  if (error || !profile?.resume_link) {
+    return { error: "This candidate has no resume to index" };
+  }
+
+  const indexed = await indexResume(supabase, candidateId, profile.resume_link);
+  return indexed
+    ? { success: { candidateId } }
+    : { error: "Failed to read resume" };
+}
+
+// Right to erasure: anonymizes a candidate who applied to one of the
+// organization's jobs
+export async function eraseCandidateData(
+  candidateId: string,
+  organizationId: string
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "User not authenticated" };
+  }
+
+  const { data: role } = await supabase.rpc("get_user_role_in_org", {
+    user_uuid: user.id,
+    org_uuid: organizationId,
+  });
+  if (role !== "admin" && role !== "hr") {
+    return { error: "Only admins and HR can erase candidate data" };
+  }
+
+  const { data: applications, error } = await supabase
+    .from("job_applications")
+    .select("id, job:jobs!job_applications_job_id_fkey!inner(organization_id)")
+    .eq("candidate_id", candidateId)
+    .eq("job.organization_id", organizationId)
+    .limit(1);
+
+  if (error || !applications || applications.length === 0) {
+    return { error: "Candidate not found" };
+  }
+
+  try {
+    await anonymizeCandidate(supabase, organizationId, candidateId);
+  } catch (err) {
+    console.log("eraseCandidateData error:", err);
+    return {
+      error: err instanceof Error ? err.message : "Failed to erase candidate data",
+    };
+  }
+
+  await logPrivacyRequest(supabase, {
+    organizationId,
+    candidateId,
+    type: "erasure",
+    performedBy: user.id,
+  });
+  return { success: { candidateId } };
+}
+
+// Anonymizes a batch of the organization's candidates with no activity for
+// longer than its retention policy allows. Admins run it from the retention
+// settings, passing back the cursor of the previous batch until it is null;
+// /cron/apply-retention runs it on a schedule.
+export async function applyRetentionPolicy(
+  organizationId: string,
+  after: string | null = null
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "User not authenticated" };
+  }
+
+  const { data: role } = await supabase.rpc("get_user_role_in_org", {
+    user_uuid: user.id,
+    org_uuid: organizationId,
+  });
+  if (role !== "admin") {
+    return { error: "Only admins can apply the retention policy" };
+  }
+
+  try {
+    const batch = await applyRetentionBatch(supabase, organizationId, {
+      performedBy: user.id,
+      after,
+    });
+    return { success: batch };
+  } catch (err) {
+    console.log("applyRetentionPolicy error:", err);
+    return {
+      error:
+        err instanceof Error ? err.message : "Failed to apply retention policy",
+    };
+  }
+}
@@ -0,0 +1,687 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { RootState } from "@/store/store";
+import Breadcrumb from "@/components/Breadcrumb";
+import { initializeAuth } from "@/store/features/userSlice";
+import {
+  selectUserContext,
+  setUserContext,
+} from "@/store/features/candidatesSlice";
+import {
+  clearCandidateImportError,
+  createCandidate,
+  emptyCandidateDraft,
+  fetchAssignableJobs,
+  selectAssignableJobs,
+  selectAssignableJobsLoading,
+  selectCandidateImportError,
+  selectCandidateSaving,
+  validateCandidateDraft,
+} from "@/store/features/candidateImportSlice";
+import {
+  getResumeUploadURL,
+  indexCandidateResume,
+} from "@/app/candidates/actions";
+import { computeChecksum } from "@/app/jobs/add-job/utils";
+import {
+  CandidateDraft,
+  ParsedEducation,
+  ParsedExperience,
+} from "@/types/custom";
+
+const acceptedResumeTypes = ".pdf,.docx";
+
+const inputClass =
+  "w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-neutral-50 disabled:text-neutral-400";
+const labelClass = "block text-sm font-medium text-neutral-700 mb-1";
+
+const emptyExperience = (): ParsedExperience => ({
+  companyName: "",
+  jobTitle: "",
+  startDate: null,
+  endDate: null,
+  currentlyWorking: false,
+});
+
+const emptyEducation = (): ParsedEducation => ({
+  institution: "",
+  degree: null,
+  fieldOfStudy: null,
+  startDate: null,
+  endDate: null,
+  isCurrent: false,
+});
+
+// <input type="month"> works with YYYY-MM, records keep the first of the month
+const toMonthValue = (date: string | null) => (date ? date.slice(0, 7) : "");
+const fromMonthValue = (value: string) => (value ? `${value}-01` : null);
+
+const toAmount = (value: string) => (value ? Number(value) : null);
+
+// Uploads a resume to S3 and returns its public URL
+const uploadResume = async (file: File) => {
+  const checksum = await computeChecksum(file);
+  const signedURL = await getResumeUploadURL(file.type, file.size, checksum);
+
+  if (signedURL.error || !signedURL.success) {
+    throw new Error(signedURL.error || "Failed to get signed URL");
+  }
+
+  const response = await fetch(signedURL.success.url, {
+    method: "PUT",
+    headers: {
+      "Content-Type": file.type,
+    },
+    body: file,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Upload failed with status: ${response.status}`);
+  }
+
+  return `https://${process.env.NEXT_PUBLIC_AWS_BUCKET_NAME}.s3.${process.env.NEXT_PUBLIC_AWS_BUCKET_REGION}.amazonaws.com/${signedURL.success.key}`;
+};
+
+const RemoveButton = ({ onClick }: { onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="text-sm text-red-600 hover:underline cursor-pointer"
+  >
+    Remove
+  </button>
+);
+
+export default function AddCandidatePage() {
+  const dispatch = useAppDispatch();
+  const collapsed = useAppSelector(
+    (state: RootState) => state.ui.sidebar.collapsed
+  );
+  const user = useAppSelector((state: RootState) => state.user.user);
+  const organization = useAppSelector(
+    (state: RootState) => state.user.organization
+  );
+  const roles = useAppSelector((state: RootState) => state.user.roles);
+  const userLoading = useAppSelector((state: RootState) => state.user.loading);
+  const userContext = useAppSelector(selectUserContext);
+
+  const jobs = useAppSelector(selectAssignableJobs);
+  const jobsLoading = useAppSelector(selectAssignableJobsLoading);
+  const saving = useAppSelector(selectCandidateSaving);
+  const error = useAppSelector(selectCandidateImportError);
+
+  const [draft, setDraft] = useState<CandidateDraft>(emptyCandidateDraft);
+  const [jobId, setJobId] = useState("");
+  const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [attachExisting, setAttachExisting] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [added, setAdded] = useState<{ name: string; outcome: string } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!user && !userLoading) {
+      dispatch(initializeAuth());
+    }
+  }, [user, userLoading, dispatch]);
+
+  useEffect(() => {
+    if (user?.id && organization?.id && roles.length > 0 && !userContext) {
+      dispatch(
+        setUserContext({
+          userId: user.id,
+          organizationId: organization.id,
+          roles: roles.map((role) => role.role.name).join(", "),
+        })
+      );
+    }
+  }, [dispatch, user?.id, organization?.id, roles, userContext]);
+
+  useEffect(() => {
+    if (userContext) {
+      dispatch(fetchAssignableJobs(userContext));
+    }
+  }, [dispatch, userContext]);
+
+  useEffect(() => {
+    dispatch(clearCandidateImportError());
+  }, [dispatch]);
+
+  const updateDraft = (change: Partial<CandidateDraft>) =>
+    setDraft((current) => ({ ...current, ...change }));
+
+  const updateExperience = (index: number, change: Partial<ParsedExperience>) =>
+    updateDraft({
+      experience: draft.experience.map((entry, i) =>
+        i === index ? { ...entry, ...change } : entry
+      ),
+    });
+
+  const updateEducation = (index: number, change: Partial<ParsedEducation>) =>
+    updateDraft({
+      education: draft.education.map((entry, i) =>
+        i === index ? { ...entry, ...change } : entry
+      ),
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userContext) return;
+
+    const errors = validateCandidateDraft(draft);
+    if (!jobId) {
+      errors.unshift("Select a job for this candidate");
+    }
+    setFormErrors(errors);
+    setAdded(null);
+    if (errors.length > 0) return;
+
+    let resumeLink = draft.resumeLink;
+    if (resumeFile) {
+      setUploading(true);
+      try {
+        resumeLink = await uploadResume(resumeFile);
+      } catch (err) {
+        setFormErrors([
+          `Failed to upload resume: ${
+            err instanceof Error ? err.message : "Unknown error"
+          }`,
+        ]);
+        return;
+      } finally {
+        setUploading(false);
+      }
+    }
+
+    try {
+      const result = await dispatch(
+        createCandidate({
+          draft: { ...draft, resumeLink },
+          jobId,
+          duplicateMode: attachExisting ? "attach" : "skip",
+          userContext,
+        })
+      ).unwrap();
+
+      // Make the new resume searchable straight away
+      if (resumeFile && result.outcome === "created" && result.candidateId) {
+        indexCandidateResume(result.candidateId);
+      }
+
+      setAdded({ name: draft.name.trim(), outcome: result.outcome });
+      setDraft(emptyCandidateDraft());
+      setResumeFile(null);
+      setAttachExisting(false);
+    } catch (err) {
+      console.log("Failed to add candidate:", err);
+    }
+  };
+
+  const busy = saving || uploading;
+
+  return (
+    <div
+      className={`transition-all duration-300 min-h-full md:pb-0 px-4 ${
+        collapsed ? "md:ml-20" : "md:ml-60"
+      } pt-18`}
+    >
+      <div className="p-6">
+        <Breadcrumb
+          segments={[
+            { label: "Candidates", href: "/candidates" },
+            { label: "Add Candidate" },
+          ]}
+        />
+        <div className="flex items-center justify-between max-w-4xl mb-8">
+          <div>
+            <h1 className="text-xl font-semibold text-neutral-900">
+              Add Candidate
+            </h1>
+            <p className="text-sm text-neutral-500">
+              Add a candidate you sourced yourself and attach them to a job.
+            </p>
+          </div>
+          <Link
+            href="/candidates/import"
+            className="text-sm text-blue-600 font-medium hover:underline"
+          >
+            Import from CSV
+          </Link>
+        </div>
+
+        {added && (
+          <div className="max-w-4xl mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            {added.outcome === "created"
+              ? `${added.name} was added.`
+              : `${added.name} already had a profile, so the application was added to it.`}{" "}
+            <Link href="/candidates" className="font-medium hover:underline">
+              View candidates
+            </Link>
+          </div>
+        )}
+
+        {(formErrors.length > 0 || error) && (
+          <div className="max-w-4xl mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <ul className="text-sm text-red-700 list-disc pl-5">
+              {(formErrors.length > 0 ? formErrors : [error]).map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <form
+          onSubmit={handleSubmit}
+          className="max-w-4xl bg-white rounded-lg border border-neutral-200 p-6 space-y-8"
+        >
+          <section>
+            <div className="font-semibold text-lg text-blue-700 mb-3">Job</div>
+            <select
+              value={jobId}
+              onChange={(e) => setJobId(e.target.value)}
+              disabled={jobsLoading}
+              aria-label="Job"
+              className={inputClass}
+            >
+              <option value="">
+                {jobsLoading ? "Loading jobs..." : "Select a job"}
+              </option>
+              {jobs.map((job) => (
+                <option key={job.id} value={job.id}>
+                  {job.title}
+                  {job.companyName ? ` · ${job.companyName}` : ""}
+                  {job.status && job.status !== "active" ? ` (${job.status})` : ""}
+                </option>
+              ))}
+            </select>
+            {!jobsLoading && userContext && jobs.length === 0 && (
+              <p className="text-sm text-neutral-500 mt-2">
+                You do not have access to any jobs to add candidates to.
+              </p>
+            )}
+          </section>
+
+          <section>
+            <div className="font-semibold text-lg text-blue-700 mb-3">
+              Personal Details
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="candidate-name" className={labelClass}>
+                  Name *
+                </label>
+                <input
+                  id="candidate-name"
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-email" className={labelClass}>
+                  Email *
+                </label>
+                <input
+                  id="candidate-email"
+                  type="email"
+                  value={draft.email}
+                  onChange={(e) => updateDraft({ email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-mobile" className={labelClass}>
+                  Mobile Number
+                </label>
+                <input
+                  id="candidate-mobile"
+                  type="tel"
+                  value={draft.mobileNumber || ""}
+                  onChange={(e) =>
+                    updateDraft({ mobileNumber: e.target.value || null })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-address" className={labelClass}>
+                  Address
+                </label>
+                <input
+                  id="candidate-address"
+                  type="text"
+                  value={draft.address || ""}
+                  onChange={(e) =>
+                    updateDraft({ address: e.target.value || null })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-linkedin" className={labelClass}>
+                  LinkedIn URL
+                </label>
+                <input
+                  id="candidate-linkedin"
+                  type="url"
+                  value={draft.linkedinUrl || ""}
+                  onChange={(e) =>
+                    updateDraft({ linkedinUrl: e.target.value || null })
+                  }
+                  placeholder="https://"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-portfolio" className={labelClass}>
+                  Portfolio URL
+                </label>
+                <input
+                  id="candidate-portfolio"
+                  type="url"
+                  value={draft.portfolioUrl || ""}
+                  onChange={(e) =>
+                    updateDraft({ portfolioUrl: e.target.value || null })
+                  }
+                  placeholder="https://"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-current-ctc" className={labelClass}>
+                  Current CTC
+                </label>
+                <input
+                  id="candidate-current-ctc"
+                  type="number"
+                  min={0}
+                  value={draft.currentCtc ?? ""}
+                  onChange={(e) =>
+                    updateDraft({ currentCtc: toAmount(e.target.value) })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-expected-ctc" className={labelClass}>
+                  Expected CTC
+                </label>
+                <input
+                  id="candidate-expected-ctc"
+                  type="number"
+                  min={0}
+                  value={draft.expectedCtc ?? ""}
+                  onChange={(e) =>
+                    updateDraft({ expectedCtc: toAmount(e.target.value) })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-notice" className={labelClass}>
+                  Notice Period
+                </label>
+                <input
+                  id="candidate-notice"
+                  type="text"
+                  value={draft.noticePeriod || ""}
+                  onChange={(e) =>
+                    updateDraft({ noticePeriod: e.target.value || null })
+                  }
+                  placeholder="e.g. 30 days"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="candidate-resume" className={labelClass}>
+                  Resume (PDF or DOCX, up to 10 MB)
+                </label>
+                <input
+                  id="candidate-resume"
+                  type="file"
+                  accept={acceptedResumeTypes}
+                  onChange={(e) => setResumeFile(e.target.files?.[0] || null)}
+                  className="w-full text-sm text-neutral-700 file:mr-3 file:px-3 file:py-1.5 file:border file:border-neutral-300 file:rounded-md file:bg-white file:text-sm file:cursor-pointer"
+                />
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <div className="font-semibold text-lg text-blue-700">
+                Experience
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  updateDraft({
+                    experience: [...draft.experience, emptyExperience()],
+                  })
+                }
+                className="text-sm text-blue-600 font-medium hover:underline cursor-pointer"
+              >
+                + Add experience
+              </button>
+            </div>
+            {draft.experience.length === 0 ? (
+              <p className="text-sm text-neutral-500">No experience added.</p>
+            ) : (
+              <div className="space-y-3">
+                {draft.experience.map((entry, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-1 md:grid-cols-2 gap-3 p-3 border border-neutral-200 rounded-md"
+                  >
+                    <input
+                      type="text"
+                      value={entry.jobTitle}
+                      onChange={(e) =>
+                        updateExperience(index, { jobTitle: e.target.value })
+                      }
+                      placeholder="Job title *"
+                      className={inputClass}
+                    />
+                    <input
+                      type="text"
+                      value={entry.companyName}
+                      onChange={(e) =>
+                        updateExperience(index, { companyName: e.target.value })
+                      }
+                      placeholder="Company *"
+                      className={inputClass}
+                    />
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="month"
+                        value={toMonthValue(entry.startDate)}
+                        onChange={(e) =>
+                          updateExperience(index, {
+                            startDate: fromMonthValue(e.target.value),
+                          })
+                        }
+                        aria-label="Start date"
+                        className={inputClass}
+                      />
+                      <input
+                        type="month"
+                        value={toMonthValue(entry.endDate)}
+                        onChange={(e) =>
+                          updateExperience(index, {
+                            endDate: fromMonthValue(e.target.value),
+                          })
+                        }
+                        disabled={entry.currentlyWorking}
+                        aria-label="End date"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-center gap-2 text-sm text-neutral-700">
+                        <input
+                          type="checkbox"
+                          checked={entry.currentlyWorking}
+                          onChange={(e) =>
+                            updateExperience(index, {
+                              currentlyWorking: e.target.checked,
+                            })
+                          }
+                        />
+                        Currently working here
+                      </label>
+                      <RemoveButton
+                        onClick={() =>
+                          updateDraft({
+                            experience: draft.experience.filter(
+                              (_, i) => i !== index
+                            ),
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <div className="font-semibold text-lg text-blue-700">
+                Education
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  updateDraft({
+                    education: [...draft.education, emptyEducation()],
+                  })
+                }
+                className="text-sm text-blue-600 font-medium hover:underline cursor-pointer"
+              >
+                + Add education
+              </button>
+            </div>
+            {draft.education.length === 0 ? (
+              <p className="text-sm text-neutral-500">No education added.</p>
+            ) : (
+              <div className="space-y-3">
+                {draft.education.map((entry, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-1 md:grid-cols-2 gap-3 p-3 border border-neutral-200 rounded-md"
+                  >
+                    <input
+                      type="text"
+                      value={entry.institution}
+                      onChange={(e) =>
+                        updateEducation(index, { institution: e.target.value })
+                      }
+                      placeholder="Institution *"
+                      className={`${inputClass} md:col-span-2`}
+                    />
+                    <input
+                      type="text"
+                      value={entry.degree || ""}
+                      onChange={(e) =>
+                        updateEducation(index, { degree: e.target.value || null })
+                      }
+                      placeholder="Degree"
+                      className={inputClass}
+                    />
+                    <input
+                      type="text"
+                      value={entry.fieldOfStudy || ""}
+                      onChange={(e) =>
+                        updateEducation(index, {
+                          fieldOfStudy: e.target.value || null,
+                        })
+                      }
+                      placeholder="Field of study"
+                      className={inputClass}
+                    />
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="month"
+                        value={toMonthValue(entry.startDate)}
+                        onChange={(e) =>
+                          updateEducation(index, {
+                            startDate: fromMonthValue(e.target.value),
+                          })
+                        }
+                        aria-label="Start date"
+                        className={inputClass}
+                      />
+                      <input
+                        type="month"
+                        value={toMonthValue(entry.endDate)}
+                        onChange={(e) =>
+                          updateEducation(index, {
+                            endDate: fromMonthValue(e.target.value),
+                          })
+                        }
+                        disabled={entry.isCurrent}
+                        aria-label="End date"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-center gap-2 text-sm text-neutral-700">
+                        <input
+                          type="checkbox"
+                          checked={entry.isCurrent}
+                          onChange={(e) =>
+                            updateEducation(index, {
+                              isCurrent: e.target.checked,
+                            })
+                          }
+                        />
+                        Currently studying
+                      </label>
+                      <RemoveButton
+                        onClick={() =>
+                          updateDraft({
+                            education: draft.education.filter(
+                              (_, i) => i !== index
+                            ),
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <div className="flex flex-wrap items-center justify-between gap-4 pt-4 border-t border-neutral-200">
+            <label className="flex items-center gap-2 text-sm text-neutral-700">
+              <input
+                type="checkbox"
+                checked={attachExisting}
+                onChange={(e) => setAttachExisting(e.target.checked)}
+              />
+              If this email already has a profile, add the application to it
+            </label>
+            <button
+              type="submit"
+              disabled={busy || !userContext}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {uploading
+                ? "Uploading resume..."
+                : saving
+                ? "Adding..."
+                : "Add candidate"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,492 @@
+"use client";
+
+import { Suspense, useEffect, useMemo } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { RootState } from "@/store/store";
+import Breadcrumb from "@/components/Breadcrumb";
+import { ErrorMessage } from "@/components/errorMessage";
+import StatusBadge from "@/components/status-badge";
+import { initializeAuth } from "@/store/features/userSlice";
+import {
+  CandidateWithApplication,
+  Education,
+  Experience,
+  selectUserContext,
+  setUserContext,
+} from "@/store/features/candidatesSlice";
+import { fetchPipeline } from "@/store/features/pipelineSlice";
+import {
+  fetchApplicationScorecards,
+  RECOMMENDATION_LABELS,
+  summarizeScorecards,
+} from "@/store/features/scorecardsSlice";
+import {
+  fetchComparedApplications,
+  MIN_COMPARED_APPLICATIONS,
+  selectComparedApplications,
+  selectComparisonError,
+  selectComparisonLoading,
+} from "@/store/features/comparisonSlice";
+import FitScoreBadge from "@/components/fit-score-badge";
+import { Scorecard, SCORECARD_RATING_MAX } from "@/types/custom";
+import { toFitScore } from "@/utils/fit-score";
+
+// Which end of a numeric row is preferable, if either
+type Preference = "higher" | "lower" | null;
+
+interface ComparisonRow {
+  label: string;
+  cells: React.ReactNode[];
+  // Comparable form of each cell; cells differ when these are not all equal
+  keys: string[];
+  // Numeric form of each cell, used to mark the preferable value
+  numbers?: (number | null)[];
+  prefer?: Preference;
+}
+
+const formatDate = (dateString: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("en-US", {
+        month: "short",
+        year: "numeric",
+      })
+    : null;
+
+const formatAmount = (value: number | null) =>
+  value === null ? "—" : value.toLocaleString("en-US");
+
+// Total experience in years, to one decimal
+const experienceYears = (experience: Experience[]) => {
+  const totalMonths = experience.reduce((total, exp) => {
+    if (!exp.start_date) return total;
+    const start = new Date(exp.start_date);
+    const end = exp.end_date ? new Date(exp.end_date) : new Date();
+    return (
+      total +
+      Math.max(
+        0,
+        (end.getFullYear() - start.getFullYear()) * 12 +
+          (end.getMonth() - start.getMonth())
+      )
+    );
+  }, 0);
+  return Math.round((totalMonths / 12) * 10) / 10;
+};
+
+const educationLine = (education: Education) =>
+  [
+    [education.degree, education.field_of_study].filter(Boolean).join(", "),
+    education.college_university,
+  ]
+    .filter(Boolean)
+    .join(" — ");
+
+const dateRange = (
+  start: string | null,
+  end: string | null,
+  current: boolean | null
+) => {
+  const from = formatDate(start);
+  const to = current ? "Present" : formatDate(end);
+  return from || to ? `${from || "?"} – ${to || "?"}` : null;
+};
+
+const byStartDesc = <T extends { start_date: string | null }>(a: T, b: T) =>
+  (b.start_date || "").localeCompare(a.start_date || "");
+
+const EntryList = ({
+  entries,
+}: {
+  entries: { title: string; detail: string | null }[];
+}) =>
+  entries.length === 0 ? (
+    <span className="text-neutral-400">—</span>
+  ) : (
+    <ul className="space-y-2">
+      {entries.map((entry, index) => (
+        <li key={index} className="border-l-2 border-blue-200 pl-2">
+          <div className="text-neutral-900">{entry.title}</div>
+          {entry.detail && (
+            <div className="text-xs text-neutral-500">{entry.detail}</div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+// Index of the preferable value, or -1 when there is no single one
+const preferredIndex = (numbers: (number | null)[], prefer: Preference) => {
+  if (!prefer) return -1;
+  const present = numbers.filter((value): value is number => value !== null);
+  if (present.length < 2) return -1;
+  const target =
+    prefer === "higher" ? Math.max(...present) : Math.min(...present);
+  return present.filter((value) => value === target).length === 1
+    ? numbers.indexOf(target)
+    : -1;
+};
+
+function buildRows(
+  applications: CandidateWithApplication[],
+  scorecards: (Scorecard[] | undefined)[]
+): ComparisonRow[] {
+  const summaries = scorecards.map((cards) =>
+    cards ? summarizeScorecards(cards) : null
+  );
+  const years = applications.map((a) => experienceYears(a.experience || []));
+  const fits = applications.map((a) => a.fit || toFitScore(null, null));
+  const notice = fits.map((fit) => fit.noticeDays);
+  const competencyNames = Array.from(
+    new Set(
+      summaries.flatMap((summary) =>
+        (summary?.competencies || []).map((competency) => competency.name)
+      )
+    )
+  );
+
+  return [
+    {
+      label: "Job",
+      cells: applications.map((a) =>
+        [a.job_title, a.company_name].filter(Boolean).join(" · ")
+      ),
+      keys: applications.map((a) => a.job_id),
+    },
+    {
+      label: "Status",
+      cells: applications.map((a) => (
+        <StatusBadge key={a.application_id} status={a.application_status} />
+      )),
+      keys: applications.map((a) => a.application_status),
+    },
+    {
+      label: "Applied",
+      cells: applications.map((a) => formatDate(a.applied_date) || "—"),
+      keys: applications.map((a) => formatDate(a.applied_date) || ""),
+    },
+    {
+      label: "Fit Score",
+      cells: fits.map((fit, index) => (
+        <FitScoreBadge key={applications[index].application_id} fit={fit} />
+      )),
+      keys: fits.map((fit) => String(fit.total)),
+      numbers: fits.map((fit) => fit.total),
+      prefer: "higher",
+    },
+    {
+      label: "Experience",
+      cells: years.map((value) => `${value} yrs`),
+      keys: years.map(String),
+      numbers: years,
+      prefer: "higher",
+    },
+    {
+      label: "Current CTC",
+      cells: applications.map((a) => formatAmount(a.current_ctc)),
+      keys: applications.map((a) => String(a.current_ctc)),
+    },
+    {
+      label: "Expected CTC",
+      cells: applications.map((a) => formatAmount(a.expected_ctc)),
+      keys: applications.map((a) => String(a.expected_ctc)),
+      numbers: applications.map((a) => a.expected_ctc),
+      prefer: "lower",
+    },
+    {
+      label: "Notice Period",
+      cells: applications.map((a) => a.notice_period || "—"),
+      keys: notice.map(String),
+      numbers: notice,
+      prefer: "lower",
+    },
+    {
+      label: "Education",
+      cells: applications.map((a) => (
+        <EntryList
+          key={a.application_id}
+          entries={[...(a.education || [])].sort(byStartDesc).map((e) => ({
+            title: educationLine(e),
+            detail: dateRange(e.start_date, e.end_date, e.is_current),
+          }))}
+        />
+      )),
+      keys: applications.map((a) =>
+        (a.education || []).map(educationLine).sort().join("|").toLowerCase()
+      ),
+    },
+    {
+      label: "Experience Timeline",
+      cells: applications.map((a) => (
+        <EntryList
+          key={a.application_id}
+          entries={[...(a.experience || [])].sort(byStartDesc).map((e) => ({
+            title: `${e.job_title} · ${e.company_name}`,
+            detail: dateRange(e.start_date, e.end_date, e.currently_working),
+          }))}
+        />
+      )),
+      keys: applications.map((a) =>
+        (a.experience || [])
+          .map((e) => `${e.job_title}@${e.company_name}`)
+          .sort()
+          .join("|")
+          .toLowerCase()
+      ),
+    },
+    {
+      label: "Scorecard Average",
+      cells: summaries.map((summary) =>
+        !summary
+          ? "Loading..."
+          : summary.averageRating === null
+          ? "No scorecards"
+          : `${summary.averageRating.toFixed(1)} / ${SCORECARD_RATING_MAX} (${
+              summary.count
+            } scorecard${summary.count === 1 ? "" : "s"})`
+      ),
+      keys: summaries.map((summary) =>
+        summary?.averageRating != null ? summary.averageRating.toFixed(1) : ""
+      ),
+      numbers: summaries.map((summary) => summary?.averageRating ?? null),
+      prefer: "higher",
+    },
+    {
+      label: "Recommendation",
+      cells: summaries.map((summary) =>
+        summary?.recommendation
+          ? RECOMMENDATION_LABELS[summary.recommendation]
+          : "—"
+      ),
+      keys: summaries.map((summary) => summary?.recommendation || ""),
+    },
+    ...competencyNames.map((name): ComparisonRow => {
+      const averages = summaries.map(
+        (summary) =>
+          summary?.competencies.find((competency) => competency.name === name)
+            ?.averageRating ?? null
+      );
+      return {
+        label: name,
+        cells: averages.map((value) =>
+          value === null ? "—" : `${value.toFixed(1)} / ${SCORECARD_RATING_MAX}`
+        ),
+        keys: averages.map((value) => (value === null ? "" : value.toFixed(1))),
+        numbers: averages,
+        prefer: "higher",
+      };
+    }),
+  ];
+}
+
+function CompareCandidatesContent() {
+  const dispatch = useAppDispatch();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const collapsed = useAppSelector(
+    (state: RootState) => state.ui.sidebar.collapsed
+  );
+  const user = useAppSelector((state: RootState) => state.user.user);
+  const organization = useAppSelector(
+    (state: RootState) => state.user.organization
+  );
+  const roles = useAppSelector((state: RootState) => state.user.roles);
+  const userLoading = useAppSelector((state: RootState) => state.user.loading);
+  const userContext = useAppSelector(selectUserContext);
+
+  const applications = useAppSelector(selectComparedApplications);
+  const loading = useAppSelector(selectComparisonLoading);
+  const error = useAppSelector(selectComparisonError);
+  const scorecardsById = useAppSelector(
+    (state: RootState) => state.scorecards.byApplicationId
+  );
+
+  const idsParam = searchParams.get("ids") || "";
+  const applicationIds = useMemo(
+    () => idsParam.split(",").filter(Boolean),
+    [idsParam]
+  );
+
+  useEffect(() => {
+    if (!user && !userLoading) {
+      dispatch(initializeAuth());
+    }
+  }, [user, userLoading, dispatch]);
+
+  useEffect(() => {
+    if (user?.id && organization?.id && roles.length > 0 && !userContext) {
+      dispatch(
+        setUserContext({
+          userId: user.id,
+          organizationId: organization.id,
+          roles: roles.map((role) => role.role.name).join(", "),
+        })
+      );
+    }
+  }, [dispatch, user?.id, organization?.id, roles, userContext]);
+
+  useEffect(() => {
+    if (!userContext) return;
+    dispatch(fetchPipeline(userContext.organizationId));
+  }, [dispatch, userContext]);
+
+  useEffect(() => {
+    if (!userContext) return;
+    dispatch(fetchComparedApplications({ applicationIds, userContext }));
+    applicationIds.forEach((applicationId) =>
+      dispatch(fetchApplicationScorecards({ applicationId, userContext }))
+    );
+  }, [dispatch, userContext, applicationIds]);
+
+  // Only show what was asked for, not a previous comparison still in state
+  const shown = useMemo(
+    () =>
+      applications.filter((application) =>
+        applicationIds.includes(application.application_id)
+      ),
+    [applications, applicationIds]
+  );
+
+  const rows = useMemo(
+    () =>
+      buildRows(
+        shown,
+        shown.map((application) => scorecardsById[application.application_id])
+      ),
+    [shown, scorecardsById]
+  );
+
+  const handleRemove = (applicationId: string) => {
+    const remaining = applicationIds.filter((id) => id !== applicationId);
+    router.replace(`/candidates/compare?ids=${remaining.join(",")}`);
+  };
+
+  return (
+    <div
+      className={`transition-all duration-300 min-h-full md:pb-0 px-4 ${
+        collapsed ? "md:ml-20" : "md:ml-60"
+      } pt-18 print:ml-0 print:pt-0 print:px-0`}
+    >
+      <div className="p-6 print:p-0">
+        <Breadcrumb
+          className="print:hidden"
+          segments={[
+            { label: "Candidates", href: "/candidates" },
+            { label: "Compare" },
+          ]}
+        />
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-xl font-semibold text-neutral-900">
+              Compare Candidates
+            </h1>
+            <p className="text-sm text-neutral-500 print:hidden">
+              Highlighted rows differ between candidates; the preferable value
+              is shown in green.
+            </p>
+          </div>
+          {shown.length > 0 && (
+            <button
+              type="button"
+              onClick={() => window.print()}
+              className="px-4 py-2 text-sm border border-neutral-300 bg-white rounded-md hover:bg-neutral-100 transition-colors cursor-pointer print:hidden"
+            >
+              Print
+            </button>
+          )}
+        </div>
+
+        {error ? (
+          <ErrorMessage message={error} />
+        ) : loading && shown.length === 0 ? (
+          <p className="text-sm text-neutral-500">Loading applications...</p>
+        ) : shown.length > 0 ? (
+          <div className="bg-white rounded-lg border border-neutral-200 overflow-x-auto print:border-0 print:overflow-visible">
+            <table className="w-full table-fixed text-sm print:text-xs">
+              <thead>
+                <tr className="border-b border-neutral-200">
+                  <th className="w-40 p-3 text-left font-medium text-neutral-500 align-bottom" />
+                  {shown.map((application) => (
+                    <th
+                      key={application.application_id}
+                      className="p-3 text-left align-top min-w-48"
+                    >
+                      <div className="font-semibold text-neutral-900">
+                        {application.name}
+                      </div>
+                      <div className="text-xs font-normal text-neutral-500 break-all">
+                        {application.candidate_email}
+                      </div>
+                      {shown.length > MIN_COMPARED_APPLICATIONS && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(application.application_id)}
+                          className="mt-1 text-xs font-normal text-red-600 hover:underline cursor-pointer print:hidden"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const differs = new Set(row.keys).size > 1;
+                  const best = row.numbers
+                    ? preferredIndex(row.numbers, row.prefer ?? null)
+                    : -1;
+                  return (
+                    <tr
+                      key={row.label}
+                      className={`border-b border-neutral-100 break-inside-avoid ${
+                        differs ? "bg-amber-50/60" : ""
+                      }`}
+                    >
+                      <th
+                        scope="row"
+                        className="p-3 text-left align-top font-medium text-neutral-600"
+                      >
+                        {row.label}
+                        {differs && (
+                          <span className="block text-[10px] font-normal uppercase tracking-wide text-amber-700">
+                            Differs
+                          </span>
+                        )}
+                      </th>
+                      {row.cells.map((cell, index) => (
+                        <td
+                          key={index}
+                          className={`p-3 align-top ${
+                            index === best
+                              ? "font-semibold text-green-700"
+                              : "text-neutral-900"
+                          }`}
+                        >
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-neutral-200 p-6 text-center text-sm text-neutral-500">
+            Select 2 to 4 applications in the candidates list and choose
+            Compare.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function CompareCandidatesPage() {
+  return (
+    <Suspense fallback={null}>
+      <CompareCandidatesContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { RootState } from "@/store/store";
+import Breadcrumb from "@/components/Breadcrumb";
+import { ErrorMessage } from "@/components/errorMessage";
+import { initializeAuth } from "@/store/features/userSlice";
+import {
+  selectUserContext,
+  setUserContext,
+} from "@/store/features/candidatesSlice";
+import {
+  dismissDuplicatePair,
+  mergeCandidateProfiles,
+  scanForDuplicates,
+  selectDuplicatePairs,
+  selectDuplicatesError,
+  selectDuplicatesLoading,
+  selectDuplicatesSaving,
+  selectDuplicatesScannedAt,
+} from "@/store/features/duplicatesSlice";
+import {
+  DuplicateMatchField,
+  DuplicatePair,
+  DuplicateProfile,
+} from "@/types/custom";
+
+const MATCH_LABELS: Record<DuplicateMatchField, string> = {
+  email: "Same email",
+  phone: "Same phone",
+  name: "Same name",
+  linkedin: "Same LinkedIn",
+};
+
+const scoreClasses = (score: number) =>
+  score >= 80
+    ? "bg-red-100 text-red-700"
+    : score >= 60
+    ? "bg-orange-100 text-orange-700"
+    : "bg-yellow-100 text-yellow-700";
+
+const formatDate = (dateString: string | null) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "Unknown";
+
+const ProfileField = ({
+  label,
+  value,
+  matched,
+}: {
+  label: string;
+  value: string | null;
+  matched: boolean;
+}) => (
+  <div>
+    <dt className="text-xs text-neutral-500">{label}</dt>
+    <dd
+      className={`text-sm break-all ${
+        matched ? "font-medium text-blue-700" : "text-neutral-800"
+      }`}
+    >
+      {value || "—"}
+    </dd>
+  </div>
+);
+
+const ProfileColumn = ({
+  profile,
+  reasons,
+  canMerge,
+  disabled,
+  onKeep,
+}: {
+  profile: DuplicateProfile;
+  reasons: DuplicateMatchField[];
+  canMerge: boolean;
+  disabled: boolean;
+  onKeep: () => void;
+}) => (
+  <div className="flex-1 min-w-64 border border-neutral-200 rounded-lg p-4">
+    <dl className="space-y-2">
+      <ProfileField
+        label="Name"
+        value={profile.name}
+        matched={reasons.includes("name")}
+      />
+      <ProfileField
+        label="Email"
+        value={profile.email}
+        matched={reasons.includes("email")}
+      />
+      <ProfileField
+        label="Phone"
+        value={profile.mobileNumber}
+        matched={reasons.includes("phone")}
+      />
+      <ProfileField
+        label="LinkedIn"
+        value={profile.linkedinUrl}
+        matched={reasons.includes("linkedin")}
+      />
+      <ProfileField
+        label="Applied to"
+        value={profile.jobTitles.join(", ")}
+        matched={false}
+      />
+      <ProfileField
+        label="Created"
+        value={formatDate(profile.createdAt)}
+        matched={false}
+      />
+    </dl>
+    {canMerge && (
+      <button
+        type="button"
+        onClick={onKeep}
+        disabled={disabled}
+        className="mt-4 w-full px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+      >
+        Keep this profile
+      </button>
+    )}
+  </div>
+);
+
+export default function DuplicateCandidatesPage() {
+  const dispatch = useAppDispatch();
+  const collapsed = useAppSelector(
+    (state: RootState) => state.ui.sidebar.collapsed
+  );
+  const user = useAppSelector((state: RootState) => state.user.user);
+  const organization = useAppSelector(
+    (state: RootState) => state.user.organization
+  );
+  const roles = useAppSelector((state: RootState) => state.user.roles);
+  const userLoading = useAppSelector((state: RootState) => state.user.loading);
+  const userContext = useAppSelector(selectUserContext);
+
+  const pairs = useAppSelector(selectDuplicatePairs);
+  const scannedAt = useAppSelector(selectDuplicatesScannedAt);
+  const loading = useAppSelector(selectDuplicatesLoading);
+  const saving = useAppSelector(selectDuplicatesSaving);
+  const error = useAppSelector(selectDuplicatesError);
+
+  const canReview =
+    !!userContext &&
+    (userContext.roles.includes("admin") || userContext.roles.includes("hr"));
+  const canMerge = !!userContext && userContext.roles.includes("admin");
+
+  useEffect(() => {
+    if (!user && !userLoading) {
+      dispatch(initializeAuth());
+    }
+  }, [user, userLoading, dispatch]);
+
+  useEffect(() => {
+    if (user?.id && organization?.id && roles.length > 0 && !userContext) {
+      dispatch(
+        setUserContext({
+          userId: user.id,
+          organizationId: organization.id,
+          roles: roles.map((role) => role.role.name).join(", "),
+        })
+      );
+    }
+  }, [dispatch, user?.id, organization?.id, roles, userContext]);
+
+  useEffect(() => {
+    if (userContext && canReview && !scannedAt) {
+      dispatch(scanForDuplicates(userContext));
+    }
+  }, [dispatch, userContext, canReview, scannedAt]);
+
+  const handleKeep = async (pair: DuplicatePair, keep: DuplicateProfile) => {
+    if (!userContext) return;
+    const merged = pair.profiles.find((profile) => profile.id !== keep.id);
+    if (!merged) return;
+
+    if (
+      !window.confirm(
+        `Merge "${merged.name}" (${merged.email}) into "${keep.name}" (${keep.email})? Applications, education and experience move to the kept profile and the other profile is removed.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await dispatch(
+        mergeCandidateProfiles({
+          survivingId: keep.id,
+          mergedId: merged.id,
+          reasons: pair.reasons,
+          userContext,
+        })
+      ).unwrap();
+      // Scores for the kept profile may have changed
+      dispatch(scanForDuplicates(userContext));
+    } catch (err) {
+      console.log("Failed to merge profiles:", err);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    if (!userContext) return;
+    try {
+      await dispatch(dismissDuplicatePair({ pair, userContext })).unwrap();
+    } catch (err) {
+      console.log("Failed to dismiss pair:", err);
+    }
+  };
+
+  return (
+    <div
+      className={`transition-all duration-300 min-h-full md:pb-0 px-4 ${
+        collapsed ? "md:ml-20" : "md:ml-60"
+      } pt-18`}
+    >
+      <div className="p-6">
+        <Breadcrumb
+          segments={[
+            { label: "Candidates", href: "/candidates" },
+            { label: "Duplicates" },
+          ]}
+        />
+        <div className="flex items-center justify-between max-w-5xl mb-8">
+          <div>
+            <h1 className="text-xl font-semibold text-neutral-900">
+              Possible Duplicates
+            </h1>
+            <p className="text-sm text-neutral-500">
+              Candidate profiles that share an email, phone number, name or
+              LinkedIn URL.
+            </p>
+          </div>
+          {canReview && (
+            <button
+              type="button"
+              onClick={() => userContext && dispatch(scanForDuplicates(userContext))}
+              disabled={loading}
+              className="text-sm text-blue-600 font-medium hover:underline cursor-pointer disabled:opacity-50"
+            >
+              {loading ? "Scanning..." : "Scan again"}
+            </button>
+          )}
+        </div>
+
+        {error && <ErrorMessage message={error} />}
+
+        {userContext && !canReview ? (
+          <div className="bg-white rounded-lg border border-neutral-200 p-6 text-center text-sm text-neutral-500 max-w-5xl">
+            Only admins and HR can review duplicate candidates.
+          </div>
+        ) : loading && !scannedAt ? (
+          <p className="text-sm text-neutral-500">Scanning candidates...</p>
+        ) : pairs.length === 0 ? (
+          <div className="bg-white rounded-lg border border-neutral-200 p-6 text-center text-sm text-neutral-500 max-w-5xl">
+            No likely duplicates found.
+          </div>
+        ) : (
+          <div className="space-y-4 max-w-5xl">
+            {pairs.map((pair) => (
+              <section
+                key={pair.key}
+                className="bg-white rounded-lg border border-neutral-200 p-4"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span
+                      className={`px-2 py-0.5 text-xs font-semibold rounded-full ${scoreClasses(
+                        pair.score
+                      )}`}
+                    >
+                      {pair.score}% match
+                    </span>
+                    {pair.reasons.map((reason) => (
+                      <span
+                        key={reason}
+                        className="px-2 py-0.5 text-xs text-neutral-600 bg-neutral-100 rounded-full"
+                      >
+                        {MATCH_LABELS[reason]}
+                      </span>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleDismiss(pair)}
+                    disabled={saving}
+                    className="text-sm text-neutral-600 hover:underline cursor-pointer disabled:opacity-50"
+                  >
+                    Not a duplicate
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  {pair.profiles.map((profile) => (
+                    <ProfileColumn
+                      key={profile.id}
+                      profile={profile}
+                      reasons={pair.reasons}
+                      canMerge={canMerge}
+                      disabled={saving}
+                      onKeep={() => handleKeep(pair, profile)}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
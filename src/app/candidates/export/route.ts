@@ -0,0 +1,277 @@
+import { type NextRequest } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import type {
+  CandidateFilters,
+  RawCandidateData,
+} from "@/store/features/candidatesSlice";
+import { DEFAULT_PIPELINE_STAGES } from "@/types/custom";
+import { formatApplicationSource } from "@/utils/application-source";
+import { buildCandidateQueryParams } from "@/utils/candidate-query";
+import { toCsv } from "@/utils/csv";
+import { createXlsxWriter, XlsxCell } from "@/utils/xlsx";
+
+// Streams every application matching the candidates list filters as CSV or
+// XLSX. Pages are read from fetch_candidates_with_access and written as they
+// arrive, so large exports start downloading straight away.
+
+const EXPORT_PAGE_SIZE = 500;
+
+interface ExportContext {
+  stageLabels: Record<string, string>;
+  tagsByCandidate: Record<string, string[]>;
+}
+
+// Keyed like the candidates table columns; Candidate Name also carries the
+// email shown under it in the table
+const EXPORT_COLUMNS: Record<
+  string,
+  {
+    headers: string[];
+    values: (row: RawCandidateData, context: ExportContext) => XlsxCell[];
+  }
+> = {
+  id: {
+    headers: ["Application ID"],
+    values: (row) => [row.application_id],
+  },
+  applied_date: {
+    headers: ["Applied Date"],
+    values: (row) => [row.applied_date ? row.applied_date.slice(0, 10) : null],
+  },
+  candidate_name: {
+    headers: ["Candidate Name", "Email"],
+    values: (row) => [row.candidate_name, row.candidate_email],
+  },
+  job_title: {
+    headers: ["Job"],
+    values: (row) => [row.job_title],
+  },
+  company_name: {
+    headers: ["Company"],
+    values: (row) => [row.company_name],
+  },
+  location: {
+    headers: ["Location"],
+    values: (row) => [row.address || row.job_location || null],
+  },
+  fit_score: {
+    headers: ["Fit Score"],
+    values: (row) => [row.fit_score ?? null],
+  },
+  source: {
+    headers: ["Source", "Sub-source", "Campaign"],
+    values: (row) => [
+      formatApplicationSource(row.source),
+      row.source_detail ?? null,
+      row.source_campaign ?? null,
+    ],
+  },
+  tags: {
+    headers: ["Tags"],
+    values: (row, context) => [
+      (context.tagsByCandidate[row.candidate_id] || []).join(", "),
+    ],
+  },
+  status: {
+    headers: ["Status"],
+    values: (row, context) => [
+      context.stageLabels[row.application_status] || row.application_status,
+    ],
+  },
+};
+
+interface ExportWriter {
+  start: () => Uint8Array;
+  addRows: (rows: XlsxCell[][]) => Uint8Array;
+  finish: () => Uint8Array;
+}
+
+const createCsvWriter = (header: string[]): ExportWriter => {
+  const encoder = new TextEncoder();
+  const toCells = (rows: XlsxCell[][]) =>
+    rows.map((row) => row.map((value) => (value === null ? "" : String(value))));
+
+  return {
+    // The byte order mark makes Excel read the file as UTF-8
+    start: () => encoder.encode(`\uFEFF${toCsv([header])}`),
+    addRows: (rows) =>
+      encoder.encode(rows.length > 0 ? `\r\n${toCsv(toCells(rows))}` : ""),
+    finish: () => encoder.encode("\r\n"),
+  };
+};
+
+const parseFilters = (value: string | null): Partial<CandidateFilters> | null => {
+  try {
+    const parsed = JSON.parse(value || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get("format") === "xlsx" ? "xlsx" : "csv";
+  const organizationId = searchParams.get("organizationId");
+  const filters = parseFilters(searchParams.get("filters"));
+
+  if (!organizationId || !filters) {
+    return new Response("Invalid export request", { status: 400 });
+  }
+
+  const requested = (searchParams.get("columns") || "")
+    .split(",")
+    .filter((key) => key in EXPORT_COLUMNS);
+  const columnKeys = requested.length > 0 ? requested : Object.keys(EXPORT_COLUMNS);
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return new Response("User not authenticated", { status: 401 });
+  }
+
+  // The role comes from the database, never from the request
+  const { data: role } = await supabase.rpc("get_user_role_in_org", {
+    user_uuid: user.id,
+    org_uuid: organizationId,
+  });
+  if (role !== "admin" && role !== "hr" && role !== "ta") {
+    return new Response("You do not have access to this organization", {
+      status: 403,
+    });
+  }
+
+  const { data: pipeline } = await supabase
+    .from("hiring_pipelines")
+    .select("pipeline_stages(stage_key, label)")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  const stageLabels: Record<string, string> = {};
+  DEFAULT_PIPELINE_STAGES.forEach((stage) => {
+    stageLabels[stage.key] = stage.label;
+  });
+  (pipeline?.pipeline_stages || []).forEach((stage) => {
+    stageLabels[stage.stage_key] = stage.label;
+  });
+
+  const loadTags = async (candidateIds: string[]) => {
+    const tagsByCandidate: Record<string, string[]> = {};
+    if (!columnKeys.includes("tags") || candidateIds.length === 0) {
+      return tagsByCandidate;
+    }
+
+    const { data, error } = await supabase
+      .from("candidate_tag_assignments")
+      .select(
+        "candidate_id, tag:candidate_tags!candidate_tag_assignments_tag_id_fkey!inner(name, organization_id)"
+      )
+      .in("candidate_id", Array.from(new Set(candidateIds)))
+      .eq("tag.organization_id", organizationId);
+
+    if (error) {
+      throw new Error(`Failed to fetch candidate tags: ${error.message}`);
+    }
+
+    (data || []).forEach((row) => {
+      if (row.tag) {
+        tagsByCandidate[row.candidate_id] = [
+          ...(tagsByCandidate[row.candidate_id] || []),
+          row.tag.name,
+        ].sort((a, b) => a.localeCompare(b));
+      }
+    });
+    return tagsByCandidate;
+  };
+
+  const header = columnKeys.flatMap((key) => EXPORT_COLUMNS[key].headers);
+  const writer: ExportWriter =
+    format === "xlsx"
+      ? createXlsxWriter("Candidates", header)
+      : createCsvWriter(header);
+
+  let started = false;
+  let page = 1;
+  let totalPages = 1;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true;
+          controller.enqueue(writer.start());
+          return;
+        }
+
+        if (page > totalPages) {
+          controller.enqueue(writer.finish());
+          controller.close();
+          return;
+        }
+
+        const { data, error } = await supabase.rpc(
+          "fetch_candidates_with_access",
+          buildCandidateQueryParams({
+            filters,
+            userId: user.id,
+            userRole: role,
+            organizationId,
+            page,
+            limit: EXPORT_PAGE_SIZE,
+          })
+        );
+
+        if (error) {
+          throw new Error(`Database function failed: ${error.message}`);
+        }
+
+        const response = data as unknown as {
+          candidates: RawCandidateData[] | null;
+          total_pages: number;
+          success: boolean;
+          error?: string;
+        } | null;
+        if (!response?.success) {
+          throw new Error(response?.error || "Database function returned an error");
+        }
+
+        totalPages = response.total_pages;
+        page++;
+
+        // TA rows for jobs without granted access are listed but not exported
+        const rows = (response.candidates || []).filter(
+          (row) => row.hasAccess !== false
+        );
+        const context: ExportContext = {
+          stageLabels,
+          tagsByCandidate: await loadTags(rows.map((row) => row.candidate_id)),
+        };
+
+        controller.enqueue(
+          writer.addRows(
+            rows.map((row) =>
+              columnKeys.flatMap((key) => EXPORT_COLUMNS[key].values(row, context))
+            )
+          )
+        );
+      } catch (error) {
+        console.log("exportCandidates error:", error);
+        controller.error(error);
+      }
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(stream, {
+    headers: {
+      "Content-Type":
+        format === "xlsx"
+          ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          : "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="candidates-${date}.${format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
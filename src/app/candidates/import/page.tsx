@@ -0,0 +1,657 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { RootState } from "@/store/store";
+import Breadcrumb from "@/components/Breadcrumb";
+import { initializeAuth } from "@/store/features/userSlice";
+import {
+  selectUserContext,
+  setUserContext,
+} from "@/store/features/candidatesSlice";
+import {
+  buildImportRows,
+  CANDIDATE_IMPORT_FIELDS,
+  CandidateImportField,
+  CandidateImportMapping,
+  clearImportResults,
+  fetchAssignableJobs,
+  guessColumnMapping,
+  importCandidates,
+  selectAssignableJobs,
+  selectAssignableJobsLoading,
+  selectCandidateImportError,
+  selectImporting,
+  selectImportProgress,
+  selectImportResults,
+} from "@/store/features/candidateImportSlice";
+import {
+  CandidateImportOutcome,
+  DuplicateEmailMode,
+} from "@/types/custom";
+import { downloadCsv, parseCsv, toCsv } from "@/utils/csv";
+
+const STEPS = ["Upload", "Map Columns", "Review", "Results"] as const;
+
+const MAX_IMPORT_ROWS = 1000;
+const maxFileSize = 5 * 1024 * 1024; // 5 MB
+
+const DUPLICATE_MODE_OPTIONS: {
+  value: DuplicateEmailMode;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "skip",
+    label: "Skip",
+    description: "Leave rows whose email already has a profile out of the import.",
+  },
+  {
+    value: "attach",
+    label: "Add application",
+    description: "Add the job application to the existing profile and leave it unchanged.",
+  },
+  {
+    value: "update",
+    label: "Add application and fill blanks",
+    description:
+      "Also fill the existing profile's empty fields from the file. Values already on the profile are kept.",
+  },
+];
+
+const OUTCOME_LABELS: Record<CandidateImportOutcome, string> = {
+  created: "Created",
+  attached: "Added to existing",
+  updated: "Existing updated",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+const outcomeClasses = (outcome: CandidateImportOutcome) =>
+  outcome === "failed"
+    ? "bg-red-100 text-red-700"
+    : outcome === "skipped"
+    ? "bg-neutral-100 text-neutral-600"
+    : "bg-green-100 text-green-700";
+
+const selectClass =
+  "w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function ImportCandidatesPage() {
+  const dispatch = useAppDispatch();
+  const collapsed = useAppSelector(
+    (state: RootState) => state.ui.sidebar.collapsed
+  );
+  const user = useAppSelector((state: RootState) => state.user.user);
+  const organization = useAppSelector(
+    (state: RootState) => state.user.organization
+  );
+  const roles = useAppSelector((state: RootState) => state.user.roles);
+  const userLoading = useAppSelector((state: RootState) => state.user.loading);
+  const userContext = useAppSelector(selectUserContext);
+
+  const jobs = useAppSelector(selectAssignableJobs);
+  const jobsLoading = useAppSelector(selectAssignableJobsLoading);
+  const importing = useAppSelector(selectImporting);
+  const progress = useAppSelector(selectImportProgress);
+  const results = useAppSelector(selectImportResults);
+  const error = useAppSelector(selectCandidateImportError);
+
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CandidateImportMapping | null>(null);
+  const [jobId, setJobId] = useState("");
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateEmailMode>("skip");
+
+  useEffect(() => {
+    if (!user && !userLoading) {
+      dispatch(initializeAuth());
+    }
+  }, [user, userLoading, dispatch]);
+
+  useEffect(() => {
+    if (user?.id && organization?.id && roles.length > 0 && !userContext) {
+      dispatch(
+        setUserContext({
+          userId: user.id,
+          organizationId: organization.id,
+          roles: roles.map((role) => role.role.name).join(", "),
+        })
+      );
+    }
+  }, [dispatch, user?.id, organization?.id, roles, userContext]);
+
+  useEffect(() => {
+    if (userContext) {
+      dispatch(fetchAssignableJobs(userContext));
+    }
+  }, [dispatch, userContext]);
+
+  // Results from an earlier visit belong to another file
+  useEffect(() => {
+    dispatch(clearImportResults());
+  }, [dispatch]);
+
+  const importRows = useMemo(
+    () => (mapping ? buildImportRows(dataRows, mapping) : []),
+    [dataRows, mapping]
+  );
+  const invalidCount = importRows.filter((row) => row.errors.length > 0).length;
+  const missingRequired = mapping
+    ? CANDIDATE_IMPORT_FIELDS.filter(
+        (field) => field.required && mapping[field.key] === null
+      )
+    : [];
+
+  const handleFile = async (file: File | undefined) => {
+    setFileError(null);
+    if (!file) return;
+
+    if (!file.name.toLowerCase().endsWith(".csv")) {
+      setFileError("Choose a .csv file");
+      return;
+    }
+    if (file.size > maxFileSize) {
+      setFileError("File size exceeds the limit of 5 MB");
+      return;
+    }
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      setFileError("The file needs a header row and at least one candidate");
+      return;
+    }
+    if (rows.length - 1 > MAX_IMPORT_ROWS) {
+      setFileError(
+        `The file has ${rows.length - 1} rows. Import at most ${MAX_IMPORT_ROWS} at a time.`
+      );
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(rows[0].map((header) => header.trim()));
+    setDataRows(rows.slice(1));
+    setMapping(guessColumnMapping(rows[0]));
+    setStep(1);
+  };
+
+  const handleMappingChange = (field: CandidateImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === "" ? null : Number(value) });
+  };
+
+  const handleImport = async () => {
+    if (!userContext || !jobId) return;
+    setStep(3);
+    try {
+      await dispatch(
+        importCandidates({
+          rows: importRows,
+          jobId,
+          duplicateMode,
+          userContext,
+        })
+      ).unwrap();
+    } catch (err) {
+      console.log("Failed to import candidates:", err);
+      setStep(2);
+    }
+  };
+
+  const handleReset = () => {
+    dispatch(clearImportResults());
+    setFileName(null);
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setStep(0);
+  };
+
+  const problemRows = (results || []).filter(
+    (result) => result.outcome === "failed" || result.outcome === "skipped"
+  );
+
+  const handleDownloadReport = () => {
+    downloadCsv(
+      toCsv([
+        ["Row", "Name", "Email", "Outcome", "Message"],
+        ...problemRows.map((result) => [
+          String(result.row),
+          result.name,
+          result.email,
+          OUTCOME_LABELS[result.outcome],
+          result.message || "",
+        ]),
+      ]),
+      `candidate-import-errors-${new Date().toISOString().slice(0, 10)}.csv`
+    );
+  };
+
+  const outcomeCounts = (results || []).reduce(
+    (counts, result) => ({
+      ...counts,
+      [result.outcome]: (counts[result.outcome] || 0) + 1,
+    }),
+    {} as Partial<Record<CandidateImportOutcome, number>>
+  );
+
+  return (
+    <div
+      className={`transition-all duration-300 min-h-full md:pb-0 px-4 ${
+        collapsed ? "md:ml-20" : "md:ml-60"
+      } pt-18`}
+    >
+      <div className="p-6">
+        <Breadcrumb
+          segments={[
+            { label: "Candidates", href: "/candidates" },
+            { label: "Import" },
+          ]}
+        />
+        <div className="flex items-center justify-between max-w-5xl mb-8">
+          <div>
+            <h1 className="text-xl font-semibold text-neutral-900">
+              Import Candidates
+            </h1>
+            <p className="text-sm text-neutral-500">
+              Add candidates to a job from a CSV file with one candidate per
+              row.
+            </p>
+          </div>
+          <Link
+            href="/candidates/add"
+            className="text-sm text-blue-600 font-medium hover:underline"
+          >
+            Add a single candidate
+          </Link>
+        </div>
+
+        {/* Step Navigation */}
+        <div className="w-full overflow-x-auto max-w-5xl">
+          <div className="flex gap-4 mb-6 min-w-fit border-b border-neutral-300">
+            {STEPS.map((label, i) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => setStep(i)}
+                disabled={i > step || importing || (step === 3 && i < 3)}
+                className={`px-3 sm:px-4 py-2 text-sm sm:text-base text-center font-medium transition-colors whitespace-nowrap cursor-pointer disabled:cursor-default ${
+                  i === step
+                    ? "border-b-4 border-blue-600"
+                    : i < step
+                    ? "text-green-600"
+                    : "text-neutral-500"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="max-w-5xl bg-white rounded-lg border border-neutral-200 p-6">
+          {step === 0 && (
+            <div>
+              <label
+                htmlFor="import-file"
+                className="flex flex-col items-center justify-center border-2 border-dashed border-neutral-300 rounded-lg p-10 cursor-pointer hover:border-blue-400 transition-colors"
+              >
+                <span className="text-sm font-medium text-neutral-800">
+                  Choose a CSV file
+                </span>
+                <span className="text-xs text-neutral-500 mt-1">
+                  The first row must contain column names. Up to{" "}
+                  {MAX_IMPORT_ROWS} candidates per file.
+                </span>
+                <input
+                  id="import-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                  className="hidden"
+                />
+              </label>
+              {fileError && (
+                <p className="text-sm text-red-600 mt-3">{fileError}</p>
+              )}
+              <p className="text-sm text-neutral-600 mt-4">
+                Columns that can be imported:{" "}
+                {CANDIDATE_IMPORT_FIELDS.map(
+                  (field) => `${field.label}${field.required ? " *" : ""}`
+                ).join(", ")}
+                .
+              </p>
+            </div>
+          )}
+
+          {step === 1 && mapping && (
+            <div>
+              <p className="text-sm text-neutral-600 mb-4">
+                Match the columns in <strong>{fileName}</strong> to candidate
+                fields. Columns that are not matched are ignored.
+              </p>
+              <div className="divide-y divide-neutral-200">
+                {CANDIDATE_IMPORT_FIELDS.map((field) => {
+                  const column = mapping[field.key];
+                  const sample =
+                    column === null
+                      ? null
+                      : dataRows.find((row) => row[column]?.trim())?.[column];
+                  return (
+                    <div
+                      key={field.key}
+                      className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-4 items-center py-3"
+                    >
+                      <div className="text-sm font-medium text-neutral-800">
+                        {field.label}
+                        {field.required && (
+                          <span className="text-red-600"> *</span>
+                        )}
+                      </div>
+                      <select
+                        value={column === null ? "" : String(column)}
+                        onChange={(e) =>
+                          handleMappingChange(field.key, e.target.value)
+                        }
+                        aria-label={`Column for ${field.label}`}
+                        className={selectClass}
+                      >
+                        <option value="">Not imported</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                      <div className="text-sm text-neutral-500 truncate">
+                        {sample ? `e.g. ${sample}` : ""}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600 mt-3">
+                  Match a column to{" "}
+                  {missingRequired.map((field) => field.label).join(" and ")}{" "}
+                  to continue.
+                </p>
+              )}
+              <div className="flex justify-between mt-6">
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+                >
+                  Choose another file
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setStep(2)}
+                  disabled={missingRequired.length > 0}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+                >
+                  Review rows
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 2 && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-700">
+                  {importRows.length - invalidCount} ready
+                </span>
+                {invalidCount > 0 && (
+                  <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700">
+                    {invalidCount} with errors, will not be imported
+                  </span>
+                )}
+              </div>
+
+              <div className="max-h-96 overflow-auto border border-neutral-200 rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-neutral-50 sticky top-0">
+                    <tr className="text-left text-neutral-600">
+                      <th className="px-3 py-2 font-medium">Row</th>
+                      <th className="px-3 py-2 font-medium">Name</th>
+                      <th className="px-3 py-2 font-medium">Email</th>
+                      <th className="px-3 py-2 font-medium">Validation</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-neutral-100">
+                    {importRows.map((row) => (
+                      <tr
+                        key={row.row}
+                        className={row.errors.length > 0 ? "bg-red-50/50" : ""}
+                      >
+                        <td className="px-3 py-2 text-neutral-500">{row.row}</td>
+                        <td className="px-3 py-2">{row.draft.name || "—"}</td>
+                        <td className="px-3 py-2 break-all">
+                          {row.draft.email || "—"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-700">
+                              {row.errors.join("; ")}
+                            </span>
+                          ) : (
+                            <span className="text-green-700">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="import-job"
+                  className="block text-sm font-medium text-neutral-700 mb-1"
+                >
+                  Add candidates to job *
+                </label>
+                <select
+                  id="import-job"
+                  value={jobId}
+                  onChange={(e) => setJobId(e.target.value)}
+                  disabled={jobsLoading}
+                  className={selectClass}
+                >
+                  <option value="">
+                    {jobsLoading ? "Loading jobs..." : "Select a job"}
+                  </option>
+                  {jobs.map((job) => (
+                    <option key={job.id} value={job.id}>
+                      {job.title}
+                      {job.companyName ? ` · ${job.companyName}` : ""}
+                      {job.status && job.status !== "active"
+                        ? ` (${job.status})`
+                        : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <fieldset>
+                <legend className="block text-sm font-medium text-neutral-700 mb-2">
+                  When an email already has a profile
+                </legend>
+                <div className="space-y-2">
+                  {DUPLICATE_MODE_OPTIONS.map((option) => (
+                    <label
+                      key={option.value}
+                      className="flex items-start gap-2 text-sm cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name="duplicate-mode"
+                        value={option.value}
+                        checked={duplicateMode === option.value}
+                        onChange={() => setDuplicateMode(option.value)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="font-medium text-neutral-800">
+                          {option.label}
+                        </span>
+                        <span className="block text-neutral-500">
+                          {option.description}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-neutral-500 mt-2">
+                  Candidates who already applied to the selected job are always
+                  skipped.
+                </p>
+              </fieldset>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <div className="flex justify-between">
+                <button
+                  type="button"
+                  onClick={() => setStep(1)}
+                  className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={
+                    !jobId ||
+                    !userContext ||
+                    importing ||
+                    importRows.length === invalidCount
+                  }
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+                >
+                  Import {importRows.length - invalidCount} candidates
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 3 && (
+            <div>
+              {importing && progress ? (
+                <div>
+                  <p className="text-sm text-neutral-700 mb-2">
+                    Importing row {progress.done} of {progress.total}...
+                  </p>
+                  <div className="h-2 bg-neutral-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{
+                        width: `${(progress.done / Math.max(progress.total, 1)) * 100}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              ) : results ? (
+                <div className="space-y-6">
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {(Object.keys(OUTCOME_LABELS) as CandidateImportOutcome[])
+                      .filter((outcome) => outcomeCounts[outcome])
+                      .map((outcome) => (
+                        <span
+                          key={outcome}
+                          className={`px-2 py-0.5 rounded-full ${outcomeClasses(
+                            outcome
+                          )}`}
+                        >
+                          {OUTCOME_LABELS[outcome]}: {outcomeCounts[outcome]}
+                        </span>
+                      ))}
+                  </div>
+
+                  {problemRows.length > 0 ? (
+                    <div className="max-h-96 overflow-auto border border-neutral-200 rounded-md">
+                      <table className="w-full text-sm">
+                        <thead className="bg-neutral-50 sticky top-0">
+                          <tr className="text-left text-neutral-600">
+                            <th className="px-3 py-2 font-medium">Row</th>
+                            <th className="px-3 py-2 font-medium">Email</th>
+                            <th className="px-3 py-2 font-medium">Outcome</th>
+                            <th className="px-3 py-2 font-medium">Reason</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-neutral-100">
+                          {problemRows.map((result) => (
+                            <tr key={result.row}>
+                              <td className="px-3 py-2 text-neutral-500">
+                                {result.row}
+                              </td>
+                              <td className="px-3 py-2 break-all">
+                                {result.email || "—"}
+                              </td>
+                              <td className="px-3 py-2">
+                                <span
+                                  className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${outcomeClasses(
+                                    result.outcome
+                                  )}`}
+                                >
+                                  {OUTCOME_LABELS[result.outcome]}
+                                </span>
+                              </td>
+                              <td className="px-3 py-2 text-neutral-700">
+                                {result.message}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-neutral-600">
+                      Every row was imported.
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <button
+                      type="button"
+                      onClick={handleReset}
+                      className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+                    >
+                      Import another file
+                    </button>
+                    <div className="flex gap-2">
+                      {problemRows.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={handleDownloadReport}
+                          className="px-4 py-2 text-sm border border-neutral-300 bg-white rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+                        >
+                          Download error report
+                        </button>
+                      )}
+                      <Link
+                        href="/candidates"
+                        className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                      >
+                        View candidates
+                      </Link>
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
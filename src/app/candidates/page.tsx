@@ -1,23 +1,25 @@
 "use client";
 
 import { useEffect, useMemo, useState, useCallback, useRef } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useAppSelector, useAppDispatch } from "@/store/hooks";
 import { IoSearchSharp } from "react-icons/io5";
 import CandidatesList from "@/components/candidates_list_component";
 import { RootState } from "@/store/store";
 import {
-  fetchJobApplicationsWithAccess,
   setUserContext,
   clearError,
   selectCandidatesError,
   selectCandidatesLoading,
   selectUserContext,
-  selectFilters,
-  selectPagination,
-  setFilters,
   UserContext,
   CandidateFilters,
 } from "@/store/features/candidatesSlice";
+import {
+  candidateFiltersFromParams,
+  candidateFiltersToQuery,
+} from "@/utils/url-filters";
 
 import { initializeAuth } from "@/store/features/userSlice";
 import { ErrorMessage } from "@/components/errorMessage";
@@ -86,16 +88,28 @@ const CandidatesContent = ({
   collapsed: boolean;
 }) => {
   const dispatch = useAppDispatch();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
 
   // Candidates selectors
   const error = useAppSelector(selectCandidatesError);
   const loading = useAppSelector(selectCandidatesLoading);
   const userContext = useAppSelector(selectUserContext);
-  const filters = useAppSelector(selectFilters);
-  const pagination = useAppSelector(selectPagination);
 
-  // Local state for search
-  const [searchTerm, setSearchTerm] = useState<string>(filters.searchTerm || "");
+  // The search box, like the list's filters, lives in the URL
+  const urlSearchTerm = searchParams.get("q") || "";
+  const [searchTerm, setSearchTerm] = useState<string>(urlSearchTerm);
+  const pushedSearchRef = useRef(urlSearchTerm);
+
+  // Follow the URL when it changes from elsewhere: back/forward, a saved
+  // view or clearing all filters
+  useEffect(() => {
+    if (urlSearchTerm !== pushedSearchRef.current.trim()) {
+      pushedSearchRef.current = urlSearchTerm;
+      setSearchTerm(urlSearchTerm);
+    }
+  }, [urlSearchTerm]);
 
   // Memoize user context to prevent unnecessary re-renders
   const memoizedUserContext = useMemo((): UserContext | null => {
@@ -117,6 +131,10 @@ const CandidatesContent = ({
     }
   }, [memoizedUserContext, userContext, dispatch]);
 
+  const canManageCandidates = roles.some(
+    (role) => role.role.name === "admin" || role.role.name === "hr"
+  );
+
   // Clear error when component unmounts
   useEffect(() => {
     return () => {
@@ -134,34 +152,29 @@ const CandidatesContent = ({
     debouncedSearchRef.current = debounce((searchValue: string) => {
       if (!memoizedUserContext) return;
 
+      const { filters } = candidateFiltersFromParams(searchParams);
       const newFilters: Partial<CandidateFilters> = {
         ...filters,
         searchTerm: searchValue || undefined,
       };
 
-      // Remove undefined values
-      Object.keys(newFilters).forEach(key => {
-        if (newFilters[key as keyof CandidateFilters] === undefined) {
-          delete newFilters[key as keyof CandidateFilters];
-        }
-      });
-
-      // Update filters
-      dispatch(setFilters(newFilters));
-
-      // Fetch candidates with new search term
-      dispatch(
-        fetchJobApplicationsWithAccess({
-          filters: newFilters,
-          userContext: memoizedUserContext,
-          page: 1, // Reset to first page on search
-          limit: pagination.candidatesPerPage,
-        })
-      );
+      // Searching ranks by best match until another sort is picked
+      if (searchValue && !filters.searchTerm) {
+        newFilters.sortBy = "relevance";
+        newFilters.sortOrder = "desc";
+      } else if (!searchValue && filters.sortBy === "relevance") {
+        newFilters.sortBy = "applied_date";
+        newFilters.sortOrder = "desc";
+      }
+
+      // The list loads the results from the URL, back on the first page
+      pushedSearchRef.current = searchValue;
+      const query = candidateFiltersToQuery(newFilters);
+      router.push(query ? `${pathname}?${query}` : pathname, { scroll: false });
     }, 500);
 
     // The timeout will be automatically cleared when component unmounts
-  }, [dispatch, filters, memoizedUserContext, pagination.candidatesPerPage]);
+  }, [router, pathname, searchParams, memoizedUserContext]);
 
   // Search handler that updates local state immediately and triggers debounced search
   const handleSearchChange = useCallback((searchValue: string) => {
@@ -206,6 +219,30 @@ const CandidatesContent = ({
               Manage all candidates and their applications with ease.
             </p>
           </div>
+          <div className="flex items-center gap-4">
+            {canManageCandidates && (
+              <>
+                <Link
+                  href="/candidates/duplicates"
+                  className="text-sm text-blue-600 font-medium hover:underline"
+                >
+                  Review duplicates
+                </Link>
+                <Link
+                  href="/candidates/import"
+                  className="text-sm text-blue-600 font-medium hover:underline"
+                >
+                  Import CSV
+                </Link>
+                <Link
+                  href="/candidates/add"
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Add candidate
+                </Link>
+              </>
+            )}
+          </div>
         </div>
 
         {/* Global Search Bar */}
@@ -363,11 +400,23 @@ export default function Candidates() {
   }
 
   return (
-    <CandidatesContent
-      user={user}
-      organization={organization}
-      roles={roles}
-      collapsed={collapsed}
-    />
+    <Suspense
+      fallback={
+        <div
+          className={`transition-all duration-300 h-full px-3 md:px-0 ${
+            collapsed ? "md:ml-20" : "md:ml-60"
+          } pt-18`}
+        >
+          <CandidatesSkeleton />
+        </div>
+      }
+    >
+      <CandidatesContent
+        user={user}
+        organization={organization}
+        roles={roles}
+        collapsed={collapsed}
+      />
+    </Suspense>
   );
 }
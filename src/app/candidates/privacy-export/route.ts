@@ -0,0 +1,200 @@
+import { type NextRequest } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { detectResumeFileType } from "@/utils/resume-parser";
+import { downloadStoredResume, storedObjectKey } from "@/utils/resume-index";
+import { createZip, ZipFile } from "@/utils/zip";
+
+// Subject access export: a ZIP with everything held about one candidate as
+// JSON, plus their resume when it was uploaded to our bucket. Limited to
+// admins and HR of an organization the candidate applied to.
+
+const downloadResume = async (resumeLink: string | null) => {
+  if (!resumeLink || !storedObjectKey(resumeLink)) return null;
+  try {
+    const data = await downloadStoredResume(resumeLink);
+    return { data, extension: detectResumeFileType(data) || "bin" };
+  } catch (error) {
+    console.log("privacyExport resume error:", error);
+    return null;
+  }
+};
+
+const fileSafeName = (name: string) =>
+  name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() ||
+  "candidate";
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const candidateId = searchParams.get("candidateId");
+  const organizationId = searchParams.get("organizationId");
+
+  if (!candidateId || !organizationId) {
+    return new Response("Invalid export request", { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return new Response("User not authenticated", { status: 401 });
+  }
+
+  // The role comes from the database, never from the request
+  const { data: role } = await supabase.rpc("get_user_role_in_org", {
+    user_uuid: user.id,
+    org_uuid: organizationId,
+  });
+  if (role !== "admin" && role !== "hr") {
+    return new Response("Only admins and HR can export candidate data", {
+      status: 403,
+    });
+  }
+
+  const { data: applications, error: applicationsError } = await supabase
+    .from("job_applications")
+    .select(
+      "id, application_status, rejection_reason, applied_date, updated_at, source, source_detail, source_campaign, job:jobs!job_applications_job_id_fkey!inner(id, title, company_name, organization_id)"
+    )
+    .eq("candidate_id", candidateId)
+    .eq("job.organization_id", organizationId)
+    .order("applied_date", { ascending: true });
+
+  if (applicationsError || !applications || applications.length === 0) {
+    return new Response("Candidate not found", { status: 404 });
+  }
+  const applicationIds = applications.map((application) => application.id);
+
+  const [
+    profile,
+    education,
+    experience,
+    history,
+    interviews,
+    scorecards,
+    offers,
+    notes,
+    tags,
+    resumeText,
+  ] = await Promise.all([
+    supabase.from("candidates_profiles").select("*").eq("id", candidateId).single(),
+    supabase.from("education").select("*").eq("profile_id", candidateId),
+    supabase.from("experience").select("*").eq("profile_id", candidateId),
+    supabase
+      .from("application_status_history")
+      .select(
+        "application_id, old_status, new_status, reason, rejection_reason, changed_at"
+      )
+      .in("application_id", applicationIds)
+      .order("changed_at", { ascending: true }),
+    supabase
+      .from("interviews")
+      .select(
+        "application_id, round_name, start_time, end_time, time_zone, location, outcome, notes"
+      )
+      .in("application_id", applicationIds),
+    supabase
+      .from("interview_scorecards")
+      .select("application_id, ratings, recommendation, notes, submitted_at")
+      .in("application_id", applicationIds),
+    supabase
+      .from("offers")
+      .select(
+        "application_id, offered_ctc, joining_date, expires_at, status, notes, sent_at, responded_at"
+      )
+      .in("application_id", applicationIds),
+    supabase
+      .from("candidate_notes")
+      .select("application_id, body_text, created_at, edited_at")
+      .eq("candidate_id", candidateId)
+      .eq("organization_id", organizationId)
+      .is("deleted_at", null),
+    supabase
+      .from("candidate_tag_assignments")
+      .select(
+        "created_at, tag:candidate_tags!candidate_tag_assignments_tag_id_fkey!inner(name, organization_id)"
+      )
+      .eq("candidate_id", candidateId)
+      .eq("tag.organization_id", organizationId),
+    supabase
+      .from("candidate_resume_texts")
+      .select("content, indexed_at")
+      .eq("candidate_id", candidateId)
+      .maybeSingle(),
+  ]);
+
+  const failed = [
+    profile,
+    education,
+    experience,
+    history,
+    interviews,
+    scorecards,
+    offers,
+    notes,
+    tags,
+    resumeText,
+  ].find((result) => result.error);
+  if (failed?.error || !profile.data) {
+    console.log("privacyExport error:", failed?.error);
+    return new Response("Failed to collect candidate data", { status: 500 });
+  }
+
+  const exportedAt = new Date().toISOString();
+  const bundle = {
+    exported_at: exportedAt,
+    organization_id: organizationId,
+    profile: profile.data,
+    education: education.data || [],
+    experience: experience.data || [],
+    applications: applications.map((application) => ({
+      id: application.id,
+      job_title: application.job.title,
+      company_name: application.job.company_name,
+      status: application.application_status,
+      rejection_reason: application.rejection_reason,
+      applied_date: application.applied_date,
+      updated_at: application.updated_at,
+      source: application.source,
+      source_detail: application.source_detail,
+      source_campaign: application.source_campaign,
+    })),
+    status_history: history.data || [],
+    interviews: interviews.data || [],
+    scorecards: scorecards.data || [],
+    offers: offers.data || [],
+    notes: notes.data || [],
+    tags: (tags.data || []).map((row) => row.tag.name),
+    resume_text: resumeText.data?.content || null,
+  };
+
+  const files: ZipFile[] = [
+    {
+      path: "candidate.json",
+      data: Buffer.from(JSON.stringify(bundle, null, 2), "utf8"),
+    },
+  ];
+  const resume = await downloadResume(profile.data.resume_link);
+  if (resume) {
+    files.push({ path: `resume.${resume.extension}`, data: resume.data });
+  }
+
+  const { error: logError } = await supabase.from("privacy_requests").insert({
+    organization_id: organizationId,
+    candidate_id: candidateId,
+    request_type: "export",
+    performed_by: user.id,
+  });
+  if (logError) {
+    console.log("privacyExport log error:", logError);
+  }
+
+  const date = exportedAt.slice(0, 10);
+  return new Response(new Uint8Array(createZip(files)), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${fileSafeName(
+        profile.data.name
+      )}-data-${date}.zip"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
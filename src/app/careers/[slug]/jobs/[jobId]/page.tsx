@@ -0,0 +1,98 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { IoIosArrowBack } from "react-icons/io";
+import JobDescriptionRenderer from "@/components/JobDescriptionRenderer";
+import { emailHtmlToText } from "@/utils/email-templates";
+import {
+  CareersJobTags,
+  getCareersJob,
+  getCareersOrganization,
+} from "../../../utils";
+
+type CareersJobPageProps = {
+  params: Promise<{ slug: string; jobId: string }>;
+};
+
+// Search engines show roughly this much of a description
+const META_DESCRIPTION_LENGTH = 160;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+async function loadJob(slug: string, jobId: string) {
+  const organization = await getCareersOrganization(slug);
+  if (!organization) return null;
+
+  const job = await getCareersJob(organization.id, jobId);
+  return job ? { organization, job } : null;
+}
+
+export async function generateMetadata({
+  params,
+}: CareersJobPageProps): Promise<Metadata> {
+  const { slug, jobId } = await params;
+  const result = await loadJob(slug, jobId);
+  if (!result) {
+    return { title: "Careers" };
+  }
+
+  const { organization, job } = result;
+  const summary = emailHtmlToText(job.description).replace(/\s+/g, " ");
+  return {
+    title: `${job.title} at ${organization.name}`,
+    description:
+      summary.length > META_DESCRIPTION_LENGTH
+        ? `${summary.slice(0, META_DESCRIPTION_LENGTH - 3).trimEnd()}...`
+        : summary || `${job.title} at ${organization.name}`,
+    alternates: {
+      canonical: `/careers/${organization.slug}/jobs/${job.id}`,
+    },
+  };
+}
+
+export default async function CareersJobPage({ params }: CareersJobPageProps) {
+  const { slug, jobId } = await params;
+  const result = await loadJob(slug, jobId);
+  if (!result) {
+    notFound();
+  }
+
+  const { organization, job } = result;
+
+  return (
+    <article>
+      <Link
+        href={`/careers/${organization.slug}`}
+        className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-6"
+      >
+        <IoIosArrowBack />
+        All open positions
+      </Link>
+
+      <div className="bg-white rounded-xl border border-neutral-200 p-6 mb-6">
+        <h1 className="text-3xl font-bold text-neutral-900">{job.title}</h1>
+        <p className="text-neutral-500 mt-1 mb-4">
+          {job.companyName || organization.name}
+        </p>
+        <CareersJobTags job={job} />
+        {job.applicationDeadline && (
+          <p className="text-sm text-neutral-500 mt-4">
+            Apply by {formatDate(job.applicationDeadline)}
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl border border-neutral-200 p-6">
+        <h2 className="text-2xl font-bold text-neutral-900 mb-4">
+          Job Description
+        </h2>
+        <JobDescriptionRenderer content={job.description} />
+      </div>
+    </article>
+  );
+}
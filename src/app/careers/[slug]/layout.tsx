@@ -0,0 +1,47 @@
+import Link from "next/link";
+import Image from "next/image";
+import { notFound } from "next/navigation";
+import { getCareersOrganization } from "../utils";
+
+export default async function CareersLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode;
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const organization = await getCareersOrganization(slug);
+  if (!organization) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="bg-white w-full py-6 shadow-sm">
+        <div className="max-w-5xl mx-auto px-4 md:px-8">
+          <Link
+            href={`/careers/${organization.slug}`}
+            className="text-2xl font-bold text-neutral-900 hover:text-blue-600 transition-colors"
+          >
+            {organization.name}
+          </Link>
+          <p className="text-sm text-neutral-500 mt-1">Careers</p>
+        </div>
+      </header>
+      <main className="flex-1 w-full max-w-5xl mx-auto px-4 md:px-8 py-8">
+        {children}
+      </main>
+      <footer className="py-6 flex items-center justify-center gap-2 text-xs text-neutral-500">
+        Powered by
+        <Image
+          src="/wordmark-blue.svg"
+          alt="Recrivio"
+          width={80}
+          height={32}
+          draggable={false}
+        />
+      </footer>
+    </div>
+  );
+}
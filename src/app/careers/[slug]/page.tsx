@@ -0,0 +1,151 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { CareersJobFilters } from "@/types/custom";
+import {
+  CareersJobTags,
+  filterCareersJobs,
+  formatJobAttribute,
+  getCareersJobs,
+  getCareersOrganization,
+  getFilterOptions,
+  parseCareersFilters,
+} from "../utils";
+
+type CareersPageProps = {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const FILTERS: {
+  field: keyof CareersJobFilters;
+  label: string;
+  allLabel: string;
+}[] = [
+  { field: "location", label: "Location", allLabel: "All locations" },
+  { field: "jobType", label: "Job type", allLabel: "All job types" },
+  {
+    field: "workingType",
+    label: "Working type",
+    allLabel: "All working types",
+  },
+];
+
+export async function generateMetadata({
+  params,
+}: CareersPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const organization = await getCareersOrganization(slug);
+  if (!organization) {
+    return { title: "Careers" };
+  }
+
+  return {
+    title: `Careers at ${organization.name}`,
+    description: `Open positions at ${organization.name}. Find your next role.`,
+    alternates: { canonical: `/careers/${organization.slug}` },
+  };
+}
+
+export default async function CareersPage({
+  params,
+  searchParams,
+}: CareersPageProps) {
+  const { slug } = await params;
+  const organization = await getCareersOrganization(slug);
+  if (!organization) {
+    notFound();
+  }
+
+  const jobs = await getCareersJobs(organization.id);
+  const filters = parseCareersFilters(await searchParams);
+  const filteredJobs = filterCareersJobs(jobs, filters);
+  const isFiltered = Object.values(filters).some(Boolean);
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-neutral-900 mb-2">
+        Open positions
+      </h1>
+      <p className="text-neutral-600 mb-6">
+        {jobs.length === 0
+          ? `${organization.name} has no open positions right now.`
+          : `${jobs.length} open ${
+              jobs.length === 1 ? "position" : "positions"
+            } at ${organization.name}.`}
+      </p>
+
+      {jobs.length > 0 && (
+        // A plain GET form keeps filtering working without JavaScript and
+        // gives every filter combination its own URL
+        <form
+          method="get"
+          className="bg-white rounded-xl border border-neutral-200 p-4 mb-6 grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-3 items-end"
+        >
+          {FILTERS.map(({ field, label, allLabel }) => (
+            <label key={field} className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                {label}
+              </span>
+              <select
+                name={field}
+                defaultValue={filters[field] || ""}
+                className="mt-1 w-full border border-neutral-300 rounded-lg px-3 py-2 text-sm bg-white"
+              >
+                <option value="">{allLabel}</option>
+                {getFilterOptions(jobs, field).map((option) => (
+                  <option key={option} value={option}>
+                    {field === "location" ? option : formatJobAttribute(option)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg py-2 px-4 transition-colors cursor-pointer"
+            >
+              Filter
+            </button>
+            {isFiltered && (
+              <Link
+                href={`/careers/${organization.slug}`}
+                className="text-sm text-neutral-600 border border-neutral-300 rounded-lg py-2 px-4 hover:bg-neutral-100 transition-colors"
+              >
+                Clear
+              </Link>
+            )}
+          </div>
+        </form>
+      )}
+
+      {jobs.length > 0 && filteredJobs.length === 0 ? (
+        <div className="bg-white rounded-xl border border-neutral-200 p-6 text-center text-sm text-neutral-500">
+          No positions match these filters.
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {filteredJobs.map((job) => (
+            <li key={job.id}>
+              <Link
+                href={`/careers/${organization.slug}/jobs/${job.id}`}
+                className="block bg-white rounded-xl border border-neutral-200 p-5 hover:border-blue-300 hover:shadow-sm transition-all"
+              >
+                <h2 className="text-lg font-semibold text-neutral-900">
+                  {job.title}
+                </h2>
+                {job.companyName && job.companyName !== organization.name && (
+                  <p className="text-sm text-neutral-500">{job.companyName}</p>
+                )}
+                <div className="mt-3">
+                  <CareersJobTags job={job} />
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { cache } from "react";
+import { notFound } from "next/navigation";
+import { GrLocation } from "react-icons/gr";
+import { LiaRupeeSignSolid } from "react-icons/lia";
+import { createClient } from "@/utils/supabase/server";
+import { CareersJob, CareersJobFilters } from "@/types/custom";
+
+// Only what a job seeker may see; internal fields are never selected
+const CAREERS_JOB_COLUMNS =
+  "id, title, company_name, company_logo_url, location, job_location_type, job_type, working_type, salary_min, salary_max, min_experience_needed, max_experience_needed, application_deadline, created_at";
+
+// Job ids come from the URL; anything else would fail the uuid cast in the query
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type CareersJobRow = {
+  id: string;
+  title: string;
+  company_name: string | null;
+  company_logo_url: string | null;
+  location: string | null;
+  job_location_type: string | null;
+  job_type: string | null;
+  working_type: string | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  min_experience_needed: number | null;
+  max_experience_needed: number | null;
+  application_deadline: string | null;
+  created_at: string | null;
+};
+
+const toCareersJob = (job: CareersJobRow): CareersJob => ({
+  id: job.id,
+  title: job.title,
+  companyName: job.company_name,
+  companyLogoUrl: job.company_logo_url,
+  location: job.location,
+  jobLocationType: job.job_location_type,
+  jobType: job.job_type,
+  workingType: job.working_type,
+  salaryMin: job.salary_min,
+  salaryMax: job.salary_max,
+  minExperience: job.min_experience_needed,
+  maxExperience: job.max_experience_needed,
+  applicationDeadline: job.application_deadline,
+  createdAt: job.created_at,
+});
+
+// Cached per request, as both the metadata and the page need it
+export const getCareersOrganization = cache(async (slug: string) => {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("id, name, slug")
+    .eq("slug", slug)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch organization: ${error.message}`);
+  }
+  return data;
+});
+
+// Every active job, newest first; filtering happens afterwards so the filter
+// options always cover all open positions
+export const getCareersJobs = cache(async (organizationId: string) => {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("jobs")
+    .select(CAREERS_JOB_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("status", "active")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch jobs: ${error.message}`);
+  }
+  return (data || []).map(toCareersJob);
+});
+
+export const getCareersJob = cache(
+  async (organizationId: string, jobId: string) => {
+    if (!UUID_PATTERN.test(jobId)) {
+      notFound();
+    }
+
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("jobs")
+      .select(`${CAREERS_JOB_COLUMNS}, description`)
+      .eq("id", jobId)
+      .eq("organization_id", organizationId)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch job: ${error.message}`);
+    }
+    return data
+      ? { ...toCareersJob(data), description: data.description || "" }
+      : null;
+  }
+);
+
+const firstParam = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value)?.trim() || null;
+
+export const parseCareersFilters = (
+  searchParams: Record<string, string | string[] | undefined>
+): CareersJobFilters => ({
+  location: firstParam(searchParams.location),
+  jobType: firstParam(searchParams.jobType),
+  workingType: firstParam(searchParams.workingType),
+});
+
+export const filterCareersJobs = (
+  jobs: CareersJob[],
+  filters: CareersJobFilters
+) =>
+  jobs.filter(
+    (job) =>
+      (!filters.location || job.location === filters.location) &&
+      (!filters.jobType || job.jobType === filters.jobType) &&
+      (!filters.workingType || job.workingType === filters.workingType)
+  );
+
+// Distinct values present in the jobs, for the filter dropdowns
+export const getFilterOptions = (
+  jobs: CareersJob[],
+  field: keyof CareersJobFilters
+) =>
+  Array.from(
+    new Set(
+      jobs
+        .map((job) => job[field])
+        .filter((value): value is string => !!value)
+    )
+  ).sort((a, b) => a.localeCompare(b));
+
+// Stored values such as "full-time" or "on-site" read as "Full-Time"
+export const formatJobAttribute = (value: string) =>
+  value.replace(/(^|[\s-])([a-z])/g, (_, separator, letter) =>
+    `${separator}${letter.toUpperCase()}`
+  );
+
+export const formatCareersSalary = (job: CareersJob) => {
+  const min = job.salaryMin || 0;
+  const max = job.salaryMax || 0;
+
+  if (min === 0 && max === 0) return null;
+  if (min === max || max === 0) return min.toLocaleString();
+  if (min === 0) return `Up to ${max.toLocaleString()}`;
+  return `${min.toLocaleString()} - ${max.toLocaleString()}`;
+};
+
+export const formatCareersExperience = (job: CareersJob) => {
+  const min = job.minExperience;
+  const max = job.maxExperience;
+
+  if (min == null && max == null) return null;
+  if (max == null) return `${min}+ years`;
+  if (min === max) return `${max} years`;
+  return `${min || 0} - ${max} years`;
+};
+
+export const CareersJobTags = ({ job }: { job: CareersJob }) => {
+  const salary = formatCareersSalary(job);
+  const experience = formatCareersExperience(job);
+  const tags = [
+    job.jobType && formatJobAttribute(job.jobType),
+    job.jobLocationType && formatJobAttribute(job.jobLocationType),
+    job.workingType && `${formatJobAttribute(job.workingType)} shift`,
+    experience,
+  ].filter((tag): tag is string => !!tag);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {job.location && (
+        <span className="flex items-center gap-1 text-neutral-600">
+          <GrLocation className="text-blue-600" />
+          {job.location}
+        </span>
+      )}
+      {salary && (
+        <span className="flex items-center text-neutral-600">
+          <LiaRupeeSignSolid className="text-green-600 text-lg" />
+          {salary}
+        </span>
+      )}
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="px-2.5 py-1 rounded-lg bg-blue-50 text-blue-700 text-xs font-medium"
+        >
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { type NextRequest } from "next/server";
+import { createServiceClient } from "@/utils/supabase/service";
+import { applyRetentionBatch } from "@/utils/privacy";
+import { isCronRequest } from "@/utils/cron";
+
+// Scheduled job that applies every enabled retention policy. A scheduler
+// calls this daily with "Authorization: Bearer $CRON_SECRET".
+
+// Stops starting new batches after this long so a run finishes in time.
+// Candidates anonymized so far drop out, so the next run picks up the rest.
+const RUN_TIME_LIMIT = 50 * 1000;
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceClient();
+  const { data: policies, error } = await supabase
+    .from("data_retention_policies")
+    .select("organization_id")
+    .eq("enabled", true);
+
+  if (error) {
+    return Response.json(
+      { error: `Failed to fetch retention policies: ${error.message}` },
+      { status: 500 }
+    );
+  }
+
+  const startedAt = Date.now();
+  const result = { anonymized: 0, failed: 0, remaining: 0 };
+  for (const policy of policies || []) {
+    let after: string | null = null;
+    let remaining = 0;
+    try {
+      do {
+        if (Date.now() - startedAt > RUN_TIME_LIMIT) break;
+        const batch = await applyRetentionBatch(
+          supabase,
+          policy.organization_id,
+          { performedBy: null, after }
+        );
+        result.anonymized += batch.anonymized;
+        result.failed += batch.failed;
+        remaining = batch.remaining;
+        after = batch.next;
+      } while (after);
+    } catch (err) {
+      console.log("apply-retention error:", err);
+    }
+    result.remaining += remaining;
+  }
+
+  return Response.json({ success: result });
+}
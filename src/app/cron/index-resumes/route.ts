@@ -0,0 +1,45 @@
+import { type NextRequest } from "next/server";
+import { createServiceClient } from "@/utils/supabase/service";
+import { indexPendingResumes } from "@/utils/resume-index";
+import { isCronRequest } from "@/utils/cron";
+
+// Scheduled job that indexes resumes which are new or changed since they
+// were last indexed. Candidates apply outside this app, so a scheduler calls
+// this every few minutes with "Authorization: Bearer $CRON_SECRET".
+
+// Stops starting new batches after this long so a run finishes in time
+const RUN_TIME_LIMIT = 50 * 1000;
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceClient();
+  const { data: organizations, error } = await supabase
+    .from("organizations")
+    .select("id");
+
+  if (error) {
+    return Response.json(
+      { error: `Failed to fetch organizations: ${error.message}` },
+      { status: 500 }
+    );
+  }
+
+  const startedAt = Date.now();
+  const result = { indexed: 0, failed: 0, remaining: 0 };
+  for (const organization of organizations || []) {
+    if (Date.now() - startedAt > RUN_TIME_LIMIT) break;
+    try {
+      const batch = await indexPendingResumes(supabase, organization.id);
+      result.indexed += batch.indexed;
+      result.failed += batch.failed;
+      result.remaining += batch.remaining;
+    } catch (err) {
+      console.log("index-resumes error:", err);
+    }
+  }
+
+  return Response.json({ success: result });
+}
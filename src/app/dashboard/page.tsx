@@ -20,6 +20,8 @@ import Link from "next/link";
 import { AppDispatch, RootState } from "@/store/store";
 import { useAppSelector } from "@/store/hooks";
 import DashboardSkeleton from "@/components/DashboardSkeleton";
+import SourceBreakdownWidget from "@/components/source-breakdown-widget";
+import RejectionBreakdownWidget from "@/components/rejection-breakdown-widget";
 import { Suspense } from "react";
 
 // Import selectors and actions
@@ -567,6 +569,15 @@ const DashboardContent = ({
           </div>
         </div>
 
+        {/* Source of Hire */}
+        <SourceBreakdownWidget userUuid={user.id} orgUuid={organization.id} />
+
+        {/* Rejection Reasons */}
+        <RejectionBreakdownWidget
+          userUuid={user.id}
+          orgUuid={organization.id}
+        />
+
         {/* Data refresh info */}
         {dashboardData.generated_at && (
           <div className="mt-4 text-xs text-neutral-400 text-center">
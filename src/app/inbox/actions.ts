@@ -0,0 +1,485 @@
+"use server";
+import fs from "fs/promises";
+import path from "path";
+import { createClient } from "@/utils/supabase/server";
+import {
+  buildEmailMessage,
+  createMessageId,
+  parseEmailMessage,
+  ParsedEmail,
+} from "@/utils/eml";
+import { getMailFromAddress, getMailTransport } from "@/utils/mail-transport";
+import { emailHtmlToText, extractMergeFields } from "@/utils/email-templates";
+import { EmailIngestResult } from "@/types/custom";
+
+const maxEmlSize = 5 * 1024 * 1024; // 5 MB
+const maxEmlFiles = 20; // Per upload
+const pollBatchSize = 50;
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Replies keep the thread's subject with a single "Re:"
+const stripReplyPrefix = (subject: string) =>
+  subject.replace(/^\s*((re|fwd?|aw|sv)\s*:\s*)+/i, "").trim();
+
+// ilike treats % and _ as wildcards, and _ is common in addresses
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, "\\$&");
+
+async function getMember(supabase: ServerClient, organizationId: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return null;
+  }
+  const { data: role } = await supabase.rpc("get_user_role_in_org", {
+    user_uuid: user.id,
+    org_uuid: organizationId,
+  });
+  return role ? { user, role } : null;
+}
+
+// Admin and HR can email about every job; TA only about jobs granted in
+// job_access_control
+async function canAccessJob(
+  supabase: ServerClient,
+  userId: string,
+  role: string,
+  jobId: string
+) {
+  if (role === "admin" || role === "hr") {
+    return true;
+  }
+  if (role !== "ta") {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from("job_access_control")
+    .select("access_type")
+    .eq("job_id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check job access: ${error.message}`);
+  }
+  return data?.access_type === "granted";
+}
+
+// Sends an email to the application's candidate through the configured
+// transport and records it, starting a thread unless threadId is given
+export async function sendCandidateEmail(input: {
+  organizationId: string;
+  applicationId: string;
+  subject: string;
+  html: string;
+  threadId?: string | null;
+}) {
+  const supabase = await createClient();
+  const member = await getMember(supabase, input.organizationId);
+  if (!member) {
+    return { error: "User not authenticated" };
+  }
+  const { user } = member;
+
+  const subject = input.subject.trim();
+  const text = emailHtmlToText(input.html);
+  if (!subject) {
+    return { error: "Subject is required" };
+  }
+  if (!text) {
+    return { error: "Email body is required" };
+  }
+
+  // Templates leave fields they cannot fill as written
+  const unfilledFields = extractMergeFields(`${subject}\n${input.html}`);
+  if (unfilledFields.length > 0) {
+    return {
+      error: `Fill in or remove the merge fields: ${unfilledFields
+        .map((field) => `{{${field}}}`)
+        .join(", ")}`,
+    };
+  }
+
+  const { data: application, error: applicationError } = await supabase
+    .from("job_applications")
+    .select(
+      "id, candidate:candidates_profiles!job_applications_candidate_id_fkey(name, candidate_email), job:jobs!job_applications_job_id_fkey(id, organization_id)"
+    )
+    .eq("id", input.applicationId)
+    .single();
+
+  if (
+    applicationError ||
+    !application?.candidate ||
+    !application.job ||
+    application.job.organization_id !== input.organizationId
+  ) {
+    return { error: "Application not found" };
+  }
+
+  try {
+    if (
+      !(await canAccessJob(supabase, user.id, member.role, application.job.id))
+    ) {
+      return { error: "You do not have access to this job" };
+    }
+  } catch (err) {
+    console.log("sendCandidateEmail error:", err);
+    return {
+      error: err instanceof Error ? err.message : "Failed to check job access",
+    };
+  }
+
+  let references: string[] = [];
+  if (input.threadId) {
+    const { data: thread, error: threadError } = await supabase
+      .from("email_threads")
+      .select(
+        "id, application_id, messages:email_messages!email_messages_thread_id_fkey(message_id, sent_at)"
+      )
+      .eq("id", input.threadId)
+      .eq("organization_id", input.organizationId)
+      .single();
+
+    if (threadError || thread?.application_id !== input.applicationId) {
+      return { error: "Conversation not found" };
+    }
+    references = [...thread.messages]
+      .sort((a, b) => a.sent_at.localeCompare(b.sent_at))
+      .map((message) => message.message_id);
+  }
+
+  const { data: sender } = await supabase
+    .from("user_profiles")
+    .select("full_name")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  const fromAddress = getMailFromAddress();
+  const messageId = createMessageId();
+  const sentAt = new Date();
+  const message = buildEmailMessage({
+    from: { name: sender?.full_name || null, address: fromAddress },
+    to: {
+      name: application.candidate.name,
+      address: application.candidate.candidate_email,
+    },
+    subject,
+    html: input.html,
+    text,
+    messageId,
+    inReplyTo: references[references.length - 1] || null,
+    references,
+    date: sentAt,
+  });
+
+  let transportName: string;
+  try {
+    const transport = getMailTransport();
+    transportName = transport.name;
+    await transport.send(
+      { from: fromAddress, to: [application.candidate.candidate_email] },
+      message
+    );
+  } catch (err) {
+    console.log("sendCandidateEmail error:", err);
+    return {
+      error: err instanceof Error ? err.message : "Failed to send email",
+    };
+  }
+
+  let threadId = input.threadId || null;
+  if (!threadId) {
+    const { data: thread, error: threadError } = await supabase
+      .from("email_threads")
+      .insert({
+        organization_id: input.organizationId,
+        application_id: input.applicationId,
+        subject: stripReplyPrefix(subject) || subject,
+        last_message_at: sentAt.toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (threadError) {
+      return {
+        error: `Email sent, but it could not be recorded: ${threadError.message}`,
+      };
+    }
+    threadId = thread.id;
+  }
+
+  const { error: insertError } = await supabase.from("email_messages").insert({
+    thread_id: threadId,
+    direction: "outbound",
+    from_name: sender?.full_name || null,
+    from_address: fromAddress,
+    to_address: application.candidate.candidate_email,
+    subject,
+    body_html: input.html,
+    body_text: text,
+    message_id: messageId,
+    in_reply_to: references[references.length - 1] || null,
+    sent_at: sentAt.toISOString(),
+    sent_by: user.id,
+    read_at: sentAt.toISOString(),
+    transport: transportName,
+  });
+
+  if (insertError) {
+    return {
+      error: `Email sent, but it could not be recorded: ${insertError.message}`,
+    };
+  }
+
+  await supabase
+    .from("email_threads")
+    .update({ last_message_at: sentAt.toISOString() })
+    .eq("id", threadId);
+
+  return { success: { threadId } };
+}
+
+// Thread a reply belongs to: the one holding a message it answers, else the
+// latest conversation about the sender's most recent application
+async function findReplyThread(
+  supabase: ServerClient,
+  organizationId: string,
+  email: ParsedEmail
+) {
+  const answered = [email.inReplyTo, ...email.references].filter(
+    (id): id is string => !!id
+  );
+  if (answered.length > 0) {
+    const { data } = await supabase
+      .from("email_messages")
+      .select(
+        "thread_id, thread:email_threads!email_messages_thread_id_fkey!inner(organization_id)"
+      )
+      .in("message_id", answered)
+      .eq("thread.organization_id", organizationId)
+      .limit(1);
+    if (data?.[0]) {
+      return data[0].thread_id;
+    }
+  }
+
+  if (!email.from) return null;
+
+  const { data: profiles } = await supabase
+    .from("candidates_profiles")
+    .select(
+      "id, job_applications!inner(id, updated_at, job:jobs!job_applications_job_id_fkey!inner(organization_id))"
+    )
+    .ilike("candidate_email", escapeLike(email.from.address))
+    .eq("job_applications.job.organization_id", organizationId);
+
+  const application = (profiles || [])
+    .flatMap((profile) => profile.job_applications)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+  if (!application) return null;
+
+  const { data: existing } = await supabase
+    .from("email_threads")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .eq("application_id", application.id)
+    .order("last_message_at", { ascending: false })
+    .limit(1);
+  if (existing?.[0]) {
+    return existing[0].id;
+  }
+
+  const { data: thread, error } = await supabase
+    .from("email_threads")
+    .insert({
+      organization_id: organizationId,
+      application_id: application.id,
+      subject: stripReplyPrefix(email.subject) || "(no subject)",
+      last_message_at: email.date,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to start conversation: ${error.message}`);
+  }
+  return thread.id;
+}
+
+// Records one .eml file, returning why it was skipped or null once stored
+async function ingestEmail(
+  supabase: ServerClient,
+  organizationId: string,
+  data: Buffer
+): Promise<string | null> {
+  const email = parseEmailMessage(data);
+  if (!email.from) {
+    return "No sender address";
+  }
+
+  if (email.messageId) {
+    const { data: existing } = await supabase
+      .from("email_messages")
+      .select(
+        "id, thread:email_threads!email_messages_thread_id_fkey!inner(organization_id)"
+      )
+      .eq("message_id", email.messageId)
+      .eq("thread.organization_id", organizationId)
+      .limit(1);
+    if (existing && existing.length > 0) {
+      return "Already imported";
+    }
+  }
+
+  const threadId = await findReplyThread(supabase, organizationId, email);
+  if (!threadId) {
+    return `No candidate with the address ${email.from.address}`;
+  }
+
+  const { error } = await supabase.from("email_messages").insert({
+    thread_id: threadId,
+    direction: "inbound",
+    from_name: email.from.name,
+    from_address: email.from.address,
+    to_address: email.to.map((address) => address.address).join(", "),
+    subject: email.subject,
+    body_html: email.html,
+    body_text: email.text || emailHtmlToText(email.html || ""),
+    message_id: email.messageId || createMessageId(),
+    in_reply_to: email.inReplyTo,
+    sent_at: email.date,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save email: ${error.message}`);
+  }
+
+  // Older replies imported late do not move the thread back in time
+  await supabase
+    .from("email_threads")
+    .update({ last_message_at: email.date })
+    .eq("id", threadId)
+    .lt("last_message_at", email.date);
+
+  return null;
+}
+
+// Imports candidate replies uploaded as .eml files
+export async function importEmailFiles(
+  organizationId: string,
+  formData: FormData
+) {
+  const supabase = await createClient();
+  const member = await getMember(supabase, organizationId);
+  if (!member) {
+    return { error: "User not authenticated" };
+  }
+
+  const files = formData
+    .getAll("files")
+    .filter((file): file is File => file instanceof File);
+  if (files.length === 0) {
+    return { error: "Choose at least one .eml file" };
+  }
+  if (files.length > maxEmlFiles) {
+    return { error: `Import at most ${maxEmlFiles} files at a time` };
+  }
+
+  const result: EmailIngestResult = { ingested: 0, skipped: [] };
+  for (const file of files) {
+    if (file.size > maxEmlSize) {
+      result.skipped.push({ file: file.name, reason: "Larger than 5 MB" });
+      continue;
+    }
+    try {
+      const data = Buffer.from(await file.arrayBuffer());
+      const reason = await ingestEmail(supabase, organizationId, data);
+      if (reason) {
+        result.skipped.push({ file: file.name, reason });
+      } else {
+        result.ingested++;
+      }
+    } catch (err) {
+      console.log("importEmailFiles error:", err);
+      result.skipped.push({
+        file: file.name,
+        reason: err instanceof Error ? err.message : "Failed to import",
+      });
+    }
+  }
+
+  return { success: result };
+}
+
+// Imports .eml files that a mail fetcher dropped into the organization's
+// folder under MAIL_INBOX_DIR. Imported files move to processed/, the rest
+// to unmatched/ so they are only tried once. The inbox page calls this
+// while it is open.
+export async function pollInboundEmails(organizationId: string) {
+  const supabase = await createClient();
+  const member = await getMember(supabase, organizationId);
+  if (!member) {
+    return { error: "User not authenticated" };
+  }
+
+  const result: EmailIngestResult = { ingested: 0, skipped: [] };
+  const inboxRoot = process.env.MAIL_INBOX_DIR;
+  // The folder holds replies for every job. A TA cannot see the
+  // conversations of jobs they have no access to, so would move those
+  // replies to unmatched/.
+  if (!inboxRoot || (member.role !== "admin" && member.role !== "hr")) {
+    return { success: result };
+  }
+
+  const directory = path.join(inboxRoot, path.basename(organizationId));
+  let names: string[];
+  try {
+    names = (await fs.readdir(directory))
+      .filter((name) => name.toLowerCase().endsWith(".eml"))
+      .sort()
+      .slice(0, pollBatchSize);
+  } catch {
+    // Nothing has been delivered for this organization yet
+    return { success: result };
+  }
+
+  const moveTo = async (name: string, folder: string) => {
+    await fs.mkdir(path.join(directory, folder), { recursive: true });
+    await fs.rename(
+      path.join(directory, name),
+      path.join(directory, folder, name)
+    );
+  };
+
+  for (const name of names) {
+    try {
+      const filePath = path.join(directory, name);
+      const { size } = await fs.stat(filePath);
+      const reason =
+        size > maxEmlSize
+          ? "Larger than 5 MB"
+          : await ingestEmail(
+              supabase,
+              organizationId,
+              await fs.readFile(filePath)
+            );
+      if (reason) {
+        result.skipped.push({ file: name, reason });
+        await moveTo(name, "unmatched");
+      } else {
+        result.ingested++;
+        await moveTo(name, "processed");
+      }
+    } catch (err) {
+      // Left in place to be retried on the next poll
+      console.log("pollInboundEmails error:", err);
+      result.skipped.push({
+        file: name,
+        reason: err instanceof Error ? err.message : "Failed to import",
+      });
+    }
+  }
+
+  return { success: result };
+}
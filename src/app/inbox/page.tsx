@@ -1,10 +1,210 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { RootState } from "@/store/store";
 import Breadcrumb from "@/components/Breadcrumb";
+import { ErrorMessage } from "@/components/errorMessage";
+import { initializeAuth } from "@/store/features/userSlice";
+import {
+  fetchMentionNotifications,
+  markMentionsRead,
+  selectMentionNotifications,
+  selectMentionsLoaded,
+  selectNotesError,
+} from "@/store/features/notesSlice";
+import {
+  selectUserContext,
+  setUserContext,
+  UserContext,
+} from "@/store/features/candidatesSlice";
+import { selectUnreadThreadCount } from "@/store/features/inboxSlice";
+import { MentionNotification } from "@/types/custom";
+import EmailInbox from "@/components/email-inbox";
+
+type InboxTab = "conversations" | "mentions";
+
+const formatMentionTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Application notes open from the job; candidate-wide notes from the list
+const mentionLink = (mention: MentionNotification) =>
+  mention.jobId ? `/jobs/job-details?jobId=${mention.jobId}` : "/candidates";
 
 export default function Inbox() {
+  const dispatch = useAppDispatch();
+  const collapsed = useAppSelector(
+    (state: RootState) => state.ui.sidebar.collapsed
+  );
+  const user = useAppSelector((state: RootState) => state.user.user);
+  const organization = useAppSelector(
+    (state: RootState) => state.user.organization
+  );
+  const roles = useAppSelector((state: RootState) => state.user.roles);
+  const userLoading = useAppSelector((state: RootState) => state.user.loading);
+  const userContext = useAppSelector(selectUserContext);
+  const unreadThreads = useAppSelector(selectUnreadThreadCount);
+  const mentions = useAppSelector(selectMentionNotifications);
+  const mentionsLoaded = useAppSelector(selectMentionsLoaded);
+  const error = useAppSelector(selectNotesError);
+  const [tab, setTab] = useState<InboxTab>("conversations");
+
+  useEffect(() => {
+    if (!user && !userLoading) {
+      dispatch(initializeAuth());
+    }
+  }, [user, userLoading, dispatch]);
+
+  // Replies sent from the inbox need the same context as the candidates page
+  const memoizedUserContext = useMemo((): UserContext | null => {
+    if (!user?.id || !organization?.id || !roles) {
+      return null;
+    }
+
+    return {
+      userId: user.id,
+      organizationId: organization.id,
+      roles: roles.map((role) => role.role.name).join(", "),
+    };
+  }, [user?.id, organization?.id, roles]);
+
+  useEffect(() => {
+    if (memoizedUserContext && !userContext) {
+      dispatch(setUserContext(memoizedUserContext));
+    }
+  }, [memoizedUserContext, userContext, dispatch]);
+
+  // Always refresh on open so new mentions show up
+  useEffect(() => {
+    if (user?.id) {
+      dispatch(fetchMentionNotifications(user.id));
+    }
+  }, [dispatch, user?.id]);
+
+  const unreadIds = mentions
+    .filter((mention) => !mention.readAt)
+    .map((mention) => mention.id);
+
+  const markRead = (ids: string[]) => {
+    if (user?.id && ids.length > 0) {
+      dispatch(markMentionsRead({ ids, userId: user.id }));
+    }
+  };
+
   return (
-    <div>
-      <Breadcrumb segments={[{ label: "Inbox" }]} />
-      <h1 className="text-9xl text-center">Inbox</h1>
+    <div
+      className={`transition-all duration-300 min-h-full md:pb-0 px-4 ${
+        collapsed ? "md:ml-20" : "md:ml-60"
+      } pt-18`}
+    >
+      <div className="p-6">
+        <Breadcrumb segments={[{ label: "Inbox" }]} />
+        <div className="flex gap-6 border-b border-neutral-200 mb-6">
+          {(
+            [
+              ["conversations", "Conversations", unreadThreads],
+              ["mentions", "Mentions", unreadIds.length],
+            ] as [InboxTab, string, number][]
+          ).map(([key, label, unread]) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setTab(key)}
+              className={`pb-2 -mb-px text-sm font-medium border-b-2 cursor-pointer transition-colors ${
+                tab === key
+                  ? "border-blue-600 text-blue-600"
+                  : "border-transparent text-neutral-500 hover:text-neutral-800"
+              }`}
+            >
+              {label}
+              {unread > 0 && (
+                <span className="ml-2 px-1.5 py-0.5 rounded-full bg-blue-600 text-white text-xs">
+                  {unread}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {tab === "conversations" &&
+          (memoizedUserContext ? (
+            <EmailInbox userContext={memoizedUserContext} />
+          ) : (
+            <p className="text-sm text-neutral-500">Loading conversations...</p>
+          ))}
+
+        {tab === "mentions" && (
+          <>
+            <div className="flex items-center justify-between max-w-3xl mb-8">
+              <div>
+                <h1 className="text-xl font-semibold text-neutral-900">Mentions</h1>
+                <p className="text-sm text-neutral-500">
+                  Notes where teammates mentioned you.
+                </p>
+              </div>
+              {unreadIds.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => markRead(unreadIds)}
+                  className="text-sm text-blue-600 font-medium hover:underline cursor-pointer"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            {error && <ErrorMessage message={error} />}
+
+            {!mentionsLoaded ? (
+              <p className="text-sm text-neutral-500">Loading mentions...</p>
+            ) : mentions.length === 0 ? (
+              <div className="bg-white rounded-lg border border-neutral-200 p-6 text-center text-sm text-neutral-500 max-w-3xl">
+                Nobody has mentioned you yet.
+              </div>
+            ) : (
+              <ul className="bg-white rounded-lg border border-neutral-200 divide-y divide-neutral-100 max-w-3xl">
+                {mentions.map((mention) => (
+                  <li key={mention.id}>
+                    <Link
+                      href={mentionLink(mention)}
+                      onClick={() => !mention.readAt && markRead([mention.id])}
+                      className={`flex items-start gap-3 px-4 py-3 hover:bg-neutral-50 ${
+                        mention.readAt ? "" : "bg-blue-50/50"
+                      }`}
+                    >
+                      <span
+                        className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${
+                          mention.readAt ? "bg-transparent" : "bg-blue-600"
+                        }`}
+                        aria-label={mention.readAt ? undefined : "Unread"}
+                      />
+                      <div className="flex-1 text-sm">
+                        <p className="text-neutral-800">
+                          <span className="font-medium">{mention.actorName}</span>{" "}
+                          mentioned you in a note on{" "}
+                          <span className="font-medium">
+                            {mention.candidateName}
+                          </span>
+                          {mention.jobTitle && ` · ${mention.jobTitle}`}
+                        </p>
+                        <p className="text-xs text-neutral-500 mt-0.5">
+                          {formatMentionTime(mention.createdAt)}
+                        </p>
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
     </div>
   );
 }
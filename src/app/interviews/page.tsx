@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { RootState } from "@/store/store";
+import Breadcrumb from "@/components/Breadcrumb";
+import { ErrorMessage } from "@/components/errorMessage";
+import { InterviewCard } from "@/components/application-interviews";
+import InterviewForm from "@/components/interview-form";
+import { initializeAuth } from "@/store/features/userSlice";
+import {
+  selectUserContext,
+  setUserContext,
+} from "@/store/features/candidatesSlice";
+import {
+  fetchInterviewAgenda,
+  selectInterviewAgenda,
+  selectInterviewAgendaLoaded,
+  selectInterviewsError,
+  selectInterviewsLoading,
+} from "@/store/features/interviewsSlice";
+import { Interview } from "@/types/custom";
+
+// Day heading in the interview's own time zone
+const formatDay = (interview: Interview) =>
+  new Date(interview.startTime).toLocaleDateString("en-US", {
+    timeZone: interview.timeZone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export default function InterviewsAgendaPage() {
+  const dispatch = useAppDispatch();
+  const collapsed = useAppSelector(
+    (state: RootState) => state.ui.sidebar.collapsed
+  );
+  const user = useAppSelector((state: RootState) => state.user.user);
+  const organization = useAppSelector(
+    (state: RootState) => state.user.organization
+  );
+  const roles = useAppSelector((state: RootState) => state.user.roles);
+  const userLoading = useAppSelector((state: RootState) => state.user.loading);
+  const userContext = useAppSelector(selectUserContext);
+
+  const agenda = useAppSelector(selectInterviewAgenda);
+  const agendaLoaded = useAppSelector(selectInterviewAgendaLoaded);
+  const loading = useAppSelector(selectInterviewsLoading);
+  const error = useAppSelector(selectInterviewsError);
+
+  const [editing, setEditing] = useState<Interview | null>(null);
+
+  useEffect(() => {
+    if (!user && !userLoading) {
+      dispatch(initializeAuth());
+    }
+  }, [user, userLoading, dispatch]);
+
+  // Outcome changes and edits run under the same access rules as candidates
+  useEffect(() => {
+    if (user?.id && organization?.id && roles.length > 0 && !userContext) {
+      dispatch(
+        setUserContext({
+          userId: user.id,
+          organizationId: organization.id,
+          roles: roles.map((role) => role.role.name).join(", "),
+        })
+      );
+    }
+  }, [dispatch, user?.id, organization?.id, roles, userContext]);
+
+  useEffect(() => {
+    if (user?.id && !agendaLoaded) {
+      dispatch(fetchInterviewAgenda(user.id));
+    }
+  }, [dispatch, user?.id, agendaLoaded]);
+
+  const days = useMemo(() => {
+    const grouped: { day: string; interviews: Interview[] }[] = [];
+    agenda.forEach((interview) => {
+      const day = formatDay(interview);
+      const last = grouped[grouped.length - 1];
+      if (last && last.day === day) {
+        last.interviews.push(interview);
+      } else {
+        grouped.push({ day, interviews: [interview] });
+      }
+    });
+    return grouped;
+  }, [agenda]);
+
+  return (
+    <div
+      className={`transition-all duration-300 min-h-full md:pb-0 px-4 ${
+        collapsed ? "md:ml-20" : "md:ml-60"
+      } pt-18`}
+    >
+      <div className="p-6">
+        <Breadcrumb segments={[{ label: "Interviews" }]} />
+        <h1 className="text-xl font-semibold text-neutral-900">
+          My Interviews
+        </h1>
+        <p className="text-sm text-neutral-500 mb-8">
+          Upcoming interviews you are on the panel for.
+        </p>
+
+        {error && <ErrorMessage message={error} />}
+
+        {loading && !agendaLoaded ? (
+          <p className="text-sm text-neutral-500">Loading interviews...</p>
+        ) : days.length === 0 ? (
+          <div className="bg-white rounded-lg border border-neutral-200 p-6 text-center text-sm text-neutral-500">
+            You have no upcoming interviews.
+          </div>
+        ) : (
+          <div className="space-y-8 max-w-3xl">
+            {days.map(({ day, interviews }) => (
+              <section key={day}>
+                <h2 className="text-sm font-semibold text-neutral-700 mb-3">
+                  {day}
+                </h2>
+                <div className="space-y-3 bg-white">
+                  {interviews.map((interview) => (
+                    <InterviewCard
+                      key={interview.id}
+                      interview={interview}
+                      showCandidate
+                      onEdit={setEditing}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {editing && userContext && (
+        <InterviewForm
+          applicationId={editing.applicationId}
+          interview={editing}
+          userContext={userContext}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import React, {
 } from "react";
 import { useAppSelector, useAppDispatch } from "@/store/hooks";
 import type { RootState } from "@/store/store";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { GoPlus } from "react-icons/go";
 import { IoList } from "react-icons/io5";
 import { CiFilter } from "react-icons/ci";
@@ -26,6 +26,7 @@ import {
   setViewMode,
   clearError,
   applyFilters,
+  goToPage,
   setPageSize,
   setFilters,
   clearJobs,
@@ -39,9 +40,11 @@ import { EmptyState, ErrorState, FilterDropdown } from "./job_utils";
 import Pagination from "@/components/pagination";
 import EnhancedFiltersModal from "@/components/enhanced-filters-modal";
 import Breadcrumb from "@/components/Breadcrumb";
-
-// Constants
-const INITIAL_PAGE_SIZE = 30;
+import {
+  JobSortOption,
+  jobFiltersFromParams,
+  jobFiltersToQuery,
+} from "@/utils/url-filters";
 
 export interface JobFilters {
   status?: string | string[];
@@ -89,6 +92,18 @@ export default function JobsClientComponent({
 }: JobsClientComponentProps) {
   const dispatch = useAppDispatch();
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const urlQuery = searchParams.toString();
+
+  // Search, filters, sort and page live in the URL so they survive reloads
+  // and the browser's back and forward buttons restore them
+  const urlState = useMemo(
+    () => jobFiltersFromParams(new URLSearchParams(urlQuery)),
+    [urlQuery]
+  );
+  const sortBy = urlState.sort;
+
   // Redux selectors
   const collapsed = useAppSelector(
     (state: RootState) => state.ui.sidebar.collapsed
@@ -120,8 +135,14 @@ export default function JobsClientComponent({
   const [sortDropdownOpen, setSortDropdownOpen] = useState(false);
 
   const [showFiltersModal, setShowFiltersModal] = useState(false);
-  const [sortBy, setSortBy] = useState<string>("recent");
-  const [searchTerm, setSearchTerm] = useState<string>("");
+  const urlSearchTerm = urlState.filters.searchTerm || "";
+  const [searchTerm, setSearchTerm] = useState<string>(urlSearchTerm);
+  const pushedSearchRef = useRef(urlSearchTerm);
+
+  // Filters and page last loaded from the URL
+  const appliedUrlStateRef = useRef<{ filters: string; page: number } | null>(
+    null
+  );
 
   // Refs to store debounced functions to prevent memory leaks
   const debouncedFilterRef = useRef<
@@ -163,17 +184,7 @@ export default function JobsClientComponent({
           })
         ).unwrap();
 
-        // Then fetch jobs
-        await dispatch(
-          fetchJobs({
-            page: 1,
-            limit: pagination.pageSize,
-            userRole,
-            userId,
-            organizationId,
-          })
-        ).unwrap();
-
+        // Jobs themselves are loaded from the URL below
         setInitState({ initialized: true, error: null });
       } catch (err) {
         const errorMessage =
@@ -191,9 +202,77 @@ export default function JobsClientComponent({
     organizationId,
     initState.initialized,
     isValidProps,
-    pagination.pageSize,
   ]);
 
+  // Load whatever the URL describes. Only the page changing goes through
+  // goToPage so the current filters are reused; anything else, including
+  // the browser's back and forward buttons, re-applies the URL's filters.
+  // The sort only orders the loaded page, so it never refetches.
+  useEffect(() => {
+    if (
+      !isValidProps ||
+      typeof userRole !== "string" ||
+      typeof userId !== "string"
+    ) {
+      return;
+    }
+
+    const filtersQuery = jobFiltersToQuery(urlState.filters);
+    const applied = appliedUrlStateRef.current;
+    if (applied?.filters === filtersQuery && applied.page === urlState.page) {
+      return;
+    }
+    appliedUrlStateRef.current = { filters: filtersQuery, page: urlState.page };
+
+    if (applied?.filters === filtersQuery) {
+      dispatch(
+        goToPage({ page: urlState.page, userRole, userId, organizationId })
+      );
+    } else {
+      dispatch(
+        applyFilters({
+          filters: urlState.filters,
+          userRole,
+          userId,
+          organizationId,
+          page: urlState.page,
+        })
+      );
+    }
+  }, [dispatch, urlState, userRole, userId, organizationId, isValidProps]);
+
+  // Follow the URL when it changes from elsewhere, e.g. back/forward
+  useEffect(() => {
+    if (urlSearchTerm !== pushedSearchRef.current.trim()) {
+      pushedSearchRef.current = urlSearchTerm;
+      setSearchTerm(urlSearchTerm);
+    }
+  }, [urlSearchTerm]);
+
+  // Keep the quick filter dropdowns in step with the URL
+  useEffect(() => {
+    const firstValue = (value: string | string[] | undefined) =>
+      (Array.isArray(value) ? value[0] : value) || "";
+    setFilterDropdowns((prev) => ({
+      ...prev,
+      status: firstValue(urlState.filters.status),
+      location: firstValue(urlState.filters.location),
+      company: firstValue(urlState.filters.company),
+    }));
+  }, [urlState]);
+
+  // Show the jobs for the given filters, sort and page by pushing them to
+  // the URL, so each change gets its own history entry
+  const showJobs = useCallback(
+    (nextFilters: JobFilters, page = 1, sort: JobSortOption = sortBy) => {
+      const query = jobFiltersToQuery(nextFilters, sort, page);
+      router.push(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname, sortBy]
+  );
+
   // Initialize debounced functions and store in refs
   useEffect(() => {
     debouncedFilterRef.current = debounce(
@@ -202,7 +281,7 @@ export default function JobsClientComponent({
 
         try {
           const newFilters = {
-            ...filters,
+            ...urlState.filters,
             [filterType]: value || undefined,
           };
 
@@ -213,9 +292,6 @@ export default function JobsClientComponent({
             }
           });
 
-          // Update filters immediately without loading state
-          dispatch(setFilters(newFilters));
-
           // Update local dropdown state immediately
           setFilterDropdowns((prev) => ({
             ...prev,
@@ -223,16 +299,8 @@ export default function JobsClientComponent({
             isOpen: false,
           }));
 
-          // Apply filters with server-side filtering
-          await dispatch(
-            applyFilters({
-              filters: newFilters,
-              userRole: userRole || "",
-              userId: userId || "",
-              organizationId,
-              page: 1,
-            })
-          ).unwrap();
+          // Server-side filtering follows from the URL
+          showJobs(newFilters);
         } catch (err) {
           console.error("Failed to apply filter:", err);
         }
@@ -245,7 +313,7 @@ export default function JobsClientComponent({
 
       try {
         const newFilters = {
-          ...filters,
+          ...urlState.filters,
           searchTerm: searchValue || undefined,
         };
 
@@ -256,19 +324,9 @@ export default function JobsClientComponent({
           }
         });
 
-        // Update filters immediately
-        dispatch(setFilters(newFilters));
-
-        // Apply filters with server-side filtering
-        await dispatch(
-          applyFilters({
-            filters: newFilters,
-            userRole: userRole || "",
-            userId: userId || "",
-            organizationId,
-            page: 1, // Reset to first page on search
-          })
-        ).unwrap();
+        // Server-side filtering follows from the URL, back on the first page
+        pushedSearchRef.current = searchValue;
+        showJobs(newFilters);
       } catch (err) {
         console.error("Failed to apply search:", err);
       }
@@ -283,7 +341,7 @@ export default function JobsClientComponent({
         debouncedSearchRef.current.cancel?.();
       }
     };
-  }, [dispatch, filters, userRole, userId, organizationId, isValidProps]);
+  }, [urlState, showJobs, isValidProps]);
 
   // Cleanup effect to clear data on unmount
   useEffect(() => {
@@ -345,34 +403,25 @@ export default function JobsClientComponent({
       setInitState((prev) => ({ ...prev, error: null }));
 
       await dispatch(
-        fetchJobs({
-          page: 1,
-          limit: INITIAL_PAGE_SIZE,
+        applyFilters({
+          filters: urlState.filters,
           userRole,
           userId,
           organizationId,
+          page: urlState.page,
         })
       ).unwrap();
     } catch (err) {
       console.log("Retry failed:", err);
     }
-  }, [dispatch, userRole, userId, organizationId, isValidProps]);
+  }, [dispatch, urlState, userRole, userId, organizationId, isValidProps]);
 
   // Pagination handlers
   const handlePageChange = useCallback(
     (page: number) => {
-      dispatch(
-        fetchJobs({
-          page,
-          limit: pagination.pageSize,
-          filters,
-          userRole,
-          userId,
-          organizationId,
-        })
-      );
+      showJobs(urlState.filters, page);
     },
-    [dispatch, pagination.pageSize, filters, userRole, userId, organizationId]
+    [showJobs, urlState]
   );
 
   // Let's add comprehensive debugging to understand the exact flow
@@ -388,11 +437,22 @@ export default function JobsClientComponent({
         // Step 1: Update page size in Redux
         dispatch(setPageSize(pageSize));
 
+        // The new page size starts over from the first page; mark it as
+        // loaded so the URL change doesn't fetch it a second time
+        const query = jobFiltersToQuery(urlState.filters, sortBy);
+        appliedUrlStateRef.current = {
+          filters: jobFiltersToQuery(urlState.filters),
+          page: 1,
+        };
+        router.replace(query ? `${pathname}?${query}` : pathname, {
+          scroll: false,
+        });
+
         // Step 2: Log what we're about to send to fetchJobs
         const fetchJobsParams = {
           page: 1,
           limit: pageSize, // This should be the new pageSize
-          filters,
+          filters: urlState.filters,
           userRole,
           userId,
           organizationId,
@@ -404,7 +464,17 @@ export default function JobsClientComponent({
         console.error("Failed to change page size:", err);
       }
     },
-    [dispatch, filters, userRole, userId, organizationId, isValidProps] // Added pagination to deps
+    [
+      dispatch,
+      router,
+      pathname,
+      urlState,
+      sortBy,
+      userRole,
+      userId,
+      organizationId,
+      isValidProps,
+    ] // Added pagination to deps
   );
 
   const toggleFilterDropdown = useCallback(
@@ -431,7 +501,9 @@ export default function JobsClientComponent({
       isOpen: false,
     });
     setSearchTerm(""); // Clear search term as well
-  }, [dispatch]);
+    pushedSearchRef.current = "";
+    showJobs({});
+  }, [dispatch, showJobs]);
 
   const handleApplyFilters = useCallback(async () => {
     if (!isValidProps) return;
@@ -459,19 +531,12 @@ export default function JobsClientComponent({
           : filters.jobType,
       };
 
-      await dispatch(
-        applyFilters({
-          filters: newFilters,
-          userRole,
-          userId,
-          organizationId,
-          page: 1, // Reset to first page on filter change
-        })
-      ).unwrap();
+      // Server-side filtering follows from the URL, back on the first page
+      showJobs(newFilters);
     } catch (error) {
       console.error("Failed to apply filters:", error);
     }
-  }, [dispatch, filters, userRole, userId, organizationId, isValidProps]);
+  }, [filters, userRole, userId, isValidProps, showJobs]);
 
   // Optimized job transformations - now using paginated jobs with search and sorting
   const transformedJobs = useMemo(() => {
@@ -784,9 +849,9 @@ export default function JobsClientComponent({
                 }
                 options={["Most Recent", "A-Z", "Z-A"]}
                 onChange={(value) => {
-                  if (value === "Most Recent") setSortBy("recent");
-                  else if (value === "A-Z") setSortBy("az");
-                  else if (value === "Z-A") setSortBy("za");
+                  const sort: JobSortOption =
+                    value === "A-Z" ? "az" : value === "Z-A" ? "za" : "recent";
+                  showJobs(urlState.filters, urlState.page, sort);
                 }}
                 isOpen={sortDropdownOpen}
                 onToggle={() => setSortDropdownOpen(!sortDropdownOpen)}
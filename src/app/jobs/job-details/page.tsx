@@ -15,6 +15,8 @@ import {
   clearSelectedJob,
 } from "@/store/features/jobSlice";
 import CandidatesList from "@/components/candidates_list_component";
+import CandidatesBoard from "@/components/candidates-board";
+import JobRubricSettings from "@/components/job-rubric-settings";
 import JobDescriptionRenderer from "@/components/JobDescriptionRenderer";
 import {
   UserContext,
@@ -37,6 +39,8 @@ import {
   DeleteConfirmationModal,
   JobHeader,
   JobInfoTags,
+  CandidatesViewToggle,
+  CandidatesView,
 } from "./utils";
 import { RootState } from "@/store/store";
 import { Suspense } from "react";
@@ -49,6 +53,7 @@ export default function JobDetailsComponent() {
   // State management
   const [step, setStep] = useState(0);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [candidatesView, setCandidatesView] = useState<CandidatesView>("list");
 
   // Redux selectors - moved up for better organization
   const collapsed = useAppSelector(
@@ -261,6 +266,11 @@ export default function JobDetailsComponent() {
     }
   }, [jobMetadata.jobTitle, jobMetadata.companyName]);
 
+  const handleCandidatesViewChange = useCallback((view: CandidatesView) => {
+    setCandidatesView(view);
+    localStorage.setItem("job-candidates-view", view);
+  }, []);
+
   const handleRetry = useCallback(() => {
     if (jobId) {
       dispatch(clearError());
@@ -272,6 +282,14 @@ export default function JobDetailsComponent() {
     router.push("/jobs");
   }, [router]);
 
+  // Restore the last used candidates view
+  useEffect(() => {
+    const savedView = localStorage.getItem("job-candidates-view");
+    if (savedView === "list" || savedView === "board") {
+      setCandidatesView(savedView);
+    }
+  }, []);
+
   // Initialize authentication if not ready
   useEffect(() => {
     if (!isAuthReady) {
@@ -452,49 +470,28 @@ export default function JobDetailsComponent() {
 
               {step === 1 && (
                 <div className="bg-white rounded-xl shadow-sm border border-neutral-100 overflow-hidden">
-                  <CandidatesList
-                    jobId={jobId}
-                    showHeader={false}
-                    onCandidateClick={(candidate) => {
-                      console.log("Candidate clicked:", candidate);
-                    }}
-                  />
+                  <div className="flex justify-end px-4 pt-4">
+                    <CandidatesViewToggle
+                      view={candidatesView}
+                      onChange={handleCandidatesViewChange}
+                    />
+                  </div>
+                  {candidatesView === "board" && jobId ? (
+                    <CandidatesBoard jobId={jobId} className="p-4" />
+                  ) : (
+                    <CandidatesList
+                      jobId={jobId}
+                      showHeader={false}
+                      onCandidateClick={(candidate) => {
+                        console.log("Candidate clicked:", candidate);
+                      }}
+                    />
+                  )}
                 </div>
               )}
 
-              {step === 2 && (
-                <div className="bg-white rounded-2xl shadow-sm border border-neutral-100 p-8 text-center">
-                  <div className="max-w-md mx-auto">
-                    <div className="w-16 h-16 bg-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
-                      <svg
-                        className="w-8 h-8 text-blue-600"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
-                        />
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-                        />
-                      </svg>
-                    </div>
-                    <h3 className="text-xl font-bold text-neutral-900 mb-2">
-                      Settings Coming Soon
-                    </h3>
-                    <p className="text-neutral-600">
-                      Job settings and configuration features are currently
-                      under development.
-                    </p>
-                  </div>
-                </div>
+              {step === 2 && jobId && userContext && (
+                <JobRubricSettings jobId={jobId} userContext={userContext} />
               )}
             </div>
 
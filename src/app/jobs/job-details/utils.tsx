@@ -176,6 +176,35 @@ export const TabNavigation: React.FC<{
   </div>
 );
 
+export type CandidatesView = "list" | "board";
+
+// List/board switch for the Candidates tab
+export const CandidatesViewToggle: React.FC<{
+  view: CandidatesView;
+  onChange: (view: CandidatesView) => void;
+}> = ({ view, onChange }) => (
+  <div
+    className="inline-flex rounded-lg border border-neutral-200 bg-neutral-100 p-1"
+    data-testid="candidates-view-toggle"
+  >
+    {(["list", "board"] as const).map((option) => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onChange(option)}
+        className={`px-4 py-1.5 text-sm font-medium rounded-md capitalize transition-colors cursor-pointer ${
+          view === option
+            ? "bg-white text-blue-600 shadow-sm"
+            : "text-neutral-500 hover:text-neutral-700"
+        }`}
+        aria-pressed={view === option}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
 // Status Dropdown Component
 export const StatusDropdown: React.FC<{
   status: JobStatus;
@@ -1,5 +1,5 @@
 "use client";
-import React, { useEffect, useRef } from "react";
+import React, { Suspense, useEffect, useRef } from "react";
 import Link from "next/link";
 import JobsClientComponent from "./JobsClientComponent";
 import { useAppSelector, useAppDispatch } from "@/store/hooks";
@@ -213,11 +213,13 @@ export default function JobsPage() {
 
   return (
     <div className="max-w-8xl">
-      <JobsClientComponent
-        userId={user.id}
-        userRole={primaryRole}
-        organizationId={organization.id}
-      />
+      <Suspense fallback={<LoadingSpinner message="Loading jobs..." />}>
+        <JobsClientComponent
+          userId={user.id}
+          userRole={primaryRole}
+          organizationId={organization.id}
+        />
+      </Suspense>
     </div>
   );
 }
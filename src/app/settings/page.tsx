@@ -20,6 +20,13 @@ import {
 import { initializeAuth } from "@/store/features/userSlice";
 import { RootState } from "@/store/store";
 import Breadcrumb from "@/components/Breadcrumb";
+import PipelineSettings from "@/components/pipeline-settings";
+import TagSettings from "@/components/tag-settings";
+import FitScoreSettings from "@/components/fit-score-settings";
+import RetentionSettings from "@/components/retention-settings";
+import RejectionReasonSettings from "@/components/rejection-reason-settings";
+import OfferApprovalSettings from "@/components/offer-approval-settings";
+import EmailTemplateSettings from "@/components/email-template-settings";
 
 // Types for better type safety
 interface TeamMember {
@@ -47,7 +54,17 @@ interface RoleChange {
   newRole: string;
 }
 
-const steps = ["Roles", "Notifications"];
+const steps = [
+  "Roles",
+  "Notifications",
+  "Pipeline",
+  "Tags",
+  "Fit Score",
+  "Data Retention",
+  "Rejection Reasons",
+  "Offer Approvals",
+  "Email Templates",
+];
 
 export default function Settings() {
   const dispatch = useAppDispatch();
@@ -892,6 +909,76 @@ export default function Settings() {
                 </div>
               </>
             )}
+
+            {step === 2 && currentUser && currentOrgId && (
+              <PipelineSettings
+                userContext={{
+                  userId: currentUser.id,
+                  organizationId: currentOrgId,
+                  roles: currentUserRole,
+                }}
+              />
+            )}
+
+            {step === 3 && currentUser && currentOrgId && (
+              <TagSettings
+                userContext={{
+                  userId: currentUser.id,
+                  organizationId: currentOrgId,
+                  roles: currentUserRole,
+                }}
+              />
+            )}
+
+            {step === 4 && currentUser && currentOrgId && (
+              <FitScoreSettings
+                userContext={{
+                  userId: currentUser.id,
+                  organizationId: currentOrgId,
+                  roles: currentUserRole,
+                }}
+              />
+            )}
+
+            {step === 5 && currentUser && currentOrgId && (
+              <RetentionSettings
+                userContext={{
+                  userId: currentUser.id,
+                  organizationId: currentOrgId,
+                  roles: currentUserRole,
+                }}
+              />
+            )}
+
+            {step === 6 && currentUser && currentOrgId && (
+              <RejectionReasonSettings
+                userContext={{
+                  userId: currentUser.id,
+                  organizationId: currentOrgId,
+                  roles: currentUserRole,
+                }}
+              />
+            )}
+
+            {step === 7 && currentUser && currentOrgId && (
+              <OfferApprovalSettings
+                userContext={{
+                  userId: currentUser.id,
+                  organizationId: currentOrgId,
+                  roles: currentUserRole,
+                }}
+              />
+            )}
+
+            {step === 8 && currentUser && currentOrgId && (
+              <EmailTemplateSettings
+                userContext={{
+                  userId: currentUser.id,
+                  organizationId: currentOrgId,
+                  roles: currentUserRole,
+                }}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -1,28 +1,16 @@
-import { useState, useEffect } from "react";
+import sanitizeHtml from "sanitize-html";
 
 interface JobDescriptionRendererProps {
   content: string;
   className?: string;
 }
 
+// Renders the same markup on the server and the client, so public careers
+// pages can server-render descriptions
 export default function JobDescriptionRenderer({
   content,
   className = "",
 }: JobDescriptionRendererProps) {
-  const [isClient, setIsClient] = useState(false);
-
-  // Ensure we're on the client side to avoid hydration mismatches
-  useEffect(() => {
-    setIsClient(true);
-  }, []);
-  // Debug logging (development only)
-  if (process.env.NODE_ENV === "development") {
-    console.log("JobDescriptionRenderer received content:", {
-      length: content?.length,
-      isHTML: content?.includes("<") || false,
-    });
-  }
-
   const defaultClasses = `
     text-neutral-700 text-base font-normal leading-relaxed
     [&>h1]:text-3xl [&>h1]:font-bold [&>h1]:text-neutral-900 [&>h1]:mb-6 [&>h1]:mt-8 [&>h1]:pb-2 [&>h1]:border-b [&>h1]:border-neutral-200
@@ -95,20 +83,9 @@ export default function JobDescriptionRenderer({
       .join("");
   };
 
-  const htmlContent = processContentForDisplay(content);
-
-  // Show raw content for debugging
-  if (process.env.NODE_ENV === "development") {
-    console.log("JobDescriptionRenderer - Content processing:", {
-      originalContent: content?.substring(0, 100) + "...",
-      isHTML: content?.includes("<"),
-      processedHTML: htmlContent?.substring(0, 100) + "...",
-      hasHTMLTags:
-        htmlContent?.includes("<h") ||
-        htmlContent?.includes("<p") ||
-        htmlContent?.includes("<ul"),
-    });
-  }
+  // Descriptions are shown on public careers pages, so scripts, event
+  // handlers and javascript: links are stripped before rendering
+  const htmlContent = sanitizeHtml(processContentForDisplay(content));
 
   // Fallback component for when HTML rendering fails
   const FallbackRenderer = () => (
@@ -132,19 +109,6 @@ export default function JobDescriptionRenderer({
       !htmlContent.includes("<h") &&
       !htmlContent.includes("<p"));
 
-  // Show loading state during SSR
-  if (!isClient) {
-    return (
-      <div className={`${defaultClasses} ${className}`}>
-        <div className="animate-pulse">
-          <div className="h-4 bg-neutral-200 rounded w-3/4 mb-2"></div>
-          <div className="h-4 bg-neutral-200 rounded w-full mb-2"></div>
-          <div className="h-4 bg-neutral-200 rounded w-5/6"></div>
-        </div>
-      </div>
-    );
-  }
-
   if (shouldUseFallback) {
     if (process.env.NODE_ENV === "development") {
       console.warn(
@@ -83,6 +83,7 @@ function FontSizePlugin() {
 interface LexicalEditorProps {
   value: string;
   onChange: (value: string) => void;
+  placeholder?: string;
 }
 
 interface EditorRefPluginProps {
@@ -123,9 +124,11 @@ const theme = {
 
 // Memoize the editor content component
 const EditorContent = memo(({
-  isLoadingContent
+  isLoadingContent,
+  placeholder,
 }: {
   isLoadingContent: boolean;
+  placeholder: string;
 }) => (
   <div className="space-y-2">
     {isLoadingContent && (
@@ -145,7 +148,7 @@ const EditorContent = memo(({
         }
         placeholder={
           <div className="absolute top-2 left-3 text-neutral-400 pointer-events-none">
-            Enter job description here...
+            {placeholder}
           </div>
         }
         ErrorBoundary={({ children }) => <div className="text-red-500 p-4">{children}</div>}
@@ -168,7 +171,11 @@ const EditorContent = memo(({
 
 EditorContent.displayName = "EditorContent";
 
-export default function LexicalEditor({ value, onChange }: LexicalEditorProps) {
+export default function LexicalEditor({
+  value,
+  onChange,
+  placeholder = "Enter job description here...",
+}: LexicalEditorProps) {
   const editorRef = useRef<LexicalEditorType | null>(null);
   const [isEditorReady, setIsEditorReady] = useState(false);
   const [initialValue] = useState(value); // Capture initial value
@@ -321,6 +328,7 @@ export default function LexicalEditor({ value, onChange }: LexicalEditorProps) {
       <OnChangePlugin onChange={handleChange} />
       <EditorContent
         isLoadingContent={isLoadingContent}
+        placeholder={placeholder}
       />
     </LexicalComposer>
   );
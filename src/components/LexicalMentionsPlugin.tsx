@@ -0,0 +1,188 @@
+import { useCallback, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { useLexicalComposerContext } from "@lexical/react/LexicalComposerContext";
+import {
+  LexicalTypeaheadMenuPlugin,
+  MenuOption,
+  useBasicTypeaheadTriggerMatch,
+} from "@lexical/react/LexicalTypeaheadMenuPlugin";
+import {
+  $applyNodeReplacement,
+  EditorConfig,
+  NodeKey,
+  SerializedTextNode,
+  Spread,
+  TextNode,
+} from "lexical";
+
+const MAX_SUGGESTIONS = 8;
+
+export interface MentionMember {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+export type SerializedMentionNode = Spread<
+  { userId: string },
+  SerializedTextNode
+>;
+
+// Inline "@Name" token that keeps the mentioned user's ID in the saved state
+export class MentionNode extends TextNode {
+  __userId: string;
+
+  static getType(): string {
+    return "mention";
+  }
+
+  static clone(node: MentionNode): MentionNode {
+    return new MentionNode(node.__text, node.__userId, node.__key);
+  }
+
+  static importJSON(serializedNode: SerializedMentionNode): MentionNode {
+    return $createMentionNode(
+      serializedNode.text,
+      serializedNode.userId
+    ).updateFromJSON(serializedNode);
+  }
+
+  constructor(text: string, userId: string, key?: NodeKey) {
+    super(text, key);
+    this.__userId = userId;
+  }
+
+  exportJSON(): SerializedMentionNode {
+    return { ...super.exportJSON(), userId: this.__userId };
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const dom = super.createDOM(config);
+    dom.className = "bg-blue-50 text-blue-700 font-medium rounded px-0.5";
+    return dom;
+  }
+
+  isTextEntity(): true {
+    return true;
+  }
+
+  canInsertTextBefore(): boolean {
+    return false;
+  }
+
+  canInsertTextAfter(): boolean {
+    return false;
+  }
+}
+
+export function $createMentionNode(name: string, userId: string) {
+  const node = new MentionNode(
+    name.startsWith("@") ? name : `@${name}`,
+    userId
+  );
+  // Segmented nodes are removed word by word instead of character by character
+  node.setMode("segmented").toggleDirectionless();
+  return $applyNodeReplacement(node);
+}
+
+class MentionOption extends MenuOption {
+  member: MentionMember;
+
+  constructor(member: MentionMember) {
+    super(member.id);
+    this.member = member;
+  }
+}
+
+// Typing "@" suggests org members and inserts a MentionNode for the pick
+export default function MentionsPlugin({
+  members,
+}: {
+  members: MentionMember[];
+}) {
+  const [editor] = useLexicalComposerContext();
+  const [query, setQuery] = useState<string | null>(null);
+  const triggerFn = useBasicTypeaheadTriggerMatch("@", { minLength: 0 });
+
+  const options = useMemo(() => {
+    if (query === null) return [];
+    const search = query.toLowerCase();
+    return members
+      .filter(
+        (member) =>
+          member.name.toLowerCase().includes(search) ||
+          member.email?.toLowerCase().includes(search)
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map((member) => new MentionOption(member));
+  }, [members, query]);
+
+  const onSelectOption = useCallback(
+    (
+      option: MentionOption,
+      nodeToReplace: TextNode | null,
+      closeMenu: () => void
+    ) => {
+      editor.update(() => {
+        const mentionNode = $createMentionNode(
+          option.member.name,
+          option.member.id
+        );
+        if (nodeToReplace) {
+          nodeToReplace.replace(mentionNode);
+        }
+        mentionNode.select();
+        closeMenu();
+      });
+    },
+    [editor]
+  );
+
+  return (
+    <LexicalTypeaheadMenuPlugin<MentionOption>
+      onQueryChange={setQuery}
+      onSelectOption={onSelectOption}
+      triggerFn={triggerFn}
+      options={options}
+      // The candidate overlay sits at z-[110]
+      anchorClassName="z-[120]"
+      menuRenderFn={(
+        anchorElementRef,
+        { selectedIndex, selectOptionAndCleanUp, setHighlightedIndex }
+      ) =>
+        anchorElementRef.current && options.length > 0
+          ? createPortal(
+              <ul className="mt-6 w-64 bg-white border border-neutral-200 rounded-md shadow-lg py-1">
+                {options.map((option, index) => (
+                  <li
+                    key={option.key}
+                    ref={(element) => option.setRefElement(element)}
+                    role="option"
+                    aria-selected={selectedIndex === index}
+                    onMouseEnter={() => setHighlightedIndex(index)}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      selectOptionAndCleanUp(option);
+                    }}
+                    className={`px-3 py-2 text-sm cursor-pointer ${
+                      selectedIndex === index
+                        ? "bg-blue-50 text-blue-700"
+                        : "text-neutral-800"
+                    }`}
+                  >
+                    <div className="font-medium">{option.member.name}</div>
+                    {option.member.email && (
+                      <div className="text-xs text-neutral-500">
+                        {option.member.email}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>,
+              anchorElementRef.current
+            )
+          : null
+      }
+    />
+  );
+}
@@ -0,0 +1,168 @@
+import { memo, useCallback } from "react";
+import { LexicalComposer } from "@lexical/react/LexicalComposer";
+import { RichTextPlugin } from "@lexical/react/LexicalRichTextPlugin";
+import { ContentEditable } from "@lexical/react/LexicalContentEditable";
+import { HistoryPlugin } from "@lexical/react/LexicalHistoryPlugin";
+import { OnChangePlugin } from "@lexical/react/LexicalOnChangePlugin";
+import { ListPlugin } from "@lexical/react/LexicalListPlugin";
+import { LinkPlugin } from "@lexical/react/LexicalLinkPlugin";
+import { useLexicalComposerContext } from "@lexical/react/LexicalComposerContext";
+import { $getRoot, EditorState, FORMAT_TEXT_COMMAND } from "lexical";
+import {
+  INSERT_UNORDERED_LIST_COMMAND,
+  ListItemNode,
+  ListNode,
+} from "@lexical/list";
+import { LinkNode } from "@lexical/link";
+import { FaBold, FaItalic, FaListUl } from "react-icons/fa";
+import MentionsPlugin, {
+  MentionMember,
+  MentionNode,
+} from "@/components/LexicalMentionsPlugin";
+
+interface LexicalNoteEditorProps {
+  // Serialized editor state of an existing note
+  initialValue?: string | null;
+  editable?: boolean;
+  members?: MentionMember[];
+  placeholder?: string;
+  onChange?: (value: { body: string; text: string }) => void;
+}
+
+const theme = {
+  text: {
+    bold: "font-bold",
+    italic: "italic",
+    underline: "underline",
+    strikethrough: "line-through",
+  },
+  paragraph: "mb-1 last:mb-0",
+  list: {
+    ul: "list-disc ml-5",
+    ol: "list-decimal ml-5",
+    listitem: "mb-0.5",
+  },
+  link: "text-blue-600 underline cursor-pointer",
+};
+
+// Bold, italic and bullets are all notes need
+const NoteToolbar = memo(() => {
+  const [editor] = useLexicalComposerContext();
+  const buttonClassName =
+    "p-1.5 rounded text-neutral-600 hover:bg-neutral-200 cursor-pointer";
+
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 bg-neutral-100 rounded-t-md border-b border-neutral-200">
+      <button
+        type="button"
+        onClick={() => editor.dispatchCommand(FORMAT_TEXT_COMMAND, "bold")}
+        className={buttonClassName}
+        aria-label="Bold"
+      >
+        <FaBold className="w-3 h-3" />
+      </button>
+      <button
+        type="button"
+        onClick={() => editor.dispatchCommand(FORMAT_TEXT_COMMAND, "italic")}
+        className={buttonClassName}
+        aria-label="Italic"
+      >
+        <FaItalic className="w-3 h-3" />
+      </button>
+      <button
+        type="button"
+        onClick={() =>
+          editor.dispatchCommand(INSERT_UNORDERED_LIST_COMMAND, undefined)
+        }
+        className={buttonClassName}
+        aria-label="Bulleted list"
+      >
+        <FaListUl className="w-3 h-3" />
+      </button>
+      <span className="ml-auto text-xs text-neutral-400">
+        Type @ to mention a teammate
+      </span>
+    </div>
+  );
+});
+
+NoteToolbar.displayName = "NoteToolbar";
+
+// Lightweight LexicalEditor for recruiter notes; also renders saved notes
+// read-only so mentions keep their styling
+export default function LexicalNoteEditor({
+  initialValue,
+  editable = true,
+  members = [],
+  placeholder = "Write a note...",
+  onChange,
+}: LexicalNoteEditorProps) {
+  const initialConfig = {
+    namespace: "CandidateNoteEditor",
+    theme,
+    editable,
+    editorState: initialValue || undefined,
+    onError(error: Error) {
+      throw error;
+    },
+    nodes: [ListNode, ListItemNode, LinkNode, MentionNode],
+  };
+
+  const handleChange = useCallback(
+    (editorState: EditorState) => {
+      if (!onChange) return;
+      editorState.read(() => {
+        onChange({
+          body: JSON.stringify(editorState.toJSON()),
+          text: $getRoot().getTextContent(),
+        });
+      });
+    },
+    [onChange]
+  );
+
+  if (!editable) {
+    return (
+      <LexicalComposer initialConfig={initialConfig}>
+        <RichTextPlugin
+          contentEditable={
+            <ContentEditable className="text-sm text-neutral-800 outline-none" />
+          }
+          ErrorBoundary={({ children }) => (
+            <div className="text-red-500">{children}</div>
+          )}
+        />
+        <ListPlugin />
+        <LinkPlugin />
+      </LexicalComposer>
+    );
+  }
+
+  return (
+    <LexicalComposer initialConfig={initialConfig}>
+      <div className="bg-white rounded-md border border-neutral-300 focus-within:border-blue-500">
+        <NoteToolbar />
+        <div className="relative">
+          <RichTextPlugin
+            contentEditable={
+              <ContentEditable className="min-h-20 max-h-60 overflow-y-auto px-3 py-2 text-sm text-neutral-900 outline-none" />
+            }
+            placeholder={
+              <div className="absolute top-2 left-3 text-sm text-neutral-400 pointer-events-none">
+                {placeholder}
+              </div>
+            }
+            ErrorBoundary={({ children }) => (
+              <div className="text-red-500 p-2">{children}</div>
+            )}
+          />
+        </div>
+        <HistoryPlugin />
+        <ListPlugin />
+        <LinkPlugin />
+        <MentionsPlugin members={members} />
+        <OnChangePlugin onChange={handleChange} ignoreSelectionChange />
+      </div>
+    </LexicalComposer>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import { FiDownload, FiEdit3 } from "react-icons/fi";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchApplicationInterviews,
+  formatInterviewTime,
+  selectApplicationInterviews,
+  selectInterviewsError,
+  selectInterviewsLoading,
+  setInterviewOutcome,
+} from "@/store/features/interviewsSlice";
+import {
+  CandidateWithApplication,
+  selectUserContext,
+} from "@/store/features/candidatesSlice";
+import { INTERVIEW_OUTCOMES, Interview, InterviewOutcome } from "@/types/custom";
+import { buildInterviewIcs, downloadIcs } from "@/utils/ics";
+import InterviewForm from "./interview-form";
+
+const OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+  pending: "Pending",
+  passed: "Passed",
+  failed: "Failed",
+  no_show: "No show",
+  cancelled: "Cancelled",
+};
+
+const OUTCOME_CLASSES: Record<InterviewOutcome, string> = {
+  pending: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  passed: "bg-green-50 text-green-700 border-green-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+  no_show: "bg-orange-50 text-orange-700 border-orange-200",
+  cancelled: "bg-neutral-100 text-neutral-600 border-neutral-200",
+};
+
+const isUpcoming = (interview: Interview) =>
+  interview.outcome !== "cancelled" &&
+  new Date(interview.endTime).getTime() >= Date.now();
+
+export const InterviewCard = memo(
+  ({
+    interview,
+    showCandidate = false,
+    onEdit,
+  }: {
+    interview: Interview;
+    showCandidate?: boolean;
+    onEdit?: (interview: Interview) => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const profile = useAppSelector((state) => state.user.profile);
+    const [updating, setUpdating] = useState(false);
+
+    const handleDownload = () => {
+      const ics = buildInterviewIcs(
+        interview,
+        profile ? { name: profile.full_name, email: profile.email } : null
+      );
+      downloadIcs(
+        `interview-${interview.candidate.name}-${interview.roundName}`
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-"),
+        ics
+      );
+    };
+
+    const handleOutcomeChange = async (outcome: InterviewOutcome) => {
+      if (!userContext || outcome === interview.outcome) return;
+      if (
+        outcome === "cancelled" &&
+        !window.confirm("Are you sure you want to cancel this interview?")
+      ) {
+        return;
+      }
+
+      setUpdating(true);
+      try {
+        await dispatch(
+          setInterviewOutcome({ interview, outcome, userContext })
+        ).unwrap();
+      } catch (err) {
+        alert(`Failed to update outcome: ${err}`);
+      } finally {
+        setUpdating(false);
+      }
+    };
+
+    return (
+      <div className="border border-neutral-200 rounded-lg p-4">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <div className="text-sm font-semibold text-neutral-900">
+              {interview.roundName}
+              {showCandidate && (
+                <span className="font-normal text-neutral-600">
+                  {" "}
+                  · {interview.candidate.name} · {interview.jobTitle}
+                </span>
+              )}
+            </div>
+            <div className="text-sm text-neutral-600 mt-1">
+              {formatInterviewTime(interview)}
+            </div>
+          </div>
+          <span
+            className={`px-3 py-1 rounded-full text-xs font-medium border ${
+              OUTCOME_CLASSES[interview.outcome]
+            }`}
+          >
+            {OUTCOME_LABELS[interview.outcome]}
+          </span>
+        </div>
+
+        {(interview.location || interview.meetingLink) && (
+          <div className="text-sm text-neutral-600 mt-2 space-y-1">
+            {interview.location && <div>{interview.location}</div>}
+            {interview.meetingLink && (
+              <a
+                href={interview.meetingLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline break-all"
+              >
+                {interview.meetingLink}
+              </a>
+            )}
+          </div>
+        )}
+
+        {interview.interviewers.length > 0 && (
+          <div className="text-xs text-neutral-500 mt-2">
+            Interviewers:{" "}
+            {interview.interviewers
+              .map((interviewer) => interviewer.name)
+              .join(", ")}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+          >
+            <FiDownload className="w-3.5 h-3.5" />
+            Invite (.ics)
+          </button>
+          {onEdit && interview.outcome !== "cancelled" && (
+            <button
+              type="button"
+              onClick={() => onEdit(interview)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+            >
+              <FiEdit3 className="w-3.5 h-3.5" />
+              Edit
+            </button>
+          )}
+          <select
+            value={interview.outcome}
+            onChange={(e) =>
+              handleOutcomeChange(e.target.value as InterviewOutcome)
+            }
+            disabled={updating || !userContext}
+            className="px-2 py-1.5 text-xs border border-neutral-300 rounded-md bg-white cursor-pointer disabled:opacity-50"
+            aria-label="Interview outcome"
+          >
+            {INTERVIEW_OUTCOMES.map((outcome) => (
+              <option key={outcome} value={outcome}>
+                {OUTCOME_LABELS[outcome]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    );
+  }
+);
+
+InterviewCard.displayName = "InterviewCard";
+
+// Interviews section of the candidate overlay
+const ApplicationInterviews = memo(
+  ({ candidate }: { candidate: CandidateWithApplication }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const interviews = useAppSelector((state) =>
+      selectApplicationInterviews(state, candidate.application_id)
+    );
+    const loading = useAppSelector(selectInterviewsLoading);
+    const error = useAppSelector(selectInterviewsError);
+
+    const [form, setForm] = useState<{
+      show: boolean;
+      interview: Interview | null;
+    }>({ show: false, interview: null });
+    const [showPast, setShowPast] = useState(false);
+
+    useEffect(() => {
+      if (!interviews) {
+        dispatch(fetchApplicationInterviews(candidate.application_id));
+      }
+    }, [dispatch, interviews, candidate.application_id]);
+
+    const upcoming = (interviews || []).filter(isUpcoming);
+    const past = (interviews || []).filter(
+      (interview) => !isUpcoming(interview)
+    );
+
+    return (
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <div className="font-semibold text-lg text-blue-700">Interviews</div>
+          {userContext && (
+            <button
+              type="button"
+              onClick={() => setForm({ show: true, interview: null })}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer"
+            >
+              Schedule Interview
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+        {loading && !interviews ? (
+          <p className="text-sm text-neutral-500">Loading interviews...</p>
+        ) : (
+          <div className="space-y-3">
+            {upcoming.map((interview) => (
+              <InterviewCard
+                key={interview.id}
+                interview={interview}
+                onEdit={(selected) =>
+                  setForm({ show: true, interview: selected })
+                }
+              />
+            ))}
+            {upcoming.length === 0 && (
+              <p className="text-sm text-neutral-500">
+                No upcoming interviews.
+              </p>
+            )}
+
+            {past.length > 0 && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setShowPast((prev) => !prev)}
+                  className="text-sm text-blue-600 hover:underline cursor-pointer"
+                >
+                  {showPast ? "Hide" : "Show"} past interviews ({past.length})
+                </button>
+                {showPast &&
+                  past.map((interview) => (
+                    <InterviewCard key={interview.id} interview={interview} />
+                  ))}
+              </>
+            )}
+          </div>
+        )}
+
+        {form.show && userContext && (
+          <InterviewForm
+            applicationId={candidate.application_id}
+            interview={form.interview}
+            userContext={userContext}
+            onClose={() => setForm({ show: false, interview: null })}
+          />
+        )}
+      </div>
+    );
+  }
+);
+
+ApplicationInterviews.displayName = "ApplicationInterviews";
+
+export default ApplicationInterviews;
@@ -0,0 +1,421 @@
+"use client";
+
+import { memo, useEffect, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  NOTE_MAX_LENGTH,
+  NoteScope,
+  addNote,
+  buildNoteThreads,
+  deleteNote,
+  fetchNotes,
+  selectNotes,
+  selectNotesError,
+  selectNotesLoading,
+  selectNotesSaving,
+  updateNote,
+} from "@/store/features/notesSlice";
+import {
+  fetchOrgMembers,
+  selectActiveMembers,
+} from "@/store/features/organisationSlice";
+import {
+  CandidateWithApplication,
+  UserContext,
+  selectUserContext,
+} from "@/store/features/candidatesSlice";
+import { CandidateNote } from "@/types/custom";
+import LexicalNoteEditor from "./LexicalNoteEditor";
+import { MentionMember } from "./LexicalMentionsPlugin";
+
+const formatNoteTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const skippedMentionsMessage = (count: number) =>
+  count > 0
+    ? `${count} mentioned member${count === 1 ? " does" : "s do"} not have access to this candidate and ${count === 1 ? "was" : "were"} not notified.`
+    : null;
+
+// Editor with submit/cancel used for new notes, replies and edits
+const NoteComposer = ({
+  initialValue,
+  members,
+  placeholder,
+  submitLabel,
+  saving,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue?: string | null;
+  members: MentionMember[];
+  placeholder?: string;
+  submitLabel: string;
+  saving: boolean;
+  onSubmit: (body: string, text: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) => {
+  const [value, setValue] = useState({ body: "", text: "" });
+  // Remounting the editor is the simplest way to clear it
+  const [editorKey, setEditorKey] = useState(0);
+
+  const tooLong = value.text.length > NOTE_MAX_LENGTH;
+
+  const handleSubmit = async () => {
+    if (!value.text.trim() || tooLong) return;
+    if (await onSubmit(value.body, value.text)) {
+      setValue({ body: "", text: "" });
+      setEditorKey((key) => key + 1);
+    }
+  };
+
+  return (
+    <div>
+      <LexicalNoteEditor
+        key={editorKey}
+        initialValue={initialValue}
+        members={members}
+        placeholder={placeholder}
+        onChange={setValue}
+      />
+      <div className="flex items-center justify-end gap-2 mt-2">
+        {tooLong && (
+          <span className="mr-auto text-xs text-red-600">
+            Notes are limited to {NOTE_MAX_LENGTH} characters
+          </span>
+        )}
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={saving || !value.text.trim() || tooLong}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+        >
+          {saving ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const NoteItem = ({
+  note,
+  members,
+  userContext,
+  saving,
+  onReply,
+  onNotice,
+}: {
+  note: CandidateNote;
+  members: MentionMember[];
+  userContext: UserContext;
+  saving: boolean;
+  onReply?: () => void;
+  onNotice: (message: string | null) => void;
+}) => {
+  const dispatch = useAppDispatch();
+  const [editing, setEditing] = useState(false);
+
+  const isAuthor = note.author.id === userContext.userId;
+  const canDelete = isAuthor || userContext.roles.includes("admin");
+
+  const handleEdit = async (body: string, text: string) => {
+    try {
+      const result = await dispatch(
+        updateNote({ note, body, bodyText: text, userContext })
+      ).unwrap();
+      onNotice(skippedMentionsMessage(result.skippedMentions));
+      setEditing(false);
+      return true;
+    } catch (err) {
+      console.log("Failed to update note:", err);
+      return false;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm("Delete this note?")) return;
+    try {
+      await dispatch(deleteNote({ note, userContext })).unwrap();
+    } catch (err) {
+      console.log("Failed to delete note:", err);
+    }
+  };
+
+  if (note.deletedAt) {
+    return (
+      <p className="text-sm italic text-neutral-400">This note was deleted.</p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-x-2 text-xs text-neutral-500 mb-1">
+        <span className="text-sm font-medium text-neutral-900">
+          {note.author.name}
+        </span>
+        <span>{formatNoteTime(note.createdAt)}</span>
+        {note.editedAt && (
+          <span
+            className="italic"
+            title={`Edited ${formatNoteTime(note.editedAt)}`}
+          >
+            (edited)
+          </span>
+        )}
+      </div>
+
+      {editing ? (
+        <NoteComposer
+          initialValue={note.body}
+          members={members}
+          submitLabel="Save"
+          saving={saving}
+          onSubmit={handleEdit}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <>
+          <LexicalNoteEditor
+            key={note.editedAt || note.createdAt}
+            initialValue={note.body}
+            editable={false}
+          />
+          <div className="flex gap-3 mt-1 text-xs">
+            {onReply && (
+              <button
+                type="button"
+                onClick={onReply}
+                className="text-blue-600 hover:underline cursor-pointer"
+              >
+                Reply
+              </button>
+            )}
+            {isAuthor && (
+              <button
+                type="button"
+                onClick={() => setEditing(true)}
+                className="text-neutral-600 hover:underline cursor-pointer"
+              >
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="text-red-600 hover:underline cursor-pointer"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Internal notes section of the candidate overlay, per application or for
+// the candidate as a whole
+const ApplicationNotes = memo(
+  ({ candidate }: { candidate: CandidateWithApplication }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const activeMembers = useAppSelector(selectActiveMembers);
+    const loading = useAppSelector(selectNotesLoading);
+    const saving = useAppSelector(selectNotesSaving);
+    const error = useAppSelector(selectNotesError);
+
+    const [tab, setTab] = useState<"application" | "candidate">(
+      "application"
+    );
+    const [replyingTo, setReplyingTo] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const scope: NoteScope = useMemo(
+      () => ({
+        candidateId: candidate.id,
+        applicationId: tab === "application" ? candidate.application_id : null,
+      }),
+      [candidate.id, candidate.application_id, tab]
+    );
+    const notes = useAppSelector((state) => selectNotes(state, scope));
+
+    // TAs only see notes of jobs they were granted
+    const hasAccess = candidate.hasAccess !== false;
+
+    useEffect(() => {
+      if (hasAccess && userContext && !notes) {
+        dispatch(fetchNotes({ scope, userContext }));
+      }
+    }, [dispatch, hasAccess, userContext, notes, scope]);
+
+    useEffect(() => {
+      if (userContext && activeMembers.length === 0) {
+        dispatch(fetchOrgMembers(userContext.organizationId));
+      }
+    }, [dispatch, userContext, activeMembers.length]);
+
+    useEffect(() => {
+      setReplyingTo(null);
+      setNotice(null);
+    }, [scope]);
+
+    // Only suggest teammates who can open this application
+    const members: MentionMember[] = useMemo(
+      () =>
+        activeMembers
+          .filter(
+            (member) =>
+              member.user_id !== userContext?.userId &&
+              (member.role_name === "admin" ||
+                member.role_name === "hr" ||
+                member.job_access.some(
+                  (access) => access.job_id === candidate.job_id
+                ))
+          )
+          .map((member) => ({
+            id: member.user_id,
+            name: member.full_name,
+            email: member.email,
+          })),
+      [activeMembers, userContext?.userId, candidate.job_id]
+    );
+
+    const threads = useMemo(() => buildNoteThreads(notes || []), [notes]);
+
+    if (!hasAccess || !userContext) return null;
+
+    const handleAdd = async (
+      body: string,
+      text: string,
+      parentId: string | null = null
+    ) => {
+      try {
+        const result = await dispatch(
+          addNote({ scope, parentId, body, bodyText: text, userContext })
+        ).unwrap();
+        setNotice(skippedMentionsMessage(result.skippedMentions));
+        setReplyingTo(null);
+        return true;
+      } catch (err) {
+        console.log("Failed to add note:", err);
+        return false;
+      }
+    };
+
+    const tabClassName = (value: typeof tab) =>
+      `px-3 py-1 text-sm rounded-md cursor-pointer ${
+        tab === value
+          ? "bg-blue-600 text-white"
+          : "text-neutral-600 hover:bg-neutral-100"
+      }`;
+
+    return (
+      <div className="mb-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <div className="font-semibold text-lg text-blue-700">Notes</div>
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={() => setTab("application")}
+              className={tabClassName("application")}
+            >
+              This application
+            </button>
+            <button
+              type="button"
+              onClick={() => setTab("candidate")}
+              className={tabClassName("candidate")}
+            >
+              Candidate
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+        {notice && <p className="text-sm text-yellow-700 mb-2">{notice}</p>}
+
+        <NoteComposer
+          members={members}
+          placeholder={
+            tab === "application"
+              ? `Note on the ${candidate.job_title} application...`
+              : "Note on this candidate, visible across their applications..."
+          }
+          submitLabel="Add Note"
+          saving={saving}
+          onSubmit={(body, text) => handleAdd(body, text)}
+        />
+
+        <div className="mt-4 space-y-3">
+          {loading && !notes ? (
+            <p className="text-sm text-neutral-500">Loading notes...</p>
+          ) : threads.length === 0 ? (
+            <p className="text-sm text-neutral-500">No notes yet.</p>
+          ) : (
+            threads.map(({ note, replies }) => (
+              <div
+                key={note.id}
+                className="border border-neutral-200 rounded-lg p-3"
+              >
+                <NoteItem
+                  note={note}
+                  members={members}
+                  userContext={userContext}
+                  saving={saving}
+                  onReply={() => setReplyingTo(note.id)}
+                  onNotice={setNotice}
+                />
+                {(replies.length > 0 || replyingTo === note.id) && (
+                  <div className="mt-3 ml-4 pl-3 border-l-2 border-neutral-200 space-y-3">
+                    {replies.map((reply) => (
+                      <NoteItem
+                        key={reply.id}
+                        note={reply}
+                        members={members}
+                        userContext={userContext}
+                        saving={saving}
+                        onNotice={setNotice}
+                      />
+                    ))}
+                    {replyingTo === note.id && (
+                      <NoteComposer
+                        members={members}
+                        placeholder="Reply..."
+                        submitLabel="Reply"
+                        saving={saving}
+                        onSubmit={(body, text) =>
+                          handleAdd(body, text, note.id)
+                        }
+                        onCancel={() => setReplyingTo(null)}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+
+ApplicationNotes.displayName = "ApplicationNotes";
+
+export default ApplicationNotes;
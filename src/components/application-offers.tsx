@@ -0,0 +1,416 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  OFFER_STATUS_LABELS,
+  canDecideApproval,
+  currentApproval,
+  decideOfferApproval,
+  deleteOffer,
+  fetchApplicationOffers,
+  fetchOfferApprovers,
+  formatCtc,
+  isFullyApproved,
+  needsApproval,
+  recordOfferResponse,
+  selectApplicationOffers,
+  selectOfferApprovers,
+  selectOffersError,
+  selectOffersLoading,
+  selectOffersSaving,
+  sendOffer,
+  submitOfferForApproval,
+} from "@/store/features/offersSlice";
+import {
+  CandidateWithApplication,
+  selectUserContext,
+} from "@/store/features/candidatesSlice";
+import { Offer, OfferApprovalDecision, OfferStatus } from "@/types/custom";
+import OfferForm from "./offer-form";
+
+const OFFER_STATUS_CLASSES: Record<OfferStatus, string> = {
+  draft: "bg-neutral-100 text-neutral-700 border-neutral-300",
+  pending_approval: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  sent: "bg-blue-50 text-blue-700 border-blue-200",
+  accepted: "bg-green-100 text-green-800 border-green-300",
+  declined: "bg-red-50 text-red-700 border-red-200",
+  expired: "bg-neutral-100 text-neutral-500 border-neutral-200",
+};
+
+const DECISION_CLASSES: Record<OfferApprovalDecision, string> = {
+  pending: "text-neutral-500",
+  approved: "text-green-700",
+  rejected: "text-red-700",
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+// How far the offer is from a reference amount, e.g. "+12% vs expected"
+const formatDifference = (
+  offered: number,
+  reference: number | null | undefined,
+  label: string
+) => {
+  if (!reference) return null;
+  const percent = Math.round(((offered - reference) / reference) * 100);
+  return `${percent > 0 ? "+" : ""}${percent}% vs ${label}`;
+};
+
+// Offers section of the candidate overlay
+const ApplicationOffers = memo(
+  ({ candidate }: { candidate: CandidateWithApplication }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const offers = useAppSelector((state) =>
+      selectApplicationOffers(state, candidate.application_id)
+    );
+    const approvers = useAppSelector(selectOfferApprovers);
+    const loading = useAppSelector(selectOffersLoading);
+    const saving = useAppSelector(selectOffersSaving);
+    const error = useAppSelector(selectOffersError);
+
+    const [editing, setEditing] = useState<Offer | null>(null);
+    const [showForm, setShowForm] = useState(false);
+    const [comments, setComments] = useState<Record<string, string>>({});
+
+    // TAs only see offers of jobs they were granted
+    const hasAccess = candidate.hasAccess !== false;
+    const canManage =
+      !!userContext &&
+      (userContext.roles.includes("admin") || userContext.roles.includes("hr"));
+
+    useEffect(() => {
+      if (!hasAccess || !userContext) return;
+      dispatch(fetchOfferApprovers(userContext.organizationId));
+      if (!offers) {
+        dispatch(
+          fetchApplicationOffers({
+            applicationId: candidate.application_id,
+            userContext,
+          })
+        );
+      }
+    }, [dispatch, hasAccess, userContext, offers, candidate.application_id]);
+
+    if (!hasAccess || !userContext) return null;
+
+    const openForm = (offer: Offer | null) => {
+      setEditing(offer);
+      setShowForm(true);
+    };
+
+    const handleDecision = async (
+      offer: Offer,
+      decision: Exclude<OfferApprovalDecision, "pending">
+    ) => {
+      try {
+        await dispatch(
+          decideOfferApproval({
+            offer,
+            decision,
+            comment: comments[offer.id] || "",
+            userContext,
+          })
+        ).unwrap();
+        setComments((prev) => ({ ...prev, [offer.id]: "" }));
+      } catch (err) {
+        console.log("Failed to record offer decision:", err);
+      }
+    };
+
+    const handleDelete = (offer: Offer) => {
+      if (!window.confirm("Delete this draft offer?")) return;
+      dispatch(deleteOffer({ offer, userContext }));
+    };
+
+    return (
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <div className="font-semibold text-lg text-blue-700">Offers</div>
+          {canManage && offers && (
+            <button
+              type="button"
+              onClick={() => openForm(null)}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer"
+            >
+              New Offer
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+        {loading && !offers ? (
+          <p className="text-sm text-neutral-500">Loading offers...</p>
+        ) : offers && offers.length === 0 ? (
+          <p className="text-sm text-neutral-500">No offers made yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {(offers || []).map((offer) => {
+              const step = currentApproval(offer);
+              const canDecide = !!step && canDecideApproval(step, userContext);
+              const canSend =
+                canManage &&
+                ((offer.status === "draft" &&
+                  !needsApproval(offer, approvers)) ||
+                  isFullyApproved(offer));
+              const differences = [
+                formatDifference(
+                  offer.offeredCtc,
+                  candidate.expected_ctc,
+                  "expected"
+                ),
+                formatDifference(
+                  offer.offeredCtc,
+                  candidate.max_salary,
+                  "band max"
+                ),
+              ].filter(Boolean);
+
+              return (
+                <div
+                  key={offer.id}
+                  className="border border-neutral-200 rounded-lg p-4"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-lg font-semibold text-neutral-900">
+                        {formatCtc(offer.offeredCtc)}
+                      </span>
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                          OFFER_STATUS_CLASSES[offer.status]
+                        }`}
+                      >
+                        {isFullyApproved(offer)
+                          ? "Approved"
+                          : OFFER_STATUS_LABELS[offer.status]}
+                      </span>
+                      {offer.outOfBand && (
+                        <span className="px-3 py-1 rounded-full text-xs font-medium border bg-amber-50 text-amber-700 border-amber-200">
+                          Outside salary band
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-xs text-neutral-500">
+                      by {offer.createdBy} · {formatDate(offer.createdAt)}
+                    </span>
+                  </div>
+
+                  {differences.length > 0 && (
+                    <div className="text-xs text-neutral-500 mt-1">
+                      {differences.join(" · ")}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm text-neutral-700">
+                    <span>
+                      Joining:{" "}
+                      {offer.joiningDate
+                        ? formatDate(offer.joiningDate)
+                        : "Not set"}
+                    </span>
+                    <span>
+                      Expires:{" "}
+                      {offer.expiresAt ? formatDate(offer.expiresAt) : "Never"}
+                    </span>
+                    {offer.sentAt && <span>Sent {formatDate(offer.sentAt)}</span>}
+                    {offer.respondedAt && (
+                      <span>Answered {formatDate(offer.respondedAt)}</span>
+                    )}
+                  </div>
+
+                  {offer.notes && (
+                    <p className="text-sm text-neutral-700 mt-2 whitespace-pre-line">
+                      {offer.notes}
+                    </p>
+                  )}
+
+                  {offer.approvals.length > 0 && (
+                    <ol className="mt-3 space-y-1 text-sm">
+                      {offer.approvals.map((approval) => (
+                        <li
+                          key={approval.id}
+                          className="flex flex-wrap items-baseline gap-x-2"
+                        >
+                          <span className="text-neutral-500">
+                            {approval.position + 1}.
+                          </span>
+                          <span className="text-neutral-800">
+                            {approval.adminRequired
+                              ? "Any admin (outside salary band)"
+                              : approval.approver?.name}
+                          </span>
+                          <span
+                            className={`capitalize ${
+                              DECISION_CLASSES[approval.decision]
+                            }`}
+                          >
+                            {approval.decision}
+                          </span>
+                          {approval.decidedBy && approval.decidedAt && (
+                            <span className="text-xs text-neutral-500">
+                              by {approval.decidedBy} on{" "}
+                              {formatDate(approval.decidedAt)}
+                            </span>
+                          )}
+                          {approval.comment && (
+                            <span className="w-full text-xs text-neutral-600 pl-5">
+                              {approval.comment}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  {canDecide && (
+                    <div className="mt-3 p-3 bg-neutral-50 border border-neutral-200 rounded-md">
+                      <textarea
+                        value={comments[offer.id] || ""}
+                        onChange={(e) =>
+                          setComments((prev) => ({
+                            ...prev,
+                            [offer.id]: e.target.value,
+                          }))
+                        }
+                        rows={2}
+                        maxLength={1000}
+                        placeholder="Comment (required to reject)"
+                        className="w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+                      />
+                      <div className="flex justify-end gap-2 mt-2">
+                        <button
+                          type="button"
+                          onClick={() => handleDecision(offer, "rejected")}
+                          disabled={saving}
+                          className="px-3 py-1.5 text-sm text-red-700 border border-red-300 rounded-md hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDecision(offer, "approved")}
+                          disabled={saving}
+                          className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors cursor-pointer disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {canManage && (
+                    <div className="flex flex-wrap justify-end gap-2 mt-3">
+                      {offer.status === "draft" && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(offer)}
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm text-red-700 border border-red-300 rounded-md hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => openForm(offer)}
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm text-neutral-700 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50"
+                          >
+                            Edit
+                          </button>
+                          {needsApproval(offer, approvers) && (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                dispatch(
+                                  submitOfferForApproval({ offer, userContext })
+                                )
+                              }
+                              disabled={saving}
+                              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+                            >
+                              Submit for Approval
+                            </button>
+                          )}
+                        </>
+                      )}
+                      {canSend && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            dispatch(sendOffer({ offer, userContext }))
+                          }
+                          disabled={saving}
+                          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+                        >
+                          Mark as Sent
+                        </button>
+                      )}
+                      {offer.status === "sent" && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              dispatch(
+                                recordOfferResponse({
+                                  offer,
+                                  response: "declined",
+                                  userContext,
+                                })
+                              )
+                            }
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm text-red-700 border border-red-300 rounded-md hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-50"
+                          >
+                            Declined
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              dispatch(
+                                recordOfferResponse({
+                                  offer,
+                                  response: "accepted",
+                                  userContext,
+                                })
+                              )
+                            }
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors cursor-pointer disabled:opacity-50"
+                          >
+                            Accepted
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {showForm && (
+          <OfferForm
+            candidate={candidate}
+            offer={editing}
+            userContext={userContext}
+            onClose={() => setShowForm(false)}
+          />
+        )}
+      </div>
+    );
+  }
+);
+
+ApplicationOffers.displayName = "ApplicationOffers";
+
+export default ApplicationOffers;
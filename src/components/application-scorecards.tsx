@@ -0,0 +1,254 @@
+"use client";
+
+import { memo, useEffect, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  RECOMMENDATION_LABELS,
+  fetchApplicationScorecards,
+  fetchJobRubric,
+  selectApplicationScorecards,
+  selectJobRubric,
+  selectScorecardsError,
+  selectScorecardsLoading,
+  summarizeScorecards,
+} from "@/store/features/scorecardsSlice";
+import { selectApplicationInterviews } from "@/store/features/interviewsSlice";
+import {
+  CandidateWithApplication,
+  selectUserContext,
+} from "@/store/features/candidatesSlice";
+import { ScorecardRecommendation, ScorecardSummary } from "@/types/custom";
+import ScorecardForm from "./scorecard-form";
+
+const RECOMMENDATION_CLASSES: Record<
+  NonNullable<ScorecardSummary["recommendation"]>,
+  string
+> = {
+  strong_hire: "bg-green-100 text-green-800 border-green-300",
+  hire: "bg-green-50 text-green-700 border-green-200",
+  mixed: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  no_hire: "bg-red-50 text-red-700 border-red-200",
+  strong_no_hire: "bg-red-100 text-red-800 border-red-300",
+};
+
+const RecommendationBadge = ({
+  recommendation,
+}: {
+  recommendation: ScorecardRecommendation | "mixed";
+}) => (
+  <span
+    className={`px-3 py-1 rounded-full text-xs font-medium border ${RECOMMENDATION_CLASSES[recommendation]}`}
+  >
+    {RECOMMENDATION_LABELS[recommendation]}
+  </span>
+);
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+// Scorecards section of the candidate overlay
+const ApplicationScorecards = memo(
+  ({ candidate }: { candidate: CandidateWithApplication }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const scorecards = useAppSelector((state) =>
+      selectApplicationScorecards(state, candidate.application_id)
+    );
+    const competencies = useAppSelector((state) =>
+      selectJobRubric(state, candidate.job_id)
+    );
+    const interviews = useAppSelector((state) =>
+      selectApplicationInterviews(state, candidate.application_id)
+    );
+    const loading = useAppSelector(selectScorecardsLoading);
+    const error = useAppSelector(selectScorecardsError);
+
+    const [showForm, setShowForm] = useState(false);
+
+    // TAs only see scorecards of jobs they were granted
+    const hasAccess = candidate.hasAccess !== false;
+
+    useEffect(() => {
+      if (!hasAccess || !userContext) return;
+      if (!scorecards) {
+        dispatch(
+          fetchApplicationScorecards({
+            applicationId: candidate.application_id,
+            userContext,
+          })
+        );
+      }
+      if (!competencies) {
+        dispatch(fetchJobRubric(candidate.job_id));
+      }
+    }, [
+      dispatch,
+      hasAccess,
+      userContext,
+      scorecards,
+      competencies,
+      candidate.application_id,
+      candidate.job_id,
+    ]);
+
+    const summary = useMemo(
+      () => summarizeScorecards(scorecards || []),
+      [scorecards]
+    );
+    const roundNames = useMemo(
+      () =>
+        Object.fromEntries(
+          (interviews || []).map((interview) => [
+            interview.id,
+            interview.roundName,
+          ])
+        ),
+      [interviews]
+    );
+    const myScorecard = scorecards?.find(
+      (scorecard) => scorecard.interviewer.id === userContext?.userId
+    );
+
+    if (!hasAccess || !userContext) return null;
+
+    return (
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <div className="font-semibold text-lg text-blue-700">Scorecards</div>
+          {scorecards && (
+            <button
+              type="button"
+              onClick={() => setShowForm(true)}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer"
+            >
+              {myScorecard ? "Edit My Scorecard" : "Submit Scorecard"}
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+        {loading && !scorecards ? (
+          <p className="text-sm text-neutral-500">Loading scorecards...</p>
+        ) : scorecards && scorecards.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            No scorecards submitted yet.
+          </p>
+        ) : (
+          scorecards && (
+            <div className="space-y-4">
+              {/* Aggregate */}
+              <div className="bg-neutral-50 border border-neutral-200 rounded-lg p-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm font-medium text-neutral-800">
+                    Overall
+                  </span>
+                  {summary.recommendation && (
+                    <RecommendationBadge
+                      recommendation={summary.recommendation}
+                    />
+                  )}
+                  <span className="text-sm text-neutral-500">
+                    {summary.count} scorecard{summary.count === 1 ? "" : "s"}
+                    {summary.averageRating !== null &&
+                      ` · average ${summary.averageRating.toFixed(1)} / 5`}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-3 mt-2 text-xs text-neutral-600">
+                  {Object.entries(summary.recommendationCounts)
+                    .filter(([, count]) => count > 0)
+                    .map(([recommendation, count]) => (
+                      <span key={recommendation}>
+                        {
+                          RECOMMENDATION_LABELS[
+                            recommendation as ScorecardRecommendation
+                          ]
+                        }
+                        : {count}
+                      </span>
+                    ))}
+                </div>
+                {summary.competencies.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-3">
+                    {summary.competencies.map((competency) => (
+                      <div
+                        key={competency.name}
+                        className="flex justify-between text-sm"
+                      >
+                        <span className="text-neutral-700">
+                          {competency.name}
+                        </span>
+                        <span className="font-medium text-neutral-900">
+                          {competency.averageRating.toFixed(1)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Individual scorecards */}
+              {scorecards.map((scorecard) => (
+                <div
+                  key={scorecard.id}
+                  className="border border-neutral-200 rounded-lg p-4"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm">
+                      <span className="font-medium text-neutral-900">
+                        {scorecard.interviewer.name}
+                      </span>
+                      <span className="text-neutral-500">
+                        {" "}
+                        · {formatDate(scorecard.submittedAt)}
+                        {scorecard.interviewId &&
+                          roundNames[scorecard.interviewId] &&
+                          ` · ${roundNames[scorecard.interviewId]}`}
+                      </span>
+                    </div>
+                    <RecommendationBadge
+                      recommendation={scorecard.recommendation}
+                    />
+                  </div>
+                  {scorecard.ratings.length > 0 && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-neutral-600">
+                      {scorecard.ratings.map((rating) => (
+                        <span key={rating.competencyId}>
+                          {rating.competencyName}: {rating.rating}/5
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {scorecard.notes && (
+                    <p className="text-sm text-neutral-700 mt-2 whitespace-pre-line">
+                      {scorecard.notes}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {showForm && (
+          <ScorecardForm
+            applicationId={candidate.application_id}
+            competencies={competencies || []}
+            interviews={interviews || []}
+            scorecard={myScorecard}
+            userContext={userContext}
+            onClose={() => setShowForm(false)}
+          />
+        )}
+      </div>
+    );
+  }
+);
+
+ApplicationScorecards.displayName = "ApplicationScorecards";
+
+export default ApplicationScorecards;
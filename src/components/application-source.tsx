@@ -0,0 +1,203 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import { FiEdit2 } from "react-icons/fi";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  APPLICATION_SOURCE_FIELD_MAX_LENGTH,
+  CandidateWithApplication,
+  selectUserContext,
+  updateApplicationSource,
+} from "@/store/features/candidatesSlice";
+import { APPLICATION_SOURCES, ApplicationSource } from "@/types/custom";
+import {
+  APPLICATION_SOURCE_LABELS,
+  formatApplicationSource,
+  isApplicationSource,
+} from "@/utils/application-source";
+
+interface SourceValues {
+  source: string | null;
+  sourceDetail: string | null;
+  sourceCampaign: string | null;
+}
+
+const valuesFor = (candidate: CandidateWithApplication): SourceValues => ({
+  source: candidate.source ?? null,
+  sourceDetail: candidate.source_detail ?? null,
+  sourceCampaign: candidate.source_campaign ?? null,
+});
+
+// Where the application came from, editable from the candidate overlay
+const ApplicationSourceDetails = memo(
+  ({ candidate }: { candidate: CandidateWithApplication }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+
+    // The overlay holds its own copy of the candidate, so track the source here
+    const [values, setValues] = useState<SourceValues>(valuesFor(candidate));
+    const [editing, setEditing] = useState(false);
+    const [source, setSource] = useState<ApplicationSource | "">("");
+    const [sourceDetail, setSourceDetail] = useState("");
+    const [sourceCampaign, setSourceCampaign] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const hasAccess = candidate.hasAccess !== false;
+
+    useEffect(() => {
+      setValues(valuesFor(candidate));
+      setEditing(false);
+      setError(null);
+    }, [candidate]);
+
+    const startEditing = () => {
+      setSource(isApplicationSource(values.source) ? values.source : "");
+      setSourceDetail(values.sourceDetail || "");
+      setSourceCampaign(values.sourceCampaign || "");
+      setError(null);
+      setEditing(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!userContext) return;
+
+      setSaving(true);
+      setError(null);
+      try {
+        const result = await dispatch(
+          updateApplicationSource({
+            applicationId: candidate.application_id,
+            source: source || null,
+            sourceDetail,
+            sourceCampaign,
+            userContext,
+          })
+        ).unwrap();
+        setValues({
+          source: result.source,
+          sourceDetail: result.sourceDetail,
+          sourceCampaign: result.sourceCampaign,
+        });
+        setEditing(false);
+      } catch (err) {
+        setError(typeof err === "string" ? err : "Failed to update source");
+      } finally {
+        setSaving(false);
+      }
+    };
+
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <div className="font-semibold text-lg text-blue-700">Source</div>
+          {hasAccess && userContext && !editing && (
+            <button
+              type="button"
+              onClick={startEditing}
+              className="flex items-center gap-1 text-sm text-blue-600 font-medium hover:underline cursor-pointer"
+            >
+              <FiEdit2 className="w-3.5 h-3.5" />
+              Edit
+            </button>
+          )}
+        </div>
+
+        {editing ? (
+          <form
+            onSubmit={handleSave}
+            className="p-4 bg-neutral-50 border border-neutral-200 rounded-lg space-y-3"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <label className="text-sm text-neutral-700">
+                Source
+                <select
+                  value={source}
+                  onChange={(e) =>
+                    setSource(e.target.value as ApplicationSource | "")
+                  }
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Unknown</option>
+                  {APPLICATION_SOURCES.map((option) => (
+                    <option key={option} value={option}>
+                      {APPLICATION_SOURCE_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-neutral-700">
+                Sub-source
+                <input
+                  type="text"
+                  value={sourceDetail}
+                  onChange={(e) => setSourceDetail(e.target.value)}
+                  maxLength={APPLICATION_SOURCE_FIELD_MAX_LENGTH}
+                  placeholder="e.g. LinkedIn, referrer's name"
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="text-sm text-neutral-700">
+                Campaign
+                <input
+                  type="text"
+                  value={sourceCampaign}
+                  onChange={(e) => setSourceCampaign(e.target.value)}
+                  maxLength={APPLICATION_SOURCE_FIELD_MAX_LENGTH}
+                  placeholder="e.g. spring-hiring-2025"
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                disabled={saving}
+                className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <div className="font-semibold text-neutral-600">Source</div>
+              <div className="text-neutral-800">
+                {formatApplicationSource(values.source)}
+              </div>
+            </div>
+            <div>
+              <div className="font-semibold text-neutral-600">Sub-source</div>
+              <div className="text-neutral-800">
+                {values.sourceDetail || "—"}
+              </div>
+            </div>
+            <div>
+              <div className="font-semibold text-neutral-600">Campaign</div>
+              <div className="text-neutral-800">
+                {values.sourceCampaign || "—"}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+ApplicationSourceDetails.displayName = "ApplicationSourceDetails";
+
+export default ApplicationSourceDetails;
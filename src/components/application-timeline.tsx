@@ -0,0 +1,148 @@
+import { memo, useEffect } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchApplicationHistory,
+  selectApplicationHistory,
+  selectApplicationHistoryError,
+  selectApplicationHistoryLoading,
+} from "@/store/features/applicationHistorySlice";
+import { CandidateWithApplication } from "@/store/features/candidatesSlice";
+import {
+  formatRejectionReason,
+  selectRejectionReasons,
+} from "@/store/features/rejectionReasonsSlice";
+import StatusBadge from "./status-badge";
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Chronological status timeline for one application
+const ApplicationTimeline = memo(
+  ({ candidate }: { candidate: CandidateWithApplication }) => {
+    const dispatch = useAppDispatch();
+    const history = useAppSelector((state) =>
+      selectApplicationHistory(state, candidate.application_id)
+    );
+    const loading = useAppSelector(selectApplicationHistoryLoading);
+    const error = useAppSelector(selectApplicationHistoryError);
+    const rejectionReasons = useAppSelector(selectRejectionReasons);
+
+    useEffect(() => {
+      if (!history) {
+        dispatch(fetchApplicationHistory(candidate.application_id));
+      }
+    }, [dispatch, history, candidate.application_id]);
+
+    return (
+      <div className="mb-6">
+        <div className="font-semibold text-lg text-blue-700 mb-3">
+          Status History
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+        {loading && !history ? (
+          <p className="text-sm text-neutral-500">Loading history...</p>
+        ) : (
+          <ol className="relative border-l-2 border-neutral-200 ml-2">
+            <li className="mb-6 ml-6">
+              <span className="absolute -left-[9px] w-4 h-4 rounded-full bg-neutral-300 border-2 border-white" />
+              <div className="text-sm font-medium text-neutral-800">
+                Applied for {candidate.job_title}
+              </div>
+              <div className="text-xs text-neutral-400">
+                {formatDateTime(candidate.applied_date)}
+              </div>
+            </li>
+
+            {history?.map((change) => (
+              <li key={change.id} className="mb-6 ml-6">
+                <span className="absolute -left-[9px] w-4 h-4 rounded-full bg-blue-600 border-2 border-white" />
+                {change.transfer ? (
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-neutral-800">
+                    {change.transfer.event === "moved" && (
+                      <span>
+                        Moved from {change.transfer.fromJobTitle} to{" "}
+                        {change.transfer.toJobTitle}
+                      </span>
+                    )}
+                    {change.transfer.event === "copied_to" && (
+                      <span>
+                        Copied to {change.transfer.toJobTitle} as a new
+                        application
+                      </span>
+                    )}
+                    {change.transfer.event === "copied_from" && (
+                      <>
+                        <span>Copied from {change.transfer.fromJobTitle}</span>
+                        <StatusBadge status={change.newStatus} />
+                      </>
+                    )}
+                    {change.transfer.relatedApplicationId && (
+                      <span className="font-mono text-xs text-neutral-500">
+                        Application{" "}
+                        {change.transfer.relatedApplicationId.slice(-8)}
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-neutral-800">
+                    {change.oldStatus && (
+                      <>
+                        <StatusBadge status={change.oldStatus} />
+                        <span className="text-neutral-400">→</span>
+                      </>
+                    )}
+                    <StatusBadge status={change.newStatus} />
+                  </div>
+                )}
+                <div className="text-xs text-neutral-500 mt-1">
+                  by{" "}
+                  <span
+                    className="font-medium text-neutral-700"
+                    title={change.actor.email || undefined}
+                  >
+                    {change.actor.name}
+                  </span>{" "}
+                  on {formatDateTime(change.changedAt)}
+                </div>
+                {change.rejectionReason && (
+                  <div className="text-xs text-neutral-600 mt-1">
+                    Reason:{" "}
+                    <span className="font-medium text-neutral-800">
+                      {formatRejectionReason(
+                        rejectionReasons,
+                        change.rejectionReason
+                      )}
+                    </span>
+                  </div>
+                )}
+                {change.reason && (
+                  <p className="text-sm text-neutral-600 mt-2 bg-neutral-50 rounded-md px-3 py-2">
+                    {change.reason}
+                  </p>
+                )}
+              </li>
+            ))}
+
+            {history && history.length === 0 && (
+              <li className="ml-6 text-sm text-neutral-500">
+                No status changes recorded yet.
+              </li>
+            )}
+          </ol>
+        )}
+      </div>
+    );
+  }
+);
+
+ApplicationTimeline.displayName = "ApplicationTimeline";
+
+export default ApplicationTimeline;
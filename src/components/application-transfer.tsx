@@ -0,0 +1,215 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import { FiCopy, FiCornerUpRight } from "react-icons/fi";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  ApplicationTransferResult,
+  CandidateWithApplication,
+  selectUserContext,
+  transferApplication,
+} from "@/store/features/candidatesSlice";
+import {
+  fetchAssignableJobs,
+  selectAssignableJobs,
+  selectAssignableJobsLoading,
+} from "@/store/features/candidateImportSlice";
+import { ApplicationTransferMode } from "@/types/custom";
+
+// Move the application to a sibling job, or copy it there as a new
+// application, from the candidate overlay. Limited to admins and HR.
+const ApplicationTransfer = memo(
+  ({
+    candidate,
+    onTransferred,
+  }: {
+    candidate: CandidateWithApplication;
+    onTransferred?: (result: ApplicationTransferResult) => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const jobs = useAppSelector(selectAssignableJobs);
+    const jobsLoading = useAppSelector(selectAssignableJobsLoading);
+
+    const [open, setOpen] = useState(false);
+    const [mode, setMode] = useState<ApplicationTransferMode>("copy");
+    const [targetJobId, setTargetJobId] = useState("");
+    const [reason, setReason] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const canTransfer =
+      !!userContext &&
+      (userContext.roles.includes("admin") || userContext.roles.includes("hr"));
+
+    useEffect(() => {
+      if (open && userContext) {
+        dispatch(fetchAssignableJobs(userContext));
+      }
+    }, [dispatch, open, userContext]);
+
+    // Start over when the overlay switches to another application
+    useEffect(() => {
+      setOpen(false);
+      setTargetJobId("");
+      setReason("");
+      setError(null);
+      setMessage(null);
+    }, [candidate.application_id]);
+
+    if (!canTransfer || !userContext) return null;
+
+    const targetJobs = jobs.filter((job) => job.id !== candidate.job_id);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!targetJobId) return;
+
+      setSaving(true);
+      setError(null);
+      try {
+        const result = await dispatch(
+          transferApplication({
+            applicationId: candidate.application_id,
+            targetJobId,
+            mode,
+            reason,
+            userContext,
+          })
+        ).unwrap();
+        setMessage(
+          result.mode === "move"
+            ? `Moved to ${result.job.title}.`
+            : `Copied to ${result.job.title} as a new application.`
+        );
+        setOpen(false);
+        setTargetJobId("");
+        setReason("");
+        onTransferred?.(result);
+      } catch (err) {
+        setError(
+          typeof err === "string" ? err : "Failed to transfer application"
+        );
+      } finally {
+        setSaving(false);
+      }
+    };
+
+    return (
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="font-semibold text-lg text-blue-700">
+            Other Jobs
+          </div>
+          {!open && (
+            <button
+              type="button"
+              onClick={() => {
+                setOpen(true);
+                setMessage(null);
+              }}
+              className="text-sm text-blue-600 font-medium hover:underline cursor-pointer"
+            >
+              Move or copy to another job
+            </button>
+          )}
+        </div>
+
+        {message && <p className="text-sm text-green-700 mt-2">{message}</p>}
+
+        {open && (
+          <form
+            onSubmit={handleSubmit}
+            className="mt-3 p-4 bg-neutral-50 border border-neutral-200 rounded-lg space-y-3"
+          >
+            <div className="flex flex-wrap gap-4 text-sm text-neutral-700">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="transfer-mode"
+                  checked={mode === "copy"}
+                  onChange={() => setMode("copy")}
+                />
+                <FiCopy className="w-4 h-4" />
+                Copy as a new application
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="transfer-mode"
+                  checked={mode === "move"}
+                  onChange={() => setMode("move")}
+                />
+                <FiCornerUpRight className="w-4 h-4" />
+                Move this application
+              </label>
+            </div>
+            <p className="text-xs text-neutral-500">
+              {mode === "copy"
+                ? "The copy starts at the beginning of the pipeline; this application keeps its status."
+                : "The application keeps its status, interviews, scorecards and notes under the new job."}
+            </p>
+
+            <select
+              value={targetJobId}
+              onChange={(e) => setTargetJobId(e.target.value)}
+              disabled={jobsLoading}
+              aria-label="Target job"
+              className="w-full border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">
+                {jobsLoading ? "Loading jobs..." : "Select a job"}
+              </option>
+              {targetJobs.map((job) => (
+                <option key={job.id} value={job.id}>
+                  {job.title}
+                  {job.companyName ? ` · ${job.companyName}` : ""}
+                  {job.status && job.status !== "active"
+                    ? ` (${job.status})`
+                    : ""}
+                </option>
+              ))}
+            </select>
+
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              maxLength={1000}
+              placeholder="Reason (optional)"
+              className="w-full border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => {
+                  setOpen(false);
+                  setError(null);
+                }}
+                disabled={saving}
+                className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || !targetJobId}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {saving ? "Saving..." : mode === "copy" ? "Copy" : "Move"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    );
+  }
+);
+
+ApplicationTransfer.displayName = "ApplicationTransfer";
+
+export default ApplicationTransfer;
@@ -0,0 +1,353 @@
+"use client";
+
+import { memo, useState } from "react";
+import { FaRegTrashAlt } from "react-icons/fa";
+import { FiColumns, FiDownload, FiX } from "react-icons/fi";
+import {
+  BulkActionResult,
+  CandidateWithApplication,
+} from "@/store/features/candidatesSlice";
+import {
+  MAX_COMPARED_APPLICATIONS,
+  MIN_COMPARED_APPLICATIONS,
+} from "@/store/features/comparisonSlice";
+import { findStage, formatStageLabel } from "@/store/features/pipelineSlice";
+import { CandidateTag, PipelineStage } from "@/types/custom";
+import { downloadCsv, toCsv } from "@/utils/csv";
+import RejectionReasonSelect from "./rejection-reason-select";
+
+export interface BulkActionSummary {
+  action: string;
+  results: BulkActionResult[];
+  // Candidate names by application ID, for reporting failed rows
+  names: Record<string, string>;
+}
+
+const CSV_COLUMNS: {
+  header: string;
+  value: (candidate: CandidateWithApplication, stages: PipelineStage[]) => string;
+}[] = [
+  { header: "Application ID", value: (c) => c.application_id },
+  { header: "Candidate Name", value: (c) => c.name },
+  { header: "Email", value: (c) => c.candidate_email },
+  { header: "Mobile Number", value: (c) => c.mobile_number || "" },
+  { header: "Job", value: (c) => c.job_title },
+  { header: "Company", value: (c) => c.company_name || "" },
+  {
+    header: "Status",
+    value: (c, stages) => formatStageLabel(stages, c.application_status),
+  },
+  { header: "Applied Date", value: (c) => c.applied_date },
+  { header: "LinkedIn", value: (c) => c.linkedin_url || "" },
+  { header: "Resume", value: (c) => c.resume_link || "" },
+];
+
+// Download the given applications as a CSV file
+export function exportCandidatesToCsv(
+  candidates: CandidateWithApplication[],
+  stages: PipelineStage[]
+) {
+  const rows = [
+    CSV_COLUMNS.map((column) => column.header),
+    ...candidates.map((candidate) =>
+      CSV_COLUMNS.map((column) => column.value(candidate, stages))
+    ),
+  ];
+
+  downloadCsv(
+    toCsv(rows),
+    `candidates-${new Date().toISOString().slice(0, 10)}.csv`
+  );
+}
+
+interface BulkActionsBarProps {
+  selectedCount: number;
+  totalMatching: number;
+  allMatchingSelected: boolean;
+  pageFullySelected: boolean;
+  canDelete: boolean;
+  busy: boolean;
+  stages: PipelineStage[];
+  tags: CandidateTag[];
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onStatusChange: (
+    status: string,
+    reason: string,
+    rejectionReason?: string
+  ) => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onCompare: () => void;
+  onTagsChange: (tagIds: string[], mode: "add" | "remove") => void;
+}
+
+// Toolbar shown above the candidates table while rows are selected
+const BulkActionsBar = memo(
+  ({
+    selectedCount,
+    totalMatching,
+    allMatchingSelected,
+    pageFullySelected,
+    canDelete,
+    busy,
+    stages,
+    tags,
+    onSelectAllMatching,
+    onClearSelection,
+    onStatusChange,
+    onDelete,
+    onExport,
+    onCompare,
+    onTagsChange,
+  }: BulkActionsBarProps) => {
+    const [status, setStatus] = useState("");
+    const [reason, setReason] = useState("");
+    const [rejectionReason, setRejectionReason] = useState("");
+    const [tagId, setTagId] = useState("");
+
+    const isRejecting =
+      findStage(stages, status)?.category === "terminal_negative";
+
+    const count = allMatchingSelected ? totalMatching : selectedCount;
+    const canCompare =
+      !allMatchingSelected &&
+      selectedCount >= MIN_COMPARED_APPLICATIONS &&
+      selectedCount <= MAX_COMPARED_APPLICATIONS;
+
+    const handleApplyStatus = () => {
+      if (!status || (isRejecting && !rejectionReason)) return;
+      onStatusChange(
+        status,
+        reason,
+        isRejecting ? rejectionReason : undefined
+      );
+      setStatus("");
+      setReason("");
+      setRejectionReason("");
+    };
+
+    return (
+      <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-blue-900">
+            {count} selected
+          </span>
+
+          {!allMatchingSelected &&
+            pageFullySelected &&
+            totalMatching > selectedCount && (
+              <button
+                type="button"
+                onClick={onSelectAllMatching}
+                disabled={busy}
+                className="text-sm text-blue-700 font-medium hover:underline cursor-pointer disabled:opacity-50"
+              >
+                Select all {totalMatching} matching candidates
+              </button>
+            )}
+
+          <button
+            type="button"
+            onClick={onClearSelection}
+            disabled={busy}
+            className="flex items-center gap-1 text-sm text-neutral-600 hover:underline cursor-pointer disabled:opacity-50"
+          >
+            <FiX className="w-4 h-4" />
+            Clear selection
+          </button>
+
+          <div className="flex flex-wrap items-center gap-2 ml-auto">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              disabled={busy}
+              className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white cursor-pointer disabled:opacity-50"
+            >
+              <option value="">Change status...</option>
+              {stages.map((stage) => (
+                <option key={stage.key} value={stage.key}>
+                  {stage.label}
+                </option>
+              ))}
+            </select>
+            {status && (
+              <>
+                {isRejecting && (
+                  <div className="w-56">
+                    <RejectionReasonSelect
+                      value={rejectionReason}
+                      onChange={setRejectionReason}
+                      disabled={busy}
+                    />
+                  </div>
+                )}
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={1000}
+                  placeholder={isRejecting ? "Note (optional)" : "Reason (optional)"}
+                  className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white"
+                />
+                <button
+                  type="button"
+                  onClick={handleApplyStatus}
+                  disabled={busy || (isRejecting && !rejectionReason)}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+                >
+                  Apply
+                </button>
+              </>
+            )}
+
+            {tags.length > 0 && (
+              <>
+                <select
+                  value={tagId}
+                  onChange={(e) => setTagId(e.target.value)}
+                  disabled={busy}
+                  className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white cursor-pointer disabled:opacity-50"
+                >
+                  <option value="">Tag...</option>
+                  {tags.map((tag) => (
+                    <option key={tag.id} value={tag.id}>
+                      {tag.name}
+                    </option>
+                  ))}
+                </select>
+                {tagId && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onTagsChange([tagId], "add");
+                        setTagId("");
+                      }}
+                      disabled={busy}
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onTagsChange([tagId], "remove");
+                        setTagId("");
+                      }}
+                      disabled={busy}
+                      className="px-4 py-2 text-sm border border-neutral-300 bg-white rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </>
+                )}
+              </>
+            )}
+
+            {!allMatchingSelected && (
+              <button
+                type="button"
+                onClick={onCompare}
+                disabled={busy || !canCompare}
+                title={
+                  canCompare
+                    ? undefined
+                    : `Select ${MIN_COMPARED_APPLICATIONS} to ${MAX_COMPARED_APPLICATIONS} applications to compare`
+                }
+                className="flex items-center gap-2 px-4 py-2 text-sm border border-neutral-300 bg-white rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FiColumns className="w-4 h-4" />
+                Compare
+              </button>
+            )}
+
+            <button
+              type="button"
+              onClick={onExport}
+              disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 text-sm border border-neutral-300 bg-white rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              <FiDownload className="w-4 h-4" />
+              Export
+            </button>
+
+            {canDelete && (
+              <button
+                type="button"
+                onClick={onDelete}
+                disabled={busy}
+                className="flex items-center gap-2 px-4 py-2 text-sm border border-red-300 text-red-700 bg-white rounded-md hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                <FaRegTrashAlt className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        {busy && (
+          <p className="text-xs text-blue-800 mt-2">
+            Working on {count} applications...
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+
+BulkActionsBar.displayName = "BulkActionsBar";
+
+// Per-row outcome of the last bulk action
+export const BulkActionResults = memo(
+  ({
+    summary,
+    onDismiss,
+  }: {
+    summary: BulkActionSummary;
+    onDismiss: () => void;
+  }) => {
+    const failed = summary.results.filter((result) => !result.success);
+    const succeeded = summary.results.length - failed.length;
+
+    return (
+      <div
+        className={`mb-4 p-3 rounded-lg border text-sm ${
+          failed.length > 0
+            ? "bg-yellow-50 border-yellow-200 text-yellow-900"
+            : "bg-green-50 border-green-200 text-green-900"
+        }`}
+      >
+        <div className="flex justify-between items-center">
+          <span>
+            {summary.action}: {succeeded} succeeded
+            {failed.length > 0 && `, ${failed.length} failed`}
+          </span>
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="font-medium hover:underline cursor-pointer"
+          >
+            Dismiss
+          </button>
+        </div>
+        {failed.length > 0 && (
+          <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+            {failed.map((result) => (
+              <li key={result.applicationId}>
+                <span className="font-medium">
+                  {summary.names[result.applicationId] || result.applicationId}
+                </span>
+                : {result.error}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+BulkActionResults.displayName = "BulkActionResults";
+
+export default BulkActionsBar;
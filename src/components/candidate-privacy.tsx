@@ -0,0 +1,112 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import { FiDownload, FiUserX } from "react-icons/fi";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  CandidateWithApplication,
+  markCandidateAnonymized,
+  selectUserContext,
+} from "@/store/features/candidatesSlice";
+import { eraseCandidateData } from "@/app/candidates/actions";
+
+// Subject access export and right to erasure for the overlay's candidate.
+// Limited to admins and HR.
+const CandidatePrivacy = memo(
+  ({
+    candidate,
+    onErased,
+  }: {
+    candidate: CandidateWithApplication;
+    onErased?: () => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+
+    const [erasing, setErasing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const canManage =
+      !!userContext &&
+      (userContext.roles.includes("admin") || userContext.roles.includes("hr"));
+
+    useEffect(() => {
+      setError(null);
+    }, [candidate.id]);
+
+    if (!canManage || !userContext || candidate.hasAccess === false) {
+      return null;
+    }
+
+    const exportParams = new URLSearchParams({
+      candidateId: candidate.id,
+      organizationId: userContext.organizationId,
+    });
+
+    const handleErase = async () => {
+      if (
+        !window.confirm(
+          `Erase the personal data of ${candidate.name}? Their details, resume, notes and work history are removed for good. Applications are kept anonymously for reporting.`
+        )
+      ) {
+        return;
+      }
+
+      setErasing(true);
+      setError(null);
+      try {
+        const result = await eraseCandidateData(
+          candidate.id,
+          userContext.organizationId
+        );
+        if (result.error) {
+          setError(result.error);
+          return;
+        }
+        dispatch(markCandidateAnonymized(candidate.id));
+        onErased?.();
+      } catch (err) {
+        console.log("Failed to erase candidate data:", err);
+        setError("Failed to erase candidate data");
+      } finally {
+        setErasing(false);
+      }
+    };
+
+    return (
+      <div>
+        <div className="font-semibold text-lg text-blue-700 mb-3">
+          Personal Data
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <a
+            href={`/candidates/privacy-export?${exportParams.toString()}`}
+            download
+            className="flex items-center gap-2 px-4 py-2 text-sm text-neutral-700 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors"
+          >
+            <FiDownload className="w-4 h-4" />
+            Export all data
+          </a>
+          <button
+            type="button"
+            onClick={handleErase}
+            disabled={erasing}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-red-700 border border-red-300 rounded-md hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-50"
+          >
+            <FiUserX className="w-4 h-4" />
+            {erasing ? "Erasing..." : "Erase personal data"}
+          </button>
+        </div>
+        <p className="text-xs text-neutral-500 mt-2">
+          The export is a ZIP with everything held about the candidate and
+          their resume.
+        </p>
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+    );
+  }
+);
+
+CandidatePrivacy.displayName = "CandidatePrivacy";
+
+export default CandidatePrivacy;
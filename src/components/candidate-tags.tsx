@@ -0,0 +1,143 @@
+"use client";
+
+import { memo, useEffect, useRef, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  CandidateWithApplication,
+  selectUserContext,
+  setCandidateTags,
+} from "@/store/features/candidatesSlice";
+import {
+  fetchTagCatalogue,
+  selectTagCatalogue,
+  selectTagCatalogueOrgId,
+} from "@/store/features/tagsSlice";
+import { CandidateTag } from "@/types/custom";
+import TagBadge from "./tag-badge";
+
+// Tag chips and picker at the top of the candidate overlay
+const CandidateTags = memo(
+  ({ candidate }: { candidate: CandidateWithApplication }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const catalogue = useAppSelector(selectTagCatalogue);
+    const catalogueOrgId = useAppSelector(selectTagCatalogueOrgId);
+
+    // The overlay holds its own copy of the candidate, so track tags here
+    const [tags, setTags] = useState<CandidateTag[]>(candidate.tags || []);
+    const [pickerOpen, setPickerOpen] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const pickerRef = useRef<HTMLDivElement>(null);
+
+    const hasAccess = candidate.hasAccess !== false;
+
+    useEffect(() => {
+      setTags(candidate.tags || []);
+    }, [candidate.id, candidate.tags]);
+
+    useEffect(() => {
+      if (userContext && catalogueOrgId !== userContext.organizationId) {
+        dispatch(fetchTagCatalogue(userContext.organizationId));
+      }
+    }, [dispatch, userContext, catalogueOrgId]);
+
+    // Close the picker when clicking outside of it
+    useEffect(() => {
+      if (!pickerOpen) return;
+      const handleClick = (event: MouseEvent) => {
+        if (
+          pickerRef.current &&
+          !pickerRef.current.contains(event.target as Node)
+        ) {
+          setPickerOpen(false);
+        }
+      };
+      document.addEventListener("mousedown", handleClick);
+      return () => document.removeEventListener("mousedown", handleClick);
+    }, [pickerOpen]);
+
+    if (!hasAccess || !userContext) return null;
+
+    const updateTags = async (tagIds: string[]) => {
+      setSaving(true);
+      setError(null);
+      try {
+        const result = await dispatch(
+          setCandidateTags({
+            applicationId: candidate.application_id,
+            candidateId: candidate.id,
+            tagIds,
+            userContext,
+          })
+        ).unwrap();
+        setTags(result.tags);
+      } catch (err) {
+        setError(typeof err === "string" ? err : "Failed to update tags");
+      } finally {
+        setSaving(false);
+      }
+    };
+
+    const assignedIds = tags.map((tag) => tag.id);
+    const available = catalogue.filter((tag) => !assignedIds.includes(tag.id));
+
+    return (
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.map((tag) => (
+            <TagBadge
+              key={tag.id}
+              tag={tag}
+              onRemove={
+                saving
+                  ? undefined
+                  : () => updateTags(assignedIds.filter((id) => id !== tag.id))
+              }
+            />
+          ))}
+          <div className="relative" ref={pickerRef}>
+            <button
+              type="button"
+              onClick={() => setPickerOpen((open) => !open)}
+              disabled={saving}
+              className="px-2 py-0.5 text-xs text-blue-600 border border-dashed border-blue-300 rounded-full hover:bg-blue-50 cursor-pointer disabled:opacity-50"
+            >
+              + Tag
+            </button>
+            {pickerOpen && (
+              <div className="absolute left-0 top-full mt-1 w-56 max-h-60 overflow-y-auto bg-white border border-neutral-200 rounded-md shadow-lg z-10 py-1">
+                {available.length === 0 ? (
+                  <p className="px-3 py-2 text-xs text-neutral-500">
+                    {catalogue.length === 0
+                      ? "No tags yet. Admins and HR can add them in Settings."
+                      : "All tags are already assigned."}
+                  </p>
+                ) : (
+                  available.map((tag) => (
+                    <button
+                      key={tag.id}
+                      type="button"
+                      onClick={() => {
+                        setPickerOpen(false);
+                        updateTags([...assignedIds, tag.id]);
+                      }}
+                      className="block w-full text-left px-3 py-1.5 hover:bg-neutral-50 cursor-pointer"
+                    >
+                      <TagBadge tag={tag} />
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+    );
+  }
+);
+
+CandidateTags.displayName = "CandidateTags";
+
+export default CandidateTags;
@@ -0,0 +1,552 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  CandidateWithApplication,
+  clearError,
+  deleteCandidateApplication,
+  fetchBoardApplications,
+  fetchBoardPositions,
+  replaceBoardPositions,
+  saveBoardOrder,
+  selectBoardCandidates,
+  selectBoardLoading,
+  selectBoardPositions,
+  selectBoardTotalCount,
+  selectUserContext,
+  setBoardPositions,
+  updateApplicationStatusInList,
+  updateApplicationStatusWithAccess,
+} from "@/store/features/candidatesSlice";
+import {
+  canTransition,
+  fetchPipeline,
+  findStage,
+  formatStageLabel,
+  selectPipelineStages,
+} from "@/store/features/pipelineSlice";
+import { PipelineStage } from "@/types/custom";
+import CandidatesDetailsOverlay from "./candidates-details-overlay";
+import RejectionReasonSelect from "./rejection-reason-select";
+import { STAGE_COLOR_CLASSES } from "./status-badge";
+import { TableSkeleton } from "./CandidatesSkeleton";
+import { ErrorMessage } from "./errorMessage";
+
+// The board shows a job's most recent applications at once instead of
+// paging; larger jobs get a notice pointing to the table
+const BOARD_FETCH_LIMIT = 500;
+
+interface CandidatesBoardProps {
+  jobId: string;
+  className?: string;
+}
+
+interface DragState {
+  applicationId: string;
+  fromStatus: string;
+}
+
+// A drop into a rejected stage waits here until a reason is picked
+interface PendingRejection {
+  card: CandidateWithApplication;
+  targetStatus: string;
+  targetIds: string[];
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export default function CandidatesBoard({
+  jobId,
+  className = "",
+}: CandidatesBoardProps) {
+  const dispatch = useAppDispatch();
+  const candidates = useAppSelector(selectBoardCandidates);
+  const totalCount = useAppSelector(selectBoardTotalCount);
+  const loading = useAppSelector(selectBoardLoading);
+  const userContext = useAppSelector(selectUserContext);
+  const boardPositions = useAppSelector(selectBoardPositions);
+  const stages = useAppSelector(selectPipelineStages);
+
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    status: string;
+    index: number;
+  } | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const [pendingRejection, setPendingRejection] =
+    useState<PendingRejection | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [rejectionNote, setRejectionNote] = useState("");
+  const [candidatesDetailsOverlay, setCandidatesDetailsOverlay] = useState<{
+    candidate: CandidateWithApplication | null;
+    show: boolean;
+  }>({
+    candidate: null,
+    show: false,
+  });
+
+  useEffect(() => {
+    if (!userContext) return;
+    dispatch(fetchPipeline(userContext.organizationId));
+    dispatch(
+      fetchBoardApplications({ jobId, userContext, limit: BOARD_FETCH_LIMIT })
+    );
+    dispatch(fetchBoardPositions(jobId));
+  }, [dispatch, userContext, jobId]);
+
+  // Stages from the pipeline, plus any legacy status still in use
+  const columns = useMemo((): PipelineStage[] => {
+    const known = new Set(stages.map((stage) => stage.key));
+    const extra = Array.from(
+      new Set(
+        candidates
+          .map((candidate) => candidate.application_status)
+          .filter((status) => status && !known.has(status))
+      )
+    ).map(
+      (status, index): PipelineStage => ({
+        key: status,
+        label: status.charAt(0).toUpperCase() + status.slice(1),
+        position: stages.length + index,
+        category: "active",
+        color: "neutral",
+        allowedTransitions: null,
+      })
+    );
+    return [...stages, ...extra];
+  }, [stages, candidates]);
+
+  // Ranked cards per column: saved positions first, then newest applications
+  const cardsByStatus = useMemo(() => {
+    const grouped: Record<string, CandidateWithApplication[]> = {};
+    columns.forEach((column) => {
+      grouped[column.key] = [];
+    });
+    candidates
+      .filter((candidate) => candidate.job_id === jobId)
+      .forEach((candidate) => {
+        grouped[candidate.application_status]?.push(candidate);
+      });
+    Object.values(grouped).forEach((cards) =>
+      cards.sort((a, b) => {
+        const posA = boardPositions[a.application_id];
+        const posB = boardPositions[b.application_id];
+        if (posA !== undefined && posB !== undefined) return posA - posB;
+        if (posA !== undefined) return -1;
+        if (posB !== undefined) return 1;
+        return (
+          new Date(b.applied_date).getTime() -
+          new Date(a.applied_date).getTime()
+        );
+      })
+    );
+    return grouped;
+  }, [columns, candidates, boardPositions, jobId]);
+
+  const moveCard = useCallback(
+    async (
+      card: CandidateWithApplication,
+      targetStatus: string,
+      targetIds: string[],
+      rejection?: { reason: string; note: string }
+    ) => {
+      if (!userContext) return;
+
+      const statusChanged = card.application_status !== targetStatus;
+      const previousStatus = card.application_status;
+      const previousPositions = { ...boardPositions };
+      const nextPositions: Record<string, number> = {};
+      targetIds.forEach((id, index) => {
+        nextPositions[id] = index;
+      });
+
+      // Optimistic update
+      setMoveError(null);
+      if (statusChanged) {
+        dispatch(
+          updateApplicationStatusInList({
+            applicationId: card.application_id,
+            status: targetStatus,
+            rejectionReason: rejection?.reason,
+            updatedAt: card.updated_at,
+          })
+        );
+      }
+      dispatch(setBoardPositions(nextPositions));
+
+      let statusSaved = false;
+      try {
+        if (statusChanged) {
+          await dispatch(
+            updateApplicationStatusWithAccess({
+              applicationId: card.application_id,
+              status: targetStatus,
+              reason: rejection?.note,
+              rejectionReason: rejection?.reason,
+              userContext,
+            })
+          ).unwrap();
+          statusSaved = true;
+        }
+
+        await dispatch(
+          saveBoardOrder({ jobId, applicationIds: targetIds, userContext })
+        ).unwrap();
+      } catch (err) {
+        console.log("Failed to move candidate:", err);
+        // Roll back whatever did not persist
+        if (statusChanged && !statusSaved) {
+          dispatch(
+            updateApplicationStatusInList({
+              applicationId: card.application_id,
+              status: previousStatus,
+              rejectionReason: card.rejection_reason,
+              updatedAt: card.updated_at,
+            })
+          );
+        }
+        dispatch(replaceBoardPositions(previousPositions));
+        dispatch(clearError());
+        setMoveError(
+          typeof err === "string" ? err : "Failed to move the candidate."
+        );
+      }
+    },
+    [userContext, boardPositions, dispatch, jobId]
+  );
+
+  const handleDrop = useCallback(
+    async (targetStatus: string, targetIndex: number) => {
+      if (!dragState || !userContext) return;
+
+      const card = candidates.find(
+        (candidate) => candidate.application_id === dragState.applicationId
+      );
+      setDragState(null);
+      setDropTarget(null);
+      if (!card || !card.hasAccess) return;
+
+      const statusChanged = card.application_status !== targetStatus;
+      if (
+        statusChanged &&
+        !canTransition(stages, card.application_status, targetStatus)
+      ) {
+        setMoveError("This move is not allowed by the hiring pipeline.");
+        return;
+      }
+
+      const targetIds = (cardsByStatus[targetStatus] || [])
+        .map((candidate) => candidate.application_id)
+        .filter((id) => id !== card.application_id);
+      targetIds.splice(
+        Math.min(targetIndex, targetIds.length),
+        0,
+        card.application_id
+      );
+
+      if (
+        statusChanged &&
+        findStage(stages, targetStatus)?.category === "terminal_negative"
+      ) {
+        setRejectionReason("");
+        setRejectionNote("");
+        setPendingRejection({ card, targetStatus, targetIds });
+        return;
+      }
+
+      await moveCard(card, targetStatus, targetIds);
+    },
+    [dragState, userContext, candidates, stages, cardsByStatus, moveCard]
+  );
+
+  const handleConfirmRejection = async () => {
+    if (!pendingRejection || !rejectionReason) return;
+    const { card, targetStatus, targetIds } = pendingRejection;
+    setPendingRejection(null);
+    await moveCard(card, targetStatus, targetIds, {
+      reason: rejectionReason,
+      note: rejectionNote,
+    });
+  };
+
+  const handleStatusUpdate = async (
+    applicationId: string,
+    status: string,
+    reason?: string,
+    rejectionReason?: string
+  ) => {
+    if (!userContext) return;
+
+    try {
+      const updated = await dispatch(
+        updateApplicationStatusWithAccess({
+          applicationId,
+          status,
+          reason,
+          rejectionReason,
+          userContext,
+        })
+      ).unwrap();
+
+      setCandidatesDetailsOverlay((prev) => ({
+        ...prev,
+        candidate:
+          prev.candidate?.application_id === applicationId
+            ? {
+                ...prev.candidate,
+                application_status: status,
+                rejection_reason: updated.rejectionReason,
+              }
+            : prev.candidate,
+      }));
+    } catch (err) {
+      dispatch(clearError());
+      setMoveError(typeof err === "string" ? err : "Failed to update status");
+    }
+  };
+
+  const handleDeleteCandidate = async (applicationId: string) => {
+    const confirmed = window.confirm(
+      `Are you sure you want to delete the application with ID ${applicationId}?`
+    );
+    if (!confirmed) return;
+
+    try {
+      await dispatch(deleteCandidateApplication(applicationId)).unwrap();
+    } catch (err) {
+      alert(`Failed to delete candidate: ${err}`);
+    }
+  };
+
+  if (!userContext) {
+    return (
+      <div className={className}>
+        <ErrorMessage message="User context not available. Please log in again." />
+      </div>
+    );
+  }
+
+  if (loading && candidates.length === 0) {
+    return (
+      <div className={className}>
+        <TableSkeleton />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className={className}>
+        {moveError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex justify-between items-center">
+            <span>{moveError}</span>
+            <button
+              type="button"
+              onClick={() => setMoveError(null)}
+              className="text-red-800 font-medium hover:underline cursor-pointer"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {totalCount > candidates.length && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+            Showing the {candidates.length} most recent of {totalCount}{" "}
+            applications. Use the table view to see the rest.
+          </div>
+        )}
+
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {columns.map((column) => {
+            const cards = cardsByStatus[column.key] || [];
+            const isAllowedTarget =
+              !dragState ||
+              dragState.fromStatus === column.key ||
+              canTransition(stages, dragState.fromStatus, column.key);
+
+            return (
+              <div
+                key={column.key}
+                className={`flex-shrink-0 w-72 rounded-xl border transition-colors ${
+                  dragState && !isAllowedTarget
+                    ? "bg-neutral-100 border-neutral-200 opacity-60"
+                    : dropTarget?.status === column.key
+                    ? "bg-blue-50 border-blue-300"
+                    : "bg-neutral-50 border-neutral-200"
+                }`}
+                onDragOver={(e) => {
+                  if (!isAllowedTarget) return;
+                  e.preventDefault();
+                  if (dropTarget?.status !== column.key) {
+                    setDropTarget({ status: column.key, index: cards.length });
+                  }
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (!isAllowedTarget) return;
+                  handleDrop(
+                    column.key,
+                    dropTarget?.status === column.key
+                      ? dropTarget.index
+                      : cards.length
+                  );
+                }}
+              >
+                <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200">
+                  <span
+                    className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                      STAGE_COLOR_CLASSES[column.color]
+                    }`}
+                  >
+                    {column.label}
+                  </span>
+                  <span className="text-sm text-neutral-500">
+                    {cards.length}
+                  </span>
+                </div>
+
+                <div className="p-3 space-y-3 min-h-32">
+                  {cards.map((candidate, index) => (
+                    <div
+                      key={candidate.application_id}
+                      draggable={candidate.hasAccess}
+                      onDragStart={(e) => {
+                        if (!candidate.hasAccess) {
+                          e.preventDefault();
+                          return;
+                        }
+                        e.dataTransfer.effectAllowed = "move";
+                        setDragState({
+                          applicationId: candidate.application_id,
+                          fromStatus: candidate.application_status,
+                        });
+                      }}
+                      onDragEnd={() => {
+                        setDragState(null);
+                        setDropTarget(null);
+                      }}
+                      onDragOver={(e) => {
+                        if (!isAllowedTarget) return;
+                        e.preventDefault();
+                        e.stopPropagation();
+                        const rect = e.currentTarget.getBoundingClientRect();
+                        const after = e.clientY > rect.top + rect.height / 2;
+                        setDropTarget({
+                          status: column.key,
+                          index: after ? index + 1 : index,
+                        });
+                      }}
+                      onClick={() =>
+                        setCandidatesDetailsOverlay({ candidate, show: true })
+                      }
+                      className={`bg-white rounded-lg border p-3 shadow-sm hover:border-blue-300 transition-colors ${
+                        candidate.hasAccess
+                          ? "cursor-grab active:cursor-grabbing"
+                          : "cursor-pointer"
+                      } ${
+                        dragState?.applicationId === candidate.application_id
+                          ? "opacity-50"
+                          : ""
+                      } ${
+                        dropTarget?.status === column.key &&
+                        dropTarget.index === index
+                          ? "border-t-4 border-t-blue-500"
+                          : "border-neutral-200"
+                      }`}
+                    >
+                      <div className="text-sm font-medium text-neutral-900">
+                        {candidate.name}
+                      </div>
+                      <div className="text-xs text-neutral-500 truncate">
+                        {candidate.candidate_email}
+                      </div>
+                      <div className="text-xs text-neutral-400 mt-2">
+                        Applied {formatDate(candidate.applied_date)}
+                      </div>
+                    </div>
+                  ))}
+                  {cards.length === 0 && (
+                    <p className="text-xs text-neutral-400 text-center py-6">
+                      No candidates
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <CandidatesDetailsOverlay
+        candidatesDetailsOverlay={candidatesDetailsOverlay}
+        setCandidatesDetailsOverlay={setCandidatesDetailsOverlay}
+        onStatusUpdate={handleStatusUpdate}
+        onDelete={handleDeleteCandidate}
+      />
+
+      {pendingRejection && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-1">
+              Move to &quot;
+              {formatStageLabel(stages, pendingRejection.targetStatus)}&quot;
+            </h3>
+            <p className="text-sm text-neutral-500 mb-4">
+              Why is {pendingRejection.card.name} leaving the pipeline?
+            </p>
+            <label
+              htmlFor="board-rejection-reason"
+              className="block text-sm font-medium text-neutral-800 mb-2"
+            >
+              Rejection reason
+            </label>
+            <RejectionReasonSelect
+              id="board-rejection-reason"
+              value={rejectionReason}
+              onChange={setRejectionReason}
+            />
+            <label
+              htmlFor="board-rejection-note"
+              className="block text-sm font-medium text-neutral-800 mt-4 mb-2"
+            >
+              Note
+              <span className="text-neutral-400 font-normal"> (optional)</span>
+            </label>
+            <textarea
+              id="board-rejection-note"
+              value={rejectionNote}
+              onChange={(e) => setRejectionNote(e.target.value)}
+              rows={2}
+              maxLength={1000}
+              className="w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                type="button"
+                onClick={() => setPendingRejection(null)}
+                className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmRejection}
+                disabled={!rejectionReason}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                Move
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
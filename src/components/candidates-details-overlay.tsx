@@ -4,10 +4,34 @@ import { FaRegTrashAlt } from "react-icons/fa";
 import { FiDownload, FiMail } from "react-icons/fi";
 import { memo, useCallback, useState } from "react";
 import {
+  ApplicationTransferResult,
   CandidateWithApplication,
   Education,
   Experience,
 } from "@/store/features/candidatesSlice";
+import {
+  canTransition,
+  findStage,
+  formatStageLabel,
+  selectPipelineStages,
+} from "@/store/features/pipelineSlice";
+import {
+  formatRejectionReason,
+  selectRejectionReasons,
+} from "@/store/features/rejectionReasonsSlice";
+import { useAppSelector } from "@/store/hooks";
+import ApplicationTimeline from "./application-timeline";
+import ApplicationTransfer from "./application-transfer";
+import ApplicationSourceDetails from "./application-source";
+import CandidatePrivacy from "./candidate-privacy";
+import ApplicationInterviews from "./application-interviews";
+import ApplicationScorecards from "./application-scorecards";
+import ApplicationOffers from "./application-offers";
+import ApplicationNotes from "./application-notes";
+import CandidateTags from "./candidate-tags";
+import ResumeImport from "./resume-import";
+import RejectionReasonSelect from "./rejection-reason-select";
+import EmailCompose from "./email-compose";
 
 // Memoized candidate header component
 const CandidateHeader = memo(
@@ -19,24 +43,59 @@ const CandidateHeader = memo(
   }: {
     candidate: CandidateWithApplication | null;
     onClose: () => void;
-    onStatusUpdate: (applicationId: string, status: string) => void;
+    onStatusUpdate: (
+      applicationId: string,
+      status: string,
+      reason?: string,
+      rejectionReason?: string
+    ) => Promise<void>;
     onDelete?: (applicationId: string) => void;
   }) => {
     const [isUpdating, setIsUpdating] = useState(false);
+    const [pendingStatus, setPendingStatus] = useState<string | null>(null);
+    const [reason, setReason] = useState("");
+    const [rejectionReason, setRejectionReason] = useState("");
+    const [showCompose, setShowCompose] = useState(false);
+    const stages = useAppSelector(selectPipelineStages);
+    const rejectionReasons = useAppSelector(selectRejectionReasons);
+
+    const isRejecting =
+      findStage(stages, pendingStatus)?.category === "terminal_negative";
+    const isRejected =
+      findStage(stages, candidate?.application_status)?.category ===
+      "terminal_negative";
+
+    const handleStatusChange = (newStatus: string) => {
+      if (!candidate || isUpdating) return;
+
+      setPendingStatus(
+        newStatus === candidate.application_status ? null : newStatus
+      );
+    };
 
-    const handleStatusChange = async (newStatus: string) => {
-      if (
-        !candidate ||
-        isUpdating ||
-        newStatus === candidate.application_status
-      )
-        return;
+    const handleCancelStatusChange = () => {
+      setPendingStatus(null);
+      setReason("");
+      setRejectionReason("");
+    };
+
+    const handleConfirmStatusChange = async () => {
+      if (!candidate || !pendingStatus || isUpdating) return;
+      if (isRejecting && !rejectionReason) return;
 
       setIsUpdating(true);
       try {
-        onStatusUpdate(candidate.application_id, newStatus);
+        await onStatusUpdate(
+          candidate.application_id,
+          pendingStatus,
+          reason,
+          isRejecting ? rejectionReason : undefined
+        );
       } finally {
         setIsUpdating(false);
+        setPendingStatus(null);
+        setReason("");
+        setRejectionReason("");
       }
     };
 
@@ -67,21 +126,49 @@ const CandidateHeader = memo(
           <div className="relative inline-block w-48">
             <select
               className="bg-neutral-100 w-full h-full rounded-md px-3 py-2 text-neutral-800 focus:outline-none appearance-none cursor-pointer disabled:opacity-50"
-              value={candidate?.application_status || ""}
+              value={pendingStatus || candidate?.application_status || ""}
               onChange={(e) => handleStatusChange(e.target.value)}
               disabled={isUpdating}
             >
-              <option value="pending">Pending</option>
-              <option value="accepted">Accepted</option>
-              <option value="rejected">Rejected</option>
+              {/* Keep a stage that was removed from the pipeline selectable */}
+              {candidate &&
+                !findStage(stages, candidate.application_status) && (
+                  <option value={candidate.application_status}>
+                    {formatStageLabel(stages, candidate.application_status)}
+                  </option>
+                )}
+              {stages.map((stage) => (
+                <option
+                  key={stage.key}
+                  value={stage.key}
+                  disabled={
+                    stage.key !== candidate?.application_status &&
+                    !canTransition(
+                      stages,
+                      candidate?.application_status,
+                      stage.key
+                    )
+                  }
+                >
+                  {stage.label}
+                </option>
+              ))}
             </select>
             <FaAngleDown className="absolute right-3 top-1/2 transform -translate-y-1/2 text-neutral-500 pointer-events-none" />
           </div>
 
+          {isRejected && !pendingStatus && (
+            <div className="text-sm text-neutral-600">
+              <span className="font-semibold">Reason:</span>{" "}
+              {formatRejectionReason(
+                rejectionReasons,
+                candidate?.rejection_reason
+              )}
+            </div>
+          )}
+
           <button
-            onClick={() =>
-              window.open(`mailto:${candidate?.candidate_email}`, "_blank")
-            }
+            onClick={() => setShowCompose(true)}
             className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors cursor-pointer flex items-center gap-2"
           >
             <FiMail className="w-4 h-4" />
@@ -98,6 +185,73 @@ const CandidateHeader = memo(
             <FaRegTrashAlt className="w-4 h-4 text-red-700" />
           </button>
         </div>
+
+        {pendingStatus && (
+          <div className="mt-4 p-4 bg-neutral-50 border border-neutral-200 rounded-lg">
+            {isRejecting && (
+              <div className="mb-3">
+                <label
+                  htmlFor="rejection-reason"
+                  className="block text-sm font-medium text-neutral-800 mb-2"
+                >
+                  Rejection reason
+                </label>
+                <RejectionReasonSelect
+                  id="rejection-reason"
+                  value={rejectionReason}
+                  onChange={setRejectionReason}
+                  disabled={isUpdating}
+                />
+              </div>
+            )}
+            <label className="block text-sm font-medium text-neutral-800 mb-2">
+              Move to &quot;{formatStageLabel(stages, pendingStatus)}&quot;
+              <span className="text-neutral-400 font-normal">
+                {" "}
+                — {isRejecting ? "note" : "reason"} (optional)
+              </span>
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              maxLength={1000}
+              placeholder={
+                isRejecting
+                  ? "Anything else worth recording?"
+                  : "Why is the status changing?"
+              }
+              className="w-full border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-end gap-3 mt-3">
+              <button
+                type="button"
+                onClick={handleCancelStatusChange}
+                disabled={isUpdating}
+                className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmStatusChange}
+                disabled={isUpdating || (isRejecting && !rejectionReason)}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {isUpdating ? "Updating..." : "Confirm"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showCompose && candidate && (
+          <EmailCompose
+            applicationId={candidate.application_id}
+            candidateName={candidate.name}
+            candidateEmail={candidate.candidate_email}
+            onClose={() => setShowCompose(false)}
+          />
+        )}
       </div>
     );
   }
@@ -492,6 +646,7 @@ const CandidatesDetailsOverlay = memo(
     setCandidatesDetailsOverlay,
     onStatusUpdate,
     onDelete,
+    onTransferred,
     calculateExperience,
   }: {
     candidatesDetailsOverlay: {
@@ -504,8 +659,14 @@ const CandidatesDetailsOverlay = memo(
         show: boolean;
       }>
     >;
-    onStatusUpdate?: (applicationId: string, status: string) => void;
+    onStatusUpdate?: (
+      applicationId: string,
+      status: string,
+      reason?: string,
+      rejectionReason?: string
+    ) => void | Promise<void>;
     onDelete?: (applicationId: string) => void;
+    onTransferred?: (result: ApplicationTransferResult) => void;
     calculateExperience?: (candidate: CandidateWithApplication) => string;
   }) => {
     const handleClose = useCallback(() => {
@@ -513,14 +674,62 @@ const CandidatesDetailsOverlay = memo(
     }, [setCandidatesDetailsOverlay]);
 
     const handleStatusUpdate = useCallback(
-      async (applicationId: string, status: string) => {
+      async (
+        applicationId: string,
+        status: string,
+        reason?: string,
+        rejectionReason?: string
+      ) => {
         if (onStatusUpdate) {
-          onStatusUpdate(applicationId, status);
+          await onStatusUpdate(applicationId, status, reason, rejectionReason);
         }
       },
       [onStatusUpdate]
     );
 
+    // Show imported resume records without reopening the overlay
+    const handleResumeImported = useCallback(
+      (experience: Experience[], education: Education[]) => {
+        setCandidatesDetailsOverlay((prev) =>
+          prev.candidate
+            ? {
+                ...prev,
+                candidate: {
+                  ...prev.candidate,
+                  experience: [...(prev.candidate.experience || []), ...experience],
+                  education: [...(prev.candidate.education || []), ...education],
+                },
+              }
+            : prev
+        );
+      },
+      [setCandidatesDetailsOverlay]
+    );
+
+    // A moved application stays open under its new job
+    const handleTransferred = useCallback(
+      (result: ApplicationTransferResult) => {
+        if (result.mode === "move") {
+          setCandidatesDetailsOverlay((prev) =>
+            prev.candidate
+              ? {
+                  ...prev,
+                  candidate: {
+                    ...prev.candidate,
+                    job_id: result.job.id,
+                    job_title: result.job.title,
+                    company_name: result.job.companyName,
+                    updated_at: result.updatedAt,
+                  },
+                }
+              : prev
+          );
+        }
+        onTransferred?.(result);
+      },
+      [setCandidatesDetailsOverlay, onTransferred]
+    );
+
     if (!candidatesDetailsOverlay.show || !candidatesDetailsOverlay.candidate)
       return null;
 
@@ -547,14 +756,30 @@ const CandidatesDetailsOverlay = memo(
           {/* Scrollable Content */}
           <div className="flex-1 overflow-y-auto">
             <div className="p-6 space-y-6">
+              <CandidateTags candidate={candidate} />
               <ResumeSection candidate={candidate} />
               <PersonalDetails candidate={candidate} />
+              <ResumeImport
+                candidate={candidate}
+                onImported={handleResumeImported}
+              />
               <ExperienceDetails candidate={candidate} />
               <EducationDetails candidate={candidate} />
               <AdditionalInformation
                 candidate={candidate}
                 calculateExperience={calculateExperience}
               />
+              <ApplicationSourceDetails candidate={candidate} />
+              <ApplicationInterviews candidate={candidate} />
+              <ApplicationScorecards candidate={candidate} />
+              <ApplicationOffers candidate={candidate} />
+              <ApplicationNotes candidate={candidate} />
+              <ApplicationTransfer
+                candidate={candidate}
+                onTransferred={handleTransferred}
+              />
+              <ApplicationTimeline candidate={candidate} />
+              <CandidatePrivacy candidate={candidate} onErased={handleClose} />
             </div>
           </div>
         </div>
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState, useCallback, useRef } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useAppSelector, useAppDispatch } from "@/store/hooks";
 import { CiFilter } from "react-icons/ci";
 import MultiSelectDropdown from "./multiSelectDropdown";
@@ -23,6 +24,13 @@ import {
   CandidateFilters,
   clearCandidates,
   clearFilters,
+  fetchAllMatchingCandidates,
+  bulkUpdateApplicationStatus,
+  bulkDeleteApplications,
+  bulkUpdateCandidateTags,
+  applyFilters,
+  goToPage,
+  fetchCandidateApplication,
 } from "@/store/features/candidatesSlice";
 import { TiArrowSortedDown } from "react-icons/ti";
 import GlobalStickyTable from "@/components/GlobalStickyTable";
@@ -30,7 +38,73 @@ import CandidatesDetailsOverlay from "./candidates-details-overlay";
 import Pagination from "./pagination";
 import FiltersModal from "./filters-modal";
 import TableCustomization, { TableColumn } from "./table-customization";
+import ExportMenu, { ExportFormat } from "./export-menu";
 import { ErrorMessage } from "./errorMessage";
+import StatusBadge from "./status-badge";
+import TagBadge from "./tag-badge";
+import SearchSnippet from "./search-snippet";
+import FitScoreBadge from "./fit-score-badge";
+import {
+  fetchTagCatalogue,
+  selectTagCatalogue,
+  selectTagCatalogueOrgId,
+} from "@/store/features/tagsSlice";
+import {
+  fetchPipeline,
+  formatStageLabel,
+  selectPipelineStages,
+} from "@/store/features/pipelineSlice";
+import { toFitScore } from "@/utils/fit-score";
+import {
+  APPLICATION_SOURCE_LABELS,
+  formatApplicationSource,
+} from "@/utils/application-source";
+import {
+  candidateFiltersFromParams,
+  candidateFiltersToQuery,
+} from "@/utils/url-filters";
+import {
+  CandidateSavedView,
+  fetchSavedViews,
+  filtersForView,
+  markDefaultViewApplied,
+  selectDefaultSavedViewId,
+  selectDefaultViewApplied,
+  selectSavedViews,
+  selectSavedViewsOrgId,
+  setActiveSavedView,
+} from "@/store/features/savedViewsSlice";
+import SavedViewsBar from "./saved-views-bar";
+import { APPLICATION_SOURCES, SavedViewColumn } from "@/types/custom";
+import BulkActionsBar, {
+  BulkActionResults,
+  BulkActionSummary,
+  exportCandidatesToCsv,
+} from "./bulk-actions-bar";
+
+const DEFAULT_TABLE_COLUMNS: TableColumn[] = [
+  { key: "id", label: "ID", visible: true },
+  { key: "applied_date", label: "Applied Date", visible: true },
+  { key: "candidate_name", label: "Candidate Name", visible: true },
+  { key: "job_title", label: "Job", visible: true },
+  { key: "company_name", label: "Company", visible: true },
+  { key: "location", label: "Location", visible: true },
+  { key: "fit_score", label: "Fit", visible: true },
+  { key: "tags", label: "Tags", visible: false },
+  { key: "source", label: "Source", visible: false },
+];
+
+// Saved column order and visibility, keeping columns added since they were
+// saved and dropping ones that no longer exist
+const mergeSavedColumns = (saved: SavedViewColumn[]): TableColumn[] => [
+  ...saved.flatMap((column) => {
+    const known = DEFAULT_TABLE_COLUMNS.find((col) => col.key === column.key);
+    return known ? [{ ...known, visible: column.visible }] : [];
+  }),
+  ...DEFAULT_TABLE_COLUMNS.filter(
+    (column) => !saved.some((col) => col.key === column.key)
+  ),
+];
 
 interface InitializationState {
   initialized: boolean;
@@ -74,33 +148,6 @@ interface CandidatesListProps {
   onCandidateClick?: (candidate: CandidateWithApplication) => void;
 }
 
-function StatusBadge({ status }: { status: string }) {
-  const getStatusStyle = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case "accepted":
-        return "bg-green-100 text-green-800 border-green-200";
-      case "rejected":
-        return "bg-red-100 text-red-800 border-red-200";
-      case "pending":
-        return "bg-yellow-100 text-yellow-800 border-yellow-200";
-      case "on hold":
-        return "bg-orange-100 text-orange-800 border-orange-200";
-      default:
-        return "bg-neutral-100 text-neutral-800 border-neutral-200";
-    }
-  };
-
-  return (
-    <span
-      className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusStyle(
-        status
-      )}`}
-    >
-      {status?.charAt(0).toUpperCase() + status?.slice(1) || "Unknown"}
-    </span>
-  );
-}
-
 export default function CandidatesList({
   showHeader = true,
   showFilters = true,
@@ -110,6 +157,10 @@ export default function CandidatesList({
   onCandidateClick,
 }: CandidatesListProps) {
   const dispatch = useAppDispatch();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const urlQuery = searchParams.toString();
 
   // Redux selectors
   const pagination = useAppSelector(selectPagination);
@@ -119,6 +170,21 @@ export default function CandidatesList({
   const userContext = useAppSelector(selectUserContext);
   const filterOptions = useAppSelector(selectFilterOptions);
   const candidates = useAppSelector((state) => state.candidates.candidates);
+  const pipelineStages = useAppSelector(selectPipelineStages);
+  const savedViews = useAppSelector(selectSavedViews);
+  const savedViewsOrgId = useAppSelector(selectSavedViewsOrgId);
+  const defaultViewId = useAppSelector(selectDefaultSavedViewId);
+  const defaultViewApplied = useAppSelector(selectDefaultViewApplied);
+
+  // The organization-wide list keeps its search, filters, sort and page in
+  // the URL; a job's candidates list is embedded in the job page and filters
+  // in place
+  const urlSyncEnabled = !jobId;
+
+  // Saved views belong to the organization-wide list, not a job's candidates
+  const savedViewsEnabled = showFilters && !jobId;
+  const tagCatalogue = useAppSelector(selectTagCatalogue);
+  const tagCatalogueOrgId = useAppSelector(selectTagCatalogueOrgId);
 
   // Local state for overlay
   const [candidatesDetailsOverlay, setCandidatesDetailsOverlay] = useState<{
@@ -129,6 +195,45 @@ export default function CandidatesList({
     show: false,
   });
 
+  // Links such as inbox threads open one application with ?application=<id>
+  const linkedApplicationId = urlSyncEnabled
+    ? searchParams.get("application")
+    : null;
+  const openedApplicationRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (
+      !linkedApplicationId ||
+      !userContext ||
+      openedApplicationRef.current === linkedApplicationId
+    ) {
+      return;
+    }
+    openedApplicationRef.current = linkedApplicationId;
+
+    dispatch(
+      fetchCandidateApplication({
+        applicationId: linkedApplicationId,
+        userContext,
+      })
+    )
+      .unwrap()
+      .then((candidate) =>
+        setCandidatesDetailsOverlay({ candidate, show: true })
+      )
+      .catch((err) => console.log("Failed to open linked application:", err));
+  }, [dispatch, linkedApplicationId, userContext]);
+
+  // Row selection for bulk actions, kept across pages
+  const [selectedRows, setSelectedRows] = useState<
+    Record<string, CandidateWithApplication>
+  >({});
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkSummary, setBulkSummary] = useState<BulkActionSummary | null>(
+    null
+  );
+
   // Local state
   const [initState, setInitState] = useState<InitializationState>({
     initialized: false,
@@ -143,14 +248,15 @@ export default function CandidatesList({
   });
 
   // Table customization state
-  const [tableColumns, setTableColumns] = useState<TableColumn[]>([
-    { key: "id", label: "ID", visible: true },
-    { key: "applied_date", label: "Applied Date", visible: true },
-    { key: "candidate_name", label: "Candidate Name", visible: true },
-    { key: "job_title", label: "Job", visible: true },
-    { key: "company_name", label: "Company", visible: true },
-    { key: "location", label: "Location", visible: true },
-  ]);
+  const [tableColumns, setTableColumns] =
+    useState<TableColumn[]>(DEFAULT_TABLE_COLUMNS);
+
+  // Filters and page last loaded from the URL, and a URL we are replacing
+  // the current one with and should wait for
+  const appliedUrlStateRef = useRef<{ filters: string; page: number } | null>(
+    null
+  );
+  const pendingUrlQueryRef = useRef<string | null>(null);
 
   // Refs for cleanup
   const debouncedFetchRef = useRef<
@@ -174,25 +280,141 @@ export default function CandidatesList({
     });
   }, [filters, jobId]);
 
+  // A selection only makes sense for the filters it was made under
+  useEffect(() => {
+    setSelectedRows({});
+    setAllMatchingSelected(false);
+  }, [memoizedFilters]);
+
+  // Tags feed the tag filter and bulk tagging
+  useEffect(() => {
+    if (userContext && tagCatalogueOrgId !== userContext.organizationId) {
+      dispatch(fetchTagCatalogue(userContext.organizationId));
+    }
+  }, [dispatch, userContext, tagCatalogueOrgId]);
+
   // Load column preferences from localStorage on mount
   useEffect(() => {
     const savedColumns = localStorage.getItem("candidates-table-columns");
     if (savedColumns) {
       try {
-        const parsedColumns = JSON.parse(savedColumns);
-        setTableColumns(parsedColumns);
+        const parsedColumns: TableColumn[] = JSON.parse(savedColumns);
+        // Keep columns added since the preferences were saved
+        setTableColumns((defaults) => [
+          ...parsedColumns,
+          ...defaults.filter(
+            (column) => !parsedColumns.some((saved) => saved.key === column.key)
+          ),
+        ]);
       } catch (error) {
         console.error("Failed to parse saved column preferences:", error);
       }
     }
   }, []);
 
+  // Saved views feed the quick tabs above the table
+  useEffect(() => {
+    if (
+      savedViewsEnabled &&
+      userContext &&
+      savedViewsOrgId !== userContext.organizationId
+    ) {
+      dispatch(fetchSavedViews(userContext))
+        .unwrap()
+        .catch((err) => {
+          // The list still works without saved views
+          console.log("Failed to load saved views:", err);
+          dispatch(markDefaultViewApplied());
+        });
+    }
+  }, [dispatch, savedViewsEnabled, userContext, savedViewsOrgId]);
+
+  // Open the default view on the first visit, before the initial fetch so
+  // it uses the view's filters
+  useEffect(() => {
+    if (
+      !savedViewsEnabled ||
+      defaultViewApplied ||
+      !userContext ||
+      savedViewsOrgId !== userContext.organizationId
+    ) {
+      return;
+    }
+
+    // A link or history entry with its own filters wins over the default
+    const defaultView = savedViews.find((view) => view.id === defaultViewId);
+    if (defaultView && !urlQuery) {
+      dispatch(setActiveSavedView(defaultView.id));
+      if (defaultView.columns.length > 0) {
+        setTableColumns(mergeSavedColumns(defaultView.columns));
+      }
+      const query = candidateFiltersToQuery(filtersForView(defaultView));
+      if (query) {
+        pendingUrlQueryRef.current = query;
+        router.replace(`${pathname}?${query}`, { scroll: false });
+      }
+    }
+    dispatch(markDefaultViewApplied());
+  }, [
+    dispatch,
+    router,
+    pathname,
+    urlQuery,
+    savedViewsEnabled,
+    defaultViewApplied,
+    userContext,
+    savedViewsOrgId,
+    savedViews,
+    defaultViewId,
+  ]);
+
+  // Load whatever the URL describes. Only the page changing goes through
+  // goToPage so the current filters are reused; anything else, including
+  // the browser's back and forward buttons, re-applies the URL's filters.
+  useEffect(() => {
+    if (!urlSyncEnabled || !userContext) return;
+    if (savedViewsEnabled && !defaultViewApplied) return;
+
+    const { filters: urlFilters, page } = candidateFiltersFromParams(
+      new URLSearchParams(urlQuery)
+    );
+    const filtersQuery = candidateFiltersToQuery(urlFilters);
+
+    if (pendingUrlQueryRef.current !== null) {
+      if (pendingUrlQueryRef.current !== candidateFiltersToQuery(urlFilters, page)) {
+        return;
+      }
+      pendingUrlQueryRef.current = null;
+    }
+
+    const applied = appliedUrlStateRef.current;
+    if (applied?.filters === filtersQuery && applied.page === page) return;
+    appliedUrlStateRef.current = { filters: filtersQuery, page };
+
+    if (applied?.filters === filtersQuery) {
+      dispatch(goToPage({ page, userContext }));
+    } else {
+      dispatch(applyFilters({ filters: urlFilters, userContext, page }));
+    }
+  }, [
+    dispatch,
+    urlSyncEnabled,
+    savedViewsEnabled,
+    defaultViewApplied,
+    userContext,
+    urlQuery,
+  ]);
+
   useEffect(() => {
     const initializeData = async () => {
       if (initState.initialized || !userContext) return;
+      if (savedViewsEnabled && !defaultViewApplied) return;
       try {
         setInitState((prev) => ({ ...prev, error: null }));
 
+        // Pipeline stages drive the status dropdowns and badges
+        dispatch(fetchPipeline(userContext.organizationId));
+
         // Fetch filter options first (they're cached, so this is efficient)
         await dispatch(
           fetchFilterOptions({
@@ -200,17 +422,19 @@ export default function CandidatesList({
           })
         ).unwrap();
 
-        // Then fetch candidates
-        await dispatch(
-          fetchJobApplicationsWithAccess({
-            page: 1,
-            limit: pagination.candidatesPerPage,
-            userContext,
-            filters: {
-              ...memoizedFilters,
-            },
-          })
-        ).unwrap();
+        // Then fetch candidates, unless the URL drives them
+        if (!urlSyncEnabled) {
+          await dispatch(
+            fetchJobApplicationsWithAccess({
+              page: 1,
+              limit: pagination.candidatesPerPage,
+              userContext,
+              filters: {
+                ...memoizedFilters,
+              },
+            })
+          ).unwrap();
+        }
 
         setInitState({ initialized: true, error: null });
       } catch (err) {
@@ -226,6 +450,9 @@ export default function CandidatesList({
     dispatch,
     userContext,
     initState.initialized,
+    urlSyncEnabled,
+    savedViewsEnabled,
+    defaultViewApplied,
     jobId,
     memoizedFilters,
     pagination.candidatesPerPage,
@@ -234,10 +461,12 @@ export default function CandidatesList({
   const getCurrentSortValue = () => {
     const { sortBy, sortOrder } = tempFilters;
 
+    if (sortBy === "relevance") return "relevance";
     if (sortBy === "applied_date" && sortOrder === "desc") return "date_desc";
     if (sortBy === "applied_date" && sortOrder === "asc") return "date_asc";
     if (sortBy === "name" && sortOrder === "asc") return "name_asc";
     if (sortBy === "name" && sortOrder === "desc") return "name_desc";
+    if (sortBy === "fit_score") return "fit_desc";
 
     return "date_desc"; // default
   };
@@ -245,10 +474,12 @@ export default function CandidatesList({
   const getCurrentSortValueFilter = () => {
     const { sortBy, sortOrder } = filters;
 
+    if (sortBy === "relevance") return "relevance";
     if (sortBy === "applied_date" && sortOrder === "desc") return "date_desc";
     if (sortBy === "applied_date" && sortOrder === "asc") return "date_asc";
     if (sortBy === "name" && sortOrder === "asc") return "name_asc";
     if (sortBy === "name" && sortOrder === "desc") return "name_desc";
+    if (sortBy === "fit_score") return "fit_desc";
 
     return "date_desc"; // default
   };
@@ -309,6 +540,40 @@ export default function CandidatesList({
     };
   }, [dispatch]);
 
+  // Show the list for the given filters and page: through the URL when it
+  // is synced, so the change gets its own history entry, otherwise directly
+  const showResults = useCallback(
+    (nextFilters: Partial<CandidateFilters>, page = 1) => {
+      if (!userContext) return;
+
+      if (urlSyncEnabled) {
+        const query = candidateFiltersToQuery(nextFilters, page);
+        router.push(query ? `${pathname}?${query}` : pathname, {
+          scroll: false,
+        });
+        return;
+      }
+
+      dispatch(setFilters(nextFilters));
+      dispatch(
+        fetchJobApplicationsWithAccess({
+          page,
+          limit: pagination.candidatesPerPage,
+          filters: nextFilters,
+          userContext,
+        })
+      );
+    },
+    [
+      dispatch,
+      router,
+      pathname,
+      urlSyncEnabled,
+      userContext,
+      pagination.candidatesPerPage,
+    ]
+  );
+
   // Updated filter change handler with multi-select support
   const handleFilterChange = useCallback(
     (filterType: string, value: string | string[] | number) => {
@@ -322,34 +587,16 @@ export default function CandidatesList({
       if (filterType === "searchTerm") {
         // For search, load all candidates to search across all data
         newFilters.searchTerm = value as string;
-        dispatch(setFilters(newFilters));
-
-        // Load all candidates when searching
-        if (value && (value as string).trim() !== "") {
-          dispatch(
-            fetchJobApplicationsWithAccess({
-              filters: newFilters,
-              userContext,
-              page: 1,
-              limit: pagination.candidatesPerPage, // Load a large number to get all candidates for search
-            })
-          );
-        } else {
-          // Reset to normal pagination when clearing search
-          dispatch(
-            fetchJobApplicationsWithAccess({
-              filters: newFilters,
-              userContext,
-              page: 1,
-              limit: pagination.candidatesPerPage,
-            })
-          );
-        }
+        showResults(newFilters);
         return;
       }
       if (filterType === "sortBy") {
         // Handle sort changes (single select)
         switch (value) {
+          case "relevance":
+            newFilters.sortBy = "relevance";
+            newFilters.sortOrder = "desc";
+            break;
           case "date_desc":
             newFilters.sortBy = "applied_date";
             newFilters.sortOrder = "desc";
@@ -366,6 +613,10 @@ export default function CandidatesList({
             newFilters.sortBy = "name";
             newFilters.sortOrder = "desc";
             break;
+          case "fit_desc":
+            newFilters.sortBy = "fit_score";
+            newFilters.sortOrder = "desc";
+            break;
         }
       } else if (filterType === "experience") {
         // Handle experience filter with improved parsing
@@ -395,7 +646,9 @@ export default function CandidatesList({
       } else if (
         filterType === "status" ||
         filterType === "companyName" ||
-        filterType === "jobTitle"
+        filterType === "jobTitle" ||
+        filterType === "tags" ||
+        filterType === "source"
       ) {
         // Always set to a new array, even if empty
         if (Array.isArray(value)) {
@@ -420,19 +673,9 @@ export default function CandidatesList({
         }
       });
 
-      dispatch(setFilters(newFilters));
-
-      // Fetch data with new filters
-      dispatch(
-        fetchJobApplicationsWithAccess({
-          page: 1,
-          limit: pagination.candidatesPerPage,
-          filters: newFilters,
-          userContext,
-        })
-      );
+      showResults(newFilters);
     },
-    [dispatch, jobId, filters, userContext, pagination.candidatesPerPage]
+    [jobId, filters, userContext, showResults]
   );
 
   const handleTempFilterChange = useCallback(
@@ -444,6 +687,10 @@ export default function CandidatesList({
       if (filterType === "sortBy") {
         // Handle sort changes (single select)
         switch (value) {
+          case "relevance":
+            newTempFilters.sortBy = "relevance";
+            newTempFilters.sortOrder = "desc";
+            break;
           case "date_desc":
             newTempFilters.sortBy = "applied_date";
             newTempFilters.sortOrder = "desc";
@@ -460,6 +707,10 @@ export default function CandidatesList({
             newTempFilters.sortBy = "name";
             newTempFilters.sortOrder = "desc";
             break;
+          case "fit_desc":
+            newTempFilters.sortBy = "fit_score";
+            newTempFilters.sortOrder = "desc";
+            break;
         }
       } else if (filterType === "experience") {
         // Handle experience filter with improved parsing
@@ -554,47 +805,30 @@ export default function CandidatesList({
     if (!userContext) return;
 
     // Apply the temporary filters to main filters
-    dispatch(setFilters(tempFilters));
-
-    // Fetch data with the temporary filters
-    dispatch(
-      fetchJobApplicationsWithAccess({
-        page: 1,
-        limit: pagination.candidatesPerPage,
-        filters: tempFilters, // Use tempFilters
-        userContext,
-      })
-    );
+    showResults(tempFilters);
 
     handleCloseFiltersModal();
-  }, [
-    dispatch,
-    tempFilters,
-    userContext,
-    pagination.candidatesPerPage,
-    handleCloseFiltersModal,
-  ]);
+  }, [tempFilters, userContext, showResults, handleCloseFiltersModal]);
 
   // Handle status updates
-  const handleStatusUpdate = async (applicationId: string, status: string) => {
+  const handleStatusUpdate = async (
+    applicationId: string,
+    status: string,
+    reason?: string,
+    rejectionReason?: string
+  ) => {
     if (!userContext) {
       console.log("User context not available");
       return;
     }
 
-    // Confirm status change
-    const confirmed = window.confirm(
-      `Are you sure you want to change the status to "${status}"?`
-    );
-    if (!confirmed) {
-      return;
-    }
-
     try {
-      await dispatch(
+      const updated = await dispatch(
         updateApplicationStatusWithAccess({
           applicationId,
           status,
+          reason,
+          rejectionReason,
           userContext,
         })
       ).unwrap();
@@ -609,6 +843,7 @@ export default function CandidatesList({
             ? {
                 ...prev.candidate,
                 application_status: status,
+                rejection_reason: updated.rejectionReason,
               }
             : null,
         }));
@@ -661,6 +896,230 @@ export default function CandidatesList({
     }
   };
 
+  const selectedCount = Object.keys(selectedRows).length;
+  const pageFullySelected =
+    candidates.length > 0 &&
+    candidates.every((candidate) => selectedRows[candidate.application_id]);
+  const pagePartiallySelected =
+    !pageFullySelected &&
+    candidates.some((candidate) => selectedRows[candidate.application_id]);
+  const canBulkDelete =
+    !!userContext &&
+    (userContext.roles.includes("admin") || userContext.roles.includes("hr"));
+
+  const handleToggleRow = useCallback(
+    (candidate: CandidateWithApplication) => {
+      setAllMatchingSelected(false);
+      setSelectedRows((prev) => {
+        const next = { ...prev };
+        if (next[candidate.application_id]) {
+          delete next[candidate.application_id];
+        } else {
+          next[candidate.application_id] = candidate;
+        }
+        return next;
+      });
+    },
+    []
+  );
+
+  const handleTogglePage = useCallback(() => {
+    setAllMatchingSelected(false);
+    setSelectedRows((prev) => {
+      const next = { ...prev };
+      const allSelected = candidates.every(
+        (candidate) => next[candidate.application_id]
+      );
+      candidates.forEach((candidate) => {
+        if (allSelected) {
+          delete next[candidate.application_id];
+        } else {
+          next[candidate.application_id] = candidate;
+        }
+      });
+      return next;
+    });
+  }, [candidates]);
+
+  const handleClearSelection = useCallback(() => {
+    setSelectedRows({});
+    setAllMatchingSelected(false);
+  }, []);
+
+  // Selected applications, fetching every page when "all matching" is on
+  const resolveBulkTargets = async (): Promise<
+    CandidateWithApplication[]
+  > => {
+    if (!allMatchingSelected || !userContext) {
+      return Object.values(selectedRows);
+    }
+    return dispatch(
+      fetchAllMatchingCandidates({ filters: memoizedFilters, userContext })
+    ).unwrap();
+  };
+
+  const refreshCurrentPage = () => {
+    if (!userContext) return;
+    dispatch(
+      fetchJobApplicationsWithAccess({
+        page: pagination.currentPage,
+        limit: pagination.candidatesPerPage,
+        filters: memoizedFilters,
+        userContext,
+      })
+    );
+  };
+
+  const runBulkAction = async (
+    action: string,
+    perform: (
+      targets: CandidateWithApplication[]
+    ) => Promise<BulkActionSummary["results"]>
+  ) => {
+    setBulkBusy(true);
+    setBulkSummary(null);
+    try {
+      const targets = await resolveBulkTargets();
+      const results = await perform(targets);
+      setBulkSummary({
+        action,
+        results,
+        names: Object.fromEntries(
+          targets.map((candidate) => [candidate.application_id, candidate.name])
+        ),
+      });
+      handleClearSelection();
+    } catch (error) {
+      alert(`${action} failed: ${error}`);
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkStatusChange = async (
+    status: string,
+    reason: string,
+    rejectionReason?: string
+  ) => {
+    if (!userContext) return;
+
+    const count = allMatchingSelected
+      ? pagination.totalCandidates
+      : selectedCount;
+    const confirmed = window.confirm(
+      `Are you sure you want to move ${count} application(s) to "${formatStageLabel(
+        pipelineStages,
+        status
+      )}"?`
+    );
+    if (!confirmed) return;
+
+    await runBulkAction("Status change", (targets) =>
+      dispatch(
+        bulkUpdateApplicationStatus({
+          applicationIds: targets.map((candidate) => candidate.application_id),
+          status,
+          reason,
+          rejectionReason,
+          userContext,
+        })
+      )
+        .unwrap()
+        .then(({ results }) => results)
+    );
+    refreshCurrentPage();
+  };
+
+  const handleBulkDelete = async () => {
+    if (!userContext) return;
+
+    const count = allMatchingSelected
+      ? pagination.totalCandidates
+      : selectedCount;
+    const confirmed = window.confirm(
+      `Are you sure you want to delete ${count} application(s)? This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    await runBulkAction("Delete", (targets) =>
+      dispatch(
+        bulkDeleteApplications({
+          applicationIds: targets.map((candidate) => candidate.application_id),
+          userContext,
+        })
+      ).unwrap()
+    );
+    refreshCurrentPage();
+  };
+
+  const handleBulkTags = async (tagIds: string[], mode: "add" | "remove") => {
+    if (!userContext || tagIds.length === 0) return;
+
+    await runBulkAction(mode === "add" ? "Add tags" : "Remove tags", (targets) =>
+      dispatch(
+        bulkUpdateCandidateTags({
+          targets: targets.map((candidate) => ({
+            applicationId: candidate.application_id,
+            candidateId: candidate.id,
+          })),
+          tagIds,
+          mode,
+          userContext,
+        })
+      ).unwrap()
+    );
+    refreshCurrentPage();
+  };
+
+  const handleBulkCompare = () => {
+    router.push(
+      `/candidates/compare?ids=${Object.keys(selectedRows).join(",")}`
+    );
+  };
+
+  const handleBulkExport = async () => {
+    await runBulkAction("Export", async (targets) => {
+      const exportable = targets.filter(
+        (candidate) => candidate.hasAccess !== false
+      );
+      if (exportable.length > 0) {
+        exportCandidatesToCsv(exportable, pipelineStages);
+      }
+      return targets.map((candidate) =>
+        candidate.hasAccess !== false
+          ? { applicationId: candidate.application_id, success: true }
+          : {
+              applicationId: candidate.application_id,
+              success: false,
+              error: "You do not have access to this application's job",
+            }
+      );
+    });
+  };
+
+  // Stream every matching application, not just the loaded page, in the
+  // table's column order. Status is always shown so it is always exported.
+  const handleExportAll = useCallback(
+    (format: ExportFormat) => {
+      if (!userContext) return;
+      const params = new URLSearchParams({
+        format,
+        organizationId: userContext.organizationId,
+        filters: JSON.stringify(memoizedFilters),
+        columns: [
+          ...tableColumns
+            .filter((column) => column.visible)
+            .map((column) => column.key),
+          "status",
+        ].join(","),
+      });
+      const link = document.createElement("a");
+      link.href = `/candidates/export?${params.toString()}`;
+      link.click();
+    },
+    [userContext, memoizedFilters, tableColumns]
+  );
+
   const formatDate = useCallback((dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -695,16 +1154,9 @@ export default function CandidatesList({
         console.error("User context not available for pagination");
         return;
       }
-      dispatch(
-        fetchJobApplicationsWithAccess({
-          page,
-          limit: pagination.candidatesPerPage,
-          filters,
-          userContext,
-        })
-      );
+      showResults(memoizedFilters, page);
     },
-    [dispatch, pagination.candidatesPerPage, filters, userContext]
+    [showResults, memoizedFilters, userContext]
   );
 
   const handlePageSizeChange = useCallback(
@@ -717,6 +1169,16 @@ export default function CandidatesList({
         // Step 1: Update page size in Redux
         dispatch(setPageSize(pageSize));
 
+        // The new page size starts over from the first page; mark it as
+        // loaded so the URL change doesn't fetch it a second time
+        if (urlSyncEnabled) {
+          const query = candidateFiltersToQuery(filters);
+          appliedUrlStateRef.current = { filters: query, page: 1 };
+          router.replace(query ? `${pathname}?${query}` : pathname, {
+            scroll: false,
+          });
+        }
+
         // Step 2: Log what we're about to send to fetchJobs
         const fetchJobsParams = {
           page: 1,
@@ -733,7 +1195,7 @@ export default function CandidatesList({
         console.error("Failed to change page size:", err);
       }
     },
-    [dispatch, filters, userContext] // Fixed dependency array
+    [dispatch, router, pathname, urlSyncEnabled, filters, userContext] // Fixed dependency array
   );
 
   const generateShortId = useCallback((applicationId: string) => {
@@ -765,6 +1227,27 @@ export default function CandidatesList({
     );
   }, []);
 
+  // Quick tabs: a saved view replaces the filters, sort and columns, while
+  // the search term stays as typed
+  const handleApplyView = useCallback(
+    (view: CandidateSavedView | null) => {
+      if (!userContext) return;
+
+      dispatch(setActiveSavedView(view?.id ?? null));
+      handleColumnsUpdate(
+        view && view.columns.length > 0
+          ? mergeSavedColumns(view.columns)
+          : DEFAULT_TABLE_COLUMNS
+      );
+
+      showResults({
+        ...filtersForView(view),
+        searchTerm: filters.searchTerm,
+      });
+    },
+    [dispatch, userContext, filters.searchTerm, showResults, handleColumnsUpdate]
+  );
+
   // Modal handlers
   const handleOpenFiltersModal = useCallback(() => {
     // Copy current filters to temp filters to ensure proper synchronization
@@ -778,9 +1261,6 @@ export default function CandidatesList({
   const handleClearAllFilters = () => {
     if (!userContext) return;
 
-    // Use the clearFilters action to properly reset all filters
-    dispatch(clearFilters());
-
     // Force a complete reset of temp filters
     const clearedTempFilters: Partial<CandidateFilters> = {
       status: undefined,
@@ -799,15 +1279,23 @@ export default function CandidatesList({
 
     setTempFilters(clearedTempFilters);
 
-    // Fetch data with cleared filters
-    dispatch(
-      fetchJobApplicationsWithAccess({
-        page: 1,
-        limit: pagination.candidatesPerPage,
-        filters: {},
-        userContext,
-      })
-    );
+    if (urlSyncEnabled) {
+      // An empty query resets every URL-controlled filter
+      showResults({});
+    } else {
+      // Use the clearFilters action to properly reset all filters
+      dispatch(clearFilters());
+
+      // Fetch data with cleared filters
+      dispatch(
+        fetchJobApplicationsWithAccess({
+          page: 1,
+          limit: pagination.candidatesPerPage,
+          filters: {},
+          userContext,
+        })
+      );
+    }
     setShowFiltersModal(false);
     // Clear debounced fetch if it exists
     if (debouncedFetchRef.current?.cancel) {
@@ -821,13 +1309,26 @@ export default function CandidatesList({
       {
         key: "checkbox",
         header: (
-          <input type="checkbox" className="rounded border-neutral-300" />
+          <input
+            type="checkbox"
+            className="rounded border-neutral-300"
+            checked={allMatchingSelected || pageFullySelected}
+            ref={(el) => {
+              if (el) el.indeterminate = pagePartiallySelected;
+            }}
+            onChange={handleTogglePage}
+            aria-label="Select all on this page"
+          />
         ),
         width: "48px",
         render: (candidate: CandidateWithApplication) => (
           <input
             type="checkbox"
             className="rounded border-neutral-300"
+            checked={
+              allMatchingSelected || !!selectedRows[candidate.application_id]
+            }
+            onChange={() => handleToggleRow(candidate)}
             onClick={(e) => e.stopPropagation()}
             aria-label={`Select ${candidate.name}`}
           />
@@ -862,6 +1363,9 @@ export default function CandidatesList({
             <div className="text-sm text-neutral-500">
               {candidate.candidate_email}
             </div>
+            {candidate.search_snippet && (
+              <SearchSnippet snippet={candidate.search_snippet} />
+            )}
           </div>
         ),
       },
@@ -892,6 +1396,47 @@ export default function CandidatesList({
           </span>
         ),
       },
+      {
+        key: "fit_score",
+        header: "Fit",
+        width: "80px",
+        className: "text-center",
+        render: (candidate: CandidateWithApplication) => (
+          <div className="flex justify-center">
+            <FitScoreBadge fit={candidate.fit || toFitScore(null, null)} />
+          </div>
+        ),
+      },
+      {
+        key: "tags",
+        header: "Tags",
+        render: (candidate: CandidateWithApplication) =>
+          candidate.tags && candidate.tags.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {candidate.tags.map((tag) => (
+                <TagBadge key={tag.id} tag={tag} />
+              ))}
+            </div>
+          ) : (
+            <span className="text-sm text-neutral-400">—</span>
+          ),
+      },
+      {
+        key: "source",
+        header: "Source",
+        render: (candidate: CandidateWithApplication) => (
+          <div className="text-sm">
+            <div className="text-neutral-800">
+              {formatApplicationSource(candidate.source)}
+            </div>
+            {candidate.source_detail && (
+              <div className="text-xs text-neutral-500">
+                {candidate.source_detail}
+              </div>
+            )}
+          </div>
+        ),
+      },
       {
         key: "status",
         header: "Status",
@@ -926,7 +1471,18 @@ export default function CandidatesList({
       const columnConfig = tableColumns.find((col) => col.key === column.key);
       return columnConfig?.visible !== false;
     });
-  }, [tableColumns, generateShortId, formatDate, handleViewCandidate]);
+  }, [
+    tableColumns,
+    generateShortId,
+    formatDate,
+    handleViewCandidate,
+    selectedRows,
+    allMatchingSelected,
+    pageFullySelected,
+    pagePartiallySelected,
+    handleTogglePage,
+    handleToggleRow,
+  ]);
 
   // Handle error state
   if (error) {
@@ -951,7 +1507,14 @@ export default function CandidatesList({
       id: "sortBy",
       label: "Sort By",
       type: "radio" as const,
-      options: ["name_asc", "name_desc", "date_desc", "date_asc"],
+      options: [
+        ...(filters.searchTerm ? ["relevance"] : []),
+        "name_asc",
+        "name_desc",
+        "date_desc",
+        "date_asc",
+        "fit_desc",
+      ],
       selected: getCurrentSortValue(),
       onChange: (value: string) => handleTempFilterChange("sortBy", value),
     },
@@ -959,8 +1522,10 @@ export default function CandidatesList({
       id: "status",
       label: "Application Status",
       type: "checkbox" as const,
-      options:
-        filterOptions.statuses?.map((status) => status.toLowerCase()) || [],
+      options: pipelineStages.map((stage) => stage.key),
+      optionLabels: Object.fromEntries(
+        pipelineStages.map((stage) => [stage.key, stage.label])
+      ),
       selected: Array.isArray(tempFilters.status) ? tempFilters.status : [],
       onChange: (option: string) => {
         handleTempFilterChange("status", option);
@@ -1012,6 +1577,14 @@ export default function CandidatesList({
                         }
                         className="bg-blue-600 px-2 text-white text-xs border-none outline-none focus:ring-0 appearance-none pr-4 cursor-pointer hover:underline rounded-md"
                       >
+                        {filters.searchTerm && (
+                          <option
+                            value="relevance"
+                            className="bg-white text-neutral-900"
+                          >
+                            Best Match
+                          </option>
+                        )}
                         <option
                           value="date_desc"
                           className="bg-white text-neutral-900"
@@ -1036,6 +1609,12 @@ export default function CandidatesList({
                         >
                           Name (Z-A)
                         </option>
+                        <option
+                          value="fit_desc"
+                          className="bg-white text-neutral-900"
+                        >
+                          Best Fit
+                        </option>
                       </select>
                       <TiArrowSortedDown className="absolute right-0 top-1/2 transform -translate-y-1/2 text-white pointer-events-none" />
                     </div>
@@ -1043,14 +1622,10 @@ export default function CandidatesList({
 
                   <MultiSelectDropdown
                     key={filters.status ? filters.status.join(",") : "none"}
-                    options={
-                      filterOptions.statuses?.map((status: string) => ({
-                        value: status.toLowerCase(),
-                        label:
-                          status.charAt(0).toUpperCase() +
-                          status.slice(1).toLowerCase(),
-                      })) || []
-                    }
+                    options={pipelineStages.map((stage) => ({
+                      value: stage.key,
+                      label: stage.label,
+                    }))}
                     selectedValues={filters.status || []}
                     onChange={(values) => handleFilterChange("status", values)}
                     placeholder="App. Status"
@@ -1085,6 +1660,30 @@ export default function CandidatesList({
                     />
                   </div>
                 )}
+                {tagCatalogue.length > 0 && (
+                  <div className="relative z-30">
+                    <MultiSelectDropdown
+                      options={tagCatalogue.map((tag) => ({
+                        value: tag.id,
+                        label: tag.name,
+                      }))}
+                      selectedValues={filters.tags || []}
+                      onChange={(values) => handleFilterChange("tags", values)}
+                      placeholder="Tags"
+                    />
+                  </div>
+                )}
+                <div className="relative z-30">
+                  <MultiSelectDropdown
+                    options={APPLICATION_SOURCES.map((source) => ({
+                      value: source,
+                      label: APPLICATION_SOURCE_LABELS[source],
+                    }))}
+                    selectedValues={filters.source || []}
+                    onChange={(values) => handleFilterChange("source", values)}
+                    placeholder="Source"
+                  />
+                </div>
 
                 {/* Separator */}
                 <div className="h-8 w-px bg-neutral-500" />
@@ -1100,6 +1699,11 @@ export default function CandidatesList({
                         All Filters
                       </button>
                     )}
+                    <ExportMenu
+                      totalMatching={pagination.totalCandidates}
+                      disabled={!userContext || pagination.totalCandidates === 0}
+                      onExport={handleExportAll}
+                    />
                     <TableCustomization
                       columns={tableColumns}
                       onColumnToggle={handleColumnToggle}
@@ -1111,6 +1715,42 @@ export default function CandidatesList({
             </div>
           </div>
         )}
+        {savedViewsEnabled && (
+          <SavedViewsBar
+            userContext={userContext}
+            filters={filters}
+            columns={tableColumns}
+            onApplyView={handleApplyView}
+          />
+        )}
+
+        {/* Bulk actions */}
+        {bulkSummary && (
+          <BulkActionResults
+            summary={bulkSummary}
+            onDismiss={() => setBulkSummary(null)}
+          />
+        )}
+        {(selectedCount > 0 || allMatchingSelected) && (
+          <BulkActionsBar
+            selectedCount={selectedCount}
+            totalMatching={pagination.totalCandidates}
+            allMatchingSelected={allMatchingSelected}
+            pageFullySelected={pageFullySelected}
+            canDelete={canBulkDelete}
+            busy={bulkBusy}
+            stages={pipelineStages}
+            tags={tagCatalogue}
+            onSelectAllMatching={() => setAllMatchingSelected(true)}
+            onClearSelection={handleClearSelection}
+            onStatusChange={handleBulkStatusChange}
+            onDelete={handleBulkDelete}
+            onExport={handleBulkExport}
+            onCompare={handleBulkCompare}
+            onTagsChange={handleBulkTags}
+          />
+        )}
+
         {/* Table */}
         {!loading && (
           <GlobalStickyTable
@@ -1143,6 +1783,7 @@ export default function CandidatesList({
         setCandidatesDetailsOverlay={setCandidatesDetailsOverlay}
         onStatusUpdate={handleStatusUpdate}
         onDelete={handleDeleteCandidate}
+        onTransferred={refreshCurrentPage}
         calculateExperience={calculateExperience}
       />
       {/* Filters Modal */}
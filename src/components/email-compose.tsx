@@ -0,0 +1,228 @@
+"use client";
+
+import { memo, useEffect, useMemo, useState } from "react";
+import { IoCloseSharp } from "react-icons/io5";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchEmailTemplates,
+  fetchMergeValues,
+  selectEmailTemplates,
+  selectEmailTemplatesLoading,
+  selectMergeValues,
+} from "@/store/features/emailTemplatesSlice";
+import { sendEmail, selectInboxSending } from "@/store/features/inboxSlice";
+import { selectUserContext } from "@/store/features/candidatesSlice";
+import {
+  renderEmailTemplate,
+  validateRenderedEmail,
+} from "@/utils/email-templates";
+import LexicalEditor from "./LexicalEditor";
+import { MergeFieldWarnings } from "./email-preview";
+
+// Write an email to an application's candidate, optionally starting from a
+// template. Replies pass the thread they belong to.
+const EmailCompose = memo(
+  ({
+    applicationId,
+    candidateName,
+    candidateEmail,
+    threadId,
+    initialSubject = "",
+    onClose,
+    onSent,
+  }: {
+    applicationId: string;
+    candidateName: string;
+    candidateEmail: string;
+    threadId?: string | null;
+    initialSubject?: string;
+    onClose: () => void;
+    onSent?: (threadId: string) => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const templates = useAppSelector(selectEmailTemplates);
+    const templatesLoading = useAppSelector(selectEmailTemplatesLoading);
+    const sending = useAppSelector(selectInboxSending);
+    const mergeValues = useAppSelector((state) =>
+      selectMergeValues(state, applicationId)
+    );
+
+    const [templateId, setTemplateId] = useState("");
+    const [subject, setSubject] = useState(initialSubject);
+    const [body, setBody] = useState("");
+    // Remounts the editor, which only reads its initial value
+    const [editorKey, setEditorKey] = useState(0);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    useEffect(() => {
+      if (userContext) {
+        dispatch(fetchEmailTemplates(userContext.organizationId));
+      }
+    }, [dispatch, userContext]);
+
+    // Always refetch so the next interview and names are current
+    useEffect(() => {
+      if (userContext) {
+        dispatch(
+          fetchMergeValues({ applicationId, userId: userContext.userId })
+        );
+      }
+    }, [dispatch, applicationId, userContext]);
+
+    // Whatever is written is checked the same way as a template
+    const email = useMemo(
+      () =>
+        mergeValues
+          ? renderEmailTemplate({ subject, body }, mergeValues)
+          : null,
+      [subject, body, mergeValues]
+    );
+
+    const applyTemplate = (id: string) => {
+      setTemplateId(id);
+      const template = templates.find((t) => t.id === id);
+      if (!template || !mergeValues) return;
+
+      const rendered = renderEmailTemplate(template, mergeValues);
+      // A reply keeps the thread's subject
+      if (!threadId) setSubject(rendered.subject);
+      setBody(rendered.body);
+      setEditorKey((key) => key + 1);
+      setFormError(null);
+    };
+
+    const handleSend = async () => {
+      if (!userContext || !email) return;
+      setFormError(null);
+
+      const message =
+        (!email.subject.trim() && "Subject is required") ||
+        (!email.body.replace(/<[^>]+>/g, "").trim() &&
+          "Email body is required") ||
+        validateRenderedEmail(email);
+      if (message) {
+        setFormError(message);
+        return;
+      }
+
+      try {
+        const result = await dispatch(
+          sendEmail({
+            userContext,
+            applicationId,
+            subject: email.subject,
+            html: email.body,
+            threadId,
+          })
+        ).unwrap();
+        onSent?.(result.thread.threadId);
+        onClose();
+      } catch (err) {
+        setFormError(typeof err === "string" ? err : "Failed to send email");
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/40 p-4">
+        <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 relative">
+          <button
+            type="button"
+            onClick={onClose}
+            className="absolute top-4 right-4 cursor-pointer"
+            aria-label="Close"
+          >
+            <IoCloseSharp className="w-6 h-6 text-neutral-800" />
+          </button>
+
+          <h2 className="text-lg font-semibold text-neutral-900 mb-1">
+            {threadId ? "Reply to" : "Message"} {candidateName}
+          </h2>
+          <p className="text-sm text-neutral-500 mb-4">{candidateEmail}</p>
+
+          {formError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Template
+              </span>
+              <select
+                value={templateId}
+                onChange={(e) => applyTemplate(e.target.value)}
+                disabled={templatesLoading || !mergeValues}
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white"
+              >
+                <option value="">
+                  {templatesLoading || !mergeValues
+                    ? "Loading templates..."
+                    : "No template"}
+                </option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Subject
+              </span>
+              <input
+                type="text"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                maxLength={200}
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+
+            <div>
+              <span className="text-sm font-medium text-neutral-700">
+                Message
+              </span>
+              <div className="mt-1">
+                <LexicalEditor
+                  key={editorKey}
+                  value={body}
+                  onChange={setBody}
+                  placeholder="Write your message here..."
+                />
+              </div>
+            </div>
+
+            {email && <MergeFieldWarnings email={email} />}
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={sending || !email || !!validateRenderedEmail(email)}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {sending ? "Sending..." : "Send"}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+);
+
+EmailCompose.displayName = "EmailCompose";
+
+export default EmailCompose;
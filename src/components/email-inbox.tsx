@@ -0,0 +1,366 @@
+"use client";
+
+import { memo, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { FiRefreshCw, FiUpload } from "react-icons/fi";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchEmailThreads,
+  fetchThreadMessages,
+  importEmailFiles,
+  pollInboundEmails,
+  selectEmailThreads,
+  selectInboxError,
+  selectInboxImporting,
+  selectInboxLoading,
+  selectInboxMessagesLoading,
+  selectThreadMessages,
+  setThreadRead,
+} from "@/store/features/inboxSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import { EmailIngestResult, EmailThread } from "@/types/custom";
+import EmailCompose from "./email-compose";
+
+// How often the open inbox checks the polled folder for replies
+const POLL_INTERVAL = 60 * 1000;
+
+const formatMessageTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const ThreadMessages = memo(
+  ({
+    thread,
+    userContext,
+    onReply,
+  }: {
+    thread: EmailThread;
+    userContext: UserContext;
+    onReply: () => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const messages = useAppSelector((state) =>
+      selectThreadMessages(state, thread.id)
+    );
+    const loading = useAppSelector(selectInboxMessagesLoading);
+
+    return (
+      <div className="flex flex-col h-full">
+        <div className="px-5 py-4 border-b border-neutral-200">
+          <h2 className="font-semibold text-neutral-900">{thread.subject}</h2>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-sm">
+            <span className="text-neutral-600">
+              {thread.candidateName}
+              {thread.jobTitle && ` · ${thread.jobTitle}`}
+            </span>
+            <Link
+              href={`/candidates?application=${thread.applicationId}`}
+              className="text-blue-600 font-medium hover:underline"
+            >
+              Open application
+            </Link>
+            {thread.unreadCount === 0 &&
+              messages?.some((message) => message.direction === "inbound") && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    dispatch(
+                      setThreadRead({
+                        threadId: thread.id,
+                        read: false,
+                        userContext,
+                      })
+                    )
+                  }
+                  className="text-neutral-500 hover:text-neutral-800 cursor-pointer"
+                >
+                  Mark as unread
+                </button>
+              )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {!messages && loading ? (
+            <p className="text-sm text-neutral-500">Loading messages...</p>
+          ) : (
+            (messages || []).map((message) => (
+              <div
+                key={message.id}
+                className={`rounded-lg border p-4 ${
+                  message.direction === "outbound"
+                    ? "ml-8 bg-blue-50/50 border-blue-100"
+                    : "mr-8 bg-white border-neutral-200"
+                }`}
+              >
+                <div className="flex justify-between gap-3 text-xs text-neutral-500 mb-2">
+                  <span>
+                    <span className="font-medium text-neutral-800">
+                      {message.direction === "outbound"
+                        ? message.sentBy || message.fromName || "Your team"
+                        : message.fromName || message.fromAddress}
+                    </span>{" "}
+                    to {message.toAddress}
+                  </span>
+                  <span className="flex-shrink-0">
+                    {formatMessageTime(message.sentAt)}
+                  </span>
+                </div>
+                {/* Replies come from outside, so only their text is shown */}
+                <p className="text-sm text-neutral-800 whitespace-pre-wrap break-words">
+                  {message.bodyText}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-neutral-200 flex justify-end">
+          <button
+            type="button"
+            onClick={onReply}
+            className="bg-blue-600 text-white text-sm px-4 py-2 rounded-md hover:bg-blue-700 transition-colors cursor-pointer"
+          >
+            Reply
+          </button>
+        </div>
+      </div>
+    );
+  }
+);
+
+ThreadMessages.displayName = "ThreadMessages";
+
+// Email correspondence with candidates, newest conversation first
+const EmailInbox = memo(({ userContext }: { userContext: UserContext }) => {
+  const dispatch = useAppDispatch();
+  const threads = useAppSelector(selectEmailThreads);
+  const loading = useAppSelector(selectInboxLoading);
+  const importing = useAppSelector(selectInboxImporting);
+  const error = useAppSelector(selectInboxError);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [replying, setReplying] = useState(false);
+  const [importResult, setImportResult] = useState<EmailIngestResult | null>(
+    null
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = threads.find((thread) => thread.id === selectedId) || null;
+
+  // Always refresh on open, then keep checking for replies while open
+  useEffect(() => {
+    dispatch(fetchEmailThreads(userContext));
+    dispatch(pollInboundEmails(userContext));
+    const interval = setInterval(
+      () => dispatch(pollInboundEmails(userContext)),
+      POLL_INTERVAL
+    );
+    return () => clearInterval(interval);
+  }, [dispatch, userContext]);
+
+  const openThread = async (thread: EmailThread) => {
+    setSelectedId(thread.id);
+    setReplying(false);
+    if (thread.unreadCount > 0) {
+      dispatch(setThreadRead({ threadId: thread.id, read: true, userContext }));
+    } else {
+      dispatch(fetchThreadMessages({ threadId: thread.id, userContext }));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    try {
+      const { result } = await dispatch(
+        importEmailFiles({ userContext, files })
+      ).unwrap();
+      setImportResult(result);
+    } catch (err) {
+      console.log("Error importing emails:", err);
+    }
+  };
+
+  const handleCheckReplies = async () => {
+    try {
+      const { result } = await dispatch(
+        pollInboundEmails(userContext)
+      ).unwrap();
+      setImportResult(result);
+    } catch (err) {
+      console.log("Error checking for replies:", err);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h1 className="text-xl font-semibold text-neutral-900">
+            Conversations
+          </h1>
+          <p className="text-sm text-neutral-500">
+            Email sent to and received from candidates.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleCheckReplies}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-neutral-700 border border-neutral-300 rounded-md hover:bg-neutral-50 transition-colors cursor-pointer"
+          >
+            <FiRefreshCw className="w-4 h-4" />
+            Check for replies
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 transition-colors cursor-pointer disabled:opacity-50"
+          >
+            <FiUpload className="w-4 h-4" />
+            {importing ? "Importing..." : "Import .eml"}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".eml,message/rfc822"
+            multiple
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {importResult && (
+        <div className="mb-4 p-3 bg-neutral-50 border border-neutral-200 rounded-md text-sm text-neutral-700">
+          <div className="flex justify-between gap-3">
+            <span>
+              Imported {importResult.ingested}{" "}
+              {importResult.ingested === 1 ? "email" : "emails"}
+              {importResult.skipped.length > 0 &&
+                `, skipped ${importResult.skipped.length}`}
+              .
+            </span>
+            <button
+              type="button"
+              onClick={() => setImportResult(null)}
+              className="text-neutral-500 hover:text-neutral-800 cursor-pointer"
+            >
+              Dismiss
+            </button>
+          </div>
+          {importResult.skipped.length > 0 && (
+            <ul className="mt-2 list-disc ml-5 text-neutral-600">
+              {importResult.skipped.map((skipped, index) => (
+                <li key={`${skipped.file}-${index}`}>
+                  {skipped.file}: {skipped.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-neutral-200 grid grid-cols-1 md:grid-cols-[20rem_1fr] min-h-[32rem]">
+        <ul className="border-b md:border-b-0 md:border-r border-neutral-200 divide-y divide-neutral-100 overflow-y-auto max-h-[40rem]">
+          {loading && threads.length === 0 ? (
+            <li className="px-4 py-3 text-sm text-neutral-500">
+              Loading conversations...
+            </li>
+          ) : threads.length === 0 ? (
+            <li className="px-4 py-3 text-sm text-neutral-500">
+              No conversations yet. Message a candidate from their
+              application to start one.
+            </li>
+          ) : (
+            threads.map((thread) => (
+              <li key={thread.id}>
+                <button
+                  type="button"
+                  onClick={() => openThread(thread)}
+                  className={`w-full text-left flex items-start gap-3 px-4 py-3 hover:bg-neutral-50 cursor-pointer ${
+                    thread.id === selectedId
+                      ? "bg-neutral-100"
+                      : thread.unreadCount > 0
+                        ? "bg-blue-50/50"
+                        : ""
+                  }`}
+                >
+                  <span
+                    className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${
+                      thread.unreadCount > 0 ? "bg-blue-600" : "bg-transparent"
+                    }`}
+                    aria-label={thread.unreadCount > 0 ? "Unread" : undefined}
+                  />
+                  <div className="flex-1 min-w-0 text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span
+                        className={`truncate text-neutral-900 ${
+                          thread.unreadCount > 0 ? "font-semibold" : "font-medium"
+                        }`}
+                      >
+                        {thread.candidateName}
+                      </span>
+                      <span className="text-xs text-neutral-500 flex-shrink-0">
+                        {formatMessageTime(thread.lastMessageAt)}
+                      </span>
+                    </div>
+                    <p className="truncate text-neutral-700">{thread.subject}</p>
+                    <p className="truncate text-xs text-neutral-500">
+                      {thread.jobTitle}
+                      {thread.messageCount > 1 &&
+                        ` · ${thread.messageCount} messages`}
+                    </p>
+                  </div>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+
+        <div className="min-h-[24rem]">
+          {selected ? (
+            <ThreadMessages
+              thread={selected}
+              userContext={userContext}
+              onReply={() => setReplying(true)}
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center text-sm text-neutral-500 p-6">
+              Select a conversation to read it.
+            </div>
+          )}
+        </div>
+      </div>
+
+      {replying && selected && (
+        <EmailCompose
+          applicationId={selected.applicationId}
+          candidateName={selected.candidateName}
+          candidateEmail={selected.candidateEmail}
+          threadId={selected.id}
+          initialSubject={`Re: ${selected.subject}`}
+          onClose={() => setReplying(false)}
+        />
+      )}
+    </div>
+  );
+});
+
+EmailInbox.displayName = "EmailInbox";
+
+export default EmailInbox;
@@ -0,0 +1,58 @@
+"use client";
+
+import { memo } from "react";
+import sanitizeHtml from "sanitize-html";
+import {
+  EMAIL_MERGE_FIELD_LABELS,
+  RenderedEmail,
+} from "@/utils/email-templates";
+
+// Fields a filled-in template still references, which block sending
+export const MergeFieldWarnings = memo(
+  ({ email }: { email: RenderedEmail }) => (
+    <>
+      {email.unknownFields.length > 0 && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+          Unknown merge fields:{" "}
+          {email.unknownFields.map((field) => `{{${field}}}`).join(", ")}
+        </p>
+      )}
+      {email.missingFields.length > 0 && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          No value on this application for{" "}
+          {email.missingFields
+            .map((field) => EMAIL_MERGE_FIELD_LABELS[field].toLowerCase())
+            .join(", ")}
+          .
+        </p>
+      )}
+    </>
+  )
+);
+
+MergeFieldWarnings.displayName = "MergeFieldWarnings";
+
+// A template filled in for one application, flagging fields it could not fill.
+// Templates are written by any member and filled with candidate data, so
+// scripts, event handlers and javascript: links are stripped before rendering.
+const EmailPreview = memo(({ email }: { email: RenderedEmail }) => (
+  <div className="space-y-3">
+    <MergeFieldWarnings email={email} />
+    <div className="border border-neutral-200 rounded-lg">
+      <div className="px-4 py-2 border-b border-neutral-200 text-sm">
+        <span className="text-neutral-500">Subject:</span>{" "}
+        <span className="font-medium text-neutral-900">
+          {email.subject || "(no subject)"}
+        </span>
+      </div>
+      <div
+        className="px-4 py-3 text-sm text-neutral-800 [&_p]:mb-2 [&_ul]:list-disc [&_ul]:ml-4 [&_ol]:list-decimal [&_ol]:ml-4 [&_a]:text-blue-600 [&_a]:underline"
+        dangerouslySetInnerHTML={{ __html: sanitizeHtml(email.body) }}
+      />
+    </div>
+  </div>
+));
+
+EmailPreview.displayName = "EmailPreview";
+
+export default EmailPreview;
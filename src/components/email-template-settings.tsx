@@ -0,0 +1,357 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { FaPlus, FaRegTrashAlt } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  canEditEmailTemplate,
+  deleteEmailTemplate,
+  fetchEmailTemplates,
+  fetchMergeValues,
+  fetchPreviewApplications,
+  saveEmailTemplate,
+  selectEmailTemplates,
+  selectEmailTemplatesError,
+  selectEmailTemplatesLoading,
+  selectEmailTemplatesSaving,
+  selectMergeValues,
+  selectPreviewApplications,
+  validateEmailTemplateInput,
+} from "@/store/features/emailTemplatesSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import {
+  EMAIL_MERGE_FIELDS,
+  EmailMergeField,
+  EmailTemplate,
+  EmailTemplateInput,
+} from "@/types/custom";
+import {
+  EMAIL_MERGE_FIELD_LABELS,
+  formatMergeField,
+  renderEmailTemplate,
+} from "@/utils/email-templates";
+import LexicalEditor from "./LexicalEditor";
+import EmailPreview from "./email-preview";
+
+const EMPTY_INPUT: EmailTemplateInput = { name: "", subject: "", body: "" };
+
+const toInput = (template: EmailTemplate): EmailTemplateInput => ({
+  name: template.name,
+  subject: template.subject,
+  body: template.body,
+});
+
+// The organization's library of reusable emails, with a preview against a
+// real application
+export default function EmailTemplateSettings({
+  userContext,
+}: {
+  userContext: UserContext;
+}) {
+  const dispatch = useAppDispatch();
+  const templates = useAppSelector(selectEmailTemplates);
+  const loading = useAppSelector(selectEmailTemplatesLoading);
+  const saving = useAppSelector(selectEmailTemplatesSaving);
+  const error = useAppSelector(selectEmailTemplatesError);
+  const previewApplications = useAppSelector(selectPreviewApplications);
+
+  // null while writing a new template
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [input, setInput] = useState<EmailTemplateInput>(EMPTY_INPUT);
+  // Remounts the editor, which only reads its initial value
+  const [editorKey, setEditorKey] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [previewApplicationId, setPreviewApplicationId] = useState("");
+
+  const mergeValues = useAppSelector((state) =>
+    selectMergeValues(state, previewApplicationId)
+  );
+
+  const editing = templates.find((template) => template.id === editingId);
+  const canEdit = !editing || canEditEmailTemplate(editing, userContext);
+
+  useEffect(() => {
+    dispatch(fetchEmailTemplates(userContext.organizationId));
+    dispatch(fetchPreviewApplications(userContext));
+  }, [dispatch, userContext]);
+
+  // Preview against the most recent application until one is picked
+  useEffect(() => {
+    if (!previewApplicationId && previewApplications.length > 0) {
+      setPreviewApplicationId(previewApplications[0].applicationId);
+    }
+  }, [previewApplicationId, previewApplications]);
+
+  useEffect(() => {
+    if (previewApplicationId && !mergeValues) {
+      dispatch(
+        fetchMergeValues({
+          applicationId: previewApplicationId,
+          userId: userContext.userId,
+        })
+      );
+    }
+  }, [dispatch, previewApplicationId, mergeValues, userContext.userId]);
+
+  const preview = useMemo(
+    () => (mergeValues ? renderEmailTemplate(input, mergeValues) : null),
+    [input, mergeValues]
+  );
+
+  const openTemplate = (template: EmailTemplate | null) => {
+    setEditingId(template?.id ?? null);
+    setInput(template ? toInput(template) : EMPTY_INPUT);
+    setEditorKey((key) => key + 1);
+    setFormError(null);
+  };
+
+  const copyMergeField = (field: EmailMergeField) => {
+    navigator.clipboard?.writeText(formatMergeField(field));
+  };
+
+  const handleSave = async () => {
+    setFormError(null);
+
+    const message = validateEmailTemplateInput(input);
+    if (message) {
+      setFormError(message);
+      return;
+    }
+
+    try {
+      const result = await dispatch(
+        saveEmailTemplate({
+          templateId: editingId ?? undefined,
+          input,
+          userContext,
+        })
+      ).unwrap();
+      // Keep editing the template that was just created
+      setEditingId(result.templateId ?? null);
+      alert("Email template saved successfully!");
+    } catch (err) {
+      console.log("Error saving email template:", err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editing) return;
+    if (!confirm(`Delete the "${editing.name}" template?`)) return;
+
+    try {
+      await dispatch(
+        deleteEmailTemplate({ template: editing, userContext })
+      ).unwrap();
+      openTemplate(null);
+    } catch (err) {
+      console.log("Error deleting email template:", err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-neutral-600">
+          Loading email templates...
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="text-center mb-6">
+        <h2 className="font-semibold text-xl mb-4 text-neutral-900">
+          Email Templates
+        </h2>
+        <p className="text-neutral-500 text-sm mx-auto">
+          Reusable emails for your whole organization. Merge fields such as{" "}
+          <code>{"{{candidate_name}}"}</code> are filled in from the
+          application when the email is written.
+        </p>
+      </div>
+
+      {(error || formError) && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {formError || error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[14rem_1fr] gap-6">
+        <div className="space-y-2">
+          <button
+            type="button"
+            onClick={() => openTemplate(null)}
+            className={`w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md border transition-colors cursor-pointer ${
+              editingId === null
+                ? "border-blue-600 bg-blue-50 text-blue-700"
+                : "border-neutral-300 text-neutral-700 hover:bg-neutral-50"
+            }`}
+          >
+            <FaPlus className="w-3 h-3" />
+            New Template
+          </button>
+          {templates.map((template) => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => openTemplate(template)}
+              className={`w-full text-left px-3 py-2 text-sm rounded-md border transition-colors cursor-pointer ${
+                template.id === editingId
+                  ? "border-blue-600 bg-blue-50 text-blue-700"
+                  : "border-neutral-200 text-neutral-800 hover:bg-neutral-50"
+              }`}
+            >
+              <div className="font-medium truncate">{template.name}</div>
+              {template.createdByName && (
+                <div className="text-xs text-neutral-500 truncate">
+                  by {template.createdByName}
+                </div>
+              )}
+            </button>
+          ))}
+          {templates.length === 0 && (
+            <p className="text-sm text-neutral-500 text-center py-4">
+              No templates yet.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="text-sm font-medium text-neutral-700">Name</span>
+            <input
+              type="text"
+              value={input.name}
+              onChange={(e) =>
+                setInput((prev) => ({ ...prev, name: e.target.value }))
+              }
+              disabled={!canEdit}
+              maxLength={100}
+              placeholder="e.g. Interview invitation"
+              className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-neutral-700">
+              Subject
+            </span>
+            <input
+              type="text"
+              value={input.subject}
+              onChange={(e) =>
+                setInput((prev) => ({ ...prev, subject: e.target.value }))
+              }
+              disabled={!canEdit}
+              maxLength={200}
+              placeholder="e.g. Your interview for {{job_title}}"
+              className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+            />
+          </label>
+
+          <div>
+            <span className="text-sm font-medium text-neutral-700">Body</span>
+            <div className="mt-1">
+              <LexicalEditor
+                key={editorKey}
+                value={input.body}
+                onChange={(body) => setInput((prev) => ({ ...prev, body }))}
+                placeholder="Write the email here..."
+              />
+            </div>
+          </div>
+
+          <div>
+            <span className="text-sm font-medium text-neutral-700">
+              Merge fields
+            </span>
+            <p className="text-xs text-neutral-500 mb-2">
+              Click a field to copy it, then paste it into the subject or body.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {EMAIL_MERGE_FIELDS.map((field) => (
+                <button
+                  key={field}
+                  type="button"
+                  onClick={() => copyMergeField(field)}
+                  title={EMAIL_MERGE_FIELD_LABELS[field]}
+                  className="px-2 py-1 text-xs font-mono bg-neutral-100 text-neutral-700 border border-neutral-200 rounded-md hover:bg-neutral-200 transition-colors cursor-pointer"
+                >
+                  {formatMergeField(field)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t border-neutral-200 pt-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <span className="text-sm font-medium text-neutral-700">
+                Preview
+              </span>
+              <select
+                value={previewApplicationId}
+                onChange={(e) => setPreviewApplicationId(e.target.value)}
+                aria-label="Application to preview against"
+                className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white max-w-xs"
+              >
+                {previewApplications.length === 0 && (
+                  <option value="">No applications yet</option>
+                )}
+                {previewApplications.map((application) => (
+                  <option
+                    key={application.applicationId}
+                    value={application.applicationId}
+                  >
+                    {application.candidateName}
+                    {application.jobTitle ? ` – ${application.jobTitle}` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {preview ? (
+              <EmailPreview email={preview} />
+            ) : (
+              <p className="text-sm text-neutral-500">
+                {previewApplicationId
+                  ? "Loading preview..."
+                  : "Add an application to preview templates."}
+              </p>
+            )}
+          </div>
+
+          {canEdit ? (
+            <div className="flex justify-between gap-3">
+              <div>
+                {editing && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    disabled={saving}
+                    className="flex items-center gap-2 px-4 py-2 text-sm text-red-700 border border-red-700 rounded-md hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-50"
+                  >
+                    <FaRegTrashAlt className="w-3 h-3" />
+                    Delete
+                  </button>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm px-6 py-2 rounded-md transition-colors cursor-pointer disabled:cursor-not-allowed"
+              >
+                {saving ? "Saving..." : "Save Template"}
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-500 text-center">
+              Only the author or an admin can change this template.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { memo, useEffect, useRef, useState } from "react";
+import { FiDownload } from "react-icons/fi";
+
+export type ExportFormat = "csv" | "xlsx";
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV (.csv)" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+];
+
+// Exports every application matching the current filters
+const ExportMenu = memo(
+  ({
+    totalMatching,
+    disabled,
+    onExport,
+  }: {
+    totalMatching: number;
+    disabled: boolean;
+    onExport: (format: ExportFormat) => void;
+  }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close the menu when clicking outside
+    useEffect(() => {
+      const handleClickOutside = (event: MouseEvent) => {
+        if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+          setIsOpen(false);
+        }
+      };
+
+      document.addEventListener("mousedown", handleClickOutside);
+      return () => document.removeEventListener("mousedown", handleClickOutside);
+    }, []);
+
+    return (
+      <div ref={menuRef} className="relative">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          className="flex items-center gap-2 px-4 py-2 bg-neutral-200 hover:bg-neutral-300 rounded-full text-xs font-medium text-neutral-600 transition-colors cursor-pointer disabled:opacity-50"
+          aria-haspopup="menu"
+          aria-expanded={isOpen}
+        >
+          <FiDownload className="w-4 h-4" />
+          Export
+        </button>
+
+        {isOpen && (
+          <div
+            role="menu"
+            className="absolute right-0 top-full mt-2 w-56 bg-white border border-neutral-200 rounded-lg shadow-lg z-50 overflow-hidden"
+          >
+            <div className="px-4 py-2 text-xs text-neutral-500 border-b border-neutral-200 bg-neutral-50">
+              {totalMatching} matching application
+              {totalMatching === 1 ? "" : "s"}, visible columns
+            </div>
+            {FORMAT_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                role="menuitem"
+                onClick={() => {
+                  setIsOpen(false);
+                  onExport(option.value);
+                }}
+                className="w-full text-left px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-100 cursor-pointer"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+ExportMenu.displayName = "ExportMenu";
+
+export default ExportMenu;
@@ -7,6 +7,7 @@ interface FilterOption {
   label: string;
   type: "radio" | "checkbox";
   options: readonly string[];
+  optionLabels?: Record<string, string>; // Display labels keyed by option value
   selected: string | string[];
   onChange: (option: string) => void;
 }
@@ -24,10 +25,12 @@ interface FiltersModalProps {
 const getDisplayLabel = (value: string, filterId: string): string => {
   // Sort options mapping
   const sortLabels: { [key: string]: string } = {
+    relevance: "Best Match",
     name_asc: "Name (A-Z)",
     name_desc: "Name (Z-A)",
     date_desc: "Most Recent",
     date_asc: "Oldest First",
+    fit_desc: "Best Fit",
   };
 
   // Apply mappings based on filter type
@@ -134,7 +137,10 @@ const FilterSection = memo(
               key={index}
               filterId={filter.id}
               option={option} // Keep original value for form submission
-              value={getDisplayLabel(option, filter.id)} // Use formatted display label
+              value={
+                filter.optionLabels?.[option] ??
+                getDisplayLabel(option, filter.id)
+              } // Use formatted display label
               type={filter.type}
               isSelected={
                 Array.isArray(filter.selected)
@@ -0,0 +1,79 @@
+"use client";
+
+import { memo } from "react";
+import { FitScore } from "@/types/custom";
+
+const scoreClasses = (total: number) => {
+  if (total >= 75) return "bg-green-100 text-green-800 border-green-200";
+  if (total >= 50) return "bg-yellow-100 text-yellow-800 border-yellow-200";
+  return "bg-red-100 text-red-800 border-red-200";
+};
+
+// Fit score with a hover/focus breakdown of each weighted component
+const FitScoreBadge = memo(({ fit }: { fit: FitScore }) => {
+  const totalWeight = fit.items
+    .filter((item) => item.score !== null)
+    .reduce((sum, item) => sum + item.weight, 0);
+
+  return (
+    <div className="relative inline-block group">
+      <button
+        type="button"
+        onClick={(e) => e.stopPropagation()}
+        className={`px-3 py-1 rounded-full text-xs font-medium border cursor-help ${
+          fit.total === null
+            ? "bg-neutral-100 text-neutral-500 border-neutral-200"
+            : scoreClasses(fit.total)
+        }`}
+        aria-label={
+          fit.total === null
+            ? "Fit score unavailable"
+            : `Fit score ${fit.total} out of 100`
+        }
+      >
+        {fit.total === null ? "—" : fit.total}
+      </button>
+
+      <div
+        role="tooltip"
+        className="invisible opacity-0 group-hover:visible group-hover:opacity-100 group-focus-within:visible group-focus-within:opacity-100 transition-opacity absolute left-1/2 -translate-x-1/2 top-full mt-2 w-72 bg-white border border-neutral-200 rounded-lg shadow-lg z-50 p-3 text-left"
+      >
+        <div className="text-xs font-semibold text-neutral-900 mb-2">
+          Fit score{fit.total === null ? "" : `: ${fit.total} / 100`}
+        </div>
+        <ul className="space-y-2">
+          {fit.items.map((item) => {
+            const counted = item.score !== null && item.weight > 0;
+            return (
+              <li key={item.component} className="text-xs">
+                <div className="flex justify-between gap-2">
+                  <span
+                    className={`font-medium ${
+                      counted ? "text-neutral-800" : "text-neutral-400"
+                    }`}
+                  >
+                    {item.label}
+                  </span>
+                  <span className="text-neutral-500">
+                    {counted
+                      ? `${Math.round((item.score ?? 0) * 100)}% × ${Math.round(
+                          (item.weight / totalWeight) * 100
+                        )}% weight`
+                      : item.weight === 0
+                      ? "Not weighted"
+                      : "Not counted"}
+                  </span>
+                </div>
+                <div className="text-neutral-500">{item.detail}</div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+});
+
+FitScoreBadge.displayName = "FitScoreBadge";
+
+export default FitScoreBadge;
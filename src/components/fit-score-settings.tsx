@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchFitScoreWeights,
+  saveFitScoreWeights,
+  selectFitScoreCustomized,
+  selectFitScoreError,
+  selectFitScoreLoading,
+  selectFitScoreSaving,
+  selectFitScoreWeights,
+  validateFitScoreWeights,
+} from "@/store/features/fitScoreSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import {
+  DEFAULT_FIT_SCORE_WEIGHTS,
+  FIT_SCORE_COMPONENTS,
+  FIT_SCORE_WEIGHT_MAX,
+  FitScoreComponent,
+  FitScoreWeights,
+} from "@/types/custom";
+import { FIT_SCORE_LABELS } from "@/utils/fit-score";
+
+const COMPONENT_DESCRIPTIONS: Record<FitScoreComponent, string> = {
+  experience:
+    "Years of experience against the job's range. Falls off below the minimum; over-experience costs at most half.",
+  salary:
+    "Expected CTC against the job's salary range. Anything within the range scores in full.",
+  notice:
+    "Notice period in days. 15 days or less scores in full, 90 days or more scores nothing.",
+  location:
+    "Remote roles score in full; otherwise the candidate's address must mention the job location.",
+};
+
+// Organization weights for the candidate-to-job fit score
+export default function FitScoreSettings({
+  userContext,
+}: {
+  userContext: UserContext;
+}) {
+  const dispatch = useAppDispatch();
+  const weights = useAppSelector(selectFitScoreWeights);
+  const customized = useAppSelector(selectFitScoreCustomized);
+  const loading = useAppSelector(selectFitScoreLoading);
+  const saving = useAppSelector(selectFitScoreSaving);
+  const error = useAppSelector(selectFitScoreError);
+
+  const isAdmin = userContext.roles.includes("admin");
+
+  const [draft, setDraft] = useState<FitScoreWeights>(weights);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchFitScoreWeights(userContext.organizationId));
+  }, [dispatch, userContext.organizationId]);
+
+  // Reset the draft whenever fresh weights are loaded or saved
+  useEffect(() => {
+    setDraft(weights);
+    setValidationError(null);
+  }, [weights]);
+
+  const totalWeight = FIT_SCORE_COMPONENTS.reduce(
+    (sum, component) => sum + draft[component],
+    0
+  );
+
+  const handleSave = async () => {
+    const message = validateFitScoreWeights(draft);
+    setValidationError(message);
+    if (message) return;
+
+    try {
+      await dispatch(
+        saveFitScoreWeights({ weights: draft, userContext })
+      ).unwrap();
+      alert("Fit score weights saved successfully!");
+    } catch (err) {
+      console.log("Error saving fit score weights:", err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-neutral-600">Loading fit score...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="text-center mb-6">
+        <h2 className="font-semibold text-xl mb-4 text-neutral-900">
+          Fit Score
+        </h2>
+        <p className="text-neutral-500 text-sm mx-auto">
+          Each application gets a score out of 100 from how well the candidate
+          matches the job. Set how much each signal counts; signals a
+          candidate or job has no data for are left out.
+          {!customized && " Your organization is using the default weights."}
+        </p>
+      </div>
+
+      {(validationError || error) && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {validationError || error}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {FIT_SCORE_COMPONENTS.map((component) => (
+          <div
+            key={component}
+            className="border border-neutral-200 rounded-lg p-4"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <label
+                htmlFor={`fit-weight-${component}`}
+                className="font-medium text-sm text-neutral-900"
+              >
+                {FIT_SCORE_LABELS[component]}
+              </label>
+              <div className="flex items-center gap-3">
+                <input
+                  id={`fit-weight-${component}`}
+                  type="range"
+                  min={0}
+                  max={FIT_SCORE_WEIGHT_MAX}
+                  step={1}
+                  value={draft[component]}
+                  onChange={(e) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      [component]: Number(e.target.value),
+                    }))
+                  }
+                  disabled={!isAdmin}
+                  className="w-40 accent-blue-600"
+                />
+                <span className="w-24 text-sm text-neutral-700 text-right">
+                  {draft[component]} ·{" "}
+                  {totalWeight > 0
+                    ? Math.round((draft[component] / totalWeight) * 100)
+                    : 0}
+                  %
+                </span>
+              </div>
+            </div>
+            <p className="text-xs text-neutral-500 mt-2">
+              {COMPONENT_DESCRIPTIONS[component]}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {isAdmin ? (
+        <div className="flex justify-between items-center mt-6">
+          <button
+            type="button"
+            onClick={() => setDraft(DEFAULT_FIT_SCORE_WEIGHTS)}
+            disabled={saving}
+            className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-50 transition-colors cursor-pointer disabled:opacity-50"
+          >
+            Use Defaults
+          </button>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setDraft(weights)}
+              disabled={saving}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-50 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm px-6 py-2 rounded-md transition-colors cursor-pointer disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Weights"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-500 mt-6 text-center">
+          Only admins can change the fit score weights.
+        </p>
+      )}
+    </div>
+  );
+}
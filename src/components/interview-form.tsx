@@ -0,0 +1,272 @@
+"use client";
+
+import { memo, useEffect, useMemo, useState } from "react";
+import { IoCloseSharp } from "react-icons/io5";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  getBrowserTimeZone,
+  getSupportedTimeZones,
+  scheduleInterview,
+  selectInterviewsSaving,
+  updateInterview,
+  utcToZonedInputs,
+} from "@/store/features/interviewsSlice";
+import {
+  fetchOrgMembers,
+  selectActiveMembers,
+} from "@/store/features/organisationSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import { Interview, InterviewInput } from "@/types/custom";
+import MultiSelectDropdown from "./multiSelectDropdown";
+
+const emptyInput = (): InterviewInput => ({
+  roundName: "",
+  interviewerIds: [],
+  date: "",
+  startTime: "10:00",
+  endTime: "11:00",
+  timeZone: getBrowserTimeZone(),
+  location: "",
+  meetingLink: "",
+});
+
+const toInput = (interview: Interview): InterviewInput => {
+  const start = utcToZonedInputs(interview.startTime, interview.timeZone);
+  const end = utcToZonedInputs(interview.endTime, interview.timeZone);
+  return {
+    roundName: interview.roundName,
+    interviewerIds: interview.interviewers.map(
+      (interviewer) => interviewer.userId
+    ),
+    date: start.date,
+    startTime: start.time,
+    endTime: end.time,
+    timeZone: interview.timeZone,
+    location: interview.location || "",
+    meetingLink: interview.meetingLink || "",
+  };
+};
+
+// Schedule a new interview for an application, or edit an existing one
+const InterviewForm = memo(
+  ({
+    applicationId,
+    interview,
+    userContext,
+    onClose,
+  }: {
+    applicationId: string;
+    interview?: Interview | null;
+    userContext: UserContext;
+    onClose: () => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const members = useAppSelector(selectActiveMembers);
+    const saving = useAppSelector(selectInterviewsSaving);
+
+    const [input, setInput] = useState<InterviewInput>(() =>
+      interview ? toInput(interview) : emptyInput()
+    );
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const timeZones = useMemo(getSupportedTimeZones, []);
+
+    useEffect(() => {
+      if (members.length === 0) {
+        dispatch(fetchOrgMembers(userContext.organizationId));
+      }
+    }, [dispatch, members.length, userContext.organizationId]);
+
+    const updateField = <K extends keyof InterviewInput>(
+      field: K,
+      value: InterviewInput[K]
+    ) => {
+      setInput((prev) => ({ ...prev, [field]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setFormError(null);
+
+      try {
+        if (interview) {
+          await dispatch(
+            updateInterview({ interview, input, userContext })
+          ).unwrap();
+        } else {
+          await dispatch(
+            scheduleInterview({ applicationId, input, userContext })
+          ).unwrap();
+        }
+        onClose();
+      } catch (err) {
+        setFormError(typeof err === "string" ? err : "Failed to save interview");
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/40 p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 relative"
+        >
+          <button
+            type="button"
+            onClick={onClose}
+            className="absolute top-4 right-4 cursor-pointer"
+            aria-label="Close"
+          >
+            <IoCloseSharp className="w-6 h-6 text-neutral-800" />
+          </button>
+
+          <h2 className="text-lg font-semibold text-neutral-900 mb-4">
+            {interview ? "Edit Interview" : "Schedule Interview"}
+          </h2>
+
+          {formError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Round
+              </span>
+              <input
+                type="text"
+                value={input.roundName}
+                onChange={(e) => updateField("roundName", e.target.value)}
+                placeholder="e.g. Technical round 1"
+                maxLength={100}
+                required
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+
+            <div>
+              <span className="text-sm font-medium text-neutral-700">
+                Interviewers
+              </span>
+              <MultiSelectDropdown
+                options={members.map((member) => ({
+                  value: member.user_id,
+                  label: member.full_name || member.email,
+                }))}
+                selectedValues={input.interviewerIds}
+                onChange={(values) => updateField("interviewerIds", values)}
+                placeholder="Select interviewers"
+                className="mt-1"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <label className="block">
+                <span className="text-sm font-medium text-neutral-700">
+                  Date
+                </span>
+                <input
+                  type="date"
+                  value={input.date}
+                  onChange={(e) => updateField("date", e.target.value)}
+                  required
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-neutral-700">
+                  Start
+                </span>
+                <input
+                  type="time"
+                  value={input.startTime}
+                  onChange={(e) => updateField("startTime", e.target.value)}
+                  required
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-neutral-700">
+                  End
+                </span>
+                <input
+                  type="time"
+                  value={input.endTime}
+                  onChange={(e) => updateField("endTime", e.target.value)}
+                  required
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+                />
+              </label>
+            </div>
+
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Time zone
+              </span>
+              <select
+                value={input.timeZone}
+                onChange={(e) => updateField("timeZone", e.target.value)}
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white"
+              >
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Location
+              </span>
+              <input
+                type="text"
+                value={input.location}
+                onChange={(e) => updateField("location", e.target.value)}
+                placeholder="Office address or room"
+                maxLength={255}
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Meeting link
+              </span>
+              <input
+                type="url"
+                value={input.meetingLink}
+                onChange={(e) => updateField("meetingLink", e.target.value)}
+                placeholder="https://"
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {saving ? "Saving..." : interview ? "Save" : "Schedule"}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+);
+
+InterviewForm.displayName = "InterviewForm";
+
+export default InterviewForm;
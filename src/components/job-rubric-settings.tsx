@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaRegTrashAlt } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchJobRubric,
+  saveJobRubric,
+  selectJobRubric,
+  selectScorecardsError,
+  selectScorecardsSaving,
+} from "@/store/features/scorecardsSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+
+interface CompetencyDraft {
+  id?: string;
+  name: string;
+  description: string;
+}
+
+// Interview rubric editor shown in a job's settings tab
+export default function JobRubricSettings({
+  jobId,
+  userContext,
+}: {
+  jobId: string;
+  userContext: UserContext;
+}) {
+  const dispatch = useAppDispatch();
+  const competencies = useAppSelector((state) => selectJobRubric(state, jobId));
+  const saving = useAppSelector(selectScorecardsSaving);
+  const error = useAppSelector(selectScorecardsError);
+
+  const [drafts, setDrafts] = useState<CompetencyDraft[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  const canEdit =
+    userContext.roles.includes("admin") || userContext.roles.includes("hr");
+
+  useEffect(() => {
+    dispatch(fetchJobRubric(jobId));
+  }, [dispatch, jobId]);
+
+  useEffect(() => {
+    if (competencies) {
+      setDrafts(
+        competencies.map((competency) => ({
+          id: competency.id,
+          name: competency.name,
+          description: competency.description || "",
+        }))
+      );
+    }
+  }, [competencies]);
+
+  const updateDraft = (index: number, updates: Partial<CompetencyDraft>) => {
+    setSaved(false);
+    setDrafts((prev) =>
+      prev.map((draft, i) => (i === index ? { ...draft, ...updates } : draft))
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      await dispatch(
+        saveJobRubric({ jobId, competencies: drafts, userContext })
+      ).unwrap();
+      setSaved(true);
+    } catch (err) {
+      console.log("Failed to save rubric:", err);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-neutral-100 p-8">
+      <h3 className="text-xl font-bold text-neutral-900 mb-1">
+        Interview Rubric
+      </h3>
+      <p className="text-sm text-neutral-600 mb-6">
+        Competencies interviewers rate from 1 to 5 on their scorecards for this
+        job.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {drafts.map((draft, index) => (
+          <div
+            key={draft.id || `new-${index}`}
+            className="flex items-start gap-3"
+          >
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft(index, { name: e.target.value })}
+                placeholder="Competency, e.g. Problem solving"
+                maxLength={100}
+                disabled={!canEdit}
+                className="border border-neutral-300 rounded-md px-3 py-2 text-sm disabled:bg-neutral-50"
+              />
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) =>
+                  updateDraft(index, { description: e.target.value })
+                }
+                placeholder="What a strong answer looks like (optional)"
+                maxLength={500}
+                disabled={!canEdit}
+                className="border border-neutral-300 rounded-md px-3 py-2 text-sm disabled:bg-neutral-50"
+              />
+            </div>
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => {
+                  setSaved(false);
+                  setDrafts((prev) => prev.filter((_, i) => i !== index));
+                }}
+                className="p-2 mt-0.5 border border-red-200 rounded-md hover:bg-red-50 cursor-pointer"
+                aria-label={`Remove ${draft.name || "competency"}`}
+              >
+                <FaRegTrashAlt className="w-4 h-4 text-red-700" />
+              </button>
+            )}
+          </div>
+        ))}
+
+        {drafts.length === 0 && (
+          <p className="text-sm text-neutral-500">
+            No competencies yet. Scorecards will only record a recommendation.
+          </p>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="flex items-center justify-between mt-6">
+          <button
+            type="button"
+            onClick={() => {
+              setSaved(false);
+              setDrafts((prev) => [...prev, { name: "", description: "" }]);
+            }}
+            className="text-sm text-blue-600 font-medium hover:underline cursor-pointer"
+          >
+            + Add competency
+          </button>
+          <div className="flex items-center gap-3">
+            {saved && <span className="text-sm text-green-700">Saved</span>}
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Rubric"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
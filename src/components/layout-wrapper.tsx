@@ -26,6 +26,11 @@ export default function LayoutWrapper({
     `/forgot-password`,
   ].includes(pathname);
 
+  // Careers pages are public and bring their own header
+  if (pathname.startsWith("/careers")) {
+    return <>{children}</>;
+  }
+
   if (isAuthPage) {
     return (
       <>
@@ -48,16 +53,23 @@ export default function LayoutWrapper({
         </div>
       }
     >
-      <Sidebar />
+      {/* Navigation is left out of printed pages */}
+      <div className="print:hidden">
+        <Sidebar />
+      </div>
       <div
         className={`md:ml-20 ${
           collapsed ? "md:ml-20" : "md:ml-60"
-        } transition-all duration-300`}
+        } transition-all duration-300 print:hidden`}
       >
         <UserButton />
       </div>
-      <main className="pb-32 md:pb-0">{children}</main>
-      {!hideBottomNav && <BottomNav />}
+      <main className="pb-32 md:pb-0 print:pb-0">{children}</main>
+      {!hideBottomNav && (
+        <div className="print:hidden">
+          <BottomNav />
+        </div>
+      )}
     </Suspense>
   );
 }
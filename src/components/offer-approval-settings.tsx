@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaArrowDown, FaArrowUp, FaRegTrashAlt } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchOfferApprovers,
+  saveOfferApprovers,
+  selectOfferApprovers,
+  selectOfferApproversLoading,
+  selectOffersError,
+  selectOffersSaving,
+} from "@/store/features/offersSlice";
+import {
+  fetchOrgMembers,
+  selectActiveMembers,
+} from "@/store/features/organisationSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+
+// Members who approve every offer, in order. Offers outside the job's salary
+// band get an extra admin step after them.
+export default function OfferApprovalSettings({
+  userContext,
+}: {
+  userContext: UserContext;
+}) {
+  const dispatch = useAppDispatch();
+  const approvers = useAppSelector(selectOfferApprovers);
+  const loading = useAppSelector(selectOfferApproversLoading);
+  const saving = useAppSelector(selectOffersSaving);
+  const error = useAppSelector(selectOffersError);
+  const members = useAppSelector(selectActiveMembers);
+
+  const isAdmin = userContext.roles.includes("admin");
+
+  const [userIds, setUserIds] = useState<string[]>([]);
+  const [newApproverId, setNewApproverId] = useState("");
+
+  useEffect(() => {
+    dispatch(fetchOfferApprovers(userContext.organizationId));
+  }, [dispatch, userContext.organizationId]);
+
+  useEffect(() => {
+    if (members.length === 0) {
+      dispatch(fetchOrgMembers(userContext.organizationId));
+    }
+  }, [dispatch, members.length, userContext.organizationId]);
+
+  // Reset the draft whenever a fresh chain is loaded or saved
+  useEffect(() => {
+    setUserIds(approvers.map((approver) => approver.userId));
+  }, [approvers]);
+
+  const memberName = (userId: string) =>
+    members.find((member) => member.user_id === userId)?.full_name ||
+    approvers.find((approver) => approver.userId === userId)?.name ||
+    "Unknown user";
+
+  const moveApprover = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= userIds.length) return;
+    setUserIds((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addApprover = () => {
+    if (!newApproverId) return;
+    setUserIds((prev) => [...prev, newApproverId]);
+    setNewApproverId("");
+  };
+
+  const handleSave = async () => {
+    try {
+      await dispatch(saveOfferApprovers({ userIds, userContext })).unwrap();
+      alert("Offer approval chain saved successfully!");
+    } catch (err) {
+      console.log("Error saving offer approval chain:", err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-neutral-600">
+          Loading approval chain...
+        </span>
+      </div>
+    );
+  }
+
+  const available = members.filter(
+    (member) => !userIds.includes(member.user_id)
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="text-center mb-6">
+        <h2 className="font-semibold text-xl mb-4 text-neutral-900">
+          Offer Approvals
+        </h2>
+        <p className="text-neutral-500 text-sm mx-auto">
+          Every offer is approved by these members, one after another, before
+          it can be sent. Offers outside the job&apos;s salary band also need
+          an admin&apos;s approval at the end of the chain.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {userIds.map((userId, index) => (
+          <div
+            key={userId}
+            className="flex items-center gap-3 border border-neutral-200 rounded-lg p-3"
+          >
+            <span className="text-sm text-neutral-500 w-6">{index + 1}.</span>
+            <span className="flex-1 text-sm text-neutral-900">
+              {memberName(userId)}
+            </span>
+            {isAdmin && (
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => moveApprover(index, -1)}
+                  disabled={index === 0}
+                  className="p-2 text-neutral-600 hover:bg-neutral-100 rounded-md disabled:opacity-30 cursor-pointer"
+                  aria-label={`Move ${memberName(userId)} up`}
+                >
+                  <FaArrowUp className="w-3 h-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveApprover(index, 1)}
+                  disabled={index === userIds.length - 1}
+                  className="p-2 text-neutral-600 hover:bg-neutral-100 rounded-md disabled:opacity-30 cursor-pointer"
+                  aria-label={`Move ${memberName(userId)} down`}
+                >
+                  <FaArrowDown className="w-3 h-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setUserIds((prev) => prev.filter((id) => id !== userId))
+                  }
+                  className="p-2 text-red-700 hover:bg-red-50 rounded-md cursor-pointer"
+                  aria-label={`Remove ${memberName(userId)}`}
+                >
+                  <FaRegTrashAlt className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {userIds.length === 0 && (
+          <p className="text-sm text-neutral-500 text-center py-4">
+            No approvers. Offers inside the salary band can be sent right
+            away.
+          </p>
+        )}
+      </div>
+
+      {isAdmin ? (
+        <div className="flex flex-wrap justify-between items-center gap-3 mt-6">
+          <div className="flex gap-2">
+            <select
+              value={newApproverId}
+              onChange={(e) => setNewApproverId(e.target.value)}
+              aria-label="Approver to add"
+              className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white"
+            >
+              <option value="">Add a member...</option>
+              {available.map((member) => (
+                <option key={member.user_id} value={member.user_id}>
+                  {member.full_name} ({member.role_display_name})
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={addApprover}
+              disabled={!newApproverId}
+              className="px-4 py-2 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() =>
+                setUserIds(approvers.map((approver) => approver.userId))
+              }
+              disabled={saving}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-50 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm px-6 py-2 rounded-md transition-colors cursor-pointer disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Chain"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-500 mt-6 text-center">
+          Only admins can change the offer approval chain.
+        </p>
+      )}
+    </div>
+  );
+}
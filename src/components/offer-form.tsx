@@ -0,0 +1,215 @@
+"use client";
+
+import { memo, useState } from "react";
+import { IoCloseSharp } from "react-icons/io5";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  formatCtc,
+  isOutOfBand,
+  saveOffer,
+  selectOffersSaving,
+  validateOfferInput,
+} from "@/store/features/offersSlice";
+import {
+  CandidateWithApplication,
+  UserContext,
+} from "@/store/features/candidatesSlice";
+import { Offer, OfferInput } from "@/types/custom";
+
+const toInput = (offer?: Offer | null): OfferInput => ({
+  offeredCtc: offer?.offeredCtc ?? 0,
+  joiningDate: offer?.joiningDate || "",
+  expiresAt: offer?.expiresAt || "",
+  notes: offer?.notes || "",
+});
+
+// Draft a new offer for an application, or edit a draft
+const OfferForm = memo(
+  ({
+    candidate,
+    offer,
+    userContext,
+    onClose,
+  }: {
+    candidate: CandidateWithApplication;
+    offer?: Offer | null;
+    userContext: UserContext;
+    onClose: () => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const saving = useAppSelector(selectOffersSaving);
+
+    const [input, setInput] = useState<OfferInput>(() => toInput(offer));
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const updateField = <K extends keyof OfferInput>(
+      field: K,
+      value: OfferInput[K]
+    ) => {
+      setInput((prev) => ({ ...prev, [field]: value }));
+    };
+
+    const outOfBand =
+      input.offeredCtc > 0 &&
+      isOutOfBand(input.offeredCtc, candidate.min_salary, candidate.max_salary);
+    const hasBand = candidate.min_salary != null || candidate.max_salary != null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setFormError(null);
+
+      const message = validateOfferInput(input);
+      if (message) {
+        setFormError(message);
+        return;
+      }
+
+      try {
+        await dispatch(
+          saveOffer({
+            applicationId: candidate.application_id,
+            offerId: offer?.id,
+            input,
+            userContext,
+          })
+        ).unwrap();
+        onClose();
+      } catch (err) {
+        setFormError(typeof err === "string" ? err : "Failed to save offer");
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/40 p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 relative"
+        >
+          <button
+            type="button"
+            onClick={onClose}
+            className="absolute top-4 right-4 cursor-pointer"
+            aria-label="Close"
+          >
+            <IoCloseSharp className="w-6 h-6 text-neutral-800" />
+          </button>
+
+          <h2 className="text-lg font-semibold text-neutral-900 mb-4">
+            {offer ? "Edit Offer" : "New Offer"}
+          </h2>
+
+          {formError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Offered CTC
+              </span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={input.offeredCtc || ""}
+                onChange={(e) =>
+                  updateField("offeredCtc", Number(e.target.value))
+                }
+                required
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+
+            <div className="grid grid-cols-2 gap-3 text-sm bg-neutral-50 border border-neutral-200 rounded-md p-3">
+              <div>
+                <div className="text-neutral-500">Salary band</div>
+                <div className="font-medium text-neutral-800">
+                  {hasBand
+                    ? `${formatCtc(candidate.min_salary)} – ${formatCtc(
+                        candidate.max_salary
+                      )}`
+                    : "Not set"}
+                </div>
+              </div>
+              <div>
+                <div className="text-neutral-500">Expected CTC</div>
+                <div className="font-medium text-neutral-800">
+                  {formatCtc(candidate.expected_ctc)}
+                </div>
+              </div>
+            </div>
+
+            {outOfBand && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                This offer is outside the job&apos;s salary band, so an admin
+                has to approve it before it can be sent.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-sm font-medium text-neutral-700">
+                  Joining date
+                </span>
+                <input
+                  type="date"
+                  value={input.joiningDate}
+                  onChange={(e) => updateField("joiningDate", e.target.value)}
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-neutral-700">
+                  Offer expires
+                </span>
+                <input
+                  type="date"
+                  value={input.expiresAt}
+                  onChange={(e) => updateField("expiresAt", e.target.value)}
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+                />
+              </label>
+            </div>
+
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Notes
+              </span>
+              <textarea
+                value={input.notes}
+                onChange={(e) => updateField("notes", e.target.value)}
+                rows={3}
+                maxLength={5000}
+                placeholder="Bonus, equity or other terms"
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Draft"}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+);
+
+OfferForm.displayName = "OfferForm";
+
+export default OfferForm;
@@ -0,0 +1,370 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaArrowDown, FaArrowUp, FaPlus, FaRegTrashAlt } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchPipeline,
+  savePipeline,
+  selectPipeline,
+  selectPipelineError,
+  selectPipelineLoading,
+  selectPipelineSaving,
+  toStageKey,
+  validatePipelineStages,
+} from "@/store/features/pipelineSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import {
+  PIPELINE_STAGE_CATEGORIES,
+  PIPELINE_STAGE_COLORS,
+  PipelineStage,
+  PipelineStageCategory,
+  PipelineStageColor,
+} from "@/types/custom";
+import { STAGE_COLOR_CLASSES } from "./status-badge";
+
+const CATEGORY_LABELS: Record<PipelineStageCategory, string> = {
+  active: "Active",
+  terminal_positive: "Hired (terminal)",
+  terminal_negative: "Rejected (terminal)",
+};
+
+interface PipelineSettingsProps {
+  userContext: UserContext;
+}
+
+export default function PipelineSettings({ userContext }: PipelineSettingsProps) {
+  const dispatch = useAppDispatch();
+  const pipeline = useAppSelector(selectPipeline);
+  const loading = useAppSelector(selectPipelineLoading);
+  const saving = useAppSelector(selectPipelineSaving);
+  const error = useAppSelector(selectPipelineError);
+
+  const isAdmin = userContext.roles.includes("admin");
+
+  const [name, setName] = useState("");
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchPipeline(userContext.organizationId));
+  }, [dispatch, userContext.organizationId]);
+
+  // Reset the draft whenever a fresh pipeline is loaded or saved
+  useEffect(() => {
+    if (pipeline) {
+      setName(pipeline.name);
+      setStages(pipeline.stages);
+      setValidationError(null);
+    }
+  }, [pipeline]);
+
+  const updateStage = (index: number, updates: Partial<PipelineStage>) => {
+    setStages((prev) =>
+      prev.map((stage, i) => (i === index ? { ...stage, ...updates } : stage))
+    );
+  };
+
+  const handleLabelChange = (index: number, label: string) => {
+    const previousKey = stages[index].key;
+    // Saved stages keep their key so existing applications stay attached
+    const isSaved = pipeline?.stages.some((stage) => stage.key === previousKey);
+    const key = isSaved ? previousKey : toStageKey(label);
+
+    setStages((prev) =>
+      prev.map((stage, i) => {
+        if (i === index) return { ...stage, label, key };
+        return {
+          ...stage,
+          allowedTransitions:
+            stage.allowedTransitions?.map((k) =>
+              k === previousKey ? key : k
+            ) ?? null,
+        };
+      })
+    );
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+    setStages((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next.map((stage, i) => ({ ...stage, position: i }));
+    });
+  };
+
+  const removeStage = (index: number) => {
+    const removedKey = stages[index].key;
+    setStages((prev) =>
+      prev
+        .filter((_, i) => i !== index)
+        .map((stage, i) => ({
+          ...stage,
+          position: i,
+          allowedTransitions:
+            stage.allowedTransitions?.filter((key) => key !== removedKey) ??
+            null,
+        }))
+    );
+  };
+
+  const addStage = () => {
+    setStages((prev) => [
+      ...prev,
+      {
+        key: `stage_${prev.length + 1}`,
+        label: `Stage ${prev.length + 1}`,
+        position: prev.length,
+        category: "active",
+        color: "neutral",
+        allowedTransitions: null,
+      },
+    ]);
+  };
+
+  const toggleTransition = (index: number, targetKey: string) => {
+    const current = stages[index].allowedTransitions ?? [];
+    updateStage(index, {
+      allowedTransitions: current.includes(targetKey)
+        ? current.filter((key) => key !== targetKey)
+        : [...current, targetKey],
+    });
+  };
+
+  const handleSave = async () => {
+    const message = validatePipelineStages(stages);
+    setValidationError(message);
+    if (message) return;
+
+    try {
+      await dispatch(savePipeline({ name, stages, userContext })).unwrap();
+      alert("Hiring pipeline saved successfully!");
+    } catch (err) {
+      console.log("Error saving pipeline:", err);
+    }
+  };
+
+  const handleReset = () => {
+    if (!pipeline) return;
+    setName(pipeline.name);
+    setStages(pipeline.stages);
+    setValidationError(null);
+  };
+
+  if (loading && !pipeline) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-neutral-600">Loading pipeline...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="text-center mb-6">
+        <h2 className="font-semibold text-xl mb-4 text-neutral-900">
+          Hiring Pipeline
+        </h2>
+        <p className="text-neutral-500 text-sm mx-auto">
+          Define the stages an application moves through. Stages are shown in
+          this order on the candidates table and job boards.
+          {pipeline?.id === null &&
+            " Your organization is using the default pipeline."}
+        </p>
+      </div>
+
+      {(validationError || error) && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {validationError || error}
+        </div>
+      )}
+
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-neutral-700 mb-1">
+          Pipeline Name
+        </label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={!isAdmin}
+          className="w-full md:w-96 border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-neutral-50"
+        />
+      </div>
+
+      <div className="space-y-4">
+        {stages.map((stage, index) => (
+          <div
+            key={`${stage.key}-${index}`}
+            className="border border-neutral-200 rounded-lg p-4"
+          >
+            <div className="flex flex-wrap items-center gap-3">
+              <span
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  STAGE_COLOR_CLASSES[stage.color]
+                }`}
+              >
+                {index + 1}
+              </span>
+              <input
+                type="text"
+                value={stage.label}
+                onChange={(e) => handleLabelChange(index, e.target.value)}
+                disabled={!isAdmin}
+                aria-label="Stage name"
+                className="flex-1 min-w-40 border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-neutral-50"
+              />
+              <select
+                value={stage.category}
+                onChange={(e) =>
+                  updateStage(index, {
+                    category: e.target.value as PipelineStageCategory,
+                  })
+                }
+                disabled={!isAdmin}
+                aria-label="Stage category"
+                className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white disabled:bg-neutral-50"
+              >
+                {PIPELINE_STAGE_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {CATEGORY_LABELS[category]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={stage.color}
+                onChange={(e) =>
+                  updateStage(index, {
+                    color: e.target.value as PipelineStageColor,
+                  })
+                }
+                disabled={!isAdmin}
+                aria-label="Stage colour"
+                className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white capitalize disabled:bg-neutral-50"
+              >
+                {PIPELINE_STAGE_COLORS.map((color) => (
+                  <option key={color} value={color}>
+                    {color}
+                  </option>
+                ))}
+              </select>
+              {isAdmin && (
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveStage(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-neutral-600 hover:bg-neutral-100 rounded-md disabled:opacity-30 cursor-pointer"
+                    aria-label={`Move ${stage.label} up`}
+                  >
+                    <FaArrowUp className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveStage(index, 1)}
+                    disabled={index === stages.length - 1}
+                    className="p-2 text-neutral-600 hover:bg-neutral-100 rounded-md disabled:opacity-30 cursor-pointer"
+                    aria-label={`Move ${stage.label} down`}
+                  >
+                    <FaArrowDown className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeStage(index)}
+                    className="p-2 text-red-700 hover:bg-red-50 rounded-md cursor-pointer"
+                    aria-label={`Remove ${stage.label}`}
+                  >
+                    <FaRegTrashAlt className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-3 text-sm">
+              <label className="flex items-center gap-2 text-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={stage.allowedTransitions === null}
+                  disabled={!isAdmin}
+                  onChange={(e) =>
+                    updateStage(index, {
+                      allowedTransitions: e.target.checked ? null : [],
+                    })
+                  }
+                  className="rounded border-neutral-300"
+                />
+                Can move to any stage
+              </label>
+              {stage.allowedTransitions !== null && (
+                <div className="flex flex-wrap gap-3 mt-2 pl-6">
+                  {stages
+                    .filter((other) => other.key !== stage.key)
+                    .map((other) => (
+                      <label
+                        key={other.key}
+                        className="flex items-center gap-2 text-neutral-600"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={stage.allowedTransitions?.includes(
+                            other.key
+                          )}
+                          disabled={!isAdmin}
+                          onChange={() => toggleTransition(index, other.key)}
+                          className="rounded border-neutral-300"
+                        />
+                        {other.label}
+                      </label>
+                    ))}
+                  {stage.allowedTransitions.length === 0 && (
+                    <span className="text-neutral-400">
+                      Applications cannot leave this stage.
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isAdmin ? (
+        <div className="flex justify-between items-center mt-6">
+          <button
+            type="button"
+            onClick={addStage}
+            className="flex items-center border border-blue-600 justify-center gap-2 px-4 py-2 text-blue-600 rounded-lg hover:bg-blue-50 hover:text-blue-700 transition-colors cursor-pointer"
+          >
+            <FaPlus className="w-4 h-4" />
+            <span>Add Stage</span>
+          </button>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={saving}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-50 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm px-6 py-2 rounded-md transition-colors cursor-pointer disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Pipeline"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-500 mt-6 text-center">
+          Only admins can change the hiring pipeline.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { memo, useEffect, useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchRejectionBreakdown,
+  selectRejectionBreakdown,
+  selectRejectionBreakdownError,
+  selectRejectionBreakdownLoading,
+} from "@/store/features/dashboardSlice";
+import {
+  fetchRejectionReasons,
+  selectRejectionReasons,
+} from "@/store/features/rejectionReasonsSlice";
+import {
+  RejectionGrouping,
+  summarizeRejections,
+} from "@/utils/rejection-reasons";
+import { REJECTION_CATEGORY_LABELS } from "./rejection-reason-select";
+
+// Only the busiest jobs or companies fit in the chart
+const CHART_GROUP_LIMIT = 8;
+
+// Why applications end: rejections by us and withdrawals per job or company
+const RejectionBreakdownWidget = memo(
+  ({ userUuid, orgUuid }: { userUuid: string; orgUuid: string }) => {
+    const dispatch = useAppDispatch();
+    const rows = useAppSelector(selectRejectionBreakdown);
+    const loading = useAppSelector(selectRejectionBreakdownLoading);
+    const error = useAppSelector(selectRejectionBreakdownError);
+    const reasons = useAppSelector(selectRejectionReasons);
+    const [grouping, setGrouping] = useState<RejectionGrouping>("job");
+
+    useEffect(() => {
+      dispatch(fetchRejectionReasons(orgUuid));
+      dispatch(fetchRejectionBreakdown({ userUuid, orgUuid }));
+    }, [dispatch, userUuid, orgUuid]);
+
+    const summaries = useMemo(
+      () => summarizeRejections(rows, reasons, grouping),
+      [rows, reasons, grouping]
+    );
+
+    const chartData = useMemo(
+      () =>
+        summaries.slice(0, CHART_GROUP_LIMIT).map((summary) => ({
+          label: summary.label,
+          rejectedByUs: summary.byCategory.rejected_by_us,
+          candidateWithdrew: summary.byCategory.candidate_withdrew,
+        })),
+      [summaries]
+    );
+
+    return (
+      <div className="bg-white rounded-2xl shadow-sm p-6 mt-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-neutral-900">
+              Rejection Reasons
+            </h2>
+            <p className="text-sm text-neutral-500">
+              Why applications were rejected or withdrawn
+            </p>
+          </div>
+          <div className="flex rounded-md border border-neutral-300 overflow-hidden text-sm">
+            {(["job", "company"] as RejectionGrouping[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setGrouping(option)}
+                className={`px-3 py-1 cursor-pointer transition-colors ${
+                  grouping === option
+                    ? "bg-blue-600 text-white"
+                    : "bg-white text-neutral-700 hover:bg-neutral-50"
+                }`}
+              >
+                By {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : loading && summaries.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            Loading rejection reasons...
+          </p>
+        ) : summaries.length === 0 ? (
+          <p className="text-sm text-neutral-500">No rejections yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={chartData}
+                  margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis
+                    dataKey="label"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fill: "#9CA3AF" }}
+                  />
+                  <YAxis
+                    allowDecimals={false}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fill: "#9CA3AF" }}
+                  />
+                  <Tooltip />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Bar
+                    dataKey="rejectedByUs"
+                    name={REJECTION_CATEGORY_LABELS.rejected_by_us}
+                    stackId="rejections"
+                    fill="#EF4444"
+                  />
+                  <Bar
+                    dataKey="candidateWithdrew"
+                    name={REJECTION_CATEGORY_LABELS.candidate_withdrew}
+                    stackId="rejections"
+                    fill="#F59E0B"
+                    radius={[4, 4, 0, 0]}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <table className="w-full text-sm self-start">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                  <th className="py-2 font-medium capitalize">{grouping}</th>
+                  <th className="py-2 font-medium">Top reasons</th>
+                  <th className="py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map((summary) => (
+                  <tr
+                    key={summary.key || "unknown"}
+                    className="border-b border-neutral-100 last:border-0 align-top"
+                  >
+                    <td className="py-2 pr-3 text-neutral-800">
+                      {summary.label}
+                    </td>
+                    <td className="py-2 pr-3 text-neutral-600">
+                      {summary.reasons
+                        .slice(0, 3)
+                        .map(
+                          (reason) => `${reason.label} (${reason.rejections})`
+                        )
+                        .join(", ")}
+                    </td>
+                    <td className="py-2 text-right text-neutral-800">
+                      {summary.total}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+RejectionBreakdownWidget.displayName = "RejectionBreakdownWidget";
+
+export default RejectionBreakdownWidget;
@@ -0,0 +1,80 @@
+"use client";
+
+import { memo, useEffect } from "react";
+import { FaAngleDown } from "react-icons/fa6";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { selectUserContext } from "@/store/features/candidatesSlice";
+import {
+  fetchRejectionReasons,
+  selectRejectionReasons,
+} from "@/store/features/rejectionReasonsSlice";
+import {
+  REJECTION_REASON_CATEGORIES,
+  RejectionReasonCategory,
+} from "@/types/custom";
+
+export const REJECTION_CATEGORY_LABELS: Record<
+  RejectionReasonCategory,
+  string
+> = {
+  rejected_by_us: "Rejected by us",
+  candidate_withdrew: "Candidate withdrew",
+};
+
+// Required picker shown whenever an application moves to a rejected stage
+const RejectionReasonSelect = memo(
+  ({
+    value,
+    onChange,
+    disabled,
+    id,
+  }: {
+    value: string;
+    onChange: (reasonKey: string) => void;
+    disabled?: boolean;
+    id?: string;
+  }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+    const reasons = useAppSelector(selectRejectionReasons);
+
+    useEffect(() => {
+      if (userContext?.organizationId) {
+        dispatch(fetchRejectionReasons(userContext.organizationId));
+      }
+    }, [dispatch, userContext?.organizationId]);
+
+    return (
+      <div className="relative">
+        <select
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="w-full bg-white border border-neutral-300 rounded-md px-3 py-2 pr-8 text-sm text-neutral-800 focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none cursor-pointer disabled:opacity-50"
+        >
+          <option value="">Select a reason...</option>
+          {REJECTION_REASON_CATEGORIES.map((category) => (
+            <optgroup
+              key={category}
+              label={REJECTION_CATEGORY_LABELS[category]}
+            >
+              {reasons
+                .filter((reason) => reason.category === category)
+                .map((reason) => (
+                  <option key={reason.key} value={reason.key}>
+                    {reason.label}
+                  </option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+        <FaAngleDown className="absolute right-3 top-1/2 transform -translate-y-1/2 text-neutral-500 pointer-events-none" />
+      </div>
+    );
+  }
+);
+
+RejectionReasonSelect.displayName = "RejectionReasonSelect";
+
+export default RejectionReasonSelect;
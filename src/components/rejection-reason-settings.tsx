@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaArrowDown, FaArrowUp, FaPlus, FaRegTrashAlt } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchRejectionReasons,
+  saveRejectionReasons,
+  selectRejectionReasons,
+  selectRejectionReasonsCustomized,
+  selectRejectionReasonsError,
+  selectRejectionReasonsLoading,
+  selectRejectionReasonsSaving,
+  validateRejectionReasons,
+} from "@/store/features/rejectionReasonsSlice";
+import { toStageKey } from "@/store/features/pipelineSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import {
+  REJECTION_REASON_CATEGORIES,
+  RejectionReason,
+  RejectionReasonCategory,
+} from "@/types/custom";
+import { REJECTION_CATEGORY_LABELS } from "./rejection-reason-select";
+
+interface RejectionReasonSettingsProps {
+  userContext: UserContext;
+}
+
+export default function RejectionReasonSettings({
+  userContext,
+}: RejectionReasonSettingsProps) {
+  const dispatch = useAppDispatch();
+  const savedReasons = useAppSelector(selectRejectionReasons);
+  const customized = useAppSelector(selectRejectionReasonsCustomized);
+  const loading = useAppSelector(selectRejectionReasonsLoading);
+  const saving = useAppSelector(selectRejectionReasonsSaving);
+  const error = useAppSelector(selectRejectionReasonsError);
+
+  const isAdmin = userContext.roles.includes("admin");
+
+  const [reasons, setReasons] = useState<RejectionReason[]>(savedReasons);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchRejectionReasons(userContext.organizationId));
+  }, [dispatch, userContext.organizationId]);
+
+  // Reset the draft whenever a fresh catalogue is loaded or saved
+  useEffect(() => {
+    setReasons(savedReasons);
+    setValidationError(null);
+  }, [savedReasons]);
+
+  const updateReason = (index: number, updates: Partial<RejectionReason>) => {
+    setReasons((prev) =>
+      prev.map((reason, i) => (i === index ? { ...reason, ...updates } : reason))
+    );
+  };
+
+  const handleLabelChange = (index: number, label: string) => {
+    const previousKey = reasons[index].key;
+    // Saved reasons keep their key so rejected applications stay attached
+    const isSaved = savedReasons.some((reason) => reason.key === previousKey);
+    updateReason(index, {
+      label,
+      key: isSaved ? previousKey : toStageKey(label),
+    });
+  };
+
+  const moveReason = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= reasons.length) return;
+    setReasons((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next.map((reason, i) => ({ ...reason, position: i }));
+    });
+  };
+
+  const removeReason = (index: number) => {
+    setReasons((prev) =>
+      prev
+        .filter((_, i) => i !== index)
+        .map((reason, i) => ({ ...reason, position: i }))
+    );
+  };
+
+  const addReason = (category: RejectionReasonCategory) => {
+    setReasons((prev) => [
+      ...prev,
+      {
+        key: `reason_${prev.length + 1}`,
+        label: `Reason ${prev.length + 1}`,
+        category,
+        position: prev.length,
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const message = validateRejectionReasons(reasons);
+    setValidationError(message);
+    if (message) return;
+
+    try {
+      await dispatch(saveRejectionReasons({ reasons, userContext })).unwrap();
+      alert("Rejection reasons saved successfully!");
+    } catch (err) {
+      console.log("Error saving rejection reasons:", err);
+    }
+  };
+
+  const handleReset = () => {
+    setReasons(savedReasons);
+    setValidationError(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-neutral-600">
+          Loading rejection reasons...
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="text-center mb-6">
+        <h2 className="font-semibold text-xl mb-4 text-neutral-900">
+          Rejection Reasons
+        </h2>
+        <p className="text-neutral-500 text-sm mx-auto">
+          Moving an application to a rejected stage asks for one of these
+          reasons. They feed the rejection breakdown on the dashboard.
+          {!customized &&
+            " Your organization is using the default reasons."}
+        </p>
+      </div>
+
+      {(validationError || error) && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {validationError || error}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {REJECTION_REASON_CATEGORIES.map((category) => (
+          <div key={category}>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-neutral-800">
+                {REJECTION_CATEGORY_LABELS[category]}
+              </h3>
+              {isAdmin && (
+                <button
+                  type="button"
+                  onClick={() => addReason(category)}
+                  className="flex items-center gap-2 px-3 py-1 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 transition-colors cursor-pointer"
+                >
+                  <FaPlus className="w-3 h-3" />
+                  Add Reason
+                </button>
+              )}
+            </div>
+            <div className="space-y-2">
+              {reasons.map((reason, index) =>
+                reason.category !== category ? null : (
+                  <div
+                    key={`${reason.key}-${index}`}
+                    className="flex flex-wrap items-center gap-3 border border-neutral-200 rounded-lg p-3"
+                  >
+                    <input
+                      type="text"
+                      value={reason.label}
+                      onChange={(e) => handleLabelChange(index, e.target.value)}
+                      disabled={!isAdmin}
+                      aria-label="Reason name"
+                      className="flex-1 min-w-40 border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-neutral-50"
+                    />
+                    <select
+                      value={reason.category}
+                      onChange={(e) =>
+                        updateReason(index, {
+                          category: e.target.value as RejectionReasonCategory,
+                        })
+                      }
+                      disabled={!isAdmin}
+                      aria-label="Reason category"
+                      className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white disabled:bg-neutral-50"
+                    >
+                      {REJECTION_REASON_CATEGORIES.map((option) => (
+                        <option key={option} value={option}>
+                          {REJECTION_CATEGORY_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    {isAdmin && (
+                      <div className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          onClick={() => moveReason(index, -1)}
+                          disabled={index === 0}
+                          className="p-2 text-neutral-600 hover:bg-neutral-100 rounded-md disabled:opacity-30 cursor-pointer"
+                          aria-label={`Move ${reason.label} up`}
+                        >
+                          <FaArrowUp className="w-3 h-3" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveReason(index, 1)}
+                          disabled={index === reasons.length - 1}
+                          className="p-2 text-neutral-600 hover:bg-neutral-100 rounded-md disabled:opacity-30 cursor-pointer"
+                          aria-label={`Move ${reason.label} down`}
+                        >
+                          <FaArrowDown className="w-3 h-3" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeReason(index)}
+                          className="p-2 text-red-700 hover:bg-red-50 rounded-md cursor-pointer"
+                          aria-label={`Remove ${reason.label}`}
+                        >
+                          <FaRegTrashAlt className="w-3 h-3" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isAdmin ? (
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={saving}
+            className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-50 transition-colors cursor-pointer disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm px-6 py-2 rounded-md transition-colors cursor-pointer disabled:cursor-not-allowed"
+          >
+            {saving ? "Saving..." : "Save Reasons"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-500 mt-6 text-center">
+          Only admins can change the rejection reasons.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+"use client";
+
+import { memo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  CandidateWithApplication,
+  Education,
+  Experience,
+  importResumeRecords,
+  selectUserContext,
+} from "@/store/features/candidatesSlice";
+import { parseCandidateResume } from "@/app/candidates/actions";
+import { ParsedEducation, ParsedExperience } from "@/types/custom";
+
+interface ReviewRow<T> {
+  entry: T;
+  selected: boolean;
+  existing: boolean; // Already on the profile
+}
+
+const normalize = (value: string | null | undefined) =>
+  (value || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isKnownExperience = (entry: ParsedExperience, existing: Experience[]) =>
+  existing.some(
+    (row) =>
+      normalize(row.company_name) === normalize(entry.companyName) &&
+      normalize(row.job_title) === normalize(entry.jobTitle)
+  );
+
+const isKnownEducation = (entry: ParsedEducation, existing: Education[]) =>
+  existing.some(
+    (row) =>
+      normalize(row.college_university) === normalize(entry.institution) &&
+      (!entry.degree || normalize(row.degree) === normalize(entry.degree))
+  );
+
+// <input type="month"> works with YYYY-MM, records keep the first of the month
+const toMonthValue = (date: string | null) => (date ? date.slice(0, 7) : "");
+const fromMonthValue = (value: string) => (value ? `${value}-01` : null);
+
+const inputClass =
+  "border border-neutral-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-neutral-50 disabled:text-neutral-400";
+
+const StatusPill = ({ existing }: { existing: boolean }) => (
+  <span
+    className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${
+      existing ? "bg-neutral-100 text-neutral-600" : "bg-green-100 text-green-700"
+    }`}
+  >
+    {existing ? "Already on profile" : "New"}
+  </span>
+);
+
+// Parses the candidate's resume and lets the reviewer pick what to add
+const ResumeImport = memo(
+  ({
+    candidate,
+    onImported,
+  }: {
+    candidate: CandidateWithApplication;
+    onImported: (experience: Experience[], education: Education[]) => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const userContext = useAppSelector(selectUserContext);
+
+    const [parsing, setParsing] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [experienceRows, setExperienceRows] = useState<
+      ReviewRow<ParsedExperience>[] | null
+    >(null);
+    const [educationRows, setEducationRows] = useState<
+      ReviewRow<ParsedEducation>[]
+    >([]);
+
+    if (!candidate.resume_link || candidate.hasAccess === false) return null;
+
+    const handleParse = async () => {
+      setParsing(true);
+      setError(null);
+      const result = await parseCandidateResume(candidate.id);
+      setParsing(false);
+
+      if (result.error || !result.success) {
+        setError(result.error || "Failed to parse resume");
+        return;
+      }
+
+      setExperienceRows(
+        result.success.experience.map((entry) => {
+          const existing = isKnownExperience(entry, candidate.experience || []);
+          return { entry, existing, selected: !existing };
+        })
+      );
+      setEducationRows(
+        result.success.education.map((entry) => {
+          const existing = isKnownEducation(entry, candidate.education || []);
+          return { entry, existing, selected: !existing };
+        })
+      );
+    };
+
+    const handleDiscard = () => {
+      setExperienceRows(null);
+      setEducationRows([]);
+      setError(null);
+    };
+
+    const updateExperience = (
+      index: number,
+      change: { selected?: boolean; entry?: Partial<ParsedExperience> }
+    ) =>
+      setExperienceRows((rows) =>
+        (rows || []).map((row, i) =>
+          i === index
+            ? { ...row, ...change, entry: { ...row.entry, ...change.entry } }
+            : row
+        )
+      );
+
+    const updateEducation = (
+      index: number,
+      change: { selected?: boolean; entry?: Partial<ParsedEducation> }
+    ) =>
+      setEducationRows((rows) =>
+        rows.map((row, i) =>
+          i === index
+            ? { ...row, ...change, entry: { ...row.entry, ...change.entry } }
+            : row
+        )
+      );
+
+    const selectedExperience = (experienceRows || [])
+      .filter((row) => row.selected)
+      .map((row) => row.entry);
+    const selectedEducation = educationRows
+      .filter((row) => row.selected)
+      .map((row) => row.entry);
+    const selectedCount = selectedExperience.length + selectedEducation.length;
+
+    const handleImport = async () => {
+      if (!userContext || selectedCount === 0) return;
+      setSaving(true);
+      setError(null);
+      try {
+        const result = await dispatch(
+          importResumeRecords({
+            applicationId: candidate.application_id,
+            candidateId: candidate.id,
+            experience: selectedExperience,
+            education: selectedEducation,
+            userContext,
+          })
+        ).unwrap();
+        onImported(result.experience, result.education);
+        handleDiscard();
+      } catch (err) {
+        setError(typeof err === "string" ? err : "Failed to import resume");
+      } finally {
+        setSaving(false);
+      }
+    };
+
+    return (
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <div className="font-semibold text-lg text-blue-700">
+            Import from Resume
+          </div>
+          {!experienceRows && (
+            <button
+              type="button"
+              onClick={handleParse}
+              disabled={parsing}
+              className="px-4 py-2 text-sm border border-neutral-300 bg-white rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {parsing ? "Parsing..." : "Parse resume"}
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        {!experienceRows ? (
+          <p className="text-sm text-neutral-600">
+            Read employers, titles, degrees and institutions from the resume
+            and review them before they are added.
+          </p>
+        ) : experienceRows.length === 0 && educationRows.length === 0 ? (
+          <div className="flex items-center justify-between text-sm text-neutral-600">
+            <span>No experience or education found in this resume.</span>
+            <button
+              type="button"
+              onClick={handleDiscard}
+              className="text-blue-600 hover:underline cursor-pointer"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {experienceRows.length > 0 && (
+              <div>
+                <div className="font-medium text-sm text-neutral-800 mb-2">
+                  Experience
+                </div>
+                <div className="space-y-2">
+                  {experienceRows.map((row, index) => (
+                    <div
+                      key={index}
+                      className={`flex flex-wrap items-center gap-2 p-2 rounded-md border ${
+                        row.selected
+                          ? "border-green-200 bg-green-50/50"
+                          : "border-neutral-200"
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={row.selected}
+                        onChange={(e) =>
+                          updateExperience(index, { selected: e.target.checked })
+                        }
+                        aria-label="Add this experience"
+                        className="cursor-pointer"
+                      />
+                      <input
+                        type="text"
+                        value={row.entry.jobTitle}
+                        onChange={(e) =>
+                          updateExperience(index, {
+                            entry: { jobTitle: e.target.value },
+                          })
+                        }
+                        disabled={!row.selected}
+                        placeholder="Job title"
+                        className={`${inputClass} flex-1 min-w-36`}
+                      />
+                      <input
+                        type="text"
+                        value={row.entry.companyName}
+                        onChange={(e) =>
+                          updateExperience(index, {
+                            entry: { companyName: e.target.value },
+                          })
+                        }
+                        disabled={!row.selected}
+                        placeholder="Company"
+                        className={`${inputClass} flex-1 min-w-36`}
+                      />
+                      <input
+                        type="month"
+                        value={toMonthValue(row.entry.startDate)}
+                        onChange={(e) =>
+                          updateExperience(index, {
+                            entry: { startDate: fromMonthValue(e.target.value) },
+                          })
+                        }
+                        disabled={!row.selected}
+                        aria-label="Start date"
+                        className={inputClass}
+                      />
+                      <input
+                        type="month"
+                        value={toMonthValue(row.entry.endDate)}
+                        onChange={(e) =>
+                          updateExperience(index, {
+                            entry: { endDate: fromMonthValue(e.target.value) },
+                          })
+                        }
+                        disabled={!row.selected || row.entry.currentlyWorking}
+                        aria-label="End date"
+                        className={inputClass}
+                      />
+                      <label className="flex items-center gap-1 text-xs text-neutral-600">
+                        <input
+                          type="checkbox"
+                          checked={row.entry.currentlyWorking}
+                          onChange={(e) =>
+                            updateExperience(index, {
+                              entry: { currentlyWorking: e.target.checked },
+                            })
+                          }
+                          disabled={!row.selected}
+                        />
+                        Current
+                      </label>
+                      <StatusPill existing={row.existing} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {educationRows.length > 0 && (
+              <div>
+                <div className="font-medium text-sm text-neutral-800 mb-2">
+                  Education
+                </div>
+                <div className="space-y-2">
+                  {educationRows.map((row, index) => (
+                    <div
+                      key={index}
+                      className={`flex flex-wrap items-center gap-2 p-2 rounded-md border ${
+                        row.selected
+                          ? "border-green-200 bg-green-50/50"
+                          : "border-neutral-200"
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={row.selected}
+                        onChange={(e) =>
+                          updateEducation(index, { selected: e.target.checked })
+                        }
+                        aria-label="Add this education"
+                        className="cursor-pointer"
+                      />
+                      <input
+                        type="text"
+                        value={row.entry.degree || ""}
+                        onChange={(e) =>
+                          updateEducation(index, {
+                            entry: { degree: e.target.value },
+                          })
+                        }
+                        disabled={!row.selected}
+                        placeholder="Degree"
+                        className={`${inputClass} flex-1 min-w-32`}
+                      />
+                      <input
+                        type="text"
+                        value={row.entry.fieldOfStudy || ""}
+                        onChange={(e) =>
+                          updateEducation(index, {
+                            entry: { fieldOfStudy: e.target.value },
+                          })
+                        }
+                        disabled={!row.selected}
+                        placeholder="Field of study"
+                        className={`${inputClass} flex-1 min-w-32`}
+                      />
+                      <input
+                        type="text"
+                        value={row.entry.institution}
+                        onChange={(e) =>
+                          updateEducation(index, {
+                            entry: { institution: e.target.value },
+                          })
+                        }
+                        disabled={!row.selected}
+                        placeholder="Institution"
+                        className={`${inputClass} flex-1 min-w-36`}
+                      />
+                      <input
+                        type="month"
+                        value={toMonthValue(row.entry.startDate)}
+                        onChange={(e) =>
+                          updateEducation(index, {
+                            entry: { startDate: fromMonthValue(e.target.value) },
+                          })
+                        }
+                        disabled={!row.selected}
+                        aria-label="Start date"
+                        className={inputClass}
+                      />
+                      <input
+                        type="month"
+                        value={toMonthValue(row.entry.endDate)}
+                        onChange={(e) =>
+                          updateEducation(index, {
+                            entry: { endDate: fromMonthValue(e.target.value) },
+                          })
+                        }
+                        disabled={!row.selected || row.entry.isCurrent}
+                        aria-label="End date"
+                        className={inputClass}
+                      />
+                      <StatusPill existing={row.existing} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={handleDiscard}
+                disabled={saving}
+                className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={saving || selectedCount === 0}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {saving ? "Adding..." : `Add selected (${selectedCount})`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+ResumeImport.displayName = "ResumeImport";
+
+export default ResumeImport;
@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchRetentionPolicy,
+  saveRetentionPolicy,
+  selectRetentionError,
+  selectRetentionLoading,
+  selectRetentionPolicy,
+  selectRetentionSaving,
+  setRetentionLastRun,
+  validateRetentionPolicy,
+} from "@/store/features/retentionSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import {
+  RETENTION_MONTHS_MAX,
+  RETENTION_MONTHS_MIN,
+  RetentionPolicy,
+} from "@/types/custom";
+import { applyRetentionPolicy } from "@/app/candidates/actions";
+
+// Organization policy for anonymizing candidates with no recent activity
+export default function RetentionSettings({
+  userContext,
+}: {
+  userContext: UserContext;
+}) {
+  const dispatch = useAppDispatch();
+  const policy = useAppSelector(selectRetentionPolicy);
+  const loading = useAppSelector(selectRetentionLoading);
+  const saving = useAppSelector(selectRetentionSaving);
+  const error = useAppSelector(selectRetentionError);
+
+  const isAdmin = userContext.roles.includes("admin");
+
+  const [draft, setDraft] = useState<RetentionPolicy>(policy);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [runMessage, setRunMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchRetentionPolicy(userContext.organizationId));
+  }, [dispatch, userContext.organizationId]);
+
+  // Reset the draft whenever a fresh policy is loaded or saved
+  useEffect(() => {
+    setDraft(policy);
+    setValidationError(null);
+  }, [policy]);
+
+  const isDirty =
+    draft.enabled !== policy.enabled ||
+    draft.retentionMonths !== policy.retentionMonths;
+
+  const handleSave = async () => {
+    const message = validateRetentionPolicy(draft);
+    setValidationError(message);
+    if (message) return;
+
+    try {
+      await dispatch(
+        saveRetentionPolicy({ policy: draft, userContext })
+      ).unwrap();
+      alert("Retention policy saved successfully!");
+    } catch (err) {
+      console.log("Error saving retention policy:", err);
+    }
+  };
+
+  // Works through every inactive candidate, one batch per call
+  const handleRunNow = async () => {
+    if (
+      !window.confirm(
+        `Anonymize every candidate with no activity in the last ${policy.retentionMonths} months? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setRunning(true);
+    setRunMessage(null);
+    let anonymized = 0;
+    let failed = 0;
+    try {
+      let after: string | null = null;
+      do {
+        const result = await applyRetentionPolicy(
+          userContext.organizationId,
+          after
+        );
+        if (result.error || !result.success) {
+          setRunMessage(result.error || "Failed to apply retention policy");
+          return;
+        }
+        anonymized += result.success.anonymized;
+        failed += result.success.failed;
+        dispatch(setRetentionLastRun(result.success.lastRunAt));
+        after = result.success.next;
+      } while (after);
+      setRunMessage(
+        `${anonymized} candidate${anonymized === 1 ? "" : "s"} anonymized${
+          failed > 0 ? `, ${failed} failed` : ""
+        }.`
+      );
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-neutral-600">
+          Loading retention policy...
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="text-center mb-6">
+        <h2 className="font-semibold text-xl mb-4 text-neutral-900">
+          Data Retention
+        </h2>
+        <p className="text-neutral-500 text-sm mx-auto">
+          Candidates with no profile or application activity for the set
+          number of months are anonymized: their personal details, resume,
+          notes and work history are removed. Applications and their statuses
+          are kept, so dashboard counts stay the same.
+        </p>
+      </div>
+
+      {(validationError || error) && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {validationError || error}
+        </div>
+      )}
+
+      <div className="border border-neutral-200 rounded-lg p-4 space-y-4">
+        <label className="flex items-center gap-3 text-sm font-medium text-neutral-900">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, enabled: e.target.checked }))
+            }
+            disabled={!isAdmin}
+            className="rounded border-neutral-300"
+          />
+          Anonymize inactive candidates
+        </label>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label
+            htmlFor="retention-months"
+            className="text-sm text-neutral-700"
+          >
+            After
+          </label>
+          <input
+            id="retention-months"
+            type="number"
+            min={RETENTION_MONTHS_MIN}
+            max={RETENTION_MONTHS_MAX}
+            step={1}
+            value={draft.retentionMonths}
+            onChange={(e) =>
+              setDraft((prev) => ({
+                ...prev,
+                retentionMonths: Number(e.target.value),
+              }))
+            }
+            disabled={!isAdmin}
+            className="w-24 border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-neutral-100"
+          />
+          <span className="text-sm text-neutral-700">
+            months without activity
+          </span>
+        </div>
+
+        <p className="text-xs text-neutral-500">
+          {policy.lastRunAt
+            ? `Last applied ${new Date(policy.lastRunAt).toLocaleString()}.`
+            : "The policy has not been applied yet."}{" "}
+          It is applied daily while enabled, or when an admin chooses Apply Now.
+        </p>
+      </div>
+
+      {runMessage && (
+        <p className="text-sm text-neutral-700 mt-4">{runMessage}</p>
+      )}
+
+      {isAdmin ? (
+        <div className="flex justify-between items-center mt-6">
+          <button
+            type="button"
+            onClick={handleRunNow}
+            disabled={running || saving || !policy.enabled || isDirty}
+            title={
+              isDirty ? "Save the policy before applying it" : undefined
+            }
+            className="px-4 py-2 text-sm text-red-700 border border-red-300 rounded-md hover:bg-red-50 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running ? "Applying..." : "Apply Now"}
+          </button>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setDraft(policy)}
+              disabled={saving || running}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-50 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || running}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm px-6 py-2 rounded-md transition-colors cursor-pointer disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Policy"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-500 mt-6 text-center">
+          Only admins can change the retention policy.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { memo, useState } from "react";
+import { FaRegStar, FaStar } from "react-icons/fa";
+import { FiLock, FiPlus, FiUsers } from "react-icons/fi";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  CandidateFilters,
+  UserContext,
+} from "@/store/features/candidatesSlice";
+import {
+  CandidateSavedView,
+  SAVED_VIEW_NAME_MAX_LENGTH,
+  canDeleteSavedView,
+  canEditSavedView,
+  cleanViewFilters,
+  deleteSavedView,
+  saveSavedView,
+  selectActiveSavedViewId,
+  selectDefaultSavedViewId,
+  selectSavedViews,
+  selectSavedViewsError,
+  selectSavedViewsSaving,
+  setDefaultSavedView,
+} from "@/store/features/savedViewsSlice";
+import { SavedViewColumn } from "@/types/custom";
+
+interface SavedViewsBarProps {
+  userContext: UserContext;
+  filters: Partial<CandidateFilters>;
+  columns: SavedViewColumn[];
+  onApplyView: (view: CandidateSavedView | null) => void;
+}
+
+const sameColumns = (a: SavedViewColumn[], b: SavedViewColumn[]) =>
+  JSON.stringify(a.map(({ key, visible }) => ({ key, visible }))) ===
+  JSON.stringify(b.map(({ key, visible }) => ({ key, visible })));
+
+// Saved filter, sort and column combinations shown as tabs above the
+// candidates table
+const SavedViewsBar = memo(
+  ({ userContext, filters, columns, onApplyView }: SavedViewsBarProps) => {
+    const dispatch = useAppDispatch();
+    const views = useAppSelector(selectSavedViews);
+    const activeViewId = useAppSelector(selectActiveSavedViewId);
+    const defaultViewId = useAppSelector(selectDefaultSavedViewId);
+    const saving = useAppSelector(selectSavedViewsSaving);
+    const error = useAppSelector(selectSavedViewsError);
+
+    const [showForm, setShowForm] = useState(false);
+    const [name, setName] = useState("");
+    const [shared, setShared] = useState(false);
+    const [makeDefault, setMakeDefault] = useState(false);
+
+    const activeView = views.find((view) => view.id === activeViewId) || null;
+    const isModified =
+      !!activeView &&
+      (JSON.stringify(cleanViewFilters(filters)) !==
+        JSON.stringify(activeView.filters) ||
+        (activeView.columns.length > 0 &&
+          !sameColumns(columns, activeView.columns)));
+
+    const resetForm = () => {
+      setShowForm(false);
+      setName("");
+      setShared(false);
+      setMakeDefault(false);
+    };
+
+    const handleSaveNew = async (e: React.FormEvent) => {
+      e.preventDefault();
+      try {
+        const view = await dispatch(
+          saveSavedView({
+            name,
+            visibility: shared ? "organization" : "private",
+            filters,
+            columns,
+            userContext,
+          })
+        ).unwrap();
+        if (makeDefault) {
+          await dispatch(
+            setDefaultSavedView({ viewId: view.id, userContext })
+          ).unwrap();
+        }
+        resetForm();
+      } catch (err) {
+        console.log("Failed to save view:", err);
+      }
+    };
+
+    const handleUpdate = async (view: CandidateSavedView) => {
+      try {
+        await dispatch(
+          saveSavedView({
+            viewId: view.id,
+            name: view.name,
+            visibility: view.visibility,
+            filters,
+            columns,
+            userContext,
+          })
+        ).unwrap();
+      } catch (err) {
+        console.log("Failed to update view:", err);
+      }
+    };
+
+    const handleToggleShared = async (view: CandidateSavedView) => {
+      try {
+        await dispatch(
+          saveSavedView({
+            viewId: view.id,
+            name: view.name,
+            visibility:
+              view.visibility === "organization" ? "private" : "organization",
+            filters: view.filters,
+            columns: view.columns,
+            userContext,
+          })
+        ).unwrap();
+      } catch (err) {
+        console.log("Failed to change view sharing:", err);
+      }
+    };
+
+    const handleDelete = async (view: CandidateSavedView) => {
+      if (
+        !window.confirm(
+          view.visibility === "organization"
+            ? `Delete the shared view "${view.name}" for everyone in the organization?`
+            : `Delete the view "${view.name}"?`
+        )
+      ) {
+        return;
+      }
+      try {
+        await dispatch(deleteSavedView({ view, userContext })).unwrap();
+        onApplyView(null);
+      } catch (err) {
+        console.log("Failed to delete view:", err);
+      }
+    };
+
+    const tabClasses = (active: boolean) =>
+      `flex items-center gap-1.5 px-4 py-2 text-sm font-medium whitespace-nowrap transition-colors cursor-pointer ${
+        active
+          ? "border-b-4 border-blue-600 text-neutral-800"
+          : "text-neutral-500 hover:text-neutral-700 hover:bg-neutral-50"
+      }`;
+
+    return (
+      <div className="mb-4">
+        <div className="flex items-end gap-2 border-b border-neutral-200 overflow-x-auto">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={!activeView}
+            onClick={() => onApplyView(null)}
+            className={tabClasses(!activeView)}
+          >
+            All candidates
+          </button>
+          {views.map((view) => (
+            <button
+              key={view.id}
+              type="button"
+              role="tab"
+              aria-selected={view.id === activeViewId}
+              onClick={() => onApplyView(view)}
+              className={tabClasses(view.id === activeViewId)}
+              title={
+                view.visibility === "organization"
+                  ? `Shared by ${view.authorName || "a teammate"}`
+                  : "Only visible to you"
+              }
+            >
+              {view.visibility === "organization" ? (
+                <FiUsers className="w-3.5 h-3.5" />
+              ) : (
+                <FiLock className="w-3.5 h-3.5" />
+              )}
+              {view.name}
+              {view.id === defaultViewId && (
+                <FaStar
+                  className="w-3 h-3 text-yellow-500"
+                  aria-label="Default view"
+                />
+              )}
+              {view.id === activeViewId && isModified && (
+                <span
+                  className="w-2 h-2 bg-yellow-500 rounded-full inline-block"
+                  aria-label="Unsaved changes"
+                ></span>
+              )}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 font-medium hover:underline whitespace-nowrap cursor-pointer"
+          >
+            <FiPlus className="w-4 h-4" />
+            Save view
+          </button>
+        </div>
+
+        {activeView && (
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-sm">
+            {activeView.visibility === "organization" &&
+              !canEditSavedView(activeView, userContext) && (
+                <span className="text-neutral-500">
+                  Shared by {activeView.authorName || "a teammate"}
+                </span>
+              )}
+            {isModified && canEditSavedView(activeView, userContext) && (
+              <button
+                type="button"
+                onClick={() => handleUpdate(activeView)}
+                disabled={saving}
+                className="text-blue-600 font-medium hover:underline cursor-pointer disabled:opacity-50"
+              >
+                Save changes to view
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                dispatch(
+                  setDefaultSavedView({
+                    viewId:
+                      activeView.id === defaultViewId ? null : activeView.id,
+                    userContext,
+                  })
+                )
+              }
+              disabled={saving}
+              className="flex items-center gap-1 text-neutral-600 hover:underline cursor-pointer disabled:opacity-50"
+            >
+              {activeView.id === defaultViewId ? (
+                <>
+                  <FaStar className="w-3 h-3 text-yellow-500" />
+                  Remove as default
+                </>
+              ) : (
+                <>
+                  <FaRegStar className="w-3 h-3" />
+                  Open by default
+                </>
+              )}
+            </button>
+            {canEditSavedView(activeView, userContext) && (
+              <button
+                type="button"
+                onClick={() => handleToggleShared(activeView)}
+                disabled={saving}
+                className="text-neutral-600 hover:underline cursor-pointer disabled:opacity-50"
+              >
+                {activeView.visibility === "organization"
+                  ? "Make private"
+                  : "Share with organization"}
+              </button>
+            )}
+            {canDeleteSavedView(activeView, userContext) && (
+              <button
+                type="button"
+                onClick={() => handleDelete(activeView)}
+                disabled={saving}
+                className="text-red-600 hover:underline cursor-pointer disabled:opacity-50"
+              >
+                Delete view
+              </button>
+            )}
+          </div>
+        )}
+
+        {showForm && (
+          <form
+            onSubmit={handleSaveNew}
+            className="flex flex-wrap items-center gap-3 mt-3 p-3 bg-neutral-50 border border-neutral-200 rounded-lg"
+          >
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={SAVED_VIEW_NAME_MAX_LENGTH}
+              placeholder="View name"
+              aria-label="View name"
+              autoFocus
+              className="flex-1 min-w-48 border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <label className="flex items-center gap-2 text-sm text-neutral-700">
+              <input
+                type="checkbox"
+                checked={shared}
+                onChange={(e) => setShared(e.target.checked)}
+                className="rounded border-neutral-300"
+              />
+              Share with organization
+            </label>
+            <label className="flex items-center gap-2 text-sm text-neutral-700">
+              <input
+                type="checkbox"
+                checked={makeDefault}
+                onChange={(e) => setMakeDefault(e.target.checked)}
+                className="rounded border-neutral-300"
+              />
+              Open by default
+            </label>
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-sm border border-neutral-300 bg-white rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <p className="w-full text-xs text-neutral-500">
+              Saves the current filters, sort and visible columns. The search
+              box is not included.
+            </p>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+    );
+  }
+);
+
+SavedViewsBar.displayName = "SavedViewsBar";
+
+export default SavedViewsBar;
@@ -0,0 +1,256 @@
+"use client";
+
+import { memo, useState } from "react";
+import { IoCloseSharp } from "react-icons/io5";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  RECOMMENDATION_LABELS,
+  selectScorecardsSaving,
+  submitScorecard,
+} from "@/store/features/scorecardsSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import {
+  Interview,
+  SCORECARD_RATING_MAX,
+  SCORECARD_RATING_MIN,
+  SCORECARD_RECOMMENDATIONS,
+  Scorecard,
+  ScorecardCompetency,
+  ScorecardRecommendation,
+} from "@/types/custom";
+
+const RATING_VALUES = Array.from(
+  { length: SCORECARD_RATING_MAX - SCORECARD_RATING_MIN + 1 },
+  (_, index) => SCORECARD_RATING_MIN + index
+);
+
+// Submit or edit the current user's scorecard for an application
+const ScorecardForm = memo(
+  ({
+    applicationId,
+    competencies,
+    interviews,
+    scorecard,
+    userContext,
+    onClose,
+  }: {
+    applicationId: string;
+    competencies: ScorecardCompetency[];
+    interviews: Interview[];
+    scorecard?: Scorecard | null;
+    userContext: UserContext;
+    onClose: () => void;
+  }) => {
+    const dispatch = useAppDispatch();
+    const saving = useAppSelector(selectScorecardsSaving);
+
+    const [ratings, setRatings] = useState<Record<string, number>>(() =>
+      Object.fromEntries(
+        (scorecard?.ratings || []).map((rating) => [
+          rating.competencyId,
+          rating.rating,
+        ])
+      )
+    );
+    const [recommendation, setRecommendation] = useState<
+      ScorecardRecommendation | ""
+    >(scorecard?.recommendation || "");
+    const [interviewId, setInterviewId] = useState(
+      scorecard?.interviewId || ""
+    );
+    const [notes, setNotes] = useState(scorecard?.notes || "");
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setFormError(null);
+
+      const missing = competencies.find((competency) => !ratings[competency.id]);
+      if (missing) {
+        setFormError(`Rate "${missing.name}" before submitting.`);
+        return;
+      }
+      if (!recommendation) {
+        setFormError("Choose a hire or no-hire recommendation.");
+        return;
+      }
+
+      try {
+        await dispatch(
+          submitScorecard({
+            applicationId,
+            scorecardId: scorecard?.id,
+            interviewId: interviewId || null,
+            ratings: competencies.map((competency) => ({
+              competencyId: competency.id,
+              competencyName: competency.name,
+              rating: ratings[competency.id],
+            })),
+            recommendation,
+            notes,
+            userContext,
+          })
+        ).unwrap();
+        onClose();
+      } catch (err) {
+        setFormError(
+          typeof err === "string" ? err : "Failed to submit scorecard"
+        );
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/40 p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 relative"
+        >
+          <button
+            type="button"
+            onClick={onClose}
+            className="absolute top-4 right-4 cursor-pointer"
+            aria-label="Close"
+          >
+            <IoCloseSharp className="w-6 h-6 text-neutral-800" />
+          </button>
+
+          <h2 className="text-lg font-semibold text-neutral-900 mb-4">
+            {scorecard ? "Edit Scorecard" : "Submit Scorecard"}
+          </h2>
+
+          {formError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {formError}
+            </div>
+          )}
+
+          <div className="space-y-5">
+            {interviews.length > 0 && (
+              <label className="block">
+                <span className="text-sm font-medium text-neutral-700">
+                  Interview
+                </span>
+                <select
+                  value={interviewId}
+                  onChange={(e) => setInterviewId(e.target.value)}
+                  className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white"
+                >
+                  <option value="">Not linked to an interview</option>
+                  {interviews.map((interview) => (
+                    <option key={interview.id} value={interview.id}>
+                      {interview.roundName}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {competencies.length === 0 ? (
+              <p className="text-sm text-neutral-500">
+                This job has no rubric yet, so only a recommendation is
+                recorded.
+              </p>
+            ) : (
+              competencies.map((competency) => (
+                <div key={competency.id}>
+                  <div className="text-sm font-medium text-neutral-800">
+                    {competency.name}
+                  </div>
+                  {competency.description && (
+                    <p className="text-xs text-neutral-500">
+                      {competency.description}
+                    </p>
+                  )}
+                  <div className="flex gap-2 mt-2">
+                    {RATING_VALUES.map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() =>
+                          setRatings((prev) => ({
+                            ...prev,
+                            [competency.id]: value,
+                          }))
+                        }
+                        className={`w-9 h-9 rounded-md border text-sm font-medium cursor-pointer transition-colors ${
+                          ratings[competency.id] === value
+                            ? "bg-blue-600 border-blue-600 text-white"
+                            : "border-neutral-300 text-neutral-700 hover:bg-neutral-100"
+                        }`}
+                        aria-label={`${competency.name}: ${value}`}
+                      >
+                        {value}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+
+            <div>
+              <div className="text-sm font-medium text-neutral-800 mb-2">
+                Recommendation
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {SCORECARD_RECOMMENDATIONS.map((value) => (
+                  <label
+                    key={value}
+                    className={`flex items-center gap-2 px-3 py-2 border rounded-md text-sm cursor-pointer ${
+                      recommendation === value
+                        ? "border-blue-600 bg-blue-50"
+                        : "border-neutral-300"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="recommendation"
+                      value={value}
+                      checked={recommendation === value}
+                      onChange={() => setRecommendation(value)}
+                    />
+                    {RECOMMENDATION_LABELS[value]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="block">
+              <span className="text-sm font-medium text-neutral-700">
+                Notes
+              </span>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={4}
+                maxLength={5000}
+                placeholder="Evidence for your ratings"
+                className="mt-1 w-full border border-neutral-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Submit"}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+);
+
+ScorecardForm.displayName = "ScorecardForm";
+
+export default ScorecardForm;
@@ -0,0 +1,29 @@
+import { memo } from "react";
+
+// Resume excerpt from search results; matched words arrive wrapped in <b></b>
+const SearchSnippet = memo(({ snippet }: { snippet: string }) => {
+  const parts = snippet.split(/(<b>[\s\S]*?<\/b>)/g).filter(Boolean);
+
+  return (
+    <p className="text-xs text-neutral-500 mt-1 max-w-md line-clamp-2">
+      <span className="text-neutral-400">Resume: </span>…
+      {parts.map((part, index) =>
+        part.startsWith("<b>") && part.endsWith("</b>") ? (
+          <mark
+            key={index}
+            className="bg-yellow-100 text-neutral-900 rounded px-0.5"
+          >
+            {part.slice(3, -4)}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+      …
+    </p>
+  );
+});
+
+SearchSnippet.displayName = "SearchSnippet";
+
+export default SearchSnippet;
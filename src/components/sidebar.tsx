@@ -1,15 +1,27 @@
 "use client";
+import { useEffect } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { BiHomeAlt } from "react-icons/bi";
 import { BsBriefcase } from "react-icons/bs";
 import { GoPeople, GoGear, GoPerson } from "react-icons/go";
 import { HiOutlineChatAlt2 } from "react-icons/hi";
+import { MdMenu, MdOutlineEventNote } from "react-icons/md";
 import { FiSidebar } from "react-icons/fi";
-import { MdMenu } from "react-icons/md";
 import Image from "next/image";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
 import { toggleSidebar } from "@/store/features/uiSlice";
+import {
+  fetchMentionNotifications,
+  selectMentionsLoaded,
+  selectUnreadMentionCount,
+} from "@/store/features/notesSlice";
+import {
+  fetchEmailThreads,
+  selectEmailThreadsOrgId,
+  selectUnreadThreadCount,
+} from "@/store/features/inboxSlice";
+import { selectUserContext } from "@/store/features/candidatesSlice";
 
 export function SidebarProvider({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
@@ -18,6 +30,24 @@ export function SidebarProvider({ children }: { children: React.ReactNode }) {
 export default function Sidebar() {
   const dispatch = useAppDispatch();
   const collapsed = useAppSelector((state) => state.ui.sidebar.collapsed);
+  const userId = useAppSelector((state) => state.user.user?.id);
+  const mentionsLoaded = useAppSelector(selectMentionsLoaded);
+  const unreadMentions = useAppSelector(selectUnreadMentionCount);
+  const userContext = useAppSelector(selectUserContext);
+  const threadsOrgId = useAppSelector(selectEmailThreadsOrgId);
+  const unreadThreads = useAppSelector(selectUnreadThreadCount);
+
+  useEffect(() => {
+    if (userId && !mentionsLoaded) {
+      dispatch(fetchMentionNotifications(userId));
+    }
+  }, [dispatch, userId, mentionsLoaded]);
+
+  useEffect(() => {
+    if (userContext && threadsOrgId !== userContext.organizationId) {
+      dispatch(fetchEmailThreads(userContext));
+    }
+  }, [dispatch, userContext, threadsOrgId]);
 
   return (
     <aside
@@ -73,11 +103,18 @@ export default function Sidebar() {
             label="Candidates"
             to="/candidates"
           />
+          <SidebarLink
+            collapsed={collapsed}
+            icon={<MdOutlineEventNote className="w-5 h-5" />}
+            label="Interviews"
+            to="/interviews"
+          />
           <SidebarLink
             collapsed={collapsed}
             icon={<HiOutlineChatAlt2 className="w-5 h-5" />}
             label="Inbox"
             to="/inbox"
+            badge={unreadMentions + unreadThreads}
           />
         </nav>
       </div>
@@ -104,14 +141,16 @@ interface SidebarLinkProps {
   label: string;
   to: string;
   collapsed: boolean;
+  badge?: number;
 }
 
-function SidebarLink({ icon, label, to, collapsed }: SidebarLinkProps) {
+function SidebarLink({ icon, label, to, collapsed, badge }: SidebarLinkProps) {
   const pathname = usePathname();
   const isActive =
     pathname === to ||
     (to === "/jobs" && pathname.startsWith("/jobs")) ||
     (to === "/candidates" && pathname.startsWith("/candidates")) ||
+    (to === "/interviews" && pathname.startsWith("/interviews")) ||
     (to === "/inbox" && pathname.startsWith("/inbox")) ||
     (to === "/dashboard" && pathname.startsWith("/dashboard")) ||
     (to === "/user-management" && pathname.startsWith("/user-management")) ||
@@ -120,12 +159,22 @@ function SidebarLink({ icon, label, to, collapsed }: SidebarLinkProps) {
   return (
     <Link
       href={to}
-      className={`flex items-center gap-3 px-2 py-2 rounded-lg text-white transition-colors duration-200 \
+      className={`relative flex items-center gap-3 px-2 py-2 rounded-lg text-white transition-colors duration-200 \
         ${collapsed ? "justify-center" : ""} \
         ${isActive ? "bg-blue-900" : "hover:bg-blue-900"}`}
     >
       {icon}
       {!collapsed && <span className="text-sm font-medium">{label}</span>}
+      {!!badge && (
+        <span
+          className={`bg-red-500 text-white text-xs font-semibold rounded-full min-w-5 h-5 px-1.5 flex items-center justify-center ${
+            collapsed ? "absolute top-0 right-1" : "ml-auto"
+          }`}
+          aria-label={`${badge} unread`}
+        >
+          {badge > 99 ? "99+" : badge}
+        </span>
+      )}
     </Link>
   );
 }
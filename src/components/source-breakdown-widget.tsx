@@ -0,0 +1,140 @@
+"use client";
+
+import { memo, useEffect, useMemo } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  fetchApplicationSources,
+  selectSourceBreakdown,
+  selectSourceBreakdownError,
+  selectSourceBreakdownLoading,
+} from "@/store/features/dashboardSlice";
+import {
+  fetchPipeline,
+  selectPipelineStages,
+} from "@/store/features/pipelineSlice";
+import { summarizeApplicationSources } from "@/utils/application-source";
+
+// Source of hire: applications and accepted candidates per application source
+const SourceBreakdownWidget = memo(
+  ({ userUuid, orgUuid }: { userUuid: string; orgUuid: string }) => {
+    const dispatch = useAppDispatch();
+    const rows = useAppSelector(selectSourceBreakdown);
+    const loading = useAppSelector(selectSourceBreakdownLoading);
+    const error = useAppSelector(selectSourceBreakdownError);
+    const pipelineStages = useAppSelector(selectPipelineStages);
+
+    useEffect(() => {
+      dispatch(fetchPipeline(orgUuid));
+      dispatch(fetchApplicationSources({ userUuid, orgUuid }));
+    }, [dispatch, userUuid, orgUuid]);
+
+    const summaries = useMemo(
+      () => summarizeApplicationSources(rows, pipelineStages),
+      [rows, pipelineStages]
+    );
+
+    return (
+      <div className="bg-white rounded-2xl shadow-sm p-6 mt-6">
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold text-neutral-900">
+            Source of Hire
+          </h2>
+          <p className="text-sm text-neutral-500">
+            Applications and accepted candidates by where they came from
+          </p>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : loading && summaries.length === 0 ? (
+          <p className="text-sm text-neutral-500">Loading sources...</p>
+        ) : summaries.length === 0 ? (
+          <p className="text-sm text-neutral-500">No applications yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={summaries}
+                  margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis
+                    dataKey="label"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fill: "#9CA3AF" }}
+                  />
+                  <YAxis
+                    allowDecimals={false}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fill: "#9CA3AF" }}
+                  />
+                  <Tooltip />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Bar
+                    dataKey="applications"
+                    name="Applications"
+                    fill="#3B82F6"
+                    radius={[4, 4, 0, 0]}
+                  />
+                  <Bar
+                    dataKey="accepted"
+                    name="Accepted"
+                    fill="#10B981"
+                    radius={[4, 4, 0, 0]}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <table className="w-full text-sm self-start">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                  <th className="py-2 font-medium">Source</th>
+                  <th className="py-2 font-medium text-right">Applications</th>
+                  <th className="py-2 font-medium text-right">Accepted</th>
+                  <th className="py-2 font-medium text-right">Conversion</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map((summary) => (
+                  <tr
+                    key={summary.source || "unknown"}
+                    className="border-b border-neutral-100 last:border-0"
+                  >
+                    <td className="py-2 text-neutral-800">{summary.label}</td>
+                    <td className="py-2 text-right text-neutral-800">
+                      {summary.applications}
+                    </td>
+                    <td className="py-2 text-right text-neutral-800">
+                      {summary.accepted}
+                    </td>
+                    <td className="py-2 text-right text-neutral-600">
+                      {summary.conversionRate}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+SourceBreakdownWidget.displayName = "SourceBreakdownWidget";
+
+export default SourceBreakdownWidget;
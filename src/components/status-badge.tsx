@@ -0,0 +1,33 @@
+import { useAppSelector } from "@/store/hooks";
+import {
+  findStage,
+  formatStageLabel,
+  selectPipelineStages,
+} from "@/store/features/pipelineSlice";
+import { PipelineStageColor } from "@/types/custom";
+
+// Literal class names so Tailwind picks them up
+export const STAGE_COLOR_CLASSES: Record<PipelineStageColor, string> = {
+  neutral: "bg-neutral-100 text-neutral-800 border-neutral-200",
+  yellow: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  blue: "bg-blue-100 text-blue-800 border-blue-200",
+  purple: "bg-purple-100 text-purple-800 border-purple-200",
+  orange: "bg-orange-100 text-orange-800 border-orange-200",
+  green: "bg-green-100 text-green-800 border-green-200",
+  red: "bg-red-100 text-red-800 border-red-200",
+};
+
+export default function StatusBadge({ status }: { status: string }) {
+  const stages = useAppSelector(selectPipelineStages);
+  const stage = findStage(stages, status);
+
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-medium border ${
+        STAGE_COLOR_CLASSES[stage?.color ?? "neutral"]
+      }`}
+    >
+      {formatStageLabel(stages, status)}
+    </span>
+  );
+}
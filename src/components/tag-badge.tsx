@@ -0,0 +1,30 @@
+import { CandidateTag } from "@/types/custom";
+import { STAGE_COLOR_CLASSES } from "./status-badge";
+
+export default function TagBadge({
+  tag,
+  onRemove,
+}: {
+  tag: CandidateTag;
+  onRemove?: () => void;
+}) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border whitespace-nowrap ${
+        STAGE_COLOR_CLASSES[tag.color]
+      }`}
+    >
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="ml-0.5 hover:opacity-70 cursor-pointer"
+          aria-label={`Remove ${tag.name}`}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaRegEdit, FaRegTrashAlt } from "react-icons/fa";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  TAG_NAME_MAX_LENGTH,
+  deleteTag,
+  fetchTagCatalogue,
+  saveTag,
+  selectTagCatalogue,
+  selectTagsError,
+  selectTagsLoading,
+  selectTagsSaving,
+} from "@/store/features/tagsSlice";
+import { UserContext } from "@/store/features/candidatesSlice";
+import {
+  CandidateTag,
+  PIPELINE_STAGE_COLORS,
+  PipelineStageColor,
+} from "@/types/custom";
+import TagBadge from "./tag-badge";
+
+interface TagDraft {
+  id?: string;
+  name: string;
+  color: PipelineStageColor;
+}
+
+const EMPTY_DRAFT: TagDraft = { name: "", color: "blue" };
+
+// Organization tag catalogue shown in the settings page
+export default function TagSettings({
+  userContext,
+}: {
+  userContext: UserContext;
+}) {
+  const dispatch = useAppDispatch();
+  const catalogue = useAppSelector(selectTagCatalogue);
+  const loading = useAppSelector(selectTagsLoading);
+  const saving = useAppSelector(selectTagsSaving);
+  const error = useAppSelector(selectTagsError);
+
+  const [draft, setDraft] = useState<TagDraft>(EMPTY_DRAFT);
+
+  const canEdit =
+    userContext.roles.includes("admin") || userContext.roles.includes("hr");
+
+  useEffect(() => {
+    dispatch(fetchTagCatalogue(userContext.organizationId));
+  }, [dispatch, userContext.organizationId]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await dispatch(
+        saveTag({
+          tagId: draft.id,
+          name: draft.name,
+          color: draft.color,
+          userContext,
+        })
+      ).unwrap();
+      setDraft(EMPTY_DRAFT);
+    } catch (err) {
+      console.log("Failed to save tag:", err);
+    }
+  };
+
+  const handleDelete = async (tag: CandidateTag) => {
+    if (
+      !window.confirm(
+        `Delete the "${tag.name}" tag? It will be removed from every candidate.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await dispatch(deleteTag({ tagId: tag.id, userContext })).unwrap();
+      if (draft.id === tag.id) setDraft(EMPTY_DRAFT);
+    } catch (err) {
+      console.log("Failed to delete tag:", err);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="text-center mb-6">
+        <h2 className="font-semibold text-xl mb-4 text-neutral-900">
+          Candidate Tags
+        </h2>
+        <p className="text-neutral-500 text-sm mx-auto">
+          Labels your team can put on candidates and filter the candidates
+          table by.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {canEdit && (
+        <form
+          onSubmit={handleSave}
+          className="flex flex-wrap items-center gap-3 mb-6"
+        >
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            maxLength={TAG_NAME_MAX_LENGTH}
+            placeholder="Tag name, e.g. Relocation ok"
+            aria-label="Tag name"
+            className="flex-1 min-w-48 border border-neutral-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={draft.color}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                color: e.target.value as PipelineStageColor,
+              })
+            }
+            aria-label="Tag colour"
+            className="border border-neutral-300 rounded-md px-3 py-2 text-sm bg-white capitalize"
+          >
+            {PIPELINE_STAGE_COLORS.map((color) => (
+              <option key={color} value={color}>
+                {color}
+              </option>
+            ))}
+          </select>
+          {draft.name.trim() && (
+            <TagBadge
+              tag={{ id: "preview", name: draft.name.trim(), color: draft.color }}
+            />
+          )}
+          {draft.id && (
+            <button
+              type="button"
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="px-4 py-2 text-sm text-neutral-600 border border-neutral-300 rounded-md hover:bg-neutral-100 transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={saving || !draft.name.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50"
+          >
+            {saving ? "Saving..." : draft.id ? "Save Tag" : "Add Tag"}
+          </button>
+        </form>
+      )}
+
+      {loading && catalogue.length === 0 ? (
+        <p className="text-sm text-neutral-500">Loading tags...</p>
+      ) : catalogue.length === 0 ? (
+        <p className="text-sm text-neutral-500">No tags yet.</p>
+      ) : (
+        <ul className="divide-y divide-neutral-100 border border-neutral-200 rounded-lg">
+          {catalogue.map((tag) => (
+            <li
+              key={tag.id}
+              className="flex items-center justify-between px-4 py-2"
+            >
+              <TagBadge tag={tag} />
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...tag })}
+                    className="p-2 text-neutral-600 hover:bg-neutral-100 rounded-md cursor-pointer"
+                    aria-label={`Edit ${tag.name}`}
+                  >
+                    <FaRegEdit className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(tag)}
+                    className="p-2 text-red-700 hover:bg-red-50 rounded-md cursor-pointer"
+                    aria-label={`Delete ${tag.name}`}
+                  >
+                    <FaRegTrashAlt className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
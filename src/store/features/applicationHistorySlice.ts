@@ -0,0 +1,161 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  bulkUpdateApplicationStatus,
+  transferApplication,
+  updateApplicationStatusWithAccess,
+} from "./candidatesSlice";
+import { ApplicationTransferEvent } from "@/types/custom";
+
+const supabase = createClient();
+
+export interface StatusChange {
+  id: string;
+  applicationId: string;
+  oldStatus: string | null;
+  newStatus: string;
+  changedAt: string;
+  reason: string | null;
+  rejectionReason: string | null; // RejectionReason key
+  actor: {
+    id: string | null;
+    name: string;
+    email: string | null;
+  };
+  // Set when the application was moved, or copied to or from another job
+  transfer: {
+    event: ApplicationTransferEvent;
+    fromJobTitle: string;
+    toJobTitle: string;
+    relatedApplicationId: string | null;
+  } | null;
+}
+
+const TRANSFER_EVENTS: ApplicationTransferEvent[] = [
+  "moved",
+  "copied_to",
+  "copied_from",
+];
+
+const isTransferEvent = (
+  value: string | null
+): value is ApplicationTransferEvent =>
+  TRANSFER_EVENTS.includes(value as ApplicationTransferEvent);
+
+interface ApplicationHistoryState {
+  // Oldest change first, keyed by application ID
+  byApplicationId: Record<string, StatusChange[]>;
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: ApplicationHistoryState = {
+  byApplicationId: {},
+  loading: false,
+  error: null,
+};
+
+export const fetchApplicationHistory = createAsyncThunk(
+  "applicationHistory/fetchApplicationHistory",
+  async (applicationId: string, { rejectWithValue }) => {
+    try {
+      const { data, error } = await supabase
+        .from("application_status_history")
+        .select(
+          "id, application_id, old_status, new_status, changed_at, changed_by, reason, rejection_reason, transfer_type, related_application_id, actor:user_profiles!application_status_history_changed_by_fkey(full_name, email), from_job:jobs!application_status_history_from_job_id_fkey(title), to_job:jobs!application_status_history_to_job_id_fkey(title)"
+        )
+        .eq("application_id", applicationId)
+        .order("changed_at", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch status history: ${error.message}`);
+      }
+
+      const changes: StatusChange[] = (data || []).map((row) => ({
+        id: row.id,
+        applicationId: row.application_id,
+        oldStatus: row.old_status,
+        newStatus: row.new_status,
+        changedAt: row.changed_at,
+        reason: row.reason,
+        rejectionReason: row.rejection_reason,
+        actor: {
+          id: row.changed_by,
+          name: row.actor?.full_name || "Unknown user",
+          email: row.actor?.email || null,
+        },
+        transfer: isTransferEvent(row.transfer_type)
+          ? {
+              event: row.transfer_type,
+              fromJobTitle: row.from_job?.title || "a deleted job",
+              toJobTitle: row.to_job?.title || "a deleted job",
+              relatedApplicationId: row.related_application_id,
+            }
+          : null,
+      }));
+
+      return { applicationId, changes };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch status history"
+      );
+    }
+  }
+);
+
+const applicationHistorySlice = createSlice({
+  name: "applicationHistory",
+  initialState,
+  reducers: {
+    clearApplicationHistory: (state) => {
+      state.byApplicationId = {};
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchApplicationHistory.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchApplicationHistory.fulfilled, (state, action) => {
+        state.loading = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.changes;
+      })
+      .addCase(fetchApplicationHistory.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // A new change was recorded, so the cached history is stale
+      .addCase(updateApplicationStatusWithAccess.fulfilled, (state, action) => {
+        delete state.byApplicationId[action.payload.applicationId];
+      })
+      .addCase(transferApplication.fulfilled, (state, action) => {
+        delete state.byApplicationId[action.payload.sourceApplicationId];
+        delete state.byApplicationId[action.payload.applicationId];
+      })
+      .addCase(bulkUpdateApplicationStatus.fulfilled, (state, action) => {
+        Object.keys(action.payload.updates).forEach((applicationId) => {
+          delete state.byApplicationId[applicationId];
+        });
+      })
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearApplicationHistory } = applicationHistorySlice.actions;
+
+// Selectors
+type RootState = { applicationHistory: ApplicationHistoryState };
+
+export const selectApplicationHistory = (
+  state: RootState,
+  applicationId: string
+) => state.applicationHistory.byApplicationId[applicationId];
+export const selectApplicationHistoryLoading = (state: RootState) =>
+  state.applicationHistory.loading;
+export const selectApplicationHistoryError = (state: RootState) =>
+  state.applicationHistory.error;
+
+export default applicationHistorySlice.reducer;
@@ -0,0 +1,604 @@
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  ApplicationSource,
+  AssignableJob,
+  CandidateDraft,
+  CandidateImportOutcome,
+  CandidateImportResult,
+  CandidateImportRow,
+  DuplicateEmailMode,
+} from "@/types/custom";
+import { hasJobAccess, UserContext } from "./candidatesSlice";
+import { initialStage, loadPipeline } from "./pipelineSlice";
+
+const supabase = createClient();
+
+// Draft fields that can be read from an import column
+export type CandidateImportField = Exclude<
+  keyof CandidateDraft,
+  "experience" | "education"
+>;
+
+export type CandidateImportMapping = Record<CandidateImportField, number | null>;
+
+// Aliases are compared against headers lowercased with punctuation removed
+export const CANDIDATE_IMPORT_FIELDS: {
+  key: CandidateImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}[] = [
+  {
+    key: "name",
+    label: "Name",
+    required: true,
+    aliases: ["name", "full name", "candidate name", "candidate"],
+  },
+  {
+    key: "email",
+    label: "Email",
+    required: true,
+    aliases: ["email", "e mail", "email address", "candidate email"],
+  },
+  {
+    key: "mobileNumber",
+    label: "Mobile Number",
+    required: false,
+    aliases: ["mobile", "mobile number", "phone", "phone number", "contact number"],
+  },
+  {
+    key: "linkedinUrl",
+    label: "LinkedIn URL",
+    required: false,
+    aliases: ["linkedin", "linkedin url", "linkedin profile"],
+  },
+  {
+    key: "portfolioUrl",
+    label: "Portfolio URL",
+    required: false,
+    aliases: ["portfolio", "portfolio url", "website"],
+  },
+  {
+    key: "address",
+    label: "Address",
+    required: false,
+    aliases: ["address", "location", "city"],
+  },
+  {
+    key: "currentCtc",
+    label: "Current CTC",
+    required: false,
+    aliases: ["current ctc", "ctc", "current salary"],
+  },
+  {
+    key: "expectedCtc",
+    label: "Expected CTC",
+    required: false,
+    aliases: ["expected ctc", "expected salary"],
+  },
+  {
+    key: "noticePeriod",
+    label: "Notice Period",
+    required: false,
+    aliases: ["notice period", "notice"],
+  },
+  {
+    key: "resumeLink",
+    label: "Resume URL",
+    required: false,
+    aliases: ["resume", "resume link", "resume url", "cv"],
+  },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+const MANUAL_REASON = "Added manually";
+const IMPORT_REASON = "Imported from CSV";
+
+export const emptyCandidateDraft = (): CandidateDraft => ({
+  name: "",
+  email: "",
+  mobileNumber: null,
+  linkedinUrl: null,
+  portfolioUrl: null,
+  address: null,
+  currentCtc: null,
+  expectedCtc: null,
+  noticePeriod: null,
+  resumeLink: null,
+  experience: [],
+  education: [],
+});
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Matches file headers to draft fields, using each column at most once
+export function guessColumnMapping(headers: string[]): CandidateImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as CandidateImportMapping;
+
+  CANDIDATE_IMPORT_FIELDS.forEach((field) => {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && field.aliases.includes(header)
+    );
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  });
+
+  return mapping;
+}
+
+// Amounts may be written with separators, e.g. "12,00,000"
+const parseAmount = (value: string) => {
+  const cleaned = value.replace(/[,\s]/g, "");
+  return cleaned ? Number(cleaned) : null;
+};
+
+// Returns the problems that would stop a draft from being saved
+export function validateCandidateDraft(draft: CandidateDraft): string[] {
+  const errors: string[] = [];
+
+  if (!draft.name.trim()) {
+    errors.push("Name is required");
+  }
+  if (!draft.email.trim()) {
+    errors.push("Email is required");
+  } else if (!EMAIL_PATTERN.test(draft.email.trim())) {
+    errors.push("Email is not valid");
+  }
+
+  (
+    [
+      ["linkedinUrl", "LinkedIn URL"],
+      ["portfolioUrl", "Portfolio URL"],
+      ["resumeLink", "Resume URL"],
+    ] as const
+  ).forEach(([key, label]) => {
+    const value = draft[key];
+    if (value && !URL_PATTERN.test(value.trim())) {
+      errors.push(`${label} must start with http:// or https://`);
+    }
+  });
+
+  (
+    [
+      ["currentCtc", "Current CTC"],
+      ["expectedCtc", "Expected CTC"],
+    ] as const
+  ).forEach(([key, label]) => {
+    const value = draft[key];
+    if (value !== null && (Number.isNaN(value) || value < 0)) {
+      errors.push(`${label} must be a positive number`);
+    }
+  });
+
+  if (
+    draft.experience.some(
+      (entry) =>
+        !entry.companyName.trim() || !entry.jobTitle.trim() || !entry.startDate
+    )
+  ) {
+    errors.push("Experience entries need a company, title and start date");
+  }
+  if (draft.education.some((entry) => !entry.institution.trim())) {
+    errors.push("Education entries need an institution");
+  }
+
+  return errors;
+}
+
+// Turns parsed CSV data rows into drafts. Emails repeated within the file
+// are reported on every row after the first.
+export function buildImportRows(
+  rows: string[][],
+  mapping: CandidateImportMapping
+): CandidateImportRow[] {
+  const firstRowByEmail = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const read = (field: CandidateImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (cells[column] || "").trim();
+    };
+    const optional = (field: CandidateImportField) => read(field) || null;
+
+    const draft: CandidateDraft = {
+      ...emptyCandidateDraft(),
+      name: read("name"),
+      email: read("email"),
+      mobileNumber: optional("mobileNumber"),
+      linkedinUrl: optional("linkedinUrl"),
+      portfolioUrl: optional("portfolioUrl"),
+      address: optional("address"),
+      currentCtc: parseAmount(read("currentCtc")),
+      expectedCtc: parseAmount(read("expectedCtc")),
+      noticePeriod: optional("noticePeriod"),
+      resumeLink: optional("resumeLink"),
+    };
+
+    const row = index + 2; // The header is line 1
+    const errors = validateCandidateDraft(draft);
+    const email = draft.email.toLowerCase();
+    if (email) {
+      const firstRow = firstRowByEmail.get(email);
+      if (firstRow !== undefined) {
+        errors.push(`Same email as row ${firstRow}`);
+      } else {
+        firstRowByEmail.set(email, row);
+      }
+    }
+
+    return { row, draft, errors };
+  });
+}
+
+const profileValues = (draft: CandidateDraft) => ({
+  name: draft.name.trim(),
+  candidate_email: draft.email.trim().toLowerCase(),
+  mobile_number: draft.mobileNumber?.trim() || null,
+  linkedin_url: draft.linkedinUrl?.trim() || null,
+  portfolio_url: draft.portfolioUrl?.trim() || null,
+  address: draft.address?.trim() || null,
+  current_ctc: draft.currentCtc,
+  expected_ctc: draft.expectedCtc,
+  notice_period: draft.noticePeriod?.trim() || null,
+  resume_link: draft.resumeLink?.trim() || null,
+});
+
+// Creates or reuses the profile for a draft and adds it to the job. The
+// database does every write in one transaction and only reports duplicates
+// that already applied to the organization.
+async function saveCandidateDraft(
+  draft: CandidateDraft,
+  options: {
+    jobId: string;
+    status: string;
+    duplicateMode: DuplicateEmailMode;
+    reason: string;
+    source: ApplicationSource;
+  }
+): Promise<Omit<CandidateImportResult, "row" | "name" | "email">> {
+  const { jobId, status, duplicateMode, reason, source } = options;
+
+  const { data, error } = await supabase.rpc("save_candidate_draft", {
+    p_job_id: jobId,
+    p_status: status,
+    p_source: source,
+    p_reason: reason,
+    p_duplicate_mode: duplicateMode,
+    p_profile: profileValues(draft),
+    p_experience: draft.experience.map((entry) => ({
+      company_name: entry.companyName.trim(),
+      job_title: entry.jobTitle.trim(),
+      start_date: entry.startDate,
+      end_date: entry.currentlyWorking ? null : entry.endDate,
+      currently_working: entry.currentlyWorking,
+    })),
+    p_education: draft.education.map((entry) => ({
+      college_university: entry.institution.trim(),
+      degree: entry.degree?.trim() || null,
+      field_of_study: entry.fieldOfStudy?.trim() || null,
+      start_date: entry.startDate,
+      end_date: entry.isCurrent ? null : entry.endDate,
+      is_current: entry.isCurrent,
+    })),
+  });
+
+  if (error) {
+    throw new Error(`Failed to save candidate: ${error.message}`);
+  }
+
+  const saved = data as {
+    outcome: CandidateImportOutcome;
+    message: string | null;
+    candidate_id: string;
+    application_id: string | null;
+  };
+
+  return {
+    outcome: saved.outcome,
+    message: saved.message,
+    candidateId: saved.candidate_id,
+    applicationId: saved.application_id,
+  };
+}
+
+interface CandidateImportState {
+  jobs: AssignableJob[];
+  jobsLoading: boolean;
+  saving: boolean;
+  importing: boolean;
+  progress: { done: number; total: number } | null;
+  results: CandidateImportResult[] | null;
+  error: string | null;
+}
+
+const initialState: CandidateImportState = {
+  jobs: [],
+  jobsLoading: false,
+  saving: false,
+  importing: false,
+  progress: null,
+  results: null,
+  error: null,
+};
+
+// Adding and importing candidates is limited to admins and HR
+const canAddCandidates = ({ roles }: UserContext) =>
+  roles.includes("admin") || roles.includes("hr");
+
+// Jobs in the organization the user may add candidates to
+export const fetchAssignableJobs = createAsyncThunk(
+  "candidateImport/fetchAssignableJobs",
+  async (userContext: UserContext, { rejectWithValue }) => {
+    try {
+      const { userId, organizationId, roles } = userContext;
+      let query = supabase
+        .from("jobs")
+        .select("id, title, company_name, status")
+        .eq("organization_id", organizationId)
+        .order("created_at", { ascending: false });
+
+      if (!roles.includes("admin") && !roles.includes("hr")) {
+        const { data: grants, error: grantsError } = await supabase
+          .from("job_access_control")
+          .select("job_id")
+          .eq("user_id", userId)
+          .eq("access_type", "granted");
+
+        if (grantsError) {
+          throw new Error(`Failed to fetch job access: ${grantsError.message}`);
+        }
+        query = query.in(
+          "id",
+          (grants || [])
+            .map((grant) => grant.job_id)
+            .filter((jobId): jobId is string => !!jobId)
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to fetch jobs: ${error.message}`);
+      }
+
+      return (data || []).map(
+        (job): AssignableJob => ({
+          id: job.id,
+          title: job.title,
+          companyName: job.company_name,
+          status: job.status,
+        })
+      );
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch jobs"
+      );
+    }
+  }
+);
+
+// Add one candidate entered in the form to a job
+export const createCandidate = createAsyncThunk(
+  "candidateImport/createCandidate",
+  async (
+    {
+      draft,
+      jobId,
+      duplicateMode,
+      userContext,
+    }: {
+      draft: CandidateDraft;
+      jobId: string;
+      duplicateMode: DuplicateEmailMode;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!canAddCandidates(userContext)) {
+        throw new Error("Only admins and HR can add candidates");
+      }
+      const errors = validateCandidateDraft(draft);
+      if (errors.length > 0) {
+        throw new Error(errors[0]);
+      }
+      if (!(await hasJobAccess(jobId, userContext))) {
+        throw new Error("You do not have access to this job");
+      }
+
+      const { stages } = await loadPipeline(userContext.organizationId);
+      const result = await saveCandidateDraft(draft, {
+        jobId,
+        status: initialStage(stages),
+        duplicateMode,
+        reason: MANUAL_REASON,
+        source: "sourced",
+      });
+
+      if (result.outcome === "skipped") {
+        throw new Error(result.message || "The candidate was not added");
+      }
+
+      return result;
+    } catch (error) {
+      console.log("createCandidate error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to add candidate"
+      );
+    }
+  }
+);
+
+// Add imported rows to a job one at a time, reporting the outcome of each.
+// Rows that failed validation are reported without being saved.
+export const importCandidates = createAsyncThunk(
+  "candidateImport/importCandidates",
+  async (
+    {
+      rows,
+      jobId,
+      duplicateMode,
+      userContext,
+    }: {
+      rows: CandidateImportRow[];
+      jobId: string;
+      duplicateMode: DuplicateEmailMode;
+      userContext: UserContext;
+    },
+    { dispatch, rejectWithValue }
+  ) => {
+    try {
+      if (!canAddCandidates(userContext)) {
+        throw new Error("Only admins and HR can import candidates");
+      }
+      if (!(await hasJobAccess(jobId, userContext))) {
+        throw new Error("You do not have access to this job");
+      }
+
+      const { stages } = await loadPipeline(userContext.organizationId);
+      const status = initialStage(stages);
+      const results: CandidateImportResult[] = [];
+
+      for (const { row, draft, errors } of rows) {
+        const base = {
+          row,
+          name: draft.name,
+          email: draft.email,
+        };
+
+        if (errors.length > 0) {
+          results.push({
+            ...base,
+            outcome: "failed",
+            message: errors.join("; "),
+            candidateId: null,
+            applicationId: null,
+          });
+        } else {
+          try {
+            const result = await saveCandidateDraft(draft, {
+              jobId,
+              status,
+              duplicateMode,
+              reason: IMPORT_REASON,
+              source: "import",
+            });
+            results.push({ ...base, ...result });
+          } catch (error) {
+            results.push({
+              ...base,
+              outcome: "failed",
+              message:
+                error instanceof Error ? error.message : "Failed to save row",
+              candidateId: null,
+              applicationId: null,
+            });
+          }
+        }
+
+        dispatch(setImportProgress(results.length));
+      }
+
+      return results;
+    } catch (error) {
+      console.log("importCandidates error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to import candidates"
+      );
+    }
+  }
+);
+
+const candidateImportSlice = createSlice({
+  name: "candidateImport",
+  initialState,
+  reducers: {
+    setImportProgress: (state, action: PayloadAction<number>) => {
+      if (state.progress) {
+        state.progress.done = action.payload;
+      }
+    },
+    clearImportResults: (state) => {
+      state.results = null;
+      state.progress = null;
+      state.error = null;
+    },
+    clearCandidateImportError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchAssignableJobs.pending, (state) => {
+        state.jobsLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchAssignableJobs.fulfilled, (state, action) => {
+        state.jobsLoading = false;
+        state.jobs = action.payload;
+      })
+      .addCase(fetchAssignableJobs.rejected, (state, action) => {
+        state.jobsLoading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(createCandidate.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(createCandidate.fulfilled, (state) => {
+        state.saving = false;
+      })
+      .addCase(createCandidate.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(importCandidates.pending, (state, action) => {
+        state.importing = true;
+        state.results = null;
+        state.progress = { done: 0, total: action.meta.arg.rows.length };
+        state.error = null;
+      })
+      .addCase(importCandidates.fulfilled, (state, action) => {
+        state.importing = false;
+        state.results = action.payload;
+      })
+      .addCase(importCandidates.rejected, (state, action) => {
+        state.importing = false;
+        state.progress = null;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { setImportProgress, clearImportResults, clearCandidateImportError } =
+  candidateImportSlice.actions;
+
+// Selectors
+type RootState = { candidateImport: CandidateImportState };
+
+export const selectAssignableJobs = (state: RootState) =>
+  state.candidateImport.jobs;
+export const selectAssignableJobsLoading = (state: RootState) =>
+  state.candidateImport.jobsLoading;
+export const selectCandidateSaving = (state: RootState) =>
+  state.candidateImport.saving;
+export const selectImporting = (state: RootState) =>
+  state.candidateImport.importing;
+export const selectImportProgress = (state: RootState) =>
+  state.candidateImport.progress;
+export const selectImportResults = (state: RootState) =>
+  state.candidateImport.results;
+export const selectCandidateImportError = (state: RootState) =>
+  state.candidateImport.error;
+
+export default candidateImportSlice.reducer;
@@ -1,6 +1,37 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import { createClient } from "@/utils/supabase/client";
 import { Tables } from "@/types/supabase";
+import {
+  ANONYMIZED_CANDIDATE_NAME,
+  APPLICATION_SOURCES,
+  ApplicationSource,
+  ApplicationTransferMode,
+  CandidateTag,
+  FitScore,
+  HiringPipeline,
+  ParsedEducation,
+  ParsedExperience,
+  PIPELINE_STAGE_COLORS,
+  PipelineStage,
+  PipelineStageColor,
+  RejectionReason,
+} from "@/types/custom";
+import {
+  canTransition,
+  findStage,
+  formatStageLabel,
+  initialStage,
+  loadPipeline,
+} from "./pipelineSlice";
+import {
+  findRejectionReason,
+  loadRejectionReasons,
+} from "./rejectionReasonsSlice";
+import {
+  buildCandidateQueryParams,
+  candidateQueryRole,
+} from "@/utils/candidate-query";
+import { StoredFitScoreItem, toFitScore } from "@/utils/fit-score";
 
 const supabase = createClient();
 
@@ -12,12 +43,16 @@ export type Education = Tables<"education">;
 export type Experience = Tables<"experience">;
 
 // First, define the type for the raw candidate data from the database function
-interface RawCandidateData {
+export interface RawCandidateData {
   application_id: string;
   applied_date: string;
   application_status: string;
   created_at: string;
   updated_at: string;
+  source?: string | null;
+  source_detail?: string | null;
+  source_campaign?: string | null;
+  rejection_reason?: string | null;
   candidate_id: string;
   auth_id: string;
   candidate_name: string;
@@ -50,9 +85,17 @@ interface RawCandidateData {
   application_deadline: string;
   job_status: string;
   experience_years: number;
+  // From application_fit_score, weighted with the organization's weights
+  fit_score?: number | null;
+  fit_score_items?: StoredFitScoreItem[] | null;
+  notice_period_days?: number | null;
   education: Education[];
   experience: Experience[];
   hasAccess: boolean;
+  // Only set when searching: full-text rank and a resume excerpt with
+  // matches wrapped in <b></b>
+  search_rank?: number | null;
+  search_snippet?: string | null;
 }
 
 export interface FilterOption {
@@ -95,6 +138,10 @@ export type CandidateWithApplication = {
   application_status: string;
   created_at: string;
   updated_at: string;
+  source?: string | null; // ApplicationSource, null when unknown
+  source_detail?: string | null; // e.g. the board name or referrer
+  source_campaign?: string | null;
+  rejection_reason?: string | null; // RejectionReason key, set while rejected
 
   // Candidate profile fields
   id: string;
@@ -131,9 +178,19 @@ export type CandidateWithApplication = {
   application_deadline: string | null;
   job_status: string | null;
 
+  // Calculated fields
+  experience_years?: number | null;
+  fit_score?: number | null;
+  fit?: FitScore; // fit_score with its breakdown
+
   // Related data
   education?: Education[] | null;
   experience?: Experience[] | null;
+  tags?: CandidateTag[];
+
+  // Search results
+  search_rank?: number | null;
+  search_snippet?: string | null;
 
   // Access control flag
   hasAccess?: boolean;
@@ -164,6 +221,8 @@ export interface CandidateFilters {
   dateFrom?: string;
   dateTo?: string;
   jobId?: string;
+  tags?: string[]; // Tag IDs; matches candidates with any of them
+  source?: string[]; // Application sources
   sortBy?:
     | "name"
     | "application_status"
@@ -173,20 +232,224 @@ export interface CandidateFilters {
     | "created_at"
     | "updated_at"
     | "current_ctc"
-    | "expected_ctc";
+    | "expected_ctc"
+    | "fit_score"
+    | "relevance"; // Search rank; only applies with a searchTerm
   sortOrder?: "asc" | "desc";
   searchTerm?: string; // Global search term
 }
+
+export const toCandidateTag = (row: {
+  id: string;
+  name: string;
+  color: string;
+}): CandidateTag => ({
+  id: row.id,
+  name: row.name,
+  color: (PIPELINE_STAGE_COLORS as readonly string[]).includes(row.color)
+    ? (row.color as PipelineStageColor)
+    : "neutral",
+});
+
+// Organization tags of each candidate, keyed by candidate ID
+async function loadCandidateTags(
+  candidateIds: string[],
+  organizationId: string
+): Promise<Record<string, CandidateTag[]>> {
+  const ids = Array.from(new Set(candidateIds));
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("candidate_tag_assignments")
+    .select(
+      "candidate_id, tag:candidate_tags!candidate_tag_assignments_tag_id_fkey!inner(id, name, color, organization_id)"
+    )
+    .in("candidate_id", ids)
+    .eq("tag.organization_id", organizationId);
+
+  if (error) {
+    throw new Error(`Failed to fetch candidate tags: ${error.message}`);
+  }
+
+  const tagsByCandidate: Record<string, CandidateTag[]> = {};
+  (data || []).forEach((row) => {
+    if (row.tag) {
+      tagsByCandidate[row.candidate_id] = [
+        ...(tagsByCandidate[row.candidate_id] || []),
+        toCandidateTag(row.tag),
+      ];
+    }
+  });
+  Object.values(tagsByCandidate).forEach((tags) =>
+    tags.sort((a, b) => a.name.localeCompare(b.name))
+  );
+  return tagsByCandidate;
+}
+
+// Query one page of fetch_candidates_with_access, scoped to the user's role
+async function queryCandidatesWithAccess({
+  filters = {},
+  userContext,
+  page = 1,
+  limit = 50,
+}: {
+  filters?: Partial<CandidateFilters>;
+  userContext: UserContext;
+  page?: number;
+  limit?: number;
+}) {
+  const { userId, organizationId, roles } = userContext;
+
+  // Determine user role for the function
+  const userRole = candidateQueryRole(roles);
+  if (!userRole) {
+    // No valid role, return empty result
+    return {
+      candidates: [],
+      total_count: 0,
+      current_page: page,
+      total_pages: 0,
+      success: true,
+    };
+  }
+
+  const functionParams = buildCandidateQueryParams({
+    filters,
+    userId,
+    userRole,
+    organizationId,
+    page,
+    limit,
+  });
+
+  // Call the PostgreSQL function using Supabase RPC
+  const { data, error } = await supabase.rpc(
+    "fetch_candidates_with_access",
+    functionParams
+  );
+
+  if (!isDatabaseFunctionResponse(data)) {
+    throw new Error("Invalid response format from database function");
+  }
+
+  if (error) {
+    console.log("Database function error:", error);
+    throw new Error(`Database function failed: ${error.message}`);
+  }
+
+  if (!data) {
+    return {
+      candidates: [],
+      total_count: 0,
+      current_page: page,
+      total_pages: 0,
+      success: true,
+    };
+  }
+
+  // Type assertion for the function response
+  const functionResponse = data as unknown as DatabaseFunctionResponse;
+
+  // Check if the function returned an error
+  if (!functionResponse.success) {
+    throw new Error(
+      functionResponse.error || "Database function returned an error"
+    );
+  }
+
+  // Transform the data from the function to match your expected format
+  const transformedCandidates: CandidateWithApplication[] = (
+    functionResponse.candidates as RawCandidateData[]
+  ).map((candidate: RawCandidateData) => ({
+    // Application fields
+    application_id: candidate.application_id,
+    applied_date: candidate.applied_date,
+    application_status: candidate.application_status,
+    created_at: candidate.created_at,
+    updated_at: candidate.updated_at,
+    source: candidate.source ?? null,
+    source_detail: candidate.source_detail ?? null,
+    source_campaign: candidate.source_campaign ?? null,
+    rejection_reason: candidate.rejection_reason ?? null,
+
+    // Profile fields
+    id: candidate.candidate_id,
+    auth_id: candidate.auth_id,
+    name: candidate.candidate_name,
+    candidate_email: candidate.candidate_email,
+    mobile_number: candidate.mobile_number,
+    address: candidate.address,
+    gender: candidate.gender,
+    disability: candidate.disability,
+    resume_link: candidate.resume_link,
+    portfolio_url: candidate.portfolio_url,
+    linkedin_url: candidate.linkedin_url,
+    additional_doc_link: candidate.additional_doc_link,
+    current_ctc: candidate.current_ctc,
+    expected_ctc: candidate.expected_ctc,
+    notice_period: candidate.notice_period,
+    dob: candidate.dob,
+
+    // Job fields
+    job_id: candidate.job_id,
+    job_title: candidate.job_title,
+    company_name: candidate.company_name,
+    job_location: candidate.job_location,
+    job_location_type: candidate.job_location_type,
+    job_type: candidate.job_type,
+    working_type: candidate.working_type,
+    min_experience_needed: candidate.min_experience_needed,
+    max_experience_needed: candidate.max_experience_needed,
+    min_salary: candidate.min_salary,
+    max_salary: candidate.max_salary,
+    company_logo_url: candidate.company_logo_url,
+    job_description: candidate.job_description,
+    application_deadline: candidate.application_deadline,
+    job_status: candidate.job_status,
+
+    // Calculated fields
+    experience_years: candidate.experience_years,
+    fit_score: candidate.fit_score ?? null,
+    fit: toFitScore(
+      candidate.fit_score,
+      candidate.fit_score_items,
+      candidate.notice_period_days
+    ),
+
+    // Related data - now provided by the function
+    education: candidate.education || [],
+    experience: candidate.experience || [],
+
+    // Access control
+    hasAccess: candidate.hasAccess,
+
+    // Search results
+    search_rank: candidate.search_rank ?? null,
+    search_snippet: candidate.search_snippet ?? null,
+  }));
+
+  const tagsByCandidate = await loadCandidateTags(
+    transformedCandidates.map((candidate) => candidate.id),
+    organizationId
+  );
+  transformedCandidates.forEach((candidate) => {
+    candidate.tags = tagsByCandidate[candidate.id] || [];
+  });
+
+  return {
+    candidates: transformedCandidates,
+    total_count: functionResponse.total_count,
+    current_page: functionResponse.current_page,
+    total_pages: functionResponse.total_pages,
+    success: functionResponse.success,
+  };
+}
+
 // Enhanced async thunk with role-based access control
 export const fetchJobApplicationsWithAccess = createAsyncThunk(
   "candidates/fetchJobApplicationsWithAccess",
   async (
-    {
-      filters = {},
-      userContext,
-      page = 1,
-      limit = 50,
-    }: {
+    params: {
       filters?: Partial<CandidateFilters>;
       userContext: UserContext;
       page?: number;
@@ -195,173 +458,48 @@ export const fetchJobApplicationsWithAccess = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      const { userId, organizationId, roles } = userContext;
-
-      // Determine user role for the function
-      let userRole: string;
-      if (roles.includes("admin")) {
-        userRole = "admin";
-      } else if (roles.includes("hr")) {
-        userRole = "hr";
-      } else if (roles.includes("ta")) {
-        userRole = "ta";
-      } else {
-        // No valid role, return empty result
-        return {
-          candidates: [],
-          total_count: 0,
-          current_page: page,
-          total_pages: 0,
-          success: true,
-        };
-      }
-
-      // Helper function to handle multi-value filters
-      const prepareArrayFilter = (
-        filter: string | string[] | undefined
-      ): string[] | undefined => {
-        if (!filter) return undefined;
-        if (Array.isArray(filter)) {
-          // Filter out empty strings and 'All' values
-          const cleanedArray = filter.filter(
-            (item) => item && item.trim() !== "" && item !== "All"
-          );
-          return cleanedArray.length > 0 ? cleanedArray : undefined;
-        }
-        // Single value - convert to array if not 'All' or empty
-        if (filter !== "All" && filter.trim() !== "") {
-          return [filter];
-        }
-        return undefined;
-      };
-
-      // Prepare function parameters
-      const functionParams = {
-        p_user_id: userId,
-        p_user_role: userRole,
-        p_organization_id: organizationId,
-        p_page: page,
-        p_limit: limit,
-        // Multi-value array parameters
-        p_application_status: prepareArrayFilter(filters.status),
-        p_company_filter: prepareArrayFilter(filters.companyName),
-        p_job_title_filter: prepareArrayFilter(filters.jobTitle),
-        // Other parameters remain the same
-        p_sort_by: filters.sortBy || "applied_date",
-        p_sort_order: filters.sortOrder || "desc",
-        p_name_filter: filters.candidateName || undefined,
-        p_min_experience: filters.minExperience || undefined,
-        p_max_experience: filters.maxExperience || undefined,
-        p_date_from: filters.dateFrom || undefined,
-        p_date_to: filters.dateTo || undefined,
-        p_job_id: filters.jobId || undefined,
-        // Add search term parameter
-        p_search_term: filters.searchTerm || undefined,
-      };
-
-      // Call the PostgreSQL function using Supabase RPC
-      const { data, error } = await supabase.rpc(
-        "fetch_candidates_with_access",
-        functionParams
+      return await queryCandidatesWithAccess(params);
+    } catch (error) {
+      console.log("fetchJobApplicationsWithAccess error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Unknown error occurred"
       );
+    }
+  }
+);
 
-      if (!isDatabaseFunctionResponse(data)) {
-        throw new Error("Invalid response format from database function");
-      }
-
-      if (error) {
-        console.log("Database function error:", error);
-        throw new Error(`Database function failed: ${error.message}`);
-      }
-
-      if (!data) {
-        return {
-          candidates: [],
-          total_count: 0,
-          current_page: page,
-          total_pages: 0,
-          success: true,
-        };
-      }
-
-      // Type assertion for the function response
-      const functionResponse = data as unknown as DatabaseFunctionResponse;
-
-      // Check if the function returned an error
-      if (!functionResponse.success) {
-        throw new Error(
-          functionResponse.error || "Database function returned an error"
-        );
-      }
-
-      // Transform the data from the function to match your expected format
-      const transformedCandidates: CandidateWithApplication[] = (
-        functionResponse.candidates as RawCandidateData[]
-      ).map((candidate: RawCandidateData) => ({
-        // Application fields
-        application_id: candidate.application_id,
-        applied_date: candidate.applied_date,
-        application_status: candidate.application_status,
-        created_at: candidate.created_at,
-        updated_at: candidate.updated_at,
-
-        // Profile fields
-        id: candidate.candidate_id,
-        auth_id: candidate.auth_id,
-        name: candidate.candidate_name,
-        candidate_email: candidate.candidate_email,
-        mobile_number: candidate.mobile_number,
-        address: candidate.address,
-        gender: candidate.gender,
-        disability: candidate.disability,
-        resume_link: candidate.resume_link,
-        portfolio_url: candidate.portfolio_url,
-        linkedin_url: candidate.linkedin_url,
-        additional_doc_link: candidate.additional_doc_link,
-        current_ctc: candidate.current_ctc,
-        expected_ctc: candidate.expected_ctc,
-        notice_period: candidate.notice_period,
-        dob: candidate.dob,
-
-        // Job fields
-        job_id: candidate.job_id,
-        job_title: candidate.job_title,
-        company_name: candidate.company_name,
-        job_location: candidate.job_location,
-        job_location_type: candidate.job_location_type,
-        job_type: candidate.job_type,
-        working_type: candidate.working_type,
-        min_experience_needed: candidate.min_experience_needed,
-        max_experience_needed: candidate.max_experience_needed,
-        min_salary: candidate.min_salary,
-        max_salary: candidate.max_salary,
-        company_logo_url: candidate.company_logo_url,
-        job_description: candidate.job_description,
-        application_deadline: candidate.application_deadline,
-        job_status: candidate.job_status,
-
-        // Calculated fields
-        experience_years: candidate.experience_years,
-
-        // Related data - now provided by the function
-        education: candidate.education || [],
-        experience: candidate.experience || [],
-
-        // Access control
-        hasAccess: candidate.hasAccess,
-      }));
-
+// The board loads a job's applications into its own state so it never
+// replaces the paged list the table is showing
+export const fetchBoardApplications = createAsyncThunk(
+  "candidates/fetchBoardApplications",
+  async (
+    {
+      jobId,
+      userContext,
+      limit,
+    }: {
+      jobId: string;
+      userContext: UserContext;
+      limit: number;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const result = await queryCandidatesWithAccess({
+        filters: { jobId },
+        userContext,
+        page: 1,
+        limit,
+      });
       return {
-        candidates: transformedCandidates,
-        total_count: functionResponse.total_count,
-        current_page: functionResponse.current_page,
-        total_pages: functionResponse.total_pages,
-        success: functionResponse.success,
+        jobId,
+        candidates: result.candidates,
+        totalCount: result.total_count,
       };
     } catch (error) {
-      console.log("fetchJobApplicationsWithAccess error:", error);
+      console.log("fetchBoardApplications error:", error);
       return rejectWithValue(
-        error instanceof Error ? error.message : "Unknown error occurred"
+        error instanceof Error ? error.message : "Failed to load the board"
       );
     }
   }
@@ -536,232 +674,1180 @@ export const applyFilters = createAsyncThunk(
   }
 );
 
-//go to page
-export const goToPage = createAsyncThunk(
-  "jobs/goToPage",
-  async (
-    params: {
-      page: number;
-      userContext: UserContext;
-    },
-    { dispatch, getState }
-  ) => {
-    const state = getState() as { candidates: CandidatesState };
-    const { filters, pagination } = state.candidates;
-
-    // Update current page
-    dispatch(setCurrentPage(params.page));
+//go to page
+export const goToPage = createAsyncThunk(
+  "jobs/goToPage",
+  async (
+    params: {
+      page: number;
+      userContext: UserContext;
+    },
+    { dispatch, getState }
+  ) => {
+    const state = getState() as { candidates: CandidatesState };
+    const { filters, pagination } = state.candidates;
+
+    // Update current page
+    dispatch(setCurrentPage(params.page));
+
+    // Fetch jobs for the new page with current filters
+    return dispatch(
+      fetchJobApplicationsWithAccess({
+        page: params.page,
+        limit: pagination.candidatesPerPage,
+        filters,
+        userContext: params.userContext,
+      })
+    );
+  }
+);
+
+// Admin and HR can access every job; TA only jobs granted in job_access_control
+export async function hasJobAccess(
+  jobId: string,
+  userContext: UserContext
+): Promise<boolean> {
+  const { userId, roles } = userContext;
+
+  if (roles.includes("admin") || roles.includes("hr")) {
+    return true;
+  }
+
+  if (!roles.includes("ta")) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from("job_access_control")
+    .select("access_type")
+    .eq("job_id", jobId)
+    .eq("user_id", userId)
+    .single();
+
+  if (error && error.code !== "PGRST116") {
+    // PGRST116 is "not found"
+    throw new Error(`Failed to check job access: ${error.message}`);
+  }
+
+  return data?.access_type === "granted";
+}
+
+// Jobs a user can access, for filtering lists by job. Null means every job
+// in the organization.
+export async function accessibleJobIds(
+  userContext: UserContext
+): Promise<string[] | null> {
+  const { userId, roles } = userContext;
+
+  if (roles.includes("admin") || roles.includes("hr")) {
+    return null;
+  }
+
+  if (!roles.includes("ta")) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("job_access_control")
+    .select("job_id")
+    .eq("user_id", userId)
+    .eq("access_type", "granted");
+
+  if (error) {
+    throw new Error(`Failed to fetch job access: ${error.message}`);
+  }
+
+  return (data || [])
+    .map((grant) => grant.job_id)
+    .filter((jobId): jobId is string => !!jobId);
+}
+
+// Helper function to check if user can access a specific job
+export const checkJobAccess = createAsyncThunk(
+  "candidates/checkJobAccess",
+  async (
+    { jobId, userContext }: { jobId: string; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      return { jobId, hasAccess: await hasJobAccess(jobId, userContext) };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to check job access"
+      );
+    }
+  }
+);
+
+// Application-level check, following the rules of the application's job
+export async function hasApplicationAccess(
+  applicationId: string,
+  userContext: UserContext
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("job_id")
+    .eq("id", applicationId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch application: ${error.message}`);
+  }
+
+  return hasJobAccess(data.job_id, userContext);
+}
+
+// One application with everything the candidate overlay shows, for links
+// that open the overlay directly
+export const fetchCandidateApplication = createAsyncThunk(
+  "candidates/fetchCandidateApplication",
+  async (
+    {
+      applicationId,
+      userContext,
+    }: { applicationId: string; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { data, error } = await supabase
+        .from("job_applications")
+        .select(
+          "id, applied_date, application_status, created_at, updated_at, source, source_detail, source_campaign, rejection_reason, candidate:candidates_profiles!job_applications_candidate_id_fkey(*, education!education_profile_id_fkey(*), experience!experience_profile_id_fkey(*)), job:jobs!job_applications_job_id_fkey(*)"
+        )
+        .eq("id", applicationId)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to fetch application: ${error.message}`);
+      }
+
+      const { candidate, job } = data;
+      if (
+        !candidate ||
+        !job ||
+        job.organization_id !== userContext.organizationId
+      ) {
+        throw new Error("Application not found");
+      }
+      if (!(await hasJobAccess(job.id, userContext))) {
+        throw new Error("You don't have access to this application");
+      }
+
+      const tagsByCandidate = await loadCandidateTags(
+        [candidate.id],
+        userContext.organizationId
+      );
+
+      const result: CandidateWithApplication = {
+        application_id: data.id,
+        applied_date: data.applied_date,
+        application_status: data.application_status,
+        created_at: data.created_at,
+        updated_at: data.updated_at,
+        source: data.source,
+        source_detail: data.source_detail,
+        source_campaign: data.source_campaign,
+        rejection_reason: data.rejection_reason,
+
+        id: candidate.id,
+        auth_id: candidate.auth_id,
+        name: candidate.name,
+        candidate_email: candidate.candidate_email,
+        mobile_number: candidate.mobile_number,
+        address: candidate.address,
+        gender: candidate.gender,
+        disability: candidate.disability,
+        resume_link: candidate.resume_link,
+        portfolio_url: candidate.portfolio_url,
+        linkedin_url: candidate.linkedin_url,
+        additional_doc_link: candidate.additional_doc_link,
+        current_ctc: candidate.current_ctc,
+        expected_ctc: candidate.expected_ctc,
+        notice_period: candidate.notice_period,
+        dob: candidate.dob,
+
+        job_id: job.id,
+        job_title: job.title,
+        company_name: job.company_name,
+        job_location: job.location,
+        job_location_type: job.job_location_type,
+        job_type: job.job_type,
+        working_type: job.working_type,
+        min_experience_needed: job.min_experience_needed,
+        max_experience_needed: job.max_experience_needed,
+        min_salary: job.salary_min,
+        max_salary: job.salary_max,
+        company_logo_url: job.company_logo_url,
+        job_description: job.description,
+        application_deadline: job.application_deadline,
+        job_status: job.status,
+
+        education: candidate.education || [],
+        experience: candidate.experience || [],
+        tags: tagsByCandidate[candidate.id] || [],
+        hasAccess: true,
+      };
+
+      return result;
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch application"
+      );
+    }
+  }
+);
+
+// Organization pipeline stages, reusing the loaded pipeline when it matches
+async function resolvePipelineStages(
+  getState: () => unknown,
+  organizationId: string
+) {
+  const { pipeline } = (getState() as { pipeline: PipelineState }).pipeline;
+  return pipeline?.organizationId === organizationId
+    ? pipeline.stages
+    : (await loadPipeline(organizationId)).stages;
+}
+
+// Organization rejection reasons, reusing the loaded catalogue when it matches
+async function resolveRejectionReasons(
+  getState: () => unknown,
+  organizationId: string
+) {
+  const { rejectionReasons } = getState() as {
+    rejectionReasons: RejectionReasonsState;
+  };
+  return rejectionReasons.organizationId === organizationId
+    ? rejectionReasons.reasons
+    : (await loadRejectionReasons(organizationId)).reasons;
+}
+
+// Validate and apply one status change, then append it to the history.
+// Moving into a rejected stage needs a reason from the catalogue; the
+// free-text reason is kept as a note alongside it.
+async function changeApplicationStatus({
+  applicationId,
+  status,
+  reason,
+  rejectionReason,
+  userContext,
+  stages,
+  rejectionReasons,
+}: {
+  applicationId: string;
+  status: string;
+  reason?: string;
+  rejectionReason?: string;
+  userContext: UserContext;
+  stages: PipelineStage[];
+  rejectionReasons: RejectionReason[];
+}) {
+  const { roles } = userContext;
+
+  // Check if user has permission to update application status
+  if (
+    !roles.includes("admin") &&
+    !roles.includes("hr") &&
+    !roles.includes("ta")
+  ) {
+    throw new Error("Insufficient permissions to update application status");
+  }
+
+  // Get the job and current stage for this application
+  const { data: appData, error: appError } = await supabase
+    .from("job_applications")
+    .select("job_id, application_status")
+    .eq("id", applicationId)
+    .single();
+
+  if (appError) {
+    throw new Error(`Failed to fetch application: ${appError.message}`);
+  }
+
+  // For TA, check if they have access to the specific job
+  if (!(await hasJobAccess(appData.job_id, userContext))) {
+    throw new Error("You do not have access to update this application");
+  }
+
+  // Validate status against the organization's hiring pipeline
+  const normalizedStatus = status.toLowerCase();
+
+  if (!findStage(stages, normalizedStatus)) {
+    throw new Error(
+      `Invalid status: ${status}. Must be one of: ${stages
+        .map((stage) => stage.key)
+        .join(", ")}`
+    );
+  }
+
+  if (!canTransition(stages, appData.application_status, normalizedStatus)) {
+    throw new Error(
+      `Cannot move an application from "${formatStageLabel(
+        stages,
+        appData.application_status
+      )}" to "${formatStageLabel(stages, normalizedStatus)}"`
+    );
+  }
+
+  const isRejection =
+    findStage(stages, normalizedStatus)?.category === "terminal_negative";
+
+  if (isRejection && !findRejectionReason(rejectionReasons, rejectionReason)) {
+    throw new Error("Pick a rejection reason before rejecting an application");
+  }
+
+  // The update and its history entry are written in one transaction
+  const { data: result, error } = await supabase.rpc(
+    "change_application_status",
+    {
+      p_application_id: applicationId,
+      p_expected_status: appData.application_status,
+      p_status: normalizedStatus,
+      // Cleared when an application leaves the rejected stages
+      p_rejection_reason: isRejection ? rejectionReason : undefined,
+      p_reason: reason?.trim() || undefined,
+    }
+  );
+
+  if (error) {
+    throw new Error(`Failed to update application status: ${error.message}`);
+  }
+
+  const data = result as unknown as {
+    id: string;
+    application_status: string;
+    rejection_reason: string | null;
+    updated_at: string;
+  } | null;
+
+  if (!data) {
+    throw new Error("No data returned from update operation");
+  }
+
+  return {
+    applicationId: data.id,
+    status: data.application_status,
+    rejectionReason: data.rejection_reason,
+    updatedAt: data.updated_at,
+  };
+}
+
+// Enhanced async thunk to update application status with access control
+export const updateApplicationStatusWithAccess = createAsyncThunk(
+  "candidates/updateApplicationStatusWithAccess",
+  async (
+    {
+      applicationId,
+      status,
+      reason,
+      rejectionReason,
+      userContext,
+    }: {
+      applicationId: string;
+      status: string;
+      reason?: string;
+      rejectionReason?: string;
+      userContext: UserContext;
+    },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const [stages, rejectionReasons] = await Promise.all([
+        resolvePipelineStages(getState, userContext.organizationId),
+        resolveRejectionReasons(getState, userContext.organizationId),
+      ]);
+
+      return await changeApplicationStatus({
+        applicationId,
+        status,
+        reason,
+        rejectionReason,
+        userContext,
+        stages,
+        rejectionReasons,
+      });
+    } catch (error) {
+      console.log("updateApplicationStatusWithAccess error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to update application status"
+      );
+    }
+  }
+);
+
+export interface ApplicationTransferResult {
+  mode: ApplicationTransferMode;
+  sourceApplicationId: string;
+  applicationId: string; // The moved application, or the new copy
+  status: string;
+  updatedAt: string;
+  job: { id: string; title: string; companyName: string | null };
+}
+
+// Move an application to another job, or copy it into a new application
+// for that job. The candidate profile is shared either way, and the
+// transfer_application function records the link in the status history of
+// both applications in the same transaction.
+export const transferApplication = createAsyncThunk(
+  "candidates/transferApplication",
+  async (
+    {
+      applicationId,
+      targetJobId,
+      mode,
+      reason,
+      userContext,
+    }: {
+      applicationId: string;
+      targetJobId: string;
+      mode: ApplicationTransferMode;
+      reason?: string;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { roles, organizationId } = userContext;
+      if (!roles.includes("admin") && !roles.includes("hr")) {
+        throw new Error("Only admins and HR can move or copy applications");
+      }
+
+      const { data: source, error: sourceError } = await supabase
+        .from("job_applications")
+        .select(
+          "id, job_id, candidate_id, application_status, source, source_detail, source_campaign"
+        )
+        .eq("id", applicationId)
+        .single();
+
+      if (sourceError) {
+        throw new Error(`Failed to fetch application: ${sourceError.message}`);
+      }
+      if (source.job_id === targetJobId) {
+        throw new Error("The application is already for this job");
+      }
+
+      const [sourceAccess, targetAccess] = await Promise.all([
+        hasJobAccess(source.job_id, userContext),
+        hasJobAccess(targetJobId, userContext),
+      ]);
+      if (!sourceAccess) {
+        throw new Error("You do not have access to this application's job");
+      }
+      if (!targetAccess) {
+        throw new Error("You do not have access to the selected job");
+      }
+
+      const { data: targetJob, error: jobError } = await supabase
+        .from("jobs")
+        .select("id, title, company_name, organization_id")
+        .eq("id", targetJobId)
+        .single();
+
+      if (jobError) {
+        throw new Error(`Failed to fetch job: ${jobError.message}`);
+      }
+      if (targetJob.organization_id !== organizationId) {
+        throw new Error("The selected job belongs to another organization");
+      }
+
+      const { data: existing, error: existingError } = await supabase
+        .from("job_applications")
+        .select("id")
+        .eq("candidate_id", source.candidate_id)
+        .eq("job_id", targetJobId)
+        .limit(1);
+
+      if (existingError) {
+        throw new Error(
+          `Failed to check existing applications: ${existingError.message}`
+        );
+      }
+      if (existing && existing.length > 0) {
+        throw new Error("The candidate has already applied to this job");
+      }
+
+      // Copies start over at the first stage of the pipeline
+      const status =
+        mode === "copy"
+          ? initialStage((await loadPipeline(organizationId)).stages)
+          : undefined;
+
+      const { data, error } = await supabase.rpc("transfer_application", {
+        p_application_id: applicationId,
+        p_target_job_id: targetJobId,
+        p_mode: mode,
+        p_status: status,
+        p_reason: reason?.trim() || undefined,
+      });
+
+      if (error) {
+        throw new Error(`Failed to ${mode} application: ${error.message}`);
+      }
+
+      const transferred = data as {
+        id: string;
+        application_status: string;
+        updated_at: string;
+      };
+
+      return {
+        mode,
+        sourceApplicationId: applicationId,
+        applicationId: transferred.id,
+        status: transferred.application_status,
+        updatedAt: transferred.updated_at,
+        job: {
+          id: targetJob.id,
+          title: targetJob.title,
+          companyName: targetJob.company_name,
+        },
+      };
+    } catch (error) {
+      console.log("transferApplication error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to transfer application"
+      );
+    }
+  }
+);
+
+//Enhaced async thunk for deleting a candidate application
+export const deleteCandidateApplication = createAsyncThunk(
+  "candidates/deleteCandidateApplication",
+  async (applicationId: string, { rejectWithValue, getState }) => {
+    const state = getState() as RootState;
+    const userContext = state.candidates.userContext;
+
+    if (!userContext) {
+      return rejectWithValue("User context is not available");
+    }
+
+    console.log("deleteCandidateApplication called with:", applicationId);
+
+    //only admin and hr can delete applications
+    if (
+      !userContext.roles.includes("admin") &&
+      !userContext.roles.includes("hr")
+    ) {
+      return rejectWithValue(
+        "You do not have permission to delete applications"
+      );
+    }
+
+    try {
+      const response = await supabase
+        .from("job_applications")
+        .delete()
+        .eq("id", applicationId)
+        .single();
+
+      if (response.error) {
+        throw new Error(
+          `Failed to delete application: ${response.error.message}`
+        );
+      }
+
+      return applicationId;
+    } catch (error) {
+      console.log("deleteCandidateApplication error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to delete candidate application"
+      );
+    }
+  }
+);
+
+type PipelineState = { pipeline: HiringPipeline | null };
+type RejectionReasonsState = {
+  organizationId: string | null;
+  reasons: RejectionReason[];
+};
+
+// Outcome of a bulk action for a single application
+export interface BulkActionResult {
+  applicationId: string;
+  success: boolean;
+  error?: string;
+}
+
+// Requests in flight at once while running a bulk action
+const BULK_CONCURRENCY = 5;
+// Page size used when collecting every application matching the filters, and
+// the most ids sent in one bulk delete
+const BULK_FETCH_LIMIT = 200;
+
+// Run an action for each application and report every row separately
+async function runForEach(
+  applicationIds: string[],
+  action: (applicationId: string) => Promise<unknown>
+): Promise<BulkActionResult[]> {
+  const results: BulkActionResult[] = [];
+
+  for (let i = 0; i < applicationIds.length; i += BULK_CONCURRENCY) {
+    const batch = applicationIds.slice(i, i + BULK_CONCURRENCY);
+    const settled = await Promise.allSettled(batch.map(action));
+
+    settled.forEach((outcome, index) => {
+      results.push(
+        outcome.status === "fulfilled"
+          ? { applicationId: batch[index], success: true }
+          : {
+              applicationId: batch[index],
+              success: false,
+              error:
+                outcome.reason instanceof Error
+                  ? outcome.reason.message
+                  : String(outcome.reason),
+            }
+      );
+    });
+  }
+
+  return results;
+}
+
+// Collect every application matching the filters, across all pages
+export const fetchAllMatchingCandidates = createAsyncThunk(
+  "candidates/fetchAllMatchingCandidates",
+  async (
+    {
+      filters,
+      userContext,
+    }: {
+      filters: Partial<CandidateFilters>;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const candidates: CandidateWithApplication[] = [];
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const response = await queryCandidatesWithAccess({
+          filters,
+          userContext,
+          page,
+          limit: BULK_FETCH_LIMIT,
+        });
+        candidates.push(...response.candidates);
+        totalPages = response.total_pages;
+        page += 1;
+      } while (page <= totalPages);
+
+      return candidates;
+    } catch (error) {
+      console.log("fetchAllMatchingCandidates error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch matching candidates"
+      );
+    }
+  }
+);
+
+// Move several applications to one stage, reporting each row separately
+export const bulkUpdateApplicationStatus = createAsyncThunk(
+  "candidates/bulkUpdateApplicationStatus",
+  async (
+    {
+      applicationIds,
+      status,
+      reason,
+      rejectionReason,
+      userContext,
+    }: {
+      applicationIds: string[];
+      status: string;
+      reason?: string;
+      rejectionReason?: string;
+      userContext: UserContext;
+    },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const [stages, rejectionReasons] = await Promise.all([
+        resolvePipelineStages(getState, userContext.organizationId),
+        resolveRejectionReasons(getState, userContext.organizationId),
+      ]);
+      const updates: Record<
+        string,
+        { status: string; rejectionReason: string | null; updatedAt: string }
+      > = {};
+
+      const results = await runForEach(applicationIds, async (applicationId) => {
+        const updated = await changeApplicationStatus({
+          applicationId,
+          status,
+          reason,
+          rejectionReason,
+          userContext,
+          stages,
+          rejectionReasons,
+        });
+        updates[applicationId] = {
+          status: updated.status,
+          rejectionReason: updated.rejectionReason,
+          updatedAt: updated.updatedAt,
+        };
+      });
+
+      return { results, updates };
+    } catch (error) {
+      console.log("bulkUpdateApplicationStatus error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to update application statuses"
+      );
+    }
+  }
+);
+
+// Delete several applications, reporting each row separately
+export const bulkDeleteApplications = createAsyncThunk(
+  "candidates/bulkDeleteApplications",
+  async (
+    {
+      applicationIds,
+      userContext,
+    }: {
+      applicationIds: string[];
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    //only admin and hr can delete applications
+    if (
+      !userContext.roles.includes("admin") &&
+      !userContext.roles.includes("hr")
+    ) {
+      return rejectWithValue(
+        "You do not have permission to delete applications"
+      );
+    }
+
+    try {
+      const results: BulkActionResult[] = [];
+
+      // Row level security skips rows without an error, so only the ids
+      // that come back were deleted
+      for (let i = 0; i < applicationIds.length; i += BULK_FETCH_LIMIT) {
+        const batch = applicationIds.slice(i, i + BULK_FETCH_LIMIT);
+        const { data, error } = await supabase
+          .from("job_applications")
+          .delete()
+          .in("id", batch)
+          .select("id");
+
+        const deleted = new Set((data || []).map((row) => row.id));
+        batch.forEach((applicationId) => {
+          results.push(
+            deleted.has(applicationId)
+              ? { applicationId, success: true }
+              : {
+                  applicationId,
+                  success: false,
+                  error: error
+                    ? `Failed to delete application: ${error.message}`
+                    : "You do not have permission to delete this application",
+                }
+          );
+        });
+      }
+
+      return results;
+    } catch (error) {
+      console.log("bulkDeleteApplications error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to delete applications"
+      );
+    }
+  }
+);
+
+// Add or remove organization tags on one candidate
+async function changeCandidateTags({
+  candidateId,
+  addTagIds,
+  removeTagIds,
+  userContext,
+}: {
+  candidateId: string;
+  addTagIds: string[];
+  removeTagIds: string[];
+  userContext: UserContext;
+}) {
+  if (removeTagIds.length > 0) {
+    const { error } = await supabase
+      .from("candidate_tag_assignments")
+      .delete()
+      .eq("candidate_id", candidateId)
+      .in("tag_id", removeTagIds);
+
+    if (error) {
+      throw new Error(`Failed to remove tags: ${error.message}`);
+    }
+  }
 
-    // Fetch jobs for the new page with current filters
-    return dispatch(
-      fetchJobApplicationsWithAccess({
-        page: params.page,
-        limit: pagination.candidatesPerPage,
-        filters,
-        userContext: params.userContext,
-      })
+  if (addTagIds.length > 0) {
+    const { error } = await supabase.from("candidate_tag_assignments").upsert(
+      addTagIds.map((tagId) => ({
+        candidate_id: candidateId,
+        tag_id: tagId,
+        assigned_by: userContext.userId,
+      })),
+      { onConflict: "candidate_id,tag_id", ignoreDuplicates: true }
     );
+
+    if (error) {
+      throw new Error(`Failed to add tags: ${error.message}`);
+    }
   }
-);
+}
 
-// Helper function to check if user can access a specific job
-export const checkJobAccess = createAsyncThunk(
-  "candidates/checkJobAccess",
+// Replace a candidate's tags, checked against the application they were
+// opened from
+export const setCandidateTags = createAsyncThunk(
+  "candidates/setCandidateTags",
   async (
-    { jobId, userContext }: { jobId: string; userContext: UserContext },
+    {
+      applicationId,
+      candidateId,
+      tagIds,
+      userContext,
+    }: {
+      applicationId: string;
+      candidateId: string;
+      tagIds: string[];
+      userContext: UserContext;
+    },
     { rejectWithValue }
   ) => {
     try {
-      const { userId, roles } = userContext;
-
-      // Admin and HR have access to all jobs
-      if (roles.includes("admin") || roles.includes("hr")) {
-        return { jobId, hasAccess: true };
+      if (!(await hasApplicationAccess(applicationId, userContext))) {
+        throw new Error("You do not have access to this application's job");
       }
 
-      // For TA, check job_access_control table
-      if (roles.includes("ta")) {
-        const { data, error } = await supabase
-          .from("job_access_control")
-          .select("access_type")
-          .eq("job_id", jobId)
-          .eq("user_id", userId)
-          .single();
-
-        if (error && error.code !== "PGRST116") {
-          // PGRST116 is "not found"
-          throw new Error(`Failed to check job access: ${error.message}`);
-        }
+      const current = (
+        (await loadCandidateTags([candidateId], userContext.organizationId))[
+          candidateId
+        ] || []
+      ).map((tag) => tag.id);
+
+      await changeCandidateTags({
+        candidateId,
+        addTagIds: tagIds.filter((id) => !current.includes(id)),
+        removeTagIds: current.filter((id) => !tagIds.includes(id)),
+        userContext,
+      });
 
-        return {
-          jobId,
-          hasAccess: data?.access_type === "granted" || false,
-        };
-      }
+      const tags =
+        (await loadCandidateTags([candidateId], userContext.organizationId))[
+          candidateId
+        ] || [];
 
-      return { jobId, hasAccess: false };
+      return { candidateId, tags };
     } catch (error) {
+      console.log("setCandidateTags error:", error);
       return rejectWithValue(
-        error instanceof Error ? error.message : "Failed to check job access"
+        error instanceof Error ? error.message : "Failed to update tags"
       );
     }
   }
 );
 
-// Enhanced async thunk to update application status with access control
-export const updateApplicationStatusWithAccess = createAsyncThunk(
-  "candidates/updateApplicationStatusWithAccess",
+export const APPLICATION_SOURCE_FIELD_MAX_LENGTH = 100;
+
+// Where an application came from: the channel plus free-text sub-source
+// (board name, referrer, agency) and campaign
+export const updateApplicationSource = createAsyncThunk(
+  "candidates/updateApplicationSource",
   async (
     {
       applicationId,
-      status,
+      source,
+      sourceDetail,
+      sourceCampaign,
       userContext,
     }: {
       applicationId: string;
-      status: string;
+      source: ApplicationSource | null;
+      sourceDetail: string;
+      sourceCampaign: string;
       userContext: UserContext;
     },
     { rejectWithValue }
   ) => {
     try {
-      const { userId, roles } = userContext;
-
-      // Check if user has permission to update application status
-      if (
-        !roles.includes("admin") &&
-        !roles.includes("hr") &&
-        !roles.includes("ta")
-      ) {
-        throw new Error(
-          "Insufficient permissions to update application status"
-        );
+      if (source !== null && !APPLICATION_SOURCES.includes(source)) {
+        throw new Error(`Invalid source: ${source}`);
       }
-
-      // For TA, check if they have access to the specific job
       if (
-        roles.includes("ta") &&
-        !roles.includes("admin") &&
-        !roles.includes("hr")
+        sourceDetail.trim().length > APPLICATION_SOURCE_FIELD_MAX_LENGTH ||
+        sourceCampaign.trim().length > APPLICATION_SOURCE_FIELD_MAX_LENGTH
       ) {
-        // First get the job_id for this application
-        const { data: appData, error: appError } = await supabase
-          .from("job_applications")
-          .select("job_id")
-          .eq("id", applicationId)
-          .single();
-
-        if (appError) {
-          throw new Error(`Failed to fetch application: ${appError.message}`);
-        }
-
-        // Check if TA has access to this job
-        const { data: accessData, error: accessError } = await supabase
-          .from("job_access_control")
-          .select("access_type")
-          .eq("job_id", appData.job_id)
-          .eq("user_id", userId)
-          .single();
-
-        if (accessError && accessError.code !== "PGRST116") {
-          throw new Error(`Failed to check job access: ${accessError.message}`);
-        }
-
-        if (!accessData || accessData.access_type !== "granted") {
-          throw new Error("You do not have access to update this application");
-        }
-      }
-
-      // Validate status
-      const validStatuses = ["pending", "accepted", "rejected"];
-      const normalizedStatus = status.toLowerCase();
-
-      if (!validStatuses.includes(normalizedStatus)) {
         throw new Error(
-          `Invalid status: ${status}. Must be one of: ${validStatuses.join(
-            ", "
-          )}`
+          `Sub-source and campaign must be at most ${APPLICATION_SOURCE_FIELD_MAX_LENGTH} characters`
         );
       }
+      if (!(await hasApplicationAccess(applicationId, userContext))) {
+        throw new Error("You do not have access to this application's job");
+      }
 
       const { data, error } = await supabase
         .from("job_applications")
         .update({
-          application_status: normalizedStatus,
+          source,
+          source_detail: sourceDetail.trim() || null,
+          source_campaign: sourceCampaign.trim() || null,
           updated_at: new Date().toISOString(),
         })
         .eq("id", applicationId)
-        .select("id, application_status, updated_at")
+        .select("id, source, source_detail, source_campaign, updated_at")
         .single();
 
       if (error) {
-        throw new Error(
-          `Failed to update application status: ${error.message}`
-        );
-      }
-
-      if (!data) {
-        throw new Error("No data returned from update operation");
+        throw new Error(`Failed to update source: ${error.message}`);
       }
 
       return {
         applicationId: data.id,
-        status: data.application_status,
+        source: data.source,
+        sourceDetail: data.source_detail,
+        sourceCampaign: data.source_campaign,
         updatedAt: data.updated_at,
       };
     } catch (error) {
-      console.log("updateApplicationStatusWithAccess error:", error);
+      console.log("updateApplicationSource error:", error);
       return rejectWithValue(
-        error instanceof Error
-          ? error.message
-          : "Failed to update application status"
+        error instanceof Error ? error.message : "Failed to update source"
       );
     }
   }
 );
 
-//Enhaced async thunk for deleting a candidate application
-export const deleteCandidateApplication = createAsyncThunk(
-  "candidates/deleteCandidateApplication",
-  async (applicationId: string, { rejectWithValue, getState }) => {
-    const state = getState() as RootState;
-    const userContext = state.candidates.userContext;
+// Add or remove tags on the candidates of several applications
+export const bulkUpdateCandidateTags = createAsyncThunk(
+  "candidates/bulkUpdateCandidateTags",
+  async (
+    {
+      targets,
+      tagIds,
+      mode,
+      userContext,
+    }: {
+      targets: { applicationId: string; candidateId: string }[];
+      tagIds: string[];
+      mode: "add" | "remove";
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const candidateIds = Object.fromEntries(
+        targets.map((target) => [target.applicationId, target.candidateId])
+      );
 
-    if (!userContext) {
-      return rejectWithValue("User context is not available");
+      return await runForEach(Object.keys(candidateIds), async (applicationId) => {
+        if (!(await hasApplicationAccess(applicationId, userContext))) {
+          throw new Error("You do not have access to this application's job");
+        }
+        await changeCandidateTags({
+          candidateId: candidateIds[applicationId],
+          addTagIds: mode === "add" ? tagIds : [],
+          removeTagIds: mode === "remove" ? tagIds : [],
+          userContext,
+        });
+      });
+    } catch (error) {
+      console.log("bulkUpdateCandidateTags error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to update tags"
+      );
     }
+  }
+);
 
-    console.log("deleteCandidateApplication called with:", applicationId);
+// Insert experience and education rows reviewed from a parsed resume
+export const importResumeRecords = createAsyncThunk(
+  "candidates/importResumeRecords",
+  async (
+    {
+      applicationId,
+      candidateId,
+      experience,
+      education,
+      userContext,
+    }: {
+      applicationId: string;
+      candidateId: string;
+      experience: ParsedExperience[];
+      education: ParsedEducation[];
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!(await hasApplicationAccess(applicationId, userContext))) {
+        throw new Error("You do not have access to this application's job");
+      }
 
-    //only admin and hr can delete applications
-    if (
-      !userContext.roles.includes("admin") &&
-      !userContext.roles.includes("hr")
-    ) {
+      if (
+        experience.some(
+          (entry) =>
+            !entry.companyName.trim() ||
+            !entry.jobTitle.trim() ||
+            !entry.startDate
+        )
+      ) {
+        throw new Error("Experience entries need a company, title and start date");
+      }
+      if (education.some((entry) => !entry.institution.trim())) {
+        throw new Error("Education entries need an institution");
+      }
+
+      let insertedExperience: Experience[] = [];
+      if (experience.length > 0) {
+        const { data, error } = await supabase
+          .from("experience")
+          .insert(
+            experience.map((entry) => ({
+              profile_id: candidateId,
+              company_name: entry.companyName.trim(),
+              job_title: entry.jobTitle.trim(),
+              start_date: entry.startDate as string,
+              end_date: entry.currentlyWorking ? null : entry.endDate,
+              currently_working: entry.currentlyWorking,
+            }))
+          )
+          .select();
+
+        if (error) {
+          throw new Error(`Failed to add experience: ${error.message}`);
+        }
+        insertedExperience = data || [];
+      }
+
+      let insertedEducation: Education[] = [];
+      if (education.length > 0) {
+        const { data, error } = await supabase
+          .from("education")
+          .insert(
+            education.map((entry) => ({
+              profile_id: candidateId,
+              college_university: entry.institution.trim(),
+              degree: entry.degree?.trim() || null,
+              field_of_study: entry.fieldOfStudy?.trim() || null,
+              start_date: entry.startDate,
+              end_date: entry.isCurrent ? null : entry.endDate,
+              is_current: entry.isCurrent,
+            }))
+          )
+          .select();
+
+        if (error) {
+          throw new Error(`Failed to add education: ${error.message}`);
+        }
+        insertedEducation = data || [];
+      }
+
+      return {
+        candidateId,
+        experience: insertedExperience,
+        education: insertedEducation,
+      };
+    } catch (error) {
+      console.log("importResumeRecords error:", error);
       return rejectWithValue(
-        "You do not have permission to delete applications"
+        error instanceof Error ? error.message : "Failed to import resume"
       );
     }
+  }
+);
 
+// Fetch the saved in-column order of applications on a job's board
+export const fetchBoardPositions = createAsyncThunk(
+  "candidates/fetchBoardPositions",
+  async (jobId: string, { rejectWithValue }) => {
     try {
-      const response = await supabase
+      const { data, error } = await supabase
         .from("job_applications")
-        .delete()
-        .eq("id", applicationId)
-        .single();
+        .select("id, board_position")
+        .eq("job_id", jobId)
+        .not("board_position", "is", null);
 
-      if (response.error) {
-        throw new Error(
-          `Failed to delete application: ${response.error.message}`
-        );
+      if (error) {
+        throw new Error(`Failed to fetch board order: ${error.message}`);
       }
 
-      return applicationId;
+      const positions: Record<string, number> = {};
+      (data || []).forEach((row) => {
+        if (row.board_position !== null) {
+          positions[row.id] = row.board_position;
+        }
+      });
+
+      return positions;
     } catch (error) {
-      console.log("deleteCandidateApplication error:", error);
       return rejectWithValue(
-        error instanceof Error
-          ? error.message
-          : "Failed to delete candidate application"
+        error instanceof Error ? error.message : "Failed to fetch board order"
+      );
+    }
+  }
+);
+
+// Persist the ranking of one board column
+export const saveBoardOrder = createAsyncThunk(
+  "candidates/saveBoardOrder",
+  async (
+    {
+      jobId,
+      applicationIds,
+      userContext,
+    }: {
+      jobId: string;
+      applicationIds: string[];
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!(await hasJobAccess(jobId, userContext))) {
+        throw new Error("You do not have access to reorder this job's board");
+      }
+
+      const results = await Promise.all(
+        applicationIds.map((applicationId, index) =>
+          supabase
+            .from("job_applications")
+            .update({ board_position: index })
+            .eq("id", applicationId)
+            .eq("job_id", jobId)
+        )
+      );
+
+      const failed = results.find((result) => result.error);
+      if (failed?.error) {
+        throw new Error(`Failed to save board order: ${failed.error.message}`);
+      }
+
+      const positions: Record<string, number> = {};
+      applicationIds.forEach((applicationId, index) => {
+        positions[applicationId] = index;
+      });
+
+      return positions;
+    } catch (error) {
+      console.log("saveBoardOrder error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to save board order"
       );
     }
   }
@@ -804,8 +1890,41 @@ interface CandidatesState {
 
   // Access control for TA users
   accessibleJobs: string[];
+
+  // Board order keyed by application ID
+  boardPositions: Record<string, number>;
+
+  // A job's applications as loaded for the board, apart from the table
+  board: {
+    jobId: string | null;
+    candidates: CandidateWithApplication[];
+    totalCount: number;
+    loading: boolean;
+  };
 }
 
+const initialBoardState: CandidatesState["board"] = {
+  jobId: null,
+  candidates: [],
+  totalCount: 0,
+  loading: false,
+};
+
+// Every loaded copy of an application, in the table and on the board
+const loadedApplications = (state: CandidatesState, applicationId: string) =>
+  [...state.candidates, ...state.board.candidates].filter(
+    (candidate) => candidate.application_id === applicationId
+  );
+
+// Every loaded application of a candidate, in the table and on the board
+const loadedCandidateApplications = (
+  state: CandidatesState,
+  candidateId: string
+) =>
+  [...state.candidates, ...state.board.candidates].filter(
+    (candidate) => candidate.id === candidateId
+  );
+
 const initialState: CandidatesState = {
   // Core data
   candidates: [],
@@ -852,6 +1971,9 @@ const initialState: CandidatesState = {
 
   // Access control
   accessibleJobs: [],
+
+  boardPositions: {},
+  board: initialBoardState,
 };
 
 const candidatesSlice = createSlice({
@@ -929,16 +2051,15 @@ const candidatesSlice = createSlice({
     },
 
     updateApplicationStatusInList: (state, action) => {
-      const { applicationId, status, updatedAt } = action.payload;
-
-      // Update in candidates list
-      const candidateIndex = state.candidates.findIndex(
-        (c) => c.application_id === applicationId
-      );
-      if (candidateIndex !== -1) {
-        state.candidates[candidateIndex].application_status = status;
-        state.candidates[candidateIndex].updated_at = updatedAt;
-      }
+      const { applicationId, status, rejectionReason, updatedAt } =
+        action.payload;
+
+      // Update in the candidates list and on the board
+      loadedApplications(state, applicationId).forEach((candidate) => {
+        candidate.application_status = status;
+        candidate.rejection_reason = rejectionReason ?? null;
+        candidate.updated_at = updatedAt;
+      });
 
       // Update current candidate if it matches
       if (
@@ -946,14 +2067,60 @@ const candidatesSlice = createSlice({
         state.currentCandidate.application_id === applicationId
       ) {
         state.currentCandidate.application_status = status;
+        state.currentCandidate.rejection_reason = rejectionReason ?? null;
         state.currentCandidate.updated_at = updatedAt;
       }
     },
 
+    // Mirror an erasure in every loaded application of the candidate
+    markCandidateAnonymized: (state, action: PayloadAction<string>) => {
+      const anonymize = (candidate: CandidateWithApplication) => {
+        candidate.name = ANONYMIZED_CANDIDATE_NAME;
+        candidate.candidate_email = "";
+        candidate.auth_id = null;
+        candidate.mobile_number = null;
+        candidate.address = null;
+        candidate.gender = null;
+        candidate.disability = null;
+        candidate.dob = null;
+        candidate.current_ctc = null;
+        candidate.expected_ctc = null;
+        candidate.notice_period = null;
+        candidate.linkedin_url = null;
+        candidate.portfolio_url = null;
+        candidate.resume_link = null;
+        candidate.additional_doc_link = null;
+        candidate.source_detail = null;
+        candidate.education = [];
+        candidate.experience = [];
+        candidate.search_snippet = null;
+      };
+
+      loadedCandidateApplications(state, action.payload).forEach(anonymize);
+      if (state.currentCandidate?.id === action.payload) {
+        anonymize(state.currentCandidate);
+      }
+    },
+
     setAccessibleJobs: (state, action) => {
       state.accessibleJobs = action.payload;
     },
 
+    // Used for optimistic board moves and their rollback
+    setBoardPositions: (
+      state,
+      action: PayloadAction<Record<string, number>>
+    ) => {
+      state.boardPositions = { ...state.boardPositions, ...action.payload };
+    },
+
+    replaceBoardPositions: (
+      state,
+      action: PayloadAction<Record<string, number>>
+    ) => {
+      state.boardPositions = action.payload;
+    },
+
     // Pagination actions
     setCurrentPage: (state, action) => {
       state.pagination.currentPage = action.payload;
@@ -993,6 +2160,26 @@ const candidatesSlice = createSlice({
         state.candidates = [];
       })
 
+      .addCase(fetchBoardApplications.pending, (state, action) => {
+        state.board.loading = true;
+        state.error = null;
+        if (state.board.jobId !== action.meta.arg.jobId) {
+          state.board = { ...initialBoardState, loading: true };
+        }
+      })
+      .addCase(fetchBoardApplications.fulfilled, (state, action) => {
+        state.board = {
+          jobId: action.payload.jobId,
+          candidates: action.payload.candidates,
+          totalCount: action.payload.totalCount,
+          loading: false,
+        };
+      })
+      .addCase(fetchBoardApplications.rejected, (state, action) => {
+        state.board.loading = false;
+        state.error = action.payload as string;
+      })
+
       // Update application status with access control
       .addCase(updateApplicationStatusWithAccess.pending, (state) => {
         state.error = null;
@@ -1025,7 +2212,10 @@ const candidatesSlice = createSlice({
         state.error = null;
         const applicationId = action.payload;
         state.candidates = state.candidates.filter(
-          (candidate) => candidate.id !== applicationId
+          (candidate) => candidate.application_id !== applicationId
+        );
+        state.board.candidates = state.board.candidates.filter(
+          (candidate) => candidate.application_id !== applicationId
         );
       })
       .addCase(deleteCandidateApplication.rejected, (state, action) => {
@@ -1033,6 +2223,88 @@ const candidatesSlice = createSlice({
         state.error = action.payload as string;
       })
 
+      .addCase(updateApplicationSource.fulfilled, (state, action) => {
+        const { applicationId, source, sourceDetail, sourceCampaign, updatedAt } =
+          action.payload;
+        loadedApplications(state, applicationId).forEach((candidate) => {
+          candidate.source = source;
+          candidate.source_detail = sourceDetail;
+          candidate.source_campaign = sourceCampaign;
+          candidate.updated_at = updatedAt;
+        });
+      })
+
+      // A moved application now belongs to the other job; copies show up
+      // once the list is refreshed
+      .addCase(transferApplication.fulfilled, (state, action) => {
+        if (action.payload.mode !== "move") return;
+        const { applicationId, job, updatedAt } = action.payload;
+        loadedApplications(state, applicationId).forEach((candidate) => {
+          candidate.job_id = job.id;
+          candidate.job_title = job.title;
+          candidate.company_name = job.companyName;
+          candidate.updated_at = updatedAt;
+        });
+      })
+
+      // Bulk actions
+      .addCase(bulkUpdateApplicationStatus.fulfilled, (state, action) => {
+        const { updates } = action.payload;
+        state.candidates.forEach((candidate) => {
+          const update = updates[candidate.application_id];
+          if (update) {
+            candidate.application_status = update.status;
+            candidate.rejection_reason = update.rejectionReason;
+            candidate.updated_at = update.updatedAt;
+          }
+        });
+      })
+      .addCase(bulkDeleteApplications.fulfilled, (state, action) => {
+        const deleted = new Set(
+          action.payload
+            .filter((result) => result.success)
+            .map((result) => result.applicationId)
+        );
+        state.candidates = state.candidates.filter(
+          (candidate) => !deleted.has(candidate.application_id)
+        );
+        state.pagination.totalCandidates = Math.max(
+          0,
+          state.pagination.totalCandidates - deleted.size
+        );
+      })
+
+      // Tags live on the candidate, so every application of theirs changes
+      .addCase(setCandidateTags.fulfilled, (state, action) => {
+        const { candidateId, tags } = action.payload;
+        loadedCandidateApplications(state, candidateId).forEach((candidate) => {
+          candidate.tags = tags;
+        });
+        if (state.currentCandidate?.id === candidateId) {
+          state.currentCandidate.tags = tags;
+        }
+      })
+
+      .addCase(importResumeRecords.fulfilled, (state, action) => {
+        const { candidateId, experience, education } = action.payload;
+        const apply = (candidate: CandidateWithApplication) => {
+          candidate.experience = [...(candidate.experience || []), ...experience];
+          candidate.education = [...(candidate.education || []), ...education];
+        };
+        loadedCandidateApplications(state, candidateId).forEach(apply);
+        if (state.currentCandidate?.id === candidateId) {
+          apply(state.currentCandidate);
+        }
+      })
+
+      // Board order
+      .addCase(fetchBoardPositions.fulfilled, (state, action) => {
+        state.boardPositions = action.payload;
+      })
+      .addCase(saveBoardOrder.fulfilled, (state, action) => {
+        state.boardPositions = { ...state.boardPositions, ...action.payload };
+      })
+
       // Fetch filter options
       .addCase(fetchFilterOptions.pending, (state) => {
         state.filterOptions.loading = true;
@@ -1112,6 +2384,8 @@ const candidatesSlice = createSlice({
         state.lastFetched = null;
         state.userContext = null;
         state.accessibleJobs = [];
+        state.boardPositions = {};
+        state.board = initialBoardState;
       });
   },
 });
@@ -1128,7 +2402,10 @@ export const {
   setPagination,
   setPageSize,
   updateApplicationStatusInList,
+  markCandidateAnonymized,
   setAccessibleJobs,
+  setBoardPositions,
+  replaceBoardPositions,
   setCurrentPage,
   setCandidatesPerPage,
   clearCandidates,
@@ -1157,6 +2434,14 @@ export const selectAccessibleJobs = (state: RootState) =>
   state.candidates.accessibleJobs;
 export const selectFilterOptions = (state: RootState) =>
   state.candidates.filterOptions;
+export const selectBoardCandidates = (state: RootState) =>
+  state.candidates.board.candidates;
+export const selectBoardTotalCount = (state: RootState) =>
+  state.candidates.board.totalCount;
+export const selectBoardLoading = (state: RootState) =>
+  state.candidates.board.loading;
+export const selectBoardPositions = (state: RootState) =>
+  state.candidates.boardPositions;
 
 // Role-based access selectors
 export const selectUserRoles = (state: RootState) =>
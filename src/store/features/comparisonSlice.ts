@@ -0,0 +1,188 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  CandidateWithApplication,
+  hasApplicationAccess,
+  UserContext,
+} from "./candidatesSlice";
+import { StoredFitScoreItem, toFitScore } from "@/utils/fit-score";
+
+const supabase = createClient();
+
+export const MIN_COMPARED_APPLICATIONS = 2;
+export const MAX_COMPARED_APPLICATIONS = 4;
+
+interface ComparisonState {
+  applications: CandidateWithApplication[];
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: ComparisonState = {
+  applications: [],
+  loading: false,
+  error: null,
+};
+
+// Load the applications being compared, in the order they were picked
+export const fetchComparedApplications = createAsyncThunk(
+  "comparison/fetchComparedApplications",
+  async (
+    {
+      applicationIds,
+      userContext,
+    }: { applicationIds: string[]; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      const ids = Array.from(new Set(applicationIds));
+      if (
+        ids.length < MIN_COMPARED_APPLICATIONS ||
+        ids.length > MAX_COMPARED_APPLICATIONS
+      ) {
+        throw new Error(
+          `Select ${MIN_COMPARED_APPLICATIONS} to ${MAX_COMPARED_APPLICATIONS} applications to compare`
+        );
+      }
+
+      const access = await Promise.all(
+        ids.map((id) => hasApplicationAccess(id, userContext))
+      );
+      if (access.includes(false)) {
+        throw new Error("You do not have access to one of these applications");
+      }
+
+      const { data, error } = await supabase
+        .from("job_applications")
+        .select(
+          "id, application_status, applied_date, created_at, updated_at, candidate:candidates_profiles!job_applications_candidate_id_fkey(*, education(*), experience(*)), job:jobs!job_applications_job_id_fkey(*)"
+        )
+        .in("id", ids);
+
+      if (error) {
+        throw new Error(`Failed to fetch applications: ${error.message}`);
+      }
+
+      const rows = (data || []).filter(
+        (row) => row.job?.organization_id === userContext.organizationId
+      );
+      if (rows.length !== ids.length) {
+        throw new Error("Some of these applications could not be found");
+      }
+
+      const fits = await Promise.all(
+        ids.map(async (id) => {
+          const { data: fit, error: fitError } = await supabase.rpc(
+            "application_fit_score",
+            { p_application_id: id }
+          );
+          if (fitError) {
+            throw new Error(`Failed to fetch fit score: ${fitError.message}`);
+          }
+          const stored = fit as {
+            total: number | null;
+            items: StoredFitScoreItem[];
+            notice_days: number | null;
+          } | null;
+          return toFitScore(stored?.total, stored?.items, stored?.notice_days);
+        })
+      );
+
+      return ids.map((id, index): CandidateWithApplication => {
+        const row = rows.find((application) => application.id === id)!;
+        const { candidate, job } = row;
+        if (!candidate || !job) {
+          throw new Error("Some of these applications could not be found");
+        }
+
+        return {
+          application_id: row.id,
+          applied_date: row.applied_date,
+          application_status: row.application_status,
+          created_at: row.created_at,
+          updated_at: row.updated_at,
+
+          id: candidate.id,
+          auth_id: candidate.auth_id,
+          name: candidate.name,
+          candidate_email: candidate.candidate_email,
+          mobile_number: candidate.mobile_number,
+          address: candidate.address,
+          gender: candidate.gender,
+          disability: candidate.disability,
+          resume_link: candidate.resume_link,
+          portfolio_url: candidate.portfolio_url,
+          linkedin_url: candidate.linkedin_url,
+          additional_doc_link: candidate.additional_doc_link,
+          current_ctc: candidate.current_ctc,
+          expected_ctc: candidate.expected_ctc,
+          notice_period: candidate.notice_period,
+          dob: candidate.dob,
+
+          job_id: job.id,
+          job_title: job.title,
+          company_name: job.company_name,
+          job_location: job.location,
+          job_location_type: job.job_location_type,
+          job_type: job.job_type,
+          working_type: job.working_type,
+          min_experience_needed: job.min_experience_needed,
+          max_experience_needed: job.max_experience_needed,
+          min_salary: job.salary_min,
+          max_salary: job.salary_max,
+          company_logo_url: job.company_logo_url,
+          job_description: job.description,
+          application_deadline: job.application_deadline,
+          job_status: job.status,
+
+          fit_score: fits[index].total,
+          fit: fits[index],
+
+          education: candidate.education || [],
+          experience: candidate.experience || [],
+          hasAccess: true,
+        };
+      });
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch applications"
+      );
+    }
+  }
+);
+
+const comparisonSlice = createSlice({
+  name: "comparison",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchComparedApplications.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchComparedApplications.fulfilled, (state, action) => {
+        state.loading = false;
+        state.applications = action.payload;
+      })
+      .addCase(fetchComparedApplications.rejected, (state, action) => {
+        state.loading = false;
+        state.applications = [];
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+// Selectors
+type RootState = { comparison: ComparisonState };
+
+export const selectComparedApplications = (state: RootState) =>
+  state.comparison.applications;
+export const selectComparisonLoading = (state: RootState) =>
+  state.comparison.loading;
+export const selectComparisonError = (state: RootState) =>
+  state.comparison.error;
+
+export default comparisonSlice.reducer;
@@ -52,16 +52,45 @@ interface DashboardData {
     generated_at: string;
 }
 
+// Applications per source and status; a null source means it was never recorded
+export interface ApplicationSourceCount {
+    source: string | null;
+    application_status: string;
+    applications: number;
+}
+
+// Rejected applications per job and reason; a null reason predates the
+// rejection reason catalogue
+export interface RejectionBreakdownRow {
+    rejection_reason: string | null;
+    job_id: string;
+    job_title: string;
+    company_name: string | null;
+    rejections: number;
+}
+
 interface DashboardState {
     data: DashboardData | null;
     loading: boolean;
     error: string | null;
+    sourceBreakdown: ApplicationSourceCount[];
+    sourceBreakdownLoading: boolean;
+    sourceBreakdownError: string | null;
+    rejectionBreakdown: RejectionBreakdownRow[];
+    rejectionBreakdownLoading: boolean;
+    rejectionBreakdownError: string | null;
 }
 
 const initialState: DashboardState = {
     data: null,
     loading: false,
     error: null,
+    sourceBreakdown: [],
+    sourceBreakdownLoading: false,
+    sourceBreakdownError: null,
+    rejectionBreakdown: [],
+    rejectionBreakdownLoading: false,
+    rejectionBreakdownError: null,
 };
 
 // Async thunks
@@ -187,6 +216,58 @@ export const fetchTopPerformers = createAsyncThunk(
     }
 );
 
+export const fetchApplicationSources = createAsyncThunk(
+    'dashboard/fetchApplicationSources',
+    async ({ userUuid, orgUuid }: { userUuid: string; orgUuid: string }) => {
+        const { data, error } = await supabase.rpc('get_application_sources', {
+            user_uuid: userUuid,
+            org_uuid: orgUuid,
+        });
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        if (data && typeof data === 'object' && 'error' in data) {
+            const errorData = data as { error?: boolean; message?: string };
+            if (errorData.error) {
+                throw new Error(errorData.message || 'Access denied');
+            }
+        }
+
+        return ((data as unknown as ApplicationSourceCount[]) || []).map((row) => ({
+            ...row,
+            applications: Number(row.applications) || 0,
+        }));
+    }
+);
+
+export const fetchRejectionBreakdown = createAsyncThunk(
+    'dashboard/fetchRejectionBreakdown',
+    async ({ userUuid, orgUuid }: { userUuid: string; orgUuid: string }) => {
+        const { data, error } = await supabase.rpc('get_rejection_breakdown', {
+            user_uuid: userUuid,
+            org_uuid: orgUuid,
+        });
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        if (data && typeof data === 'object' && 'error' in data) {
+            const errorData = data as { error?: boolean; message?: string };
+            if (errorData.error) {
+                throw new Error(errorData.message || 'Access denied');
+            }
+        }
+
+        return ((data as unknown as RejectionBreakdownRow[]) || []).map((row) => ({
+            ...row,
+            rejections: Number(row.rejections) || 0,
+        }));
+    }
+);
+
 // Slice
 const dashboardSlice = createSlice({
     name: 'dashboard',
@@ -237,6 +318,34 @@ const dashboardSlice = createSlice({
                         state.data.top_companies = action.payload.data;
                     }
                 }
+            })
+            // Fetch source of hire breakdown
+            .addCase(fetchApplicationSources.pending, (state) => {
+                state.sourceBreakdownLoading = true;
+                state.sourceBreakdownError = null;
+            })
+            .addCase(fetchApplicationSources.fulfilled, (state, action) => {
+                state.sourceBreakdownLoading = false;
+                state.sourceBreakdown = action.payload;
+            })
+            .addCase(fetchApplicationSources.rejected, (state, action) => {
+                state.sourceBreakdownLoading = false;
+                state.sourceBreakdownError =
+                    action.error.message || 'Failed to fetch application sources';
+            })
+            // Fetch rejection reasons per job
+            .addCase(fetchRejectionBreakdown.pending, (state) => {
+                state.rejectionBreakdownLoading = true;
+                state.rejectionBreakdownError = null;
+            })
+            .addCase(fetchRejectionBreakdown.fulfilled, (state, action) => {
+                state.rejectionBreakdownLoading = false;
+                state.rejectionBreakdown = action.payload;
+            })
+            .addCase(fetchRejectionBreakdown.rejected, (state, action) => {
+                state.rejectionBreakdownLoading = false;
+                state.rejectionBreakdownError =
+                    action.error.message || 'Failed to fetch rejection reasons';
             });
     },
 });
@@ -267,4 +376,22 @@ export const selectDashboardError = (state: { dashboard: DashboardState }) =>
     state.dashboard.error;
 
 export const selectUserRole = (state: { dashboard: DashboardState }) =>
-    state.dashboard.data?.stats?.user_role;
\ No newline at end of file
+    state.dashboard.data?.stats?.user_role;
+
+export const selectSourceBreakdown = (state: { dashboard: DashboardState }) =>
+    state.dashboard.sourceBreakdown;
+
+export const selectSourceBreakdownLoading = (state: { dashboard: DashboardState }) =>
+    state.dashboard.sourceBreakdownLoading;
+
+export const selectSourceBreakdownError = (state: { dashboard: DashboardState }) =>
+    state.dashboard.sourceBreakdownError;
+
+export const selectRejectionBreakdown = (state: { dashboard: DashboardState }) =>
+    state.dashboard.rejectionBreakdown;
+
+export const selectRejectionBreakdownLoading = (state: { dashboard: DashboardState }) =>
+    state.dashboard.rejectionBreakdownLoading;
+
+export const selectRejectionBreakdownError = (state: { dashboard: DashboardState }) =>
+    state.dashboard.rejectionBreakdownError;
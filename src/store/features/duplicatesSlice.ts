@@ -0,0 +1,399 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  DuplicateMatchField,
+  DuplicatePair,
+  DuplicateProfile,
+} from "@/types/custom";
+import { UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+// Points each matching field adds to a pair's score
+export const DUPLICATE_MATCH_WEIGHTS: Record<DuplicateMatchField, number> = {
+  email: 60,
+  linkedin: 50,
+  phone: 40,
+  name: 20,
+};
+
+// A shared name alone is not enough to flag a pair
+export const DUPLICATE_SCORE_THRESHOLD = 40;
+
+const PROFILE_PAGE_SIZE = 1000;
+
+// Values shared by this many profiles are placeholders, not people
+const MAX_GROUP_SIZE = 25;
+
+export const normalizeEmail = (email: string | null) => {
+  const trimmed = email?.trim().toLowerCase();
+  if (!trimmed || !trimmed.includes("@")) return null;
+
+  const [local, domain] = trimmed.split("@");
+  // "jane+jobs@x.com" and "jane@x.com" reach the same inbox
+  let user = local.split("+")[0];
+  if (domain === "gmail.com" || domain === "googlemail.com") {
+    user = user.replace(/\./g, "");
+    return `${user}@gmail.com`;
+  }
+  return `${user}@${domain}`;
+};
+
+export const normalizePhone = (phone: string | null) => {
+  const digits = phone?.replace(/\D/g, "") || "";
+  if (digits.length < 7) return null;
+  // Compare without the country code
+  return digits.slice(-10);
+};
+
+export const normalizeName = (name: string | null) => {
+  const tokens = (name || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  // "Doe Jane" and "Jane Doe" are the same person
+  return tokens.length > 0 ? tokens.sort().join(" ") : null;
+};
+
+export const normalizeLinkedinUrl = (url: string | null) => {
+  const match = url?.match(/linkedin\.com\/in\/([^/?#\s]+)/i);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]).toLowerCase();
+  } catch {
+    return match[1].toLowerCase();
+  }
+};
+
+export const duplicatePairKey = (idA: string, idB: string) =>
+  [idA, idB].sort().join(":");
+
+// Pairs profiles that share a normalized email, phone, name or LinkedIn URL
+export function findDuplicatePairs(
+  profiles: DuplicateProfile[],
+  dismissedKeys: Set<string> = new Set()
+): DuplicatePair[] {
+  const normalizers: Record<
+    DuplicateMatchField,
+    (profile: DuplicateProfile) => string | null
+  > = {
+    email: (profile) => normalizeEmail(profile.email),
+    phone: (profile) => normalizePhone(profile.mobileNumber),
+    name: (profile) => normalizeName(profile.name),
+    linkedin: (profile) => normalizeLinkedinUrl(profile.linkedinUrl),
+  };
+
+  // Group profiles by each normalized value so only real candidates are compared
+  const groups = new Map<string, DuplicateProfile[]>();
+  profiles.forEach((profile) => {
+    (Object.keys(normalizers) as DuplicateMatchField[]).forEach((field) => {
+      const value = normalizers[field](profile);
+      if (!value) return;
+      const groupKey = `${field}:${value}`;
+      groups.set(groupKey, [...(groups.get(groupKey) || []), profile]);
+    });
+  });
+
+  const pairs = new Map<string, DuplicatePair>();
+  groups.forEach((members, groupKey) => {
+    if (members.length < 2 || members.length > MAX_GROUP_SIZE) return;
+    const field = groupKey.split(":")[0] as DuplicateMatchField;
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = duplicatePairKey(members[i].id, members[j].id);
+        if (dismissedKeys.has(key)) continue;
+
+        const pair = pairs.get(key) || {
+          key,
+          profiles: [members[i], members[j]] as [
+            DuplicateProfile,
+            DuplicateProfile,
+          ],
+          score: 0,
+          reasons: [],
+        };
+        if (!pair.reasons.includes(field)) {
+          pair.reasons.push(field);
+          pair.score = Math.min(
+            100,
+            pair.score + DUPLICATE_MATCH_WEIGHTS[field]
+          );
+        }
+        pairs.set(key, pair);
+      }
+    }
+  });
+
+  return Array.from(pairs.values())
+    .filter((pair) => pair.score >= DUPLICATE_SCORE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+}
+
+const assertCanReviewDuplicates = (userContext: UserContext) => {
+  if (
+    !userContext.roles.includes("admin") &&
+    !userContext.roles.includes("hr")
+  ) {
+    throw new Error("Only admins and HR can review duplicate candidates");
+  }
+};
+
+// Profiles with at least one application to this organization's jobs
+async function loadOrgProfiles(
+  organizationId: string
+): Promise<DuplicateProfile[]> {
+  const profiles: DuplicateProfile[] = [];
+
+  for (let from = 0; ; from += PROFILE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("candidates_profiles")
+      .select(
+        "id, name, candidate_email, mobile_number, linkedin_url, created_at, job_applications!inner(id, job:jobs!job_applications_job_id_fkey!inner(title, organization_id))"
+      )
+      .eq("job_applications.job.organization_id", organizationId)
+      .order("created_at", { ascending: true })
+      .range(from, from + PROFILE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch candidate profiles: ${error.message}`);
+    }
+
+    (data || []).forEach((row) => {
+      profiles.push({
+        id: row.id,
+        name: row.name,
+        email: row.candidate_email,
+        mobileNumber: row.mobile_number,
+        linkedinUrl: row.linkedin_url,
+        createdAt: row.created_at,
+        jobTitles: Array.from(
+          new Set(
+            row.job_applications
+              .map((application) => application.job?.title)
+              .filter((title): title is string => !!title)
+          )
+        ),
+      });
+    });
+
+    if (!data || data.length < PROFILE_PAGE_SIZE) break;
+  }
+
+  return profiles;
+}
+
+async function loadDismissedKeys(organizationId: string) {
+  const { data, error } = await supabase
+    .from("candidate_duplicate_dismissals")
+    .select("candidate_id, other_candidate_id")
+    .eq("organization_id", organizationId);
+
+  if (error) {
+    throw new Error(`Failed to fetch dismissed duplicates: ${error.message}`);
+  }
+
+  return new Set(
+    (data || []).map((row) =>
+      duplicatePairKey(row.candidate_id, row.other_candidate_id)
+    )
+  );
+}
+
+interface DuplicatesState {
+  pairs: DuplicatePair[];
+  scannedAt: string | null;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: DuplicatesState = {
+  pairs: [],
+  scannedAt: null,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+export const scanForDuplicates = createAsyncThunk(
+  "duplicates/scanForDuplicates",
+  async (userContext: UserContext, { rejectWithValue }) => {
+    try {
+      assertCanReviewDuplicates(userContext);
+
+      const [profiles, dismissedKeys] = await Promise.all([
+        loadOrgProfiles(userContext.organizationId),
+        loadDismissedKeys(userContext.organizationId),
+      ]);
+
+      return findDuplicatePairs(profiles, dismissedKeys);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to scan for duplicates"
+      );
+    }
+  }
+);
+
+// Hide a pair from the review screen for good
+export const dismissDuplicatePair = createAsyncThunk(
+  "duplicates/dismissDuplicatePair",
+  async (
+    { pair, userContext }: { pair: DuplicatePair; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      assertCanReviewDuplicates(userContext);
+
+      const [first, second] = pair.profiles;
+      const { error } = await supabase
+        .from("candidate_duplicate_dismissals")
+        .insert({
+          organization_id: userContext.organizationId,
+          candidate_id: first.id,
+          other_candidate_id: second.id,
+          dismissed_by: userContext.userId,
+        });
+
+      if (error) {
+        throw new Error(`Failed to dismiss pair: ${error.message}`);
+      }
+
+      return pair.key;
+    } catch (error) {
+      console.log("dismissDuplicatePair error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to dismiss pair"
+      );
+    }
+  }
+);
+
+// Fold one profile into another and keep an audit record of the merge
+export const mergeCandidateProfiles = createAsyncThunk(
+  "duplicates/mergeCandidateProfiles",
+  async (
+    {
+      survivingId,
+      mergedId,
+      reasons,
+      userContext,
+    }: {
+      survivingId: string;
+      mergedId: string;
+      reasons: DuplicateMatchField[];
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!userContext.roles.includes("admin")) {
+        throw new Error("Only admins can merge candidate profiles");
+      }
+      if (survivingId === mergedId) {
+        throw new Error("Cannot merge a profile into itself");
+      }
+
+      // Every step runs in one database transaction
+      const { error } = await supabase.rpc("merge_candidate_profiles", {
+        p_organization_id: userContext.organizationId,
+        p_surviving_id: survivingId,
+        p_merged_id: mergedId,
+        p_match_reasons: reasons,
+      });
+
+      if (error) {
+        throw new Error(`Failed to merge profiles: ${error.message}`);
+      }
+
+      return { survivingId, mergedId };
+    } catch (error) {
+      console.log("mergeCandidateProfiles error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to merge profiles"
+      );
+    }
+  }
+);
+
+const duplicatesSlice = createSlice({
+  name: "duplicates",
+  initialState,
+  reducers: {
+    clearDuplicatesError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(scanForDuplicates.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(scanForDuplicates.fulfilled, (state, action) => {
+        state.loading = false;
+        state.pairs = action.payload;
+        state.scannedAt = new Date().toISOString();
+      })
+      .addCase(scanForDuplicates.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(dismissDuplicatePair.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(dismissDuplicatePair.fulfilled, (state, action) => {
+        state.saving = false;
+        state.pairs = state.pairs.filter((pair) => pair.key !== action.payload);
+      })
+      .addCase(dismissDuplicatePair.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(mergeCandidateProfiles.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(mergeCandidateProfiles.fulfilled, (state, action) => {
+        state.saving = false;
+        // Other pairs with the merged profile are stale until the next scan
+        state.pairs = state.pairs.filter(
+          (pair) =>
+            !pair.profiles.some(
+              (profile) => profile.id === action.payload.mergedId
+            )
+        );
+      })
+      .addCase(mergeCandidateProfiles.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearDuplicatesError } = duplicatesSlice.actions;
+
+// Selectors
+type RootState = { duplicates: DuplicatesState };
+
+export const selectDuplicatePairs = (state: RootState) =>
+  state.duplicates.pairs;
+export const selectDuplicatesScannedAt = (state: RootState) =>
+  state.duplicates.scannedAt;
+export const selectDuplicatesLoading = (state: RootState) =>
+  state.duplicates.loading;
+export const selectDuplicatesSaving = (state: RootState) =>
+  state.duplicates.saving;
+export const selectDuplicatesError = (state: RootState) =>
+  state.duplicates.error;
+
+export default duplicatesSlice.reducer;
@@ -0,0 +1,440 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  EmailMergeValues,
+  EmailPreviewApplication,
+  EmailTemplate,
+  EmailTemplateInput,
+} from "@/types/custom";
+import { findUnknownMergeFields } from "@/utils/email-templates";
+import { formatInterviewTime } from "./interviewsSlice";
+import { accessibleJobIds, UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+// Applications offered for previewing a template, most recently updated first
+const PREVIEW_APPLICATION_LIMIT = 50;
+
+interface EmailTemplatesState {
+  organizationId: string | null;
+  templates: EmailTemplate[];
+  previewApplications: EmailPreviewApplication[];
+  mergeValues: Record<string, EmailMergeValues>; // By application id
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: EmailTemplatesState = {
+  organizationId: null,
+  templates: [],
+  previewApplications: [],
+  mergeValues: {},
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Members may change their own templates; admins may change any
+export const canEditEmailTemplate = (
+  template: Pick<EmailTemplate, "createdBy">,
+  userContext: UserContext
+) =>
+  userContext.roles.includes("admin") ||
+  template.createdBy === userContext.userId;
+
+// Returns an error message for an invalid template, or null if it is valid
+export function validateEmailTemplateInput(
+  input: EmailTemplateInput
+): string | null {
+  if (!input.name.trim()) return "Template name is required";
+  if (!input.subject.trim()) return "Subject is required";
+  if (!input.body.replace(/<[^>]+>/g, "").trim()) {
+    return "Email body is required";
+  }
+
+  const unknownFields = findUnknownMergeFields(input.subject, input.body);
+  if (unknownFields.length > 0) {
+    return `Unknown merge fields: ${unknownFields
+      .map((field) => `{{${field}}}`)
+      .join(", ")}`;
+  }
+
+  return null;
+}
+
+async function loadEmailTemplates(organizationId: string) {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select(
+      "id, name, subject, body, created_by, updated_at, author:user_profiles!email_templates_created_by_fkey(full_name)"
+    )
+    .eq("organization_id", organizationId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch email templates: ${error.message}`);
+  }
+
+  const templates: EmailTemplate[] = (data || []).map((template) => ({
+    id: template.id,
+    name: template.name,
+    subject: template.subject,
+    body: template.body,
+    createdBy: template.created_by,
+    createdByName: template.author?.full_name || null,
+    updatedAt: template.updated_at,
+  }));
+
+  return { organizationId, templates };
+}
+
+export const fetchEmailTemplates = createAsyncThunk(
+  "emailTemplates/fetchEmailTemplates",
+  async (organizationId: string, { rejectWithValue }) => {
+    try {
+      if (!organizationId) {
+        throw new Error("Organization ID is required");
+      }
+      return await loadEmailTemplates(organizationId);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch email templates"
+      );
+    }
+  },
+  {
+    // Skip the round trip when this organization's library is already loaded
+    condition: (organizationId, { getState }) => {
+      const { emailTemplates } = getState() as {
+        emailTemplates: EmailTemplatesState;
+      };
+      return (
+        !emailTemplates.loading &&
+        emailTemplates.organizationId !== organizationId
+      );
+    },
+  }
+);
+
+export const saveEmailTemplate = createAsyncThunk(
+  "emailTemplates/saveEmailTemplate",
+  async (
+    {
+      templateId,
+      input,
+      userContext,
+    }: {
+      templateId?: string;
+      input: EmailTemplateInput;
+      userContext: UserContext;
+    },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const validationError = validateEmailTemplateInput(input);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const values = {
+        name: input.name.trim(),
+        subject: input.subject.trim(),
+        body: input.body,
+      };
+
+      let savedId = templateId;
+
+      if (templateId) {
+        const { emailTemplates } = getState() as {
+          emailTemplates: EmailTemplatesState;
+        };
+        const existing = emailTemplates.templates.find(
+          (template) => template.id === templateId
+        );
+        if (existing && !canEditEmailTemplate(existing, userContext)) {
+          throw new Error("Only the author or an admin can edit this template");
+        }
+
+        const { error } = await supabase
+          .from("email_templates")
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq("id", templateId)
+          .eq("organization_id", userContext.organizationId);
+
+        if (error) {
+          throw new Error(`Failed to update email template: ${error.message}`);
+        }
+      } else {
+        const { data, error } = await supabase
+          .from("email_templates")
+          .insert({
+            ...values,
+            organization_id: userContext.organizationId,
+            created_by: userContext.userId,
+          })
+          .select("id")
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create email template: ${error.message}`);
+        }
+        savedId = data.id;
+      }
+
+      return {
+        ...(await loadEmailTemplates(userContext.organizationId)),
+        templateId: savedId,
+      };
+    } catch (error) {
+      console.log("saveEmailTemplate error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to save email template"
+      );
+    }
+  }
+);
+
+export const deleteEmailTemplate = createAsyncThunk(
+  "emailTemplates/deleteEmailTemplate",
+  async (
+    {
+      template,
+      userContext,
+    }: { template: EmailTemplate; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!canEditEmailTemplate(template, userContext)) {
+        throw new Error("Only the author or an admin can delete this template");
+      }
+
+      const { error } = await supabase
+        .from("email_templates")
+        .delete()
+        .eq("id", template.id)
+        .eq("organization_id", userContext.organizationId);
+
+      if (error) {
+        throw new Error(`Failed to delete email template: ${error.message}`);
+      }
+
+      return template.id;
+    } catch (error) {
+      console.log("deleteEmailTemplate error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to delete email template"
+      );
+    }
+  }
+);
+
+export const fetchPreviewApplications = createAsyncThunk(
+  "emailTemplates/fetchPreviewApplications",
+  async (userContext: UserContext, { rejectWithValue }) => {
+    try {
+      const jobIds = await accessibleJobIds(userContext);
+      let query = supabase
+        .from("job_applications")
+        .select(
+          "id, candidate:candidates_profiles!job_applications_candidate_id_fkey(name), job:jobs!job_applications_job_id_fkey!inner(title, organization_id)"
+        )
+        .eq("job.organization_id", userContext.organizationId)
+        .order("updated_at", { ascending: false })
+        .limit(PREVIEW_APPLICATION_LIMIT);
+
+      // TA only see applications to jobs granted to them, as in the
+      // candidates list
+      if (jobIds) {
+        query = query.in("job_id", jobIds);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to fetch applications: ${error.message}`);
+      }
+
+      return (data || []).map(
+        (application): EmailPreviewApplication => ({
+          applicationId: application.id,
+          candidateName: application.candidate?.name || "Unknown candidate",
+          jobTitle: application.job?.title || "",
+        })
+      );
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch applications"
+      );
+    }
+  }
+);
+
+// Values for every merge field on one application, as sent by the given user
+export const fetchMergeValues = createAsyncThunk(
+  "emailTemplates/fetchMergeValues",
+  async (
+    { applicationId, userId }: { applicationId: string; userId: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const [applicationResult, interviewResult, recruiterResult] =
+        await Promise.all([
+          supabase
+            .from("job_applications")
+            .select(
+              "id, candidate:candidates_profiles!job_applications_candidate_id_fkey(name), job:jobs!job_applications_job_id_fkey(title, company_name)"
+            )
+            .eq("id", applicationId)
+            .single(),
+          supabase
+            .from("interviews")
+            .select("start_time, end_time, time_zone")
+            .eq("application_id", applicationId)
+            .gte("start_time", new Date().toISOString())
+            .order("start_time", { ascending: true })
+            .limit(1),
+          supabase
+            .from("user_profiles")
+            .select("full_name")
+            .eq("id", userId)
+            .maybeSingle(),
+        ]);
+
+      if (applicationResult.error) {
+        throw new Error(
+          `Failed to fetch application: ${applicationResult.error.message}`
+        );
+      }
+      if (interviewResult.error) {
+        throw new Error(
+          `Failed to fetch interviews: ${interviewResult.error.message}`
+        );
+      }
+      if (recruiterResult.error) {
+        throw new Error(
+          `Failed to fetch recruiter: ${recruiterResult.error.message}`
+        );
+      }
+
+      const application = applicationResult.data;
+      const candidateName = application.candidate?.name?.trim() || "";
+      const nextInterview = interviewResult.data?.[0];
+
+      const values: EmailMergeValues = {
+        candidate_name: candidateName,
+        candidate_first_name: candidateName.split(/\s+/)[0] || "",
+        job_title: application.job?.title || "",
+        company_name: application.job?.company_name || "",
+        interview_time: nextInterview
+          ? formatInterviewTime({
+              startTime: nextInterview.start_time,
+              endTime: nextInterview.end_time,
+              timeZone: nextInterview.time_zone,
+            })
+          : "",
+        recruiter_name: recruiterResult.data?.full_name || "",
+      };
+
+      return { applicationId, values };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch merge values"
+      );
+    }
+  }
+);
+
+const emailTemplatesSlice = createSlice({
+  name: "emailTemplates",
+  initialState,
+  reducers: {
+    clearEmailTemplatesError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchEmailTemplates.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchEmailTemplates.fulfilled, (state, action) => {
+        state.loading = false;
+        state.organizationId = action.payload.organizationId;
+        state.templates = action.payload.templates;
+      })
+      .addCase(fetchEmailTemplates.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(saveEmailTemplate.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveEmailTemplate.fulfilled, (state, action) => {
+        state.saving = false;
+        state.organizationId = action.payload.organizationId;
+        state.templates = action.payload.templates;
+      })
+      .addCase(saveEmailTemplate.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      .addCase(deleteEmailTemplate.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(deleteEmailTemplate.fulfilled, (state, action) => {
+        state.saving = false;
+        state.templates = state.templates.filter(
+          (template) => template.id !== action.payload
+        );
+      })
+      .addCase(deleteEmailTemplate.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      .addCase(fetchPreviewApplications.fulfilled, (state, action) => {
+        state.previewApplications = action.payload;
+      })
+      .addCase(fetchPreviewApplications.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(fetchMergeValues.fulfilled, (state, action) => {
+        state.mergeValues[action.payload.applicationId] =
+          action.payload.values;
+      })
+      .addCase(fetchMergeValues.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearEmailTemplatesError } = emailTemplatesSlice.actions;
+
+// Selectors
+type RootState = { emailTemplates: EmailTemplatesState };
+
+export const selectEmailTemplates = (state: RootState) =>
+  state.emailTemplates.templates;
+export const selectPreviewApplications = (state: RootState) =>
+  state.emailTemplates.previewApplications;
+export const selectMergeValues = (
+  state: RootState,
+  applicationId: string | null | undefined
+): EmailMergeValues | undefined =>
+  applicationId ? state.emailTemplates.mergeValues[applicationId] : undefined;
+export const selectEmailTemplatesLoading = (state: RootState) =>
+  state.emailTemplates.loading;
+export const selectEmailTemplatesSaving = (state: RootState) =>
+  state.emailTemplates.saving;
+export const selectEmailTemplatesError = (state: RootState) =>
+  state.emailTemplates.error;
+
+export default emailTemplatesSlice.reducer;
@@ -0,0 +1,210 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  DEFAULT_FIT_SCORE_WEIGHTS,
+  FIT_SCORE_COMPONENTS,
+  FIT_SCORE_WEIGHT_MAX,
+  FitScoreWeights,
+} from "@/types/custom";
+import type { UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+interface FitScoreState {
+  organizationId: string | null;
+  weights: FitScoreWeights;
+  // False while the organization uses the built-in default weights
+  customized: boolean;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: FitScoreState = {
+  organizationId: null,
+  weights: DEFAULT_FIT_SCORE_WEIGHTS,
+  customized: false,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Returns an error message for invalid weights, or null if they are valid
+export function validateFitScoreWeights(weights: FitScoreWeights): string | null {
+  for (const component of FIT_SCORE_COMPONENTS) {
+    const weight = weights[component];
+    if (
+      !Number.isInteger(weight) ||
+      weight < 0 ||
+      weight > FIT_SCORE_WEIGHT_MAX
+    ) {
+      return `Weights must be whole numbers from 0 to ${FIT_SCORE_WEIGHT_MAX}`;
+    }
+  }
+
+  if (FIT_SCORE_COMPONENTS.every((component) => weights[component] === 0)) {
+    return "At least one weight must be above 0";
+  }
+
+  return null;
+}
+
+async function loadFitScoreWeights(organizationId: string) {
+  const { data, error } = await supabase
+    .from("fit_score_weights")
+    .select("experience_weight, salary_weight, notice_weight, location_weight")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch fit score weights: ${error.message}`);
+  }
+
+  return {
+    organizationId,
+    customized: !!data,
+    weights: data
+      ? {
+          experience: data.experience_weight,
+          salary: data.salary_weight,
+          notice: data.notice_weight,
+          location: data.location_weight,
+        }
+      : DEFAULT_FIT_SCORE_WEIGHTS,
+  };
+}
+
+export const fetchFitScoreWeights = createAsyncThunk(
+  "fitScore/fetchFitScoreWeights",
+  async (organizationId: string, { rejectWithValue }) => {
+    try {
+      if (!organizationId) {
+        throw new Error("Organization ID is required");
+      }
+      return await loadFitScoreWeights(organizationId);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch fit score weights"
+      );
+    }
+  },
+  {
+    // Skip the round trip when this organization's weights are already loaded
+    condition: (organizationId, { getState }) => {
+      const { fitScore } = getState() as { fitScore: FitScoreState };
+      return !fitScore.loading && fitScore.organizationId !== organizationId;
+    },
+  }
+);
+
+export const saveFitScoreWeights = createAsyncThunk(
+  "fitScore/saveFitScoreWeights",
+  async (
+    {
+      weights,
+      userContext,
+    }: { weights: FitScoreWeights; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { organizationId, roles, userId } = userContext;
+
+      if (!roles.includes("admin")) {
+        throw new Error("Only admins can change the fit score weights");
+      }
+
+      const validationError = validateFitScoreWeights(weights);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { error } = await supabase.from("fit_score_weights").upsert(
+        {
+          organization_id: organizationId,
+          experience_weight: weights.experience,
+          salary_weight: weights.salary,
+          notice_weight: weights.notice,
+          location_weight: weights.location,
+          updated_at: new Date().toISOString(),
+          updated_by: userId,
+        },
+        { onConflict: "organization_id" }
+      );
+
+      if (error) {
+        throw new Error(`Failed to save fit score weights: ${error.message}`);
+      }
+
+      return await loadFitScoreWeights(organizationId);
+    } catch (error) {
+      console.log("saveFitScoreWeights error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to save fit score weights"
+      );
+    }
+  }
+);
+
+const fitScoreSlice = createSlice({
+  name: "fitScore",
+  initialState,
+  reducers: {
+    clearFitScoreError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchFitScoreWeights.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchFitScoreWeights.fulfilled, (state, action) => {
+        state.loading = false;
+        state.organizationId = action.payload.organizationId;
+        state.weights = action.payload.weights;
+        state.customized = action.payload.customized;
+      })
+      .addCase(fetchFitScoreWeights.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(saveFitScoreWeights.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveFitScoreWeights.fulfilled, (state, action) => {
+        state.saving = false;
+        state.organizationId = action.payload.organizationId;
+        state.weights = action.payload.weights;
+        state.customized = action.payload.customized;
+      })
+      .addCase(saveFitScoreWeights.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearFitScoreError } = fitScoreSlice.actions;
+
+// Selectors
+type RootState = { fitScore: FitScoreState };
+
+export const selectFitScoreWeights = (state: RootState) =>
+  state.fitScore.weights;
+export const selectFitScoreCustomized = (state: RootState) =>
+  state.fitScore.customized;
+export const selectFitScoreLoading = (state: RootState) =>
+  state.fitScore.loading;
+export const selectFitScoreSaving = (state: RootState) =>
+  state.fitScore.saving;
+export const selectFitScoreError = (state: RootState) => state.fitScore.error;
+
+export default fitScoreSlice.reducer;
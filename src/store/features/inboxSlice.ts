@@ -0,0 +1,443 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  importEmailFiles as importEmailFilesAction,
+  pollInboundEmails as pollInboundEmailsAction,
+  sendCandidateEmail,
+} from "@/app/inbox/actions";
+import {
+  EMAIL_DIRECTIONS,
+  EmailDirection,
+  EmailIngestResult,
+  EmailMessage,
+  EmailThread,
+} from "@/types/custom";
+import {
+  accessibleJobIds,
+  hasApplicationAccess,
+  UserContext,
+} from "./candidatesSlice";
+
+const supabase = createClient();
+
+// Most recent conversations shown in the inbox
+const THREAD_LIMIT = 200;
+
+interface InboxState {
+  organizationId: string | null;
+  threads: EmailThread[];
+  messages: Record<string, EmailMessage[]>; // By thread id
+  loading: boolean;
+  messagesLoading: boolean;
+  sending: boolean;
+  importing: boolean;
+  error: string | null;
+}
+
+const initialState: InboxState = {
+  organizationId: null,
+  threads: [],
+  messages: {},
+  loading: false,
+  messagesLoading: false,
+  sending: false,
+  importing: false,
+  error: null,
+};
+
+const toDirection = (value: string): EmailDirection =>
+  (EMAIL_DIRECTIONS as readonly string[]).includes(value)
+    ? (value as EmailDirection)
+    : "inbound";
+
+// Conversations follow the job access of their application, like notes
+async function loadEmailThreads(userContext: UserContext) {
+  const { organizationId } = userContext;
+  const jobIds = await accessibleJobIds(userContext);
+  if (jobIds && jobIds.length === 0) {
+    return { organizationId, threads: [] as EmailThread[] };
+  }
+
+  let query = supabase
+    .from("email_threads")
+    .select(
+      "id, application_id, subject, last_message_at, application:job_applications!email_threads_application_id_fkey!inner(job_id, candidate:candidates_profiles!job_applications_candidate_id_fkey(name, candidate_email), job:jobs!job_applications_job_id_fkey(title)), messages:email_messages!email_messages_thread_id_fkey(direction, read_at)"
+    )
+    .eq("organization_id", organizationId);
+
+  if (jobIds) {
+    query = query.in("application.job_id", jobIds);
+  }
+
+  const { data, error } = await query
+    .order("last_message_at", { ascending: false })
+    .limit(THREAD_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch conversations: ${error.message}`);
+  }
+
+  const threads: EmailThread[] = (data || []).map((thread) => ({
+    id: thread.id,
+    applicationId: thread.application_id,
+    subject: thread.subject,
+    candidateName:
+      thread.application?.candidate?.name || "Unknown candidate",
+    candidateEmail: thread.application?.candidate?.candidate_email || "",
+    jobTitle: thread.application?.job?.title || "",
+    lastMessageAt: thread.last_message_at,
+    messageCount: thread.messages.length,
+    unreadCount: thread.messages.filter(
+      (message) => message.direction === "inbound" && !message.read_at
+    ).length,
+  }));
+
+  return { organizationId, threads };
+}
+
+async function assertThreadAccess(threadId: string, userContext: UserContext) {
+  const { data: thread, error } = await supabase
+    .from("email_threads")
+    .select("application_id")
+    .eq("id", threadId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch conversation: ${error.message}`);
+  }
+  if (!(await hasApplicationAccess(thread.application_id, userContext))) {
+    throw new Error("You do not have access to this conversation");
+  }
+}
+
+async function loadThreadMessages(threadId: string, userContext: UserContext) {
+  await assertThreadAccess(threadId, userContext);
+
+  const { data, error } = await supabase
+    .from("email_messages")
+    .select(
+      "id, thread_id, direction, from_name, from_address, to_address, subject, body_html, body_text, sent_at, read_at, sender:user_profiles!email_messages_sent_by_fkey(full_name)"
+    )
+    .eq("thread_id", threadId)
+    .order("sent_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch messages: ${error.message}`);
+  }
+
+  const messages: EmailMessage[] = (data || []).map((message) => ({
+    id: message.id,
+    threadId: message.thread_id,
+    direction: toDirection(message.direction),
+    fromName: message.from_name,
+    fromAddress: message.from_address,
+    toAddress: message.to_address,
+    subject: message.subject,
+    bodyHtml: message.body_html,
+    bodyText: message.body_text,
+    sentAt: message.sent_at,
+    sentBy: message.sender?.full_name || null,
+    readAt: message.read_at,
+  }));
+
+  return { threadId, messages };
+}
+
+export const fetchEmailThreads = createAsyncThunk(
+  "inbox/fetchEmailThreads",
+  async (userContext: UserContext, { rejectWithValue }) => {
+    try {
+      if (!userContext.organizationId) {
+        throw new Error("Organization ID is required");
+      }
+      return await loadEmailThreads(userContext);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch conversations"
+      );
+    }
+  }
+);
+
+export const fetchThreadMessages = createAsyncThunk(
+  "inbox/fetchThreadMessages",
+  async (
+    { threadId, userContext }: { threadId: string; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      return await loadThreadMessages(threadId, userContext);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch messages"
+      );
+    }
+  }
+);
+
+// Opening a thread reads every reply in it; marking it unread flags the
+// latest reply again
+export const setThreadRead = createAsyncThunk(
+  "inbox/setThreadRead",
+  async (
+    {
+      threadId,
+      read,
+      userContext,
+    }: { threadId: string; read: boolean; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      await assertThreadAccess(threadId, userContext);
+
+      if (read) {
+        const { error } = await supabase
+          .from("email_messages")
+          .update({ read_at: new Date().toISOString() })
+          .eq("thread_id", threadId)
+          .eq("direction", "inbound")
+          .is("read_at", null);
+
+        if (error) {
+          throw new Error(`Failed to mark as read: ${error.message}`);
+        }
+      } else {
+        const { data: latest, error: latestError } = await supabase
+          .from("email_messages")
+          .select("id")
+          .eq("thread_id", threadId)
+          .eq("direction", "inbound")
+          .order("sent_at", { ascending: false })
+          .limit(1);
+
+        if (latestError) {
+          throw new Error(`Failed to mark as unread: ${latestError.message}`);
+        }
+        if (!latest?.[0]) {
+          throw new Error("Only conversations with replies can be unread");
+        }
+
+        const { error } = await supabase
+          .from("email_messages")
+          .update({ read_at: null })
+          .eq("id", latest[0].id);
+
+        if (error) {
+          throw new Error(`Failed to mark as unread: ${error.message}`);
+        }
+      }
+
+      return await loadThreadMessages(threadId, userContext);
+    } catch (error) {
+      console.log("setThreadRead error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to update thread"
+      );
+    }
+  }
+);
+
+export const sendEmail = createAsyncThunk(
+  "inbox/sendEmail",
+  async (
+    {
+      userContext,
+      ...input
+    }: {
+      userContext: UserContext;
+      applicationId: string;
+      subject: string;
+      html: string;
+      threadId?: string | null;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const result = await sendCandidateEmail({
+        ...input,
+        organizationId: userContext.organizationId,
+      });
+      if (result.error || !result.success) {
+        throw new Error(result.error || "Failed to send email");
+      }
+
+      const [threads, thread] = await Promise.all([
+        loadEmailThreads(userContext),
+        loadThreadMessages(result.success.threadId, userContext),
+      ]);
+      return { ...threads, thread };
+    } catch (error) {
+      console.log("sendEmail error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to send email"
+      );
+    }
+  }
+);
+
+// Both import paths reload the thread list when anything came in
+async function afterIngest(
+  userContext: UserContext,
+  result: { success?: EmailIngestResult; error?: string }
+) {
+  if (result.error || !result.success) {
+    throw new Error(result.error || "Failed to import emails");
+  }
+  const threads =
+    result.success.ingested > 0 ? await loadEmailThreads(userContext) : null;
+  return { result: result.success, threads };
+}
+
+export const importEmailFiles = createAsyncThunk(
+  "inbox/importEmailFiles",
+  async (
+    { userContext, files }: { userContext: UserContext; files: File[] },
+    { rejectWithValue }
+  ) => {
+    try {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("files", file));
+      return await afterIngest(
+        userContext,
+        await importEmailFilesAction(userContext.organizationId, formData)
+      );
+    } catch (error) {
+      console.log("importEmailFiles error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to import emails"
+      );
+    }
+  }
+);
+
+export const pollInboundEmails = createAsyncThunk(
+  "inbox/pollInboundEmails",
+  async (userContext: UserContext, { rejectWithValue }) => {
+    try {
+      return await afterIngest(
+        userContext,
+        await pollInboundEmailsAction(userContext.organizationId)
+      );
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to check for replies"
+      );
+    }
+  }
+);
+
+const inboxSlice = createSlice({
+  name: "inbox",
+  initialState,
+  reducers: {
+    clearInboxError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchEmailThreads.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchEmailThreads.fulfilled, (state, action) => {
+        state.loading = false;
+        state.organizationId = action.payload.organizationId;
+        state.threads = action.payload.threads;
+      })
+      .addCase(fetchEmailThreads.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(fetchThreadMessages.pending, (state) => {
+        state.messagesLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchThreadMessages.fulfilled, (state, action) => {
+        state.messagesLoading = false;
+        state.messages[action.payload.threadId] = action.payload.messages;
+      })
+      .addCase(fetchThreadMessages.rejected, (state, action) => {
+        state.messagesLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(setThreadRead.fulfilled, (state, action) => {
+        const { threadId, messages } = action.payload;
+        state.messages[threadId] = messages;
+        const thread = state.threads.find((t) => t.id === threadId);
+        if (thread) {
+          thread.unreadCount = messages.filter(
+            (message) => message.direction === "inbound" && !message.readAt
+          ).length;
+        }
+      })
+      .addCase(setThreadRead.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(sendEmail.pending, (state) => {
+        state.sending = true;
+        state.error = null;
+      })
+      .addCase(sendEmail.fulfilled, (state, action) => {
+        state.sending = false;
+        state.organizationId = action.payload.organizationId;
+        state.threads = action.payload.threads;
+        state.messages[action.payload.thread.threadId] =
+          action.payload.thread.messages;
+      })
+      .addCase(sendEmail.rejected, (state, action) => {
+        state.sending = false;
+        state.error = action.payload as string;
+      })
+      .addCase(importEmailFiles.pending, (state) => {
+        state.importing = true;
+        state.error = null;
+      })
+      .addCase(importEmailFiles.fulfilled, (state, action) => {
+        state.importing = false;
+        if (action.payload.threads) {
+          state.threads = action.payload.threads.threads;
+        }
+      })
+      .addCase(importEmailFiles.rejected, (state, action) => {
+        state.importing = false;
+        state.error = action.payload as string;
+      })
+      .addCase(pollInboundEmails.fulfilled, (state, action) => {
+        if (action.payload.threads) {
+          state.threads = action.payload.threads.threads;
+        }
+      })
+      .addCase(pollInboundEmails.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearInboxError } = inboxSlice.actions;
+
+// Selectors
+type RootState = { inbox: InboxState };
+
+export const selectEmailThreads = (state: RootState) => state.inbox.threads;
+export const selectEmailThreadsOrgId = (state: RootState) =>
+  state.inbox.organizationId;
+export const selectThreadMessages = (
+  state: RootState,
+  threadId: string | null
+): EmailMessage[] | undefined =>
+  threadId ? state.inbox.messages[threadId] : undefined;
+export const selectUnreadThreadCount = (state: RootState) =>
+  state.inbox.threads.filter((thread) => thread.unreadCount > 0).length;
+export const selectInboxLoading = (state: RootState) => state.inbox.loading;
+export const selectInboxMessagesLoading = (state: RootState) =>
+  state.inbox.messagesLoading;
+export const selectInboxSending = (state: RootState) => state.inbox.sending;
+export const selectInboxImporting = (state: RootState) =>
+  state.inbox.importing;
+export const selectInboxError = (state: RootState) => state.inbox.error;
+
+export default inboxSlice.reducer;
@@ -0,0 +1,573 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  INTERVIEW_OUTCOMES,
+  Interview,
+  InterviewInput,
+  InterviewOutcome,
+} from "@/types/custom";
+import { hasApplicationAccess, UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+const INTERVIEW_SELECT =
+  "id, application_id, round_name, start_time, end_time, time_zone, location, meeting_link, outcome, notes, ics_sequence, interviewers:interview_interviewers(user_id, user:user_profiles!interview_interviewers_user_id_fkey(full_name, email)), application:job_applications!interviews_application_id_fkey(candidate:candidates_profiles!job_applications_candidate_id_fkey(name, candidate_email), job:jobs!job_applications_job_id_fkey(title, company_name))";
+
+const selectInterviews = () =>
+  supabase.from("interviews").select(INTERVIEW_SELECT);
+
+type InterviewRow = NonNullable<
+  Awaited<ReturnType<typeof selectInterviews>>["data"]
+>[number];
+
+const toOutcome = (value: string): InterviewOutcome =>
+  (INTERVIEW_OUTCOMES as readonly string[]).includes(value)
+    ? (value as InterviewOutcome)
+    : "pending";
+
+const mapInterview = (row: InterviewRow): Interview => ({
+  id: row.id,
+  applicationId: row.application_id,
+  roundName: row.round_name,
+  startTime: row.start_time,
+  endTime: row.end_time,
+  timeZone: row.time_zone,
+  location: row.location,
+  meetingLink: row.meeting_link,
+  outcome: toOutcome(row.outcome),
+  notes: row.notes,
+  icsSequence: row.ics_sequence,
+  interviewers: (row.interviewers || []).map((interviewer) => ({
+    userId: interviewer.user_id,
+    name: interviewer.user?.full_name || "Unknown user",
+    email: interviewer.user?.email || null,
+  })),
+  candidate: {
+    name: row.application?.candidate?.name || "Unknown candidate",
+    email: row.application?.candidate?.candidate_email || "",
+  },
+  jobTitle: row.application?.job?.title || "",
+  companyName: row.application?.job?.company_name || null,
+});
+
+const byStartTime = (a: Interview, b: Interview) =>
+  new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+
+// Offset of a time zone from UTC at the given instant, in minutes
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return (asUtc - date.getTime()) / 60000;
+};
+
+// Convert a wall-clock date and time in a time zone to a UTC ISO timestamp
+export const zonedTimeToUtc = (
+  date: string,
+  time: string,
+  timeZone: string
+) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Second pass settles times next to a daylight saving change
+  let utc = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * 60000;
+  utc = wallClock - getTimeZoneOffset(new Date(utc), timeZone) * 60000;
+
+  return new Date(utc).toISOString();
+};
+
+// Split a UTC timestamp into the date and time inputs of a time zone
+export const utcToZonedInputs = (isoString: string, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(isoString));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value || "00";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+  };
+};
+
+export const formatInterviewTime = (
+  interview: Pick<Interview, "startTime" | "endTime" | "timeZone">
+) => {
+  const start = new Date(interview.startTime).toLocaleString("en-US", {
+    timeZone: interview.timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const end = new Date(interview.endTime).toLocaleTimeString("en-US", {
+    timeZone: interview.timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+  return `${start} – ${end}`;
+};
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export const getSupportedTimeZones = (): string[] =>
+  typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : [getBrowserTimeZone()];
+
+function validateInterviewInput(input: InterviewInput) {
+  if (!input.roundName.trim()) {
+    throw new Error("Round name is required");
+  }
+  if (input.interviewerIds.length === 0) {
+    throw new Error("Select at least one interviewer");
+  }
+  if (!input.date || !input.startTime || !input.endTime) {
+    throw new Error("Date, start and end time are required");
+  }
+  if (!getSupportedTimeZones().includes(input.timeZone)) {
+    throw new Error(`Unknown time zone: ${input.timeZone}`);
+  }
+
+  const startTime = zonedTimeToUtc(input.date, input.startTime, input.timeZone);
+  const endTime = zonedTimeToUtc(input.date, input.endTime, input.timeZone);
+  if (new Date(endTime) <= new Date(startTime)) {
+    throw new Error("End time must be after the start time");
+  }
+
+  if (input.meetingLink.trim()) {
+    try {
+      new URL(input.meetingLink.trim());
+    } catch {
+      throw new Error("Meeting link must be a valid URL");
+    }
+  }
+
+  return { startTime, endTime };
+}
+
+// Interviews follow the access rules of the application's job
+async function assertApplicationAccess(
+  applicationId: string,
+  userContext: UserContext
+) {
+  if (!(await hasApplicationAccess(applicationId, userContext))) {
+    throw new Error("You do not have access to this application");
+  }
+}
+
+async function fetchInterviewById(interviewId: string) {
+  const { data, error } = await selectInterviews()
+    .eq("id", interviewId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch interview: ${error.message}`);
+  }
+
+  return mapInterview(data);
+}
+
+async function replaceInterviewers(interviewId: string, userIds: string[]) {
+  const { error: deleteError } = await supabase
+    .from("interview_interviewers")
+    .delete()
+    .eq("interview_id", interviewId);
+
+  if (deleteError) {
+    throw new Error(`Failed to update interviewers: ${deleteError.message}`);
+  }
+
+  const { error: insertError } = await supabase
+    .from("interview_interviewers")
+    .insert(
+      Array.from(new Set(userIds)).map((userId) => ({
+        interview_id: interviewId,
+        user_id: userId,
+      }))
+    );
+
+  if (insertError) {
+    throw new Error(`Failed to update interviewers: ${insertError.message}`);
+  }
+}
+
+interface InterviewsState {
+  // Sorted by start time, keyed by application ID
+  byApplicationId: Record<string, Interview[]>;
+  // Upcoming interviews of the current user
+  agenda: Interview[];
+  agendaLoaded: boolean;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: InterviewsState = {
+  byApplicationId: {},
+  agenda: [],
+  agendaLoaded: false,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+export const fetchApplicationInterviews = createAsyncThunk(
+  "interviews/fetchApplicationInterviews",
+  async (applicationId: string, { rejectWithValue }) => {
+    try {
+      const { data, error } = await selectInterviews()
+        .eq("application_id", applicationId)
+        .order("start_time", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch interviews: ${error.message}`);
+      }
+
+      return { applicationId, interviews: (data || []).map(mapInterview) };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch interviews"
+      );
+    }
+  }
+);
+
+// Interviews the user sits on that have not finished yet
+export const fetchInterviewAgenda = createAsyncThunk(
+  "interviews/fetchInterviewAgenda",
+  async (userId: string, { rejectWithValue }) => {
+    try {
+      const { data: assignments, error: assignmentError } = await supabase
+        .from("interview_interviewers")
+        .select("interview_id")
+        .eq("user_id", userId);
+
+      if (assignmentError) {
+        throw new Error(
+          `Failed to fetch interviews: ${assignmentError.message}`
+        );
+      }
+
+      const interviewIds = (assignments || []).map((row) => row.interview_id);
+      if (interviewIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await selectInterviews()
+        .in("id", interviewIds)
+        .gte("end_time", new Date().toISOString())
+        .neq("outcome", "cancelled")
+        .order("start_time", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch interviews: ${error.message}`);
+      }
+
+      return (data || []).map(mapInterview);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch interviews"
+      );
+    }
+  }
+);
+
+export const scheduleInterview = createAsyncThunk(
+  "interviews/scheduleInterview",
+  async (
+    {
+      applicationId,
+      input,
+      userContext,
+    }: {
+      applicationId: string;
+      input: InterviewInput;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { startTime, endTime } = validateInterviewInput(input);
+      await assertApplicationAccess(applicationId, userContext);
+
+      const { data, error } = await supabase
+        .from("interviews")
+        .insert({
+          application_id: applicationId,
+          organization_id: userContext.organizationId,
+          round_name: input.roundName.trim(),
+          start_time: startTime,
+          end_time: endTime,
+          time_zone: input.timeZone,
+          location: input.location.trim() || null,
+          meeting_link: input.meetingLink.trim() || null,
+          outcome: "pending",
+          created_by: userContext.userId,
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to schedule interview: ${error.message}`);
+      }
+
+      await replaceInterviewers(data.id, input.interviewerIds);
+
+      return await fetchInterviewById(data.id);
+    } catch (error) {
+      console.log("scheduleInterview error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to schedule interview"
+      );
+    }
+  }
+);
+
+// Reschedule or edit an interview; the invite sequence is bumped so
+// calendars that imported the earlier .ics replace it
+export const updateInterview = createAsyncThunk(
+  "interviews/updateInterview",
+  async (
+    {
+      interview,
+      input,
+      userContext,
+    }: {
+      interview: Interview;
+      input: InterviewInput;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { startTime, endTime } = validateInterviewInput(input);
+      await assertApplicationAccess(interview.applicationId, userContext);
+
+      const { error } = await supabase
+        .from("interviews")
+        .update({
+          round_name: input.roundName.trim(),
+          start_time: startTime,
+          end_time: endTime,
+          time_zone: input.timeZone,
+          location: input.location.trim() || null,
+          meeting_link: input.meetingLink.trim() || null,
+          ics_sequence: interview.icsSequence + 1,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", interview.id);
+
+      if (error) {
+        throw new Error(`Failed to update interview: ${error.message}`);
+      }
+
+      await replaceInterviewers(interview.id, input.interviewerIds);
+
+      return await fetchInterviewById(interview.id);
+    } catch (error) {
+      console.log("updateInterview error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to update interview"
+      );
+    }
+  }
+);
+
+export const setInterviewOutcome = createAsyncThunk(
+  "interviews/setInterviewOutcome",
+  async (
+    {
+      interview,
+      outcome,
+      userContext,
+    }: {
+      interview: Interview;
+      outcome: InterviewOutcome;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      await assertApplicationAccess(interview.applicationId, userContext);
+
+      const { error } = await supabase
+        .from("interviews")
+        .update({
+          outcome,
+          // A cancellation has to reach calendars as a new revision
+          ics_sequence:
+            outcome === "cancelled"
+              ? interview.icsSequence + 1
+              : interview.icsSequence,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", interview.id);
+
+      if (error) {
+        throw new Error(`Failed to update outcome: ${error.message}`);
+      }
+
+      return await fetchInterviewById(interview.id);
+    } catch (error) {
+      console.log("setInterviewOutcome error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to update outcome"
+      );
+    }
+  }
+);
+
+const upsertInterview = (state: InterviewsState, interview: Interview) => {
+  const list = state.byApplicationId[interview.applicationId];
+  if (list) {
+    state.byApplicationId[interview.applicationId] = [
+      ...list.filter((item) => item.id !== interview.id),
+      interview,
+    ].sort(byStartTime);
+  }
+
+  const agendaIndex = state.agenda.findIndex(
+    (item) => item.id === interview.id
+  );
+  if (agendaIndex !== -1) {
+    state.agenda[agendaIndex] = interview;
+  }
+};
+
+const interviewsSlice = createSlice({
+  name: "interviews",
+  initialState,
+  reducers: {
+    clearInterviewsError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchApplicationInterviews.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchApplicationInterviews.fulfilled, (state, action) => {
+        state.loading = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.interviews;
+      })
+      .addCase(fetchApplicationInterviews.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(fetchInterviewAgenda.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchInterviewAgenda.fulfilled, (state, action) => {
+        state.loading = false;
+        state.agenda = action.payload;
+        state.agendaLoaded = true;
+      })
+      .addCase(fetchInterviewAgenda.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(scheduleInterview.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(scheduleInterview.fulfilled, (state, action) => {
+        state.saving = false;
+        upsertInterview(state, action.payload);
+        // The new interview may belong on the agenda
+        state.agendaLoaded = false;
+      })
+      .addCase(scheduleInterview.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(updateInterview.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(updateInterview.fulfilled, (state, action) => {
+        state.saving = false;
+        upsertInterview(state, action.payload);
+        // Interviewers may have changed
+        state.agendaLoaded = false;
+      })
+      .addCase(updateInterview.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(setInterviewOutcome.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(setInterviewOutcome.fulfilled, (state, action) => {
+        state.saving = false;
+        upsertInterview(state, action.payload);
+      })
+      .addCase(setInterviewOutcome.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearInterviewsError } = interviewsSlice.actions;
+
+// Selectors
+type RootState = { interviews: InterviewsState };
+
+export const selectApplicationInterviews = (
+  state: RootState,
+  applicationId: string
+) => state.interviews.byApplicationId[applicationId];
+export const selectInterviewAgenda = (state: RootState) =>
+  state.interviews.agenda;
+export const selectInterviewAgendaLoaded = (state: RootState) =>
+  state.interviews.agendaLoaded;
+export const selectInterviewsLoading = (state: RootState) =>
+  state.interviews.loading;
+export const selectInterviewsSaving = (state: RootState) =>
+  state.interviews.saving;
+export const selectInterviewsError = (state: RootState) =>
+  state.interviews.error;
+
+export default interviewsSlice.reducer;
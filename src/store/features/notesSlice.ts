@@ -0,0 +1,622 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import { Json } from "@/types/supabase";
+import {
+  CandidateNote,
+  MentionNotification,
+  NoteThread,
+} from "@/types/custom";
+import {
+  hasApplicationAccess,
+  hasJobAccess,
+  UserContext,
+} from "./candidatesSlice";
+
+const supabase = createClient();
+
+export const NOTE_MAX_LENGTH = 5000;
+
+const NOTE_SELECT =
+  "id, candidate_id, application_id, parent_id, author_id, body, body_text, created_at, edited_at, deleted_at, author:user_profiles!candidate_notes_author_id_fkey(full_name)";
+
+// Notes are kept either on one application or on the candidate as a whole
+export interface NoteScope {
+  candidateId: string;
+  applicationId: string | null;
+}
+
+export const noteScopeKey = ({ candidateId, applicationId }: NoteScope) =>
+  applicationId ? `application:${applicationId}` : `candidate:${candidateId}`;
+
+type NoteRow = {
+  id: string;
+  candidate_id: string;
+  application_id: string | null;
+  parent_id: string | null;
+  author_id: string;
+  body: Json;
+  body_text: string;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  author: { full_name: string } | null;
+};
+
+const mapNote = (row: NoteRow): CandidateNote => ({
+  id: row.id,
+  candidateId: row.candidate_id,
+  applicationId: row.application_id,
+  parentId: row.parent_id,
+  author: {
+    id: row.author_id,
+    name: row.author?.full_name || "Unknown user",
+  },
+  body: row.deleted_at ? null : JSON.stringify(row.body),
+  bodyText: row.deleted_at ? "" : row.body_text,
+  createdAt: row.created_at,
+  editedAt: row.edited_at,
+  deletedAt: row.deleted_at,
+});
+
+// Newest threads first, replies in the order they were written
+export function buildNoteThreads(notes: CandidateNote[]): NoteThread[] {
+  const replies = new Map<string, CandidateNote[]>();
+  notes.forEach((note) => {
+    if (note.parentId) {
+      replies.set(note.parentId, [...(replies.get(note.parentId) || []), note]);
+    }
+  });
+
+  return notes
+    .filter((note) => !note.parentId)
+    .map((note) => ({ note, replies: replies.get(note.id) || [] }))
+    // A deleted note only stays as a placeholder while it has replies
+    .filter((thread) => !thread.note.deletedAt || thread.replies.length > 0)
+    .sort(
+      (a, b) =>
+        new Date(b.note.createdAt).getTime() -
+        new Date(a.note.createdAt).getTime()
+    );
+}
+
+// User IDs of the mention nodes in a serialized editor state
+export function extractMentionIds(body: Json): string[] {
+  const ids = new Set<string>();
+  const visit = (value: Json | undefined) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      if (value.type === "mention" && typeof value.userId === "string") {
+        ids.add(value.userId);
+      }
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(body);
+  return Array.from(ids);
+}
+
+const canManageAllNotes = (userContext: UserContext) =>
+  userContext.roles.includes("admin");
+
+// Candidate-wide notes follow the jobs the candidate applied to: TAs need
+// access to at least one of them
+async function hasCandidateAccess(
+  candidateId: string,
+  userContext: UserContext
+): Promise<boolean> {
+  if (userContext.roles.includes("admin") || userContext.roles.includes("hr")) {
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("job_id")
+    .eq("candidate_id", candidateId);
+
+  if (error) {
+    throw new Error(`Failed to fetch applications: ${error.message}`);
+  }
+
+  for (const { job_id } of data || []) {
+    if (await hasJobAccess(job_id, userContext)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+const hasScopeAccess = (scope: NoteScope, userContext: UserContext) =>
+  scope.applicationId
+    ? hasApplicationAccess(scope.applicationId, userContext)
+    : hasCandidateAccess(scope.candidateId, userContext);
+
+async function assertScopeAccess(scope: NoteScope, userContext: UserContext) {
+  if (!(await hasScopeAccess(scope, userContext))) {
+    throw new Error("You do not have access to this candidate's notes");
+  }
+}
+
+async function loadNotes(scope: NoteScope) {
+  let query = supabase
+    .from("candidate_notes")
+    .select(NOTE_SELECT)
+    .eq("candidate_id", scope.candidateId)
+    .order("created_at", { ascending: true });
+  query = scope.applicationId
+    ? query.eq("application_id", scope.applicationId)
+    : query.is("application_id", null);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch notes: ${error.message}`);
+  }
+
+  return (data || []).map(mapNote);
+}
+
+// Notify mentioned members who can see the note; returns how many were skipped
+async function notifyMentions({
+  userIds,
+  noteId,
+  scope,
+  userContext,
+}: {
+  userIds: string[];
+  noteId: string;
+  scope: NoteScope;
+  userContext: UserContext;
+}) {
+  const recipients = userIds.filter((id) => id !== userContext.userId);
+  if (recipients.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("user_id, role:roles!user_roles_role_id_fkey(name)")
+    .eq("organization_id", userContext.organizationId)
+    .eq("is_active", true)
+    .in("user_id", recipients);
+
+  if (error) {
+    throw new Error(`Failed to fetch mentioned members: ${error.message}`);
+  }
+
+  const rolesByUser = new Map<string, string[]>();
+  (data || []).forEach((row) => {
+    if (row.user_id && row.role?.name) {
+      rolesByUser.set(row.user_id, [
+        ...(rolesByUser.get(row.user_id) || []),
+        row.role.name,
+      ]);
+    }
+  });
+
+  const allowed: string[] = [];
+  for (const [userId, roles] of rolesByUser) {
+    const mentionedContext: UserContext = {
+      userId,
+      organizationId: userContext.organizationId,
+      roles: roles.join(", "),
+    };
+    if (await hasScopeAccess(scope, mentionedContext)) {
+      allowed.push(userId);
+    }
+  }
+
+  if (allowed.length > 0) {
+    const { error: insertError } = await supabase.from("notifications").insert(
+      allowed.map((userId) => ({
+        organization_id: userContext.organizationId,
+        user_id: userId,
+        actor_id: userContext.userId,
+        type: "note_mention",
+        note_id: noteId,
+        application_id: scope.applicationId,
+        candidate_id: scope.candidateId,
+      }))
+    );
+
+    if (insertError) {
+      throw new Error(`Failed to notify mentions: ${insertError.message}`);
+    }
+  }
+
+  return recipients.length - allowed.length;
+}
+
+const validateNoteText = (bodyText: string) => {
+  if (!bodyText.trim()) {
+    throw new Error("Note cannot be empty");
+  }
+  if (bodyText.length > NOTE_MAX_LENGTH) {
+    throw new Error(`Notes are limited to ${NOTE_MAX_LENGTH} characters`);
+  }
+};
+
+interface NotesState {
+  // Notes by scope key, oldest first
+  byScope: Record<string, CandidateNote[]>;
+  mentions: MentionNotification[];
+  mentionsLoaded: boolean;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: NotesState = {
+  byScope: {},
+  mentions: [],
+  mentionsLoaded: false,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+export const fetchNotes = createAsyncThunk(
+  "notes/fetchNotes",
+  async (
+    { scope, userContext }: { scope: NoteScope; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      await assertScopeAccess(scope, userContext);
+      return { key: noteScopeKey(scope), notes: await loadNotes(scope) };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch notes"
+      );
+    }
+  }
+);
+
+// Add a note, or a reply when parentId is set
+export const addNote = createAsyncThunk(
+  "notes/addNote",
+  async (
+    {
+      scope,
+      parentId,
+      body,
+      bodyText,
+      userContext,
+    }: {
+      scope: NoteScope;
+      parentId?: string | null;
+      body: string;
+      bodyText: string;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      validateNoteText(bodyText);
+      await assertScopeAccess(scope, userContext);
+      const editorState = JSON.parse(body) as Json;
+
+      const { data, error } = await supabase
+        .from("candidate_notes")
+        .insert({
+          organization_id: userContext.organizationId,
+          candidate_id: scope.candidateId,
+          application_id: scope.applicationId,
+          parent_id: parentId || null,
+          author_id: userContext.userId,
+          body: editorState,
+          body_text: bodyText.trim(),
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to add note: ${error.message}`);
+      }
+
+      const skippedMentions = await notifyMentions({
+        userIds: extractMentionIds(editorState),
+        noteId: data.id,
+        scope,
+        userContext,
+      });
+
+      return {
+        key: noteScopeKey(scope),
+        notes: await loadNotes(scope),
+        skippedMentions,
+      };
+    } catch (error) {
+      console.log("addNote error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to add note"
+      );
+    }
+  }
+);
+
+// Authors edit their own notes; newly added mentions are notified
+export const updateNote = createAsyncThunk(
+  "notes/updateNote",
+  async (
+    {
+      note,
+      body,
+      bodyText,
+      userContext,
+    }: {
+      note: CandidateNote;
+      body: string;
+      bodyText: string;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (note.author.id !== userContext.userId) {
+        throw new Error("You can only edit your own notes");
+      }
+      if (note.deletedAt) {
+        throw new Error("Deleted notes cannot be edited");
+      }
+      validateNoteText(bodyText);
+
+      const scope = {
+        candidateId: note.candidateId,
+        applicationId: note.applicationId,
+      };
+      await assertScopeAccess(scope, userContext);
+      const editorState = JSON.parse(body) as Json;
+
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from("candidate_notes")
+        .update({
+          body: editorState,
+          body_text: bodyText.trim(),
+          edited_at: now,
+          updated_at: now,
+        })
+        .eq("id", note.id)
+        .eq("author_id", userContext.userId);
+
+      if (error) {
+        throw new Error(`Failed to update note: ${error.message}`);
+      }
+
+      const previousMentions = new Set(
+        note.body ? extractMentionIds(JSON.parse(note.body)) : []
+      );
+      const skippedMentions = await notifyMentions({
+        userIds: extractMentionIds(editorState).filter(
+          (id) => !previousMentions.has(id)
+        ),
+        noteId: note.id,
+        scope,
+        userContext,
+      });
+
+      return {
+        key: noteScopeKey(scope),
+        notes: await loadNotes(scope),
+        skippedMentions,
+      };
+    } catch (error) {
+      console.log("updateNote error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to update note"
+      );
+    }
+  }
+);
+
+// Soft delete so replies keep their context; the content itself is cleared
+export const deleteNote = createAsyncThunk(
+  "notes/deleteNote",
+  async (
+    { note, userContext }: { note: CandidateNote; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (
+        note.author.id !== userContext.userId &&
+        !canManageAllNotes(userContext)
+      ) {
+        throw new Error("You can only delete your own notes");
+      }
+
+      const scope = {
+        candidateId: note.candidateId,
+        applicationId: note.applicationId,
+      };
+      await assertScopeAccess(scope, userContext);
+
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from("candidate_notes")
+        .update({ body: {}, body_text: "", deleted_at: now, updated_at: now })
+        .eq("id", note.id);
+
+      if (error) {
+        throw new Error(`Failed to delete note: ${error.message}`);
+      }
+
+      return { key: noteScopeKey(scope), notes: await loadNotes(scope) };
+    } catch (error) {
+      console.log("deleteNote error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to delete note"
+      );
+    }
+  }
+);
+
+export const fetchMentionNotifications = createAsyncThunk(
+  "notes/fetchMentionNotifications",
+  async (userId: string, { rejectWithValue }) => {
+    try {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select(
+          "id, note_id, read_at, created_at, actor:user_profiles!notifications_actor_id_fkey(full_name), candidate:candidates_profiles!notifications_candidate_id_fkey(name), application:job_applications!notifications_application_id_fkey(job_id, job:jobs!job_applications_job_id_fkey(title))"
+        )
+        .eq("user_id", userId)
+        .eq("type", "note_mention")
+        .order("created_at", { ascending: false })
+        .limit(100);
+
+      if (error) {
+        throw new Error(`Failed to fetch mentions: ${error.message}`);
+      }
+
+      return (data || []).map(
+        (row): MentionNotification => ({
+          id: row.id,
+          actorName: row.actor?.full_name || "Someone",
+          candidateName: row.candidate?.name || "a candidate",
+          jobId: row.application?.job_id || null,
+          jobTitle: row.application?.job?.title || null,
+          noteId: row.note_id,
+          readAt: row.read_at,
+          createdAt: row.created_at,
+        })
+      );
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch mentions"
+      );
+    }
+  }
+);
+
+export const markMentionsRead = createAsyncThunk(
+  "notes/markMentionsRead",
+  async (
+    { ids, userId }: { ids: string[]; userId: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const readAt = new Date().toISOString();
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: readAt })
+        .in("id", ids)
+        .eq("user_id", userId)
+        .is("read_at", null);
+
+      if (error) {
+        throw new Error(`Failed to update mentions: ${error.message}`);
+      }
+
+      return { ids, readAt };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to update mentions"
+      );
+    }
+  }
+);
+
+const notesSlice = createSlice({
+  name: "notes",
+  initialState,
+  reducers: {
+    clearNotesError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchNotes.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchNotes.fulfilled, (state, action) => {
+        state.loading = false;
+        state.byScope[action.payload.key] = action.payload.notes;
+      })
+      .addCase(fetchNotes.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(fetchMentionNotifications.fulfilled, (state, action) => {
+        state.mentions = action.payload;
+        state.mentionsLoaded = true;
+      })
+      .addCase(fetchMentionNotifications.rejected, (state, action) => {
+        state.mentionsLoaded = true;
+        state.error = action.payload as string;
+      })
+
+      .addCase(markMentionsRead.fulfilled, (state, action) => {
+        const ids = new Set(action.payload.ids);
+        state.mentions.forEach((mention) => {
+          if (ids.has(mention.id) && !mention.readAt) {
+            mention.readAt = action.payload.readAt;
+          }
+        });
+      })
+      .addCase(markMentionsRead.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+
+      .addCase(addNote.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(addNote.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byScope[action.payload.key] = action.payload.notes;
+      })
+      .addCase(addNote.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(updateNote.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(updateNote.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byScope[action.payload.key] = action.payload.notes;
+      })
+      .addCase(updateNote.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(deleteNote.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(deleteNote.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byScope[action.payload.key] = action.payload.notes;
+      })
+      .addCase(deleteNote.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearNotesError } = notesSlice.actions;
+
+// Selectors
+type RootState = { notes: NotesState };
+
+export const selectNotes = (state: RootState, scope: NoteScope) =>
+  state.notes.byScope[noteScopeKey(scope)];
+export const selectMentionNotifications = (state: RootState) =>
+  state.notes.mentions;
+export const selectMentionsLoaded = (state: RootState) =>
+  state.notes.mentionsLoaded;
+export const selectUnreadMentionCount = (state: RootState) =>
+  state.notes.mentions.filter((mention) => !mention.readAt).length;
+export const selectNotesLoading = (state: RootState) => state.notes.loading;
+export const selectNotesSaving = (state: RootState) => state.notes.saving;
+export const selectNotesError = (state: RootState) => state.notes.error;
+
+export default notesSlice.reducer;
@@ -0,0 +1,787 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  OFFER_APPROVAL_DECISIONS,
+  OFFER_STATUSES,
+  Offer,
+  OfferApproval,
+  OfferApprovalDecision,
+  OfferApprover,
+  OfferInput,
+  OfferStatus,
+} from "@/types/custom";
+import { hasApplicationAccess, UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  draft: "Draft",
+  pending_approval: "Pending approval",
+  sent: "Sent",
+  accepted: "Accepted",
+  declined: "Declined",
+  expired: "Expired",
+};
+
+const OFFER_SELECT =
+  "id, application_id, offered_ctc, joining_date, expires_at, status, out_of_band, notes, created_by, created_at, updated_at, sent_at, responded_at, creator:user_profiles!offers_created_by_fkey(full_name), offer_approvals(id, position, approver_id, admin_required, decision, comment, decided_at, approver:user_profiles!offer_approvals_approver_id_fkey(full_name), decider:user_profiles!offer_approvals_decided_by_fkey(full_name))";
+
+const isOfferStatus = (value: string): value is OfferStatus =>
+  (OFFER_STATUSES as readonly string[]).includes(value);
+
+const isApprovalDecision = (value: string): value is OfferApprovalDecision =>
+  (OFFER_APPROVAL_DECISIONS as readonly string[]).includes(value);
+
+const todayDate = () => new Date().toISOString().slice(0, 10);
+
+const canManageOffers = (userContext: UserContext) =>
+  userContext.roles.includes("admin") || userContext.roles.includes("hr");
+
+// Helpers shared by the thunks and the UI
+
+// An offer is out of band when it falls outside the job's salary range. Jobs
+// without a range never are; a bound of 0 means none, as on the careers pages.
+export const isOutOfBand = (
+  offeredCtc: number,
+  salaryMin: number | null | undefined,
+  salaryMax: number | null | undefined
+) =>
+  (!!salaryMin && offeredCtc < salaryMin) ||
+  (!!salaryMax && offeredCtc > salaryMax);
+
+export const formatCtc = (value: number | null | undefined) =>
+  value == null ? "N/A" : `₹${value.toLocaleString("en-IN")}`;
+
+// The step waiting for a decision, if any
+export const currentApproval = (offer: Offer): OfferApproval | undefined =>
+  offer.status === "pending_approval"
+    ? offer.approvals.find((approval) => approval.decision === "pending")
+    : undefined;
+
+export const isFullyApproved = (offer: Offer) =>
+  offer.status === "pending_approval" &&
+  offer.approvals.length > 0 &&
+  offer.approvals.every((approval) => approval.decision === "approved");
+
+export const canDecideApproval = (
+  approval: OfferApproval,
+  userContext: UserContext
+) =>
+  approval.adminRequired
+    ? userContext.roles.includes("admin")
+    : approval.approver?.id === userContext.userId;
+
+// Drafts need approval when the organization has a chain or the offer is out
+// of band
+export const needsApproval = (offer: Offer, approvers: OfferApprover[]) =>
+  approvers.length > 0 || offer.outOfBand;
+
+// Returns an error message for an invalid offer, or null if it is valid
+export function validateOfferInput(input: OfferInput): string | null {
+  if (!Number.isFinite(input.offeredCtc) || input.offeredCtc <= 0) {
+    return "Offered CTC must be a positive amount";
+  }
+  if (input.expiresAt && input.expiresAt < todayDate()) {
+    return "The expiry date cannot be in the past";
+  }
+  if (input.joiningDate && input.joiningDate < todayDate()) {
+    return "The joining date cannot be in the past";
+  }
+  return null;
+}
+
+async function assertOfferAccess(
+  applicationId: string,
+  userContext: UserContext
+) {
+  if (!(await hasApplicationAccess(applicationId, userContext))) {
+    throw new Error("You do not have access to this job's offers");
+  }
+}
+
+// Salary band of the job an application belongs to
+async function loadSalaryBand(applicationId: string) {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("job:jobs!job_applications_job_id_fkey(salary_min, salary_max)")
+    .eq("id", applicationId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch the job's salary band: ${error.message}`);
+  }
+
+  return {
+    salaryMin: data.job?.salary_min ?? null,
+    salaryMax: data.job?.salary_max ?? null,
+  };
+}
+
+async function loadOfferApprovers(
+  organizationId: string
+): Promise<OfferApprover[]> {
+  const { data, error } = await supabase
+    .from("offer_approvers")
+    .select(
+      "user_id, position, member:user_profiles!offer_approvers_user_id_fkey(full_name)"
+    )
+    .eq("organization_id", organizationId)
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch the approval chain: ${error.message}`);
+  }
+
+  return (data || []).map((row, index) => ({
+    userId: row.user_id,
+    name: row.member?.full_name || "Unknown user",
+    position: index,
+  }));
+}
+
+async function loadApplicationOffers(applicationId: string): Promise<Offer[]> {
+  // Sent offers lapse once their expiry date has passed
+  const { error: expireError } = await supabase
+    .from("offers")
+    .update({ status: "expired", updated_at: new Date().toISOString() })
+    .eq("application_id", applicationId)
+    .eq("status", "sent")
+    .lt("expires_at", todayDate());
+
+  if (expireError) {
+    console.log("Failed to expire offers:", expireError);
+  }
+
+  const { data, error } = await supabase
+    .from("offers")
+    .select(OFFER_SELECT)
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch offers: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    applicationId: row.application_id,
+    offeredCtc: Number(row.offered_ctc),
+    joiningDate: row.joining_date,
+    expiresAt: row.expires_at,
+    status: isOfferStatus(row.status) ? row.status : "draft",
+    outOfBand: row.out_of_band,
+    notes: row.notes,
+    createdBy: row.creator?.full_name || "Unknown user",
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    sentAt: row.sent_at,
+    respondedAt: row.responded_at,
+    approvals: [...(row.offer_approvals || [])]
+      .sort((a, b) => a.position - b.position)
+      .map((approval) => ({
+        id: approval.id,
+        position: approval.position,
+        approver: approval.approver_id
+          ? {
+              id: approval.approver_id,
+              name: approval.approver?.full_name || "Unknown user",
+            }
+          : null,
+        adminRequired: approval.admin_required,
+        decision: isApprovalDecision(approval.decision)
+          ? approval.decision
+          : "pending",
+        comment: approval.comment,
+        decidedBy: approval.decider?.full_name || null,
+        decidedAt: approval.decided_at,
+      })),
+  }));
+}
+
+interface OffersState {
+  approversOrganizationId: string | null;
+  approvers: OfferApprover[];
+  approversLoading: boolean;
+  // Offers by application ID, newest first
+  byApplicationId: Record<string, Offer[]>;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: OffersState = {
+  approversOrganizationId: null,
+  approvers: [],
+  approversLoading: false,
+  byApplicationId: {},
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+export const fetchOfferApprovers = createAsyncThunk(
+  "offers/fetchOfferApprovers",
+  async (organizationId: string, { rejectWithValue }) => {
+    try {
+      if (!organizationId) {
+        throw new Error("Organization ID is required");
+      }
+      const approvers = await loadOfferApprovers(organizationId);
+      return { organizationId, approvers };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch the approval chain"
+      );
+    }
+  },
+  {
+    // Skip the round trip when this organization's chain is already loaded
+    condition: (organizationId, { getState }) => {
+      const { offers } = getState() as { offers: OffersState };
+      return (
+        !offers.approversLoading &&
+        offers.approversOrganizationId !== organizationId
+      );
+    },
+  }
+);
+
+// Replace the organization's approval chain; admin only
+export const saveOfferApprovers = createAsyncThunk(
+  "offers/saveOfferApprovers",
+  async (
+    {
+      userIds,
+      userContext,
+    }: { userIds: string[]; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { organizationId, roles } = userContext;
+
+      if (!roles.includes("admin")) {
+        throw new Error("Only admins can change the offer approval chain");
+      }
+
+      if (new Set(userIds).size !== userIds.length) {
+        throw new Error("Each member can only appear once in the chain");
+      }
+
+      const { error: deleteError } = await supabase
+        .from("offer_approvers")
+        .delete()
+        .eq("organization_id", organizationId);
+
+      if (deleteError) {
+        throw new Error(
+          `Failed to replace the approval chain: ${deleteError.message}`
+        );
+      }
+
+      if (userIds.length > 0) {
+        const { error: insertError } = await supabase
+          .from("offer_approvers")
+          .insert(
+            userIds.map((userId, index) => ({
+              organization_id: organizationId,
+              user_id: userId,
+              position: index,
+            }))
+          );
+
+        if (insertError) {
+          throw new Error(
+            `Failed to save the approval chain: ${insertError.message}`
+          );
+        }
+      }
+
+      const approvers = await loadOfferApprovers(organizationId);
+      return { organizationId, approvers };
+    } catch (error) {
+      console.log("saveOfferApprovers error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to save the approval chain"
+      );
+    }
+  }
+);
+
+export const fetchApplicationOffers = createAsyncThunk(
+  "offers/fetchApplicationOffers",
+  async (
+    {
+      applicationId,
+      userContext,
+    }: { applicationId: string; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      await assertOfferAccess(applicationId, userContext);
+      const offers = await loadApplicationOffers(applicationId);
+      return { applicationId, offers };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch offers"
+      );
+    }
+  }
+);
+
+// Create a draft offer, or edit one when offerId is set. Only drafts can be
+// edited; the band check is redone against the job on every save.
+export const saveOffer = createAsyncThunk(
+  "offers/saveOffer",
+  async (
+    {
+      applicationId,
+      offerId,
+      input,
+      userContext,
+    }: {
+      applicationId: string;
+      offerId?: string | null;
+      input: OfferInput;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!canManageOffers(userContext)) {
+        throw new Error("Only admins and HR can prepare offers");
+      }
+
+      const validationError = validateOfferInput(input);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      await assertOfferAccess(applicationId, userContext);
+      const { salaryMin, salaryMax } = await loadSalaryBand(applicationId);
+
+      const values = {
+        offered_ctc: input.offeredCtc,
+        joining_date: input.joiningDate || null,
+        expires_at: input.expiresAt || null,
+        notes: input.notes.trim() || null,
+        out_of_band: isOutOfBand(input.offeredCtc, salaryMin, salaryMax),
+        updated_at: new Date().toISOString(),
+      };
+
+      if (offerId) {
+        const { data, error } = await supabase
+          .from("offers")
+          .update(values)
+          .eq("id", offerId)
+          .eq("status", "draft")
+          .select("id");
+
+        if (error) {
+          throw new Error(`Failed to save offer: ${error.message}`);
+        }
+        if (!data || data.length === 0) {
+          throw new Error("Only draft offers can be edited");
+        }
+      } else {
+        const { error } = await supabase.from("offers").insert({
+          ...values,
+          application_id: applicationId,
+          status: "draft",
+          created_by: userContext.userId,
+        });
+
+        if (error) {
+          throw new Error(`Failed to create offer: ${error.message}`);
+        }
+      }
+
+      const offers = await loadApplicationOffers(applicationId);
+      return { applicationId, offers };
+    } catch (error) {
+      console.log("saveOffer error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to save offer"
+      );
+    }
+  }
+);
+
+// Start a new approval round: one step per member of the chain, then an
+// admin step when the offer is out of band. The database rebuilds the round
+// from the current chain and band in one transaction.
+export const submitOfferForApproval = createAsyncThunk(
+  "offers/submitOfferForApproval",
+  async (
+    { offer, userContext }: { offer: Offer; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!canManageOffers(userContext)) {
+        throw new Error("Only admins and HR can submit offers for approval");
+      }
+
+      const { error } = await supabase.rpc("submit_offer_for_approval", {
+        p_offer_id: offer.id,
+      });
+
+      if (error) {
+        throw new Error(`Failed to submit offer: ${error.message}`);
+      }
+
+      const offers = await loadApplicationOffers(offer.applicationId);
+      return { applicationId: offer.applicationId, offers };
+    } catch (error) {
+      console.log("submitOfferForApproval error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to submit offer for approval"
+      );
+    }
+  }
+);
+
+// Approve or reject the current step. Steps are decided in order; a
+// rejection sends the offer back to draft. The database checks the step
+// against the stored approvals, not this copy of the offer.
+export const decideOfferApproval = createAsyncThunk(
+  "offers/decideOfferApproval",
+  async (
+    {
+      offer,
+      decision,
+      comment,
+      userContext,
+    }: {
+      offer: Offer;
+      decision: Exclude<OfferApprovalDecision, "pending">;
+      comment: string;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const step = currentApproval(offer);
+      if (!step) {
+        throw new Error("This offer is not waiting for approval");
+      }
+      if (!canDecideApproval(step, userContext)) {
+        throw new Error(
+          step.adminRequired
+            ? "Only an admin can approve an offer outside the salary band"
+            : "This approval step is assigned to someone else"
+        );
+      }
+      if (decision === "rejected" && !comment.trim()) {
+        throw new Error("Say why the offer is rejected");
+      }
+
+      const { error } = await supabase.rpc("decide_offer_approval", {
+        p_offer_id: offer.id,
+        p_decision: decision,
+        p_comment: comment.trim() || undefined,
+      });
+
+      if (error) {
+        throw new Error(`Failed to record decision: ${error.message}`);
+      }
+
+      const offers = await loadApplicationOffers(offer.applicationId);
+      return { applicationId: offer.applicationId, offers };
+    } catch (error) {
+      console.log("decideOfferApproval error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to record decision"
+      );
+    }
+  }
+);
+
+// Mark an offer as sent to the candidate, once every approval is in. The
+// database checks the stored status, approvals and band.
+export const sendOffer = createAsyncThunk(
+  "offers/sendOffer",
+  async (
+    { offer, userContext }: { offer: Offer; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!canManageOffers(userContext)) {
+        throw new Error("Only admins and HR can send offers");
+      }
+
+      const { error } = await supabase.rpc("send_offer", {
+        p_offer_id: offer.id,
+      });
+
+      if (error) {
+        throw new Error(`Failed to send offer: ${error.message}`);
+      }
+
+      const offers = await loadApplicationOffers(offer.applicationId);
+      return { applicationId: offer.applicationId, offers };
+    } catch (error) {
+      console.log("sendOffer error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to send offer"
+      );
+    }
+  }
+);
+
+// Record the candidate's answer to a sent offer
+export const recordOfferResponse = createAsyncThunk(
+  "offers/recordOfferResponse",
+  async (
+    {
+      offer,
+      response,
+      userContext,
+    }: {
+      offer: Offer;
+      response: Extract<OfferStatus, "accepted" | "declined">;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!canManageOffers(userContext)) {
+        throw new Error("Only admins and HR can record offer responses");
+      }
+      if (offer.status !== "sent") {
+        throw new Error("Only sent offers can be accepted or declined");
+      }
+
+      const respondedAt = new Date().toISOString();
+      const { data, error } = await supabase
+        .from("offers")
+        .update({
+          status: response,
+          responded_at: respondedAt,
+          updated_at: respondedAt,
+        })
+        .eq("id", offer.id)
+        .eq("status", "sent")
+        .select("id");
+
+      if (error) {
+        throw new Error(`Failed to record response: ${error.message}`);
+      }
+      if (!data || data.length === 0) {
+        throw new Error("Only sent offers can be accepted or declined");
+      }
+
+      const offers = await loadApplicationOffers(offer.applicationId);
+      return { applicationId: offer.applicationId, offers };
+    } catch (error) {
+      console.log("recordOfferResponse error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to record response"
+      );
+    }
+  }
+);
+
+export const deleteOffer = createAsyncThunk(
+  "offers/deleteOffer",
+  async (
+    { offer, userContext }: { offer: Offer; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!canManageOffers(userContext)) {
+        throw new Error("Only admins and HR can delete offers");
+      }
+      if (offer.status !== "draft") {
+        throw new Error("Only draft offers can be deleted");
+      }
+
+      // Approvals from earlier rounds are removed with the offer
+      const { data, error } = await supabase
+        .from("offers")
+        .delete()
+        .eq("id", offer.id)
+        .eq("status", "draft")
+        .select("id");
+
+      if (error) {
+        throw new Error(`Failed to delete offer: ${error.message}`);
+      }
+      if (!data || data.length === 0) {
+        throw new Error("Only draft offers can be deleted");
+      }
+
+      return { applicationId: offer.applicationId, offerId: offer.id };
+    } catch (error) {
+      console.log("deleteOffer error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to delete offer"
+      );
+    }
+  }
+);
+
+const offersSlice = createSlice({
+  name: "offers",
+  initialState,
+  reducers: {
+    clearOffersError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchOfferApprovers.pending, (state) => {
+        state.approversLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchOfferApprovers.fulfilled, (state, action) => {
+        state.approversLoading = false;
+        state.approversOrganizationId = action.payload.organizationId;
+        state.approvers = action.payload.approvers;
+      })
+      .addCase(fetchOfferApprovers.rejected, (state, action) => {
+        state.approversLoading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(saveOfferApprovers.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveOfferApprovers.fulfilled, (state, action) => {
+        state.saving = false;
+        state.approversOrganizationId = action.payload.organizationId;
+        state.approvers = action.payload.approvers;
+      })
+      .addCase(saveOfferApprovers.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(fetchApplicationOffers.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchApplicationOffers.fulfilled, (state, action) => {
+        state.loading = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.offers;
+      })
+      .addCase(fetchApplicationOffers.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(saveOffer.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveOffer.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.offers;
+      })
+      .addCase(saveOffer.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(submitOfferForApproval.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(submitOfferForApproval.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.offers;
+      })
+      .addCase(submitOfferForApproval.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(decideOfferApproval.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(decideOfferApproval.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.offers;
+      })
+      .addCase(decideOfferApproval.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(sendOffer.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(sendOffer.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.offers;
+      })
+      .addCase(sendOffer.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(recordOfferResponse.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(recordOfferResponse.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.offers;
+      })
+      .addCase(recordOfferResponse.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(deleteOffer.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(deleteOffer.fulfilled, (state, action) => {
+        state.saving = false;
+        const { applicationId, offerId } = action.payload;
+        state.byApplicationId[applicationId] = (
+          state.byApplicationId[applicationId] || []
+        ).filter((offer) => offer.id !== offerId);
+      })
+      .addCase(deleteOffer.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearOffersError } = offersSlice.actions;
+
+// Selectors
+type RootState = { offers: OffersState };
+
+export const selectOfferApprovers = (state: RootState) =>
+  state.offers.approvers;
+export const selectOfferApproversLoading = (state: RootState) =>
+  state.offers.approversLoading;
+export const selectApplicationOffers = (
+  state: RootState,
+  applicationId: string
+) => state.offers.byApplicationId[applicationId];
+export const selectOffersLoading = (state: RootState) => state.offers.loading;
+export const selectOffersSaving = (state: RootState) => state.offers.saving;
+export const selectOffersError = (state: RootState) => state.offers.error;
+
+export default offersSlice.reducer;
@@ -0,0 +1,337 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  DEFAULT_PIPELINE_STAGES,
+  HiringPipeline,
+  PIPELINE_STAGE_CATEGORIES,
+  PIPELINE_STAGE_COLORS,
+  PipelineStage,
+  PipelineStageCategory,
+  PipelineStageColor,
+} from "@/types/custom";
+import type { UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+interface PipelineState {
+  pipeline: HiringPipeline | null;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: PipelineState = {
+  pipeline: null,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Helpers shared by the status thunks and the UI
+export const findStage = (
+  stages: PipelineStage[],
+  key: string | null | undefined
+): PipelineStage | undefined => {
+  if (!key) return undefined;
+  const normalizedKey = key.toLowerCase();
+  return stages.find((stage) => stage.key === normalizedKey);
+};
+
+export const canTransition = (
+  stages: PipelineStage[],
+  fromKey: string | null | undefined,
+  toKey: string
+): boolean => {
+  const target = findStage(stages, toKey);
+  if (!target) return false;
+
+  const source = findStage(stages, fromKey);
+  if (source?.key === target.key) return false;
+  // Applications sitting in a stage that no longer exists may move anywhere
+  if (!source || source.allowedTransitions === null) return true;
+
+  return source.allowedTransitions.includes(target.key);
+};
+
+export const formatStageLabel = (
+  stages: PipelineStage[],
+  key: string | null | undefined
+): string => {
+  const stage = findStage(stages, key);
+  if (stage) return stage.label;
+  if (!key) return "Unknown";
+  return key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, " ");
+};
+
+// New applications start in the first open stage of the pipeline
+export const initialStage = (stages: PipelineStage[]) =>
+  (stages.find((stage) => stage.category === "active") || stages[0]).key;
+
+export const toStageKey = (label: string): string =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+const isStageCategory = (value: string): value is PipelineStageCategory =>
+  (PIPELINE_STAGE_CATEGORIES as readonly string[]).includes(value);
+
+const isStageColor = (value: string | null): value is PipelineStageColor =>
+  !!value && (PIPELINE_STAGE_COLORS as readonly string[]).includes(value);
+
+const defaultPipeline = (organizationId: string): HiringPipeline => ({
+  id: null,
+  organizationId,
+  name: "Default pipeline",
+  stages: DEFAULT_PIPELINE_STAGES,
+});
+
+// Loads the organization's pipeline, falling back to the built-in default
+export async function loadPipeline(
+  organizationId: string
+): Promise<HiringPipeline> {
+  const { data, error } = await supabase
+    .from("hiring_pipelines")
+    .select(
+      "id, name, organization_id, pipeline_stages(stage_key, label, position, category, color, allowed_transitions)"
+    )
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch hiring pipeline: ${error.message}`);
+  }
+
+  if (!data || !data.pipeline_stages || data.pipeline_stages.length === 0) {
+    return defaultPipeline(organizationId);
+  }
+
+  const stages: PipelineStage[] = [...data.pipeline_stages]
+    .sort((a, b) => a.position - b.position)
+    .map((stage, index) => ({
+      key: stage.stage_key,
+      label: stage.label,
+      position: index,
+      category: isStageCategory(stage.category) ? stage.category : "active",
+      color: isStageColor(stage.color) ? stage.color : "neutral",
+      allowedTransitions: stage.allowed_transitions,
+    }));
+
+  return {
+    id: data.id,
+    organizationId: data.organization_id,
+    name: data.name,
+    stages,
+  };
+}
+
+// Returns an error message for an invalid stage list, or null if it is valid
+export function validatePipelineStages(stages: PipelineStage[]): string | null {
+  if (stages.length < 2) {
+    return "A pipeline needs at least two stages";
+  }
+
+  const keys = new Set<string>();
+  for (const stage of stages) {
+    if (!stage.key || !stage.label.trim()) {
+      return "Every stage needs a name";
+    }
+    if (keys.has(stage.key)) {
+      return `Duplicate stage: ${stage.label}`;
+    }
+    keys.add(stage.key);
+  }
+
+  if (stages[0].category !== "active") {
+    return "The first stage must be an active stage";
+  }
+
+  if (!stages.some((stage) => stage.category === "terminal_positive")) {
+    return "At least one stage must be a hired (terminal positive) stage";
+  }
+
+  if (!stages.some((stage) => stage.category === "terminal_negative")) {
+    return "At least one stage must be a rejected (terminal negative) stage";
+  }
+
+  for (const stage of stages) {
+    const unknown = stage.allowedTransitions?.find((key) => !keys.has(key));
+    if (unknown) {
+      return `Stage "${stage.label}" allows a transition to unknown stage "${unknown}"`;
+    }
+  }
+
+  return null;
+}
+
+export const fetchPipeline = createAsyncThunk(
+  "pipeline/fetchPipeline",
+  async (organizationId: string, { rejectWithValue }) => {
+    try {
+      if (!organizationId) {
+        throw new Error("Organization ID is required");
+      }
+      return await loadPipeline(organizationId);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch pipeline"
+      );
+    }
+  },
+  {
+    // Skip the round trip when this organization's pipeline is already loaded
+    condition: (organizationId, { getState }) => {
+      const { pipeline } = getState() as { pipeline: PipelineState };
+      return (
+        !pipeline.loading &&
+        pipeline.pipeline?.organizationId !== organizationId
+      );
+    },
+  }
+);
+
+export const savePipeline = createAsyncThunk(
+  "pipeline/savePipeline",
+  async (
+    {
+      name,
+      stages,
+      userContext,
+    }: {
+      name: string;
+      stages: PipelineStage[];
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { organizationId, roles } = userContext;
+
+      if (!roles.includes("admin")) {
+        throw new Error("Only admins can change the hiring pipeline");
+      }
+
+      const orderedStages = stages.map((stage, index) => ({
+        ...stage,
+        position: index,
+      }));
+
+      const validationError = validatePipelineStages(orderedStages);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      // Refuse to drop stages that applications are still sitting in
+      const current = await loadPipeline(organizationId);
+      const keptKeys = new Set(orderedStages.map((stage) => stage.key));
+      const removedKeys = current.stages
+        .map((stage) => stage.key)
+        .filter((key) => !keptKeys.has(key));
+
+      if (removedKeys.length > 0) {
+        const { count, error: countError } = await supabase
+          .from("job_applications")
+          .select("id, jobs!inner(organization_id)", {
+            count: "exact",
+            head: true,
+          })
+          .eq("jobs.organization_id", organizationId)
+          .in("application_status", removedKeys);
+
+        if (countError) {
+          throw new Error(
+            `Failed to check stages in use: ${countError.message}`
+          );
+        }
+
+        if (count && count > 0) {
+          throw new Error(
+            `${count} application(s) are still in a stage you removed (${removedKeys.join(
+              ", "
+            )}). Move them first.`
+          );
+        }
+      }
+
+      // The pipeline and its stages are replaced in one transaction
+      const { error: saveError } = await supabase.rpc("save_hiring_pipeline", {
+        p_organization_id: organizationId,
+        p_name: name.trim() || "Hiring pipeline",
+        p_stages: orderedStages.map((stage) => ({
+          stage_key: stage.key,
+          label: stage.label.trim(),
+          position: stage.position,
+          category: stage.category,
+          color: stage.color,
+          allowed_transitions: stage.allowedTransitions,
+        })),
+      });
+
+      if (saveError) {
+        throw new Error(`Failed to save pipeline: ${saveError.message}`);
+      }
+
+      return await loadPipeline(organizationId);
+    } catch (error) {
+      console.log("savePipeline error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to save pipeline"
+      );
+    }
+  }
+);
+
+const pipelineSlice = createSlice({
+  name: "pipeline",
+  initialState,
+  reducers: {
+    clearPipelineError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchPipeline.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchPipeline.fulfilled, (state, action) => {
+        state.loading = false;
+        state.pipeline = action.payload;
+      })
+      .addCase(fetchPipeline.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(savePipeline.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(savePipeline.fulfilled, (state, action) => {
+        state.saving = false;
+        state.pipeline = action.payload;
+      })
+      .addCase(savePipeline.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearPipelineError } = pipelineSlice.actions;
+
+// Selectors
+type RootState = { pipeline: PipelineState };
+
+export const selectPipeline = (state: RootState) => state.pipeline.pipeline;
+// Falls back to the default stages so the UI has something to render while loading
+export const selectPipelineStages = (state: RootState) =>
+  state.pipeline.pipeline?.stages ?? DEFAULT_PIPELINE_STAGES;
+export const selectPipelineLoading = (state: RootState) =>
+  state.pipeline.loading;
+export const selectPipelineSaving = (state: RootState) => state.pipeline.saving;
+export const selectPipelineError = (state: RootState) => state.pipeline.error;
+
+export default pipelineSlice.reducer;
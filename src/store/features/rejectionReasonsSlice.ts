@@ -0,0 +1,270 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  DEFAULT_REJECTION_REASONS,
+  REJECTION_REASON_CATEGORIES,
+  RejectionReason,
+  RejectionReasonCategory,
+} from "@/types/custom";
+import type { UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+interface RejectionReasonsState {
+  organizationId: string | null;
+  reasons: RejectionReason[];
+  // False while the organization is on the built-in catalogue
+  customized: boolean;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: RejectionReasonsState = {
+  organizationId: null,
+  reasons: DEFAULT_REJECTION_REASONS,
+  customized: false,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Helpers shared by the status thunks and the UI
+export const findRejectionReason = (
+  reasons: RejectionReason[],
+  key: string | null | undefined
+): RejectionReason | undefined => {
+  if (!key) return undefined;
+  return reasons.find((reason) => reason.key === key);
+};
+
+// Reasons removed from the catalogue still show on older applications
+export const formatRejectionReason = (
+  reasons: RejectionReason[],
+  key: string | null | undefined
+): string => {
+  const reason = findRejectionReason(reasons, key);
+  if (reason) return reason.label;
+  if (!key) return "No reason given";
+  return key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, " ");
+};
+
+const isReasonCategory = (value: string): value is RejectionReasonCategory =>
+  (REJECTION_REASON_CATEGORIES as readonly string[]).includes(value);
+
+// Loads the organization's catalogue, falling back to the built-in reasons
+export async function loadRejectionReasons(organizationId: string) {
+  const { data, error } = await supabase
+    .from("rejection_reasons")
+    .select("reason_key, label, category, position")
+    .eq("organization_id", organizationId)
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch rejection reasons: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    return {
+      organizationId,
+      reasons: DEFAULT_REJECTION_REASONS,
+      customized: false,
+    };
+  }
+
+  const reasons: RejectionReason[] = data.map((reason, index) => ({
+    key: reason.reason_key,
+    label: reason.label,
+    category: isReasonCategory(reason.category)
+      ? reason.category
+      : "rejected_by_us",
+    position: index,
+  }));
+
+  return { organizationId, reasons, customized: true };
+}
+
+// Returns an error message for an invalid catalogue, or null if it is valid
+export function validateRejectionReasons(
+  reasons: RejectionReason[]
+): string | null {
+  const keys = new Set<string>();
+  for (const reason of reasons) {
+    if (!reason.key || !reason.label.trim()) {
+      return "Every rejection reason needs a name";
+    }
+    if (keys.has(reason.key)) {
+      return `Duplicate rejection reason: ${reason.label}`;
+    }
+    keys.add(reason.key);
+  }
+
+  for (const category of REJECTION_REASON_CATEGORIES) {
+    if (!reasons.some((reason) => reason.category === category)) {
+      return category === "rejected_by_us"
+        ? "Add at least one reason for rejecting a candidate"
+        : "Add at least one reason for a candidate withdrawing";
+    }
+  }
+
+  return null;
+}
+
+export const fetchRejectionReasons = createAsyncThunk(
+  "rejectionReasons/fetchRejectionReasons",
+  async (organizationId: string, { rejectWithValue }) => {
+    try {
+      if (!organizationId) {
+        throw new Error("Organization ID is required");
+      }
+      return await loadRejectionReasons(organizationId);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch rejection reasons"
+      );
+    }
+  },
+  {
+    // Skip the round trip when this organization's catalogue is already loaded
+    condition: (organizationId, { getState }) => {
+      const { rejectionReasons } = getState() as {
+        rejectionReasons: RejectionReasonsState;
+      };
+      return (
+        !rejectionReasons.loading &&
+        rejectionReasons.organizationId !== organizationId
+      );
+    },
+  }
+);
+
+export const saveRejectionReasons = createAsyncThunk(
+  "rejectionReasons/saveRejectionReasons",
+  async (
+    {
+      reasons,
+      userContext,
+    }: { reasons: RejectionReason[]; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { organizationId, roles } = userContext;
+
+      if (!roles.includes("admin")) {
+        throw new Error("Only admins can change the rejection reasons");
+      }
+
+      const orderedReasons = reasons.map((reason, index) => ({
+        ...reason,
+        position: index,
+      }));
+
+      const validationError = validateRejectionReasons(orderedReasons);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      // Applications keep their reason key, so removed reasons are still
+      // reported under their formatted key
+      const { error: deleteError } = await supabase
+        .from("rejection_reasons")
+        .delete()
+        .eq("organization_id", organizationId);
+
+      if (deleteError) {
+        throw new Error(
+          `Failed to replace rejection reasons: ${deleteError.message}`
+        );
+      }
+
+      const { error: insertError } = await supabase
+        .from("rejection_reasons")
+        .insert(
+          orderedReasons.map((reason) => ({
+            organization_id: organizationId,
+            reason_key: reason.key,
+            label: reason.label.trim(),
+            category: reason.category,
+            position: reason.position,
+          }))
+        );
+
+      if (insertError) {
+        throw new Error(
+          `Failed to save rejection reasons: ${insertError.message}`
+        );
+      }
+
+      return await loadRejectionReasons(organizationId);
+    } catch (error) {
+      console.log("saveRejectionReasons error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to save rejection reasons"
+      );
+    }
+  }
+);
+
+const rejectionReasonsSlice = createSlice({
+  name: "rejectionReasons",
+  initialState,
+  reducers: {
+    clearRejectionReasonsError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchRejectionReasons.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchRejectionReasons.fulfilled, (state, action) => {
+        state.loading = false;
+        state.organizationId = action.payload.organizationId;
+        state.reasons = action.payload.reasons;
+        state.customized = action.payload.customized;
+      })
+      .addCase(fetchRejectionReasons.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(saveRejectionReasons.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveRejectionReasons.fulfilled, (state, action) => {
+        state.saving = false;
+        state.organizationId = action.payload.organizationId;
+        state.reasons = action.payload.reasons;
+        state.customized = action.payload.customized;
+      })
+      .addCase(saveRejectionReasons.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearRejectionReasonsError } = rejectionReasonsSlice.actions;
+
+// Selectors
+type RootState = { rejectionReasons: RejectionReasonsState };
+
+export const selectRejectionReasons = (state: RootState) =>
+  state.rejectionReasons.reasons;
+export const selectRejectionReasonsCustomized = (state: RootState) =>
+  state.rejectionReasons.customized;
+export const selectRejectionReasonsLoading = (state: RootState) =>
+  state.rejectionReasons.loading;
+export const selectRejectionReasonsSaving = (state: RootState) =>
+  state.rejectionReasons.saving;
+export const selectRejectionReasonsError = (state: RootState) =>
+  state.rejectionReasons.error;
+
+export default rejectionReasonsSlice.reducer;
@@ -0,0 +1,198 @@
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import {
+  DEFAULT_RETENTION_POLICY,
+  RETENTION_MONTHS_MAX,
+  RETENTION_MONTHS_MIN,
+  RetentionPolicy,
+} from "@/types/custom";
+import type { UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+interface RetentionState {
+  organizationId: string | null;
+  policy: RetentionPolicy;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: RetentionState = {
+  organizationId: null,
+  policy: DEFAULT_RETENTION_POLICY,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Returns an error message for an invalid policy, or null if it is valid
+export function validateRetentionPolicy(policy: RetentionPolicy): string | null {
+  if (
+    !Number.isInteger(policy.retentionMonths) ||
+    policy.retentionMonths < RETENTION_MONTHS_MIN ||
+    policy.retentionMonths > RETENTION_MONTHS_MAX
+  ) {
+    return `Retention must be a whole number of months from ${RETENTION_MONTHS_MIN} to ${RETENTION_MONTHS_MAX}`;
+  }
+
+  return null;
+}
+
+async function loadRetentionPolicy(organizationId: string) {
+  const { data, error } = await supabase
+    .from("data_retention_policies")
+    .select("enabled, retention_months, last_run_at")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch retention policy: ${error.message}`);
+  }
+
+  return {
+    organizationId,
+    policy: data
+      ? {
+          enabled: data.enabled,
+          retentionMonths: data.retention_months,
+          lastRunAt: data.last_run_at,
+        }
+      : DEFAULT_RETENTION_POLICY,
+  };
+}
+
+export const fetchRetentionPolicy = createAsyncThunk(
+  "retention/fetchRetentionPolicy",
+  async (organizationId: string, { rejectWithValue }) => {
+    try {
+      if (!organizationId) {
+        throw new Error("Organization ID is required");
+      }
+      return await loadRetentionPolicy(organizationId);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch retention policy"
+      );
+    }
+  },
+  {
+    // Skip the round trip when this organization's policy is already loaded
+    condition: (organizationId, { getState }) => {
+      const { retention } = getState() as { retention: RetentionState };
+      return !retention.loading && retention.organizationId !== organizationId;
+    },
+  }
+);
+
+export const saveRetentionPolicy = createAsyncThunk(
+  "retention/saveRetentionPolicy",
+  async (
+    {
+      policy,
+      userContext,
+    }: { policy: RetentionPolicy; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { organizationId, roles, userId } = userContext;
+
+      if (!roles.includes("admin")) {
+        throw new Error("Only admins can change the retention policy");
+      }
+
+      const validationError = validateRetentionPolicy(policy);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+
+      const { error } = await supabase.from("data_retention_policies").upsert(
+        {
+          organization_id: organizationId,
+          enabled: policy.enabled,
+          retention_months: policy.retentionMonths,
+          updated_at: new Date().toISOString(),
+          updated_by: userId,
+        },
+        { onConflict: "organization_id" }
+      );
+
+      if (error) {
+        throw new Error(`Failed to save retention policy: ${error.message}`);
+      }
+
+      return await loadRetentionPolicy(organizationId);
+    } catch (error) {
+      console.log("saveRetentionPolicy error:", error);
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to save retention policy"
+      );
+    }
+  }
+);
+
+const retentionSlice = createSlice({
+  name: "retention",
+  initialState,
+  reducers: {
+    // Retention runs are server actions; record when one finished
+    setRetentionLastRun: (state, action: PayloadAction<string | null>) => {
+      state.policy.lastRunAt = action.payload;
+    },
+    clearRetentionError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchRetentionPolicy.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchRetentionPolicy.fulfilled, (state, action) => {
+        state.loading = false;
+        state.organizationId = action.payload.organizationId;
+        state.policy = action.payload.policy;
+      })
+      .addCase(fetchRetentionPolicy.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(saveRetentionPolicy.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveRetentionPolicy.fulfilled, (state, action) => {
+        state.saving = false;
+        state.organizationId = action.payload.organizationId;
+        state.policy = action.payload.policy;
+      })
+      .addCase(saveRetentionPolicy.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { setRetentionLastRun, clearRetentionError } =
+  retentionSlice.actions;
+
+// Selectors
+type RootState = { retention: RetentionState };
+
+export const selectRetentionPolicy = (state: RootState) =>
+  state.retention.policy;
+export const selectRetentionLoading = (state: RootState) =>
+  state.retention.loading;
+export const selectRetentionSaving = (state: RootState) =>
+  state.retention.saving;
+export const selectRetentionError = (state: RootState) =>
+  state.retention.error;
+
+export default retentionSlice.reducer;
@@ -0,0 +1,487 @@
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import { Json } from "@/types/supabase";
+import {
+  SAVED_VIEW_VISIBILITIES,
+  SavedViewColumn,
+  SavedViewVisibility,
+} from "@/types/custom";
+import type { CandidateFilters, UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+export const SAVED_VIEW_NAME_MAX_LENGTH = 60;
+
+const VIEW_SELECT =
+  "id, name, visibility, filters, columns, created_by, updated_at, author:user_profiles!candidate_saved_views_created_by_fkey(full_name)";
+
+export interface CandidateSavedView {
+  id: string;
+  name: string;
+  visibility: SavedViewVisibility;
+  filters: Partial<CandidateFilters>;
+  columns: SavedViewColumn[];
+  createdBy: string;
+  authorName: string | null;
+  updatedAt: string;
+}
+
+interface SavedViewsState {
+  organizationId: string | null;
+  views: CandidateSavedView[];
+  defaultViewId: string | null;
+  activeViewId: string | null;
+  // Set once the default view has had its chance to load, so it only
+  // replaces the filters on the first visit of a session
+  defaultViewApplied: boolean;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: SavedViewsState = {
+  organizationId: null,
+  views: [],
+  defaultViewId: null,
+  activeViewId: null,
+  defaultViewApplied: false,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Filters a view can carry. The search term and job scope belong to the page
+// the list is shown on, so they are never saved.
+const TEXT_FILTERS = ["candidateName", "dateFrom", "dateTo"] as const;
+const LIST_FILTERS = [
+  "status",
+  "companyName",
+  "jobTitle",
+  "tags",
+  "source",
+] as const;
+const NUMBER_FILTERS = ["minExperience", "maxExperience"] as const;
+const VIEW_SORTS: NonNullable<CandidateFilters["sortBy"]>[] = [
+  "name",
+  "application_status",
+  "experience_years",
+  "company_name",
+  "applied_date",
+  "created_at",
+  "updated_at",
+  "current_ctc",
+  "expected_ctc",
+  "fit_score",
+];
+
+// Keeps only the filters a view can carry, in a fixed key order so two
+// cleaned filter sets can be compared as JSON
+export function cleanViewFilters(value: unknown): Partial<CandidateFilters> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const source = value as Record<string, unknown>;
+  const filters: Partial<CandidateFilters> = {};
+
+  TEXT_FILTERS.forEach((key) => {
+    const item = source[key];
+    if (typeof item === "string" && item.trim()) filters[key] = item;
+  });
+  LIST_FILTERS.forEach((key) => {
+    const item = source[key];
+    if (Array.isArray(item)) {
+      const values = item.filter(
+        (entry): entry is string => typeof entry === "string" && !!entry
+      );
+      if (values.length > 0) filters[key] = values;
+    }
+  });
+  NUMBER_FILTERS.forEach((key) => {
+    const item = source[key];
+    if (typeof item === "number" && Number.isFinite(item)) filters[key] = item;
+  });
+
+  const sortBy = VIEW_SORTS.find((sort) => sort === source.sortBy);
+  if (sortBy) {
+    filters.sortBy = sortBy;
+    filters.sortOrder = source.sortOrder === "asc" ? "asc" : "desc";
+  }
+
+  return filters;
+}
+
+// Every filter a view controls, so applying a view also clears the ones it
+// does not set
+export function filtersForView(
+  view: CandidateSavedView | null
+): Partial<CandidateFilters> {
+  const cleared: Partial<CandidateFilters> = {
+    sortBy: "applied_date",
+    sortOrder: "desc",
+  };
+  [...TEXT_FILTERS, ...LIST_FILTERS, ...NUMBER_FILTERS].forEach((key) => {
+    cleared[key] = undefined;
+  });
+  return { ...cleared, ...(view?.filters || {}) };
+}
+
+const parseColumns = (value: Json): SavedViewColumn[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) return [];
+    const { key, visible } = item;
+    return typeof key === "string" && typeof visible === "boolean"
+      ? [{ key, visible }]
+      : [];
+  });
+};
+
+const toSavedView = (row: {
+  id: string;
+  name: string;
+  visibility: string;
+  filters: Json;
+  columns: Json;
+  created_by: string;
+  updated_at: string;
+  author: { full_name: string } | null;
+}): CandidateSavedView => ({
+  id: row.id,
+  name: row.name,
+  visibility: (SAVED_VIEW_VISIBILITIES as readonly string[]).includes(
+    row.visibility
+  )
+    ? (row.visibility as SavedViewVisibility)
+    : "private",
+  filters: cleanViewFilters(row.filters),
+  columns: parseColumns(row.columns),
+  createdBy: row.created_by,
+  authorName: row.author?.full_name ?? null,
+  updatedAt: row.updated_at,
+});
+
+const sortViews = (views: CandidateSavedView[]) =>
+  [...views].sort((a, b) => a.name.localeCompare(b.name));
+
+// Only the author edits a view; admins may also remove shared ones
+export const canEditSavedView = (
+  view: CandidateSavedView,
+  userContext: UserContext
+) => view.createdBy === userContext.userId;
+
+export const canDeleteSavedView = (
+  view: CandidateSavedView,
+  userContext: UserContext
+) =>
+  canEditSavedView(view, userContext) ||
+  (view.visibility === "organization" && userContext.roles.includes("admin"));
+
+// The user's own views plus those shared with the organization
+export const fetchSavedViews = createAsyncThunk(
+  "savedViews/fetchSavedViews",
+  async (userContext: UserContext, { rejectWithValue }) => {
+    try {
+      const { userId, organizationId } = userContext;
+
+      const [viewsResult, defaultResult] = await Promise.all([
+        supabase
+          .from("candidate_saved_views")
+          .select(VIEW_SELECT)
+          .eq("organization_id", organizationId)
+          .or(`created_by.eq.${userId},visibility.eq.organization`),
+        supabase
+          .from("candidate_saved_view_defaults")
+          .select("view_id")
+          .eq("user_id", userId)
+          .eq("organization_id", organizationId)
+          .maybeSingle(),
+      ]);
+
+      if (viewsResult.error) {
+        throw new Error(
+          `Failed to fetch saved views: ${viewsResult.error.message}`
+        );
+      }
+      if (defaultResult.error) {
+        throw new Error(
+          `Failed to fetch default view: ${defaultResult.error.message}`
+        );
+      }
+
+      const views = sortViews((viewsResult.data || []).map(toSavedView));
+      const defaultViewId = defaultResult.data?.view_id ?? null;
+
+      return {
+        organizationId,
+        views,
+        // A shared view that was since made private no longer counts
+        defaultViewId: views.some((view) => view.id === defaultViewId)
+          ? defaultViewId
+          : null,
+      };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch saved views"
+      );
+    }
+  }
+);
+
+export const saveSavedView = createAsyncThunk(
+  "savedViews/saveSavedView",
+  async (
+    {
+      viewId,
+      name,
+      visibility,
+      filters,
+      columns,
+      userContext,
+    }: {
+      viewId?: string;
+      name: string;
+      visibility: SavedViewVisibility;
+      filters: Partial<CandidateFilters>;
+      columns: SavedViewColumn[];
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { userId, organizationId } = userContext;
+      const trimmed = name.trim();
+
+      if (!trimmed) {
+        throw new Error("View name is required");
+      }
+      if (trimmed.length > SAVED_VIEW_NAME_MAX_LENGTH) {
+        throw new Error(
+          `View names are limited to ${SAVED_VIEW_NAME_MAX_LENGTH} characters`
+        );
+      }
+
+      const values = {
+        name: trimmed,
+        visibility,
+        filters: cleanViewFilters(filters) as Json,
+        columns: columns.map((column) => ({
+          key: column.key,
+          visible: column.visible,
+        })),
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data, error } = viewId
+        ? await supabase
+            .from("candidate_saved_views")
+            .update(values)
+            .eq("id", viewId)
+            .eq("created_by", userId)
+            .select(VIEW_SELECT)
+            .maybeSingle()
+        : await supabase
+            .from("candidate_saved_views")
+            .insert({
+              ...values,
+              organization_id: organizationId,
+              created_by: userId,
+            })
+            .select(VIEW_SELECT)
+            .single();
+
+      if (error) {
+        throw new Error(`Failed to save view: ${error.message}`);
+      }
+      if (!data) {
+        throw new Error("Only the author of a view can change it");
+      }
+
+      return toSavedView(data);
+    } catch (error) {
+      console.log("saveSavedView error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to save view"
+      );
+    }
+  }
+);
+
+export const deleteSavedView = createAsyncThunk(
+  "savedViews/deleteSavedView",
+  async (
+    {
+      view,
+      userContext,
+    }: { view: CandidateSavedView; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!canDeleteSavedView(view, userContext)) {
+        throw new Error("You cannot delete this view");
+      }
+
+      const { error } = await supabase
+        .from("candidate_saved_views")
+        .delete()
+        .eq("id", view.id)
+        .eq("organization_id", userContext.organizationId);
+
+      if (error) {
+        throw new Error(`Failed to delete view: ${error.message}`);
+      }
+
+      return view.id;
+    } catch (error) {
+      console.log("deleteSavedView error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to delete view"
+      );
+    }
+  }
+);
+
+// Pass null to go back to opening the list unfiltered
+export const setDefaultSavedView = createAsyncThunk(
+  "savedViews/setDefaultSavedView",
+  async (
+    {
+      viewId,
+      userContext,
+    }: { viewId: string | null; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      const { userId, organizationId } = userContext;
+
+      const { error } = viewId
+        ? await supabase.from("candidate_saved_view_defaults").upsert(
+            {
+              user_id: userId,
+              organization_id: organizationId,
+              view_id: viewId,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "user_id,organization_id" }
+          )
+        : await supabase
+            .from("candidate_saved_view_defaults")
+            .delete()
+            .eq("user_id", userId)
+            .eq("organization_id", organizationId);
+
+      if (error) {
+        throw new Error(`Failed to update default view: ${error.message}`);
+      }
+
+      return viewId;
+    } catch (error) {
+      console.log("setDefaultSavedView error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to update default view"
+      );
+    }
+  }
+);
+
+const savedViewsSlice = createSlice({
+  name: "savedViews",
+  initialState,
+  reducers: {
+    setActiveSavedView: (state, action: PayloadAction<string | null>) => {
+      state.activeViewId = action.payload;
+    },
+    markDefaultViewApplied: (state) => {
+      state.defaultViewApplied = true;
+    },
+    clearSavedViewsError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchSavedViews.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchSavedViews.fulfilled, (state, action) => {
+        state.loading = false;
+        state.organizationId = action.payload.organizationId;
+        state.views = action.payload.views;
+        state.defaultViewId = action.payload.defaultViewId;
+        if (!state.views.some((view) => view.id === state.activeViewId)) {
+          state.activeViewId = null;
+        }
+      })
+      .addCase(fetchSavedViews.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(saveSavedView.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveSavedView.fulfilled, (state, action) => {
+        state.saving = false;
+        state.views = sortViews([
+          ...state.views.filter((view) => view.id !== action.payload.id),
+          action.payload,
+        ]);
+        state.activeViewId = action.payload.id;
+      })
+      .addCase(saveSavedView.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      .addCase(deleteSavedView.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(deleteSavedView.fulfilled, (state, action) => {
+        state.saving = false;
+        state.views = state.views.filter((view) => view.id !== action.payload);
+        if (state.activeViewId === action.payload) state.activeViewId = null;
+        if (state.defaultViewId === action.payload) state.defaultViewId = null;
+      })
+      .addCase(deleteSavedView.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      .addCase(setDefaultSavedView.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(setDefaultSavedView.fulfilled, (state, action) => {
+        state.saving = false;
+        state.defaultViewId = action.payload;
+      })
+      .addCase(setDefaultSavedView.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const {
+  setActiveSavedView,
+  markDefaultViewApplied,
+  clearSavedViewsError,
+} = savedViewsSlice.actions;
+
+// Selectors
+type RootState = { savedViews: SavedViewsState };
+
+export const selectSavedViews = (state: RootState) => state.savedViews.views;
+export const selectSavedViewsOrgId = (state: RootState) =>
+  state.savedViews.organizationId;
+export const selectDefaultSavedViewId = (state: RootState) =>
+  state.savedViews.defaultViewId;
+export const selectActiveSavedViewId = (state: RootState) =>
+  state.savedViews.activeViewId;
+export const selectDefaultViewApplied = (state: RootState) =>
+  state.savedViews.defaultViewApplied;
+export const selectSavedViewsSaving = (state: RootState) =>
+  state.savedViews.saving;
+export const selectSavedViewsError = (state: RootState) =>
+  state.savedViews.error;
+
+export default savedViewsSlice.reducer;
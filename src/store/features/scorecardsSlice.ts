@@ -0,0 +1,460 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import { Json } from "@/types/supabase";
+import {
+  SCORECARD_RATING_MAX,
+  SCORECARD_RATING_MIN,
+  SCORECARD_RECOMMENDATIONS,
+  Scorecard,
+  ScorecardCompetency,
+  ScorecardRating,
+  ScorecardRecommendation,
+  ScorecardSummary,
+} from "@/types/custom";
+import { hasApplicationAccess, UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+// Weight of each recommendation when aggregating scorecards
+const RECOMMENDATION_SCORES: Record<ScorecardRecommendation, number> = {
+  strong_no_hire: -2,
+  no_hire: -1,
+  hire: 1,
+  strong_hire: 2,
+};
+
+export const RECOMMENDATION_LABELS: Record<
+  ScorecardRecommendation | "mixed",
+  string
+> = {
+  strong_no_hire: "Strong No Hire",
+  no_hire: "No Hire",
+  hire: "Hire",
+  strong_hire: "Strong Hire",
+  mixed: "Mixed",
+};
+
+const isRecommendation = (value: string): value is ScorecardRecommendation =>
+  (SCORECARD_RECOMMENDATIONS as readonly string[]).includes(value);
+
+const isValidRating = (rating: number) =>
+  Number.isInteger(rating) &&
+  rating >= SCORECARD_RATING_MIN &&
+  rating <= SCORECARD_RATING_MAX;
+
+// Ratings are stored as JSON; drop anything that does not look like one
+const parseRatings = (value: Json): ScorecardRating[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) return [];
+    const { competencyId, competencyName, rating } = item;
+    return typeof competencyId === "string" &&
+      typeof competencyName === "string" &&
+      typeof rating === "number"
+      ? [{ competencyId, competencyName, rating }]
+      : [];
+  });
+};
+
+// Overall recommendation and per-competency averages of an application
+export function summarizeScorecards(scorecards: Scorecard[]): ScorecardSummary {
+  const recommendationCounts = Object.fromEntries(
+    SCORECARD_RECOMMENDATIONS.map((recommendation) => [recommendation, 0])
+  ) as Record<ScorecardRecommendation, number>;
+  const competencyTotals = new Map<string, { total: number; count: number }>();
+  let ratingTotal = 0;
+  let ratingCount = 0;
+  let score = 0;
+
+  scorecards.forEach((scorecard) => {
+    recommendationCounts[scorecard.recommendation] += 1;
+    score += RECOMMENDATION_SCORES[scorecard.recommendation];
+
+    scorecard.ratings.forEach(({ competencyName, rating }) => {
+      const totals = competencyTotals.get(competencyName) || {
+        total: 0,
+        count: 0,
+      };
+      competencyTotals.set(competencyName, {
+        total: totals.total + rating,
+        count: totals.count + 1,
+      });
+      ratingTotal += rating;
+      ratingCount += 1;
+    });
+  });
+
+  let recommendation: ScorecardSummary["recommendation"] = null;
+  if (scorecards.length > 0) {
+    const average = score / scorecards.length;
+    if (average >= 1.5) recommendation = "strong_hire";
+    else if (average >= 0.5) recommendation = "hire";
+    else if (average <= -1.5) recommendation = "strong_no_hire";
+    else if (average <= -0.5) recommendation = "no_hire";
+    // Interviewers disagree too much to call it either way
+    else recommendation = "mixed";
+  }
+
+  return {
+    count: scorecards.length,
+    recommendation,
+    recommendationCounts,
+    averageRating: ratingCount > 0 ? ratingTotal / ratingCount : null,
+    competencies: Array.from(competencyTotals.entries()).map(
+      ([name, { total, count }]) => ({
+        name,
+        averageRating: total / count,
+        count,
+      })
+    ),
+  };
+}
+
+async function assertScorecardAccess(
+  applicationId: string,
+  userContext: UserContext
+) {
+  if (!(await hasApplicationAccess(applicationId, userContext))) {
+    throw new Error("You do not have access to this job's scorecards");
+  }
+}
+
+interface ScorecardsState {
+  // Rubric competencies by job ID, in display order
+  rubricsByJobId: Record<string, ScorecardCompetency[]>;
+  // Submitted scorecards by application ID
+  byApplicationId: Record<string, Scorecard[]>;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: ScorecardsState = {
+  rubricsByJobId: {},
+  byApplicationId: {},
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+export const fetchJobRubric = createAsyncThunk(
+  "scorecards/fetchJobRubric",
+  async (jobId: string, { rejectWithValue }) => {
+    try {
+      const { data, error } = await supabase
+        .from("job_scorecard_competencies")
+        .select("id, name, description, position")
+        .eq("job_id", jobId)
+        .order("position", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch rubric: ${error.message}`);
+      }
+
+      return { jobId, competencies: (data || []) as ScorecardCompetency[] };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch rubric"
+      );
+    }
+  }
+);
+
+// Replace a job's rubric; admin and HR only
+export const saveJobRubric = createAsyncThunk(
+  "scorecards/saveJobRubric",
+  async (
+    {
+      jobId,
+      competencies,
+      userContext,
+    }: {
+      jobId: string;
+      competencies: { id?: string; name: string; description: string }[];
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (
+        !userContext.roles.includes("admin") &&
+        !userContext.roles.includes("hr")
+      ) {
+        throw new Error("Only admins and HR can edit the interview rubric");
+      }
+
+      const cleaned = competencies
+        .map((competency) => ({
+          ...competency,
+          name: competency.name.trim(),
+          description: competency.description.trim(),
+        }))
+        .filter((competency) => competency.name);
+
+      const names = cleaned.map((competency) => competency.name.toLowerCase());
+      if (new Set(names).size !== names.length) {
+        throw new Error("Competency names must be unique");
+      }
+
+      // Remove competencies that are no longer part of the rubric
+      const keptIds = cleaned
+        .map((competency) => competency.id)
+        .filter((id): id is string => !!id);
+      let deleteQuery = supabase
+        .from("job_scorecard_competencies")
+        .delete()
+        .eq("job_id", jobId);
+      if (keptIds.length > 0) {
+        deleteQuery = deleteQuery.not("id", "in", `(${keptIds.join(",")})`);
+      }
+      const { error: deleteError } = await deleteQuery;
+
+      if (deleteError) {
+        throw new Error(`Failed to save rubric: ${deleteError.message}`);
+      }
+
+      if (cleaned.length > 0) {
+        const { error: upsertError } = await supabase
+          .from("job_scorecard_competencies")
+          .upsert(
+            cleaned.map((competency, index) => ({
+              ...(competency.id ? { id: competency.id } : {}),
+              job_id: jobId,
+              name: competency.name,
+              description: competency.description || null,
+              position: index,
+            }))
+          );
+
+        if (upsertError) {
+          throw new Error(`Failed to save rubric: ${upsertError.message}`);
+        }
+      }
+
+      const { data, error } = await supabase
+        .from("job_scorecard_competencies")
+        .select("id, name, description, position")
+        .eq("job_id", jobId)
+        .order("position", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch rubric: ${error.message}`);
+      }
+
+      return { jobId, competencies: (data || []) as ScorecardCompetency[] };
+    } catch (error) {
+      console.log("saveJobRubric error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to save rubric"
+      );
+    }
+  }
+);
+
+export const fetchApplicationScorecards = createAsyncThunk(
+  "scorecards/fetchApplicationScorecards",
+  async (
+    {
+      applicationId,
+      userContext,
+    }: { applicationId: string; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      await assertScorecardAccess(applicationId, userContext);
+
+      const { data, error } = await supabase
+        .from("interview_scorecards")
+        .select(
+          "id, application_id, interview_id, interviewer_id, ratings, recommendation, notes, submitted_at, updated_at, interviewer:user_profiles!interview_scorecards_interviewer_id_fkey(full_name, email)"
+        )
+        .eq("application_id", applicationId)
+        .order("submitted_at", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch scorecards: ${error.message}`);
+      }
+
+      const scorecards: Scorecard[] = (data || [])
+        .filter((row) => isRecommendation(row.recommendation))
+        .map((row) => ({
+          id: row.id,
+          applicationId: row.application_id,
+          interviewId: row.interview_id,
+          interviewer: {
+            id: row.interviewer_id,
+            name: row.interviewer?.full_name || "Unknown user",
+            email: row.interviewer?.email || null,
+          },
+          ratings: parseRatings(row.ratings),
+          recommendation: row.recommendation as ScorecardRecommendation,
+          notes: row.notes,
+          submittedAt: row.submitted_at,
+          updatedAt: row.updated_at,
+        }));
+
+      return { applicationId, scorecards };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch scorecards"
+      );
+    }
+  }
+);
+
+// Submit the current user's scorecard, or update it when scorecardId is set
+export const submitScorecard = createAsyncThunk(
+  "scorecards/submitScorecard",
+  async (
+    {
+      applicationId,
+      scorecardId,
+      interviewId,
+      ratings,
+      recommendation,
+      notes,
+      userContext,
+    }: {
+      applicationId: string;
+      scorecardId?: string | null;
+      interviewId: string | null;
+      ratings: ScorecardRating[];
+      recommendation: ScorecardRecommendation;
+      notes: string;
+      userContext: UserContext;
+    },
+    { dispatch, rejectWithValue }
+  ) => {
+    try {
+      if (!isRecommendation(recommendation)) {
+        throw new Error("Choose a hire or no-hire recommendation");
+      }
+      const invalid = ratings.find((rating) => !isValidRating(rating.rating));
+      if (invalid) {
+        throw new Error(
+          `Rating for "${invalid.competencyName}" must be between ${SCORECARD_RATING_MIN} and ${SCORECARD_RATING_MAX}`
+        );
+      }
+
+      await assertScorecardAccess(applicationId, userContext);
+
+      const values = {
+        interview_id: interviewId,
+        ratings: ratings.map((rating) => ({ ...rating })),
+        recommendation,
+        notes: notes.trim() || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { error } = scorecardId
+        ? await supabase
+            .from("interview_scorecards")
+            .update(values)
+            .eq("id", scorecardId)
+            // Interviewers can only edit their own scorecard
+            .eq("interviewer_id", userContext.userId)
+        : await supabase.from("interview_scorecards").insert({
+            ...values,
+            application_id: applicationId,
+            interviewer_id: userContext.userId,
+          });
+
+      if (error) {
+        throw new Error(`Failed to submit scorecard: ${error.message}`);
+      }
+
+      await dispatch(
+        fetchApplicationScorecards({ applicationId, userContext })
+      ).unwrap();
+
+      return applicationId;
+    } catch (error) {
+      console.log("submitScorecard error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to submit scorecard"
+      );
+    }
+  }
+);
+
+const scorecardsSlice = createSlice({
+  name: "scorecards",
+  initialState,
+  reducers: {
+    clearScorecardsError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchJobRubric.fulfilled, (state, action) => {
+        state.rubricsByJobId[action.payload.jobId] =
+          action.payload.competencies;
+      })
+      .addCase(fetchJobRubric.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+
+      .addCase(saveJobRubric.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveJobRubric.fulfilled, (state, action) => {
+        state.saving = false;
+        state.rubricsByJobId[action.payload.jobId] =
+          action.payload.competencies;
+      })
+      .addCase(saveJobRubric.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(fetchApplicationScorecards.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchApplicationScorecards.fulfilled, (state, action) => {
+        state.loading = false;
+        state.byApplicationId[action.payload.applicationId] =
+          action.payload.scorecards;
+      })
+      .addCase(fetchApplicationScorecards.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(submitScorecard.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(submitScorecard.fulfilled, (state) => {
+        state.saving = false;
+      })
+      .addCase(submitScorecard.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearScorecardsError } = scorecardsSlice.actions;
+
+// Selectors
+type RootState = { scorecards: ScorecardsState };
+
+export const selectJobRubric = (state: RootState, jobId: string) =>
+  state.scorecards.rubricsByJobId[jobId];
+export const selectApplicationScorecards = (
+  state: RootState,
+  applicationId: string
+) => state.scorecards.byApplicationId[applicationId];
+export const selectScorecardsLoading = (state: RootState) =>
+  state.scorecards.loading;
+export const selectScorecardsSaving = (state: RootState) =>
+  state.scorecards.saving;
+export const selectScorecardsError = (state: RootState) =>
+  state.scorecards.error;
+
+export default scorecardsSlice.reducer;
@@ -0,0 +1,246 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { createClient } from "@/utils/supabase/client";
+import { CandidateTag, PipelineStageColor } from "@/types/custom";
+import { toCandidateTag, UserContext } from "./candidatesSlice";
+
+const supabase = createClient();
+
+export const TAG_NAME_MAX_LENGTH = 40;
+
+const assertCanManageTags = (userContext: UserContext) => {
+  if (
+    !userContext.roles.includes("admin") &&
+    !userContext.roles.includes("hr")
+  ) {
+    throw new Error("Only admins and HR can manage tags");
+  }
+};
+
+const validateTagName = (name: string, others: CandidateTag[]) => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Tag name is required");
+  }
+  if (trimmed.length > TAG_NAME_MAX_LENGTH) {
+    throw new Error(`Tag names are limited to ${TAG_NAME_MAX_LENGTH} characters`);
+  }
+  if (
+    others.some((tag) => tag.name.toLowerCase() === trimmed.toLowerCase())
+  ) {
+    throw new Error(`A tag named "${trimmed}" already exists`);
+  }
+  return trimmed;
+};
+
+async function loadTagCatalogue(organizationId: string) {
+  const { data, error } = await supabase
+    .from("candidate_tags")
+    .select("id, name, color")
+    .eq("organization_id", organizationId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch tags: ${error.message}`);
+  }
+
+  return (data || []).map(toCandidateTag);
+}
+
+interface TagsState {
+  catalogue: CandidateTag[];
+  // Organization the catalogue was loaded for
+  organizationId: string | null;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: TagsState = {
+  catalogue: [],
+  organizationId: null,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+export const fetchTagCatalogue = createAsyncThunk(
+  "tags/fetchTagCatalogue",
+  async (organizationId: string, { rejectWithValue }) => {
+    try {
+      return {
+        organizationId,
+        catalogue: await loadTagCatalogue(organizationId),
+      };
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to fetch tags"
+      );
+    }
+  }
+);
+
+// Create a tag, or rename/recolour it when tagId is set
+export const saveTag = createAsyncThunk(
+  "tags/saveTag",
+  async (
+    {
+      tagId,
+      name,
+      color,
+      userContext,
+    }: {
+      tagId?: string;
+      name: string;
+      color: PipelineStageColor;
+      userContext: UserContext;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      assertCanManageTags(userContext);
+
+      const existing = await loadTagCatalogue(userContext.organizationId);
+      const trimmed = validateTagName(
+        name,
+        existing.filter((tag) => tag.id !== tagId)
+      );
+
+      const { error } = tagId
+        ? await supabase
+            .from("candidate_tags")
+            .update({ name: trimmed, color })
+            .eq("id", tagId)
+            .eq("organization_id", userContext.organizationId)
+        : await supabase.from("candidate_tags").insert({
+            organization_id: userContext.organizationId,
+            name: trimmed,
+            color,
+            created_by: userContext.userId,
+          });
+
+      if (error) {
+        throw new Error(`Failed to save tag: ${error.message}`);
+      }
+
+      return {
+        organizationId: userContext.organizationId,
+        catalogue: await loadTagCatalogue(userContext.organizationId),
+      };
+    } catch (error) {
+      console.log("saveTag error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to save tag"
+      );
+    }
+  }
+);
+
+// Delete a tag and remove it from every candidate
+export const deleteTag = createAsyncThunk(
+  "tags/deleteTag",
+  async (
+    { tagId, userContext }: { tagId: string; userContext: UserContext },
+    { rejectWithValue }
+  ) => {
+    try {
+      assertCanManageTags(userContext);
+
+      const { error: unassignError } = await supabase
+        .from("candidate_tag_assignments")
+        .delete()
+        .eq("tag_id", tagId);
+
+      if (unassignError) {
+        throw new Error(`Failed to delete tag: ${unassignError.message}`);
+      }
+
+      const { error } = await supabase
+        .from("candidate_tags")
+        .delete()
+        .eq("id", tagId)
+        .eq("organization_id", userContext.organizationId);
+
+      if (error) {
+        throw new Error(`Failed to delete tag: ${error.message}`);
+      }
+
+      return tagId;
+    } catch (error) {
+      console.log("deleteTag error:", error);
+      return rejectWithValue(
+        error instanceof Error ? error.message : "Failed to delete tag"
+      );
+    }
+  }
+);
+
+const tagsSlice = createSlice({
+  name: "tags",
+  initialState,
+  reducers: {
+    clearTagsError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchTagCatalogue.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTagCatalogue.fulfilled, (state, action) => {
+        state.loading = false;
+        state.catalogue = action.payload.catalogue;
+        state.organizationId = action.payload.organizationId;
+      })
+      .addCase(fetchTagCatalogue.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(saveTag.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(saveTag.fulfilled, (state, action) => {
+        state.saving = false;
+        state.catalogue = action.payload.catalogue;
+        state.organizationId = action.payload.organizationId;
+      })
+      .addCase(saveTag.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase(deleteTag.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(deleteTag.fulfilled, (state, action) => {
+        state.saving = false;
+        state.catalogue = state.catalogue.filter(
+          (tag) => tag.id !== action.payload
+        );
+      })
+      .addCase(deleteTag.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+
+      .addCase("RESET_STORE", () => initialState);
+  },
+});
+
+export const { clearTagsError } = tagsSlice.actions;
+
+// Selectors
+type RootState = { tags: TagsState };
+
+export const selectTagCatalogue = (state: RootState) => state.tags.catalogue;
+export const selectTagCatalogueOrgId = (state: RootState) =>
+  state.tags.organizationId;
+export const selectTagsLoading = (state: RootState) => state.tags.loading;
+export const selectTagsSaving = (state: RootState) => state.tags.saving;
+export const selectTagsError = (state: RootState) => state.tags.error;
+
+export default tagsSlice.reducer;
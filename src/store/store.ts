@@ -5,6 +5,22 @@ import jobReducer from "./features/jobSlice";
 import candidateReducer from "./features/candidatesSlice";
 import organisationReducer from "./features/organisationSlice";
 import DashboardReducer from "./features/dashboardSlice";
+import pipelineReducer from "./features/pipelineSlice";
+import applicationHistoryReducer from "./features/applicationHistorySlice";
+import interviewsReducer from "./features/interviewsSlice";
+import scorecardsReducer from "./features/scorecardsSlice";
+import notesReducer from "./features/notesSlice";
+import tagsReducer from "./features/tagsSlice";
+import duplicatesReducer from "./features/duplicatesSlice";
+import candidateImportReducer from "./features/candidateImportSlice";
+import comparisonReducer from "./features/comparisonSlice";
+import fitScoreReducer from "./features/fitScoreSlice";
+import savedViewsReducer from "./features/savedViewsSlice";
+import retentionReducer from "./features/retentionSlice";
+import rejectionReasonsReducer from "./features/rejectionReasonsSlice";
+import offersReducer from "./features/offersSlice";
+import emailTemplatesReducer from "./features/emailTemplatesSlice";
+import inboxReducer from "./features/inboxSlice";
 
 const store = configureStore({
   reducer: {
@@ -14,6 +30,22 @@ const store = configureStore({
     candidates: candidateReducer,
     organisation: organisationReducer,
     dashboard: DashboardReducer,
+    pipeline: pipelineReducer,
+    applicationHistory: applicationHistoryReducer,
+    interviews: interviewsReducer,
+    scorecards: scorecardsReducer,
+    notes: notesReducer,
+    tags: tagsReducer,
+    duplicates: duplicatesReducer,
+    candidateImport: candidateImportReducer,
+    comparison: comparisonReducer,
+    fitScore: fitScoreReducer,
+    savedViews: savedViewsReducer,
+    retention: retentionReducer,
+    rejectionReasons: rejectionReasonsReducer,
+    offers: offersReducer,
+    emailTemplates: emailTemplatesReducer,
+    inbox: inboxReducer,
     // Add other reducers here as they are created
   },
   middleware: (getDefaultMiddleware) =>
@@ -130,4 +130,553 @@ export interface FormState {
     success: boolean;
     error?: string;
     message?: string;
-}
\ No newline at end of file
+}
+
+export type PipelineStageCategory = typeof PIPELINE_STAGE_CATEGORIES[number];
+export const PIPELINE_STAGE_CATEGORIES = [
+    "active",
+    "terminal_positive",
+    "terminal_negative",
+] as const;
+
+export type PipelineStageColor = typeof PIPELINE_STAGE_COLORS[number];
+export const PIPELINE_STAGE_COLORS = [
+    "neutral",
+    "yellow",
+    "blue",
+    "purple",
+    "orange",
+    "green",
+    "red",
+] as const;
+
+export interface PipelineStage {
+    key: string; // Stored in job_applications.application_status
+    label: string;
+    position: number;
+    category: PipelineStageCategory;
+    color: PipelineStageColor;
+    allowedTransitions: string[] | null; // null means any stage is reachable
+}
+
+export interface HiringPipeline {
+    id: string | null; // null while the organization uses the built-in default
+    organizationId: string;
+    name: string;
+    stages: PipelineStage[];
+}
+
+// Used until an organization saves its own pipeline. Keeps the legacy
+// pending/accepted/rejected keys so existing applications stay valid.
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+    { key: "pending", label: "Pending", position: 0, category: "active", color: "yellow", allowedTransitions: null },
+    { key: "screening", label: "Screening", position: 1, category: "active", color: "blue", allowedTransitions: null },
+    { key: "phone_screen", label: "Phone Screen", position: 2, category: "active", color: "blue", allowedTransitions: null },
+    { key: "technical", label: "Technical", position: 3, category: "active", color: "purple", allowedTransitions: null },
+    { key: "onsite", label: "Onsite", position: 4, category: "active", color: "purple", allowedTransitions: null },
+    { key: "offer", label: "Offer", position: 5, category: "active", color: "orange", allowedTransitions: null },
+    { key: "accepted", label: "Hired", position: 6, category: "terminal_positive", color: "green", allowedTransitions: null },
+    { key: "rejected", label: "Rejected", position: 7, category: "terminal_negative", color: "red", allowedTransitions: null },
+    { key: "withdrawn", label: "Withdrawn", position: 8, category: "terminal_negative", color: "neutral", allowedTransitions: null },
+];
+
+export type InterviewOutcome = typeof INTERVIEW_OUTCOMES[number];
+export const INTERVIEW_OUTCOMES = [
+    "pending",
+    "passed",
+    "failed",
+    "no_show",
+    "cancelled",
+] as const;
+
+export interface InterviewParticipant {
+    userId: string;
+    name: string;
+    email: string | null;
+}
+
+export interface Interview {
+    id: string;
+    applicationId: string;
+    roundName: string;
+    startTime: string; // UTC ISO timestamp
+    endTime: string; // UTC ISO timestamp
+    timeZone: string; // IANA zone the interview was scheduled in
+    location: string | null;
+    meetingLink: string | null;
+    outcome: InterviewOutcome;
+    notes: string | null;
+    icsSequence: number; // Bumped on every change so calendars replace the invite
+    interviewers: InterviewParticipant[];
+    candidate: {
+        name: string;
+        email: string;
+    };
+    jobTitle: string;
+    companyName: string | null;
+}
+
+export interface InterviewInput {
+    roundName: string;
+    interviewerIds: string[];
+    date: string; // YYYY-MM-DD in timeZone
+    startTime: string; // HH:mm in timeZone
+    endTime: string; // HH:mm in timeZone
+    timeZone: string;
+    location: string;
+    meetingLink: string;
+}
+
+export type ScorecardRecommendation = typeof SCORECARD_RECOMMENDATIONS[number];
+export const SCORECARD_RECOMMENDATIONS = [
+    "strong_no_hire",
+    "no_hire",
+    "hire",
+    "strong_hire",
+] as const;
+
+export const SCORECARD_RATING_MIN = 1;
+export const SCORECARD_RATING_MAX = 5;
+
+export interface ScorecardCompetency {
+    id: string;
+    name: string;
+    description: string | null;
+    position: number;
+}
+
+export interface ScorecardRating {
+    competencyId: string;
+    competencyName: string; // Kept so old scorecards survive rubric edits
+    rating: number;
+}
+
+export interface Scorecard {
+    id: string;
+    applicationId: string;
+    interviewId: string | null;
+    interviewer: {
+        id: string;
+        name: string;
+        email: string | null;
+    };
+    ratings: ScorecardRating[];
+    recommendation: ScorecardRecommendation;
+    notes: string | null;
+    submittedAt: string;
+    updatedAt: string;
+}
+
+export interface ScorecardSummary {
+    count: number;
+    recommendation: ScorecardRecommendation | "mixed" | null;
+    recommendationCounts: Record<ScorecardRecommendation, number>;
+    averageRating: number | null;
+    competencies: { name: string; averageRating: number; count: number }[];
+}
+
+export interface CandidateNote {
+    id: string;
+    candidateId: string;
+    applicationId: string | null; // null for notes on the candidate as a whole
+    parentId: string | null;
+    author: {
+        id: string;
+        name: string;
+    };
+    body: string | null; // Serialized Lexical editor state; null once deleted
+    bodyText: string;
+    createdAt: string;
+    editedAt: string | null;
+    deletedAt: string | null;
+}
+
+export interface NoteThread {
+    note: CandidateNote;
+    replies: CandidateNote[];
+}
+
+export interface MentionNotification {
+    id: string;
+    actorName: string;
+    candidateName: string;
+    jobId: string | null;
+    jobTitle: string | null;
+    noteId: string | null;
+    readAt: string | null;
+    createdAt: string;
+}
+
+export interface CandidateTag {
+    id: string;
+    name: string;
+    color: PipelineStageColor; // Same palette as pipeline stages
+}
+
+export type DuplicateMatchField = "email" | "phone" | "name" | "linkedin";
+
+export interface DuplicateProfile {
+    id: string;
+    name: string;
+    email: string;
+    mobileNumber: string | null;
+    linkedinUrl: string | null;
+    createdAt: string | null;
+    jobTitles: string[]; // Jobs in this organization the profile applied to
+}
+
+export interface DuplicatePair {
+    key: string; // Both profile IDs, sorted
+    profiles: [DuplicateProfile, DuplicateProfile];
+    score: number; // 0-100
+    reasons: DuplicateMatchField[];
+}
+
+// Dates are YYYY-MM-DD, using the first of the month when only month/year is known
+export interface ParsedExperience {
+    companyName: string;
+    jobTitle: string;
+    startDate: string | null;
+    endDate: string | null;
+    currentlyWorking: boolean;
+}
+
+export interface ParsedEducation {
+    institution: string;
+    degree: string | null;
+    fieldOfStudy: string | null;
+    startDate: string | null;
+    endDate: string | null;
+    isCurrent: boolean;
+}
+
+export interface ParsedResume {
+    experience: ParsedExperience[];
+    education: ParsedEducation[];
+}
+
+// A candidate entered by hand or read from an import row
+export interface CandidateDraft {
+    name: string;
+    email: string;
+    mobileNumber: string | null;
+    linkedinUrl: string | null;
+    portfolioUrl: string | null;
+    address: string | null;
+    currentCtc: number | null;
+    expectedCtc: number | null;
+    noticePeriod: string | null;
+    resumeLink: string | null;
+    experience: ParsedExperience[];
+    education: ParsedEducation[];
+}
+
+// What to do when a draft's email already belongs to a profile
+export type DuplicateEmailMode = typeof DUPLICATE_EMAIL_MODES[number];
+export const DUPLICATE_EMAIL_MODES = ["skip", "attach", "update"] as const;
+
+export type CandidateImportOutcome =
+    | "created"
+    | "attached" // Existing profile, new application
+    | "updated" // Existing profile with empty fields filled, new application
+    | "skipped"
+    | "failed";
+
+export interface CandidateImportRow {
+    row: number; // Line in the file, counting the header as line 1
+    draft: CandidateDraft;
+    errors: string[];
+}
+
+export interface CandidateImportResult {
+    row: number;
+    name: string;
+    email: string;
+    outcome: CandidateImportOutcome;
+    message: string | null;
+    candidateId: string | null;
+    applicationId: string | null;
+}
+
+export interface AssignableJob {
+    id: string;
+    title: string;
+    companyName: string | null;
+    status: string | null;
+}
+
+export type FitScoreComponent = typeof FIT_SCORE_COMPONENTS[number];
+export const FIT_SCORE_COMPONENTS = [
+    "experience",
+    "salary",
+    "notice",
+    "location",
+] as const;
+
+// Relative weights; a component weighted 0 is left out of the score
+export type FitScoreWeights = Record<FitScoreComponent, number>;
+export const FIT_SCORE_WEIGHT_MAX = 10;
+export const DEFAULT_FIT_SCORE_WEIGHTS: FitScoreWeights = {
+    experience: 4,
+    salary: 3,
+    notice: 2,
+    location: 1,
+};
+
+export interface FitScoreItem {
+    component: FitScoreComponent;
+    label: string;
+    weight: number;
+    score: number | null; // 0 to 1, null when the signal is missing
+    detail: string;
+}
+
+export interface FitScore {
+    total: number | null; // 0 to 100, null when no signal could be scored
+    items: FitScoreItem[];
+    noticeDays: number | null; // Notice period as read for the score
+}
+
+// Saved candidate views are private to their author or shared with the
+// whole organization
+export type SavedViewVisibility = typeof SAVED_VIEW_VISIBILITIES[number];
+export const SAVED_VIEW_VISIBILITIES = ["private", "organization"] as const;
+
+export interface SavedViewColumn {
+    key: string;
+    visible: boolean;
+}
+
+// Moving keeps the application and changes its job; copying starts a new
+// application for the other job with a fresh status
+export type ApplicationTransferMode = typeof APPLICATION_TRANSFER_MODES[number];
+export const APPLICATION_TRANSFER_MODES = ["move", "copy"] as const;
+
+// How a status history entry relates an application to another job
+export type ApplicationTransferEvent = "moved" | "copied_to" | "copied_from";
+
+// Channel an application came through, for source-of-hire reporting
+export type ApplicationSource = typeof APPLICATION_SOURCES[number];
+export const APPLICATION_SOURCES = [
+    "job_board",
+    "referral",
+    "agency",
+    "sourced",
+    "careers_page",
+    "import",
+] as const;
+
+// Candidate data retention. Profiles with no activity for the policy's
+// number of months are anonymized; their applications stay for reporting.
+export interface RetentionPolicy {
+    enabled: boolean;
+    retentionMonths: number;
+    lastRunAt: string | null;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    enabled: false,
+    retentionMonths: 24,
+    lastRunAt: null,
+};
+
+export const RETENTION_MONTHS_MIN = 1;
+export const RETENTION_MONTHS_MAX = 120;
+
+// Shown in place of the name of an anonymized candidate
+export const ANONYMIZED_CANDIDATE_NAME = "Anonymized candidate";
+
+// Audit trail of data subject requests and retention runs
+export type PrivacyRequestType = typeof PRIVACY_REQUEST_TYPES[number];
+export const PRIVACY_REQUEST_TYPES = ["export", "erasure", "retention"] as const;
+
+// Why an application ended in a rejected (terminal negative) stage, split by
+// whether we turned the candidate down or they pulled out
+export type RejectionReasonCategory = typeof REJECTION_REASON_CATEGORIES[number];
+export const REJECTION_REASON_CATEGORIES = [
+    "rejected_by_us",
+    "candidate_withdrew",
+] as const;
+
+export interface RejectionReason {
+    key: string; // Stored in job_applications.rejection_reason
+    label: string;
+    category: RejectionReasonCategory;
+    position: number;
+}
+
+// Used until an organization saves its own catalogue
+export const DEFAULT_REJECTION_REASONS: RejectionReason[] = [
+    { key: "underqualified", label: "Underqualified", category: "rejected_by_us", position: 0 },
+    { key: "overqualified", label: "Overqualified", category: "rejected_by_us", position: 1 },
+    { key: "salary_mismatch", label: "Salary mismatch", category: "rejected_by_us", position: 2 },
+    { key: "failed_interview", label: "Did not pass interviews", category: "rejected_by_us", position: 3 },
+    { key: "position_filled", label: "Position filled", category: "rejected_by_us", position: 4 },
+    { key: "accepted_other_offer", label: "Accepted another offer", category: "candidate_withdrew", position: 5 },
+    { key: "compensation", label: "Compensation too low", category: "candidate_withdrew", position: 6 },
+    { key: "lost_interest", label: "Lost interest", category: "candidate_withdrew", position: 7 },
+    { key: "unresponsive", label: "Stopped responding", category: "candidate_withdrew", position: 8 },
+];
+
+// Offers made on an application. Offers outside the job's salary band get an
+// extra approval step that only an admin can decide.
+export type OfferStatus = typeof OFFER_STATUSES[number];
+export const OFFER_STATUSES = [
+    "draft",
+    "pending_approval",
+    "sent",
+    "accepted",
+    "declined",
+    "expired",
+] as const;
+
+export type OfferApprovalDecision = typeof OFFER_APPROVAL_DECISIONS[number];
+export const OFFER_APPROVAL_DECISIONS = ["pending", "approved", "rejected"] as const;
+
+export interface OfferApproval {
+    id: string;
+    position: number;
+    // null for the admin step of an out-of-band offer: any admin may decide
+    approver: {
+        id: string;
+        name: string;
+    } | null;
+    adminRequired: boolean;
+    decision: OfferApprovalDecision;
+    comment: string | null;
+    decidedBy: string | null; // Name of whoever decided
+    decidedAt: string | null;
+}
+
+export interface Offer {
+    id: string;
+    applicationId: string;
+    offeredCtc: number;
+    joiningDate: string | null; // YYYY-MM-DD
+    expiresAt: string | null; // YYYY-MM-DD, last day the offer can be accepted
+    status: OfferStatus;
+    outOfBand: boolean;
+    notes: string | null;
+    createdBy: string; // Name of whoever drafted it
+    createdAt: string;
+    updatedAt: string;
+    sentAt: string | null;
+    respondedAt: string | null;
+    approvals: OfferApproval[]; // Current approval round, in order
+}
+
+export interface OfferInput {
+    offeredCtc: number;
+    joiningDate: string;
+    expiresAt: string;
+    notes: string;
+}
+
+// One member of the organization's approval chain
+export interface OfferApprover {
+    userId: string;
+    name: string;
+    position: number;
+}
+
+// Reusable emails. Subject and body reference merge fields as {{field}}, which
+// are filled in from an application when the email is written.
+export type EmailMergeField = typeof EMAIL_MERGE_FIELDS[number];
+export const EMAIL_MERGE_FIELDS = [
+    "candidate_name",
+    "candidate_first_name",
+    "job_title",
+    "company_name",
+    "interview_time",
+    "recruiter_name",
+] as const;
+
+export type EmailMergeValues = Partial<Record<EmailMergeField, string>>;
+
+export interface EmailTemplate {
+    id: string;
+    name: string;
+    subject: string;
+    body: string; // HTML from the rich text editor
+    createdBy: string | null; // User id, null once the author is removed
+    createdByName: string | null;
+    updatedAt: string;
+}
+
+export interface EmailTemplateInput {
+    name: string;
+    subject: string;
+    body: string;
+}
+
+// An application that templates can be previewed against
+export interface EmailPreviewApplication {
+    applicationId: string;
+    candidateName: string;
+    jobTitle: string;
+}
+
+// Email correspondence with candidates, one thread per conversation about an
+// application. Inbound messages stay unread until someone opens the thread.
+export type EmailDirection = typeof EMAIL_DIRECTIONS[number];
+export const EMAIL_DIRECTIONS = ["outbound", "inbound"] as const;
+
+export interface EmailThread {
+    id: string;
+    applicationId: string;
+    subject: string;
+    candidateName: string;
+    candidateEmail: string;
+    jobTitle: string;
+    lastMessageAt: string;
+    messageCount: number;
+    unreadCount: number;
+}
+
+export interface EmailMessage {
+    id: string;
+    threadId: string;
+    direction: EmailDirection;
+    fromName: string | null;
+    fromAddress: string;
+    toAddress: string;
+    subject: string;
+    bodyHtml: string | null;
+    bodyText: string;
+    sentAt: string;
+    sentBy: string | null; // Name of the member who sent it
+    readAt: string | null;
+}
+
+// Outcome of importing .eml files, by upload or from the polled folder
+export interface EmailIngestResult {
+    ingested: number;
+    skipped: {
+        file: string;
+        reason: string;
+    }[];
+}
+
+// A job as shown on an organization's public careers page
+export interface CareersJob {
+    id: string;
+    title: string;
+    companyName: string | null;
+    companyLogoUrl: string | null;
+    location: string | null;
+    jobLocationType: string | null;
+    jobType: string | null;
+    workingType: string | null;
+    salaryMin: number | null;
+    salaryMax: number | null;
+    minExperience: number | null;
+    maxExperience: number | null;
+    applicationDeadline: string | null;
+    createdAt: string | null;
+}
+
+export interface CareersJobFilters {
+    location: string | null;
+    jobType: string | null;
+    workingType: string | null;
+}
@@ -34,328 +34,1562 @@ export type Database = {
   }
   public: {
     Tables: {
+      application_status_history: {
+        Row: {
+          application_id: string
+          changed_at: string
+          changed_by: string | null
+          from_job_id: string | null
+          id: string
+          new_status: string
+          old_status: string | null
+          reason: string | null
+          rejection_reason: string | null
+          related_application_id: string | null
+          to_job_id: string | null
+          transfer_type: string | null
+        }
+        Insert: {
+          application_id: string
+          changed_at?: string
+          changed_by?: string | null
+          from_job_id?: string | null
+          id?: string
+          new_status: string
+          old_status?: string | null
+          reason?: string | null
+          rejection_reason?: string | null
+          related_application_id?: string | null
+          to_job_id?: string | null
+          transfer_type?: string | null
+        }
+        Update: {
+          application_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_job_id?: string | null
+          id?: string
+          new_status?: string
+          old_status?: string | null
+          reason?: string | null
+          rejection_reason?: string | null
+          related_application_id?: string | null
+          to_job_id?: string | null
+          transfer_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_status_history_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_status_history_from_job_id_fkey"
+            columns: ["from_job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_status_history_related_application_id_fkey"
+            columns: ["related_application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_status_history_to_job_id_fkey"
+            columns: ["to_job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_duplicate_dismissals: {
+        Row: {
+          candidate_id: string
+          created_at: string
+          dismissed_by: string | null
+          id: string
+          organization_id: string
+          other_candidate_id: string
+        }
+        Insert: {
+          candidate_id: string
+          created_at?: string
+          dismissed_by?: string | null
+          id?: string
+          organization_id: string
+          other_candidate_id: string
+        }
+        Update: {
+          candidate_id?: string
+          created_at?: string
+          dismissed_by?: string | null
+          id?: string
+          organization_id?: string
+          other_candidate_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_duplicate_dismissals_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_duplicate_dismissals_dismissed_by_fkey"
+            columns: ["dismissed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_duplicate_dismissals_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_duplicate_dismissals_other_candidate_id_fkey"
+            columns: ["other_candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_merges: {
+        Row: {
+          created_at: string
+          id: string
+          match_reasons: string[]
+          merged_by: string
+          merged_candidate_id: string
+          merged_profile: Json
+          moved_application_ids: string[]
+          organization_id: string
+          surviving_candidate_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          match_reasons?: string[]
+          merged_by: string
+          merged_candidate_id: string
+          merged_profile: Json
+          moved_application_ids?: string[]
+          organization_id: string
+          surviving_candidate_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          match_reasons?: string[]
+          merged_by?: string
+          merged_candidate_id?: string
+          merged_profile?: Json
+          moved_application_ids?: string[]
+          organization_id?: string
+          surviving_candidate_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_merges_merged_by_fkey"
+            columns: ["merged_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_merges_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_merges_surviving_candidate_id_fkey"
+            columns: ["surviving_candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_notes: {
+        Row: {
+          application_id: string | null
+          author_id: string
+          body: Json
+          body_text: string
+          candidate_id: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          organization_id: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          application_id?: string | null
+          author_id: string
+          body: Json
+          body_text: string
+          candidate_id: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          organization_id: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          application_id?: string | null
+          author_id?: string
+          body?: Json
+          body_text?: string
+          candidate_id?: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          organization_id?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_notes_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_notes_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_notes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_notes_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_resume_texts: {
+        Row: {
+          candidate_id: string
+          content: string
+          error: string | null
+          indexed_at: string
+          resume_link: string
+          search_vector: unknown | null
+        }
+        Insert: {
+          candidate_id: string
+          content: string
+          error?: string | null
+          indexed_at?: string
+          resume_link: string
+          search_vector?: never
+        }
+        Update: {
+          candidate_id?: string
+          content?: string
+          error?: string | null
+          indexed_at?: string
+          resume_link?: string
+          search_vector?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_resume_texts_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: true
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_saved_view_defaults: {
+        Row: {
+          organization_id: string
+          updated_at: string
+          user_id: string
+          view_id: string
+        }
+        Insert: {
+          organization_id: string
+          updated_at?: string
+          user_id: string
+          view_id: string
+        }
+        Update: {
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+          view_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_saved_view_defaults_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_saved_view_defaults_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_saved_view_defaults_view_id_fkey"
+            columns: ["view_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_saved_views"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_saved_views: {
+        Row: {
+          columns: Json
+          created_at: string
+          created_by: string
+          filters: Json
+          id: string
+          name: string
+          organization_id: string
+          updated_at: string
+          visibility: string
+        }
+        Insert: {
+          columns?: Json
+          created_at?: string
+          created_by: string
+          filters?: Json
+          id?: string
+          name: string
+          organization_id: string
+          updated_at?: string
+          visibility?: string
+        }
+        Update: {
+          columns?: Json
+          created_at?: string
+          created_by?: string
+          filters?: Json
+          id?: string
+          name?: string
+          organization_id?: string
+          updated_at?: string
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_saved_views_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_saved_views_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_tag_assignments: {
+        Row: {
+          assigned_by: string | null
+          candidate_id: string
+          created_at: string
+          tag_id: string
+        }
+        Insert: {
+          assigned_by?: string | null
+          candidate_id: string
+          created_at?: string
+          tag_id: string
+        }
+        Update: {
+          assigned_by?: string | null
+          candidate_id?: string
+          created_at?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_tag_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_tag_assignments_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_tag_assignments_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_tags: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          organization_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_tags_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_tags_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       candidates_profiles: {
         Row: {
-          additional_doc_link: string | null
-          address: string | null
-          auth_id: string | null
-          candidate_email: string
+          additional_doc_link: string | null
+          address: string | null
+          anonymized_at: string | null
+          auth_id: string | null
+          candidate_email: string
+          created_at: string | null
+          current_ctc: number | null
+          disability: boolean | null
+          dob: string | null
+          expected_ctc: number | null
+          gender: string | null
+          id: string
+          linkedin_url: string | null
+          mobile_number: string | null
+          name: string
+          notice_period: string | null
+          portfolio_url: string | null
+          resume_link: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          additional_doc_link?: string | null
+          address?: string | null
+          anonymized_at?: string | null
+          auth_id?: string | null
+          candidate_email: string
+          created_at?: string | null
+          current_ctc?: number | null
+          disability?: boolean | null
+          dob?: string | null
+          expected_ctc?: number | null
+          gender?: string | null
+          id?: string
+          linkedin_url?: string | null
+          mobile_number?: string | null
+          name?: string
+          notice_period?: string | null
+          portfolio_url?: string | null
+          resume_link?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          additional_doc_link?: string | null
+          address?: string | null
+          anonymized_at?: string | null
+          auth_id?: string | null
+          candidate_email?: string
+          created_at?: string | null
+          current_ctc?: number | null
+          disability?: boolean | null
+          dob?: string | null
+          expected_ctc?: number | null
+          gender?: string | null
+          id?: string
+          linkedin_url?: string | null
+          mobile_number?: string | null
+          name?: string
+          notice_period?: string | null
+          portfolio_url?: string | null
+          resume_link?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      data_retention_policies: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          last_run_at: string | null
+          organization_id: string
+          retention_months: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          last_run_at?: string | null
+          organization_id: string
+          retention_months?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          last_run_at?: string | null
+          organization_id?: string
+          retention_months?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_retention_policies_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      education: {
+        Row: {
+          college_university: string
+          degree: string | null
+          end_date: string | null
+          field_of_study: string | null
+          grade_percentage: number | null
+          id: string
+          is_current: boolean | null
+          profile_id: string
+          start_date: string | null
+        }
+        Insert: {
+          college_university: string
+          degree?: string | null
+          end_date?: string | null
+          field_of_study?: string | null
+          grade_percentage?: number | null
+          id?: string
+          is_current?: boolean | null
+          profile_id: string
+          start_date?: string | null
+        }
+        Update: {
+          college_university?: string
+          degree?: string | null
+          end_date?: string | null
+          field_of_study?: string | null
+          grade_percentage?: number | null
+          id?: string
+          is_current?: boolean | null
+          profile_id?: string
+          start_date?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "education_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_messages: {
+        Row: {
+          body_html: string | null
+          body_text: string
+          created_at: string
+          direction: string
+          from_address: string
+          from_name: string | null
+          id: string
+          in_reply_to: string | null
+          message_id: string
+          read_at: string | null
+          sent_at: string
+          sent_by: string | null
+          subject: string
+          thread_id: string
+          to_address: string
+          transport: string | null
+        }
+        Insert: {
+          body_html?: string | null
+          body_text: string
+          created_at?: string
+          direction: string
+          from_address: string
+          from_name?: string | null
+          id?: string
+          in_reply_to?: string | null
+          message_id: string
+          read_at?: string | null
+          sent_at: string
+          sent_by?: string | null
+          subject: string
+          thread_id: string
+          to_address: string
+          transport?: string | null
+        }
+        Update: {
+          body_html?: string | null
+          body_text?: string
+          created_at?: string
+          direction?: string
+          from_address?: string
+          from_name?: string | null
+          id?: string
+          in_reply_to?: string | null
+          message_id?: string
+          read_at?: string | null
+          sent_at?: string
+          sent_by?: string | null
+          subject?: string
+          thread_id?: string
+          to_address?: string
+          transport?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_messages_sent_by_fkey"
+            columns: ["sent_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "email_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          organization_id: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_templates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_threads: {
+        Row: {
+          application_id: string
+          created_at: string
+          id: string
+          last_message_at: string
+          organization_id: string
+          subject: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          organization_id: string
+          subject: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          organization_id?: string
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_threads_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_threads_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      experience: {
+        Row: {
+          company_name: string
+          currently_working: boolean | null
+          end_date: string | null
+          experience_id: string
+          job_title: string
+          job_type: string | null
+          profile_id: string
+          start_date: string
+        }
+        Insert: {
+          company_name: string
+          currently_working?: boolean | null
+          end_date?: string | null
+          experience_id?: string
+          job_title: string
+          job_type?: string | null
+          profile_id: string
+          start_date: string
+        }
+        Update: {
+          company_name?: string
+          currently_working?: boolean | null
+          end_date?: string | null
+          experience_id?: string
+          job_title?: string
+          job_type?: string | null
+          profile_id?: string
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "experience_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fit_score_weights: {
+        Row: {
+          created_at: string
+          experience_weight: number
+          id: string
+          location_weight: number
+          notice_weight: number
+          organization_id: string
+          salary_weight: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          experience_weight?: number
+          id?: string
+          location_weight?: number
+          notice_weight?: number
+          organization_id: string
+          salary_weight?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          experience_weight?: number
+          id?: string
+          location_weight?: number
+          notice_weight?: number
+          organization_id?: string
+          salary_weight?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fit_score_weights_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hiring_pipelines: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hiring_pipelines_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_interviewers: {
+        Row: {
+          created_at: string
+          interview_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          interview_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          interview_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_interviewers_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_interviewers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_scorecards: {
+        Row: {
+          application_id: string
+          id: string
+          interview_id: string | null
+          interviewer_id: string
+          notes: string | null
+          ratings: Json
+          recommendation: string
+          submitted_at: string
+          updated_at: string
+        }
+        Insert: {
+          application_id: string
+          id?: string
+          interview_id?: string | null
+          interviewer_id: string
+          notes?: string | null
+          ratings?: Json
+          recommendation: string
+          submitted_at?: string
+          updated_at?: string
+        }
+        Update: {
+          application_id?: string
+          id?: string
+          interview_id?: string | null
+          interviewer_id?: string
+          notes?: string | null
+          ratings?: Json
+          recommendation?: string
+          submitted_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_scorecards_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_interviewer_id_fkey"
+            columns: ["interviewer_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interviews: {
+        Row: {
+          application_id: string
+          created_at: string
+          created_by: string | null
+          end_time: string
+          ics_sequence: number
+          id: string
+          location: string | null
+          meeting_link: string | null
+          notes: string | null
+          organization_id: string
+          outcome: string
+          round_name: string
+          start_time: string
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          created_by?: string | null
+          end_time: string
+          ics_sequence?: number
+          id?: string
+          location?: string | null
+          meeting_link?: string | null
+          notes?: string | null
+          organization_id: string
+          outcome?: string
+          round_name: string
+          start_time: string
+          time_zone: string
+          updated_at?: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          created_by?: string | null
+          end_time?: string
+          ics_sequence?: number
+          id?: string
+          location?: string | null
+          meeting_link?: string | null
+          notes?: string | null
+          organization_id?: string
+          outcome?: string
+          round_name?: string
+          start_time?: string
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interviews_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_access_control: {
+        Row: {
+          access_type: string | null
           created_at: string | null
-          current_ctc: number | null
-          disability: boolean | null
-          dob: string | null
-          expected_ctc: number | null
-          gender: string | null
+          granted_by: string | null
+          id: string
+          job_id: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          access_type?: string | null
+          created_at?: string | null
+          granted_by?: string | null
+          id?: string
+          job_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          access_type?: string | null
+          created_at?: string | null
+          granted_by?: string | null
+          id?: string
+          job_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_access_control_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_access_control_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_access_control_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_applications: {
+        Row: {
+          application_status: string
+          applied_date: string
+          board_position: number | null
+          candidate_id: string
+          created_at: string
           id: string
-          linkedin_url: string | null
-          mobile_number: string | null
-          name: string
-          notice_period: string | null
-          portfolio_url: string | null
-          resume_link: string | null
-          updated_at: string | null
+          job_id: string
+          rejection_reason: string | null
+          source: string | null
+          source_campaign: string | null
+          source_detail: string | null
+          updated_at: string
         }
         Insert: {
-          additional_doc_link?: string | null
-          address?: string | null
-          auth_id?: string | null
-          candidate_email: string
-          created_at?: string | null
-          current_ctc?: number | null
-          disability?: boolean | null
-          dob?: string | null
-          expected_ctc?: number | null
-          gender?: string | null
+          application_status?: string
+          applied_date?: string
+          board_position?: number | null
+          candidate_id: string
+          created_at?: string
           id?: string
-          linkedin_url?: string | null
-          mobile_number?: string | null
-          name?: string
-          notice_period?: string | null
-          portfolio_url?: string | null
-          resume_link?: string | null
-          updated_at?: string | null
+          job_id: string
+          rejection_reason?: string | null
+          source?: string | null
+          source_campaign?: string | null
+          source_detail?: string | null
+          updated_at?: string
         }
         Update: {
-          additional_doc_link?: string | null
-          address?: string | null
-          auth_id?: string | null
-          candidate_email?: string
-          created_at?: string | null
-          current_ctc?: number | null
-          disability?: boolean | null
-          dob?: string | null
-          expected_ctc?: number | null
-          gender?: string | null
+          application_status?: string
+          applied_date?: string
+          board_position?: number | null
+          candidate_id?: string
+          created_at?: string
           id?: string
-          linkedin_url?: string | null
-          mobile_number?: string | null
-          name?: string
-          notice_period?: string | null
-          portfolio_url?: string | null
-          resume_link?: string | null
-          updated_at?: string | null
+          job_id?: string
+          rejection_reason?: string | null
+          source?: string | null
+          source_campaign?: string | null
+          source_detail?: string | null
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "job_applications_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_applications_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      education: {
+      job_scorecard_competencies: {
         Row: {
-          college_university: string
-          degree: string | null
-          end_date: string | null
-          field_of_study: string | null
-          grade_percentage: number | null
+          created_at: string
+          description: string | null
           id: string
-          is_current: boolean | null
-          profile_id: string
-          start_date: string | null
+          job_id: string
+          name: string
+          position: number
         }
         Insert: {
-          college_university: string
-          degree?: string | null
-          end_date?: string | null
-          field_of_study?: string | null
-          grade_percentage?: number | null
+          created_at?: string
+          description?: string | null
           id?: string
-          is_current?: boolean | null
-          profile_id: string
-          start_date?: string | null
+          job_id: string
+          name: string
+          position: number
         }
         Update: {
-          college_university?: string
-          degree?: string | null
-          end_date?: string | null
-          field_of_study?: string | null
-          grade_percentage?: number | null
+          created_at?: string
+          description?: string | null
           id?: string
-          is_current?: boolean | null
-          profile_id?: string
-          start_date?: string | null
+          job_id?: string
+          name?: string
+          position?: number
         }
         Relationships: [
           {
-            foreignKeyName: "education_profile_id_fkey"
-            columns: ["profile_id"]
+            foreignKeyName: "job_scorecard_competencies_job_id_fkey"
+            columns: ["job_id"]
             isOneToOne: false
-            referencedRelation: "candidates_profiles"
+            referencedRelation: "jobs"
             referencedColumns: ["id"]
           },
         ]
       }
-      experience: {
+      jobs: {
         Row: {
-          company_name: string
-          currently_working: boolean | null
-          end_date: string | null
-          experience_id: string
-          job_title: string
+          application_deadline: string | null
+          company_logo_url: string | null
+          company_name: string | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          job_location_type: string | null
           job_type: string | null
-          profile_id: string
-          start_date: string
+          location: string | null
+          max_experience_needed: number | null
+          min_experience_needed: number | null
+          organization_id: string | null
+          salary_max: number | null
+          salary_min: number | null
+          status: string | null
+          title: string
+          updated_at: string | null
+          working_type: string | null
         }
         Insert: {
-          company_name: string
-          currently_working?: boolean | null
-          end_date?: string | null
-          experience_id?: string
-          job_title: string
+          application_deadline?: string | null
+          company_logo_url?: string | null
+          company_name?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          job_location_type?: string | null
           job_type?: string | null
-          profile_id: string
-          start_date: string
+          location?: string | null
+          max_experience_needed?: number | null
+          min_experience_needed?: number | null
+          organization_id?: string | null
+          salary_max?: number | null
+          salary_min?: number | null
+          status?: string | null
+          title: string
+          updated_at?: string | null
+          working_type?: string | null
         }
         Update: {
-          company_name?: string
-          currently_working?: boolean | null
-          end_date?: string | null
-          experience_id?: string
-          job_title?: string
+          application_deadline?: string | null
+          company_logo_url?: string | null
+          company_name?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          job_location_type?: string | null
           job_type?: string | null
-          profile_id?: string
-          start_date?: string
+          location?: string | null
+          max_experience_needed?: number | null
+          min_experience_needed?: number | null
+          organization_id?: string | null
+          salary_max?: number | null
+          salary_min?: number | null
+          status?: string | null
+          title?: string
+          updated_at?: string | null
+          working_type?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "experience_profile_id_fkey"
-            columns: ["profile_id"]
+            foreignKeyName: "jobs_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          application_id: string | null
+          candidate_id: string | null
+          created_at: string
+          id: string
+          note_id: string | null
+          organization_id: string
+          read_at: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          application_id?: string | null
+          candidate_id?: string | null
+          created_at?: string
+          id?: string
+          note_id?: string | null
+          organization_id: string
+          read_at?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          application_id?: string | null
+          candidate_id?: string | null
+          created_at?: string
+          id?: string
+          note_id?: string | null
+          organization_id?: string
+          read_at?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "candidates_profiles"
+            referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      job_access_control: {
+      offer_approvals: {
         Row: {
-          access_type: string | null
-          created_at: string | null
-          granted_by: string | null
+          admin_required: boolean
+          approver_id: string | null
+          comment: string | null
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision: string
           id: string
-          job_id: string | null
-          updated_at: string | null
-          user_id: string | null
+          offer_id: string
+          position: number
         }
         Insert: {
-          access_type?: string | null
-          created_at?: string | null
-          granted_by?: string | null
+          admin_required?: boolean
+          approver_id?: string | null
+          comment?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
           id?: string
-          job_id?: string | null
-          updated_at?: string | null
-          user_id?: string | null
+          offer_id: string
+          position: number
         }
         Update: {
-          access_type?: string | null
-          created_at?: string | null
-          granted_by?: string | null
+          admin_required?: boolean
+          approver_id?: string | null
+          comment?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
           id?: string
-          job_id?: string | null
-          updated_at?: string | null
-          user_id?: string | null
+          offer_id?: string
+          position?: number
         }
         Relationships: [
           {
-            foreignKeyName: "job_access_control_granted_by_fkey"
-            columns: ["granted_by"]
+            foreignKeyName: "offer_approvals_approver_id_fkey"
+            columns: ["approver_id"]
             isOneToOne: false
             referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "job_access_control_job_id_fkey"
-            columns: ["job_id"]
+            foreignKeyName: "offer_approvals_decided_by_fkey"
+            columns: ["decided_by"]
             isOneToOne: false
-            referencedRelation: "jobs"
+            referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "job_access_control_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "offer_approvals_offer_id_fkey"
+            columns: ["offer_id"]
             isOneToOne: false
-            referencedRelation: "user_profiles"
+            referencedRelation: "offers"
             referencedColumns: ["id"]
           },
         ]
       }
-      job_applications: {
+      offer_approvers: {
         Row: {
-          application_status: string
-          applied_date: string
-          candidate_id: string
           created_at: string
           id: string
-          job_id: string
-          updated_at: string
+          organization_id: string
+          position: number
+          user_id: string
         }
         Insert: {
-          application_status?: string
-          applied_date?: string
-          candidate_id: string
           created_at?: string
           id?: string
-          job_id: string
-          updated_at?: string
+          organization_id: string
+          position?: number
+          user_id: string
         }
         Update: {
-          application_status?: string
-          applied_date?: string
-          candidate_id?: string
           created_at?: string
           id?: string
-          job_id?: string
-          updated_at?: string
+          organization_id?: string
+          position?: number
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "job_applications_candidate_id_fkey"
-            columns: ["candidate_id"]
+            foreignKeyName: "offer_approvers_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
-            referencedRelation: "candidates_profiles"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "job_applications_job_id_fkey"
-            columns: ["job_id"]
+            foreignKeyName: "offer_approvers_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "jobs"
+            referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      jobs: {
+      offers: {
         Row: {
-          application_deadline: string | null
-          company_logo_url: string | null
-          company_name: string | null
-          created_at: string | null
+          application_id: string
+          created_at: string
           created_by: string | null
-          description: string | null
+          expires_at: string | null
           id: string
-          job_location_type: string | null
-          job_type: string | null
-          location: string | null
-          max_experience_needed: number | null
-          min_experience_needed: number | null
-          organization_id: string | null
-          salary_max: number | null
-          salary_min: number | null
-          status: string | null
-          title: string
-          updated_at: string | null
-          working_type: string | null
+          joining_date: string | null
+          notes: string | null
+          offered_ctc: number
+          out_of_band: boolean
+          responded_at: string | null
+          sent_at: string | null
+          status: string
+          updated_at: string
         }
         Insert: {
-          application_deadline?: string | null
-          company_logo_url?: string | null
-          company_name?: string | null
-          created_at?: string | null
+          application_id: string
+          created_at?: string
           created_by?: string | null
-          description?: string | null
+          expires_at?: string | null
           id?: string
-          job_location_type?: string | null
-          job_type?: string | null
-          location?: string | null
-          max_experience_needed?: number | null
-          min_experience_needed?: number | null
-          organization_id?: string | null
-          salary_max?: number | null
-          salary_min?: number | null
-          status?: string | null
-          title: string
-          updated_at?: string | null
-          working_type?: string | null
+          joining_date?: string | null
+          notes?: string | null
+          offered_ctc: number
+          out_of_band?: boolean
+          responded_at?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
         }
         Update: {
-          application_deadline?: string | null
-          company_logo_url?: string | null
-          company_name?: string | null
-          created_at?: string | null
+          application_id?: string
+          created_at?: string
           created_by?: string | null
-          description?: string | null
+          expires_at?: string | null
           id?: string
-          job_location_type?: string | null
-          job_type?: string | null
-          location?: string | null
-          max_experience_needed?: number | null
-          min_experience_needed?: number | null
-          organization_id?: string | null
-          salary_max?: number | null
-          salary_min?: number | null
-          status?: string | null
-          title?: string
-          updated_at?: string | null
-          working_type?: string | null
+          joining_date?: string | null
+          notes?: string | null
+          offered_ctc?: number
+          out_of_band?: boolean
+          responded_at?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "jobs_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "offers_application_id_fkey"
+            columns: ["application_id"]
             isOneToOne: false
-            referencedRelation: "user_profiles"
+            referencedRelation: "job_applications"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "jobs_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "offers_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "organizations"
+            referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -384,6 +1618,140 @@ export type Database = {
         }
         Relationships: []
       }
+      pipeline_stages: {
+        Row: {
+          allowed_transitions: string[] | null
+          category: string
+          color: string | null
+          created_at: string
+          id: string
+          label: string
+          pipeline_id: string
+          position: number
+          stage_key: string
+        }
+        Insert: {
+          allowed_transitions?: string[] | null
+          category?: string
+          color?: string | null
+          created_at?: string
+          id?: string
+          label: string
+          pipeline_id: string
+          position: number
+          stage_key: string
+        }
+        Update: {
+          allowed_transitions?: string[] | null
+          category?: string
+          color?: string | null
+          created_at?: string
+          id?: string
+          label?: string
+          pipeline_id?: string
+          position?: number
+          stage_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stages_pipeline_id_fkey"
+            columns: ["pipeline_id"]
+            isOneToOne: false
+            referencedRelation: "hiring_pipelines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      privacy_requests: {
+        Row: {
+          candidate_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          organization_id: string
+          performed_by: string | null
+          request_type: string
+        }
+        Insert: {
+          candidate_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          organization_id: string
+          performed_by?: string | null
+          request_type: string
+        }
+        Update: {
+          candidate_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          organization_id?: string
+          performed_by?: string | null
+          request_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "privacy_requests_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "privacy_requests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "privacy_requests_performed_by_fkey"
+            columns: ["performed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rejection_reasons: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          label: string
+          organization_id: string
+          position: number
+          reason_key: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id?: string
+          label: string
+          organization_id: string
+          position?: number
+          reason_key: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          label?: string
+          organization_id?: string
+          position?: number
+          reason_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rejection_reasons_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       roles: {
         Row: {
           created_at: string | null
@@ -519,6 +1887,19 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      application_fit_score: {
+        Args: {
+          p_application_id: string
+        }
+        Returns: Json
+      }
+      anonymize_candidate: {
+        Args: {
+          p_organization_id: string
+          p_candidate_id: string
+        }
+        Returns: Json
+      }
       assign_user_role: {
         Args: {
           target_email_id: string
@@ -528,6 +1909,24 @@ export type Database = {
         }
         Returns: boolean
       }
+      change_application_status: {
+        Args: {
+          p_application_id: string
+          p_expected_status: string
+          p_status: string
+          p_rejection_reason?: string
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      decide_offer_approval: {
+        Args: {
+          p_offer_id: string
+          p_decision: string
+          p_comment?: string
+        }
+        Returns: Json
+      }
       fetch_candidates_with_access: {
         Args: {
           p_user_id: string
@@ -547,6 +1946,8 @@ export type Database = {
           p_date_to?: string
           p_job_id?: string
           p_search_term?: string
+          p_tag_filter?: string[]
+          p_source_filter?: string[]
         }
         Returns: Json
       }
@@ -591,6 +1992,10 @@ export type Database = {
           job_access: Json
         }[]
       }
+      get_application_sources: {
+        Args: { user_uuid: string; org_uuid: string }
+        Returns: Json
+      }
       get_applications_over_time: {
         Args: {
           user_uuid: string
@@ -613,6 +2018,10 @@ export type Database = {
         Args: { user_uuid: string; org_uuid: string }
         Returns: Json
       }
+      get_rejection_breakdown: {
+        Args: { user_uuid: string; org_uuid: string }
+        Returns: Json
+      }
       get_top_performers: {
         Args: {
           user_uuid: string
@@ -638,6 +2047,74 @@ export type Database = {
         }
         Returns: boolean
       }
+      inactive_candidates: {
+        Args: {
+          p_organization_id: string
+          p_cutoff: string
+          p_after?: string
+          p_limit?: number
+        }
+        Returns: Json
+      }
+      merge_candidate_profiles: {
+        Args: {
+          p_organization_id: string
+          p_surviving_id: string
+          p_merged_id: string
+          p_match_reasons: string[]
+        }
+        Returns: Json
+      }
+      pending_resume_index: {
+        Args: {
+          p_organization_id: string
+          p_limit?: number
+        }
+        Returns: Json
+      }
+      save_candidate_draft: {
+        Args: {
+          p_job_id: string
+          p_status: string
+          p_source: string
+          p_reason: string
+          p_duplicate_mode: string
+          p_profile: Json
+          p_experience?: Json
+          p_education?: Json
+        }
+        Returns: Json
+      }
+      save_hiring_pipeline: {
+        Args: {
+          p_organization_id: string
+          p_name: string
+          p_stages: Json
+        }
+        Returns: string
+      }
+      send_offer: {
+        Args: {
+          p_offer_id: string
+        }
+        Returns: Json
+      }
+      submit_offer_for_approval: {
+        Args: {
+          p_offer_id: string
+        }
+        Returns: Json
+      }
+      transfer_application: {
+        Args: {
+          p_application_id: string
+          p_target_job_id: string
+          p_mode: string
+          p_status?: string
+          p_reason?: string
+        }
+        Returns: Json
+      }
       update_user_role: {
         Args: {
           target_email_id: string
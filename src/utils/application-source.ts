@@ -0,0 +1,71 @@
+import {
+  APPLICATION_SOURCES,
+  ApplicationSource,
+  PipelineStage,
+} from "@/types/custom";
+import { findStage } from "@/store/features/pipelineSlice";
+import type { ApplicationSourceCount } from "@/store/features/dashboardSlice";
+
+export const APPLICATION_SOURCE_LABELS: Record<ApplicationSource, string> = {
+  job_board: "Job board",
+  referral: "Referral",
+  agency: "Agency",
+  sourced: "Sourced",
+  careers_page: "Careers page",
+  import: "Import",
+};
+
+export const isApplicationSource = (
+  value: string | null | undefined
+): value is ApplicationSource =>
+  APPLICATION_SOURCES.includes(value as ApplicationSource);
+
+// Label for a stored source; applications from before sources were tracked
+// have none
+export const formatApplicationSource = (source: string | null | undefined) =>
+  isApplicationSource(source)
+    ? APPLICATION_SOURCE_LABELS[source]
+    : source || "Unknown";
+
+export interface SourceSummary {
+  source: string | null;
+  label: string;
+  applications: number;
+  accepted: number;
+  conversionRate: number; // Percentage of applications accepted
+}
+
+// Roll per-status counts up to one row per source. Applications count as
+// accepted once they reach a terminal positive stage of the pipeline.
+export function summarizeApplicationSources(
+  rows: ApplicationSourceCount[],
+  stages: PipelineStage[]
+): SourceSummary[] {
+  const bySource = new Map<string, SourceSummary>();
+  rows.forEach((row) => {
+    const key = row.source || "";
+    const summary = bySource.get(key) || {
+      source: row.source,
+      label: formatApplicationSource(row.source),
+      applications: 0,
+      accepted: 0,
+      conversionRate: 0,
+    };
+    summary.applications += row.applications;
+    const stage = findStage(stages, row.application_status);
+    if (stage?.category === "terminal_positive") {
+      summary.accepted += row.applications;
+    }
+    bySource.set(key, summary);
+  });
+
+  return Array.from(bySource.values())
+    .map((summary) => ({
+      ...summary,
+      conversionRate:
+        summary.applications > 0
+          ? Math.round((summary.accepted / summary.applications) * 1000) / 10
+          : 0,
+    }))
+    .sort((a, b) => b.applications - a.applications);
+}
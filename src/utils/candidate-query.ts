@@ -0,0 +1,79 @@
+import { Database } from "@/types/supabase";
+import type { CandidateFilters } from "@/store/features/candidatesSlice";
+
+// Shared by the candidates list and the server-side export so both apply
+// the same filters and role scoping to fetch_candidates_with_access
+
+type CandidateQueryParams =
+  Database["public"]["Functions"]["fetch_candidates_with_access"]["Args"];
+
+// Role passed to the database function, or null when the user has none
+export const candidateQueryRole = (roles: string) => {
+  if (roles.includes("admin")) return "admin";
+  if (roles.includes("hr")) return "hr";
+  if (roles.includes("ta")) return "ta";
+  return null;
+};
+
+// Helper function to handle multi-value filters
+const prepareArrayFilter = (
+  filter: string | string[] | undefined
+): string[] | undefined => {
+  if (!filter) return undefined;
+  if (Array.isArray(filter)) {
+    // Filter out empty strings and 'All' values
+    const cleanedArray = filter.filter(
+      (item) => item && item.trim() !== "" && item !== "All"
+    );
+    return cleanedArray.length > 0 ? cleanedArray : undefined;
+  }
+  // Single value - convert to array if not 'All' or empty
+  if (filter !== "All" && filter.trim() !== "") {
+    return [filter];
+  }
+  return undefined;
+};
+
+export function buildCandidateQueryParams({
+  filters,
+  userId,
+  userRole,
+  organizationId,
+  page,
+  limit,
+}: {
+  filters: Partial<CandidateFilters>;
+  userId: string;
+  userRole: string;
+  organizationId: string;
+  page: number;
+  limit: number;
+}): CandidateQueryParams {
+  return {
+    p_user_id: userId,
+    p_user_role: userRole,
+    p_organization_id: organizationId,
+    p_page: page,
+    p_limit: limit,
+    // Multi-value array parameters
+    p_application_status: prepareArrayFilter(filters.status),
+    p_company_filter: prepareArrayFilter(filters.companyName),
+    p_job_title_filter: prepareArrayFilter(filters.jobTitle),
+    // Other parameters remain the same
+    p_sort_by:
+      filters.sortBy === "relevance" && !filters.searchTerm
+        ? "applied_date"
+        : filters.sortBy || "applied_date",
+    p_sort_order: filters.sortOrder || "desc",
+    p_name_filter: filters.candidateName || undefined,
+    p_min_experience: filters.minExperience || undefined,
+    p_max_experience: filters.maxExperience || undefined,
+    p_date_from: filters.dateFrom || undefined,
+    p_date_to: filters.dateTo || undefined,
+    p_job_id: filters.jobId || undefined,
+    // Add search term parameter
+    p_search_term: filters.searchTerm || undefined,
+    p_tag_filter: prepareArrayFilter(filters.tags),
+    p_source_filter: prepareArrayFilter(filters.source),
+  };
+}
@@ -0,0 +1,16 @@
+import crypto from "crypto";
+
+// Scheduled jobs under /cron authenticate with
+// "Authorization: Bearer $CRON_SECRET". Compared in constant time so the
+// secret cannot be guessed from response times.
+export function isCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get("authorization") || "");
+  return (
+    received.length === expected.length &&
+    crypto.timingSafeEqual(received, expected)
+  );
+}
@@ -0,0 +1,80 @@
+// CSV (RFC 4180) reading and writing for imports and error reports
+
+// Parses CSV text into rows of cells. Quoted cells may contain commas,
+// doubled quotes and line breaks. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  // Excel writes a byte order mark at the start of UTF-8 files
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// Spreadsheets run cells starting with these as formulas, so candidate
+// supplied text is prefixed with ' to keep it plain. Numbers stay numbers.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+export const escapeCsvValue = (value: string) => {
+  const safe =
+    FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value)
+      ? `'${value}`
+      : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (rows: string[][]) =>
+  rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+
+// Saves CSV text as a file through a temporary link
+export function downloadCsv(csv: string, fileName: string) {
+  const url = URL.createObjectURL(
+    new Blob([csv], { type: "text/csv;charset=utf-8" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
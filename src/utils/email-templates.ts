@@ -0,0 +1,116 @@
+import {
+  EMAIL_MERGE_FIELDS,
+  EmailMergeField,
+  EmailMergeValues,
+} from "@/types/custom";
+
+export const EMAIL_MERGE_FIELD_LABELS: Record<EmailMergeField, string> = {
+  candidate_name: "Candidate name",
+  candidate_first_name: "Candidate first name",
+  job_title: "Job title",
+  company_name: "Company name",
+  interview_time: "Next interview time",
+  recruiter_name: "Recruiter name",
+};
+
+// {{field}}, tolerating spaces inside the braces
+const MERGE_FIELD_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+export const formatMergeField = (field: EmailMergeField) => `{{${field}}}`;
+
+const isMergeField = (value: string): value is EmailMergeField =>
+  (EMAIL_MERGE_FIELDS as readonly string[]).includes(value);
+
+// Field names referenced in the text, in order of first use
+export function extractMergeFields(text: string): string[] {
+  const fields = new Set<string>();
+  for (const match of text.matchAll(MERGE_FIELD_PATTERN)) {
+    fields.add(match[1]);
+  }
+  return Array.from(fields);
+}
+
+// Fields referenced by a subject or body that no template can fill
+export function findUnknownMergeFields(...texts: string[]): string[] {
+  return Array.from(
+    new Set(texts.flatMap(extractMergeFields).filter((f) => !isMergeField(f)))
+  );
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export interface RenderedEmail {
+  subject: string;
+  body: string; // HTML
+  unknownFields: string[];
+  // Known fields with no value for this application, e.g. no interview yet
+  missingFields: EmailMergeField[];
+}
+
+// Fill in a template for one application. Fields that cannot be filled are
+// left as written so the preview shows where they are.
+export function renderEmailTemplate(
+  template: { subject: string; body: string },
+  values: EmailMergeValues
+): RenderedEmail {
+  const unknownFields = new Set<string>();
+  const missingFields = new Set<EmailMergeField>();
+
+  const fill = (text: string, escape: boolean) =>
+    text.replace(MERGE_FIELD_PATTERN, (token, field: string) => {
+      if (!isMergeField(field)) {
+        unknownFields.add(field);
+        return token;
+      }
+      const value = values[field]?.trim();
+      if (!value) {
+        missingFields.add(field);
+        return token;
+      }
+      return escape ? escapeHtml(value) : value;
+    });
+
+  return {
+    subject: fill(template.subject, false),
+    body: fill(template.body, true),
+    unknownFields: Array.from(unknownFields),
+    missingFields: Array.from(missingFields),
+  };
+}
+
+// Returns an error message when the email cannot be sent, or null
+export function validateRenderedEmail(email: RenderedEmail): string | null {
+  if (email.unknownFields.length > 0) {
+    return `Unknown merge fields: ${email.unknownFields
+      .map((field) => `{{${field}}}`)
+      .join(", ")}`;
+  }
+  if (email.missingFields.length > 0) {
+    return `No value for ${email.missingFields
+      .map((field) => EMAIL_MERGE_FIELD_LABELS[field].toLowerCase())
+      .join(", ")} on this application`;
+  }
+  return null;
+}
+
+// Plain text version of the editor's HTML, for mail clients
+export function emailHtmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|h[1-6]|li|blockquote)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
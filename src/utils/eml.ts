@@ -0,0 +1,311 @@
+import crypto from "crypto";
+
+// RFC 5322 / MIME messages: building outgoing mail and reading .eml files of
+// replies. Only what candidate correspondence needs: text and HTML bodies,
+// threading headers and encoded header words. Attachments are skipped.
+
+const LINE_LENGTH = 76;
+const MESSAGE_ID_DOMAIN = "recrivio.app";
+
+export interface EmailAddress {
+  name: string | null;
+  address: string;
+}
+
+export interface OutgoingEmail {
+  from: EmailAddress;
+  to: EmailAddress;
+  replyTo?: EmailAddress;
+  subject: string;
+  html: string;
+  text: string;
+  messageId: string; // Without angle brackets
+  inReplyTo?: string | null;
+  references?: string[];
+  date?: Date;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  subject: string;
+  date: string; // ISO timestamp
+  text: string;
+  html: string | null;
+}
+
+export const createMessageId = () =>
+  `${crypto.randomUUID()}@${MESSAGE_ID_DOMAIN}`;
+
+// Header values never carry line breaks of their own
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, " ").trim();
+
+const isAscii = (value: string) => /^[\x20-\x7e]*$/.test(value);
+
+// RFC 2047 encoded word for values outside printable ASCII
+const encodeHeaderValue = (value: string) =>
+  isAscii(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const formatAddress = ({ name, address }: EmailAddress) => {
+  const cleanAddress = singleLine(address).replace(/[<>]/g, "");
+  if (!name) return `<${cleanAddress}>`;
+  const cleanName = singleLine(name);
+  const displayName = isAscii(cleanName)
+    ? `"${cleanName.replace(/(["\\])/g, "\\$1")}"`
+    : encodeHeaderValue(cleanName);
+  return `${displayName} <${cleanAddress}>`;
+};
+
+const wrapBase64 = (value: string) =>
+  Buffer.from(value, "utf8")
+    .toString("base64")
+    .replace(new RegExp(`(.{${LINE_LENGTH}})`, "g"), "$1\r\n")
+    .replace(/\r\n$/, "");
+
+export function buildEmailMessage(email: OutgoingEmail): string {
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString("hex")}`;
+  const headers = [
+    `From: ${formatAddress(email.from)}`,
+    `To: ${formatAddress(email.to)}`,
+    ...(email.replyTo ? [`Reply-To: ${formatAddress(email.replyTo)}`] : []),
+    `Subject: ${encodeHeaderValue(singleLine(email.subject))}`,
+    `Date: ${(email.date || new Date()).toUTCString()}`,
+    `Message-ID: <${singleLine(email.messageId)}>`,
+    ...(email.inReplyTo
+      ? [`In-Reply-To: <${singleLine(email.inReplyTo)}>`]
+      : []),
+    ...(email.references && email.references.length > 0
+      ? [
+          `References: ${email.references
+            .map((id) => `<${singleLine(id)}>`)
+            .join(" ")}`,
+        ]
+      : []),
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const part = (type: string, content: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=UTF-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      wrapBase64(content),
+    ].join("\r\n");
+
+  return [
+    ...headers,
+    "",
+    part("text/plain", email.text),
+    part("text/html", email.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+// Parsing works on "binary" strings (one char per byte) so bodies can be
+// decoded with their own charset once the transfer encoding is undone
+
+type Headers = Map<string, string[]>;
+
+const splitHeaderAndBody = (raw: string) => {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { head: raw, body: "" };
+  return {
+    head: raw.slice(0, match.index),
+    body: raw.slice(match.index + match[0].length),
+  };
+};
+
+const parseHeaders = (head: string): Headers => {
+  const headers: Headers = new Map();
+  // Continuation lines start with whitespace
+  head
+    .replace(/\r?\n[ \t]+/g, " ")
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const colon = line.indexOf(":");
+      if (colon <= 0) return;
+      const name = line.slice(0, colon).trim().toLowerCase();
+      const value = line.slice(colon + 1).trim();
+      headers.set(name, [...(headers.get(name) || []), value]);
+    });
+  return headers;
+};
+
+const firstHeader = (headers: Headers, name: string) =>
+  headers.get(name)?.[0] ?? null;
+
+const decodeBytes = (bytes: Buffer, charset: string | undefined) => {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+};
+
+const decodeQuotedPrintable = (value: string, inHeader = false) => {
+  const text = (inHeader ? value.replace(/_/g, " ") : value).replace(
+    /=\r?\n/g,
+    ""
+  );
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// RFC 2047 encoded words; whitespace between adjacent words is dropped
+const decodeHeaderValue = (value: string) =>
+  value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(
+      /=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g,
+      (_, charset: string, encoding: string, text: string) =>
+        decodeBytes(
+          encoding.toUpperCase() === "B"
+            ? Buffer.from(text, "base64")
+            : decodeQuotedPrintable(text, true),
+          charset.split("*")[0]
+        )
+    );
+
+// Main value and parameters of headers such as Content-Type
+const parseHeaderParams = (value: string | null) => {
+  const [main, ...rest] = (value || "").split(";");
+  const params: Record<string, string> = {};
+  rest.forEach((param) => {
+    const equals = param.indexOf("=");
+    if (equals <= 0) return;
+    const key = param.slice(0, equals).trim().toLowerCase();
+    params[key] = param
+      .slice(equals + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+  });
+  return { value: main.trim().toLowerCase(), params };
+};
+
+const decodeTransfer = (body: string, encoding: string | null) => {
+  switch ((encoding || "").trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, "latin1");
+  }
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// First text and HTML bodies found, depth first
+const collectBodies = (
+  raw: string,
+  bodies: { text: string | null; html: string | null }
+) => {
+  const { head, body } = splitHeaderAndBody(raw);
+  const headers = parseHeaders(head);
+  const contentType = parseHeaderParams(
+    firstHeader(headers, "content-type") || "text/plain"
+  );
+  const disposition = parseHeaderParams(
+    firstHeader(headers, "content-disposition")
+  );
+
+  if (contentType.value.startsWith("multipart/")) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) return;
+    body
+      .split(new RegExp(`\\r?\\n?--${escapeRegExp(boundary)}`))
+      .slice(1)
+      .forEach((part) => {
+        // The closing delimiter is followed by "--"
+        if (part.startsWith("--")) return;
+        collectBodies(part.replace(/^[ \t]*\r?\n/, ""), bodies);
+      });
+    return;
+  }
+
+  if (disposition.value === "attachment") return;
+
+  const decoded = () =>
+    decodeBytes(
+      decodeTransfer(body, firstHeader(headers, "content-transfer-encoding")),
+      contentType.params.charset
+    );
+
+  if (contentType.value === "text/plain" && bodies.text === null) {
+    bodies.text = decoded();
+  } else if (contentType.value === "text/html" && bodies.html === null) {
+    bodies.html = decoded();
+  }
+};
+
+// Addresses in a header such as To, ignoring commas inside quoted names
+const parseAddressList = (value: string | null): EmailAddress[] => {
+  if (!value) return [];
+  const parts = value.match(/(?:"[^"]*"|[^,])+/g) || [];
+  return parts
+    .map((part) => {
+      const angle = /^(.*)<([^>]+)>\s*$/.exec(part.trim());
+      if (angle) {
+        const name = decodeHeaderValue(
+          angle[1].trim().replace(/^"(.*)"$/, "$1")
+        );
+        return { name: name || null, address: angle[2].trim().toLowerCase() };
+      }
+      return { name: null, address: part.trim().toLowerCase() };
+    })
+    .filter((address) => address.address.includes("@"));
+};
+
+const parseMessageIds = (value: string | null) =>
+  (value?.match(/<[^>]+>/g) || []).map((id) => id.slice(1, -1).trim());
+
+export function parseEmailMessage(data: Buffer): ParsedEmail {
+  const raw = data.toString("latin1");
+  const headers = parseHeaders(splitHeaderAndBody(raw).head);
+
+  const bodies: { text: string | null; html: string | null } = {
+    text: null,
+    html: null,
+  };
+  collectBodies(raw, bodies);
+
+  // Some mailers put raw UTF-8 in headers instead of encoded words
+  const rawHeader = (name: string) =>
+    decodeBytes(
+      Buffer.from(firstHeader(headers, name) || "", "latin1"),
+      "utf-8"
+    );
+
+  const date = new Date(firstHeader(headers, "date") || "");
+
+  return {
+    messageId: parseMessageIds(firstHeader(headers, "message-id"))[0] || null,
+    inReplyTo: parseMessageIds(firstHeader(headers, "in-reply-to"))[0] || null,
+    references: parseMessageIds(firstHeader(headers, "references")),
+    from: parseAddressList(rawHeader("from"))[0] || null,
+    to: parseAddressList(rawHeader("to")),
+    subject: decodeHeaderValue(rawHeader("subject")),
+    date: Number.isNaN(date.getTime())
+      ? new Date().toISOString()
+      : date.toISOString(),
+    text: bodies.text ?? "",
+    html: bodies.html,
+  };
+}
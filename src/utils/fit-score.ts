@@ -0,0 +1,33 @@
+import {
+  FitScore,
+  FitScoreComponent,
+  FitScoreItem,
+} from "@/types/custom";
+
+// Candidate-to-job fit is computed by the application_fit_score database
+// function, which fetch_candidates_with_access returns with every row. The
+// helpers here only prepare what it returns for display.
+
+// A breakdown item as the database returns it
+export type StoredFitScoreItem = Omit<FitScoreItem, "label">;
+
+export const FIT_SCORE_LABELS: Record<FitScoreComponent, string> = {
+  experience: "Experience",
+  salary: "Salary",
+  notice: "Notice period",
+  location: "Location",
+};
+
+// Adds labels to a score returned by the database, for FitScoreBadge
+export const toFitScore = (
+  total: number | null | undefined,
+  items: StoredFitScoreItem[] | null | undefined,
+  noticeDays?: number | null
+): FitScore => ({
+  total: total ?? null,
+  items: (items || []).map((item) => ({
+    ...item,
+    label: FIT_SCORE_LABELS[item.component],
+  })),
+  noticeDays: noticeDays ?? null,
+});
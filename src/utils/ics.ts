@@ -0,0 +1,147 @@
+import { Interview } from "@/types/custom";
+
+// iCalendar (RFC 5545) invites for scheduled interviews
+
+const PRODUCT_ID = "-//Recrivio//Job Board Admin//EN";
+const UID_DOMAIN = "recrivio.app";
+const MAX_LINE_OCTETS = 75;
+
+// DATE-TIME in UTC form, e.g. 20250102T150000Z
+const formatIcsDate = (isoString: string) =>
+  new Date(isoString).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// TEXT values escape backslash, semicolon, comma and newlines
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Parameter values may not contain DQUOTE or control characters, so line
+// breaks become spaces; values are quoted when needed
+const formatParam = (value: string) => {
+  const cleaned = value
+    .replace(/[\x00-\x1f\x7f]+/g, " ")
+    .replace(/"/g, "'")
+    .trim();
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+};
+
+// URI values (mailto addresses, links) cannot contain whitespace or control
+// characters, which would otherwise start a new property
+const formatUri = (value: string) => value.replace(/[\x00-\x20\x7f]/g, "");
+
+// Fold content lines longer than 75 octets without splitting a character
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+export interface IcsOrganizer {
+  name: string;
+  email: string;
+}
+
+export function buildInterviewIcs(
+  interview: Interview,
+  organizer?: IcsOrganizer | null
+): string {
+  const cancelled = interview.outcome === "cancelled";
+  const description = [
+    `${interview.roundName} interview with ${interview.candidate.name} for ${interview.jobTitle}` +
+      (interview.companyName ? ` at ${interview.companyName}` : ""),
+    `Time zone: ${interview.timeZone}`,
+    interview.meetingLink ? `Join: ${interview.meetingLink}` : null,
+    interview.interviewers.length > 0
+      ? `Interviewers: ${interview.interviewers
+          .map((interviewer) => interviewer.name)
+          .join(", ")}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const attendees = [
+    ...interview.interviewers
+      .filter((interviewer) => interviewer.email)
+      .map(
+        (interviewer) =>
+          `ATTENDEE;CN=${formatParam(
+            interviewer.name
+          )};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${formatUri(
+            interviewer.email || ""
+          )}`
+      ),
+    `ATTENDEE;CN=${formatParam(
+      interview.candidate.name
+    )};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${formatUri(
+      interview.candidate.email
+    )}`,
+  ];
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${cancelled ? "CANCEL" : "REQUEST"}`,
+    "BEGIN:VEVENT",
+    `UID:${interview.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatIcsDate(new Date().toISOString())}`,
+    `DTSTART:${formatIcsDate(interview.startTime)}`,
+    `DTEND:${formatIcsDate(interview.endTime)}`,
+    `SEQUENCE:${interview.icsSequence}`,
+    `SUMMARY:${escapeText(
+      `Interview: ${interview.roundName} - ${interview.candidate.name}`
+    )}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    interview.location || interview.meetingLink
+      ? `LOCATION:${escapeText(
+          interview.location || interview.meetingLink || ""
+        )}`
+      : null,
+    interview.meetingLink ? `URL:${formatUri(interview.meetingLink)}` : null,
+    organizer
+      ? `ORGANIZER;CN=${formatParam(organizer.name)}:mailto:${formatUri(
+          organizer.email
+        )}`
+      : null,
+    ...attendees,
+    `STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].filter((line): line is string => line !== null);
+
+  // Content lines are delimited by CRLF, including the last one
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function downloadIcs(fileName: string, content: string) {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: "text/calendar;charset=utf-8" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName.endsWith(".ics") ? fileName : `${fileName}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,265 @@
+import fs from "fs/promises";
+import net from "net";
+import os from "os";
+import path from "path";
+import tls from "tls";
+
+// Outgoing mail goes through one transport, picked by MAIL_TRANSPORT:
+//   smtp    - SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for implicit
+//             TLS, usually port 465), SMTP_USER and SMTP_PASSWORD. Credentials
+//             are only sent over TLS unless SMTP_ALLOW_INSECURE is "true",
+//             for local test servers.
+//   file    - writes each message as an .eml file to MAIL_FILE_DIR
+//   console - logs each message, the default outside production
+// MAIL_FROM_ADDRESS is the sender address on every transport.
+
+export interface MailEnvelope {
+  from: string;
+  to: string[];
+}
+
+export interface MailTransport {
+  name: string;
+  send(envelope: MailEnvelope, message: string): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  allowInsecure?: boolean;
+}
+
+const SMTP_TIMEOUT = 30000;
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+// Replies from the server, one at a time, including multi-line replies
+function smtpReader(socket: net.Socket) {
+  let buffer = "";
+  const lines: string[] = [];
+  let waiting: {
+    resolve: (line: string) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  let failure: Error | null = null;
+
+  const fail = (error: Error) => {
+    failure = failure || error;
+    waiting?.reject(failure);
+    waiting = null;
+  };
+
+  socket.setTimeout(SMTP_TIMEOUT);
+  socket.on("data", (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index;
+    while ((index = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, index).replace(/\r$/, "");
+      buffer = buffer.slice(index + 1);
+      if (waiting) {
+        waiting.resolve(line);
+        waiting = null;
+      } else {
+        lines.push(line);
+      }
+    }
+  });
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error("SMTP connection closed")));
+  socket.on("timeout", () => {
+    fail(new Error("SMTP server did not respond"));
+    socket.destroy();
+  });
+
+  const nextLine = () =>
+    new Promise<string>((resolve, reject) => {
+      const line = lines.shift();
+      if (line !== undefined) return resolve(line);
+      if (failure) return reject(failure);
+      waiting = { resolve, reject };
+    });
+
+  return async (): Promise<SmtpReply> => {
+    const messages: string[] = [];
+    for (;;) {
+      const line = await nextLine();
+      const match = /^(\d{3})([ -]?)(.*)$/.exec(line);
+      if (!match) {
+        throw new Error(`Unexpected SMTP reply: ${line}`);
+      }
+      messages.push(match[3]);
+      if (match[2] !== "-") {
+        return { code: Number(match[1]), message: messages.join("\n") };
+      }
+    }
+  };
+}
+
+const connect = (config: SmtpConfig) =>
+  new Promise<net.Socket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({
+          host: config.host,
+          port: config.port,
+          servername: config.host,
+        })
+      : net.connect({ host: config.host, port: config.port });
+    socket.once(config.secure ? "secureConnect" : "connect", () =>
+      resolve(socket)
+    );
+    socket.once("error", reject);
+  });
+
+const upgradeToTls = (socket: net.Socket, host: string) =>
+  new Promise<tls.TLSSocket>((resolve, reject) => {
+    // The plain reader must not see the encrypted stream
+    socket.removeAllListeners("data");
+    socket.removeAllListeners("close");
+    socket.removeAllListeners("timeout");
+    socket.removeAllListeners("error");
+    const secure = tls.connect({ socket, servername: host }, () =>
+      resolve(secure)
+    );
+    secure.once("error", reject);
+  });
+
+// An address with line breaks or angle brackets could inject SMTP commands
+const isSafeAddress = (address: string) => !/[\r\n<>]/.test(address);
+
+// Lines starting with a dot are escaped so they cannot end the message
+const dotStuff = (message: string) =>
+  message.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    name: "smtp",
+    async send(envelope, message) {
+      const unsafe = [envelope.from, ...envelope.to].find(
+        (address) => !isSafeAddress(address)
+      );
+      if (unsafe !== undefined) {
+        throw new Error(`Invalid email address: ${JSON.stringify(unsafe)}`);
+      }
+
+      let socket = await connect(config);
+      let readReply = smtpReader(socket);
+
+      const command = async (line: string | null, expected: number[]) => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const reply = await readReply();
+        if (!expected.includes(reply.code)) {
+          throw new Error(`SMTP error ${reply.code}: ${reply.message}`);
+        }
+        return reply;
+      };
+
+      try {
+        await command(null, [220]);
+        const clientName = os.hostname() || "localhost";
+        let capabilities = await command(`EHLO ${clientName}`, [250]);
+
+        if (!config.secure && /^STARTTLS$/im.test(capabilities.message)) {
+          await command("STARTTLS", [220]);
+          socket = await upgradeToTls(socket, config.host);
+          readReply = smtpReader(socket);
+          capabilities = await command(`EHLO ${clientName}`, [250]);
+        }
+
+        if (config.user) {
+          if (!(socket instanceof tls.TLSSocket) && !config.allowInsecure) {
+            throw new Error(
+              "The SMTP server does not support TLS, so credentials were not sent. Set SMTP_ALLOW_INSECURE to allow this."
+            );
+          }
+          const auth = /^AUTH[ =](.*)$/im.exec(capabilities.message)?.[1] || "";
+          if (/\bPLAIN\b/i.test(auth)) {
+            const credentials = Buffer.from(
+              `\0${config.user}\0${config.password || ""}`
+            ).toString("base64");
+            await command(`AUTH PLAIN ${credentials}`, [235]);
+          } else {
+            await command("AUTH LOGIN", [334]);
+            await command(Buffer.from(config.user).toString("base64"), [334]);
+            await command(
+              Buffer.from(config.password || "").toString("base64"),
+              [235]
+            );
+          }
+        }
+
+        await command(`MAIL FROM:<${envelope.from}>`, [250]);
+        for (const recipient of envelope.to) {
+          await command(`RCPT TO:<${recipient}>`, [250, 251]);
+        }
+        await command("DATA", [354]);
+        await command(`${dotStuff(message).replace(/\r\n$/, "")}\r\n.`, [250]);
+        await command("QUIT", [221]).catch(() => undefined);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: "file",
+    async send(envelope, message) {
+      await fs.mkdir(directory, { recursive: true });
+      const recipient = envelope.to[0]?.replace(/[^a-zA-Z0-9@._-]/g, "_");
+      await fs.writeFile(
+        path.join(directory, `${Date.now()}-${recipient || "message"}.eml`),
+        message
+      );
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(envelope, message) {
+      console.log(
+        `Mail from ${envelope.from} to ${envelope.to.join(", ")}:\n${message}`
+      );
+    },
+  };
+}
+
+export const getMailFromAddress = () =>
+  process.env.MAIL_FROM_ADDRESS || "no-reply@recrivio.app";
+
+export function getMailTransport(): MailTransport {
+  const transport =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.NODE_ENV === "production" ? "smtp" : "console");
+
+  switch (transport) {
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST is not configured");
+      }
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        allowInsecure: process.env.SMTP_ALLOW_INSECURE === "true",
+      });
+    case "file":
+      return createFileTransport(
+        process.env.MAIL_FILE_DIR || path.join(os.tmpdir(), "recrivio-mail")
+      );
+    case "console":
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${transport}`);
+  }
+}
@@ -0,0 +1,178 @@
+import { S3Client, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "@/types/supabase";
+import { PrivacyRequestType } from "@/types/custom";
+import { storedObjectKey } from "./resume-index";
+
+// Erasure and retention of candidate data. Server-only: shared by the
+// candidate server actions and the scheduled retention job.
+
+const RETENTION_BATCH_SIZE = 50;
+
+const s3Client = new S3Client({
+  region: process.env.NEXT_PUBLIC_AWS_BUCKET_REGION || "ap-south-1",
+  credentials: {
+    accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || "",
+    secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || "",
+  },
+});
+
+type Client = SupabaseClient<Database>;
+
+type AnonymizeResult = {
+  candidate_id: string;
+  profile_anonymized: boolean;
+  resume_link: string | null;
+  additional_doc_link: string | null;
+};
+
+// Removes what the organization holds about a candidate. The profile is
+// shared between organizations, so the RPC only anonymizes it when no other
+// organization has an application from the candidate.
+export async function anonymizeCandidate(
+  supabase: Client,
+  organizationId: string,
+  candidateId: string
+) {
+  const { data, error } = await supabase.rpc("anonymize_candidate", {
+    p_organization_id: organizationId,
+    p_candidate_id: candidateId,
+  });
+
+  if (error || !data) {
+    throw new Error(
+      `Failed to anonymize candidate: ${error?.message || "No result"}`
+    );
+  }
+
+  // The profile no longer points at the files, so a failed delete only
+  // leaves an orphaned object behind
+  const result = data as AnonymizeResult;
+  if (!result.profile_anonymized) return;
+  for (const link of [result.resume_link, result.additional_doc_link]) {
+    const key = storedObjectKey(link);
+    if (!key) continue;
+    try {
+      await s3Client.send(
+        new DeleteObjectCommand({
+          Bucket: process.env.NEXT_PUBLIC_AWS_BUCKET_NAME || "",
+          Key: key,
+        })
+      );
+    } catch (err) {
+      console.log("anonymizeCandidate file delete error:", err);
+    }
+  }
+}
+
+export async function logPrivacyRequest(
+  supabase: Client,
+  request: {
+    organizationId: string;
+    candidateId: string | null;
+    type: PrivacyRequestType;
+    performedBy: string | null; // Null for scheduled runs
+    details?: Record<string, string | number>;
+  }
+) {
+  const { error } = await supabase.from("privacy_requests").insert({
+    organization_id: request.organizationId,
+    candidate_id: request.candidateId,
+    request_type: request.type,
+    performed_by: request.performedBy,
+    details: request.details || {},
+  });
+
+  if (error) {
+    console.log("logPrivacyRequest error:", error);
+  }
+}
+
+// Anonymizes one page of the organization's candidates with no activity
+// for longer than its retention policy allows. Pass the returned next
+// cursor back to continue the pass; it is null once the pass is finished,
+// which is when last_run_at is recorded.
+export async function applyRetentionBatch(
+  supabase: Client,
+  organizationId: string,
+  options: { performedBy: string | null; after?: string | null }
+) {
+  const { data: policy, error: policyError } = await supabase
+    .from("data_retention_policies")
+    .select("enabled, retention_months, last_run_at")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (policyError) {
+    throw new Error(`Failed to fetch retention policy: ${policyError.message}`);
+  }
+
+  if (!policy?.enabled) {
+    return {
+      anonymized: 0,
+      failed: 0,
+      remaining: 0,
+      lastRunAt: policy?.last_run_at || null,
+      next: null,
+    };
+  }
+
+  const cutoff = new Date();
+  cutoff.setMonth(cutoff.getMonth() - policy.retention_months);
+
+  const { data, error } = await supabase.rpc("inactive_candidates", {
+    p_organization_id: organizationId,
+    p_cutoff: cutoff.toISOString(),
+    p_after: options.after || undefined,
+    p_limit: RETENTION_BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch inactive candidates: ${error.message}`);
+  }
+
+  const { total, candidate_ids: candidateIds } = data as {
+    total: number;
+    candidate_ids: string[];
+  };
+
+  let anonymized = 0;
+  for (const candidateId of candidateIds) {
+    try {
+      await anonymizeCandidate(supabase, organizationId, candidateId);
+      anonymized++;
+    } catch (err) {
+      console.log("applyRetentionBatch error:", err);
+    }
+  }
+
+  const remaining = Math.max(0, total - candidateIds.length);
+  const next = remaining > 0 ? candidateIds[candidateIds.length - 1] : null;
+
+  let lastRunAt = policy.last_run_at;
+  if (!next) {
+    lastRunAt = new Date().toISOString();
+    await supabase
+      .from("data_retention_policies")
+      .update({ last_run_at: lastRunAt })
+      .eq("organization_id", organizationId);
+  }
+
+  if (anonymized > 0) {
+    await logPrivacyRequest(supabase, {
+      organizationId,
+      candidateId: null,
+      type: "retention",
+      performedBy: options.performedBy,
+      details: { anonymized, retention_months: policy.retention_months },
+    });
+  }
+
+  return {
+    anonymized,
+    failed: candidateIds.length - anonymized,
+    remaining,
+    lastRunAt,
+    next,
+  };
+}
@@ -0,0 +1,77 @@
+import { RejectionReason, RejectionReasonCategory } from "@/types/custom";
+import {
+  findRejectionReason,
+  formatRejectionReason,
+} from "@/store/features/rejectionReasonsSlice";
+import type { RejectionBreakdownRow } from "@/store/features/dashboardSlice";
+
+export type RejectionGrouping = "job" | "company";
+
+export interface RejectionReasonCount {
+  reason: string | null;
+  label: string;
+  rejections: number;
+}
+
+export interface RejectionSummary {
+  key: string;
+  label: string;
+  total: number;
+  // Rejections whose reason is no longer in the catalogue count in neither
+  byCategory: Record<RejectionReasonCategory, number>;
+  reasons: RejectionReasonCount[]; // Most common first
+}
+
+// Roll per-job reason counts up to one row per job or company, busiest first
+export function summarizeRejections(
+  rows: RejectionBreakdownRow[],
+  reasons: RejectionReason[],
+  grouping: RejectionGrouping
+): RejectionSummary[] {
+  const groups = new Map<
+    string,
+    Omit<RejectionSummary, "reasons"> & {
+      reasons: Map<string, RejectionReasonCount>;
+    }
+  >();
+
+  rows.forEach((row) => {
+    const key =
+      grouping === "job" ? row.job_id : row.company_name || "";
+    const group = groups.get(key) || {
+      key,
+      label:
+        grouping === "job"
+          ? row.job_title
+          : row.company_name || "Unknown company",
+      total: 0,
+      byCategory: { rejected_by_us: 0, candidate_withdrew: 0 },
+      reasons: new Map<string, RejectionReasonCount>(),
+    };
+
+    group.total += row.rejections;
+    const reason = findRejectionReason(reasons, row.rejection_reason);
+    if (reason) {
+      group.byCategory[reason.category] += row.rejections;
+    }
+
+    const reasonKey = row.rejection_reason || "";
+    const count = group.reasons.get(reasonKey) || {
+      reason: row.rejection_reason,
+      label: formatRejectionReason(reasons, row.rejection_reason),
+      rejections: 0,
+    };
+    count.rejections += row.rejections;
+    group.reasons.set(reasonKey, count);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      reasons: Array.from(group.reasons.values()).sort(
+        (a, b) => b.rejections - a.rejections
+      ),
+    }))
+    .sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,161 @@
+import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "@/types/supabase";
+import { detectResumeFileType, extractResumeText } from "./resume-parser";
+
+// Reads resumes from our bucket and keeps their text in candidate_resume_texts
+// for full-text search. Server-only: shared by the candidate server actions
+// and the scheduled indexing job.
+
+export const MAX_RESUME_SIZE = 10 * 1024 * 1024; // 10 MB
+const MAX_INDEXED_LENGTH = 200000; // characters of resume text kept for search
+const INDEX_BATCH_SIZE = 10;
+
+const s3Client = new S3Client({
+  region: process.env.NEXT_PUBLIC_AWS_BUCKET_REGION || "ap-south-1",
+  credentials: {
+    accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || "",
+    secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || "",
+  },
+});
+
+type Client = SupabaseClient<Database>;
+
+// Key of a file uploaded to our bucket, or null for links stored elsewhere
+export const storedObjectKey = (link: string | null) => {
+  const bucket = process.env.NEXT_PUBLIC_AWS_BUCKET_NAME;
+  if (!link || !bucket) return null;
+  try {
+    const url = new URL(link);
+    const region = process.env.NEXT_PUBLIC_AWS_BUCKET_REGION || "ap-south-1";
+    if (url.hostname !== `${bucket}.s3.${region}.amazonaws.com`) return null;
+    const key = decodeURIComponent(url.pathname.slice(1));
+    return key.startsWith("resumes/") ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+// Downloads a resume uploaded to our bucket. Links stored elsewhere are
+// never fetched.
+export async function downloadStoredResume(resumeLink: string) {
+  const key = storedObjectKey(resumeLink);
+  if (!key) {
+    throw new Error("Only resumes uploaded to Recrivio can be read");
+  }
+
+  const object = await s3Client.send(
+    new GetObjectCommand({
+      Bucket: process.env.NEXT_PUBLIC_AWS_BUCKET_NAME || "",
+      Key: key,
+    })
+  );
+  if (!object.Body) {
+    throw new Error("Failed to download resume");
+  }
+  if ((object.ContentLength || 0) > MAX_RESUME_SIZE) {
+    await object.Body.transformToWebStream().cancel();
+    throw new Error("Resume exceeds the limit of 10 MB");
+  }
+
+  const data = Buffer.from(await object.Body.transformToByteArray());
+  if (data.length > MAX_RESUME_SIZE) {
+    throw new Error("Resume exceeds the limit of 10 MB");
+  }
+  return data;
+}
+
+// Downloads a stored resume from the bucket and returns its plain text
+export async function readResumeText(resumeLink: string) {
+  const data = await downloadStoredResume(resumeLink);
+
+  const type = detectResumeFileType(data);
+  if (!type) {
+    throw new Error("Only PDF and DOCX resumes can be parsed");
+  }
+
+  return extractResumeText(data, type);
+}
+
+// Stores resume text for full-text search. Failures are stored too so the
+// same file is not retried on every pass.
+export async function saveResumeIndex(
+  supabase: Client,
+  candidateId: string,
+  resumeLink: string,
+  text: string | null,
+  error: string | null
+) {
+  const { error: upsertError } = await supabase
+    .from("candidate_resume_texts")
+    .upsert(
+      {
+        candidate_id: candidateId,
+        resume_link: resumeLink,
+        // Postgres text cannot hold NUL characters
+        content: (text || "").replace(/\u0000/g, "").slice(0, MAX_INDEXED_LENGTH),
+        error,
+        indexed_at: new Date().toISOString(),
+      },
+      { onConflict: "candidate_id" }
+    );
+
+  if (upsertError) {
+    console.log("saveResumeIndex error:", upsertError);
+  }
+}
+
+export async function indexResume(
+  supabase: Client,
+  candidateId: string,
+  resumeLink: string
+) {
+  try {
+    const text = await readResumeText(resumeLink);
+    await saveResumeIndex(supabase, candidateId, resumeLink, text, null);
+    return true;
+  } catch (err) {
+    await saveResumeIndex(
+      supabase,
+      candidateId,
+      resumeLink,
+      null,
+      err instanceof Error ? err.message : "Failed to read resume"
+    );
+    return false;
+  }
+}
+
+// Indexes a batch of the organization's resumes that are new or changed
+// since they were last indexed
+export async function indexPendingResumes(
+  supabase: Client,
+  organizationId: string
+) {
+  const { data, error } = await supabase.rpc("pending_resume_index", {
+    p_organization_id: organizationId,
+    p_limit: INDEX_BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch resumes: ${error.message}`);
+  }
+
+  const pending = data as {
+    total: number;
+    resumes: { candidate_id: string; resume_link: string }[];
+  };
+
+  let indexed = 0;
+  for (const resume of pending.resumes) {
+    if (await indexResume(supabase, resume.candidate_id, resume.resume_link)) {
+      indexed++;
+    }
+  }
+
+  return {
+    indexed,
+    failed: pending.resumes.length - indexed,
+    remaining: Math.max(0, pending.total - pending.resumes.length),
+  };
+}
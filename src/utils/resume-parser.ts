@@ -0,0 +1,924 @@
+import { inflateRawSync, inflateSync } from "zlib";
+import {
+  ParsedEducation,
+  ParsedExperience,
+  ParsedResume,
+} from "@/types/custom";
+
+// Local resume parsing: pulls plain text out of PDF and DOCX files and
+// picks employers, titles, degrees, institutions and dates out of it.
+// Server-only, it relies on Node's zlib for the compressed parts.
+
+const MAX_ENTRIES = 20;
+const MAX_HEADER_LENGTH = 100;
+// Decompressed bytes read from one file, so a small archive cannot expand
+// into gigabytes
+const MAX_INFLATED_SIZE = 20 * 1024 * 1024;
+
+const TOO_LARGE_ERROR = "The resume expands to more than 20 MB of content";
+
+// zlib throws a RangeError once maxOutputLength is exceeded
+const isOutputTooLarge = (error: unknown) =>
+  error instanceof RangeError &&
+  (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE";
+
+export type ResumeFileType = "pdf" | "docx";
+
+// PDFs start with "%PDF", DOCX files are zip archives starting with "PK"
+export const detectResumeFileType = (data: Buffer): ResumeFileType | null => {
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+  if (data[0] === 0x50 && data[1] === 0x4b) return "docx";
+  return null;
+};
+
+export function extractResumeText(data: Buffer, type: ResumeFileType) {
+  return type === "pdf" ? extractPdfText(data) : extractDocxText(data);
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+
+function readZipEntry(data: Buffer, name: string): Buffer | null {
+  // The end-of-central-directory record sits in the last 64KB of the archive
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== ZIP_DIRECTORY_ENTRY) break;
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const entryName = data.toString(
+      "utf8",
+      offset + 46,
+      offset + 46 + nameLength
+    );
+
+    if (entryName === name) {
+      const start =
+        localOffset +
+        30 +
+        data.readUInt16LE(localOffset + 26) +
+        data.readUInt16LE(localOffset + 28);
+      const raw = data.subarray(start, start + compressedSize);
+      if (method === 0) return raw;
+      if (method !== 8) return null;
+      try {
+        return inflateRawSync(raw, { maxOutputLength: MAX_INFLATED_SIZE });
+      } catch (error) {
+        throw new Error(
+          isOutputTooLarge(error) ? TOO_LARGE_ERROR : "The DOCX file is damaged"
+        );
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+function extractDocxText(data: Buffer) {
+  const documentXml = readZipEntry(data, "word/document.xml");
+  if (!documentXml) {
+    throw new Error("The DOCX file has no document body");
+  }
+
+  return decodeXmlEntities(
+    documentXml
+      .toString("utf8")
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+interface PdfObject {
+  dict: string;
+  stream: Buffer | null;
+}
+
+// Maps a font's character codes to Unicode text
+interface ToUnicodeMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+const decodeUtf16Hex = (hex: string) => {
+  let text = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return text;
+};
+
+function decodeStream(
+  dict: string,
+  raw: Buffer,
+  maxOutputLength: number
+): Buffer | null {
+  if (/\/FlateDecode/.test(dict)) {
+    try {
+      return inflateSync(raw, { maxOutputLength });
+    } catch (error) {
+      if (isOutputTooLarge(error)) throw new Error(TOO_LARGE_ERROR);
+      return null;
+    }
+  }
+  // Images and other encodings never carry text
+  return /\/Filter/.test(dict) ? null : raw;
+}
+
+function readPdfObjects(data: Buffer) {
+  const source = data.toString("latin1");
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  // Shared by every stream in the file
+  let inflateBudget = MAX_INFLATED_SIZE;
+
+  while ((match = header.exec(source))) {
+    const bodyStart = match.index + match[0].length;
+    const bodyEnd = source.indexOf("endobj", bodyStart);
+    if (bodyEnd < 0) break;
+
+    const body = source.slice(bodyStart, bodyEnd);
+    const streamMatch = /\bstream\r?\n/.exec(body);
+    let dict = body;
+    let stream: Buffer | null = null;
+
+    if (streamMatch) {
+      dict = body.slice(0, streamMatch.index);
+      const dataStart = bodyStart + streamMatch.index + streamMatch[0].length;
+      const dataEnd = source.lastIndexOf("endstream", bodyEnd);
+      if (dataEnd > dataStart) {
+        if (inflateBudget <= 0) throw new Error(TOO_LARGE_ERROR);
+        stream = decodeStream(
+          dict,
+          data.subarray(dataStart, dataEnd),
+          inflateBudget
+        );
+        inflateBudget -= stream?.length || 0;
+      }
+    }
+
+    objects.set(parseInt(match[1], 10), { dict, stream });
+    header.lastIndex = bodyEnd;
+  }
+
+  // PDF 1.5+ keeps most dictionaries inside compressed object streams
+  Array.from(objects.values()).forEach(({ dict, stream }) => {
+    if (!stream || !/\/Type\s*\/ObjStm/.test(dict)) return;
+    const first = parseInt(/\/First\s+(\d+)/.exec(dict)?.[1] || "0", 10);
+    const content = stream.toString("latin1");
+    const numbers = content.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let i = 0; i + 1 < numbers.length; i += 2) {
+      const start = first + numbers[i + 1];
+      const end = i + 3 < numbers.length ? first + numbers[i + 3] : content.length;
+      if (!objects.has(numbers[i])) {
+        objects.set(numbers[i], {
+          dict: content.slice(start, end),
+          stream: null,
+        });
+      }
+    }
+  });
+
+  return objects;
+}
+
+// Value of a dictionary key: a nested dictionary, an array or a single token
+function dictValue(dict: string, key: string): string | null {
+  const match = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dict);
+  if (!match) return null;
+
+  const start = match.index + match[0].length;
+  const open = dict.startsWith("<<", start) ? "<<" : dict[start] === "[" ? "[" : null;
+  if (!open) {
+    return /^(\d+\s+\d+\s+R|\/?[^\s/<>[\]()]+)/.exec(dict.slice(start))?.[0] || null;
+  }
+
+  const close = open === "<<" ? ">>" : "]";
+  let depth = 0;
+  for (let i = start; i < dict.length; i++) {
+    if (dict.startsWith(open, i)) {
+      depth++;
+      i += open.length - 1;
+    } else if (dict.startsWith(close, i)) {
+      depth--;
+      if (depth === 0) return dict.slice(start, i + close.length);
+      i += close.length - 1;
+    }
+  }
+  return null;
+}
+
+const refNumbers = (value: string | null) =>
+  Array.from((value || "").matchAll(/(\d+)\s+\d+\s+R/g)).map((match) =>
+    parseInt(match[1], 10)
+  );
+
+// Follows an indirect reference so callers always get dictionary text
+function resolveDict(value: string | null, objects: Map<number, PdfObject>) {
+  if (!value) return null;
+  if (/^\d+\s+\d+\s+R$/.test(value.trim())) {
+    return objects.get(refNumbers(value)[0])?.dict || null;
+  }
+  return value;
+}
+
+function parseToUnicode(cmap: string): ToUnicodeMap {
+  const map = new Map<number, string>();
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const codeLength = codespace ? codespace[1].length / 2 : 2;
+
+  const charBlocks = cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g);
+  for (const block of Array.from(charBlocks)) {
+    const pairs = block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g);
+    for (const pair of Array.from(pairs)) {
+      map.set(parseInt(pair[1], 16), decodeUtf16Hex(pair[2]));
+    }
+  }
+
+  const rangeBlocks = cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g);
+  for (const block of Array.from(rangeBlocks)) {
+    const ranges = block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g
+    );
+    for (const range of Array.from(ranges)) {
+      const low = parseInt(range[1], 16);
+      const high = parseInt(range[2], 16);
+      if (range[3].startsWith("[")) {
+        const targets = Array.from(range[3].matchAll(/<([0-9a-fA-F]*)>/g));
+        targets.forEach((target, index) => {
+          map.set(low + index, decodeUtf16Hex(target[1]));
+        });
+      } else {
+        const base = range[3].slice(1, -1);
+        const baseCode = parseInt(base.slice(-4) || "0", 16);
+        for (let code = low; code <= high && code - low < 65536; code++) {
+          map.set(
+            code,
+            decodeUtf16Hex(base.slice(0, -4)) +
+              String.fromCharCode(baseCode + code - low)
+          );
+        }
+      }
+    }
+  }
+
+  return { codeLength, map };
+}
+
+// Font resource names (e.g. /F1) on a page mapped to their Unicode tables
+function pageFonts(
+  pageDict: string,
+  objects: Map<number, PdfObject>,
+  cmapCache: Map<number, ToUnicodeMap | null>
+) {
+  const fonts = new Map<string, ToUnicodeMap | null>();
+  const resources = resolveDict(dictValue(pageDict, "Resources"), objects);
+  const fontDict = resolveDict(
+    resources ? dictValue(resources, "Font") : null,
+    objects
+  );
+  if (!fontDict) return fonts;
+
+  const entries = fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g);
+  for (const entry of Array.from(entries)) {
+    const fontNumber = parseInt(entry[2], 10);
+    if (!cmapCache.has(fontNumber)) {
+      const font = objects.get(fontNumber);
+      const cmapNumber = refNumbers(
+        font ? dictValue(font.dict, "ToUnicode") : null
+      )[0];
+      const cmap = objects.get(cmapNumber)?.stream;
+      cmapCache.set(
+        fontNumber,
+        cmap ? parseToUnicode(cmap.toString("latin1")) : null
+      );
+    }
+    fonts.set(entry[1], cmapCache.get(fontNumber) || null);
+  }
+
+  return fonts;
+}
+
+function collectPages(objects: Map<number, PdfObject>) {
+  const catalog = Array.from(objects.values()).find(({ dict }) =>
+    /\/Type\s*\/Catalog/.test(dict)
+  );
+  const pages: string[] = [];
+  const visited = new Set<number>();
+
+  const walk = (objectNumber: number, inherited: string) => {
+    if (visited.has(objectNumber)) return;
+    visited.add(objectNumber);
+    const node = objects.get(objectNumber);
+    if (!node) return;
+
+    // Resources may be inherited from the parent page tree node
+    const dict = dictValue(node.dict, "Resources")
+      ? node.dict
+      : `${node.dict} /Resources ${inherited}`;
+    const resources = dictValue(dict, "Resources") || "<<>>";
+
+    if (/\/Type\s*\/Pages/.test(node.dict)) {
+      refNumbers(dictValue(node.dict, "Kids")).forEach((kid) =>
+        walk(kid, resources)
+      );
+    } else {
+      pages.push(dict);
+    }
+  };
+
+  refNumbers(catalog ? dictValue(catalog.dict, "Pages") : null).forEach(
+    (root) => walk(root, "<<>>")
+  );
+  return pages;
+}
+
+type PdfToken =
+  | { kind: "string"; bytes: number[] }
+  | { kind: "number"; value: number }
+  | { kind: "name"; value: string }
+  | { kind: "array"; items: PdfToken[] }
+  | { kind: "other" };
+
+const LITERAL_ESCAPES: Record<string, number> = {
+  n: 10,
+  r: 13,
+  t: 9,
+  b: 8,
+  f: 12,
+};
+
+// Walks a page content stream and writes out the text it shows
+function extractContentText(
+  content: string,
+  fonts: Map<string, ToUnicodeMap | null>
+) {
+  let text = "";
+  let font: ToUnicodeMap | null = null;
+  let lineY: number | null = null;
+  let shownY: number | null = null;
+  let moved = false;
+  const stack: (PdfToken | "[")[] = [];
+
+  const decode = (bytes: number[]) => {
+    if (!font) return String.fromCharCode(...bytes);
+    let decoded = "";
+    for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+      let code = 0;
+      for (let j = 0; j < font.codeLength; j++) {
+        code = code * 256 + bytes[i + j];
+      }
+      decoded += font.map.get(code) ?? "";
+    }
+    return decoded;
+  };
+
+  // Text moved to another line starts a new line, moved along the same
+  // line it is a separate word
+  const show = (value: string) => {
+    if (!value) return;
+    if (shownY !== null && lineY !== null && Math.abs(lineY - shownY) > 1) {
+      text += "\n";
+    } else if (moved && text && !/\s$/.test(text) && !/^\s/.test(value)) {
+      text += " ";
+    }
+    text += value;
+    shownY = lineY;
+    moved = false;
+  };
+
+  const operands = () => {
+    const items: PdfToken[] = [];
+    while (stack.length > 0) items.unshift(stack.pop() as PdfToken);
+    return items;
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++;
+    } else if (char === "(") {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const current = content[i];
+        if (current === "\\") {
+          const next = content[i + 1];
+          if (/[0-7]/.test(next)) {
+            const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4))![0];
+            bytes.push(parseInt(octal, 8) & 0xff);
+            i += octal.length + 1;
+            continue;
+          }
+          if (next in LITERAL_ESCAPES) bytes.push(LITERAL_ESCAPES[next]);
+          else if (next !== "\n" && next !== "\r") bytes.push(next.charCodeAt(0));
+          i += 2;
+          continue;
+        }
+        if (current === "(") depth++;
+        if (current === ")") depth--;
+        if (depth > 0) bytes.push(current.charCodeAt(0));
+        i++;
+      }
+      stack.push({ kind: "string", bytes });
+    } else if (content.startsWith("<<", i) || content.startsWith(">>", i)) {
+      i += 2;
+    } else if (char === "<") {
+      const end = content.indexOf(">", i);
+      const hex = content.slice(i + 1, end).replace(/\s/g, "");
+      const bytes: number[] = [];
+      for (let j = 0; j < hex.length; j += 2) {
+        bytes.push(parseInt(hex.slice(j, j + 2).padEnd(2, "0"), 16));
+      }
+      stack.push({ kind: "string", bytes });
+      i = end + 1;
+    } else if (char === "[") {
+      stack.push("[");
+      i++;
+    } else if (char === "]") {
+      const items: PdfToken[] = [];
+      while (stack.length > 0 && stack[stack.length - 1] !== "[") {
+        items.unshift(stack.pop() as PdfToken);
+      }
+      stack.pop();
+      stack.push({ kind: "array", items });
+      i++;
+    } else if (char === "/") {
+      const match = /^\/[^\s/<>[\]()%]*/.exec(content.slice(i, i + 128))![0];
+      stack.push({ kind: "name", value: match.slice(1) });
+      i += match.length;
+    } else if (/[\d.+-]/.test(char)) {
+      const match = /^[+-]?(\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32));
+      stack.push({ kind: "number", value: match ? parseFloat(match[0]) : 0 });
+      i += match ? match[0].length : 1;
+    } else {
+      const match = /^[A-Za-z'"*]+/.exec(content.slice(i, i + 16));
+      const operator = match ? match[0] : char;
+      i += operator.length;
+      const args = operands();
+      const numberAt = (index: number) => {
+        const arg = args[index];
+        return arg && arg.kind === "number" ? arg.value : 0;
+      };
+      const stringAt = (index: number) => {
+        const arg = args[index];
+        return arg && arg.kind === "string" ? decode(arg.bytes) : "";
+      };
+
+      switch (operator) {
+        case "Tf": {
+          const name = args[0];
+          font = name && name.kind === "name" ? fonts.get(name.value) || null : null;
+          break;
+        }
+        case "Tm":
+          lineY = numberAt(5);
+          moved = true;
+          break;
+        case "Td":
+        case "TD":
+          lineY = (lineY ?? 0) + numberAt(1);
+          moved = true;
+          break;
+        case "T*":
+          lineY = (lineY ?? 0) - 1000;
+          break;
+        case "Tj":
+          show(stringAt(0));
+          break;
+        case "'":
+          lineY = (lineY ?? 0) - 1000;
+          show(stringAt(0));
+          break;
+        case '"':
+          lineY = (lineY ?? 0) - 1000;
+          show(stringAt(2));
+          break;
+        case "TJ": {
+          const array = args[0];
+          if (array && array.kind === "array") {
+            show(
+              array.items
+                .map((item) =>
+                  item.kind === "string"
+                    ? decode(item.bytes)
+                    : item.kind === "number" && item.value < -200
+                    ? " "
+                    : ""
+                )
+                .join("")
+            );
+          }
+          break;
+        }
+        case "ID": {
+          // Skip inline image data
+          const end = content.indexOf("EI", i);
+          i = end < 0 ? content.length : end + 2;
+          break;
+        }
+      }
+    }
+  }
+
+  return text;
+}
+
+function extractPdfText(data: Buffer) {
+  const objects = readPdfObjects(data);
+  const cmapCache = new Map<number, ToUnicodeMap | null>();
+
+  const text = collectPages(objects)
+    .map((page) => {
+      const fonts = pageFonts(page, objects, cmapCache);
+      // Contents is a stream or an array of streams, possibly indirect
+      return refNumbers(dictValue(page, "Contents"))
+        .flatMap((contentNumber) => {
+          const content = objects.get(contentNumber);
+          return content && !content.stream
+            ? refNumbers(content.dict)
+            : [contentNumber];
+        })
+        .map((contentNumber) => objects.get(contentNumber)?.stream)
+        .filter((stream): stream is Buffer => !!stream)
+        .map((stream) => extractContentText(stream.toString("latin1"), fonts))
+        .join("\n");
+    })
+    .join("\n");
+
+  if (!text.trim()) {
+    throw new Error(
+      "No text found in the PDF. Scanned resumes are not supported."
+    );
+  }
+  return text;
+}
+
+// ---------------------------------------------------------------------------
+// Text to records
+// ---------------------------------------------------------------------------
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const MONTH_PATTERN =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\s*,?\\s*(?:19|20)\\d{2}|\\d{1,2}\\s*[/.]\\s*(?:19|20)\\d{2}|(?:19|20)\\d{2})`;
+const PRESENT_PATTERN =
+  "(?:present|current(?:ly)?|now|today|ongoing|till date|to date)";
+
+const DATE_RANGE = new RegExp(
+  `(${DATE_PATTERN})\\s*(?:-|–|—|to|until|till)\\s*(${DATE_PATTERN}|${PRESENT_PATTERN}|expected\\s+${DATE_PATTERN})`,
+  "i"
+);
+const SINGLE_DATE = new RegExp(`(expected\\s+)?(${DATE_PATTERN})`, "i");
+
+const EXPERIENCE_HEADINGS = [
+  "experience",
+  "work experience",
+  "professional experience",
+  "relevant experience",
+  "employment",
+  "employment history",
+  "work history",
+  "career history",
+  "professional background",
+];
+
+const EDUCATION_HEADINGS = [
+  "education",
+  "academic background",
+  "academics",
+  "academic qualifications",
+  "educational background",
+  "educational qualifications",
+  "education and training",
+  "education training",
+  "qualifications",
+];
+
+const OTHER_HEADINGS = [
+  "summary",
+  "profile",
+  "professional summary",
+  "objective",
+  "career objective",
+  "about me",
+  "skills",
+  "technical skills",
+  "key skills",
+  "core competencies",
+  "projects",
+  "personal projects",
+  "certifications",
+  "certificates",
+  "courses",
+  "training",
+  "awards",
+  "achievements",
+  "honors",
+  "languages",
+  "interests",
+  "hobbies",
+  "references",
+  "publications",
+  "volunteering",
+  "volunteer experience",
+  "contact",
+  "personal details",
+  "personal information",
+];
+
+const TITLE_KEYWORDS =
+  /\b(engineer|developer|programmer|manager|analyst|designer|intern|consultant|lead|director|specialist|officer|associate|assistant|coordinator|architect|scientist|administrator|executive|head|president|founder|teacher|accountant|representative|technician|supervisor|editor|writer|recruiter|advisor|researcher|tester)\b/i;
+const DEGREE_KEYWORDS =
+  /\b(bachelor|master|doctor|ph\.?\s?d|mba|b\.?\s?sc|m\.?\s?sc|b\.?\s?tech|m\.?\s?tech|b\.?\s?e|m\.?\s?e|b\.?\s?a|m\.?\s?a|b\.?\s?com|m\.?\s?com|bca|mca|bba|diploma|associate|certificate|high school|secondary|hsc|ssc|a-levels|gcse|degree)\b/i;
+const INSTITUTION_KEYWORDS =
+  /\b(university|college|institute|school|academy|polytechnic|iit|nit|iim)\b/i;
+
+const BULLET = /^[•▪●◦‣∙·*•-]\s*/;
+
+const normalizeHeading = (line: string) =>
+  line
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Month/year text to YYYY-MM-DD, or null when it is not a usable date
+function parseResumeDate(value: string): string | null {
+  const cleaned = value.trim().toLowerCase();
+  const year = /(19|20)\d{2}/.exec(cleaned)?.[0];
+  if (!year || parseInt(year, 10) > new Date().getFullYear() + 6) return null;
+
+  const monthName = MONTHS.findIndex((month) => cleaned.startsWith(month));
+  const monthNumber = /^(\d{1,2})\s*[/.]/.exec(cleaned)?.[1];
+  let month = 1;
+  if (monthName >= 0) month = monthName + 1;
+  else if (monthNumber) month = parseInt(monthNumber, 10);
+  if (month < 1 || month > 12) return null;
+
+  return `${year}-${String(month).padStart(2, "0")}-01`;
+}
+
+interface DateInfo {
+  startDate: string | null;
+  endDate: string | null;
+  current: boolean;
+  rest: string; // The line without its dates
+}
+
+function readDates(line: string, allowSingle: boolean): DateInfo | null {
+  const range = DATE_RANGE.exec(line);
+  if (range) {
+    const end = range[2];
+    const present = new RegExp(`^${PRESENT_PATTERN}$`, "i").test(end.trim());
+    const expected = /^expected/i.test(end);
+    return {
+      startDate: parseResumeDate(range[1]),
+      endDate: present ? null : parseResumeDate(end.replace(/^expected\s+/i, "")),
+      current: present || expected,
+      rest: line.replace(range[0], " "),
+    };
+  }
+
+  if (allowSingle) {
+    const single = SINGLE_DATE.exec(line);
+    if (single && parseResumeDate(single[2])) {
+      return {
+        startDate: null,
+        endDate: parseResumeDate(single[2]),
+        current: !!single[1],
+        rest: line.replace(single[0], " "),
+      };
+    }
+  }
+
+  return null;
+}
+
+// Trims separators left behind once dates and bullets are removed
+const cleanPart = (value: string) =>
+  value
+    .replace(/\(\s*\)/g, " ")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s|,;:–—()-]+|[\s|,;:–—()-]+$/g, "")
+    .trim();
+
+const splitParts = (value: string) =>
+  value
+    .split(/\s+(?:\||–|—|-|@|at)\s+|\s*\|\s*|,\s+|\t+/i)
+    .map(cleanPart)
+    .filter(Boolean);
+
+function splitSections(lines: string[]) {
+  const sections: Record<"experience" | "education", string[]> = {
+    experience: [],
+    education: [],
+  };
+  let current: "experience" | "education" | null = null;
+
+  lines.forEach((line) => {
+    const heading = normalizeHeading(line);
+    const words = heading.split(" ").length;
+    if (words <= 4 && EXPERIENCE_HEADINGS.includes(heading)) {
+      current = "experience";
+    } else if (words <= 4 && EDUCATION_HEADINGS.includes(heading)) {
+      current = "education";
+    } else if (words <= 4 && OTHER_HEADINGS.includes(heading)) {
+      current = null;
+    } else if (current) {
+      sections[current].push(line);
+    }
+  });
+
+  return sections;
+}
+
+function toExperience(parts: string[], dates: DateInfo): ParsedExperience | null {
+  let jobTitle = "";
+  let companyName = "";
+
+  const [first = "", second = ""] = parts;
+  // Company first is as common as title first, so look for a job title word
+  if (!TITLE_KEYWORDS.test(first) && TITLE_KEYWORDS.test(second)) {
+    jobTitle = second;
+    companyName = first;
+  } else {
+    jobTitle = first;
+    companyName = second;
+  }
+
+  if (!jobTitle && !companyName) return null;
+
+  return {
+    companyName,
+    jobTitle,
+    startDate: dates.startDate,
+    endDate: dates.current ? null : dates.endDate,
+    currentlyWorking: dates.current,
+  };
+}
+
+function parseExperienceSection(lines: string[]): ParsedExperience[] {
+  const entries: ParsedExperience[] = [];
+  const used = new Set<number>();
+
+  lines.forEach((line, index) => {
+    const dates = readDates(line, false);
+    if (!dates || entries.length >= MAX_ENTRIES) return;
+
+    // Title and company are on the date line or the lines just around it
+    const header: string[] = [];
+    for (let back = index - 1; back >= 0 && header.length < 2; back--) {
+      const previous = lines[back];
+      if (used.has(back) || readDates(previous, false)) break;
+      if (BULLET.test(previous) || previous.length > MAX_HEADER_LENGTH) break;
+      header.unshift(previous);
+      used.add(back);
+    }
+    header.push(...splitParts(dates.rest));
+    const next = lines[index + 1];
+    if (
+      header.length < 2 &&
+      next &&
+      !BULLET.test(next) &&
+      next.length <= MAX_HEADER_LENGTH &&
+      !readDates(next, false)
+    ) {
+      header.push(next);
+      used.add(index + 1);
+    }
+    used.add(index);
+
+    const parts = header.flatMap((part) =>
+      header.length === 1 ? splitParts(part) : [cleanPart(part)]
+    );
+    const entry = toExperience(parts.filter(Boolean), dates);
+    if (entry) entries.push(entry);
+  });
+
+  return entries;
+}
+
+function parseEducationSection(lines: string[]): ParsedEducation[] {
+  const entries: ParsedEducation[] = [];
+  let current: ParsedEducation | null = null;
+
+  const start = () => {
+    if (current && (current.institution || current.degree)) {
+      entries.push(current);
+    }
+    current = {
+      institution: "",
+      degree: null,
+      fieldOfStudy: null,
+      startDate: null,
+      endDate: null,
+      isCurrent: false,
+    };
+    return current;
+  };
+
+  lines.forEach((line) => {
+    if (BULLET.test(line) || entries.length >= MAX_ENTRIES) return;
+
+    const dates = readDates(line, true);
+    const parts = splitParts(dates ? dates.rest : line);
+    let entry: ParsedEducation = current || start();
+
+    parts.forEach((part) => {
+      if (INSTITUTION_KEYWORDS.test(part) && !DEGREE_KEYWORDS.test(part)) {
+        if (entry.institution) entry = start();
+        entry.institution = part;
+      } else if (DEGREE_KEYWORDS.test(part)) {
+        if (entry.degree) entry = start();
+        // "Bachelor of Science in Physics" keeps the field separately
+        const field = /^(.+?)\s+in\s+(.+)$/i.exec(part);
+        entry.degree = field ? field[1] : part;
+        if (field) entry.fieldOfStudy = field[2];
+      } else if (entry.degree && !entry.fieldOfStudy && part.length <= 60) {
+        entry.fieldOfStudy = part;
+      }
+    });
+
+    if (dates) {
+      entry.startDate = entry.startDate || dates.startDate;
+      entry.endDate = dates.endDate;
+      entry.isCurrent = dates.current;
+    }
+  });
+  start();
+
+  return entries.slice(0, MAX_ENTRIES);
+}
+
+export function parseResumeText(text: string): ParsedResume {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const sections = splitSections(lines);
+
+  return {
+    experience: parseExperienceSection(sections.experience),
+    education: parseEducationSection(sections.education),
+  };
+}
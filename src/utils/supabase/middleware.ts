@@ -45,7 +45,11 @@ export async function updateSession(request: NextRequest) {
     !request.nextUrl.pathname.startsWith("/register") &&
     !request.nextUrl.pathname.startsWith("/reset-password") &&
     !request.nextUrl.pathname.startsWith("/confirm-email") &&
-    !request.nextUrl.pathname.startsWith("/forgot-password")
+    !request.nextUrl.pathname.startsWith("/forgot-password") &&
+    // Public careers pages for job seekers
+    !request.nextUrl.pathname.startsWith("/careers") &&
+    // Scheduled jobs authenticate with CRON_SECRET instead
+    !request.nextUrl.pathname.startsWith("/cron")
   ) {
     // no user, potentially respond by redirecting the user to the login page
     const url = request.nextUrl.clone();
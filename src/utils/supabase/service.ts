@@ -0,0 +1,13 @@
+import { Database } from "@/types/supabase";
+import { createClient } from "@supabase/supabase-js";
+
+// Bypasses row level security, for scheduled jobs that run without a
+// signed-in user. Needs SUPABASE_SERVICE_ROLE_KEY; never use it from code
+// that reaches the browser.
+export function createServiceClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+}
@@ -0,0 +1,216 @@
+import type { CandidateFilters } from "@/store/features/candidatesSlice";
+import type { JobFilters } from "@/store/features/jobSlice";
+
+// Query string <-> filter state for the candidates and jobs lists, so the
+// current search, filters, sort and page survive reloads, can be shared as
+// links and are restored by the browser's back and forward buttons.
+// Multi-value filters use repeated keys (?status=a&status=b) because values
+// such as company names may themselves contain commas.
+
+type ReadableParams = Pick<URLSearchParams, "get" | "getAll">;
+
+type CandidateSortField = NonNullable<CandidateFilters["sortBy"]>;
+
+const CANDIDATE_SORT_FIELDS: CandidateSortField[] = [
+  "name",
+  "application_status",
+  "experience_years",
+  "company_name",
+  "applied_date",
+  "created_at",
+  "updated_at",
+  "current_ctc",
+  "expected_ctc",
+  "fit_score",
+  "relevance",
+];
+
+export const JOB_SORT_OPTIONS = ["recent", "az", "za"] as const;
+export type JobSortOption = (typeof JOB_SORT_OPTIONS)[number];
+
+// Upper bounds of the range sliders in the jobs filters modal
+const JOB_SALARY_RANGE_MAX = 5000000;
+const JOB_EXPERIENCE_RANGE_MAX = 20;
+
+const readString = (params: ReadableParams, key: string) =>
+  params.get(key)?.trim() || undefined;
+
+const readList = (params: ReadableParams, key: string) => {
+  const values = params
+    .getAll(key)
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+};
+
+const readNumber = (params: ReadableParams, key: string) => {
+  const value = params.get(key);
+  if (value === null || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const readPage = (params: ReadableParams) => {
+  const page = Math.floor(readNumber(params, "page") || 1);
+  return page > 1 ? page : 1;
+};
+
+const appendList = (
+  query: URLSearchParams,
+  key: string,
+  value: string | string[] | undefined
+) => {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  values
+    .filter((item) => item && item !== "All")
+    .forEach((item) => query.append(key, item));
+};
+
+const appendNumber = (
+  query: URLSearchParams,
+  key: string,
+  value: number | undefined
+) => {
+  if (value !== undefined && value !== null && !Number.isNaN(value)) {
+    query.set(key, String(value));
+  }
+};
+
+// Every URL-controlled candidate filter, so applying the parsed result also
+// clears filters that are no longer in the URL. jobId is left alone because
+// the job-scoped list does not sync with the URL.
+export function candidateFiltersFromParams(params: ReadableParams): {
+  filters: Partial<CandidateFilters>;
+  page: number;
+} {
+  const sortBy = readString(params, "sort") as CandidateSortField | undefined;
+  const searchTerm = readString(params, "q");
+  const validSort =
+    sortBy &&
+    CANDIDATE_SORT_FIELDS.includes(sortBy) &&
+    (sortBy !== "relevance" || !!searchTerm);
+
+  return {
+    filters: {
+      searchTerm,
+      candidateName: readString(params, "name"),
+      status: readList(params, "status"),
+      companyName: readList(params, "company"),
+      jobTitle: readList(params, "job"),
+      tags: readList(params, "tag"),
+      source: readList(params, "source"),
+      minExperience: readNumber(params, "minExp"),
+      maxExperience: readNumber(params, "maxExp"),
+      dateFrom: readString(params, "from"),
+      dateTo: readString(params, "to"),
+      sortBy: validSort ? sortBy : "applied_date",
+      sortOrder: params.get("order") === "asc" ? "asc" : "desc",
+    },
+    page: readPage(params),
+  };
+}
+
+// Default values (newest applications first, page 1) are left out so the
+// unfiltered list stays at a clean URL
+export function candidateFiltersToQuery(
+  filters: Partial<CandidateFilters>,
+  page = 1
+): string {
+  const query = new URLSearchParams();
+  if (filters.searchTerm?.trim()) query.set("q", filters.searchTerm.trim());
+  if (filters.candidateName?.trim()) {
+    query.set("name", filters.candidateName.trim());
+  }
+  appendList(query, "status", filters.status);
+  appendList(query, "company", filters.companyName);
+  appendList(query, "job", filters.jobTitle);
+  appendList(query, "tag", filters.tags);
+  appendList(query, "source", filters.source);
+  appendNumber(query, "minExp", filters.minExperience);
+  appendNumber(query, "maxExp", filters.maxExperience);
+  if (filters.dateFrom) query.set("from", filters.dateFrom);
+  if (filters.dateTo) query.set("to", filters.dateTo);
+
+  const sortBy =
+    filters.sortBy === "relevance" && !filters.searchTerm?.trim()
+      ? "applied_date"
+      : filters.sortBy || "applied_date";
+  const sortOrder = filters.sortOrder || "desc";
+  if (sortBy !== "applied_date" || sortOrder !== "desc") {
+    query.set("sort", sortBy);
+    query.set("order", sortOrder);
+  }
+  if (page > 1) query.set("page", String(page));
+  return query.toString();
+}
+
+export function jobFiltersFromParams(params: ReadableParams): {
+  filters: JobFilters;
+  sort: JobSortOption;
+  page: number;
+} {
+  const filters: JobFilters = {};
+  const searchTerm = readString(params, "q");
+  if (searchTerm) filters.searchTerm = searchTerm;
+
+  const status = readList(params, "status");
+  if (status) filters.status = status;
+  const location = readList(params, "location");
+  if (location) filters.location = location;
+  const company = readList(params, "company");
+  if (company) filters.company = company;
+  const jobType = readList(params, "type");
+  if (jobType) filters.jobType = jobType;
+
+  const experienceLevel = readString(params, "level");
+  if (experienceLevel) filters.experienceLevel = experienceLevel;
+
+  const salaryMin = readNumber(params, "salaryMin");
+  const salaryMax = readNumber(params, "salaryMax");
+  if (salaryMin !== undefined || salaryMax !== undefined) {
+    filters.salaryRange = {
+      min: salaryMin ?? 0,
+      max: salaryMax ?? JOB_SALARY_RANGE_MAX,
+    };
+  }
+  const experienceMin = readNumber(params, "expMin");
+  const experienceMax = readNumber(params, "expMax");
+  if (experienceMin !== undefined || experienceMax !== undefined) {
+    filters.experienceRange = {
+      min: experienceMin ?? 0,
+      max: experienceMax ?? JOB_EXPERIENCE_RANGE_MAX,
+    };
+  }
+
+  const sort = params.get("sort") as JobSortOption | null;
+  return {
+    filters,
+    sort: sort && JOB_SORT_OPTIONS.includes(sort) ? sort : "recent",
+    page: readPage(params),
+  };
+}
+
+export function jobFiltersToQuery(
+  filters: JobFilters,
+  sort: JobSortOption = "recent",
+  page = 1
+): string {
+  const query = new URLSearchParams();
+  if (filters.searchTerm?.trim()) query.set("q", filters.searchTerm.trim());
+  appendList(query, "status", filters.status);
+  appendList(query, "location", filters.location);
+  appendList(query, "company", filters.company);
+  appendList(query, "type", filters.jobType);
+  if (filters.experienceLevel) query.set("level", filters.experienceLevel);
+  if (filters.salaryRange) {
+    appendNumber(query, "salaryMin", filters.salaryRange.min);
+    appendNumber(query, "salaryMax", filters.salaryRange.max);
+  }
+  if (filters.experienceRange) {
+    appendNumber(query, "expMin", filters.experienceRange.min);
+    appendNumber(query, "expMax", filters.experienceRange.max);
+  }
+  if (sort !== "recent") query.set("sort", sort);
+  if (page > 1) query.set("page", String(page));
+  return query.toString();
+}
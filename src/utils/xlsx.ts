@@ -0,0 +1,228 @@
+import zlib from "zlib";
+import { crc32, dosDateTime } from "./zip";
+
+// Minimal streaming XLSX (Office Open XML) writer. The workbook has a single
+// sheet written with inline strings, so rows can be emitted as they are read
+// without holding the whole sheet in memory. The ZIP container is written
+// by hand: the sheet entry is deflated chunk by chunk and its size and CRC
+// follow in a data descriptor.
+
+export type XlsxCell = string | number | null;
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SHEET_PATH = "xl/worksheets/sheet1.xml";
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+const cleanSheetName = (name: string) =>
+  name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet1";
+
+const cellXml = (value: XlsxCell, style: number) => {
+  const styleAttr = style ? ` s="${style}"` : "";
+  if (value === null || value === "") {
+    return `<c${styleAttr}/>`;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c${styleAttr}><v>${value}</v></c>`;
+  }
+  return `<c${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    String(value)
+  )}</t></is></c>`;
+};
+
+const staticParts = (sheetName: string): [string, string][] => [
+  [
+    "[Content_Types].xml",
+    `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/${SHEET_PATH}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+  ],
+  [
+    "_rels/.rels",
+    `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  ],
+  [
+    "xl/workbook.xml",
+    `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets><sheet name="${escapeXml(
+      cleanSheetName(sheetName)
+    )}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`,
+  ],
+  [
+    // Style 1 is bold, used for the header row
+    "xl/styles.xml",
+    `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NS}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+  ],
+];
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  streamed: boolean;
+}
+
+// Returns the chunks of an XLSX file in order: start() first, then
+// addRows() any number of times, then finish()
+export function createXlsxWriter(sheetName: string, header: string[]) {
+  const { time, date } = dosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  let rowNumber = 0;
+  let sheetCrc = 0;
+  let sheetSize = 0;
+  let sheetCompressedSize = 0;
+
+  const localHeader = (entry: Omit<ZipEntry, "offset">) => {
+    const buffer = Buffer.alloc(30);
+    buffer.writeUInt32LE(0x04034b50, 0);
+    buffer.writeUInt16LE(20, 4); // Version needed to extract
+    // Bit 3: sizes follow in a data descriptor. Bit 11: UTF-8 names.
+    buffer.writeUInt16LE(entry.streamed ? 0x0808 : 0x0800, 6);
+    buffer.writeUInt16LE(8, 8); // Deflate
+    buffer.writeUInt16LE(time, 10);
+    buffer.writeUInt16LE(date, 12);
+    buffer.writeUInt32LE(entry.crc, 14);
+    buffer.writeUInt32LE(entry.compressedSize, 18);
+    buffer.writeUInt32LE(entry.size, 22);
+    buffer.writeUInt16LE(entry.name.length, 26);
+    buffer.writeUInt16LE(0, 28);
+    return Buffer.concat([buffer, entry.name]);
+  };
+
+  const emit = (chunks: Buffer[]) => {
+    const output = Buffer.concat(chunks);
+    offset += output.length;
+    return output;
+  };
+
+  const sheetChunk = (xml: string, final: boolean) => {
+    const data = Buffer.from(xml, "utf8");
+    // Sync-flushed segments can be concatenated into one deflate stream;
+    // only the last one is finished
+    const compressed = zlib.deflateRawSync(
+      data,
+      final ? {} : { finishFlush: zlib.constants.Z_SYNC_FLUSH }
+    );
+    sheetCrc = crc32(data, sheetCrc);
+    sheetSize += data.length;
+    sheetCompressedSize += compressed.length;
+    return compressed;
+  };
+
+  const rowsXml = (rows: XlsxCell[][], style: number) =>
+    rows
+      .map((row) => {
+        rowNumber++;
+        return `<row r="${rowNumber}">${row
+          .map((value) => cellXml(value, style))
+          .join("")}</row>`;
+      })
+      .join("");
+
+  const start = () => {
+    const chunks: Buffer[] = [];
+
+    staticParts(sheetName).forEach(([path, xml]) => {
+      const data = Buffer.from(xml, "utf8");
+      const compressed = zlib.deflateRawSync(data);
+      const entry = {
+        name: Buffer.from(path, "utf8"),
+        crc: crc32(data),
+        compressedSize: compressed.length,
+        size: data.length,
+        streamed: false,
+      };
+      entries.push({ ...entry, offset: offset + Buffer.concat(chunks).length });
+      chunks.push(localHeader(entry), compressed);
+    });
+
+    const sheetEntry = {
+      name: Buffer.from(SHEET_PATH, "utf8"),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      streamed: true,
+    };
+    entries.push({ ...sheetEntry, offset: offset + Buffer.concat(chunks).length });
+    chunks.push(
+      localHeader(sheetEntry),
+      sheetChunk(
+        `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}"><sheetData>${rowsXml(
+          [header],
+          1
+        )}`,
+        false
+      )
+    );
+
+    return emit(chunks);
+  };
+
+  const addRows = (rows: XlsxCell[][]) =>
+    emit([sheetChunk(rowsXml(rows, 0), false)]);
+
+  const finish = () => {
+    const chunks = [sheetChunk("</sheetData></worksheet>", true)];
+
+    const sheetEntry = entries[entries.length - 1];
+    sheetEntry.crc = sheetCrc;
+    sheetEntry.size = sheetSize;
+    sheetEntry.compressedSize = sheetCompressedSize;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(sheetCrc, 4);
+    descriptor.writeUInt32LE(sheetCompressedSize, 8);
+    descriptor.writeUInt32LE(sheetSize, 12);
+    chunks.push(descriptor);
+
+    const directoryOffset = offset + Buffer.concat(chunks).length;
+    const directory = entries.map((entry) => {
+      const buffer = Buffer.alloc(46);
+      buffer.writeUInt32LE(0x02014b50, 0);
+      buffer.writeUInt16LE(20, 4); // Version made by
+      buffer.writeUInt16LE(20, 6); // Version needed to extract
+      buffer.writeUInt16LE(entry.streamed ? 0x0808 : 0x0800, 8);
+      buffer.writeUInt16LE(8, 10);
+      buffer.writeUInt16LE(time, 12);
+      buffer.writeUInt16LE(date, 14);
+      buffer.writeUInt32LE(entry.crc, 16);
+      buffer.writeUInt32LE(entry.compressedSize, 20);
+      buffer.writeUInt32LE(entry.size, 24);
+      buffer.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number and attributes stay zero
+      buffer.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([buffer, entry.name]);
+    });
+    const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directorySize, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+
+    return emit([...chunks, ...directory, end]);
+  };
+
+  return { start, addRows, finish };
+}
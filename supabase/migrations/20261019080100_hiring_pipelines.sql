@@ -0,0 +1,85 @@
+-- Each organization's hiring pipeline. An organization without a row uses
+-- the built-in stages; save_hiring_pipeline creates the row on first save.
+create table if not exists public.hiring_pipelines (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null unique references public.organizations (id) on delete cascade,
+  name text not null default 'Hiring pipeline',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.pipeline_stages (
+  id uuid primary key default gen_random_uuid(),
+  pipeline_id uuid not null references public.hiring_pipelines (id) on delete cascade,
+  stage_key text not null,
+  label text not null,
+  position integer not null,
+  category text not null default 'active'
+    check (category in ('active', 'terminal_positive', 'terminal_negative')),
+  color text,
+  -- Null allows a move to any stage
+  allowed_transitions text[],
+  created_at timestamptz not null default now(),
+  unique (pipeline_id, stage_key)
+);
+
+create index if not exists pipeline_stages_pipeline_id_idx
+  on public.pipeline_stages (pipeline_id, position);
+
+alter table public.hiring_pipelines enable row level security;
+alter table public.pipeline_stages enable row level security;
+
+drop policy if exists "Members can read the hiring pipeline"
+  on public.hiring_pipelines;
+create policy "Members can read the hiring pipeline"
+  on public.hiring_pipelines
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) is not null);
+
+drop policy if exists "Admins can change the hiring pipeline"
+  on public.hiring_pipelines;
+create policy "Admins can change the hiring pipeline"
+  on public.hiring_pipelines
+  for all
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin')
+  with check (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin');
+
+drop policy if exists "Members can read pipeline stages"
+  on public.pipeline_stages;
+create policy "Members can read pipeline stages"
+  on public.pipeline_stages
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.hiring_pipelines hp
+      where hp.id = pipeline_id
+        and public.get_user_role_in_org(auth.uid(), hp.organization_id) is not null
+    )
+  );
+
+drop policy if exists "Admins can change pipeline stages"
+  on public.pipeline_stages;
+create policy "Admins can change pipeline stages"
+  on public.pipeline_stages
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.hiring_pipelines hp
+      where hp.id = pipeline_id
+        and public.get_user_role_in_org(auth.uid(), hp.organization_id) = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.hiring_pipelines hp
+      where hp.id = pipeline_id
+        and public.get_user_role_in_org(auth.uid(), hp.organization_id) = 'admin'
+    )
+  );
@@ -0,0 +1,3 @@
+-- Manual order of cards within a board column; null until a card is dragged
+alter table public.job_applications
+  add column if not exists board_position integer;
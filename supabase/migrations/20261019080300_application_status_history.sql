@@ -0,0 +1,83 @@
+-- Job access as the app applies it: admin and HR see every job of their
+-- organization, TA only jobs granted to them in job_access_control. Used by
+-- the row level security of tables that hang off an application.
+create or replace function public.can_access_job(p_job_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from jobs j
+    where j.id = p_job_id
+      and (
+        get_user_role_in_org(auth.uid(), j.organization_id) in ('admin', 'hr')
+        or (
+          get_user_role_in_org(auth.uid(), j.organization_id) is not null
+          and exists (
+            select 1
+            from job_access_control jac
+            where jac.job_id = j.id
+              and jac.user_id = auth.uid()
+              and jac.access_type = 'granted'
+          )
+        )
+      )
+  );
+$$;
+
+create or replace function public.can_access_application(p_application_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from job_applications ja
+    where ja.id = p_application_id
+      and public.can_access_job(ja.job_id)
+  );
+$$;
+
+grant execute on function public.can_access_job(uuid) to authenticated;
+grant execute on function public.can_access_application(uuid) to authenticated;
+
+-- Every stage change of an application, oldest first. Rows are only ever
+-- added, through change_application_status or when an application is created.
+create table if not exists public.application_status_history (
+  id uuid primary key default gen_random_uuid(),
+  application_id uuid not null references public.job_applications (id) on delete cascade,
+  old_status text,
+  new_status text not null,
+  changed_by uuid references public.user_profiles (id) on delete set null,
+  changed_at timestamptz not null default now(),
+  reason text
+);
+
+create index if not exists application_status_history_application_id_idx
+  on public.application_status_history (application_id, changed_at);
+
+alter table public.application_status_history enable row level security;
+
+drop policy if exists "Members can read the history of applications they can access"
+  on public.application_status_history;
+create policy "Members can read the history of applications they can access"
+  on public.application_status_history
+  for select
+  to authenticated
+  using (public.can_access_application(application_id));
+
+drop policy if exists "Members can record changes to applications they can access"
+  on public.application_status_history;
+create policy "Members can record changes to applications they can access"
+  on public.application_status_history
+  for insert
+  to authenticated
+  with check (
+    public.can_access_application(application_id)
+    and changed_by is not distinct from auth.uid()
+  );
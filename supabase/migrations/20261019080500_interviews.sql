@@ -0,0 +1,138 @@
+-- Interviews scheduled on an application and the members sitting on them.
+-- ics_sequence goes up with every change so calendars replace the invite.
+create table if not exists public.interviews (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  application_id uuid not null references public.job_applications (id) on delete cascade,
+  round_name text not null,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  time_zone text not null default 'UTC',
+  location text,
+  meeting_link text,
+  notes text,
+  outcome text not null default 'pending'
+    check (outcome in ('pending', 'passed', 'failed', 'no_show', 'cancelled')),
+  ics_sequence integer not null default 0,
+  created_by uuid references public.user_profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_time > start_time)
+);
+
+create index if not exists interviews_application_id_idx
+  on public.interviews (application_id, start_time);
+
+create table if not exists public.interview_interviewers (
+  interview_id uuid not null references public.interviews (id) on delete cascade,
+  user_id uuid not null references public.user_profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (interview_id, user_id)
+);
+
+create index if not exists interview_interviewers_user_id_idx
+  on public.interview_interviewers (user_id);
+
+-- The two tables' policies refer to each other, so the lookups run as
+-- definer to keep row level security from recursing
+create or replace function public.can_access_interview(p_interview_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from interviews i
+    where i.id = p_interview_id
+      and (
+        public.can_access_application(i.application_id)
+        or exists (
+          select 1
+          from interview_interviewers ii
+          where ii.interview_id = i.id
+            and ii.user_id = auth.uid()
+        )
+      )
+  );
+$$;
+
+create or replace function public.can_manage_interview(p_interview_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from interviews i
+    where i.id = p_interview_id
+      and public.can_access_application(i.application_id)
+  );
+$$;
+
+grant execute on function public.can_access_interview(uuid) to authenticated;
+grant execute on function public.can_manage_interview(uuid) to authenticated;
+
+alter table public.interviews enable row level security;
+alter table public.interview_interviewers enable row level security;
+
+drop policy if exists "Members can read interviews they can access or sit on"
+  on public.interviews;
+create policy "Members can read interviews they can access or sit on"
+  on public.interviews
+  for select
+  to authenticated
+  using (public.can_access_interview(id));
+
+drop policy if exists "Members can schedule interviews on applications they can access"
+  on public.interviews;
+create policy "Members can schedule interviews on applications they can access"
+  on public.interviews
+  for insert
+  to authenticated
+  with check (
+    public.can_access_application(application_id)
+    and exists (
+      select 1
+      from public.job_applications ja
+      join public.jobs j on j.id = ja.job_id
+      where ja.id = application_id
+        and j.organization_id = interviews.organization_id
+    )
+  );
+
+drop policy if exists "Members can change interviews on applications they can access"
+  on public.interviews;
+create policy "Members can change interviews on applications they can access"
+  on public.interviews
+  for update
+  to authenticated
+  using (public.can_access_application(application_id))
+  with check (public.can_access_application(application_id));
+
+drop policy if exists "Members can read interviewers of interviews they can see"
+  on public.interview_interviewers;
+create policy "Members can read interviewers of interviews they can see"
+  on public.interview_interviewers
+  for select
+  to authenticated
+  using (user_id = auth.uid() or public.can_access_interview(interview_id));
+
+drop policy if exists "Members can add interviewers to interviews they manage"
+  on public.interview_interviewers;
+create policy "Members can add interviewers to interviews they manage"
+  on public.interview_interviewers
+  for insert
+  to authenticated
+  with check (public.can_manage_interview(interview_id));
+
+drop policy if exists "Members can remove interviewers from interviews they manage"
+  on public.interview_interviewers;
+create policy "Members can remove interviewers from interviews they manage"
+  on public.interview_interviewers
+  for delete
+  to authenticated
+  using (public.can_manage_interview(interview_id));
@@ -0,0 +1,95 @@
+-- Per-job rubric of competencies that interviewers rate
+create table if not exists public.job_scorecard_competencies (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  name text not null,
+  description text,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists job_scorecard_competencies_job_id_idx
+  on public.job_scorecard_competencies (job_id, position);
+
+-- One interviewer's ratings of an application. ratings holds a rating per
+-- competency, keyed by competency name.
+create table if not exists public.interview_scorecards (
+  id uuid primary key default gen_random_uuid(),
+  application_id uuid not null references public.job_applications (id) on delete cascade,
+  interview_id uuid references public.interviews (id) on delete set null,
+  interviewer_id uuid not null references public.user_profiles (id) on delete cascade,
+  ratings jsonb not null default '{}'::jsonb,
+  recommendation text not null
+    check (recommendation in ('strong_no_hire', 'no_hire', 'hire', 'strong_hire')),
+  notes text,
+  submitted_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists interview_scorecards_application_id_idx
+  on public.interview_scorecards (application_id, submitted_at);
+
+alter table public.job_scorecard_competencies enable row level security;
+alter table public.interview_scorecards enable row level security;
+
+drop policy if exists "Members can read the rubric of jobs they can access"
+  on public.job_scorecard_competencies;
+create policy "Members can read the rubric of jobs they can access"
+  on public.job_scorecard_competencies
+  for select
+  to authenticated
+  using (public.can_access_job(job_id));
+
+drop policy if exists "Admins and HR can change rubrics"
+  on public.job_scorecard_competencies;
+create policy "Admins and HR can change rubrics"
+  on public.job_scorecard_competencies
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.jobs j
+      where j.id = job_id
+        and public.get_user_role_in_org(auth.uid(), j.organization_id) in ('admin', 'hr')
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.jobs j
+      where j.id = job_id
+        and public.get_user_role_in_org(auth.uid(), j.organization_id) in ('admin', 'hr')
+    )
+  );
+
+drop policy if exists "Members can read scorecards of applications they can access"
+  on public.interview_scorecards;
+create policy "Members can read scorecards of applications they can access"
+  on public.interview_scorecards
+  for select
+  to authenticated
+  using (public.can_access_application(application_id));
+
+drop policy if exists "Interviewers can submit their own scorecards"
+  on public.interview_scorecards;
+create policy "Interviewers can submit their own scorecards"
+  on public.interview_scorecards
+  for insert
+  to authenticated
+  with check (
+    interviewer_id = auth.uid()
+    and public.can_access_application(application_id)
+  );
+
+drop policy if exists "Interviewers can change their own scorecards"
+  on public.interview_scorecards;
+create policy "Interviewers can change their own scorecards"
+  on public.interview_scorecards
+  for update
+  to authenticated
+  using (interviewer_id = auth.uid())
+  with check (
+    interviewer_id = auth.uid()
+    and public.can_access_application(application_id)
+  );
@@ -0,0 +1,140 @@
+-- Whether the signed-in user can open a candidate in an organization: the
+-- candidate applied to one of its jobs that the user can access
+create or replace function public.can_access_candidate(
+  p_candidate_id uuid,
+  p_organization_id uuid
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from job_applications ja
+    join jobs j on j.id = ja.job_id
+    where ja.candidate_id = p_candidate_id
+      and j.organization_id = p_organization_id
+      and public.can_access_job(j.id)
+  );
+$$;
+
+grant execute on function public.can_access_candidate(uuid, uuid) to authenticated;
+
+-- Internal notes on a candidate, or on one of their applications when
+-- application_id is set. body is the editor state, body_text its plain text.
+-- Deleted notes keep their row so replies stay in place.
+create table if not exists public.candidate_notes (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  candidate_id uuid not null references public.candidates_profiles (id) on delete cascade,
+  application_id uuid references public.job_applications (id) on delete cascade,
+  parent_id uuid references public.candidate_notes (id) on delete cascade,
+  author_id uuid not null references public.user_profiles (id) on delete cascade,
+  body jsonb not null,
+  body_text text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  edited_at timestamptz,
+  deleted_at timestamptz
+);
+
+create index if not exists candidate_notes_candidate_id_idx
+  on public.candidate_notes (organization_id, candidate_id, created_at);
+
+create index if not exists candidate_notes_application_id_idx
+  on public.candidate_notes (application_id);
+
+-- Mentions of a member in a note
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references public.user_profiles (id) on delete cascade,
+  actor_id uuid references public.user_profiles (id) on delete set null,
+  type text not null,
+  note_id uuid references public.candidate_notes (id) on delete cascade,
+  application_id uuid references public.job_applications (id) on delete cascade,
+  candidate_id uuid references public.candidates_profiles (id) on delete cascade,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_idx
+  on public.notifications (user_id, organization_id, created_at desc);
+
+alter table public.candidate_notes enable row level security;
+alter table public.notifications enable row level security;
+
+drop policy if exists "Members can read notes on candidates they can access"
+  on public.candidate_notes;
+create policy "Members can read notes on candidates they can access"
+  on public.candidate_notes
+  for select
+  to authenticated
+  using (
+    case
+      when application_id is null then
+        public.can_access_candidate(candidate_id, organization_id)
+      else public.can_access_application(application_id)
+    end
+  );
+
+drop policy if exists "Members can write notes on candidates they can access"
+  on public.candidate_notes;
+create policy "Members can write notes on candidates they can access"
+  on public.candidate_notes
+  for insert
+  to authenticated
+  with check (
+    author_id = auth.uid()
+    and case
+      when application_id is null then
+        public.can_access_candidate(candidate_id, organization_id)
+      else public.can_access_application(application_id)
+    end
+  );
+
+drop policy if exists "Authors and admins can change notes"
+  on public.candidate_notes;
+create policy "Authors and admins can change notes"
+  on public.candidate_notes
+  for update
+  to authenticated
+  using (
+    author_id = auth.uid()
+    or public.get_user_role_in_org(auth.uid(), organization_id) = 'admin'
+  )
+  with check (
+    author_id = auth.uid()
+    or public.get_user_role_in_org(auth.uid(), organization_id) = 'admin'
+  );
+
+drop policy if exists "Members can read their own notifications"
+  on public.notifications;
+create policy "Members can read their own notifications"
+  on public.notifications
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Members can mark their own notifications read"
+  on public.notifications;
+create policy "Members can mark their own notifications read"
+  on public.notifications
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Members can notify other members"
+  on public.notifications;
+create policy "Members can notify other members"
+  on public.notifications
+  for insert
+  to authenticated
+  with check (
+    actor_id = auth.uid()
+    and public.get_user_role_in_org(auth.uid(), organization_id) is not null
+    and public.get_user_role_in_org(user_id, organization_id) is not null
+  );
@@ -0,0 +1,94 @@
+-- Organization-wide labels for candidates
+create table if not exists public.candidate_tags (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  name text not null,
+  color text not null default 'neutral',
+  created_by uuid references public.user_profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (organization_id, name)
+);
+
+create table if not exists public.candidate_tag_assignments (
+  candidate_id uuid not null references public.candidates_profiles (id) on delete cascade,
+  tag_id uuid not null references public.candidate_tags (id) on delete cascade,
+  assigned_by uuid references public.user_profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (candidate_id, tag_id)
+);
+
+create index if not exists candidate_tag_assignments_tag_id_idx
+  on public.candidate_tag_assignments (tag_id);
+
+-- Organization of a tag, for the assignment policies
+create or replace function public.candidate_tag_organization(p_tag_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select organization_id from candidate_tags where id = p_tag_id;
+$$;
+
+grant execute on function public.candidate_tag_organization(uuid) to authenticated;
+
+alter table public.candidate_tags enable row level security;
+alter table public.candidate_tag_assignments enable row level security;
+
+drop policy if exists "Members can read tags"
+  on public.candidate_tags;
+create policy "Members can read tags"
+  on public.candidate_tags
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) is not null);
+
+drop policy if exists "Admins and HR can manage tags"
+  on public.candidate_tags;
+create policy "Admins and HR can manage tags"
+  on public.candidate_tags
+  for all
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) in ('admin', 'hr'))
+  with check (public.get_user_role_in_org(auth.uid(), organization_id) in ('admin', 'hr'));
+
+drop policy if exists "Members can read tags on candidates they can access"
+  on public.candidate_tag_assignments;
+create policy "Members can read tags on candidates they can access"
+  on public.candidate_tag_assignments
+  for select
+  to authenticated
+  using (
+    public.can_access_candidate(
+      candidate_id,
+      public.candidate_tag_organization(tag_id)
+    )
+  );
+
+drop policy if exists "Members can tag candidates they can access"
+  on public.candidate_tag_assignments;
+create policy "Members can tag candidates they can access"
+  on public.candidate_tag_assignments
+  for insert
+  to authenticated
+  with check (
+    assigned_by is not distinct from auth.uid()
+    and public.can_access_candidate(
+      candidate_id,
+      public.candidate_tag_organization(tag_id)
+    )
+  );
+
+drop policy if exists "Members can untag candidates they can access"
+  on public.candidate_tag_assignments;
+create policy "Members can untag candidates they can access"
+  on public.candidate_tag_assignments
+  for delete
+  to authenticated
+  using (
+    public.can_access_candidate(
+      candidate_id,
+      public.candidate_tag_organization(tag_id)
+    )
+  );
@@ -0,0 +1,59 @@
+-- Pairs an organization reviewed and marked as different people
+create table if not exists public.candidate_duplicate_dismissals (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  candidate_id uuid not null references public.candidates_profiles (id) on delete cascade,
+  other_candidate_id uuid not null references public.candidates_profiles (id) on delete cascade,
+  dismissed_by uuid references public.user_profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (organization_id, candidate_id, other_candidate_id)
+);
+
+-- Audit trail of merged profiles. merged_profile is a copy of the profile
+-- that was folded in and deleted; merged_candidate_id has no foreign key
+-- for that reason.
+create table if not exists public.candidate_merges (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  surviving_candidate_id uuid not null references public.candidates_profiles (id) on delete cascade,
+  merged_candidate_id uuid not null,
+  merged_profile jsonb not null default '{}'::jsonb,
+  moved_application_ids uuid[] not null default '{}',
+  match_reasons text[] not null default '{}',
+  merged_by uuid not null references public.user_profiles (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists candidate_merges_organization_id_idx
+  on public.candidate_merges (organization_id, created_at desc);
+
+alter table public.candidate_duplicate_dismissals enable row level security;
+alter table public.candidate_merges enable row level security;
+
+drop policy if exists "Admins and HR can read dismissed duplicates"
+  on public.candidate_duplicate_dismissals;
+create policy "Admins and HR can read dismissed duplicates"
+  on public.candidate_duplicate_dismissals
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) in ('admin', 'hr'));
+
+drop policy if exists "Admins and HR can dismiss duplicates"
+  on public.candidate_duplicate_dismissals;
+create policy "Admins and HR can dismiss duplicates"
+  on public.candidate_duplicate_dismissals
+  for insert
+  to authenticated
+  with check (
+    dismissed_by is not distinct from auth.uid()
+    and public.get_user_role_in_org(auth.uid(), organization_id) in ('admin', 'hr')
+  );
+
+-- Rows are written by merge_candidate_profiles only
+drop policy if exists "Admins can read merges"
+  on public.candidate_merges;
+create policy "Admins can read merges"
+  on public.candidate_merges
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin');
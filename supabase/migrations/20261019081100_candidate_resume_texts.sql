@@ -0,0 +1,55 @@
+-- Plain text of each candidate's resume for full-text search. resume_link is
+-- the file the text came from, so a replaced resume is indexed again. Files
+-- that cannot be read keep a row with the error so they are not retried.
+create table if not exists public.candidate_resume_texts (
+  candidate_id uuid primary key references public.candidates_profiles (id) on delete cascade,
+  resume_link text not null,
+  content text not null default '',
+  error text,
+  indexed_at timestamptz not null default now()
+);
+
+alter table public.candidate_resume_texts enable row level security;
+
+-- Resumes are shared with every organization the candidate applied to
+create or replace function public.can_access_candidate_resume(p_candidate_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from job_applications ja
+    where ja.candidate_id = p_candidate_id
+      and public.can_access_job(ja.job_id)
+  );
+$$;
+
+grant execute on function public.can_access_candidate_resume(uuid) to authenticated;
+
+drop policy if exists "Members can read resumes of candidates they can access"
+  on public.candidate_resume_texts;
+create policy "Members can read resumes of candidates they can access"
+  on public.candidate_resume_texts
+  for select
+  to authenticated
+  using (public.can_access_candidate_resume(candidate_id));
+
+drop policy if exists "Members can index resumes of candidates they can access"
+  on public.candidate_resume_texts;
+create policy "Members can index resumes of candidates they can access"
+  on public.candidate_resume_texts
+  for insert
+  to authenticated
+  with check (public.can_access_candidate_resume(candidate_id));
+
+drop policy if exists "Members can reindex resumes of candidates they can access"
+  on public.candidate_resume_texts;
+create policy "Members can reindex resumes of candidates they can access"
+  on public.candidate_resume_texts
+  for update
+  to authenticated
+  using (public.can_access_candidate_resume(candidate_id))
+  with check (public.can_access_candidate_resume(candidate_id));
@@ -0,0 +1,32 @@
+-- How much each fit score component counts in an organization. An
+-- organization without a row uses the defaults in application_fit_score.
+create table if not exists public.fit_score_weights (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null unique references public.organizations (id) on delete cascade,
+  experience_weight numeric not null default 4 check (experience_weight >= 0),
+  salary_weight numeric not null default 3 check (salary_weight >= 0),
+  notice_weight numeric not null default 2 check (notice_weight >= 0),
+  location_weight numeric not null default 1 check (location_weight >= 0),
+  updated_by uuid references public.user_profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.fit_score_weights enable row level security;
+
+drop policy if exists "Members can read fit score weights"
+  on public.fit_score_weights;
+create policy "Members can read fit score weights"
+  on public.fit_score_weights
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) is not null);
+
+drop policy if exists "Admins can change fit score weights"
+  on public.fit_score_weights;
+create policy "Admins can change fit score weights"
+  on public.fit_score_weights
+  for all
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin')
+  with check (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin');
@@ -0,0 +1,103 @@
+-- Named filter and column sets for the candidates list, private to their
+-- author or shared with the whole organization
+create table if not exists public.candidate_saved_views (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  created_by uuid not null references public.user_profiles (id) on delete cascade,
+  name text not null,
+  visibility text not null default 'private'
+    check (visibility in ('private', 'organization')),
+  filters jsonb not null default '{}'::jsonb,
+  columns jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists candidate_saved_views_organization_id_idx
+  on public.candidate_saved_views (organization_id, created_by);
+
+-- The view each member opens the candidates list with
+create table if not exists public.candidate_saved_view_defaults (
+  user_id uuid not null references public.user_profiles (id) on delete cascade,
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  view_id uuid not null references public.candidate_saved_views (id) on delete cascade,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, organization_id)
+);
+
+alter table public.candidate_saved_views enable row level security;
+alter table public.candidate_saved_view_defaults enable row level security;
+
+drop policy if exists "Members can read their own and shared views"
+  on public.candidate_saved_views;
+create policy "Members can read their own and shared views"
+  on public.candidate_saved_views
+  for select
+  to authenticated
+  using (
+    public.get_user_role_in_org(auth.uid(), organization_id) is not null
+    and (created_by = auth.uid() or visibility = 'organization')
+  );
+
+drop policy if exists "Members can save views"
+  on public.candidate_saved_views;
+create policy "Members can save views"
+  on public.candidate_saved_views
+  for insert
+  to authenticated
+  with check (
+    created_by = auth.uid()
+    and public.get_user_role_in_org(auth.uid(), organization_id) is not null
+  );
+
+drop policy if exists "Authors can change their views"
+  on public.candidate_saved_views;
+create policy "Authors can change their views"
+  on public.candidate_saved_views
+  for update
+  to authenticated
+  using (created_by = auth.uid())
+  with check (
+    created_by = auth.uid()
+    and public.get_user_role_in_org(auth.uid(), organization_id) is not null
+  );
+
+drop policy if exists "Authors and admins can delete views"
+  on public.candidate_saved_views;
+create policy "Authors and admins can delete views"
+  on public.candidate_saved_views
+  for delete
+  to authenticated
+  using (
+    created_by = auth.uid()
+    or (
+      visibility = 'organization'
+      and public.get_user_role_in_org(auth.uid(), organization_id) = 'admin'
+    )
+  );
+
+drop policy if exists "Members can read their default view"
+  on public.candidate_saved_view_defaults;
+create policy "Members can read their default view"
+  on public.candidate_saved_view_defaults
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- The default must be a view the member can open in the same organization
+drop policy if exists "Members can set their default view"
+  on public.candidate_saved_view_defaults;
+create policy "Members can set their default view"
+  on public.candidate_saved_view_defaults
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from public.candidate_saved_views v
+      where v.id = view_id
+        and v.organization_id = candidate_saved_view_defaults.organization_id
+    )
+  );
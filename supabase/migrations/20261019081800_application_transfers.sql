@@ -0,0 +1,15 @@
+-- Moves and copies between jobs are recorded in the status history.
+-- related_application_id links a copy to the application it came from, and
+-- the job columns keep the titles readable after either job is deleted.
+alter table public.application_status_history
+  add column if not exists transfer_type text
+    check (transfer_type in ('moved', 'copied_to', 'copied_from')),
+  add column if not exists related_application_id uuid
+    references public.job_applications (id) on delete set null,
+  add column if not exists from_job_id uuid
+    references public.jobs (id) on delete set null,
+  add column if not exists to_job_id uuid
+    references public.jobs (id) on delete set null;
+
+create index if not exists application_status_history_related_application_id_idx
+  on public.application_status_history (related_application_id);
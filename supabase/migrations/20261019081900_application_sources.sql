@@ -0,0 +1,22 @@
+-- Channel each application came through, for source-of-hire reporting.
+-- Applications from before sources were tracked keep a null source.
+alter table public.job_applications
+  add column if not exists source text,
+  add column if not exists source_detail text,
+  add column if not exists source_campaign text;
+
+alter table public.job_applications
+  drop constraint if exists job_applications_source_check;
+
+alter table public.job_applications
+  add constraint job_applications_source_check check (
+    source is null
+    or source in (
+      'job_board',
+      'referral',
+      'agency',
+      'sourced',
+      'careers_page',
+      'import'
+    )
+  );
@@ -0,0 +1,73 @@
+-- Set when a profile's personal details were removed on request or by the
+-- retention policy
+alter table public.candidates_profiles
+  add column if not exists anonymized_at timestamptz;
+
+-- Each organization's policy for anonymizing candidates with no recent
+-- activity. An organization without a row keeps candidates indefinitely.
+create table if not exists public.data_retention_policies (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null unique references public.organizations (id) on delete cascade,
+  enabled boolean not null default false,
+  retention_months integer not null default 24
+    check (retention_months between 1 and 120),
+  last_run_at timestamptz,
+  updated_by uuid references public.user_profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Log of exports, erasures and retention runs. performed_by is null for
+-- scheduled retention runs.
+create table if not exists public.privacy_requests (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  candidate_id uuid references public.candidates_profiles (id) on delete set null,
+  request_type text not null
+    check (request_type in ('export', 'erasure', 'retention')),
+  performed_by uuid references public.user_profiles (id) on delete set null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists privacy_requests_organization_id_idx
+  on public.privacy_requests (organization_id, created_at desc);
+
+alter table public.data_retention_policies enable row level security;
+alter table public.privacy_requests enable row level security;
+
+drop policy if exists "Members can read the retention policy"
+  on public.data_retention_policies;
+create policy "Members can read the retention policy"
+  on public.data_retention_policies
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) is not null);
+
+drop policy if exists "Admins can change the retention policy"
+  on public.data_retention_policies;
+create policy "Admins can change the retention policy"
+  on public.data_retention_policies
+  for all
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin')
+  with check (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin');
+
+drop policy if exists "Admins and HR can read privacy requests"
+  on public.privacy_requests;
+create policy "Admins and HR can read privacy requests"
+  on public.privacy_requests
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) in ('admin', 'hr'));
+
+drop policy if exists "Admins and HR can log privacy requests"
+  on public.privacy_requests;
+create policy "Admins and HR can log privacy requests"
+  on public.privacy_requests
+  for insert
+  to authenticated
+  with check (
+    performed_by = auth.uid()
+    and public.get_user_role_in_org(auth.uid(), organization_id) in ('admin', 'hr')
+  );
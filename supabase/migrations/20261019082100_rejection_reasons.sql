@@ -0,0 +1,58 @@
+-- Each organization's catalogue of rejection and withdrawal reasons. An
+-- organization without rows uses the built-in catalogue. Applications store
+-- the reason key, so removing a reason does not touch them.
+create table if not exists public.rejection_reasons (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  reason_key text not null,
+  label text not null,
+  category text not null
+    check (category in ('rejected_by_us', 'candidate_withdrew')),
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (organization_id, reason_key)
+);
+
+create index if not exists rejection_reasons_organization_id_idx
+  on public.rejection_reasons (organization_id, position);
+
+alter table public.job_applications
+  add column if not exists rejection_reason text;
+
+alter table public.application_status_history
+  add column if not exists rejection_reason text;
+
+alter table public.rejection_reasons enable row level security;
+
+drop policy if exists "Members can read rejection reasons"
+  on public.rejection_reasons;
+create policy "Members can read rejection reasons"
+  on public.rejection_reasons
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) is not null);
+
+drop policy if exists "Admins can add rejection reasons"
+  on public.rejection_reasons;
+create policy "Admins can add rejection reasons"
+  on public.rejection_reasons
+  for insert
+  to authenticated
+  with check (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin');
+
+drop policy if exists "Admins can change rejection reasons"
+  on public.rejection_reasons;
+create policy "Admins can change rejection reasons"
+  on public.rejection_reasons
+  for update
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin')
+  with check (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin');
+
+drop policy if exists "Admins can remove rejection reasons"
+  on public.rejection_reasons;
+create policy "Admins can remove rejection reasons"
+  on public.rejection_reasons
+  for delete
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin');
@@ -0,0 +1,129 @@
+-- Members of an organization who approve offers, in order
+create table if not exists public.offer_approvers (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references public.user_profiles (id) on delete cascade,
+  position integer not null,
+  created_at timestamptz not null default now(),
+  unique (organization_id, user_id)
+);
+
+create index if not exists offer_approvers_organization_id_idx
+  on public.offer_approvers (organization_id, position);
+
+-- Offers made on an application. out_of_band is set when offered_ctc falls
+-- outside the job's salary range.
+create table if not exists public.offers (
+  id uuid primary key default gen_random_uuid(),
+  application_id uuid not null references public.job_applications (id) on delete cascade,
+  offered_ctc numeric not null check (offered_ctc > 0),
+  joining_date date,
+  expires_at date,
+  status text not null default 'draft'
+    check (status in ('draft', 'pending_approval', 'sent', 'accepted', 'declined', 'expired')),
+  out_of_band boolean not null default false,
+  notes text,
+  created_by uuid references public.user_profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  sent_at timestamptz,
+  responded_at timestamptz
+);
+
+create index if not exists offers_application_id_idx
+  on public.offers (application_id, created_at desc);
+
+-- One round of approvals for an offer. Steps are decided in position order;
+-- an admin_required step has no approver and is decided by any admin.
+create table if not exists public.offer_approvals (
+  id uuid primary key default gen_random_uuid(),
+  offer_id uuid not null references public.offers (id) on delete cascade,
+  position integer not null,
+  approver_id uuid references public.user_profiles (id) on delete set null,
+  admin_required boolean not null default false,
+  decision text not null default 'pending'
+    check (decision in ('pending', 'approved', 'rejected')),
+  comment text,
+  decided_by uuid references public.user_profiles (id) on delete set null,
+  decided_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (offer_id, position)
+);
+
+alter table public.offer_approvers enable row level security;
+alter table public.offers enable row level security;
+alter table public.offer_approvals enable row level security;
+
+drop policy if exists "Members can read the offer approval chain"
+  on public.offer_approvers;
+create policy "Members can read the offer approval chain"
+  on public.offer_approvers
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) is not null);
+
+drop policy if exists "Admins can change the offer approval chain"
+  on public.offer_approvers;
+create policy "Admins can change the offer approval chain"
+  on public.offer_approvers
+  for all
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) = 'admin')
+  with check (
+    public.get_user_role_in_org(auth.uid(), organization_id) = 'admin'
+    and public.get_user_role_in_org(user_id, organization_id) is not null
+  );
+
+drop policy if exists "Members can read offers on applications they can access"
+  on public.offers;
+create policy "Members can read offers on applications they can access"
+  on public.offers
+  for select
+  to authenticated
+  using (public.can_access_application(application_id));
+
+-- Offers are submitted for approval and sent only through the offer
+-- functions, which check the approvals first
+drop policy if exists "Admins and HR can prepare offers"
+  on public.offers;
+create policy "Admins and HR can prepare offers"
+  on public.offers
+  for all
+  to authenticated
+  using (
+    public.can_access_application(application_id)
+    and exists (
+      select 1
+      from public.job_applications ja
+      join public.jobs j on j.id = ja.job_id
+      where ja.id = application_id
+        and public.get_user_role_in_org(auth.uid(), j.organization_id) in ('admin', 'hr')
+    )
+  )
+  with check (
+    status not in ('pending_approval', 'sent')
+    and public.can_access_application(application_id)
+    and exists (
+      select 1
+      from public.job_applications ja
+      join public.jobs j on j.id = ja.job_id
+      where ja.id = application_id
+        and public.get_user_role_in_org(auth.uid(), j.organization_id) in ('admin', 'hr')
+    )
+  );
+
+-- Rows are written by the offer functions only
+drop policy if exists "Members can read approvals of offers they can access"
+  on public.offer_approvals;
+create policy "Members can read approvals of offers they can access"
+  on public.offer_approvals
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.offers o
+      where o.id = offer_id
+        and public.can_access_application(o.application_id)
+    )
+  );
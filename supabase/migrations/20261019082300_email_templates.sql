@@ -0,0 +1,71 @@
+-- Organization library of candidate email templates. subject and body hold
+-- {{merge_field}} placeholders filled in per application when sending.
+create table if not exists public.email_templates (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  name text not null,
+  subject text not null,
+  body text not null,
+  created_by uuid references public.user_profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists email_templates_organization_id_idx
+  on public.email_templates (organization_id, name);
+
+alter table public.email_templates enable row level security;
+
+drop policy if exists "Members can read email templates"
+  on public.email_templates;
+create policy "Members can read email templates"
+  on public.email_templates
+  for select
+  to authenticated
+  using (public.get_user_role_in_org(auth.uid(), organization_id) is not null);
+
+drop policy if exists "Members can add email templates"
+  on public.email_templates;
+create policy "Members can add email templates"
+  on public.email_templates
+  for insert
+  to authenticated
+  with check (
+    created_by = auth.uid()
+    and public.get_user_role_in_org(auth.uid(), organization_id) is not null
+  );
+
+drop policy if exists "Authors and admins can change email templates"
+  on public.email_templates;
+create policy "Authors and admins can change email templates"
+  on public.email_templates
+  for update
+  to authenticated
+  using (
+    (
+      created_by = auth.uid()
+      and public.get_user_role_in_org(auth.uid(), organization_id) is not null
+    )
+    or public.get_user_role_in_org(auth.uid(), organization_id) = 'admin'
+  )
+  with check (
+    (
+      created_by = auth.uid()
+      and public.get_user_role_in_org(auth.uid(), organization_id) is not null
+    )
+    or public.get_user_role_in_org(auth.uid(), organization_id) = 'admin'
+  );
+
+drop policy if exists "Authors and admins can delete email templates"
+  on public.email_templates;
+create policy "Authors and admins can delete email templates"
+  on public.email_templates
+  for delete
+  to authenticated
+  using (
+    (
+      created_by = auth.uid()
+      and public.get_user_role_in_org(auth.uid(), organization_id) is not null
+    )
+    or public.get_user_role_in_org(auth.uid(), organization_id) = 'admin'
+  );
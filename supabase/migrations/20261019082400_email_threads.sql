@@ -0,0 +1,158 @@
+-- Email conversations with a candidate about one application
+create table if not exists public.email_threads (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  application_id uuid not null references public.job_applications (id) on delete cascade,
+  subject text not null,
+  last_message_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists email_threads_organization_id_idx
+  on public.email_threads (organization_id, last_message_at desc);
+
+create index if not exists email_threads_application_id_idx
+  on public.email_threads (application_id);
+
+-- Messages sent from the app or imported as replies. message_id is the
+-- Message-ID header, used to match replies to their thread.
+create table if not exists public.email_messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.email_threads (id) on delete cascade,
+  direction text not null check (direction in ('outbound', 'inbound')),
+  from_name text,
+  from_address text not null,
+  to_address text not null,
+  subject text not null,
+  body_html text,
+  body_text text not null,
+  message_id text not null,
+  in_reply_to text,
+  transport text,
+  sent_by uuid references public.user_profiles (id) on delete set null,
+  sent_at timestamptz not null default now(),
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists email_messages_thread_id_idx
+  on public.email_messages (thread_id, sent_at);
+
+create index if not exists email_messages_message_id_idx
+  on public.email_messages (message_id);
+
+-- Whether the signed-in user can open a conversation: one about an
+-- application of its organization that the user can access. The thread
+-- policies check the same on the row itself.
+create or replace function public.can_access_email_thread(p_thread_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from email_threads t
+    join job_applications ja on ja.id = t.application_id
+    join jobs j on j.id = ja.job_id
+    where t.id = p_thread_id
+      and j.organization_id = t.organization_id
+      and public.can_access_application(t.application_id)
+  );
+$$;
+
+grant execute on function public.can_access_email_thread(uuid) to authenticated;
+
+alter table public.email_threads enable row level security;
+alter table public.email_messages enable row level security;
+
+-- Correspondence follows the job access of its application, like notes
+drop policy if exists "Members can read conversations on applications they can access"
+  on public.email_threads;
+create policy "Members can read conversations on applications they can access"
+  on public.email_threads
+  for select
+  to authenticated
+  using (
+    public.can_access_application(application_id)
+    and exists (
+      select 1
+      from public.job_applications ja
+      join public.jobs j on j.id = ja.job_id
+      where ja.id = application_id
+        and j.organization_id = email_threads.organization_id
+    )
+  );
+
+drop policy if exists "Members can start conversations on applications they can access"
+  on public.email_threads;
+create policy "Members can start conversations on applications they can access"
+  on public.email_threads
+  for insert
+  to authenticated
+  with check (
+    public.can_access_application(application_id)
+    and exists (
+      select 1
+      from public.job_applications ja
+      join public.jobs j on j.id = ja.job_id
+      where ja.id = application_id
+        and j.organization_id = email_threads.organization_id
+    )
+  );
+
+drop policy if exists "Members can update conversations they can access"
+  on public.email_threads;
+create policy "Members can update conversations they can access"
+  on public.email_threads
+  for update
+  to authenticated
+  using (
+    public.can_access_application(application_id)
+    and exists (
+      select 1
+      from public.job_applications ja
+      join public.jobs j on j.id = ja.job_id
+      where ja.id = application_id
+        and j.organization_id = email_threads.organization_id
+    )
+  )
+  with check (
+    public.can_access_application(application_id)
+    and exists (
+      select 1
+      from public.job_applications ja
+      join public.jobs j on j.id = ja.job_id
+      where ja.id = application_id
+        and j.organization_id = email_threads.organization_id
+    )
+  );
+
+drop policy if exists "Members can read messages in conversations they can access"
+  on public.email_messages;
+create policy "Members can read messages in conversations they can access"
+  on public.email_messages
+  for select
+  to authenticated
+  using (public.can_access_email_thread(thread_id));
+
+drop policy if exists "Members can add messages to conversations they can access"
+  on public.email_messages;
+create policy "Members can add messages to conversations they can access"
+  on public.email_messages
+  for insert
+  to authenticated
+  with check (
+    public.can_access_email_thread(thread_id)
+    and (direction = 'inbound' or sent_by = auth.uid())
+  );
+
+drop policy if exists "Members can mark messages they can access read"
+  on public.email_messages;
+create policy "Members can mark messages they can access read"
+  on public.email_messages
+  for update
+  to authenticated
+  using (public.can_access_email_thread(thread_id))
+  with check (public.can_access_email_thread(thread_id));
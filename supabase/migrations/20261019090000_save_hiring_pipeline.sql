@@ -0,0 +1,66 @@
+-- Replaces an organization's hiring pipeline and its stages in one
+-- transaction, so a failed save never leaves the organization without stages.
+create or replace function public.save_hiring_pipeline(
+  p_organization_id uuid,
+  p_name text,
+  p_stages jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_pipeline_id uuid;
+begin
+  if public.get_user_role_in_org(auth.uid(), p_organization_id)
+    is distinct from 'admin' then
+    raise exception 'Only admins can change the hiring pipeline'
+      using errcode = '42501';
+  end if;
+
+  if jsonb_typeof(p_stages) is distinct from 'array'
+    or jsonb_array_length(p_stages) < 2 then
+    raise exception 'A pipeline needs at least two stages';
+  end if;
+
+  insert into hiring_pipelines (organization_id, name, updated_at)
+  values (
+    p_organization_id,
+    coalesce(nullif(trim(p_name), ''), 'Hiring pipeline'),
+    now()
+  )
+  on conflict (organization_id)
+  do update set name = excluded.name, updated_at = excluded.updated_at
+  returning id into v_pipeline_id;
+
+  delete from pipeline_stages where pipeline_id = v_pipeline_id;
+
+  insert into pipeline_stages (
+    pipeline_id,
+    stage_key,
+    label,
+    position,
+    category,
+    color,
+    allowed_transitions
+  )
+  select
+    v_pipeline_id,
+    stage->>'stage_key',
+    trim(stage->>'label'),
+    (stage->>'position')::integer,
+    stage->>'category',
+    stage->>'color',
+    case
+      when jsonb_typeof(stage->'allowed_transitions') = 'array' then
+        array(select jsonb_array_elements_text(stage->'allowed_transitions'))
+    end
+  from jsonb_array_elements(p_stages) as stage;
+
+  return v_pipeline_id;
+end;
+$$;
+
+grant execute on function public.save_hiring_pipeline(uuid, text, jsonb)
+  to authenticated;
@@ -0,0 +1,73 @@
+-- Changes an application's stage and appends to its status history in one
+-- transaction, so the audit trail cannot miss a change. The caller passes the
+-- stage it validated the move from; a concurrent change aborts the update.
+create or replace function public.change_application_status(
+  p_application_id uuid,
+  p_expected_status text,
+  p_status text,
+  p_rejection_reason text default null,
+  p_reason text default null
+)
+returns json
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_old_status text;
+  v_application job_applications%rowtype;
+begin
+  select application_status
+  into v_old_status
+  from job_applications
+  where id = p_application_id
+  for update;
+
+  if not found then
+    raise exception 'Application not found' using errcode = 'P0002';
+  end if;
+
+  if v_old_status is distinct from p_expected_status then
+    raise exception 'The application was moved by someone else. Refresh and try again.'
+      using errcode = '40001';
+  end if;
+
+  update job_applications
+  set
+    application_status = p_status,
+    rejection_reason = p_rejection_reason,
+    updated_at = now()
+  where id = p_application_id
+  returning * into v_application;
+
+  insert into application_status_history (
+    application_id,
+    old_status,
+    new_status,
+    changed_by,
+    changed_at,
+    reason,
+    rejection_reason
+  )
+  values (
+    p_application_id,
+    v_old_status,
+    v_application.application_status,
+    auth.uid(),
+    v_application.updated_at,
+    nullif(trim(p_reason), ''),
+    v_application.rejection_reason
+  );
+
+  return json_build_object(
+    'id', v_application.id,
+    'application_status', v_application.application_status,
+    'rejection_reason', v_application.rejection_reason,
+    'updated_at', v_application.updated_at
+  );
+end;
+$$;
+
+grant execute on function public.change_application_status(
+  uuid, text, text, text, text
+) to authenticated;
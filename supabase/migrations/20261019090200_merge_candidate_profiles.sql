@@ -0,0 +1,226 @@
+-- Folds one candidate profile into another in a single transaction, so a
+-- failure part-way leaves both profiles exactly as they were.
+--
+-- Runs as definer: rows such as other members' notifications are hidden from
+-- the admin by row level security but still have to move. Only admins of the
+-- organization get past the first check.
+create or replace function public.merge_candidate_profiles(
+  p_organization_id uuid,
+  p_surviving_id uuid,
+  p_merged_id uuid,
+  p_match_reasons text[]
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- Application children that move with an application when two are folded.
+  -- Offer approvals hang off their offer and move with it.
+  v_application_child_tables constant text[] := array[
+    'application_status_history',
+    'candidate_notes',
+    'email_threads',
+    'interview_scorecards',
+    'interviews',
+    'notifications',
+    'offers'
+  ];
+  v_surviving candidates_profiles%rowtype;
+  v_merged candidates_profiles%rowtype;
+  v_application record;
+  v_existing_id uuid;
+  v_table text;
+  v_moved_application_ids uuid[] := '{}';
+begin
+  if public.get_user_role_in_org(auth.uid(), p_organization_id)
+    is distinct from 'admin' then
+    raise exception 'Only admins can merge candidate profiles'
+      using errcode = '42501';
+  end if;
+
+  if p_surviving_id = p_merged_id then
+    raise exception 'Cannot merge a profile into itself';
+  end if;
+
+  -- Locked so two merges of the same profiles cannot interleave
+  select * into v_surviving
+  from candidates_profiles
+  where id = p_surviving_id
+  for update;
+
+  select * into v_merged
+  from candidates_profiles
+  where id = p_merged_id
+  for update;
+
+  if v_surviving.id is null or v_merged.id is null then
+    raise exception 'One of the profiles no longer exists';
+  end if;
+
+  -- Two separate candidate logins cannot become one profile
+  if v_surviving.auth_id is not null
+    and v_merged.auth_id is not null
+    and v_surviving.auth_id <> v_merged.auth_id then
+    raise exception 'Both profiles belong to different candidate accounts and cannot be merged';
+  end if;
+
+  if not exists (
+    select 1
+    from job_applications a
+    join jobs j on j.id = a.job_id
+    where a.candidate_id = p_surviving_id
+      and j.organization_id = p_organization_id
+  ) or not exists (
+    select 1
+    from job_applications a
+    join jobs j on j.id = a.job_id
+    where a.candidate_id = p_merged_id
+      and j.organization_id = p_organization_id
+  ) then
+    raise exception 'Both profiles must have applied to your organization';
+  end if;
+
+  -- The profile is deleted afterwards, so it must not be shared with
+  -- another organization
+  if exists (
+    select 1
+    from job_applications a
+    join jobs j on j.id = a.job_id
+    where a.candidate_id = p_merged_id
+      and j.organization_id is distinct from p_organization_id
+  ) then
+    raise exception 'The profile being merged has applications in another organization';
+  end if;
+
+  for v_application in
+    select id, job_id
+    from job_applications
+    where candidate_id = p_merged_id
+  loop
+    select id into v_existing_id
+    from job_applications
+    where candidate_id = p_surviving_id
+      and job_id = v_application.job_id
+    limit 1;
+
+    if v_existing_id is not null then
+      -- Same job twice: keep the surviving application and fold this one in
+      foreach v_table in array v_application_child_tables loop
+        execute format(
+          'update %I set application_id = $1 where application_id = $2',
+          v_table
+        )
+        using v_existing_id, v_application.id;
+      end loop;
+
+      -- Moves and copies recorded on other applications point here too
+      update application_status_history
+      set related_application_id = v_existing_id
+      where related_application_id = v_application.id;
+
+      delete from job_applications where id = v_application.id;
+    else
+      update job_applications
+      set candidate_id = p_surviving_id
+      where id = v_application.id;
+    end if;
+
+    v_moved_application_ids := v_moved_application_ids || v_application.id;
+  end loop;
+
+  update education set profile_id = p_surviving_id
+  where profile_id = p_merged_id;
+
+  update experience set profile_id = p_surviving_id
+  where profile_id = p_merged_id;
+
+  update candidate_notes set candidate_id = p_surviving_id
+  where candidate_id = p_merged_id;
+
+  update notifications set candidate_id = p_surviving_id
+  where candidate_id = p_merged_id;
+
+  -- Subject-access and erasure records stay with the person
+  update privacy_requests set candidate_id = p_surviving_id
+  where candidate_id = p_merged_id;
+
+  -- The surviving profile keeps its own indexed resume; the merged one's
+  -- only moves over when there is none, and is re-indexed if it is stale
+  if exists (
+    select 1 from candidate_resume_texts where candidate_id = p_surviving_id
+  ) then
+    delete from candidate_resume_texts where candidate_id = p_merged_id;
+  else
+    update candidate_resume_texts set candidate_id = p_surviving_id
+    where candidate_id = p_merged_id;
+  end if;
+
+  insert into candidate_tag_assignments (candidate_id, tag_id, assigned_by)
+  select p_surviving_id, tag_id, assigned_by
+  from candidate_tag_assignments
+  where candidate_id = p_merged_id
+  on conflict (candidate_id, tag_id) do nothing;
+
+  delete from candidate_tag_assignments where candidate_id = p_merged_id;
+
+  delete from candidate_duplicate_dismissals
+  where candidate_id = p_merged_id
+    or other_candidate_id = p_merged_id;
+
+  insert into candidate_merges (
+    organization_id,
+    surviving_candidate_id,
+    merged_candidate_id,
+    merged_profile,
+    moved_application_ids,
+    match_reasons,
+    merged_by
+  )
+  values (
+    p_organization_id,
+    p_surviving_id,
+    p_merged_id,
+    to_jsonb(v_merged),
+    v_moved_application_ids,
+    p_match_reasons,
+    auth.uid()
+  );
+
+  -- Removed before the fill below, which may take over its login
+  delete from candidates_profiles where id = p_merged_id;
+
+  -- Keep the surviving values and fill its gaps from the merged profile
+  update candidates_profiles
+  set
+    additional_doc_link = coalesce(additional_doc_link, v_merged.additional_doc_link),
+    address = coalesce(address, v_merged.address),
+    auth_id = coalesce(auth_id, v_merged.auth_id),
+    current_ctc = coalesce(current_ctc, v_merged.current_ctc),
+    disability = coalesce(disability, v_merged.disability),
+    dob = coalesce(dob, v_merged.dob),
+    expected_ctc = coalesce(expected_ctc, v_merged.expected_ctc),
+    gender = coalesce(gender, v_merged.gender),
+    linkedin_url = coalesce(linkedin_url, v_merged.linkedin_url),
+    mobile_number = coalesce(mobile_number, v_merged.mobile_number),
+    notice_period = coalesce(notice_period, v_merged.notice_period),
+    portfolio_url = coalesce(portfolio_url, v_merged.portfolio_url),
+    resume_link = coalesce(resume_link, v_merged.resume_link),
+    updated_at = now()
+  where id = p_surviving_id;
+
+  return json_build_object(
+    'surviving_id', p_surviving_id,
+    'merged_id', p_merged_id,
+    'moved_application_ids', v_moved_application_ids
+  );
+end;
+$$;
+
+revoke execute on function public.merge_candidate_profiles(
+  uuid, uuid, uuid, text[]
+) from public;
+grant execute on function public.merge_candidate_profiles(
+  uuid, uuid, uuid, text[]
+) to authenticated;
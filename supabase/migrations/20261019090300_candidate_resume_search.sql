@@ -0,0 +1,337 @@
+-- Full-text search over indexed resume text. The search vector is generated
+-- from the stored content, so indexing a resume is a plain upsert.
+alter table public.candidate_resume_texts
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists candidate_resume_texts_search_vector_idx
+  on public.candidate_resume_texts using gin (search_vector);
+
+-- Earlier versions took fewer arguments; drop them all so PostgREST does not
+-- see ambiguous overloads
+do $$
+declare
+  v_function regprocedure;
+begin
+  for v_function in
+    select oid::regprocedure
+    from pg_proc
+    where proname = 'fetch_candidates_with_access'
+      and pronamespace = 'public'::regnamespace
+  loop
+    execute format('drop function %s', v_function);
+  end loop;
+end;
+$$;
+
+-- One page of the organization's applications for the candidates list, the
+-- board and exports. Admin and HR see every job, TA only jobs granted in
+-- job_access_control. The role is looked up for the signed-in user;
+-- p_user_id and p_user_role are kept for callers that still pass them.
+--
+-- A search term matches the candidate's name and email, the job and the
+-- indexed resume text. Matches carry search_rank for the "relevance" sort
+-- and, for resume matches, search_snippet with the hits wrapped in <b></b>.
+create function public.fetch_candidates_with_access(
+  p_user_id uuid,
+  p_user_role text,
+  p_organization_id uuid default null,
+  p_page integer default 1,
+  p_limit integer default 50,
+  p_application_status text[] default null,
+  p_sort_by text default 'applied_date',
+  p_sort_order text default 'desc',
+  p_name_filter text default null,
+  p_company_filter text[] default null,
+  p_job_title_filter text[] default null,
+  p_min_experience numeric default null,
+  p_max_experience numeric default null,
+  p_date_from date default null,
+  p_date_to date default null,
+  p_job_id uuid default null,
+  p_search_term text default null,
+  p_tag_filter uuid[] default null,
+  p_source_filter text[] default null
+)
+returns json
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_role text;
+  v_term text := nullif(trim(p_search_term), '');
+  v_query tsquery;
+  v_descending boolean := lower(coalesce(p_sort_order, 'desc')) <> 'asc';
+  v_page integer := greatest(coalesce(p_page, 1), 1);
+  v_limit integer := least(greatest(coalesce(p_limit, 50), 1), 500);
+  v_total integer;
+  v_candidates json;
+begin
+  v_role := get_user_role_in_org(auth.uid(), p_organization_id);
+  if v_role is null then
+    return json_build_object(
+      'success', false,
+      'error', 'Not a member of this organization',
+      'candidates', '[]'::json,
+      'total_count', 0,
+      'current_page', v_page,
+      'total_pages', 0
+    );
+  end if;
+
+  if v_term is not null then
+    v_query := websearch_to_tsquery('english', v_term);
+  end if;
+
+  with filtered as (
+    select
+      ja.id as application_id,
+      career.years as experience_years,
+      -- Profile matches rank above matches found only in the resume
+      case
+        when v_term is null then null
+        else
+          coalesce(ts_rank(crt.search_vector, v_query), 0) +
+          case
+            when cp.name ilike '%' || v_term || '%'
+              or cp.candidate_email ilike '%' || v_term || '%'
+            then 1
+            else 0
+          end
+      end as search_rank,
+      case p_sort_by
+        when 'name' then lower(cp.name)
+        when 'application_status' then ja.application_status
+        when 'company_name' then lower(j.company_name)
+      end as sort_text,
+      case p_sort_by
+        when 'experience_years' then career.years
+        when 'current_ctc' then cp.current_ctc::numeric
+        when 'expected_ctc' then cp.expected_ctc::numeric
+      end as sort_number,
+      case p_sort_by
+        when 'created_at' then ja.created_at
+        when 'updated_at' then ja.updated_at
+        else ja.applied_date
+      end as sort_time
+    from job_applications ja
+    join jobs j on j.id = ja.job_id
+    join candidates_profiles cp on cp.id = ja.candidate_id
+    left join candidate_resume_texts crt on crt.candidate_id = cp.id
+    left join lateral (
+      select round(
+        coalesce(
+          sum(
+            case when e.currently_working then current_date
+            else coalesce(e.end_date, current_date) end - e.start_date
+          ),
+          0
+        ) / 365.25,
+        1
+      ) as years
+      from experience e
+      where e.profile_id = cp.id
+    ) career on true
+    where j.organization_id = p_organization_id
+      and (
+        v_role in ('admin', 'hr')
+        or exists (
+          select 1
+          from job_access_control jac
+          where jac.job_id = j.id
+            and jac.user_id = auth.uid()
+            and jac.access_type = 'granted'
+        )
+      )
+      and (p_application_status is null or ja.application_status = any(p_application_status))
+      and (p_name_filter is null or cp.name ilike '%' || p_name_filter || '%')
+      and (p_company_filter is null or j.company_name = any(p_company_filter))
+      and (p_job_title_filter is null or j.title = any(p_job_title_filter))
+      and (p_min_experience is null or career.years >= p_min_experience)
+      and (p_max_experience is null or career.years <= p_max_experience)
+      and (p_date_from is null or ja.applied_date >= p_date_from)
+      and (p_date_to is null or ja.applied_date < p_date_to + 1)
+      and (p_job_id is null or ja.job_id = p_job_id)
+      and (p_source_filter is null or ja.source = any(p_source_filter))
+      and (
+        p_tag_filter is null
+        or exists (
+          select 1
+          from candidate_tag_assignments cta
+          where cta.candidate_id = cp.id
+            and cta.tag_id = any(p_tag_filter)
+        )
+      )
+      and (
+        v_term is null
+        or cp.name ilike '%' || v_term || '%'
+        or cp.candidate_email ilike '%' || v_term || '%'
+        or j.title ilike '%' || v_term || '%'
+        or j.company_name ilike '%' || v_term || '%'
+        or crt.search_vector @@ v_query
+      )
+  ),
+  ordered as (
+    select
+      filtered.*,
+      row_number() over (
+        order by
+          case when p_sort_by = 'relevance' then search_rank end desc nulls last,
+          case when v_descending then sort_text end desc nulls last,
+          case when not v_descending then sort_text end asc nulls last,
+          case when v_descending then sort_number end desc nulls last,
+          case when not v_descending then sort_number end asc nulls last,
+          case when v_descending then sort_time end desc nulls last,
+          case when not v_descending then sort_time end asc nulls last,
+          application_id
+      ) as position
+    from filtered
+  )
+  select
+    (select count(*) from ordered),
+    (
+      select coalesce(json_agg(page.candidate order by page.position), '[]'::json)
+      from (
+        select
+          o.position,
+          json_build_object(
+            'application_id', ja.id,
+            'applied_date', ja.applied_date,
+            'application_status', ja.application_status,
+            'created_at', ja.created_at,
+            'updated_at', ja.updated_at,
+            'source', ja.source,
+            'source_detail', ja.source_detail,
+            'source_campaign', ja.source_campaign,
+            'rejection_reason', ja.rejection_reason,
+            'candidate_id', cp.id,
+            'auth_id', cp.auth_id,
+            'candidate_name', cp.name,
+            'candidate_email', cp.candidate_email,
+            'mobile_number', cp.mobile_number,
+            'address', cp.address,
+            'gender', cp.gender,
+            'disability', cp.disability,
+            'resume_link', cp.resume_link,
+            'portfolio_url', cp.portfolio_url,
+            'linkedin_url', cp.linkedin_url,
+            'additional_doc_link', cp.additional_doc_link,
+            'current_ctc', cp.current_ctc,
+            'expected_ctc', cp.expected_ctc,
+            'notice_period', cp.notice_period,
+            'dob', cp.dob,
+            'job_id', j.id,
+            'job_title', j.title,
+            'company_name', j.company_name,
+            'job_location', j.location,
+            'job_location_type', j.job_location_type,
+            'job_type', j.job_type,
+            'working_type', j.working_type,
+            'min_experience_needed', j.min_experience_needed,
+            'max_experience_needed', j.max_experience_needed,
+            'min_salary', j.salary_min,
+            'max_salary', j.salary_max,
+            'company_logo_url', j.company_logo_url,
+            'job_description', j.description,
+            'application_deadline', j.application_deadline,
+            'job_status', j.status,
+            'experience_years', o.experience_years,
+            'education', coalesce(
+              (select json_agg(ed) from education ed where ed.profile_id = cp.id),
+              '[]'::json
+            ),
+            'experience', coalesce(
+              (select json_agg(ex) from experience ex where ex.profile_id = cp.id),
+              '[]'::json
+            ),
+            'hasAccess', true,
+            'search_rank', o.search_rank,
+            'search_snippet', case
+              when v_term is not null and crt.search_vector @@ v_query then
+                ts_headline(
+                  'english',
+                  crt.content,
+                  v_query,
+                  'StartSel=<b>, StopSel=</b>, MaxWords=20, MinWords=8, MaxFragments=2'
+                )
+            end
+          ) as candidate
+        from ordered o
+        join job_applications ja on ja.id = o.application_id
+        join jobs j on j.id = ja.job_id
+        join candidates_profiles cp on cp.id = ja.candidate_id
+        left join candidate_resume_texts crt on crt.candidate_id = cp.id
+        where o.position > (v_page - 1) * v_limit
+          and o.position <= v_page * v_limit
+      ) page
+    )
+  into v_total, v_candidates;
+
+  return json_build_object(
+    'success', true,
+    'candidates', v_candidates,
+    'total_count', v_total,
+    'current_page', v_page,
+    'total_pages', ceil(v_total::numeric / v_limit)::integer
+  );
+end;
+$$;
+
+grant execute on function public.fetch_candidates_with_access(
+  uuid, text, uuid, integer, integer, text[], text, text, text, text[],
+  text[], numeric, numeric, date, date, uuid, text, uuid[], text[]
+) to authenticated;
+
+-- Resumes of the organization's candidates that were never indexed or were
+-- replaced since, most recently updated profiles first. For the scheduled
+-- indexing job, which runs with the service role.
+create or replace function public.pending_resume_index(
+  p_organization_id uuid,
+  p_limit integer default 10
+)
+returns json
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with pending as (
+    select cp.id as candidate_id, cp.resume_link, cp.updated_at
+    from candidates_profiles cp
+    left join candidate_resume_texts crt on crt.candidate_id = cp.id
+    where cp.resume_link is not null
+      and crt.resume_link is distinct from cp.resume_link
+      and exists (
+        select 1
+        from job_applications ja
+        join jobs j on j.id = ja.job_id
+        where ja.candidate_id = cp.id
+          and j.organization_id = p_organization_id
+      )
+  )
+  select json_build_object(
+    'total', (select count(*) from pending),
+    'resumes', coalesce(
+      (
+        select json_agg(
+          json_build_object(
+            'candidate_id', batch.candidate_id,
+            'resume_link', batch.resume_link
+          )
+        )
+        from (
+          select candidate_id, resume_link
+          from pending
+          order by updated_at desc nulls last, candidate_id
+          limit least(greatest(coalesce(p_limit, 10), 1), 100)
+        ) batch
+      ),
+      '[]'::json
+    )
+  );
+$$;
+
+revoke execute on function public.pending_resume_index(uuid, integer) from public;
+grant execute on function public.pending_resume_index(uuid, integer) to service_role;
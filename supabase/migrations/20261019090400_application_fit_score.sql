@@ -0,0 +1,516 @@
+-- Candidate-to-job fit of one application, out of 100, with a breakdown of
+-- each component. This is the only implementation of the score: the
+-- candidates list, comparison and exports all show what it returns.
+-- Components without a signal are left out rather than counted as zero.
+-- notice_days is the notice period read as days, for sorting and comparing.
+create or replace function public.application_fit_score(p_application_id uuid)
+returns json
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  -- Notice periods at or under this many days score in full, and at or over
+  -- the upper bound score nothing
+  c_notice_full_days constant numeric := 15;
+  c_notice_zero_days constant numeric := 90;
+  v_application record;
+  v_weights record;
+  v_years numeric;
+  v_ceiling numeric;
+  v_notice text;
+  v_notice_match text[];
+  v_days numeric;
+  v_type text;
+  v_located boolean;
+  v_range text;
+  v_items jsonb := '[]'::jsonb;
+  v_score numeric;
+  v_detail text;
+  v_total_weight numeric := 0;
+  v_weighted numeric := 0;
+  v_item jsonb;
+begin
+  select
+    cp.id as candidate_id,
+    cp.expected_ctc::numeric as expected_ctc,
+    cp.notice_period,
+    cp.address,
+    j.organization_id,
+    j.min_experience_needed::numeric as min_experience,
+    j.max_experience_needed::numeric as max_experience,
+    j.salary_min::numeric as min_salary,
+    j.salary_max::numeric as max_salary,
+    j.location,
+    lower(coalesce(j.job_location_type, '')) as location_type
+  into v_application
+  from job_applications ja
+  join jobs j on j.id = ja.job_id
+  join candidates_profiles cp on cp.id = ja.candidate_id
+  where ja.id = p_application_id;
+
+  if not found then
+    return null;
+  end if;
+
+  select
+    greatest(coalesce(w.experience_weight, 4), 0) as experience,
+    greatest(coalesce(w.salary_weight, 3), 0) as salary,
+    greatest(coalesce(w.notice_weight, 2), 0) as notice,
+    greatest(coalesce(w.location_weight, 1), 0) as location
+  into v_weights
+  from (select 1) defaults
+  left join fit_score_weights w
+    on w.organization_id = v_application.organization_id;
+
+  -- Experience
+  select round(
+    sum(
+      case when e.currently_working then current_date
+      else coalesce(e.end_date, current_date) end - e.start_date
+    ) / 365.25,
+    1
+  )
+  into v_years
+  from experience e
+  where e.profile_id = v_application.candidate_id;
+
+  v_score := null;
+  if v_application.min_experience is null and v_application.max_experience is null then
+    v_detail := 'The job has no experience range';
+  elsif v_years is null then
+    v_detail := 'Experience unknown';
+  else
+    v_range := case
+      when v_application.min_experience is not null
+        and v_application.max_experience is not null
+      then trim_scale(v_application.min_experience) || '–' ||
+        trim_scale(v_application.max_experience) || ' yrs'
+      when v_application.min_experience is not null
+      then trim_scale(v_application.min_experience) || '+ yrs'
+      else 'up to ' || trim_scale(v_application.max_experience) || ' yrs'
+    end;
+    v_detail := trim_scale(v_years) || ' yr' ||
+      case when v_years = 1 then '' else 's' end || ' against ' || v_range;
+
+    if v_application.min_experience is not null
+      and v_years < v_application.min_experience
+    then
+      v_score := case
+        when v_application.min_experience > 0
+        then greatest(0, least(1, v_years / v_application.min_experience))
+        else 1
+      end;
+    -- Over-experience costs at most half the component
+    elsif v_application.max_experience is not null
+      and v_years > v_application.max_experience
+    then
+      v_score := 1 - 0.5 * greatest(0, least(1,
+        (v_years - v_application.max_experience) /
+          greatest(v_application.max_experience, 1)
+      ));
+    else
+      v_score := 1;
+    end if;
+  end if;
+  v_items := v_items || jsonb_build_object(
+    'component', 'experience',
+    'weight', v_weights.experience,
+    'score', v_score,
+    'detail', v_detail
+  );
+
+  -- Salary
+  v_score := null;
+  v_ceiling := coalesce(v_application.max_salary, v_application.min_salary);
+  if v_ceiling is null or v_ceiling <= 0 then
+    v_detail := 'The job has no salary range';
+  elsif v_application.expected_ctc is null then
+    v_detail := 'Expected CTC unknown';
+  else
+    v_detail := 'Expects ' ||
+      to_char(v_application.expected_ctc, 'FM999,999,999,999,990') ||
+      ' against ' ||
+      case
+        when v_application.min_salary is not null
+          and v_application.max_salary is not null
+        then to_char(v_application.min_salary, 'FM999,999,999,999,990') ||
+          '–' || to_char(v_application.max_salary, 'FM999,999,999,999,990')
+        else to_char(v_ceiling, 'FM999,999,999,999,990')
+      end;
+    v_score := case
+      when v_application.expected_ctc <= v_ceiling then 1
+      else greatest(0, least(1,
+        1 - (v_application.expected_ctc - v_ceiling) / v_ceiling
+      ))
+    end;
+  end if;
+  v_items := v_items || jsonb_build_object(
+    'component', 'salary',
+    'weight', v_weights.salary,
+    'score', v_score,
+    'detail', v_detail
+  );
+
+  -- Notice period, free text such as "Immediate", "30 days" or "2 months"
+  v_score := null;
+  v_days := null;
+  v_notice := lower(trim(v_application.notice_period));
+  if v_notice ~ '^(immediate|immediately|none|0)$' then
+    v_days := 0;
+  elsif v_notice is not null then
+    v_notice_match := regexp_match(v_notice, '(\d+(?:\.\d+)?)\s*(day|week|month)?');
+    if v_notice_match is not null then
+      v_days := v_notice_match[1]::numeric * case v_notice_match[2]
+        when 'month' then 30
+        when 'week' then 7
+        else 1
+      end;
+    end if;
+  end if;
+
+  if v_days is null then
+    v_detail := case
+      when nullif(v_application.notice_period, '') is not null
+      then 'Could not read "' || v_application.notice_period || '"'
+      else 'Notice period unknown'
+    end;
+  else
+    v_detail := case
+      when v_days = 0 then 'Available immediately'
+      else trim_scale(v_days) || ' days'
+    end;
+    v_score := greatest(0, least(1,
+      (c_notice_zero_days - v_days) / (c_notice_zero_days - c_notice_full_days)
+    ));
+  end if;
+  v_items := v_items || jsonb_build_object(
+    'component', 'notice',
+    'weight', v_weights.notice,
+    'score', v_score,
+    'detail', v_detail
+  );
+
+  -- Location: any part of the job location ("Pune, Maharashtra") found in
+  -- the candidate's address
+  v_score := null;
+  v_type := v_application.location_type;
+  if v_type = 'remote' then
+    v_score := 1;
+    v_detail := 'Remote role';
+  elsif v_application.location is null or v_application.address is null then
+    v_detail := 'Location unknown';
+  else
+    select exists (
+      select 1
+      from unnest(string_to_array(lower(v_application.location), ',')) part
+      where length(trim(part)) >= 3
+        and position(trim(part) in lower(v_application.address)) > 0
+    )
+    into v_located;
+
+    v_detail := case when v_located then 'Based in ' else 'Not based in ' end ||
+      v_application.location ||
+      case when v_type <> '' then ' (' || v_type || ')' else '' end;
+    -- Hybrid roles can still work with a commute or relocation
+    v_score := case
+      when v_located then 1
+      when v_type = 'hybrid' then 0.25
+      else 0
+    end;
+  end if;
+  v_items := v_items || jsonb_build_object(
+    'component', 'location',
+    'weight', v_weights.location,
+    'score', v_score,
+    'detail', v_detail
+  );
+
+  for v_item in select * from jsonb_array_elements(v_items)
+  loop
+    if (v_item->>'weight')::numeric > 0 and v_item->'score' <> 'null'::jsonb then
+      v_total_weight := v_total_weight + (v_item->>'weight')::numeric;
+      v_weighted := v_weighted +
+        (v_item->>'weight')::numeric * (v_item->>'score')::numeric;
+    end if;
+  end loop;
+
+  return json_build_object(
+    'total', case
+      when v_total_weight > 0 then round(100 * v_weighted / v_total_weight)
+    end,
+    'items', v_items,
+    'notice_days', v_days
+  );
+end;
+$$;
+
+grant execute on function public.application_fit_score(uuid) to authenticated;
+
+-- One page of the organization's applications for the candidates list, the
+-- board and exports. Admin and HR see every job, TA only jobs granted in
+-- job_access_control. The role is looked up for the signed-in user;
+-- p_user_id and p_user_role are kept for callers that still pass them.
+--
+-- A search term matches the candidate's name and email, the job and the
+-- indexed resume text. Matches carry search_rank for the "relevance" sort
+-- and, for resume matches, search_snippet with the hits wrapped in <b></b>.
+--
+-- Each row carries fit_score and its breakdown from application_fit_score.
+create or replace function public.fetch_candidates_with_access(
+  p_user_id uuid,
+  p_user_role text,
+  p_organization_id uuid default null,
+  p_page integer default 1,
+  p_limit integer default 50,
+  p_application_status text[] default null,
+  p_sort_by text default 'applied_date',
+  p_sort_order text default 'desc',
+  p_name_filter text default null,
+  p_company_filter text[] default null,
+  p_job_title_filter text[] default null,
+  p_min_experience numeric default null,
+  p_max_experience numeric default null,
+  p_date_from date default null,
+  p_date_to date default null,
+  p_job_id uuid default null,
+  p_search_term text default null,
+  p_tag_filter uuid[] default null,
+  p_source_filter text[] default null
+)
+returns json
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_role text;
+  v_term text := nullif(trim(p_search_term), '');
+  v_query tsquery;
+  v_descending boolean := lower(coalesce(p_sort_order, 'desc')) <> 'asc';
+  v_page integer := greatest(coalesce(p_page, 1), 1);
+  v_limit integer := least(greatest(coalesce(p_limit, 50), 1), 500);
+  v_total integer;
+  v_candidates json;
+begin
+  v_role := get_user_role_in_org(auth.uid(), p_organization_id);
+  if v_role is null then
+    return json_build_object(
+      'success', false,
+      'error', 'Not a member of this organization',
+      'candidates', '[]'::json,
+      'total_count', 0,
+      'current_page', v_page,
+      'total_pages', 0
+    );
+  end if;
+
+  if v_term is not null then
+    v_query := websearch_to_tsquery('english', v_term);
+  end if;
+
+  with filtered as (
+    select
+      ja.id as application_id,
+      career.years as experience_years,
+      -- Profile matches rank above matches found only in the resume
+      case
+        when v_term is null then null
+        else
+          coalesce(ts_rank(crt.search_vector, v_query), 0) +
+          case
+            when cp.name ilike '%' || v_term || '%'
+              or cp.candidate_email ilike '%' || v_term || '%'
+            then 1
+            else 0
+          end
+      end as search_rank,
+      case p_sort_by
+        when 'name' then lower(cp.name)
+        when 'application_status' then ja.application_status
+        when 'company_name' then lower(j.company_name)
+      end as sort_text,
+      case p_sort_by
+        when 'experience_years' then career.years
+        when 'current_ctc' then cp.current_ctc::numeric
+        when 'expected_ctc' then cp.expected_ctc::numeric
+        when 'fit_score' then (application_fit_score(ja.id)->>'total')::numeric
+      end as sort_number,
+      case p_sort_by
+        when 'created_at' then ja.created_at
+        when 'updated_at' then ja.updated_at
+        else ja.applied_date
+      end as sort_time
+    from job_applications ja
+    join jobs j on j.id = ja.job_id
+    join candidates_profiles cp on cp.id = ja.candidate_id
+    left join candidate_resume_texts crt on crt.candidate_id = cp.id
+    left join lateral (
+      select round(
+        coalesce(
+          sum(
+            case when e.currently_working then current_date
+            else coalesce(e.end_date, current_date) end - e.start_date
+          ),
+          0
+        ) / 365.25,
+        1
+      ) as years
+      from experience e
+      where e.profile_id = cp.id
+    ) career on true
+    where j.organization_id = p_organization_id
+      and (
+        v_role in ('admin', 'hr')
+        or exists (
+          select 1
+          from job_access_control jac
+          where jac.job_id = j.id
+            and jac.user_id = auth.uid()
+            and jac.access_type = 'granted'
+        )
+      )
+      and (p_application_status is null or ja.application_status = any(p_application_status))
+      and (p_name_filter is null or cp.name ilike '%' || p_name_filter || '%')
+      and (p_company_filter is null or j.company_name = any(p_company_filter))
+      and (p_job_title_filter is null or j.title = any(p_job_title_filter))
+      and (p_min_experience is null or career.years >= p_min_experience)
+      and (p_max_experience is null or career.years <= p_max_experience)
+      and (p_date_from is null or ja.applied_date >= p_date_from)
+      and (p_date_to is null or ja.applied_date < p_date_to + 1)
+      and (p_job_id is null or ja.job_id = p_job_id)
+      and (p_source_filter is null or ja.source = any(p_source_filter))
+      and (
+        p_tag_filter is null
+        or exists (
+          select 1
+          from candidate_tag_assignments cta
+          where cta.candidate_id = cp.id
+            and cta.tag_id = any(p_tag_filter)
+        )
+      )
+      and (
+        v_term is null
+        or cp.name ilike '%' || v_term || '%'
+        or cp.candidate_email ilike '%' || v_term || '%'
+        or j.title ilike '%' || v_term || '%'
+        or j.company_name ilike '%' || v_term || '%'
+        or crt.search_vector @@ v_query
+      )
+  ),
+  ordered as (
+    select
+      filtered.*,
+      row_number() over (
+        order by
+          case when p_sort_by = 'relevance' then search_rank end desc nulls last,
+          case when v_descending then sort_text end desc nulls last,
+          case when not v_descending then sort_text end asc nulls last,
+          case when v_descending then sort_number end desc nulls last,
+          case when not v_descending then sort_number end asc nulls last,
+          case when v_descending then sort_time end desc nulls last,
+          case when not v_descending then sort_time end asc nulls last,
+          application_id
+      ) as position
+    from filtered
+  )
+  select
+    (select count(*) from ordered),
+    (
+      select coalesce(json_agg(page.candidate order by page.position), '[]'::json)
+      from (
+        select
+          o.position,
+          json_build_object(
+            'application_id', ja.id,
+            'applied_date', ja.applied_date,
+            'application_status', ja.application_status,
+            'created_at', ja.created_at,
+            'updated_at', ja.updated_at,
+            'source', ja.source,
+            'source_detail', ja.source_detail,
+            'source_campaign', ja.source_campaign,
+            'rejection_reason', ja.rejection_reason,
+            'candidate_id', cp.id,
+            'auth_id', cp.auth_id,
+            'candidate_name', cp.name,
+            'candidate_email', cp.candidate_email,
+            'mobile_number', cp.mobile_number,
+            'address', cp.address,
+            'gender', cp.gender,
+            'disability', cp.disability,
+            'resume_link', cp.resume_link,
+            'portfolio_url', cp.portfolio_url,
+            'linkedin_url', cp.linkedin_url,
+            'additional_doc_link', cp.additional_doc_link,
+            'current_ctc', cp.current_ctc,
+            'expected_ctc', cp.expected_ctc,
+            'notice_period', cp.notice_period,
+            'dob', cp.dob,
+            'job_id', j.id,
+            'job_title', j.title,
+            'company_name', j.company_name,
+            'job_location', j.location,
+            'job_location_type', j.job_location_type,
+            'job_type', j.job_type,
+            'working_type', j.working_type,
+            'min_experience_needed', j.min_experience_needed,
+            'max_experience_needed', j.max_experience_needed,
+            'min_salary', j.salary_min,
+            'max_salary', j.salary_max,
+            'company_logo_url', j.company_logo_url,
+            'job_description', j.description,
+            'application_deadline', j.application_deadline,
+            'job_status', j.status,
+            'experience_years', o.experience_years,
+            'fit_score', (score.fit->>'total')::numeric,
+            'fit_score_items', score.fit->'items',
+            'notice_period_days', (score.fit->>'notice_days')::numeric,
+            'education', coalesce(
+              (select json_agg(ed) from education ed where ed.profile_id = cp.id),
+              '[]'::json
+            ),
+            'experience', coalesce(
+              (select json_agg(ex) from experience ex where ex.profile_id = cp.id),
+              '[]'::json
+            ),
+            'hasAccess', true,
+            'search_rank', o.search_rank,
+            'search_snippet', case
+              when v_term is not null and crt.search_vector @@ v_query then
+                ts_headline(
+                  'english',
+                  crt.content,
+                  v_query,
+                  'StartSel=<b>, StopSel=</b>, MaxWords=20, MinWords=8, MaxFragments=2'
+                )
+            end
+          ) as candidate
+        from ordered o
+        join job_applications ja on ja.id = o.application_id
+        join jobs j on j.id = ja.job_id
+        join candidates_profiles cp on cp.id = ja.candidate_id
+        left join candidate_resume_texts crt on crt.candidate_id = cp.id
+        cross join lateral (select application_fit_score(ja.id) as fit) score
+        where o.position > (v_page - 1) * v_limit
+          and o.position <= v_page * v_limit
+      ) page
+    )
+  into v_total, v_candidates;
+
+  return json_build_object(
+    'success', true,
+    'candidates', v_candidates,
+    'total_count', v_total,
+    'current_page', v_page,
+    'total_pages', ceil(v_total::numeric / v_limit)::integer
+  );
+end;
+$$;
+
+grant execute on function public.fetch_candidates_with_access(
+  uuid, text, uuid, integer, integer, text[], text, text, text, text[],
+  text[], numeric, numeric, date, date, uuid, text, uuid[], text[]
+) to authenticated;
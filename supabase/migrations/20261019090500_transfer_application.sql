@@ -0,0 +1,177 @@
+-- Moves an application to another job of the same organization, or copies
+-- it into a new application for that job, and records the link in the
+-- status history of both in one transaction. Copies start in p_status, the
+-- first stage of the organization's pipeline.
+create or replace function public.transfer_application(
+  p_application_id uuid,
+  p_target_job_id uuid,
+  p_mode text,
+  p_status text default null,
+  p_reason text default null
+)
+returns json
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_source job_applications%rowtype;
+  v_organization_id uuid;
+  v_target_organization_id uuid;
+  v_application job_applications%rowtype;
+  v_reason text := nullif(trim(p_reason), '');
+begin
+  if p_mode not in ('move', 'copy') then
+    raise exception 'Unknown transfer mode %', p_mode using errcode = '22023';
+  end if;
+
+  select *
+  into v_source
+  from job_applications
+  where id = p_application_id
+  for update;
+
+  if not found then
+    raise exception 'Application not found' using errcode = 'P0002';
+  end if;
+
+  select organization_id into v_organization_id
+  from jobs
+  where id = v_source.job_id;
+
+  select organization_id into v_target_organization_id
+  from jobs
+  where id = p_target_job_id;
+
+  if v_target_organization_id is null
+    or v_target_organization_id is distinct from v_organization_id
+  then
+    raise exception 'The selected job belongs to another organization'
+      using errcode = '42501';
+  end if;
+
+  if coalesce(public.get_user_role_in_org(auth.uid(), v_organization_id), '')
+    not in ('admin', 'hr')
+  then
+    raise exception 'Only admins and HR can move or copy applications'
+      using errcode = '42501';
+  end if;
+
+  if v_source.job_id = p_target_job_id then
+    raise exception 'The application is already for this job'
+      using errcode = '23505';
+  end if;
+
+  if exists (
+    select 1
+    from job_applications
+    where candidate_id = v_source.candidate_id
+      and job_id = p_target_job_id
+  ) then
+    raise exception 'The candidate has already applied to this job'
+      using errcode = '23505';
+  end if;
+
+  if p_mode = 'move' then
+    update job_applications
+    set job_id = p_target_job_id, board_position = null, updated_at = now()
+    where id = p_application_id
+    returning * into v_application;
+
+    insert into application_status_history (
+      application_id,
+      old_status,
+      new_status,
+      changed_by,
+      changed_at,
+      reason,
+      transfer_type,
+      from_job_id,
+      to_job_id
+    )
+    values (
+      p_application_id,
+      v_source.application_status,
+      v_source.application_status,
+      auth.uid(),
+      v_application.updated_at,
+      v_reason,
+      'moved',
+      v_source.job_id,
+      p_target_job_id
+    );
+  else
+    if p_status is null then
+      raise exception 'A status is required to copy an application'
+        using errcode = '22023';
+    end if;
+
+    -- The candidate still came in through the same channel
+    insert into job_applications (
+      candidate_id,
+      job_id,
+      application_status,
+      source,
+      source_detail,
+      source_campaign
+    )
+    values (
+      v_source.candidate_id,
+      p_target_job_id,
+      p_status,
+      v_source.source,
+      v_source.source_detail,
+      v_source.source_campaign
+    )
+    returning * into v_application;
+
+    insert into application_status_history (
+      application_id,
+      old_status,
+      new_status,
+      changed_by,
+      changed_at,
+      reason,
+      transfer_type,
+      related_application_id,
+      from_job_id,
+      to_job_id
+    )
+    values
+      (
+        p_application_id,
+        v_source.application_status,
+        v_source.application_status,
+        auth.uid(),
+        v_application.updated_at,
+        v_reason,
+        'copied_to',
+        v_application.id,
+        v_source.job_id,
+        p_target_job_id
+      ),
+      (
+        v_application.id,
+        null,
+        v_application.application_status,
+        auth.uid(),
+        v_application.updated_at,
+        v_reason,
+        'copied_from',
+        p_application_id,
+        v_source.job_id,
+        p_target_job_id
+      );
+  end if;
+
+  return json_build_object(
+    'id', v_application.id,
+    'application_status', v_application.application_status,
+    'updated_at', v_application.updated_at
+  );
+end;
+$$;
+
+grant execute on function public.transfer_application(
+  uuid, uuid, text, text, text
+) to authenticated;
@@ -0,0 +1,55 @@
+-- Applications per source and status for the dashboard's source-of-hire
+-- widget. Admin and HR count every job, TA only jobs granted to them.
+create or replace function public.get_application_sources(
+  user_uuid uuid,
+  org_uuid uuid
+)
+returns json
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_role text;
+begin
+  if user_uuid is distinct from auth.uid() then
+    return json_build_object('error', true, 'message', 'Access denied');
+  end if;
+
+  v_role := get_user_role_in_org(user_uuid, org_uuid);
+  if v_role is null then
+    return json_build_object('error', true, 'message', 'Access denied');
+  end if;
+
+  return coalesce(
+    (
+      select json_agg(counts order by counts.applications desc)
+      from (
+        select
+          ja.source,
+          ja.application_status,
+          count(*) as applications
+        from job_applications ja
+        join jobs j on j.id = ja.job_id
+        where j.organization_id = org_uuid
+          and (
+            v_role in ('admin', 'hr')
+            or exists (
+              select 1
+              from job_access_control jac
+              where jac.job_id = j.id
+                and jac.user_id = user_uuid
+                and jac.access_type = 'granted'
+            )
+          )
+        group by ja.source, ja.application_status
+      ) counts
+    ),
+    '[]'::json
+  );
+end;
+$$;
+
+grant execute on function public.get_application_sources(uuid, uuid)
+  to authenticated;
@@ -0,0 +1,261 @@
+-- Removes what one organization holds about a candidate. Applications,
+-- status changes, interviews and scorecard ratings stay, without their free
+-- text, so the organization's dashboard counts and pipeline reports do not
+-- change.
+--
+-- Profiles are shared between organizations. When no other organization has
+-- an application from the candidate the profile itself is anonymized.
+-- Otherwise the organization's applications are moved to a new anonymized
+-- profile and the shared one is left alone. resume_link and
+-- additional_doc_link are returned only in the first case, for the caller to
+-- delete the files.
+--
+-- Runs as definer because other organizations' applications are hidden from
+-- the caller by row level security. The scheduled retention job calls it
+-- with the service role, which has no signed-in user.
+create or replace function public.anonymize_candidate(
+  p_organization_id uuid,
+  p_candidate_id uuid
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile candidates_profiles%rowtype;
+  v_application_ids uuid[];
+  v_shared boolean;
+  v_anonymous_id uuid;
+begin
+  if auth.role() is distinct from 'service_role'
+    and coalesce(public.get_user_role_in_org(auth.uid(), p_organization_id), '')
+      not in ('admin', 'hr')
+  then
+    raise exception 'Only admins and HR can erase candidate data'
+      using errcode = '42501';
+  end if;
+
+  select *
+  into v_profile
+  from candidates_profiles
+  where id = p_candidate_id
+  for update;
+
+  select array_agg(ja.id)
+  into v_application_ids
+  from job_applications ja
+  join jobs j on j.id = ja.job_id
+  where ja.candidate_id = p_candidate_id
+    and j.organization_id = p_organization_id;
+
+  if v_profile.id is null or v_application_ids is null then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update job_applications
+  set source_detail = null
+  where id = any(v_application_ids);
+
+  update application_status_history
+  set reason = null
+  where application_id = any(v_application_ids);
+
+  update interviews
+  set notes = null
+  where application_id = any(v_application_ids);
+
+  update interview_scorecards
+  set notes = null
+  where application_id = any(v_application_ids);
+
+  update offers
+  set notes = null
+  where application_id = any(v_application_ids);
+
+  delete from email_messages
+  where thread_id in (
+    select id
+    from email_threads
+    where organization_id = p_organization_id
+      and application_id = any(v_application_ids)
+  );
+
+  delete from email_threads
+  where organization_id = p_organization_id
+    and application_id = any(v_application_ids);
+
+  delete from notifications
+  where organization_id = p_organization_id
+    and (
+      candidate_id = p_candidate_id
+      or application_id = any(v_application_ids)
+    );
+
+  delete from candidate_notes
+  where organization_id = p_organization_id
+    and candidate_id = p_candidate_id;
+
+  delete from candidate_tag_assignments
+  where candidate_id = p_candidate_id
+    and tag_id in (
+      select id
+      from candidate_tags
+      where organization_id = p_organization_id
+    );
+
+  update candidate_merges
+  set merged_profile = '{}'::jsonb
+  where organization_id = p_organization_id
+    and (
+      surviving_candidate_id = p_candidate_id
+      or merged_candidate_id = p_candidate_id
+    );
+
+  select exists (
+    select 1
+    from job_applications ja
+    join jobs j on j.id = ja.job_id
+    where ja.candidate_id = p_candidate_id
+      and j.organization_id <> p_organization_id
+  )
+  into v_shared;
+
+  if v_shared then
+    v_anonymous_id := gen_random_uuid();
+
+    insert into candidates_profiles (
+      id,
+      name,
+      candidate_email,
+      anonymized_at,
+      created_at,
+      updated_at
+    )
+    values (
+      v_anonymous_id,
+      'Anonymized candidate',
+      -- The column is required, so keep a unique address that cannot receive mail
+      'anonymized-' || v_anonymous_id || '@anonymized.invalid',
+      now(),
+      v_profile.created_at,
+      now()
+    );
+
+    update job_applications
+    set candidate_id = v_anonymous_id
+    where id = any(v_application_ids);
+
+    return json_build_object(
+      'candidate_id', v_anonymous_id,
+      'profile_anonymized', false,
+      'resume_link', null,
+      'additional_doc_link', null
+    );
+  end if;
+
+  update candidates_profiles
+  set
+    name = 'Anonymized candidate',
+    candidate_email = 'anonymized-' || p_candidate_id || '@anonymized.invalid',
+    auth_id = null,
+    address = null,
+    mobile_number = null,
+    dob = null,
+    gender = null,
+    disability = null,
+    current_ctc = null,
+    expected_ctc = null,
+    notice_period = null,
+    linkedin_url = null,
+    portfolio_url = null,
+    resume_link = null,
+    additional_doc_link = null,
+    anonymized_at = now(),
+    updated_at = now()
+  where id = p_candidate_id;
+
+  delete from education where profile_id = p_candidate_id;
+  delete from experience where profile_id = p_candidate_id;
+  delete from candidate_resume_texts where candidate_id = p_candidate_id;
+  delete from candidate_tag_assignments where candidate_id = p_candidate_id;
+
+  return json_build_object(
+    'candidate_id', p_candidate_id,
+    'profile_anonymized', true,
+    'resume_link', v_profile.resume_link,
+    'additional_doc_link', v_profile.additional_doc_link
+  );
+end;
+$$;
+
+revoke execute on function public.anonymize_candidate(uuid, uuid) from public;
+grant execute on function public.anonymize_candidate(uuid, uuid) to authenticated;
+grant execute on function public.anonymize_candidate(uuid, uuid) to service_role;
+
+-- A caller outside the organization, here one with no user at all, must be
+-- refused before anything is read. Fails the migration otherwise.
+do $$
+begin
+  perform public.anonymize_candidate(gen_random_uuid(), gen_random_uuid());
+  raise exception 'anonymize_candidate accepted a caller outside the organization';
+exception
+  when insufficient_privilege then
+    null;
+end;
+$$;
+
+-- One page of the organization's candidates with no activity since
+-- p_cutoff, for the retention policy. Activity is the latest profile update
+-- or update to one of the organization's applications; applications to
+-- other organizations do not count, as only this organization's data is
+-- removed. Pages are ordered by id and continue after p_after, so candidates
+-- that could not be anonymized are not returned again in the same pass.
+create or replace function public.inactive_candidates(
+  p_organization_id uuid,
+  p_cutoff timestamptz,
+  p_after uuid default null,
+  p_limit integer default 50
+)
+returns json
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with inactive as (
+    select cp.id
+    from candidates_profiles cp
+    join job_applications ja on ja.candidate_id = cp.id
+    join jobs j on j.id = ja.job_id
+    where j.organization_id = p_organization_id
+      and cp.anonymized_at is null
+      and (p_after is null or cp.id > p_after)
+    group by cp.id
+    having greatest(
+      max(cp.created_at),
+      max(cp.updated_at),
+      max(ja.applied_date::timestamptz),
+      max(ja.updated_at)
+    ) < p_cutoff
+  )
+  select json_build_object(
+    'total', (select count(*) from inactive),
+    'candidate_ids', coalesce(
+      (
+        select json_agg(page.id order by page.id)
+        from (
+          select id
+          from inactive
+          order by id
+          limit greatest(p_limit, 1)
+        ) page
+      ),
+      '[]'::json
+    )
+  );
+$$;
+
+grant execute on function public.inactive_candidates(
+  uuid, timestamptz, uuid, integer
+) to authenticated, service_role;
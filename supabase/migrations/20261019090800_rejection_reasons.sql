@@ -0,0 +1,71 @@
+-- Rejected and withdrawn applications per job and reason for the dashboard.
+-- An application counts while it sits in one of the organization's
+-- terminal_negative stages, or in rejected or withdrawn for organizations on
+-- the default pipeline. Admin and HR count every job, TA only jobs granted to
+-- them.
+create or replace function public.get_rejection_breakdown(
+  user_uuid uuid,
+  org_uuid uuid
+)
+returns json
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_role text;
+  v_statuses text[];
+begin
+  if user_uuid is distinct from auth.uid() then
+    return json_build_object('error', true, 'message', 'Access denied');
+  end if;
+
+  v_role := get_user_role_in_org(user_uuid, org_uuid);
+  if v_role is null then
+    return json_build_object('error', true, 'message', 'Access denied');
+  end if;
+
+  select array_agg(ps.stage_key)
+  into v_statuses
+  from hiring_pipelines hp
+  join pipeline_stages ps on ps.pipeline_id = hp.id
+  where hp.organization_id = org_uuid
+    and ps.category = 'terminal_negative';
+
+  v_statuses := coalesce(v_statuses, array['rejected', 'withdrawn']);
+
+  return coalesce(
+    (
+      select json_agg(counts order by counts.rejections desc)
+      from (
+        select
+          ja.rejection_reason,
+          j.id as job_id,
+          j.title as job_title,
+          j.company_name,
+          count(*) as rejections
+        from job_applications ja
+        join jobs j on j.id = ja.job_id
+        where j.organization_id = org_uuid
+          and ja.application_status = any(v_statuses)
+          and (
+            v_role in ('admin', 'hr')
+            or exists (
+              select 1
+              from job_access_control jac
+              where jac.job_id = j.id
+                and jac.user_id = user_uuid
+                and jac.access_type = 'granted'
+            )
+          )
+        group by ja.rejection_reason, j.id, j.title, j.company_name
+      ) counts
+    ),
+    '[]'::json
+  );
+end;
+$$;
+
+grant execute on function public.get_rejection_breakdown(uuid, uuid)
+  to authenticated;
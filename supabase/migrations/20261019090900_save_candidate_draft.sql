@@ -0,0 +1,242 @@
+-- Adds a candidate entered by hand or imported from a file to a job in one
+-- transaction: the profile with its experience and education, the
+-- application and its first status history row.
+--
+-- Runs as security definer because profiles are shared between
+-- organizations. A profile with the same email that has no application in
+-- the job's organization is reused without saying so, and its fields are
+-- left alone, so the caller never learns it exists elsewhere. p_duplicate_mode
+-- only applies to profiles that already applied to the organization.
+create or replace function public.save_candidate_draft(
+  p_job_id uuid,
+  p_status text,
+  p_source text,
+  p_reason text,
+  p_duplicate_mode text,
+  p_profile jsonb,
+  p_experience jsonb default '[]'::jsonb,
+  p_education jsonb default '[]'::jsonb
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_organization_id uuid;
+  v_draft candidates_profiles%rowtype;
+  v_existing candidates_profiles%rowtype;
+  v_in_organization boolean := false;
+  v_candidate_id uuid;
+  v_application_id uuid;
+  v_outcome text;
+  v_message text;
+begin
+  if p_duplicate_mode not in ('skip', 'attach', 'update') then
+    raise exception 'Unknown duplicate mode %', p_duplicate_mode
+      using errcode = '22023';
+  end if;
+
+  select organization_id into v_organization_id
+  from jobs
+  where id = p_job_id;
+
+  if v_organization_id is null then
+    raise exception 'Job not found' using errcode = 'P0002';
+  end if;
+
+  if coalesce(public.get_user_role_in_org(auth.uid(), v_organization_id), '')
+    not in ('admin', 'hr')
+  then
+    raise exception 'Only admins and HR can add candidates'
+      using errcode = '42501';
+  end if;
+
+  v_draft := jsonb_populate_record(null::candidates_profiles, p_profile);
+  v_draft.candidate_email := lower(trim(v_draft.candidate_email));
+
+  if coalesce(v_draft.candidate_email, '') = '' or coalesce(trim(v_draft.name), '') = '' then
+    raise exception 'Name and email are required' using errcode = '22023';
+  end if;
+
+  select *
+  into v_existing
+  from candidates_profiles
+  where lower(candidate_email) = v_draft.candidate_email
+  order by created_at
+  limit 1
+  for update;
+
+  if found then
+    v_candidate_id := v_existing.id;
+
+    select exists (
+      select 1
+      from job_applications ja
+      join jobs j on j.id = ja.job_id
+      where ja.candidate_id = v_existing.id
+        and j.organization_id = v_organization_id
+    )
+    into v_in_organization;
+  end if;
+
+  if v_in_organization then
+    if p_duplicate_mode = 'skip' then
+      return json_build_object(
+        'outcome', 'skipped',
+        'message', 'A candidate with this email already exists',
+        'candidate_id', v_candidate_id,
+        'application_id', null
+      );
+    end if;
+
+    select id into v_application_id
+    from job_applications
+    where candidate_id = v_candidate_id
+      and job_id = p_job_id;
+
+    if v_application_id is not null then
+      return json_build_object(
+        'outcome', 'skipped',
+        'message', 'This candidate already applied to the job',
+        'candidate_id', v_candidate_id,
+        'application_id', v_application_id
+      );
+    end if;
+
+    v_outcome := 'attached';
+
+    if p_duplicate_mode = 'update' then
+      if v_existing.auth_id is not null then
+        v_message := 'The candidate manages this profile, so its fields were not filled';
+      elsif exists (
+        select 1
+        from job_applications ja
+        join jobs j on j.id = ja.job_id
+        where ja.candidate_id = v_candidate_id
+          and j.organization_id is distinct from v_organization_id
+      ) then
+        v_message := 'The profile is shared with another organization, so its fields were not filled';
+      else
+        -- Only empty fields are filled; recorded values are never replaced
+        update candidates_profiles
+        set
+          mobile_number = coalesce(mobile_number, v_draft.mobile_number),
+          linkedin_url = coalesce(linkedin_url, v_draft.linkedin_url),
+          portfolio_url = coalesce(portfolio_url, v_draft.portfolio_url),
+          address = coalesce(address, v_draft.address),
+          current_ctc = coalesce(current_ctc, v_draft.current_ctc),
+          expected_ctc = coalesce(expected_ctc, v_draft.expected_ctc),
+          notice_period = coalesce(notice_period, v_draft.notice_period),
+          resume_link = coalesce(resume_link, v_draft.resume_link),
+          updated_at = now()
+        where id = v_candidate_id;
+
+        v_outcome := 'updated';
+      end if;
+    end if;
+  elsif v_candidate_id is not null then
+    v_outcome := 'created';
+  else
+    insert into candidates_profiles (
+      name,
+      candidate_email,
+      mobile_number,
+      linkedin_url,
+      portfolio_url,
+      address,
+      current_ctc,
+      expected_ctc,
+      notice_period,
+      resume_link
+    )
+    values (
+      trim(v_draft.name),
+      v_draft.candidate_email,
+      v_draft.mobile_number,
+      v_draft.linkedin_url,
+      v_draft.portfolio_url,
+      v_draft.address,
+      v_draft.current_ctc,
+      v_draft.expected_ctc,
+      v_draft.notice_period,
+      v_draft.resume_link
+    )
+    returning id into v_candidate_id;
+
+    v_outcome := 'created';
+  end if;
+
+  -- Experience and education go only on profiles this call created or filled
+  if v_outcome = 'updated' or v_existing.id is null then
+    insert into experience (
+      profile_id,
+      company_name,
+      job_title,
+      start_date,
+      end_date,
+      currently_working
+    )
+    select
+      v_candidate_id,
+      e.company_name,
+      e.job_title,
+      e.start_date,
+      e.end_date,
+      e.currently_working
+    from jsonb_populate_recordset(null::experience, p_experience) e;
+
+    insert into education (
+      profile_id,
+      college_university,
+      degree,
+      field_of_study,
+      start_date,
+      end_date,
+      is_current
+    )
+    select
+      v_candidate_id,
+      e.college_university,
+      e.degree,
+      e.field_of_study,
+      e.start_date,
+      e.end_date,
+      e.is_current
+    from jsonb_populate_recordset(null::education, p_education) e;
+  end if;
+
+  insert into job_applications (candidate_id, job_id, application_status, source)
+  values (v_candidate_id, p_job_id, p_status, p_source)
+  returning id into v_application_id;
+
+  insert into application_status_history (
+    application_id,
+    old_status,
+    new_status,
+    changed_by,
+    reason
+  )
+  values (
+    v_application_id,
+    null,
+    p_status,
+    auth.uid(),
+    nullif(trim(p_reason), '')
+  );
+
+  return json_build_object(
+    'outcome', v_outcome,
+    'message', v_message,
+    'candidate_id', v_candidate_id,
+    'application_id', v_application_id
+  );
+end;
+$$;
+
+revoke execute on function public.save_candidate_draft(
+  uuid, text, text, text, text, jsonb, jsonb, jsonb
+) from public;
+grant execute on function public.save_candidate_draft(
+  uuid, text, text, text, text, jsonb, jsonb, jsonb
+) to authenticated;
@@ -0,0 +1,279 @@
+-- Moves an offer through approval and sending. Each function locks the
+-- offer and reads its status, the job's salary band and the approvals from
+-- the database, so two people acting on the same offer cannot both succeed
+-- and a stale page cannot skip a step.
+--
+-- They run as definer because approvers may be members without write
+-- access to offers; each checks the caller itself.
+
+-- Whether an offer falls outside its job's salary range. A bound of 0 means
+-- the job has none, as on the careers pages.
+create or replace function public.offer_out_of_band(p_offer_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (nullif(j.salary_min, 0) is not null and o.offered_ctc < j.salary_min)
+      or (nullif(j.salary_max, 0) is not null and o.offered_ctc > j.salary_max),
+    false
+  )
+  from offers o
+  join job_applications ja on ja.id = o.application_id
+  join jobs j on j.id = ja.job_id
+  where o.id = p_offer_id;
+$$;
+
+revoke execute on function public.offer_out_of_band(uuid) from public;
+
+-- Locks an offer and returns its organization, after checking the caller
+-- is an admin or HR member who can access the application
+create or replace function public.lock_offer_for_manager(p_offer_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_application_id uuid;
+  v_organization_id uuid;
+begin
+  select o.application_id into v_application_id
+  from offers o
+  where o.id = p_offer_id
+  for update;
+
+  if v_application_id is null then
+    raise exception 'Offer not found' using errcode = 'P0002';
+  end if;
+
+  select j.organization_id into v_organization_id
+  from job_applications ja
+  join jobs j on j.id = ja.job_id
+  where ja.id = v_application_id;
+
+  if coalesce(public.get_user_role_in_org(auth.uid(), v_organization_id), '')
+    not in ('admin', 'hr')
+    or not public.can_access_application(v_application_id)
+  then
+    raise exception 'Only admins and HR can manage offers'
+      using errcode = '42501';
+  end if;
+
+  return v_organization_id;
+end;
+$$;
+
+revoke execute on function public.lock_offer_for_manager(uuid) from public;
+
+-- Starts a new approval round for a draft: one step per member of the
+-- organization's chain, then an admin step when the offer is out of band.
+-- Decisions from an earlier, rejected round do not carry over.
+create or replace function public.submit_offer_for_approval(p_offer_id uuid)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_organization_id uuid;
+  v_offer offers%rowtype;
+  v_out_of_band boolean;
+  v_steps integer;
+begin
+  v_organization_id := public.lock_offer_for_manager(p_offer_id);
+
+  select * into v_offer from offers where id = p_offer_id;
+
+  if v_offer.status <> 'draft' then
+    raise exception 'Only draft offers can be submitted for approval'
+      using errcode = '55000';
+  end if;
+
+  v_out_of_band := public.offer_out_of_band(p_offer_id);
+
+  delete from offer_approvals where offer_id = p_offer_id;
+
+  insert into offer_approvals (offer_id, position, approver_id, admin_required)
+  select
+    p_offer_id,
+    (row_number() over (order by oa.position, oa.created_at) - 1)::integer,
+    oa.user_id,
+    false
+  from offer_approvers oa
+  where oa.organization_id = v_organization_id;
+
+  get diagnostics v_steps = row_count;
+
+  if v_out_of_band then
+    insert into offer_approvals (offer_id, position, approver_id, admin_required)
+    values (p_offer_id, v_steps, null, true);
+    v_steps := v_steps + 1;
+  end if;
+
+  if v_steps = 0 then
+    raise exception 'This offer does not need approval and can be sent'
+      using errcode = '55000';
+  end if;
+
+  update offers
+  set status = 'pending_approval', out_of_band = v_out_of_band, updated_at = now()
+  where id = p_offer_id;
+
+  return json_build_object('id', p_offer_id, 'status', 'pending_approval');
+end;
+$$;
+
+revoke execute on function public.submit_offer_for_approval(uuid) from public;
+grant execute on function public.submit_offer_for_approval(uuid) to authenticated;
+
+-- Approves or rejects the step waiting for a decision. A rejection sends the
+-- offer back to draft.
+create or replace function public.decide_offer_approval(
+  p_offer_id uuid,
+  p_decision text,
+  p_comment text default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_offer offers%rowtype;
+  v_organization_id uuid;
+  v_step offer_approvals%rowtype;
+  v_comment text := nullif(trim(p_comment), '');
+begin
+  if p_decision not in ('approved', 'rejected') then
+    raise exception 'Unknown decision %', p_decision using errcode = '22023';
+  end if;
+
+  select * into v_offer from offers where id = p_offer_id for update;
+
+  if v_offer.id is null then
+    raise exception 'Offer not found' using errcode = 'P0002';
+  end if;
+
+  select j.organization_id into v_organization_id
+  from job_applications ja
+  join jobs j on j.id = ja.job_id
+  where ja.id = v_offer.application_id;
+
+  if v_offer.status <> 'pending_approval' then
+    raise exception 'This offer is not waiting for approval'
+      using errcode = '55000';
+  end if;
+
+  select *
+  into v_step
+  from offer_approvals
+  where offer_id = p_offer_id
+    and decision = 'pending'
+  order by position
+  limit 1;
+
+  if v_step.id is null then
+    raise exception 'This offer is not waiting for approval'
+      using errcode = '55000';
+  end if;
+
+  if v_step.admin_required then
+    if public.get_user_role_in_org(auth.uid(), v_organization_id)
+      is distinct from 'admin'
+    then
+      raise exception 'Only an admin can approve an offer outside the salary band'
+        using errcode = '42501';
+    end if;
+  elsif v_step.approver_id is distinct from auth.uid()
+    or public.get_user_role_in_org(auth.uid(), v_organization_id) is null
+  then
+    raise exception 'This approval step is assigned to someone else'
+      using errcode = '42501';
+  end if;
+
+  if p_decision = 'rejected' and v_comment is null then
+    raise exception 'Say why the offer is rejected' using errcode = '22023';
+  end if;
+
+  update offer_approvals
+  set
+    decision = p_decision,
+    comment = v_comment,
+    decided_by = auth.uid(),
+    decided_at = now()
+  where id = v_step.id;
+
+  if p_decision = 'rejected' then
+    update offers
+    set status = 'draft', updated_at = now()
+    where id = p_offer_id;
+  end if;
+
+  return json_build_object(
+    'id', p_offer_id,
+    'status', case when p_decision = 'rejected' then 'draft' else v_offer.status end
+  );
+end;
+$$;
+
+revoke execute on function public.decide_offer_approval(uuid, text, text) from public;
+grant execute on function public.decide_offer_approval(uuid, text, text) to authenticated;
+
+-- Marks an offer as sent. Drafts can be sent directly only when the
+-- organization has no approval chain and the offer is within the band;
+-- otherwise every step of the current round must be approved.
+create or replace function public.send_offer(p_offer_id uuid)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_organization_id uuid;
+  v_offer offers%rowtype;
+begin
+  v_organization_id := public.lock_offer_for_manager(p_offer_id);
+
+  select * into v_offer from offers where id = p_offer_id;
+
+  if v_offer.status = 'draft' then
+    if public.offer_out_of_band(p_offer_id)
+      or exists (
+        select 1
+        from offer_approvers
+        where organization_id = v_organization_id
+      )
+    then
+      raise exception 'Submit the offer for approval before sending it'
+        using errcode = '55000';
+    end if;
+  elsif v_offer.status <> 'pending_approval'
+    or not exists (select 1 from offer_approvals where offer_id = p_offer_id)
+    or exists (
+      select 1
+      from offer_approvals
+      where offer_id = p_offer_id
+        and decision <> 'approved'
+    )
+  then
+    raise exception 'The offer has not been approved yet' using errcode = '55000';
+  end if;
+
+  if v_offer.expires_at < current_date then
+    raise exception 'The offer has expired; change its expiry first'
+      using errcode = '55000';
+  end if;
+
+  update offers
+  set status = 'sent', sent_at = now(), updated_at = now()
+  where id = p_offer_id;
+
+  return json_build_object('id', p_offer_id, 'status', 'sent');
+end;
+$$;
+
+revoke execute on function public.send_offer(uuid) from public;
+grant execute on function public.send_offer(uuid) to authenticated;